@@ -0,0 +1,15 @@
+import { ResetPasswordForm } from "@/components/auth/ResetPasswordForm";
+
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8 bg-gray-50">
+      <ResetPasswordForm token={token ?? ""} />
+    </div>
+  );
+}
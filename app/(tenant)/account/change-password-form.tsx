@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { PasswordInput } from "@/components/ui/PasswordInput";
+import { NewPasswordFields, isNewPasswordReady, type PasswordRules } from "@/components/auth/NewPasswordFields";
+
+export function ChangePasswordForm({ rules }: { rules: PasswordRules }) {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setSaved(false);
+    setLoading(true);
+    try {
+      const res = await fetch("/api/account/password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to change password");
+        return;
+      }
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      setSaved(true);
+    } catch {
+      setError("Something went wrong");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <Card className="mt-6 max-w-xl border-slate-200">
+      <CardHeader>
+        <CardTitle>Change password</CardTitle>
+        <CardDescription>Your other devices are signed out after the change</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="currentPassword">Current Password</Label>
+            <PasswordInput
+              id="currentPassword"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              disabled={loading}
+              autoComplete="current-password"
+              required
+            />
+          </div>
+          <NewPasswordFields
+            rules={rules}
+            password={newPassword}
+            confirm={confirmPassword}
+            onPasswordChange={setNewPassword}
+            onConfirmChange={setConfirmPassword}
+            disabled={loading}
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {saved && <p className="text-sm text-green-600">Password changed</p>}
+          <Button
+            type="submit"
+            disabled={loading || !currentPassword || !isNewPasswordReady(rules, newPassword, confirmPassword)}
+          >
+            {loading ? "Saving..." : "Change Password"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,34 @@
+import { getSession } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { passwordService } from "@/lib/services/passwordService";
+import { twoFactorService } from "@/lib/services/twoFactorService";
+import { ChangePasswordForm } from "./change-password-form";
+import { TwoFactorCard } from "./two-factor-card";
+
+export default async function AccountPage() {
+  const session = await getSession();
+  if (!session?.tenantId) redirect("/login");
+
+  const [policy, twoFactor] = await Promise.all([
+    passwordService.getPolicy(session.tenantId),
+    twoFactorService.getStatus(session.userId),
+  ]);
+  if (!twoFactor.data) redirect("/login");
+
+  return (
+    <div>
+      <h1 className="text-2xl font-semibold text-slate-900">Account Settings</h1>
+      <p className="mt-1 text-slate-600">
+        {session.fullName} · {session.email}
+      </p>
+      <ChangePasswordForm rules={policy} />
+      <TwoFactorCard
+        initialStatus={{
+          enabled: twoFactor.data.enabled,
+          required: twoFactor.data.required,
+          recoveryCodesRemaining: twoFactor.data.recoveryCodesRemaining,
+        }}
+      />
+    </div>
+  );
+}
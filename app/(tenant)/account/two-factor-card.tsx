@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PasswordInput } from "@/components/ui/PasswordInput";
+import { AuthenticatorSetup, RecoveryCodeList } from "@/components/auth/TwoFactorChallenge";
+
+export interface TwoFactorCardStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+type Step = "IDLE" | "PASSWORD" | "SCAN";
+
+export function TwoFactorCard({ initialStatus }: { initialStatus: TwoFactorCardStatus }) {
+  const [status, setStatus] = useState(initialStatus);
+  const [step, setStep] = useState<Step>("IDLE");
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  async function call(url: string, method: string, body: unknown) {
+    setError("");
+    setLoading(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Request failed");
+        return null;
+      }
+      return data;
+    } catch {
+      setError("Something went wrong");
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function startEnrollment(e: React.FormEvent) {
+    e.preventDefault();
+    const data = await call("/api/account/two-factor/enroll", "POST", { currentPassword });
+    if (!data) return;
+    setCurrentPassword("");
+    setEnrollment(data.data);
+    setStep("SCAN");
+  }
+
+  async function confirmEnrollment(e: React.FormEvent) {
+    e.preventDefault();
+    const data = await call("/api/account/two-factor/confirm", "POST", { code: code.trim() });
+    setCode("");
+    if (!data) return;
+    setRecoveryCodes(data.data.recoveryCodes);
+    setStatus((s) => ({ ...s, enabled: true, recoveryCodesRemaining: data.data.recoveryCodes.length }));
+    setEnrollment(null);
+    setStep("IDLE");
+  }
+
+  async function regenerateCodes() {
+    const data = await call("/api/account/two-factor/recovery-codes", "POST", { code: code.trim() });
+    setCode("");
+    if (!data) return;
+    setRecoveryCodes(data.data.recoveryCodes);
+    setStatus((s) => ({ ...s, recoveryCodesRemaining: data.data.recoveryCodes.length }));
+  }
+
+  async function disable() {
+    if (!confirm("Turn off two-factor authentication for your account?")) return;
+    const data = await call("/api/account/two-factor", "DELETE", { code: code.trim() });
+    setCode("");
+    if (!data) return;
+    setRecoveryCodes([]);
+    setStatus((s) => ({ ...s, enabled: false, recoveryCodesRemaining: 0 }));
+  }
+
+  function cancel() {
+    setStep("IDLE");
+    setEnrollment(null);
+    setCurrentPassword("");
+    setCode("");
+    setError("");
+  }
+
+  return (
+    <Card className="mt-6 max-w-xl border-slate-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-factor authentication
+          {status.enabled ? (
+            <Badge className="bg-green-100 text-green-700 border-green-200">On</Badge>
+          ) : (
+            <Badge variant="outline">Off</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          {status.required
+            ? "Required for your role: a code from your authenticator app is asked at every sign-in"
+            : "Ask for a code from your authenticator app at every sign-in"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes.length > 0 && <RecoveryCodeList codes={recoveryCodes} />}
+
+        {!status.enabled && step === "IDLE" && (
+          <Button onClick={() => setStep("PASSWORD")}>Set Up Authenticator</Button>
+        )}
+
+        {step === "PASSWORD" && (
+          <form onSubmit={startEnrollment} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="twoFactorPassword">Current Password</Label>
+              <PasswordInput
+                id="twoFactorPassword"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                disabled={loading}
+                autoComplete="current-password"
+                required
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-2">
+              <Button type="submit" disabled={loading || !currentPassword}>
+                {loading ? "Checking..." : "Continue"}
+              </Button>
+              <Button type="button" variant="outline" onClick={cancel} disabled={loading}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {step === "SCAN" && enrollment && (
+          <form onSubmit={confirmEnrollment} className="space-y-4">
+            <AuthenticatorSetup enrollment={enrollment} />
+            <div className="space-y-2">
+              <Label htmlFor="twoFactorConfirmCode">Code from your app</Label>
+              <Input
+                id="twoFactorConfirmCode"
+                inputMode="numeric"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={loading}
+                autoComplete="one-time-code"
+                required
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-2">
+              <Button type="submit" disabled={loading || code.trim().length < 6}>
+                {loading ? "Verifying..." : "Turn On"}
+              </Button>
+              <Button type="button" variant="outline" onClick={cancel} disabled={loading}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {status.enabled && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="twoFactorManageCode">Current code</Label>
+              <Input
+                id="twoFactorManageCode"
+                placeholder="123456 or xxxxx-xxxxx"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={loading}
+                autoComplete="one-time-code"
+              />
+              <p className="text-xs text-muted-foreground">Needed to replace recovery codes or turn 2FA off</p>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={regenerateCodes} disabled={loading || code.trim().length < 6}>
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button variant="destructive" onClick={disable} disabled={loading || code.trim().length < 6}>
+                  Turn Off
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,378 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription,
+} from "@/components/ui/dialog";
+import { DataTable } from "@/components/ui/DataTable";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { useToast } from "@/components/ui/Toast";
+import {
+  RefreshCw, GitMerge, Home, ChevronRight, Undo2, Loader2,
+} from "lucide-react";
+import { format } from "date-fns";
+import { PatientMergeDrawer } from "@/components/patients/patient-merge-drawer";
+
+interface DuplicatePatient {
+  id: string;
+  uhid: string;
+  name: string;
+  gender: string;
+  dateOfBirth: string | null;
+  ageYears: number | null;
+  primaryMobile: string;
+  aadhaarLast4: string | null;
+}
+
+interface DuplicateCandidate {
+  id: string;
+  score: number;
+  reasons: string[];
+  patients: [DuplicatePatient, DuplicatePatient];
+}
+
+interface MergeRecord {
+  id: string;
+  status: "MERGED" | "UNMERGED";
+  survivor: { id: string; uhid: string; name: string };
+  merged: { id: string; uhid: string; name: string };
+  reason: string;
+  movedRecordCount: number;
+  mergedAt: string;
+  mergedByName: string | null;
+  unmergedAt: string | null;
+  unmergedByName: string | null;
+  unmergeReason: string | null;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  MERGED: "bg-blue-100 text-blue-800",
+  UNMERGED: "bg-slate-100 text-slate-700",
+};
+
+function scoreColor(score: number) {
+  if (score >= 85) return "bg-red-100 text-red-800";
+  if (score >= 70) return "bg-amber-100 text-amber-800";
+  return "bg-slate-100 text-slate-700";
+}
+
+function Breadcrumb() {
+  return (
+    <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+      <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-400">Admin</span>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-900 font-medium">Patient Merge</span>
+    </nav>
+  );
+}
+
+function PatientCell({ patient }: { patient: DuplicatePatient }) {
+  return (
+    <div>
+      <div className="font-medium">{patient.name}</div>
+      <div className="text-xs text-slate-500">
+        {patient.uhid} · {patient.gender} · {patient.dateOfBirth ? format(new Date(patient.dateOfBirth), "dd MMM yyyy") : patient.ageYears !== null ? `${patient.ageYears} Y` : "-"}
+      </div>
+      <div className="text-xs text-slate-500">
+        {patient.primaryMobile}{patient.aadhaarLast4 ? ` · Aadhaar ••${patient.aadhaarLast4}` : ""}
+      </div>
+    </div>
+  );
+}
+
+export default function PatientMergePage() {
+  const { addToast } = useToast();
+
+  // Likely duplicates
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [candidatesLoading, setCandidatesLoading] = useState(true);
+  const [minScore, setMinScore] = useState("60");
+  const [mergePair, setMergePair] = useState<[string, string] | null>(null);
+
+  // History
+  const [history, setHistory] = useState<MergeRecord[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("ALL");
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursorHistory, setCursorHistory] = useState<string[]>([]);
+  const [limit] = useState(20);
+
+  // Unmerge
+  const [unmergeTarget, setUnmergeTarget] = useState<MergeRecord | null>(null);
+  const [unmergeReason, setUnmergeReason] = useState("");
+  const [unmerging, setUnmerging] = useState(false);
+
+  const fetchCandidates = useCallback(async () => {
+    setCandidatesLoading(true);
+    try {
+      const res = await fetch(`/api/patients/duplicates?minScore=${minScore}`);
+      const result = await res.json();
+      if (result.success) {
+        setCandidates((result.data as Omit<DuplicateCandidate, "id">[]).map((c) => ({
+          ...c,
+          id: `${c.patients[0].id}:${c.patients[1].id}`,
+        })));
+      } else {
+        setCandidates([]);
+        addToast("error", result.message || "Failed to load duplicates");
+      }
+    } catch {
+      setCandidates([]);
+      addToast("error", "Network error");
+    } finally {
+      setCandidatesLoading(false);
+    }
+  }, [minScore, addToast]);
+
+  const fetchHistory = useCallback(async (pageCursor?: string | null) => {
+    setHistoryLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: limit.toString(), status: statusFilter });
+      if (pageCursor) params.append("cursor", pageCursor);
+      const res = await fetch(`/api/patients/merge?${params}`);
+      const result = await res.json();
+      if (result.success) {
+        setHistory(result.data || []);
+        setCursor(result.pagination?.cursor || null);
+        setHasMore(result.pagination?.hasMore || false);
+      } else {
+        setHistory([]);
+        addToast("error", result.message || "Failed to load merge history");
+      }
+    } catch {
+      setHistory([]);
+      addToast("error", "Network error");
+    } finally {
+      setHistoryLoading(false);
+    }
+  }, [statusFilter, limit, addToast]);
+
+  useEffect(() => { fetchCandidates(); }, [fetchCandidates]);
+  useEffect(() => { setCursorHistory([]); setCursor(null); fetchHistory(null); }, [fetchHistory]);
+
+  const handleNext = () => { if (cursor) { setCursorHistory((p) => [...p, cursor]); fetchHistory(cursor); } };
+  const handlePrev = () => { const h = [...cursorHistory]; h.pop(); setCursorHistory(h); fetchHistory(h[h.length - 1] || null); };
+
+  const handleMerged = () => {
+    fetchCandidates();
+    setCursorHistory([]);
+    fetchHistory(null);
+  };
+
+  const handleUnmerge = async () => {
+    if (!unmergeTarget) return;
+    setUnmerging(true);
+    try {
+      const res = await fetch(`/api/patients/merge/${unmergeTarget.id}/unmerge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: unmergeReason }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        const kept: string[] = result.data.keptGroups || [];
+        addToast(
+          "success",
+          kept.length > 0
+            ? `${unmergeTarget.merged.uhid} restored. ${kept.join(", ")} edited since the merge and left unchanged on ${unmergeTarget.survivor.uhid}.`
+            : `${unmergeTarget.merged.uhid} restored`
+        );
+        setUnmergeTarget(null);
+        handleMerged();
+      } else {
+        addToast("error", result.message || "Unmerge failed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setUnmerging(false);
+    }
+  };
+
+  const candidateColumns = [
+    {
+      key: "score" as keyof DuplicateCandidate, header: "Score",
+      render: (v: number) => <Badge className={scoreColor(v)}>{v}</Badge>,
+    },
+    {
+      key: "patients" as keyof DuplicateCandidate, header: "Patient A",
+      render: (v: DuplicateCandidate["patients"]) => <PatientCell patient={v[0]} />,
+    },
+    {
+      key: "uhid", header: "Patient B",
+      render: (_: unknown, row: DuplicateCandidate) => <PatientCell patient={row.patients[1]} />,
+    },
+    {
+      key: "reasons" as keyof DuplicateCandidate, header: "Matched On",
+      render: (v: string[]) => (
+        <div className="flex flex-wrap gap-1">
+          {v.map((r) => (
+            <span key={r} className={`text-xs px-2 py-0.5 rounded-full ${r === "Different gender" ? "bg-red-50 text-red-700" : "bg-slate-100 text-slate-700"}`}>{r}</span>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: "id" as keyof DuplicateCandidate, header: "",
+      render: (_: string, row: DuplicateCandidate) => (
+        <Button variant="outline" size="sm" onClick={() => setMergePair([row.patients[0].id, row.patients[1].id])}>
+          <GitMerge className="h-4 w-4 mr-1" /> Review
+        </Button>
+      ),
+    },
+  ];
+
+  const historyColumns = [
+    {
+      key: "survivor" as keyof MergeRecord, header: "Survivor",
+      render: (v: MergeRecord["survivor"]) => <div><div className="font-medium">{v.name}</div><div className="text-xs text-slate-500">{v.uhid}</div></div>,
+    },
+    {
+      key: "merged" as keyof MergeRecord, header: "Merged Duplicate",
+      render: (v: MergeRecord["merged"]) => <div><div className="font-medium">{v.name}</div><div className="text-xs text-slate-500">{v.uhid}</div></div>,
+    },
+    { key: "reason" as keyof MergeRecord, header: "Reason", render: (v: string) => <span className="text-sm">{v}</span> },
+    { key: "movedRecordCount" as keyof MergeRecord, header: "Records Moved", render: (v: number) => <span className="text-sm">{v}</span> },
+    {
+      key: "mergedAt" as keyof MergeRecord, header: "Merged",
+      render: (v: string, row: MergeRecord) => (
+        <div className="text-sm">
+          <div>{format(new Date(v), "PP p")}</div>
+          {row.mergedByName && <div className="text-xs text-slate-500">{row.mergedByName}</div>}
+        </div>
+      ),
+    },
+    {
+      key: "status" as keyof MergeRecord, header: "Status",
+      render: (v: string, row: MergeRecord) => (
+        <div>
+          <Badge className={STATUS_COLORS[v] || "bg-slate-100 text-slate-700"}>{v}</Badge>
+          {row.unmergedAt && (
+            <div className="text-xs text-slate-500 mt-1" title={row.unmergeReason || undefined}>
+              {format(new Date(row.unmergedAt), "PP")}{row.unmergedByName ? ` · ${row.unmergedByName}` : ""}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: "id" as keyof MergeRecord, header: "",
+      render: (_: string, row: MergeRecord) => row.status === "MERGED" ? (
+        <Button variant="ghost" size="sm" onClick={() => { setUnmergeReason(""); setUnmergeTarget(row); }}>
+          <Undo2 className="h-4 w-4 mr-1" /> Unmerge
+        </Button>
+      ) : null,
+    },
+  ];
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <Breadcrumb />
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-100 rounded-lg"><GitMerge className="h-6 w-6 text-blue-600" /></div>
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900">Patient Merge</h1>
+            <p className="text-sm text-slate-500">Find duplicate UHIDs and merge them into one record</p>
+          </div>
+        </div>
+
+        {/* Likely duplicates */}
+        <GlassCard className="p-0 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <h2 className="font-semibold text-slate-900">Likely Duplicates</h2>
+            <div className="flex items-center gap-2">
+              <Select value={minScore} onValueChange={setMinScore}>
+                <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="85">Score 85+ (strong)</SelectItem>
+                  <SelectItem value="70">Score 70+</SelectItem>
+                  <SelectItem value="60">Score 60+</SelectItem>
+                  <SelectItem value="40">Score 40+ (loose)</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="icon" onClick={fetchCandidates} disabled={candidatesLoading}>
+                <RefreshCw className={`h-4 w-4 ${candidatesLoading ? "animate-spin" : ""}`} />
+              </Button>
+            </div>
+          </div>
+          <DataTable columns={candidateColumns} data={candidates} loading={candidatesLoading} emptyMessage="No likely duplicates found" />
+        </GlassCard>
+
+        {/* History */}
+        <GlassCard className="p-0 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <h2 className="font-semibold text-slate-900">Merge History</h2>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All</SelectItem>
+                <SelectItem value="MERGED">Merged</SelectItem>
+                <SelectItem value="UNMERGED">Unmerged</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <DataTable columns={historyColumns} data={history} loading={historyLoading} emptyMessage="No merges yet" />
+          <div className="flex items-center justify-end px-4 py-3 border-t gap-2">
+            <Button variant="outline" size="sm" onClick={handlePrev} disabled={cursorHistory.length === 0}>Previous</Button>
+            <Button variant="outline" size="sm" onClick={handleNext} disabled={!hasMore}>Next <ChevronRight className="h-4 w-4 ml-1" /></Button>
+          </div>
+        </GlassCard>
+
+        <PatientMergeDrawer
+          isOpen={!!mergePair}
+          pair={mergePair}
+          onClose={() => setMergePair(null)}
+          onMerged={handleMerged}
+        />
+
+        <Dialog open={!!unmergeTarget} onOpenChange={(open) => !open && setUnmergeTarget(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Undo2 className="h-5 w-5" />
+                Unmerge {unmergeTarget?.merged.uhid}
+              </DialogTitle>
+              <DialogDescription>
+                Records moved from <strong>{unmergeTarget?.merged.uhid}</strong> go back and the record is reactivated.
+                Visits, bills and other records created on <strong>{unmergeTarget?.survivor.uhid}</strong> after the
+                merge stay where they are.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Reason *</label>
+              <Input
+                autoFocus
+                placeholder="e.g. Different patients with the same mobile"
+                value={unmergeReason}
+                onChange={(e) => setUnmergeReason(e.target.value)}
+              />
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setUnmergeTarget(null)}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleUnmerge} disabled={!unmergeReason.trim() || unmerging}>
+                {unmerging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Unmerge
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </PageTransition>
+  );
+}
@@ -1,9 +1,10 @@
 import { getSession } from "@/lib/auth";
 import { requirePermission } from "@/lib/rbac";
 import { redirect } from "next/navigation";
-import { getDoctorPerformance } from "@/lib/reporting/clinicalReports";
+import { getDoctorPerformance, getDiagnosisStats, getDiagnosisChapterStats } from "@/lib/reporting/clinicalReports";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { BarChart3, ArrowLeft } from "lucide-react";
+import { ICD10_CHAPTERS } from "@/lib/services/icd-codes";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { serializeData } from "@/lib/utils";
@@ -25,6 +26,15 @@ export default async function ClinicalReportPage() {
   const doctorPerformanceRaw = await getDoctorPerformance(session.tenantId, startDate, endDate);
   const doctorPerformance = serializeData(doctorPerformanceRaw) as any[];
 
+  const [diagnosisRaw, chapterRaw] = await Promise.all([
+    getDiagnosisStats(session.tenantId, { startDate, endDate, limit: 10 }),
+    getDiagnosisChapterStats(session.tenantId, { startDate, endDate }),
+  ]);
+  const topDiagnoses = serializeData(diagnosisRaw) as Array<{ code: string; description: string; chapter: string; count: number; primaryCount: number }>;
+  const chapters = serializeData(chapterRaw) as Array<{ chapter: string; chapterTitle: string | null; count: number; distinctCodes: number }>;
+  const chapterTitle = (chapter: string, title: string | null) =>
+    title || ICD10_CHAPTERS.find((c) => c.chapter === chapter)?.title || "";
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -38,7 +48,7 @@ export default async function ClinicalReportPage() {
             <BarChart3 className="h-6 w-6 text-blue-600" />
             Clinical Insights
           </h1>
-          <p className="text-sm text-slate-500">Doctor performance & patient volume</p>
+          <p className="text-sm text-slate-500">Doctor performance, patient volume & diagnosis prevalence (last 30 days)</p>
         </div>
       </div>
 
@@ -58,6 +68,46 @@ export default async function ClinicalReportPage() {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-slate-600 uppercase tracking-wider">Top Diagnoses (ICD-10)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {topDiagnoses.length > 0 ? topDiagnoses.map((d) => (
+                <div key={d.code} className="flex justify-between items-center gap-4 text-sm border-b border-slate-100 pb-2">
+                  <span className="text-slate-700">
+                    <span className="font-mono font-medium">{d.code}</span> {d.description}
+                  </span>
+                  <span className="text-slate-500 whitespace-nowrap">
+                    {Number(d.count)} ({Number(d.primaryCount)} primary)
+                  </span>
+                </div>
+              )) : <span className="text-slate-500 text-sm">No coded diagnoses</span>}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-slate-600 uppercase tracking-wider">Diagnoses by ICD-10 Chapter</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {chapters.length > 0 ? chapters.map((c) => (
+                <div key={c.chapter} className="flex justify-between items-center gap-4 text-sm border-b border-slate-100 pb-2">
+                  <span className="text-slate-700">
+                    <span className="font-medium">Chapter {c.chapter}</span> {chapterTitle(c.chapter, c.chapterTitle)}
+                  </span>
+                  <span className="text-slate-500 whitespace-nowrap">
+                    {Number(c.count)} diagnoses · {Number(c.distinctCodes)} codes
+                  </span>
+                </div>
+              )) : <span className="text-slate-500 text-sm">No coded diagnoses</span>}
+            </div>
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -2,6 +2,9 @@ import { getSession } from "@/lib/auth";
 import { requirePermission } from "@/lib/rbac";
 import { redirect } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import OnlineBookingSettings from "@/components/appointments/OnlineBookingSettings";
+import PasswordPolicySettings from "@/components/auth/PasswordPolicySettings";
+import TwoFactorSettings from "@/components/auth/TwoFactorSettings";
 
 export default async function AdminSettingsPage() {
   const session = await getSession();
@@ -25,6 +28,9 @@ export default async function AdminSettingsPage() {
           <p className="text-sm text-slate-500">Settings UI can be extended with TenantSetting key-value store.</p>
         </CardContent>
       </Card>
+      <OnlineBookingSettings />
+      <PasswordPolicySettings />
+      <TwoFactorSettings />
     </div>
   );
 }
@@ -24,6 +24,10 @@ export default async function AdminUsersPage() {
         fullName: true,
         mobile: true,
         isActive: true,
+        mustChangePassword: true,
+        lockedAt: true,
+        lockedUntil: true,
+        twoFactorEnabled: true,
         createdAt: true,
         userRoles: { include: { role: { select: { id: true, code: true, name: true } } } },
       },
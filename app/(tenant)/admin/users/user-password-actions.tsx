@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { KeyRound, LockOpen, ShieldOff } from "lucide-react";
+
+const formatDateTime = (value: string | Date) =>
+  new Date(value).toLocaleString("en-IN", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+type Action = "unlock" | "reset" | "twoFactor";
+
+const ACTION_PATHS: Record<Action, string> = {
+  unlock: "unlock",
+  reset: "reset-link",
+  twoFactor: "two-factor",
+};
+
+export function isUserLocked(user: { lockedAt: string | Date | null; lockedUntil: string | Date | null }) {
+  return !!user.lockedAt && (!user.lockedUntil || new Date(user.lockedUntil) > new Date());
+}
+
+export function UserPasswordActions({
+  user,
+  onChanged,
+}: {
+  user: {
+    id: string;
+    isActive: boolean;
+    mustChangePassword: boolean;
+    lockedAt: string | Date | null;
+    lockedUntil: string | Date | null;
+    twoFactorEnabled: boolean;
+  };
+  onChanged: () => void;
+}) {
+  const [busy, setBusy] = useState<Action | null>(null);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+  const locked = isUserLocked(user);
+
+  const run = async (action: Action) => {
+    if (action === "reset" && !confirm("Email this user a password reset link?")) return;
+    if (
+      action === "twoFactor" &&
+      !confirm("Remove this user's two-factor authentication? They will sign in with their password only (or set it up again if their role requires it).")
+    )
+      return;
+
+    setError("");
+    setMessage("");
+    setBusy(action);
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}/${ACTION_PATHS[action]}`, {
+        method: action === "twoFactor" ? "DELETE" : "POST",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error ?? "Something went wrong");
+        return;
+      }
+      setMessage(
+        action === "unlock"
+          ? "Account unlocked"
+          : action === "twoFactor"
+            ? "Two-factor authentication removed"
+            : `Reset link sent to ${data.sentTo}, valid until ${formatDateTime(data.expiresAt)}`
+      );
+      onChanged();
+    } catch {
+      setError("Something went wrong");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium text-slate-900">Password & Sign-in</h4>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {locked ? (
+          <Badge variant="destructive">
+            Locked{user.lockedUntil ? ` until ${formatDateTime(user.lockedUntil)}` : ""}
+          </Badge>
+        ) : (
+          <Badge variant="secondary">Not locked</Badge>
+        )}
+        {user.mustChangePassword && <Badge variant="outline">Must change password</Badge>}
+        {user.twoFactorEnabled && <Badge variant="outline">2FA on</Badge>}
+      </div>
+
+      <div className="flex gap-2">
+        {locked && (
+          <Button type="button" variant="outline" size="sm" onClick={() => run("unlock")} disabled={busy !== null}>
+            <LockOpen className="h-4 w-4 mr-1" />
+            Unlock
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => run("reset")}
+          disabled={busy !== null || !user.isActive}
+        >
+          <KeyRound className="h-4 w-4 mr-1" />
+          Send reset link
+        </Button>
+        {user.twoFactorEnabled && (
+          <Button type="button" variant="outline" size="sm" onClick={() => run("twoFactor")} disabled={busy !== null}>
+            <ShieldOff className="h-4 w-4 mr-1" />
+            Reset 2FA
+          </Button>
+        )}
+      </div>
+
+      {message && <p className="text-sm text-green-600">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
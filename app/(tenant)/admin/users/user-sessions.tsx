@@ -0,0 +1,125 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Monitor, LogOut } from "lucide-react";
+
+type UserSession = {
+  id: string;
+  deviceLabel: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  isCurrent: boolean;
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-IN", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+export function UserSessions({ userId }: { userId: string }) {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/users/${userId}/sessions`);
+      if (res.ok) {
+        setSessions(await res.json());
+      }
+    } catch (err) {
+      console.error("Failed to load sessions:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const revoke = async (sessionId: string | null) => {
+    const message = sessionId ? "Sign out this device?" : "Sign this user out of all devices?";
+    if (!confirm(message)) return;
+
+    setError("");
+    setRevokingId(sessionId ?? "all");
+    try {
+      const url = sessionId
+        ? `/api/admin/users/${userId}/sessions/${sessionId}`
+        : `/api/admin/users/${userId}/sessions`;
+      const res = await fetch(url, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error ?? "Failed to revoke session");
+      }
+      await load();
+    } catch {
+      setError("Something went wrong");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-slate-900">Active Sessions</h4>
+        {sessions.length > 0 && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => revoke(null)}
+            disabled={revokingId !== null}
+          >
+            <LogOut className="h-4 w-4 mr-1" />
+            Sign out everywhere
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Loading sessions…</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-slate-500">Not signed in on any device</p>
+      ) : (
+        <div className="divide-y border border-slate-200 rounded-md">
+          {sessions.map((s) => (
+            <div key={s.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+              <Monitor className="h-4 w-4 text-slate-400" />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-slate-900">
+                  {s.deviceLabel ?? "Unknown device"}
+                  {s.isCurrent && (
+                    <Badge variant="secondary" className="ml-2">
+                      This device
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {s.ipAddress ?? "Unknown IP"} · Signed in {formatDateTime(s.createdAt)} · Last active{" "}
+                  {formatDateTime(s.lastUsedAt)}
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => revoke(s.id)}
+                disabled={revokingId !== null}
+              >
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Plus, Pencil, Trash2 } from "lucide-react";
 import { formatDate } from "@/lib/utils/date-utils";
+import { UserSessions } from "./user-sessions";
+import { UserPasswordActions, isUserLocked } from "./user-password-actions";
 
 type Role = { id: string; code: string; name: string };
 type User = {
@@ -22,6 +24,10 @@ type User = {
   fullName: string;
   mobile: string | null;
   isActive: boolean;
+  mustChangePassword: boolean;
+  lockedAt: string | Date | null;
+  lockedUntil: string | Date | null;
+  twoFactorEnabled: boolean;
   createdAt: string | Date;
   userRoles: { role: Role }[];
 };
@@ -129,8 +135,8 @@ export function UsersTable({
       return;
     }
 
-    if (!editingUser && (!password || password.length < 6)) {
-      setFormError("Password must be at least 6 characters.");
+    if (!editingUser && !password) {
+      setFormError("Password is required.");
       return;
     }
 
@@ -231,10 +237,13 @@ export function UsersTable({
     {
       key: "isActive",
       header: "Status",
-      render: (value: boolean) => (
-        <Badge variant={value ? "default" : "secondary"}>
-          {value ? "Active" : "Inactive"}
-        </Badge>
+      render: (value: boolean, row: User) => (
+        <div className="flex gap-1">
+          <Badge variant={value ? "default" : "secondary"}>
+            {value ? "Active" : "Inactive"}
+          </Badge>
+          {isUserLocked(row) && <Badge variant="destructive">Locked</Badge>}
+        </div>
       ),
     },
     {
@@ -357,7 +366,7 @@ export function UsersTable({
                     type="password"
                     value={formData.password}
                     onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
-                    placeholder="Enter password (min 6 characters)"
+                    placeholder="Must meet the tenant password policy"
                     disabled={formLoading}
                   />
                 </div>
@@ -413,8 +422,24 @@ export function UsersTable({
                 Account is active
               </Label>
             </div>
+            {editingUser && (
+              <p className="text-xs text-slate-500">
+                Deactivating the account or changing its roles signs the user out of all devices.
+              </p>
+            )}
           </div>
 
+          {/* Password & sign-in */}
+          {editingUser && (
+            <UserPasswordActions
+              user={users.find((u) => u.id === editingUser.id) ?? editingUser}
+              onChanged={refresh}
+            />
+          )}
+
+          {/* Sessions */}
+          {editingUser && <UserSessions userId={editingUser.id} />}
+
           {formError && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-md">
               <p className="text-sm text-red-600">{formError}</p>
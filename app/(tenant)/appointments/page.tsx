@@ -8,8 +8,12 @@ import { Label } from "@/components/ui/label";
 import OPDQueueDashboard from "@/components/appointments/OPDQueueDashboard";
 import AppointmentsList from "@/components/appointments/AppointmentsList";
 import AvailabilityManagement from "@/components/appointments/AvailabilityManagement";
+import ScheduleExceptions from "@/components/appointments/ScheduleExceptions";
+import HolidayCalendar from "@/components/appointments/HolidayCalendar";
+import AppointmentReconciliation from "@/components/appointments/AppointmentReconciliation";
+import AppointmentWaitlist from "@/components/appointments/AppointmentWaitlist";
 import { apiClient } from "@/lib/api-client";
-import { Calendar, Users, ListOrdered, Loader2 } from "lucide-react";
+import { Calendar, CalendarOff, ClipboardCheck, Hourglass, Users, ListOrdered, Loader2 } from "lucide-react";
 
 interface Department {
   id: string;
@@ -102,10 +106,22 @@ export default function AppointmentsPage() {
             <Calendar className="h-4 w-4" />
             All Appointments
           </TabsTrigger>
+          <TabsTrigger value="waitlist" className="gap-2">
+            <Hourglass className="h-4 w-4" />
+            Waitlist
+          </TabsTrigger>
           <TabsTrigger value="doctors" className="gap-2">
             <Users className="h-4 w-4" />
             Doctor Schedules
           </TabsTrigger>
+          <TabsTrigger value="holidays" className="gap-2">
+            <CalendarOff className="h-4 w-4" />
+            Holidays
+          </TabsTrigger>
+          <TabsTrigger value="reconciliation" className="gap-2">
+            <ClipboardCheck className="h-4 w-4" />
+            Reconciliation
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="queue">
@@ -116,6 +132,12 @@ export default function AppointmentsPage() {
           <AppointmentsList />
         </TabsContent>
 
+        <TabsContent value="waitlist">
+          <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-4">
+            <AppointmentWaitlist />
+          </div>
+        </TabsContent>
+
         <TabsContent value="doctors">
           <div className="bg-white rounded-lg border border-slate-200 shadow-sm">
             {/* Doctor Selection */}
@@ -191,15 +213,34 @@ export default function AppointmentsPage() {
                   </p>
                 </div>
               ) : (
-                <AvailabilityManagement
-                  doctorId={selectedDoctor.id}
-                  doctorName={selectedDoctor.fullName}
-                  departments={departments}
-                />
+                <div className="space-y-8">
+                  <AvailabilityManagement
+                    doctorId={selectedDoctor.id}
+                    doctorName={selectedDoctor.fullName}
+                    departments={departments}
+                  />
+                  <ScheduleExceptions
+                    doctorId={selectedDoctor.id}
+                    doctorName={selectedDoctor.fullName}
+                    departments={departments}
+                  />
+                </div>
               )}
             </div>
           </div>
         </TabsContent>
+
+        <TabsContent value="holidays">
+          <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-4">
+            <HolidayCalendar />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="reconciliation">
+          <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-4">
+            <AppointmentReconciliation />
+          </div>
+        </TabsContent>
       </Tabs>
     </motion.div>
   );
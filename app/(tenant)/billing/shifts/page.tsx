@@ -0,0 +1,43 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getSession } from "@/lib/auth";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { CashierShifts } from "@/components/billing/cashier-shifts";
+import { Home, ChevronRight, Wallet } from "lucide-react";
+
+export default async function CashierShiftsPage() {
+  const session = await getSession();
+  if (!session?.tenantId) redirect("/login");
+
+  const canOperate = session.permissions.includes("CASHIER_SHIFT_OPERATE");
+  const canViewAll = session.permissions.includes("CASHIER_SHIFT_VIEW");
+  if (!canOperate && !canViewAll) redirect("/dashboard");
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+          <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+          <ChevronRight className="h-4 w-4" />
+          <span className="text-slate-400">Billing</span>
+          <ChevronRight className="h-4 w-4" />
+          <span className="text-slate-900 font-medium">Cashier Shifts</span>
+        </nav>
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-emerald-100 rounded-lg"><Wallet className="h-6 w-6 text-emerald-600" /></div>
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900">Cashier Shifts</h1>
+            <p className="text-sm text-slate-500">Open and close counter shifts and reconcile day-end collections</p>
+          </div>
+        </div>
+
+        <CashierShifts
+          currentUserId={session.userId}
+          canOperate={canOperate}
+          canViewAll={canViewAll}
+          canApprove={session.permissions.includes("CASHIER_SHIFT_APPROVE")}
+        />
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,441 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { useToast } from "@/components/ui/Toast";
+import {
+  FileText, Home, ChevronRight, Printer, Save, Lock, Plus, Trash2, Loader2, CheckCircle,
+} from "lucide-react";
+import { format } from "date-fns";
+
+interface Medication {
+  medicineName: string;
+  dosage?: string;
+  frequency?: string;
+  duration?: string;
+  instructions?: string;
+}
+
+interface SummaryContent {
+  finalDiagnosis?: string;
+  presentingComplaints?: string;
+  courseInHospital?: string;
+  investigations?: string;
+  proceduresPerformed?: string;
+  conditionAtDischarge?: string;
+  dischargeMedications: Medication[];
+  followUpPlan?: string;
+  followUpDate?: string;
+  dietAdvice?: string;
+  specialInstructions?: string;
+}
+
+interface SummaryView {
+  admission: {
+    id: string;
+    admissionNumber: string;
+    status: "ADMITTED" | "DISCHARGED";
+    patientName: string;
+    uhid: string;
+    gender: string;
+    ageYears: number | null;
+    doctorName: string | null;
+    departmentName: string | null;
+    wardName: string | null;
+    bedLabel: string | null;
+    admittedAt: string;
+    dischargedAt: string | null;
+    dischargeType: string | null;
+  };
+  summary: {
+    id: string;
+    status: "DRAFT" | "FINALIZED";
+    lastSavedAt: string | null;
+    finalizedAt: string | null;
+    finalizedByName: string | null;
+  } | null;
+  content: SummaryContent;
+  sources: {
+    consultations: Array<{ id: string; date: string; doctorName: string; chiefComplaint: string; diagnosis: string | null; codedDiagnoses: string[]; treatmentPlan: string | null }>;
+    labResults: Array<{ id: string; testName: string; result: string; unit: string | null; flag: string | null; isCritical: boolean }>;
+    prescriptions: Array<{ id: string; date: string; doctorName: string; items: Medication[] }>;
+    pharmacyIssues: Array<{ productName: string; genericName: string; quantity: number }>;
+  };
+  canEdit: boolean;
+}
+
+type TextField = Exclude<keyof SummaryContent, "dischargeMedications" | "followUpDate">;
+
+const TEXT_SECTIONS: { key: TextField; label: string; rows: number; required?: boolean }[] = [
+  { key: "finalDiagnosis", label: "Final Diagnosis", rows: 3, required: true },
+  { key: "presentingComplaints", label: "Presenting Complaints", rows: 3 },
+  { key: "courseInHospital", label: "Course in Hospital", rows: 6, required: true },
+  { key: "investigations", label: "Investigations", rows: 5 },
+  { key: "proceduresPerformed", label: "Procedures Performed", rows: 2 },
+  { key: "conditionAtDischarge", label: "Condition at Discharge", rows: 2, required: true },
+];
+
+const ADVICE_SECTIONS: { key: TextField; label: string; rows: number }[] = [
+  { key: "followUpPlan", label: "Follow-up Plan", rows: 3 },
+  { key: "dietAdvice", label: "Diet Advice", rows: 2 },
+  { key: "specialInstructions", label: "Special Instructions", rows: 2 },
+];
+
+const EMPTY_MEDICATION: Medication = { medicineName: "", dosage: "", frequency: "", duration: "", instructions: "" };
+
+function Breadcrumb({ admissionNumber }: { admissionNumber?: string }) {
+  return (
+    <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+      <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+      <ChevronRight className="h-4 w-4" />
+      <Link href="/ipd/admissions" className="hover:text-blue-600">Admissions</Link>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-900 font-medium">Discharge Summary{admissionNumber ? ` — ${admissionNumber}` : ""}</span>
+    </nav>
+  );
+}
+
+export default function DischargeSummaryPage() {
+  const params = useParams();
+  const admissionId = params.id as string;
+  const { addToast } = useToast();
+
+  const [view, setView] = useState<SummaryView | null>(null);
+  const [content, setContent] = useState<SummaryContent>({ dischargeMedications: [] });
+  const [loading, setLoading] = useState(true);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [finalizing, setFinalizing] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const autosaveTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const canEdit = view?.canEdit ?? false;
+
+  const loadSummary = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/ipd/admissions/${admissionId}/discharge-summary`);
+      const result = await res.json();
+      if (result.success) {
+        setView(result.data);
+        setContent(result.data.content);
+        setLastSavedAt(result.data.summary?.lastSavedAt ?? null);
+        setDirty(false);
+      } else {
+        addToast("error", result.message || "Failed to load discharge summary");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setLoading(false);
+    }
+  }, [admissionId, addToast]);
+
+  useEffect(() => { loadSummary(); }, [loadSummary]);
+
+  // ============== AUTOSAVE ==============
+
+  const saveDraft = useCallback(async (manual = false) => {
+    if (!canEdit) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/ipd/admissions/${admissionId}/discharge-summary`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        setLastSavedAt(result.data.lastSavedAt);
+        setDirty(false);
+        if (manual) addToast("success", "Draft saved");
+      } else if (manual || result.errorCode === "DISCHARGE_SUMMARY_LOCKED") {
+        addToast("error", result.message || "Failed to save draft");
+      }
+    } catch (err) {
+      console.error("Failed to save discharge summary draft:", err);
+    } finally {
+      setSaving(false);
+    }
+  }, [admissionId, content, canEdit, addToast]);
+
+  useEffect(() => {
+    if (!canEdit || !dirty) return;
+
+    if (autosaveTimerRef.current) {
+      clearTimeout(autosaveTimerRef.current);
+    }
+
+    autosaveTimerRef.current = setTimeout(() => {
+      saveDraft();
+    }, 10000); // 10 seconds
+
+    return () => {
+      if (autosaveTimerRef.current) {
+        clearTimeout(autosaveTimerRef.current);
+      }
+    };
+  }, [dirty, saveDraft, canEdit]);
+
+  // ============== EDITING ==============
+
+  const update = (patch: Partial<SummaryContent>) => {
+    setContent((prev) => ({ ...prev, ...patch }));
+    setDirty(true);
+  };
+
+  const updateMedication = (index: number, patch: Partial<Medication>) => {
+    update({
+      dischargeMedications: content.dischargeMedications.map((m, i) => (i === index ? { ...m, ...patch } : m)),
+    });
+  };
+
+  const appendText = (key: TextField, text: string) => {
+    const current = content[key] || "";
+    update({ [key]: current ? `${current}\n${text}` : text });
+  };
+
+  const handleFinalize = async () => {
+    if (!confirm("Finalize this discharge summary? It cannot be edited afterwards.")) return;
+    setFinalizing(true);
+    try {
+      const res = await fetch(`/api/ipd/admissions/${admissionId}/discharge-summary/finalize`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          content: { ...content, dischargeMedications: content.dischargeMedications.filter((m) => m.medicineName.trim()) },
+        }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Discharge summary finalized");
+        setView(result.data);
+        setContent(result.data.content);
+        setDirty(false);
+      } else {
+        addToast("error", result.message || "Failed to finalize");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setFinalizing(false);
+    }
+  };
+
+  const handlePrint = async () => {
+    if (dirty && canEdit) await saveDraft();
+    window.open(`/print/discharge-summary/${admissionId}`, "_blank");
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24 text-slate-500">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" /> Loading discharge summary...
+      </div>
+    );
+  }
+
+  if (!view) {
+    return <div className="p-6 text-slate-500">Discharge summary not available.</div>;
+  }
+
+  const { admission, sources } = view;
+  const isFinal = view.summary?.status === "FINALIZED";
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <Breadcrumb admissionNumber={admission.admissionNumber} />
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg"><FileText className="h-6 w-6 text-blue-600" /></div>
+            <div>
+              <div className="flex items-center gap-2">
+                <h1 className="text-2xl font-semibold text-slate-900">{admission.patientName}</h1>
+                <Badge className={isFinal ? "bg-green-100 text-green-800" : "bg-amber-100 text-amber-800"}>
+                  {isFinal ? "FINALIZED" : "DRAFT"}
+                </Badge>
+              </div>
+              <p className="text-sm text-slate-500">
+                {admission.uhid} · {admission.admissionNumber} · Admitted {format(new Date(admission.admittedAt), "PP")}
+                {admission.dischargedAt ? ` · Discharged ${format(new Date(admission.dischargedAt), "PP")}` : " · Still admitted"}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {canEdit && (
+              <span className="text-xs text-slate-500 mr-2">
+                {saving ? "Saving..." : dirty ? "Unsaved changes" : lastSavedAt ? `Saved ${format(new Date(lastSavedAt), "p")}` : ""}
+              </span>
+            )}
+            <Button variant="outline" onClick={handlePrint} disabled={!view.summary && !dirty}>
+              <Printer className="h-4 w-4 mr-2" />Print
+            </Button>
+            {canEdit && (
+              <>
+                <Button variant="outline" onClick={() => saveDraft(true)} disabled={saving}>
+                  <Save className="h-4 w-4 mr-2" />Save Draft
+                </Button>
+                <Button onClick={handleFinalize} disabled={finalizing || admission.status !== "DISCHARGED"} title={admission.status !== "DISCHARGED" ? "Discharge the patient first" : undefined}>
+                  <CheckCircle className="h-4 w-4 mr-2" />{finalizing ? "Finalizing..." : "Finalize"}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {isFinal && (
+          <div className="flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">
+            <Lock className="h-4 w-4" />
+            Finalized{view.summary?.finalizedByName ? ` by ${view.summary.finalizedByName}` : ""}
+            {view.summary?.finalizedAt ? ` on ${format(new Date(view.summary.finalizedAt), "PPp")}` : ""}. The summary is locked.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Summary form */}
+          <div className="lg:col-span-2 space-y-6">
+            <GlassCard className="p-6 space-y-4">
+              {TEXT_SECTIONS.map((section) => (
+                <div key={section.key}>
+                  <Label>{section.label}{section.required ? " *" : ""}</Label>
+                  <Textarea
+                    rows={section.rows}
+                    value={content[section.key] || ""}
+                    onChange={(e) => update({ [section.key]: e.target.value })}
+                    disabled={!canEdit}
+                  />
+                </div>
+              ))}
+            </GlassCard>
+
+            <GlassCard className="p-6 space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-slate-700">Discharge Medications</h2>
+                {canEdit && (
+                  <Button variant="outline" size="sm" onClick={() => update({ dischargeMedications: [...content.dischargeMedications, { ...EMPTY_MEDICATION }] })}>
+                    <Plus className="h-4 w-4 mr-1" />Add
+                  </Button>
+                )}
+              </div>
+              {content.dischargeMedications.length === 0 && (
+                <p className="text-sm text-slate-400">No medications</p>
+              )}
+              {content.dischargeMedications.map((med, idx) => (
+                <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+                  <Input className="col-span-4" placeholder="Medicine" value={med.medicineName} disabled={!canEdit} onChange={(e) => updateMedication(idx, { medicineName: e.target.value })} />
+                  <Input className="col-span-2" placeholder="Dose" value={med.dosage || ""} disabled={!canEdit} onChange={(e) => updateMedication(idx, { dosage: e.target.value })} />
+                  <Input className="col-span-2" placeholder="Frequency" value={med.frequency || ""} disabled={!canEdit} onChange={(e) => updateMedication(idx, { frequency: e.target.value })} />
+                  <Input className="col-span-2" placeholder="Duration" value={med.duration || ""} disabled={!canEdit} onChange={(e) => updateMedication(idx, { duration: e.target.value })} />
+                  <Input className="col-span-1" placeholder="Notes" value={med.instructions || ""} disabled={!canEdit} onChange={(e) => updateMedication(idx, { instructions: e.target.value })} />
+                  {canEdit && (
+                    <Button variant="ghost" size="icon" className="col-span-1" onClick={() => update({ dischargeMedications: content.dischargeMedications.filter((_, i) => i !== idx) })}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </GlassCard>
+
+            <GlassCard className="p-6 space-y-4">
+              {ADVICE_SECTIONS.map((section) => (
+                <div key={section.key}>
+                  <Label>{section.label}</Label>
+                  <Textarea
+                    rows={section.rows}
+                    value={content[section.key] || ""}
+                    onChange={(e) => update({ [section.key]: e.target.value })}
+                    disabled={!canEdit}
+                  />
+                </div>
+              ))}
+              <div className="max-w-xs">
+                <Label>Follow-up Date</Label>
+                <Input type="date" value={content.followUpDate || ""} disabled={!canEdit} onChange={(e) => update({ followUpDate: e.target.value })} />
+              </div>
+            </GlassCard>
+          </div>
+
+          {/* Source records from the stay */}
+          <div className="space-y-4">
+            <GlassCard className="p-4 text-sm space-y-1">
+              <h2 className="font-semibold text-slate-700 mb-1">Admission</h2>
+              <p>Consultant: {admission.doctorName || "—"}{admission.departmentName ? ` (${admission.departmentName})` : ""}</p>
+              <p>Bed: {admission.wardName ? `${admission.wardName} — ${admission.bedLabel}` : "—"}</p>
+              {admission.dischargeType && <p>Discharge type: {admission.dischargeType}</p>}
+            </GlassCard>
+
+            <GlassCard className="p-4 space-y-2">
+              <h2 className="text-sm font-semibold text-slate-700">Consultations ({sources.consultations.length})</h2>
+              {sources.consultations.map((c) => (
+                <div key={c.id} className="rounded border border-slate-200 p-2 text-xs">
+                  <div className="flex justify-between text-slate-500">
+                    <span>{format(new Date(c.date), "dd MMM p")}</span>
+                    <span>{c.doctorName}</span>
+                  </div>
+                  <p className="text-slate-800">{c.diagnosis || c.chiefComplaint}</p>
+                  {c.treatmentPlan && <p className="text-slate-600">{c.treatmentPlan}</p>}
+                  {canEdit && (
+                    <button type="button" className="text-blue-600 hover:underline mt-1" onClick={() => appendText("courseInHospital", `${format(new Date(c.date), "dd MMM")}: ${c.diagnosis || c.chiefComplaint}${c.treatmentPlan ? ` — ${c.treatmentPlan}` : ""}`)}>
+                      Add to course
+                    </button>
+                  )}
+                </div>
+              ))}
+            </GlassCard>
+
+            <GlassCard className="p-4 space-y-2">
+              <h2 className="text-sm font-semibold text-slate-700">Lab Results ({sources.labResults.length})</h2>
+              {sources.labResults.map((r) => (
+                <div key={r.id} className="flex items-center justify-between text-xs">
+                  <span className="text-slate-700">{r.testName}</span>
+                  <span className={r.isCritical ? "text-red-600 font-semibold" : r.flag && r.flag !== "NORMAL" ? "text-amber-700 font-semibold" : "text-slate-800"}>
+                    {r.result}{r.unit ? ` ${r.unit}` : ""}
+                  </span>
+                </div>
+              ))}
+            </GlassCard>
+
+            <GlassCard className="p-4 space-y-2">
+              <h2 className="text-sm font-semibold text-slate-700">Prescriptions ({sources.prescriptions.length})</h2>
+              {sources.prescriptions.map((rx) => (
+                <div key={rx.id} className="rounded border border-slate-200 p-2 text-xs">
+                  <div className="flex justify-between text-slate-500">
+                    <span>{format(new Date(rx.date), "dd MMM p")}</span>
+                    <span>{rx.doctorName}</span>
+                  </div>
+                  {rx.items.map((i, idx) => (
+                    <p key={idx} className="text-slate-800">{i.medicineName} — {i.dosage} {i.frequency} × {i.duration}</p>
+                  ))}
+                  {canEdit && (
+                    <button type="button" className="text-blue-600 hover:underline mt-1" onClick={() => update({ dischargeMedications: rx.items.map((i) => ({ ...i })) })}>
+                      Use as discharge medications
+                    </button>
+                  )}
+                </div>
+              ))}
+            </GlassCard>
+
+            <GlassCard className="p-4 space-y-1">
+              <h2 className="text-sm font-semibold text-slate-700 mb-1">IP Pharmacy Issues</h2>
+              {sources.pharmacyIssues.length === 0 && <p className="text-xs text-slate-400">None</p>}
+              {sources.pharmacyIssues.map((p) => (
+                <div key={p.productName} className="flex justify-between text-xs">
+                  <span className="text-slate-700">{p.productName} <span className="text-slate-400">({p.genericName})</span></span>
+                  <span>{p.quantity}</span>
+                </div>
+              ))}
+            </GlassCard>
+          </div>
+        </div>
+      </div>
+    </PageTransition>
+  );
+}
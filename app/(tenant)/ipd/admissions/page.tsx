@@ -0,0 +1,168 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { DataTable } from "@/components/ui/DataTable";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { useToast } from "@/components/ui/Toast";
+import {
+  Search, RefreshCw, Hospital, Home, ChevronRight, Eye,
+} from "lucide-react";
+import { format } from "date-fns";
+import { AdmissionDrawer } from "@/components/ipd/admission-drawer";
+
+interface AdmissionRecord {
+  id: string;
+  admissionNumber: string;
+  patientId: string;
+  patientName: string;
+  uhid: string;
+  status: string;
+  wardName: string | null;
+  bedLabel: string | null;
+  doctorName: string | null;
+  admittedAt: string;
+  dischargedAt: string | null;
+  lengthOfStayDays: number;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  ADMITTED: "bg-green-100 text-green-800",
+  DISCHARGED: "bg-slate-100 text-slate-700",
+};
+
+function Breadcrumb() {
+  return (
+    <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+      <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-400">IPD</span>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-900 font-medium">Admissions</span>
+    </nav>
+  );
+}
+
+export default function AdmissionsPage() {
+  const [records, setRecords] = useState<AdmissionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursorHistory, setCursorHistory] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("ADMITTED");
+  const [limit] = useState(20);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const fetchData = useCallback(async (pageCursor?: string | null) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: limit.toString(), status: statusFilter });
+      if (searchQuery) params.append("search", searchQuery);
+      if (pageCursor) params.append("cursor", pageCursor);
+      const res = await fetch(`/api/ipd/admissions?${params}`);
+      const result = await res.json();
+      if (result.success) {
+        setRecords(result.data || []);
+        setCursor(result.pagination?.cursor || null);
+        setHasMore(result.pagination?.hasMore || false);
+      } else {
+        setRecords([]);
+        addToast("error", result.message || "Failed to load");
+      }
+    } catch {
+      setRecords([]);
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [searchQuery, statusFilter, limit, addToast]);
+
+  useEffect(() => { setCursorHistory([]); setCursor(null); fetchData(null); }, [fetchData]);
+  useEffect(() => { const t = setTimeout(() => { setCursorHistory([]); setCursor(null); }, 300); return () => clearTimeout(t); }, [searchQuery]);
+
+  const handleNext = () => { if (cursor) { setCursorHistory((p) => [...p, cursor]); fetchData(cursor); } };
+  const handlePrev = () => { const h = [...cursorHistory]; h.pop(); setCursorHistory(h); fetchData(h[h.length - 1] || null); };
+
+  const columns = [
+    { key: "admissionNumber" as keyof AdmissionRecord, header: "Admission #", render: (v: string) => <span className="font-medium text-blue-700">{v}</span> },
+    { key: "patientName" as keyof AdmissionRecord, header: "Patient", render: (v: string, row: AdmissionRecord) => (
+      <div><div className="font-medium">{v}</div><div className="text-xs text-slate-500">{row.uhid}</div></div>
+    ) },
+    { key: "wardName" as keyof AdmissionRecord, header: "Bed", render: (v: string | null, row: AdmissionRecord) => v ? <span className="text-sm">{v} · {row.bedLabel}</span> : <span className="text-slate-400">-</span> },
+    { key: "doctorName" as keyof AdmissionRecord, header: "Consultant", render: (v: string | null) => v || <span className="text-slate-400">-</span> },
+    { key: "admittedAt" as keyof AdmissionRecord, header: "Admitted", render: (v: string) => <span className="text-sm">{format(new Date(v), "PP p")}</span> },
+    { key: "lengthOfStayDays" as keyof AdmissionRecord, header: "LOS", render: (v: number) => <span className="text-sm text-slate-600">{v}d</span> },
+    {
+      key: "status" as keyof AdmissionRecord, header: "Status",
+      render: (v: string) => <Badge className={STATUS_COLORS[v] || "bg-slate-100 text-slate-700"}>{v}</Badge>,
+    },
+    {
+      key: "id" as keyof AdmissionRecord, header: "",
+      render: (v: string) => (
+        <Button variant="ghost" size="icon" onClick={() => setSelectedId(v)}><Eye className="h-4 w-4" /></Button>
+      ),
+    },
+  ];
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <Breadcrumb />
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg"><Hospital className="h-6 w-6 text-blue-600" /></div>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Admissions</h1>
+              <p className="text-sm text-slate-500">Inpatients, bed transfers and discharges</p>
+            </div>
+          </div>
+          <Link href="/ipd/bed-board"><Button variant="outline">Open Bed Board</Button></Link>
+        </div>
+
+        <GlassCard className="p-4">
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+              <Input placeholder="Search admission #, patient, UHID..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-9" />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ADMITTED">Admitted</SelectItem>
+                <SelectItem value="DISCHARGED">Discharged</SelectItem>
+                <SelectItem value="ALL">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={() => fetchData(null)} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </GlassCard>
+
+        <GlassCard className="p-0 overflow-hidden">
+          <DataTable columns={columns} data={records} loading={isLoading} emptyMessage="No admissions found" />
+          <div className="flex items-center justify-end px-4 py-3 border-t gap-2">
+            <Button variant="outline" size="sm" onClick={handlePrev} disabled={cursorHistory.length === 0}>Previous</Button>
+            <Button variant="outline" size="sm" onClick={handleNext} disabled={!hasMore}>Next <ChevronRight className="h-4 w-4 ml-1" /></Button>
+          </div>
+        </GlassCard>
+
+        <AdmissionDrawer
+          isOpen={!!selectedId}
+          admissionId={selectedId}
+          onClose={() => setSelectedId(null)}
+          onChanged={() => fetchData(null)}
+        />
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { useToast } from "@/components/ui/Toast";
+import { BedDouble, RefreshCw, Home, ChevronRight, User } from "lucide-react";
+import { AdmitPatientDrawer, type AdmitBedOption } from "@/components/ipd/admit-patient-drawer";
+import { AdmissionDrawer } from "@/components/ipd/admission-drawer";
+
+type BedStatus = "AVAILABLE" | "OCCUPIED" | "RESERVED" | "CLEANING" | "MAINTENANCE";
+
+interface BoardBed {
+  id: string;
+  bedNumber: string;
+  roomNumber: string;
+  bedStatus: BedStatus;
+  notes: string | null;
+  version: number;
+  admission: {
+    id: string;
+    admissionNumber: string;
+    patientName: string;
+    uhid: string;
+    gender: string;
+    doctorName: string | null;
+    admittedAt: string;
+  } | null;
+}
+
+interface BoardWard {
+  id: string;
+  code: string;
+  name: string;
+  wardType: string;
+  floor: string | null;
+  summary: Record<BedStatus, number> & { total: number; occupancyPercent: number };
+  beds: BoardBed[];
+}
+
+const BED_STYLES: Record<BedStatus, string> = {
+  AVAILABLE: "border-emerald-300 bg-emerald-50 text-emerald-800 hover:bg-emerald-100",
+  OCCUPIED: "border-blue-300 bg-blue-50 text-blue-900 hover:bg-blue-100",
+  RESERVED: "border-amber-300 bg-amber-50 text-amber-800 hover:bg-amber-100",
+  CLEANING: "border-purple-300 bg-purple-50 text-purple-800 hover:bg-purple-100",
+  MAINTENANCE: "border-slate-300 bg-slate-100 text-slate-600 hover:bg-slate-200",
+};
+
+const STATUS_LABELS: Record<BedStatus, string> = {
+  AVAILABLE: "Available",
+  OCCUPIED: "Occupied",
+  RESERVED: "Reserved",
+  CLEANING: "Cleaning",
+  MAINTENANCE: "Maintenance",
+};
+
+const MANUAL_STATUSES: BedStatus[] = ["AVAILABLE", "RESERVED", "CLEANING", "MAINTENANCE"];
+
+function Breadcrumb() {
+  return (
+    <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+      <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-400">IPD</span>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-900 font-medium">Bed Board</span>
+    </nav>
+  );
+}
+
+export default function BedBoardPage() {
+  const [wards, setWards] = useState<BoardWard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [wardFilter, setWardFilter] = useState("ALL");
+  const [admitBed, setAdmitBed] = useState<AdmitBedOption | null>(null);
+  const [admissionId, setAdmissionId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const fetchBoard = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch("/api/ipd/bed-board");
+      const result = await res.json();
+      if (result.success) {
+        setWards(result.data || []);
+      } else {
+        setWards([]);
+        addToast("error", result.message || "Failed to load bed board");
+      }
+    } catch {
+      setWards([]);
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addToast]);
+
+  useEffect(() => { fetchBoard(); }, [fetchBoard]);
+
+  const updateBedStatus = async (bed: BoardBed, bedStatus: BedStatus) => {
+    try {
+      const res = await fetch(`/api/ipd/beds/${bed.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bedStatus, version: bed.version }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", `Bed ${bed.roomNumber}-${bed.bedNumber} marked ${STATUS_LABELS[bedStatus].toLowerCase()}`);
+      } else {
+        addToast("error", result.message || "Failed to update bed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      fetchBoard();
+    }
+  };
+
+  const totals = wards.reduce(
+    (acc, w) => ({ total: acc.total + w.summary.total, occupied: acc.occupied + w.summary.OCCUPIED, available: acc.available + w.summary.AVAILABLE }),
+    { total: 0, occupied: 0, available: 0 }
+  );
+
+  const visibleWards = wardFilter === "ALL" ? wards : wards.filter((w) => w.id === wardFilter);
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <Breadcrumb />
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg"><BedDouble className="h-6 w-6 text-blue-600" /></div>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Bed Board</h1>
+              <p className="text-sm text-slate-500">
+                {totals.occupied} of {totals.total} beds occupied · {totals.available} available
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <Select value={wardFilter} onValueChange={setWardFilter}>
+              <SelectTrigger className="w-[200px]"><SelectValue placeholder="All Wards" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All Wards</SelectItem>
+                {wards.map((w) => <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={fetchBoard} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-3 text-xs">
+          {(Object.keys(STATUS_LABELS) as BedStatus[]).map((s) => (
+            <span key={s} className={`px-2 py-1 rounded border ${BED_STYLES[s]}`}>{STATUS_LABELS[s]}</span>
+          ))}
+        </div>
+
+        {!isLoading && visibleWards.length === 0 && (
+          <GlassCard className="p-8 text-center text-slate-500">
+            No active wards configured. Set up wards, rooms and beds under Masters → Wards &amp; Beds.
+          </GlassCard>
+        )}
+
+        {visibleWards.map((ward) => (
+          <GlassCard key={ward.id} className="p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-slate-900">{ward.name} <span className="text-sm font-normal text-slate-500">({ward.code})</span></h2>
+                <p className="text-xs text-slate-500">{ward.wardType.replace(/_/g, " ")}{ward.floor ? ` · Floor ${ward.floor}` : ""}</p>
+              </div>
+              <div className="flex items-center gap-4 text-xs text-slate-600">
+                <span>Occupied <b>{ward.summary.OCCUPIED}</b></span>
+                <span>Available <b>{ward.summary.AVAILABLE}</b></span>
+                <span>Cleaning <b>{ward.summary.CLEANING}</b></span>
+                <span>Reserved <b>{ward.summary.RESERVED}</b></span>
+                <span>Maint. <b>{ward.summary.MAINTENANCE}</b></span>
+                <span className="font-semibold text-slate-900">{ward.summary.occupancyPercent}%</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+              {ward.beds.map((bed) => {
+                const label = `${bed.roomNumber}-${bed.bedNumber}`;
+                if (bed.bedStatus === "OCCUPIED" && bed.admission) {
+                  return (
+                    <button
+                      key={bed.id}
+                      type="button"
+                      onClick={() => setAdmissionId(bed.admission!.id)}
+                      className={`text-left rounded-lg border p-3 transition-colors ${BED_STYLES.OCCUPIED}`}
+                    >
+                      <div className="flex items-center justify-between text-xs font-semibold">
+                        <span>{label}</span>
+                        <User className="h-3.5 w-3.5" />
+                      </div>
+                      <p className="mt-1 text-sm font-medium truncate">{bed.admission.patientName}</p>
+                      <p className="text-xs opacity-75 truncate">{bed.admission.uhid}</p>
+                      {bed.admission.doctorName && <p className="text-xs opacity-75 truncate">{bed.admission.doctorName}</p>}
+                    </button>
+                  );
+                }
+
+                return (
+                  <DropdownMenu key={bed.id}>
+                    <DropdownMenuTrigger asChild>
+                      <button type="button" className={`text-left rounded-lg border p-3 transition-colors ${BED_STYLES[bed.bedStatus]}`}>
+                        <div className="text-xs font-semibold">{label}</div>
+                        <p className="mt-1 text-sm">{STATUS_LABELS[bed.bedStatus]}</p>
+                        {bed.notes && <p className="text-xs opacity-75 truncate">{bed.notes}</p>}
+                      </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                      {(bed.bedStatus === "AVAILABLE" || bed.bedStatus === "RESERVED") && (
+                        <DropdownMenuItem onClick={() => setAdmitBed({ id: bed.id, label: `${ward.name} ${label}` })}>
+                          Admit patient
+                        </DropdownMenuItem>
+                      )}
+                      {MANUAL_STATUSES.filter((s) => s !== bed.bedStatus).map((s) => (
+                        <DropdownMenuItem key={s} onClick={() => updateBedStatus(bed, s)}>
+                          Mark {STATUS_LABELS[s].toLowerCase()}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                );
+              })}
+            </div>
+          </GlassCard>
+        ))}
+
+        <AdmitPatientDrawer
+          isOpen={!!admitBed}
+          bed={admitBed}
+          onClose={() => setAdmitBed(null)}
+          onSuccess={() => { setAdmitBed(null); fetchBoard(); }}
+        />
+
+        <AdmissionDrawer
+          isOpen={!!admissionId}
+          admissionId={admissionId}
+          onClose={() => setAdmissionId(null)}
+          onChanged={fetchBoard}
+        />
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { DataTable } from "@/components/ui/DataTable";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { useToast } from "@/components/ui/Toast";
+import {
+  Search, RefreshCw, FlaskConical, Home, ChevronRight, AlertTriangle, Eye,
+} from "lucide-react";
+import { format } from "date-fns";
+import { LabOrderDrawer, LAB_STATUS_COLORS } from "@/components/lab/lab-order-drawer";
+
+interface WorklistRecord {
+  id: string;
+  orderNumber: string;
+  orderDate: string;
+  patientName: string;
+  uhid: string;
+  doctorName: string;
+  priority: string;
+  status: string;
+  itemCount: number;
+  collectedCount: number;
+  resultedCount: number;
+  verifiedCount: number;
+  hasCritical: boolean;
+  accessionNumbers: string[];
+}
+
+const PRIORITY_COLORS: Record<string, string> = {
+  EMERGENCY: "bg-red-100 text-red-700",
+  URGENT: "bg-orange-100 text-orange-800",
+  NORMAL: "bg-slate-100 text-slate-700",
+  LOW: "bg-slate-50 text-slate-500",
+};
+
+function Breadcrumb() {
+  return (
+    <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+      <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-400">Laboratory</span>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-900 font-medium">Worklist</span>
+    </nav>
+  );
+}
+
+export default function LabWorklistPage() {
+  const [records, setRecords] = useState<WorklistRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursorHistory, setCursorHistory] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("ACTIVE");
+  const [priorityFilter, setPriorityFilter] = useState("ALL");
+  const [limit] = useState(20);
+  const [activeOrderId, setActiveOrderId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const fetchData = useCallback(async (pageCursor?: string | null) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: limit.toString(), status: statusFilter });
+      if (searchQuery) params.append("search", searchQuery);
+      if (priorityFilter !== "ALL") params.append("priority", priorityFilter);
+      if (pageCursor) params.append("cursor", pageCursor);
+      const res = await fetch(`/api/lab/worklist?${params}`);
+      const result = await res.json();
+      if (result.success) {
+        setRecords(result.data || []);
+        setCursor(result.pagination?.cursor || null);
+        setHasMore(result.pagination?.hasMore || false);
+      } else {
+        setRecords([]);
+        addToast("error", result.message || "Failed to load");
+      }
+    } catch {
+      setRecords([]);
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [searchQuery, statusFilter, priorityFilter, limit, addToast]);
+
+  useEffect(() => { setCursorHistory([]); setCursor(null); fetchData(null); }, [fetchData]);
+
+  const handleNext = () => { if (cursor) { setCursorHistory((p) => [...p, cursor]); fetchData(cursor); } };
+  const handlePrev = () => { const h = [...cursorHistory]; h.pop(); setCursorHistory(h); fetchData(h[h.length - 1] || null); };
+
+  const columns = [
+    { key: "orderNumber" as keyof WorklistRecord, header: "Order #", render: (v: string, row: WorklistRecord) => (
+      <div>
+        <div className="font-medium text-blue-700 flex items-center gap-1">
+          {v}
+          {row.hasCritical && <AlertTriangle className="h-4 w-4 text-red-600" />}
+        </div>
+        {row.accessionNumbers.length > 0 && <div className="text-xs font-mono text-slate-500">{row.accessionNumbers.join(", ")}</div>}
+      </div>
+    ) },
+    { key: "patientName" as keyof WorklistRecord, header: "Patient", render: (v: string, row: WorklistRecord) => (
+      <div><div className="font-medium">{v}</div><div className="text-xs text-slate-500">{row.uhid}</div></div>
+    ) },
+    { key: "doctorName" as keyof WorklistRecord, header: "Doctor", render: (v: string) => <span className="text-sm text-slate-600">{v}</span> },
+    { key: "priority" as keyof WorklistRecord, header: "Priority", render: (v: string) => (
+      <Badge className={PRIORITY_COLORS[v] || "bg-slate-100 text-slate-700"}>{v}</Badge>
+    ) },
+    { key: "itemCount" as keyof WorklistRecord, header: "Progress", render: (v: number, row: WorklistRecord) => (
+      <span className="text-xs text-slate-600">
+        {row.collectedCount}/{v} collected · {row.resultedCount}/{v} resulted · {row.verifiedCount}/{v} verified
+      </span>
+    ) },
+    {
+      key: "status" as keyof WorklistRecord, header: "Status",
+      render: (v: string) => <Badge className={LAB_STATUS_COLORS[v] || "bg-slate-100 text-slate-700"}>{v.replace("_", " ")}</Badge>,
+    },
+    { key: "orderDate" as keyof WorklistRecord, header: "Ordered", render: (v: string) => <span className="text-sm">{format(new Date(v), "PP p")}</span> },
+    {
+      key: "id" as keyof WorklistRecord, header: "Actions",
+      render: (_v: string, row: WorklistRecord) => (
+        <Button variant="ghost" size="sm" onClick={() => setActiveOrderId(row.id)}><Eye className="h-4 w-4 mr-1" />Open</Button>
+      ),
+    },
+  ];
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <Breadcrumb />
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-teal-100 rounded-lg"><FlaskConical className="h-6 w-6 text-teal-600" /></div>
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900">Lab Worklist</h1>
+            <p className="text-sm text-slate-500">Collect samples, enter results and verify lab orders</p>
+          </div>
+        </div>
+
+        <GlassCard className="p-4">
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+              <Input placeholder="Scan accession # or search order, patient..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-9" />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[180px]"><SelectValue placeholder="Active" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ACTIVE">Active</SelectItem>
+                <SelectItem value="ORDERED">Ordered</SelectItem>
+                <SelectItem value="SAMPLE_COLLECTED">Sample Collected</SelectItem>
+                <SelectItem value="IN_PROGRESS">Awaiting Verification</SelectItem>
+                <SelectItem value="COMPLETED">Completed</SelectItem>
+                <SelectItem value="CANCELLED">Cancelled</SelectItem>
+                <SelectItem value="ALL">All Status</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+              <SelectTrigger className="w-[160px]"><SelectValue placeholder="All Priorities" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All Priorities</SelectItem>
+                <SelectItem value="EMERGENCY">Emergency</SelectItem>
+                <SelectItem value="URGENT">Urgent</SelectItem>
+                <SelectItem value="NORMAL">Normal</SelectItem>
+                <SelectItem value="LOW">Low</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={() => fetchData(null)} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </GlassCard>
+
+        <GlassCard className="p-0 overflow-hidden">
+          <DataTable columns={columns} data={records} loading={isLoading} emptyMessage="No lab orders found" />
+          <div className="flex items-center justify-end px-4 py-3 border-t gap-2">
+            <Button variant="outline" size="sm" onClick={handlePrev} disabled={cursorHistory.length === 0}>Previous</Button>
+            <Button variant="outline" size="sm" onClick={handleNext} disabled={!hasMore}>Next <ChevronRight className="h-4 w-4 ml-1" /></Button>
+          </div>
+        </GlassCard>
+
+        <LabOrderDrawer
+          orderId={activeOrderId}
+          onClose={() => setActiveOrderId(null)}
+          onUpdated={() => fetchData(null)}
+        />
+      </div>
+    </PageTransition>
+  );
+}
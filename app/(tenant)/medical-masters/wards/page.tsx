@@ -0,0 +1,352 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Drawer } from "@/components/ui/Drawer";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { useToast } from "@/components/ui/Toast";
+import { BedDouble, Plus, RefreshCw, Home, ChevronRight, DoorOpen } from "lucide-react";
+
+interface WardBed { id: string; bedNumber: string; bedStatus: string; status: string; version: number; }
+interface WardRoom { id: string; roomNumber: string; dailyRate: string | null; notes: string | null; beds: WardBed[]; }
+interface WardRecord {
+  id: string;
+  code: string;
+  name: string;
+  wardType: string;
+  floor: string | null;
+  nurseStation: string | null;
+  department: { id: string; name: string } | null;
+  dailyRate: string | null;
+  status: "ACTIVE" | "INACTIVE";
+  version: number;
+  rooms: WardRoom[];
+}
+interface DepartmentOption { id: string; name: string; }
+
+const WARD_TYPES = [
+  "GENERAL", "SEMI_PRIVATE", "PRIVATE", "ICU", "NICU", "HDU", "EMERGENCY", "MATERNITY", "ISOLATION",
+];
+
+const EMPTY_WARD = { code: "", name: "", wardType: "GENERAL", floor: "", departmentId: "", nurseStation: "", dailyRate: "" };
+
+type DrawerMode =
+  | { kind: "ward"; ward: WardRecord | null }
+  | { kind: "room"; ward: WardRecord }
+  | { kind: "beds"; ward: WardRecord; room: WardRoom }
+  | null;
+
+function Breadcrumb() {
+  return (
+    <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+      <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-400">Masters</span>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-900 font-medium">Wards &amp; Beds</span>
+    </nav>
+  );
+}
+
+export default function WardsPage() {
+  const [wards, setWards] = useState<WardRecord[]>([]);
+  const [departments, setDepartments] = useState<DepartmentOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [drawer, setDrawer] = useState<DrawerMode>(null);
+  const [saving, setSaving] = useState(false);
+  const [wardForm, setWardForm] = useState(EMPTY_WARD);
+  const [roomForm, setRoomForm] = useState({ roomNumber: "", dailyRate: "", notes: "" });
+  const [bedNumbers, setBedNumbers] = useState("");
+  const { addToast } = useToast();
+
+  const fetchWards = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch("/api/ipd/wards?includeInactive=true");
+      const result = await res.json();
+      if (result.success) setWards(result.data || []);
+      else addToast("error", result.message || "Failed to load wards");
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addToast]);
+
+  useEffect(() => { fetchWards(); }, [fetchWards]);
+  useEffect(() => {
+    fetch("/api/departments?status=ACTIVE")
+      .then((r) => r.json())
+      .then((d) => { if (d.success) setDepartments(d.data || []); })
+      .catch(() => {});
+  }, []);
+
+  const openWard = (ward: WardRecord | null) => {
+    setWardForm(ward
+      ? {
+          code: ward.code,
+          name: ward.name,
+          wardType: ward.wardType,
+          floor: ward.floor || "",
+          departmentId: ward.department?.id || "",
+          nurseStation: ward.nurseStation || "",
+          dailyRate: ward.dailyRate || "",
+        }
+      : EMPTY_WARD);
+    setDrawer({ kind: "ward", ward });
+  };
+
+  const openRoom = (ward: WardRecord) => {
+    setRoomForm({ roomNumber: "", dailyRate: "", notes: "" });
+    setDrawer({ kind: "room", ward });
+  };
+
+  const openBeds = (ward: WardRecord, room: WardRoom) => {
+    setBedNumbers("");
+    setDrawer({ kind: "beds", ward, room });
+  };
+
+  const send = async (url: string, method: "POST" | "PATCH", body: object, successMessage: string) => {
+    setSaving(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || successMessage);
+        setDrawer(null);
+        fetchWards();
+        return true;
+      }
+      addToast("error", result.message || "Save failed");
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setSaving(false);
+    }
+    return false;
+  };
+
+  const handleSave = () => {
+    if (!drawer) return;
+    if (drawer.kind === "ward") {
+      const payload = {
+        name: wardForm.name,
+        wardType: wardForm.wardType,
+        floor: wardForm.floor,
+        departmentId: wardForm.departmentId,
+        nurseStation: wardForm.nurseStation,
+        ...(wardForm.dailyRate !== "" && { dailyRate: wardForm.dailyRate }),
+      };
+      if (drawer.ward) {
+        send(`/api/ipd/wards/${drawer.ward.id}`, "PATCH", { ...payload, version: drawer.ward.version }, "Ward updated");
+      } else {
+        send("/api/ipd/wards", "POST", { ...payload, code: wardForm.code }, "Ward created");
+      }
+    } else if (drawer.kind === "room") {
+      send("/api/ipd/rooms", "POST", {
+        wardId: drawer.ward.id,
+        roomNumber: roomForm.roomNumber,
+        notes: roomForm.notes,
+        ...(roomForm.dailyRate !== "" && { dailyRate: roomForm.dailyRate }),
+      }, "Room created");
+    } else {
+      const numbers = bedNumbers.split(",").map((b) => b.trim()).filter(Boolean);
+      send("/api/ipd/beds", "POST", { roomId: drawer.room.id, bedNumbers: numbers }, "Beds created");
+    }
+  };
+
+  const toggleWardStatus = (ward: WardRecord) => {
+    send(
+      `/api/ipd/wards/${ward.id}`,
+      "PATCH",
+      { status: ward.status === "ACTIVE" ? "INACTIVE" : "ACTIVE", version: ward.version },
+      ward.status === "ACTIVE" ? "Ward deactivated" : "Ward activated"
+    );
+  };
+
+  const drawerTitle = !drawer ? "" :
+    drawer.kind === "ward" ? (drawer.ward ? `Edit Ward ${drawer.ward.code}` : "New Ward") :
+    drawer.kind === "room" ? `Add Room — ${drawer.ward.name}` :
+    `Add Beds — ${drawer.ward.name} / Room ${drawer.room.roomNumber}`;
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <Breadcrumb />
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg"><BedDouble className="h-6 w-6 text-blue-600" /></div>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Wards &amp; Beds</h1>
+              <p className="text-sm text-slate-500">Configure wards, rooms, beds and daily bed charges</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={fetchWards} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+            <Button onClick={() => openWard(null)}><Plus className="h-4 w-4 mr-2" />New Ward</Button>
+          </div>
+        </div>
+
+        {!isLoading && wards.length === 0 && (
+          <GlassCard className="p-8 text-center text-slate-500">No wards yet. Create a ward to get started.</GlassCard>
+        )}
+
+        {wards.map((ward) => (
+          <GlassCard key={ward.id} className="p-4 space-y-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h2 className="text-lg font-semibold text-slate-900">{ward.name}</h2>
+                  <span className="text-sm text-slate-500">({ward.code})</span>
+                  <Badge className={ward.status === "ACTIVE" ? "bg-green-100 text-green-800" : "bg-slate-100 text-slate-600"}>{ward.status}</Badge>
+                </div>
+                <p className="text-xs text-slate-500">
+                  {ward.wardType.replace(/_/g, " ")}
+                  {ward.floor ? ` · Floor ${ward.floor}` : ""}
+                  {ward.department ? ` · ${ward.department.name}` : ""}
+                  {ward.dailyRate ? ` · ₹${parseFloat(ward.dailyRate).toLocaleString("en-IN")}/day` : ""}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => openRoom(ward)}><DoorOpen className="h-4 w-4 mr-1" />Add Room</Button>
+                <Button variant="outline" size="sm" onClick={() => openWard(ward)}>Edit</Button>
+                <Button variant="ghost" size="sm" onClick={() => toggleWardStatus(ward)}>
+                  {ward.status === "ACTIVE" ? "Deactivate" : "Activate"}
+                </Button>
+              </div>
+            </div>
+
+            {ward.rooms.length === 0 ? (
+              <p className="text-sm text-slate-400">No rooms configured</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {ward.rooms.map((room) => (
+                  <div key={room.id} className="rounded-lg border border-slate-200 p-3">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-slate-800">Room {room.roomNumber}</span>
+                      <Button variant="ghost" size="sm" onClick={() => openBeds(ward, room)}><Plus className="h-3.5 w-3.5 mr-1" />Beds</Button>
+                    </div>
+                    <p className="text-xs text-slate-500">
+                      {room.dailyRate ? `₹${parseFloat(room.dailyRate).toLocaleString("en-IN")}/day` : "Ward rate"}
+                      {room.notes ? ` · ${room.notes}` : ""}
+                    </p>
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {room.beds.length === 0 && <span className="text-xs text-slate-400">No beds</span>}
+                      {room.beds.map((bed) => (
+                        <span key={bed.id} className="text-xs px-2 py-0.5 rounded bg-slate-100 text-slate-700" title={bed.bedStatus}>
+                          {bed.bedNumber}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </GlassCard>
+        ))}
+
+        <Drawer
+          isOpen={!!drawer}
+          onClose={() => setDrawer(null)}
+          title={drawerTitle}
+          footer={
+            <div className="flex gap-3">
+              <Button className="flex-1" onClick={handleSave} disabled={saving}>{saving ? "Saving..." : "Save"}</Button>
+              <Button variant="outline" onClick={() => setDrawer(null)}>Cancel</Button>
+            </div>
+          }
+        >
+          {drawer?.kind === "ward" && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Code *</Label>
+                  <Input value={wardForm.code} disabled={!!drawer.ward} onChange={(e) => setWardForm({ ...wardForm, code: e.target.value })} placeholder="e.g. GW1" />
+                </div>
+                <div>
+                  <Label>Type</Label>
+                  <Select value={wardForm.wardType} onValueChange={(v) => setWardForm({ ...wardForm, wardType: v })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {WARD_TYPES.map((t) => <SelectItem key={t} value={t}>{t.replace(/_/g, " ")}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label>Name *</Label>
+                <Input value={wardForm.name} onChange={(e) => setWardForm({ ...wardForm, name: e.target.value })} placeholder="e.g. General Ward - Male" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Floor</Label>
+                  <Input value={wardForm.floor} onChange={(e) => setWardForm({ ...wardForm, floor: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Nurse Station</Label>
+                  <Input value={wardForm.nurseStation} onChange={(e) => setWardForm({ ...wardForm, nurseStation: e.target.value })} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Department</Label>
+                  <Select value={wardForm.departmentId} onValueChange={(v) => setWardForm({ ...wardForm, departmentId: v })}>
+                    <SelectTrigger><SelectValue placeholder="None" /></SelectTrigger>
+                    <SelectContent>
+                      {departments.map((d) => <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Daily Bed Rate (₹)</Label>
+                  <Input type="number" min="0" step="0.01" value={wardForm.dailyRate} onChange={(e) => setWardForm({ ...wardForm, dailyRate: e.target.value })} />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {drawer?.kind === "room" && (
+            <div className="space-y-4">
+              <div>
+                <Label>Room Number *</Label>
+                <Input value={roomForm.roomNumber} onChange={(e) => setRoomForm({ ...roomForm, roomNumber: e.target.value })} />
+              </div>
+              <div>
+                <Label>Daily Rate (₹)</Label>
+                <Input type="number" min="0" step="0.01" value={roomForm.dailyRate} onChange={(e) => setRoomForm({ ...roomForm, dailyRate: e.target.value })} placeholder="Leave blank to use the ward rate" />
+              </div>
+              <div>
+                <Label>Notes</Label>
+                <Input value={roomForm.notes} onChange={(e) => setRoomForm({ ...roomForm, notes: e.target.value })} />
+              </div>
+            </div>
+          )}
+
+          {drawer?.kind === "beds" && (
+            <div className="space-y-4">
+              <div>
+                <Label>Bed Numbers *</Label>
+                <Input value={bedNumbers} onChange={(e) => setBedNumbers(e.target.value)} placeholder="e.g. A, B, C" />
+                <p className="text-xs text-slate-500 mt-1">Comma-separated. New beds start as available.</p>
+              </div>
+            </div>
+          )}
+        </Drawer>
+      </div>
+    </PageTransition>
+  );
+}
@@ -8,8 +8,10 @@ import { DataTable } from "@/components/ui/DataTable";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { PageTransition } from "@/components/ui/PageTransition";
 import { useToast } from "@/components/ui/Toast";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CreditAccounts } from "@/components/pharmacy/credit-accounts";
 import {
-  Search, RefreshCw, CreditCard, Home, ChevronRight,
+  Search, RefreshCw, CreditCard, Home, ChevronRight, Users, List,
 } from "lucide-react";
 import { format } from "date-fns";
 
@@ -110,25 +112,44 @@ export default function CreditLedgerPage() {
           </div>
         </div>
 
-        <GlassCard className="p-4">
-          <div className="flex items-center gap-4">
-            <div className="relative flex-1 max-w-sm">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
-              <Input placeholder="Filter by Patient ID..." value={searchPatientId} onChange={(e) => setSearchPatientId(e.target.value)} className="pl-9" />
-            </div>
-            <Button variant="ghost" size="icon" onClick={() => fetchData(null)} disabled={isLoading}>
-              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
-            </Button>
-          </div>
-        </GlassCard>
+        <Tabs defaultValue="accounts" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="accounts" className="gap-2">
+              <Users className="h-4 w-4" />
+              Outstanding Accounts
+            </TabsTrigger>
+            <TabsTrigger value="ledger" className="gap-2">
+              <List className="h-4 w-4" />
+              Ledger Entries
+            </TabsTrigger>
+          </TabsList>
 
-        <GlassCard className="p-0 overflow-hidden">
-          <DataTable columns={columns} data={records} loading={isLoading} emptyMessage="No credit records found" />
-          <div className="flex items-center justify-end px-4 py-3 border-t gap-2">
-            <Button variant="outline" size="sm" onClick={handlePrev} disabled={cursorHistory.length === 0}>Previous</Button>
-            <Button variant="outline" size="sm" onClick={handleNext} disabled={!hasMore}>Next <ChevronRight className="h-4 w-4 ml-1" /></Button>
-          </div>
-        </GlassCard>
+          <TabsContent value="accounts">
+            <CreditAccounts />
+          </TabsContent>
+
+          <TabsContent value="ledger" className="space-y-6">
+            <GlassCard className="p-4">
+              <div className="flex items-center gap-4">
+                <div className="relative flex-1 max-w-sm">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                  <Input placeholder="Filter by Patient ID..." value={searchPatientId} onChange={(e) => setSearchPatientId(e.target.value)} className="pl-9" />
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => fetchData(null)} disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+                </Button>
+              </div>
+            </GlassCard>
+
+            <GlassCard className="p-0 overflow-hidden">
+              <DataTable columns={columns} data={records} loading={isLoading} emptyMessage="No credit records found" />
+              <div className="flex items-center justify-end px-4 py-3 border-t gap-2">
+                <Button variant="outline" size="sm" onClick={handlePrev} disabled={cursorHistory.length === 0}>Previous</Button>
+                <Button variant="outline" size="sm" onClick={handleNext} disabled={!hasMore}>Next <ChevronRight className="h-4 w-4 ml-1" /></Button>
+              </div>
+            </GlassCard>
+          </TabsContent>
+        </Tabs>
       </div>
     </PageTransition>
   );
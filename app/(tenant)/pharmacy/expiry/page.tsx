@@ -8,14 +8,20 @@ import { Badge } from "@/components/ui/badge";
 import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from "@/components/ui/select";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { DataTable } from "@/components/ui/DataTable";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { PageTransition } from "@/components/ui/PageTransition";
 import { useToast } from "@/components/ui/Toast";
 import {
   Search, RefreshCw, AlertTriangle, Home, ChevronRight,
+  MoreHorizontal, Undo2, PackageX,
 } from "lucide-react";
 import { format, differenceInDays } from "date-fns";
+import { VendorReturnFormDrawer, type VendorReturnPreset } from "@/components/pharmacy/vendor-return-form-drawer";
+import { WriteOffFormDrawer, type WriteOffPreset } from "@/components/pharmacy/write-off-form-drawer";
 
 interface ExpiryRecord {
   id: string;
@@ -27,7 +33,9 @@ interface ExpiryRecord {
   quantityReceived: number;
   quantityRejected: number;
   grnNumber: string;
+  storeId: string;
   storeName: string;
+  vendorId: string;
   daysToExpiry: number;
 }
 
@@ -57,6 +65,8 @@ export default function ExpiryDashboardPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [rangeFilter, setRangeFilter] = useState("90"); // days
   const [summaryStats, setSummaryStats] = useState({ expired: 0, within30: 0, within90: 0, within180: 0 });
+  const [returnPreset, setReturnPreset] = useState<VendorReturnPreset | null>(null);
+  const [writeOffPreset, setWriteOffPreset] = useState<WriteOffPreset | null>(null);
   const { addToast } = useToast();
 
   const fetchData = useCallback(async () => {
@@ -107,6 +117,24 @@ export default function ExpiryDashboardPage() {
       render: (v: number, row: ExpiryRecord) => <span className="text-sm">{v - row.quantityRejected} ({v} recv / {row.quantityRejected} rej)</span>,
     },
     { key: "grnNumber" as keyof ExpiryRecord, header: "GRN #", render: (v: string) => <span className="text-sm text-slate-500">{v}</span> },
+    {
+      key: "id" as keyof ExpiryRecord, header: "Actions",
+      render: (_v: string, row: ExpiryRecord) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0"><MoreHorizontal className="h-4 w-4" /></Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => setReturnPreset({ storeId: row.storeId, vendorId: row.vendorId, goodsReceiptItemId: row.id })}>
+              <Undo2 className="h-4 w-4 mr-2" />Return to Vendor
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setWriteOffPreset({ storeId: row.storeId, productId: row.productId, batchNumber: row.batchNumber })} className="text-red-600">
+              <PackageX className="h-4 w-4 mr-2" />Write Off
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
   ];
 
   return (
@@ -166,6 +194,19 @@ export default function ExpiryDashboardPage() {
         <GlassCard className="p-0 overflow-hidden">
           <DataTable columns={columns} data={records} loading={isLoading} emptyMessage="No expiring items found" />
         </GlassCard>
+
+        <VendorReturnFormDrawer
+          isOpen={!!returnPreset}
+          preset={returnPreset}
+          onClose={() => setReturnPreset(null)}
+          onSuccess={() => setReturnPreset(null)}
+        />
+        <WriteOffFormDrawer
+          isOpen={!!writeOffPreset}
+          preset={writeOffPreset}
+          onClose={() => setWriteOffPreset(null)}
+          onSuccess={() => setWriteOffPreset(null)}
+        />
       </div>
     </PageTransition>
   );
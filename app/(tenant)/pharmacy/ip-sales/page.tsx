@@ -27,6 +27,7 @@ interface IPSaleRecord {
   storeId: string;
   storeName: string;
   admissionId: string | null;
+  admissionNumber: string | null;
   status: string;
   totalAmount: string;
   discount: string;
@@ -104,7 +105,7 @@ export default function IPSalesPage() {
       <div><div className="font-medium">{v}</div><div className="text-xs text-slate-500">{row.uhid}</div></div>
     ) },
     { key: "storeName" as keyof IPSaleRecord, header: "Store" },
-    { key: "admissionId" as keyof IPSaleRecord, header: "Admission", render: (v: string | null) => v ? <span className="text-xs font-mono">{v.substring(0, 8)}...</span> : <span className="text-slate-400">-</span> },
+    { key: "admissionNumber" as keyof IPSaleRecord, header: "Admission", render: (v: string | null) => v ? <span className="text-xs font-mono">{v}</span> : <span className="text-slate-400">-</span> },
     { key: "itemCount" as keyof IPSaleRecord, header: "Items", render: (v: number) => <span className="text-sm text-slate-600">{v}</span> },
     { key: "netAmount" as keyof IPSaleRecord, header: "Net Amount", render: (v: string) => <span className="font-medium">&#8377;{parseFloat(v).toLocaleString("en-IN", { minimumFractionDigits: 2 })}</span> },
     {
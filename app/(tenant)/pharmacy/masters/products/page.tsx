@@ -42,6 +42,8 @@ interface ProductRecord {
   minimumStock: number;
   reorderLevel: number;
   storageCondition: string | null;
+  category: string | null;
+  rackLocation: string | null;
   isNarcotic: boolean;
   status: "ACTIVE" | "INACTIVE";
   updatedAt: string;
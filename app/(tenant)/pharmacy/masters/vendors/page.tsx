@@ -30,6 +30,7 @@ interface VendorRecord {
   contactPerson: string | null;
   contactNumber: string | null;
   email: string | null;
+  leadTimeDays: number;
   status: "ACTIVE" | "INACTIVE";
   updatedAt: string;
 }
@@ -96,6 +97,7 @@ export default function VendorsPage() {
     { key: "contactPerson" as keyof VendorRecord, header: "Contact Person", render: (v: string | null) => <span className="text-slate-500">{v || "-"}</span> },
     { key: "contactNumber" as keyof VendorRecord, header: "Phone", render: (v: string | null) => <span className="text-slate-500">{v || "-"}</span> },
     { key: "gstNumber" as keyof VendorRecord, header: "GST", render: (v: string | null) => <span className="text-slate-500">{v || "-"}</span> },
+    { key: "leadTimeDays" as keyof VendorRecord, header: "Lead Time", render: (v: number) => <span className="text-slate-500">{v}d</span> },
     {
       key: "status" as keyof VendorRecord, header: "Status",
       render: (v: "ACTIVE" | "INACTIVE") => <Badge className={v === "ACTIVE" ? "bg-green-100 text-green-800" : "bg-slate-100 text-slate-600"}>{v}</Badge>,
@@ -0,0 +1,345 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { useToast } from "@/components/ui/Toast";
+import {
+  RefreshCw, Repeat, ShoppingCart, Home, ChevronRight,
+} from "lucide-react";
+import { format } from "date-fns";
+
+interface StoreOption { id: string; code: string; name: string; }
+interface VendorOption { id: string; code: string; name: string; }
+
+interface SuggestionItem {
+  productId: string;
+  productCode: string;
+  productName: string;
+  genericName: string | null;
+  currentStock: number;
+  pendingQty: number;
+  consumedQty: number;
+  avgDailyConsumption: string;
+  reorderLevel: number;
+  minimumStock: number;
+  reorderPoint: number;
+  suggestedQty: number;
+  unitCost: string | null;
+  gstPercent: string;
+  estimatedValue: string;
+}
+
+interface VendorGroup {
+  vendorId: string | null;
+  vendorName: string | null;
+  vendorCode: string | null;
+  leadTimeDays: number;
+  estimatedTotal: string;
+  items: SuggestionItem[];
+}
+
+interface SuggestionResult {
+  storeId: string;
+  storeName: string;
+  lookbackDays: number;
+  coverDays: number;
+  generatedAt: string;
+  groups: VendorGroup[];
+}
+
+interface LineDraft { selected: boolean; quantity: string; unitCost: string; }
+
+// Key used for products without an active last-used vendor
+const UNASSIGNED = "UNASSIGNED";
+
+function Breadcrumb() {
+  return (
+    <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+      <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-400">Pharmacy</span>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-900 font-medium">Reorder Suggestions</span>
+    </nav>
+  );
+}
+
+export default function ReorderPage() {
+  const [stores, setStores] = useState<StoreOption[]>([]);
+  const [vendors, setVendors] = useState<VendorOption[]>([]);
+  const [storeId, setStoreId] = useState("");
+  const [lookbackDays, setLookbackDays] = useState("30");
+  const [coverDays, setCoverDays] = useState("15");
+  const [result, setResult] = useState<SuggestionResult | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, LineDraft>>({});
+  const [unassignedVendorId, setUnassignedVendorId] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [creatingKey, setCreatingKey] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    Promise.all([
+      fetch("/api/pharmacy/masters/stores?limit=100&status=ACTIVE").then((r) => r.json()),
+      fetch("/api/pharmacy/masters/vendors?limit=100&status=ACTIVE").then((r) => r.json()),
+    ])
+      .then(([storeData, vendorData]) => {
+        if (storeData.success) setStores(storeData.data || []);
+        if (vendorData.success) setVendors(vendorData.data || []);
+      })
+      .catch(() => addToast("error", "Failed to load stores"));
+  }, [addToast]);
+
+  const fetchData = useCallback(async () => {
+    if (!storeId) return;
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ storeId, lookbackDays, coverDays });
+      const res = await fetch(`/api/pharmacy/reorder?${params}`);
+      const data = await res.json();
+      if (data.success) {
+        const suggestions: SuggestionResult = data.data;
+        const next: Record<string, LineDraft> = {};
+        for (const group of suggestions.groups) {
+          for (const item of group.items) {
+            next[item.productId] = { selected: true, quantity: String(item.suggestedQty), unitCost: item.unitCost ?? "" };
+          }
+        }
+        setResult(suggestions);
+        setDrafts(next);
+      } else {
+        setResult(null);
+        addToast("error", data.message || "Failed to load suggestions");
+      }
+    } catch {
+      setResult(null);
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId, lookbackDays, coverDays, addToast]);
+
+  useEffect(() => { fetchData(); }, [fetchData]);
+
+  const updateDraft = (productId: string, patch: Partial<LineDraft>) =>
+    setDrafts((prev) => ({ ...prev, [productId]: { ...prev[productId], ...patch } }));
+
+  const groupKey = (group: VendorGroup) => group.vendorId ?? UNASSIGNED;
+
+  const buildOrder = (group: VendorGroup) => {
+    const vendorId = group.vendorId ?? unassignedVendorId;
+    const items = group.items
+      .filter((item) => drafts[item.productId]?.selected)
+      .map((item) => ({
+        productId: item.productId,
+        quantityOrdered: parseInt(drafts[item.productId].quantity, 10),
+        unitCost: parseFloat(drafts[item.productId].unitCost),
+      }));
+    return { vendorId, items };
+  };
+
+  const isOrderValid = (order: ReturnType<typeof buildOrder>) =>
+    !!order.vendorId && order.items.length > 0 &&
+    order.items.every((i) => i.quantityOrdered > 0 && i.unitCost > 0);
+
+  const createOrders = async (key: string, groups: VendorGroup[]) => {
+    const orders = groups.map(buildOrder).filter((o) => o.items.length > 0);
+    if (orders.length === 0) { addToast("error", "Select at least one item"); return; }
+    if (!orders.every(isOrderValid)) {
+      addToast("error", "Each selected line needs a vendor, a quantity and a rate");
+      return;
+    }
+    setCreatingKey(key);
+    try {
+      const res = await fetch("/api/pharmacy/reorder", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ storeId, orders }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        addToast("success", data.message || "Draft purchase orders created");
+        fetchData();
+      } else {
+        addToast("error", data.message || "Failed to create purchase orders");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setCreatingKey(null);
+    }
+  };
+
+  const assignedGroups = result?.groups.filter((g) => g.vendorId) ?? [];
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <Breadcrumb />
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg"><Repeat className="h-6 w-6 text-blue-600" /></div>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Reorder Suggestions</h1>
+              <p className="text-sm text-slate-500">Order quantities from consumption, lead time and pending purchase orders</p>
+            </div>
+          </div>
+          {assignedGroups.length > 1 && (
+            <Button onClick={() => createOrders("ALL", assignedGroups)} disabled={!!creatingKey}>
+              <ShoppingCart className="h-4 w-4 mr-2" />{creatingKey === "ALL" ? "Creating..." : `Create ${assignedGroups.length} Draft POs`}
+            </Button>
+          )}
+        </div>
+
+        <GlassCard className="p-4">
+          <div className="flex items-center gap-4">
+            <Select value={storeId} onValueChange={setStoreId}>
+              <SelectTrigger className="w-[240px]"><SelectValue placeholder="Select store" /></SelectTrigger>
+              <SelectContent>
+                {stores.map((s) => <SelectItem key={s.id} value={s.id}>{s.code} - {s.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={lookbackDays} onValueChange={setLookbackDays}>
+              <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="14">Last 14 days sales</SelectItem>
+                <SelectItem value="30">Last 30 days sales</SelectItem>
+                <SelectItem value="60">Last 60 days sales</SelectItem>
+                <SelectItem value="90">Last 90 days sales</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={coverDays} onValueChange={setCoverDays}>
+              <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">Cover 7 days</SelectItem>
+                <SelectItem value="15">Cover 15 days</SelectItem>
+                <SelectItem value="30">Cover 30 days</SelectItem>
+                <SelectItem value="45">Cover 45 days</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={() => fetchData()} disabled={isLoading || !storeId}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+            {result && (
+              <span className="text-xs text-slate-500 ml-auto">Generated {format(new Date(result.generatedAt), "PPp")}</span>
+            )}
+          </div>
+        </GlassCard>
+
+        {!storeId ? (
+          <GlassCard className="p-8 text-center text-sm text-slate-500">Select a store to see reorder suggestions</GlassCard>
+        ) : isLoading && !result ? (
+          <div className="flex items-center justify-center p-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : result && result.groups.length === 0 ? (
+          <GlassCard className="p-8 text-center text-sm text-slate-500">Nothing to reorder for {result.storeName}</GlassCard>
+        ) : (
+          result?.groups.map((group) => {
+            const key = groupKey(group);
+            return (
+              <GlassCard key={key} className="p-0 overflow-hidden">
+                <div className="flex items-center justify-between px-4 py-3 border-b">
+                  <div>
+                    {group.vendorId ? (
+                      <div className="font-medium text-slate-900">{group.vendorName} <span className="text-slate-400">({group.vendorCode})</span></div>
+                    ) : (
+                      <div className="font-medium text-slate-900">No active vendor on record</div>
+                    )}
+                    <div className="text-xs text-slate-500">
+                      Lead time {group.leadTimeDays} days · {group.items.length} products · Est. &#8377;{group.estimatedTotal}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {!group.vendorId && (
+                      <Select value={unassignedVendorId} onValueChange={setUnassignedVendorId}>
+                        <SelectTrigger className="w-[220px]"><SelectValue placeholder="Choose vendor" /></SelectTrigger>
+                        <SelectContent>
+                          {vendors.map((v) => <SelectItem key={v.id} value={v.id}>{v.code} - {v.name}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button size="sm" onClick={() => createOrders(key, [group])} disabled={!!creatingKey}>
+                      <ShoppingCart className="h-4 w-4 mr-2" />{creatingKey === key ? "Creating..." : "Create Draft PO"}
+                    </Button>
+                  </div>
+                </div>
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50">
+                    <tr className="text-left">
+                      <th className="px-3 py-2 w-8"></th>
+                      <th className="px-3 py-2 font-medium">Product</th>
+                      <th className="px-3 py-2 font-medium text-right">Stock</th>
+                      <th className="px-3 py-2 font-medium text-right">On Order</th>
+                      <th className="px-3 py-2 font-medium text-right">Avg / Day</th>
+                      <th className="px-3 py-2 font-medium text-right">Reorder Pt</th>
+                      <th className="px-3 py-2 font-medium text-right w-28">Order Qty</th>
+                      <th className="px-3 py-2 font-medium text-right w-28">Rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.items.map((item) => {
+                      const draft = drafts[item.productId];
+                      if (!draft) return null;
+                      return (
+                        <tr key={item.productId} className={`border-t ${draft.selected ? "" : "opacity-50"}`}>
+                          <td className="px-3 py-2">
+                            <input
+                              type="checkbox"
+                              checked={draft.selected}
+                              onChange={(e) => updateDraft(item.productId, { selected: e.target.checked })}
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <div className="font-medium">{item.productName}</div>
+                            <div className="text-xs text-slate-500">{item.productCode}{item.genericName ? ` · ${item.genericName}` : ""}</div>
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {item.currentStock === 0 ? <Badge className="bg-red-100 text-red-700">0</Badge> : item.currentStock}
+                          </td>
+                          <td className="px-3 py-2 text-right text-slate-600">{item.pendingQty}</td>
+                          <td className="px-3 py-2 text-right text-slate-600">
+                            {item.avgDailyConsumption}
+                            <div className="text-xs text-slate-400">{item.consumedQty} sold</div>
+                          </td>
+                          <td className="px-3 py-2 text-right text-slate-600">{item.reorderPoint}</td>
+                          <td className="px-3 py-2">
+                            <Input
+                              type="number"
+                              min={1}
+                              value={draft.quantity}
+                              onChange={(e) => updateDraft(item.productId, { quantity: e.target.value })}
+                              className="h-8 text-sm text-right"
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min={0}
+                              value={draft.unitCost}
+                              placeholder="Rate"
+                              onChange={(e) => updateDraft(item.productId, { unitCost: e.target.value })}
+                              className="h-8 text-sm text-right"
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </GlassCard>
+            );
+          })
+        )}
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { DataTable } from "@/components/ui/DataTable";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { useToast } from "@/components/ui/Toast";
+import {
+  Search, RefreshCw, MoreHorizontal, Plus, Eye, X,
+  ListChecks, Home, ChevronRight,
+} from "lucide-react";
+import { format } from "date-fns";
+import { StockTakeStartDrawer } from "@/components/pharmacy/stock-take-start-drawer";
+import {
+  StockTakeDetailDrawer, STOCK_TAKE_STATUS_STYLES, type StockTakeStatus,
+} from "@/components/pharmacy/stock-take-detail-drawer";
+
+interface StockTakeRecord {
+  id: string;
+  stockTakeNumber: string;
+  storeName: string;
+  status: StockTakeStatus;
+  scope: string;
+  itemCount: number;
+  countedCount: number;
+  version: number;
+  frozenAt: string;
+  approvedAt: string | null;
+}
+
+function Breadcrumb() {
+  return (
+    <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+      <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-400">Pharmacy</span>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-900 font-medium">Stock Take</span>
+    </nav>
+  );
+}
+
+export default function StockTakesPage() {
+  const [records, setRecords] = useState<StockTakeRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursorHistory, setCursorHistory] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("ALL");
+  const [limit] = useState(20);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const fetchData = useCallback(async (pageCursor?: string | null) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: limit.toString() });
+      if (searchQuery) params.append("search", searchQuery);
+      if (statusFilter !== "ALL") params.append("status", statusFilter);
+      if (pageCursor) params.append("cursor", pageCursor);
+      const res = await fetch(`/api/pharmacy/stock-takes?${params}`);
+      const result = await res.json();
+      if (result.success) {
+        setRecords(result.data || []);
+        setCursor(result.pagination?.cursor || null);
+        setHasMore(result.pagination?.hasMore || false);
+      } else {
+        setRecords([]);
+        addToast("error", result.message || "Failed to load");
+      }
+    } catch {
+      setRecords([]);
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [searchQuery, statusFilter, limit, addToast]);
+
+  useEffect(() => { setCursorHistory([]); setCursor(null); fetchData(null); }, [fetchData]);
+  useEffect(() => { const t = setTimeout(() => { setCursorHistory([]); setCursor(null); }, 300); return () => clearTimeout(t); }, [searchQuery]);
+
+  const handleNext = () => { if (cursor) { setCursorHistory((p) => [...p, cursor]); fetchData(cursor); } };
+  const handlePrev = () => { const h = [...cursorHistory]; h.pop(); setCursorHistory(h); fetchData(h[h.length - 1] || null); };
+
+  const handleCancel = async (rec: StockTakeRecord) => {
+    if (!confirm(`Cancel "${rec.stockTakeNumber}"?`)) return;
+    try {
+      const res = await fetch(`/api/pharmacy/stock-takes/${rec.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "cancel", version: rec.version }),
+      });
+      const result = await res.json();
+      if (result.success) { addToast("success", "Stock take cancelled"); fetchData(null); }
+      else addToast("error", result.message || "Failed");
+    } catch { addToast("error", "Network error"); }
+  };
+
+  const columns = [
+    { key: "stockTakeNumber" as keyof StockTakeRecord, header: "Stock Take #", render: (v: string) => <span className="font-medium text-blue-700">{v}</span> },
+    { key: "storeName" as keyof StockTakeRecord, header: "Store" },
+    { key: "scope" as keyof StockTakeRecord, header: "Scope", render: (v: string) => <span className="text-sm text-slate-600">{v}</span> },
+    { key: "frozenAt" as keyof StockTakeRecord, header: "Frozen At", render: (v: string) => <span className="text-sm">{format(new Date(v), "PPp")}</span> },
+    {
+      key: "countedCount" as keyof StockTakeRecord, header: "Counted",
+      render: (v: number, row: StockTakeRecord) => <span className="text-sm text-slate-600">{v} / {row.itemCount}</span>,
+    },
+    {
+      key: "status" as keyof StockTakeRecord, header: "Status",
+      render: (v: StockTakeStatus) => <Badge className={STOCK_TAKE_STATUS_STYLES[v]}>{v}</Badge>,
+    },
+    {
+      key: "id" as keyof StockTakeRecord, header: "Actions",
+      render: (_v: string, row: StockTakeRecord) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0"><MoreHorizontal className="h-4 w-4" /></Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => setViewingId(row.id)}><Eye className="h-4 w-4 mr-2" />{row.status === "COUNTING" ? "Count" : "Open"}</DropdownMenuItem>
+            {["COUNTING", "SUBMITTED"].includes(row.status) && (
+              <DropdownMenuItem onClick={() => handleCancel(row)} className="text-orange-600"><X className="h-4 w-4 mr-2" />Cancel</DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ];
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <Breadcrumb />
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg"><ListChecks className="h-6 w-6 text-blue-600" /></div>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Stock Take</h1>
+              <p className="text-sm text-slate-500">Physical cycle counts with variance approval</p>
+            </div>
+          </div>
+          <Button onClick={() => setIsFormOpen(true)}><Plus className="h-4 w-4 mr-2" />Start Count</Button>
+        </div>
+
+        <GlassCard className="p-4">
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+              <Input placeholder="Search stock take #..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-9" />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[160px]"><SelectValue placeholder="All Status" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All</SelectItem>
+                <SelectItem value="COUNTING">Counting</SelectItem>
+                <SelectItem value="SUBMITTED">Submitted</SelectItem>
+                <SelectItem value="APPROVED">Approved</SelectItem>
+                <SelectItem value="CANCELLED">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={() => fetchData(null)} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </GlassCard>
+
+        <GlassCard className="p-0 overflow-hidden">
+          <DataTable columns={columns} data={records} loading={isLoading} emptyMessage="No stock takes found" />
+          <div className="flex items-center justify-end px-4 py-3 border-t gap-2">
+            <Button variant="outline" size="sm" onClick={handlePrev} disabled={cursorHistory.length === 0}>Previous</Button>
+            <Button variant="outline" size="sm" onClick={handleNext} disabled={!hasMore}>Next <ChevronRight className="h-4 w-4 ml-1" /></Button>
+          </div>
+        </GlassCard>
+
+        <StockTakeStartDrawer
+          isOpen={isFormOpen}
+          onClose={() => setIsFormOpen(false)}
+          onStarted={(id) => { setIsFormOpen(false); fetchData(null); setViewingId(id); }}
+        />
+        <StockTakeDetailDrawer
+          isOpen={!!viewingId}
+          stockTakeId={viewingId}
+          onClose={() => setViewingId(null)}
+          onChanged={() => fetchData(null)}
+        />
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { DataTable } from "@/components/ui/DataTable";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { useToast } from "@/components/ui/Toast";
+import {
+  Search, RefreshCw, MoreHorizontal, Plus, Edit, Trash2,
+  FileSignature, Home, ChevronRight,
+} from "lucide-react";
+import { format } from "date-fns";
+import { VendorContractFormDrawer } from "@/components/pharmacy/vendor-contract-form-drawer";
+
+type ContractValidity = "ACTIVE" | "UPCOMING" | "EXPIRED";
+
+interface ContractRecord {
+  id: string;
+  vendorId: string;
+  vendorName: string;
+  vendorCode: string;
+  productId: string;
+  productCode: string;
+  productName: string;
+  unitCost: string;
+  validFrom: string;
+  validTo: string;
+  validity: ContractValidity;
+  notes: string | null;
+  version: number;
+  updatedAt: string;
+}
+
+const VALIDITY_STYLES: Record<ContractValidity, string> = {
+  ACTIVE: "bg-green-100 text-green-800",
+  UPCOMING: "bg-blue-100 text-blue-800",
+  EXPIRED: "bg-slate-100 text-slate-600",
+};
+
+function Breadcrumb() {
+  return (
+    <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+      <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-400">Pharmacy</span>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-900 font-medium">Rate Contracts</span>
+    </nav>
+  );
+}
+
+export default function VendorContractsPage() {
+  const [records, setRecords] = useState<ContractRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursorHistory, setCursorHistory] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [validityFilter, setValidityFilter] = useState("ALL");
+  const [limit] = useState(20);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<ContractRecord | null>(null);
+  const { addToast } = useToast();
+
+  const fetchData = useCallback(async (pageCursor?: string | null) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: limit.toString() });
+      if (searchQuery) params.append("search", searchQuery);
+      if (validityFilter !== "ALL") params.append("validity", validityFilter);
+      if (pageCursor) params.append("cursor", pageCursor);
+      const res = await fetch(`/api/pharmacy/vendor-contracts?${params}`);
+      const result = await res.json();
+      if (result.success) {
+        setRecords(result.data || []);
+        setCursor(result.pagination?.cursor || null);
+        setHasMore(result.pagination?.hasMore || false);
+      } else {
+        setRecords([]);
+        addToast("error", result.message || "Failed to load");
+      }
+    } catch {
+      setRecords([]);
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [searchQuery, validityFilter, limit, addToast]);
+
+  useEffect(() => { setCursorHistory([]); setCursor(null); fetchData(null); }, [fetchData]);
+  useEffect(() => { const t = setTimeout(() => { setCursorHistory([]); setCursor(null); }, 300); return () => clearTimeout(t); }, [searchQuery]);
+
+  const handleNext = () => { if (cursor) { setCursorHistory((p) => [...p, cursor]); fetchData(cursor); } };
+  const handlePrev = () => { const h = [...cursorHistory]; h.pop(); setCursorHistory(h); fetchData(h[h.length - 1] || null); };
+
+  const handleDelete = async (rec: ContractRecord) => {
+    if (!confirm(`Delete the ${rec.vendorName} contract for "${rec.productName}"?`)) return;
+    try {
+      const res = await fetch(`/api/pharmacy/vendor-contracts/${rec.id}`, { method: "DELETE" });
+      const result = await res.json();
+      if (result.success) { addToast("success", "Contract deleted"); fetchData(null); }
+      else addToast("error", result.message || "Failed");
+    } catch { addToast("error", "Network error"); }
+  };
+
+  const columns = [
+    {
+      key: "productName" as keyof ContractRecord, header: "Product",
+      render: (v: string, row: ContractRecord) => (
+        <div>
+          <div className="font-medium">{v}</div>
+          <div className="text-xs text-slate-500">{row.productCode}</div>
+        </div>
+      ),
+    },
+    {
+      key: "vendorName" as keyof ContractRecord, header: "Vendor",
+      render: (v: string, row: ContractRecord) => <span>{v} <span className="text-slate-400">({row.vendorCode})</span></span>,
+    },
+    { key: "unitCost" as keyof ContractRecord, header: "Rate", render: (v: string) => <span className="font-medium">&#8377;{v}</span> },
+    {
+      key: "validFrom" as keyof ContractRecord, header: "Validity",
+      render: (v: string, row: ContractRecord) => (
+        <span className="text-sm">{format(new Date(v), "PP")} – {format(new Date(row.validTo), "PP")}</span>
+      ),
+    },
+    {
+      key: "validity" as keyof ContractRecord, header: "Status",
+      render: (v: ContractValidity) => <Badge className={VALIDITY_STYLES[v]}>{v}</Badge>,
+    },
+    {
+      key: "id" as keyof ContractRecord, header: "Actions",
+      render: (_v: string, row: ContractRecord) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0"><MoreHorizontal className="h-4 w-4" /></Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => { setEditing(row); setIsFormOpen(true); }}><Edit className="h-4 w-4 mr-2" />Edit</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleDelete(row)} className="text-red-600"><Trash2 className="h-4 w-4 mr-2" />Delete</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ];
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <Breadcrumb />
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg"><FileSignature className="h-6 w-6 text-blue-600" /></div>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Rate Contracts</h1>
+              <p className="text-sm text-slate-500">Agreed vendor rates that default purchase order prices</p>
+            </div>
+          </div>
+          <Button onClick={() => { setEditing(null); setIsFormOpen(true); }}><Plus className="h-4 w-4 mr-2" />New Contract</Button>
+        </div>
+
+        <GlassCard className="p-4">
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+              <Input placeholder="Search product or vendor..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-9" />
+            </div>
+            <Select value={validityFilter} onValueChange={setValidityFilter}>
+              <SelectTrigger className="w-[160px]"><SelectValue placeholder="All" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All</SelectItem>
+                <SelectItem value="ACTIVE">Active</SelectItem>
+                <SelectItem value="UPCOMING">Upcoming</SelectItem>
+                <SelectItem value="EXPIRED">Expired</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={() => fetchData(null)} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </GlassCard>
+
+        <GlassCard className="p-0 overflow-hidden">
+          <DataTable columns={columns} data={records} loading={isLoading} emptyMessage="No rate contracts found" />
+          <div className="flex items-center justify-end px-4 py-3 border-t gap-2">
+            <Button variant="outline" size="sm" onClick={handlePrev} disabled={cursorHistory.length === 0}>Previous</Button>
+            <Button variant="outline" size="sm" onClick={handleNext} disabled={!hasMore}>Next <ChevronRight className="h-4 w-4 ml-1" /></Button>
+          </div>
+        </GlassCard>
+
+        <VendorContractFormDrawer
+          isOpen={isFormOpen}
+          onClose={() => setIsFormOpen(false)}
+          onSuccess={() => { setIsFormOpen(false); fetchData(null); }}
+          initialData={editing}
+        />
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { useToast } from "@/components/ui/Toast";
+import { RefreshCw, BarChart3, Home, ChevronRight } from "lucide-react";
+import { format, subDays } from "date-fns";
+import {
+  VendorInvoiceDetailDrawer, VENDOR_INVOICE_STATUS_STYLES, type VendorInvoiceStatus,
+} from "@/components/pharmacy/vendor-invoice-detail-drawer";
+
+interface VendorOption { id: string; code: string; name: string; }
+
+interface MatchRow {
+  invoiceId: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  status: VendorInvoiceStatus;
+  vendorName: string;
+  poNumber: string;
+  grnNumber: string;
+  productCode: string;
+  productName: string;
+  poQuantity: number;
+  grnQuantity: number;
+  invoiceQuantity: number;
+  poUnitCost: string | null;
+  grnUnitCost: string | null;
+  invoiceUnitCost: string;
+  quantityVariance: boolean;
+  priceVariance: boolean;
+  priceVariancePercent: string | null;
+  overbilledValue: string;
+}
+
+interface MatchReport {
+  from: string;
+  to: string;
+  tolerance: { quantityTolerance: number; pricePercentTolerance: number };
+  summary: {
+    invoiceCount: number;
+    flaggedCount: number;
+    awaitingApprovalCount: number;
+    quantityVarianceLines: number;
+    priceVarianceLines: number;
+    overbilledValue: string;
+  };
+  rows: MatchRow[];
+}
+
+function Breadcrumb() {
+  return (
+    <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+      <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+      <ChevronRight className="h-4 w-4" />
+      <Link href="/pharmacy/vendor-invoices" className="hover:text-blue-600">Vendor Invoices</Link>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-900 font-medium">Three-way Match</span>
+    </nav>
+  );
+}
+
+export default function ThreeWayMatchReportPage() {
+  const [report, setReport] = useState<MatchReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [vendors, setVendors] = useState<VendorOption[]>([]);
+  const [vendorId, setVendorId] = useState("ALL");
+  const [from, setFrom] = useState(format(subDays(new Date(), 30), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [varianceOnly, setVarianceOnly] = useState(true);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetch("/api/pharmacy/masters/vendors?limit=100")
+      .then((r) => r.json())
+      .then((data) => { if (data.success) setVendors(data.data || []); })
+      .catch(() => { /* silent */ });
+  }, []);
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ from, to });
+      if (vendorId !== "ALL") params.append("vendorId", vendorId);
+      if (varianceOnly) params.append("varianceOnly", "true");
+      const res = await fetch(`/api/pharmacy/vendor-invoices/match-report?${params}`);
+      const result = await res.json();
+      if (result.success) {
+        setReport(result.data);
+      } else {
+        setReport(null);
+        addToast("error", result.message || "Failed to load");
+      }
+    } catch {
+      setReport(null);
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [from, to, vendorId, varianceOnly, addToast]);
+
+  useEffect(() => { fetchData(); }, [fetchData]);
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <Breadcrumb />
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-100 rounded-lg"><BarChart3 className="h-6 w-6 text-blue-600" /></div>
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900">Three-way Match Report</h1>
+            <p className="text-sm text-slate-500">
+              PO vs GRN vs invoice quantities and rates
+              {report && ` · tolerance ${report.tolerance.quantityTolerance} units / ${report.tolerance.pricePercentTolerance}% rate`}
+            </p>
+          </div>
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid grid-cols-5 gap-4">
+          <GlassCard className="p-4 text-center">
+            <p className="text-3xl font-bold text-slate-900">{report?.summary.invoiceCount ?? 0}</p>
+            <p className="text-sm text-slate-500 mt-1">Invoices</p>
+          </GlassCard>
+          <GlassCard className="p-4 text-center">
+            <p className="text-3xl font-bold text-amber-600">{report?.summary.awaitingApprovalCount ?? 0}</p>
+            <p className="text-sm text-slate-500 mt-1">Awaiting approval</p>
+          </GlassCard>
+          <GlassCard className="p-4 text-center">
+            <p className="text-3xl font-bold text-orange-600">{report?.summary.quantityVarianceLines ?? 0}</p>
+            <p className="text-sm text-slate-500 mt-1">Qty variance lines</p>
+          </GlassCard>
+          <GlassCard className="p-4 text-center">
+            <p className="text-3xl font-bold text-orange-600">{report?.summary.priceVarianceLines ?? 0}</p>
+            <p className="text-sm text-slate-500 mt-1">Price variance lines</p>
+          </GlassCard>
+          <GlassCard className="p-4 text-center">
+            <p className="text-3xl font-bold text-red-600">
+              &#8377;{parseFloat(report?.summary.overbilledValue ?? "0").toLocaleString("en-IN", { minimumFractionDigits: 2 })}
+            </p>
+            <p className="text-sm text-slate-500 mt-1">Overbilled value</p>
+          </GlassCard>
+        </div>
+
+        <GlassCard className="p-4">
+          <div className="flex items-center gap-4">
+            <Select value={vendorId} onValueChange={setVendorId}>
+              <SelectTrigger className="w-[220px]"><SelectValue placeholder="All Vendors" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All Vendors</SelectItem>
+                {vendors.map((v) => <SelectItem key={v.id} value={v.id}>{v.code} - {v.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-[160px]" />
+            <span className="text-sm text-slate-500">to</span>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-[160px]" />
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked={varianceOnly} onChange={(e) => setVarianceOnly(e.target.checked)} />
+              Variances only
+            </label>
+            <Button variant="ghost" size="icon" onClick={() => fetchData()} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </GlassCard>
+
+        <GlassCard className="p-0 overflow-hidden">
+          {isLoading && !report ? (
+            <div className="flex items-center justify-center p-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : !report || report.rows.length === 0 ? (
+            <div className="p-8 text-center text-sm text-slate-500">No invoice lines in this period</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr className="text-left">
+                  <th className="px-3 py-2 font-medium">Invoice</th>
+                  <th className="px-3 py-2 font-medium">Product</th>
+                  <th className="px-3 py-2 font-medium text-right">PO</th>
+                  <th className="px-3 py-2 font-medium text-right">GRN</th>
+                  <th className="px-3 py-2 font-medium text-right">Invoice</th>
+                  <th className="px-3 py-2 font-medium text-right">Overbilled</th>
+                  <th className="px-3 py-2 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((row, idx) => (
+                  <tr key={`${row.invoiceId}-${idx}`} className="border-t hover:bg-slate-50 cursor-pointer" onClick={() => setViewingId(row.invoiceId)}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-blue-700">{row.invoiceNumber}</div>
+                      <div className="text-xs text-slate-500">
+                        {format(new Date(row.invoiceDate), "PP")} · {row.vendorName} · {row.poNumber} / {row.grnNumber}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">
+                      <div>{row.productName}</div>
+                      <div className="text-xs text-slate-500">{row.productCode}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {row.poQuantity}
+                      <div className="text-xs text-slate-500">&#8377;{row.poUnitCost ?? "-"}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {row.grnQuantity}
+                      <div className="text-xs text-slate-500">&#8377;{row.grnUnitCost ?? "-"}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <span className={row.quantityVariance ? "text-amber-700 font-medium" : ""}>{row.invoiceQuantity}</span>
+                      <div className={`text-xs ${row.priceVariance ? "text-amber-700 font-medium" : "text-slate-500"}`}>
+                        &#8377;{row.invoiceUnitCost}
+                        {row.priceVariancePercent && Number(row.priceVariancePercent) !== 0 && ` (${Number(row.priceVariancePercent) > 0 ? "+" : ""}${row.priceVariancePercent}%)`}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {Number(row.overbilledValue) > 0 ? <span className="text-red-600 font-medium">&#8377;{row.overbilledValue}</span> : "-"}
+                    </td>
+                    <td className="px-3 py-2">
+                      <Badge className={VENDOR_INVOICE_STATUS_STYLES[row.status]}>{row.status.replace("_", " ")}</Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </GlassCard>
+
+        <VendorInvoiceDetailDrawer
+          isOpen={!!viewingId}
+          invoiceId={viewingId}
+          onClose={() => setViewingId(null)}
+          onChanged={() => fetchData()}
+        />
+      </div>
+    </PageTransition>
+  );
+}
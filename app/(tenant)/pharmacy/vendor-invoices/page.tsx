@@ -0,0 +1,221 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { DataTable } from "@/components/ui/DataTable";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { useToast } from "@/components/ui/Toast";
+import {
+  Search, RefreshCw, MoreHorizontal, Plus, Eye, X, BarChart3,
+  ReceiptText, Home, ChevronRight,
+} from "lucide-react";
+import { format } from "date-fns";
+import { VendorInvoiceFormDrawer } from "@/components/pharmacy/vendor-invoice-form-drawer";
+import {
+  VendorInvoiceDetailDrawer, VENDOR_INVOICE_STATUS_STYLES, type VendorInvoiceStatus,
+} from "@/components/pharmacy/vendor-invoice-detail-drawer";
+
+interface VendorInvoiceRecord {
+  id: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  vendorName: string;
+  poNumber: string;
+  grnNumber: string;
+  status: VendorInvoiceStatus;
+  total: string;
+  hasQuantityVariance: boolean;
+  hasPriceVariance: boolean;
+  itemCount: number;
+  version: number;
+  createdAt: string;
+}
+
+function Breadcrumb() {
+  return (
+    <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+      <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-400">Pharmacy</span>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-900 font-medium">Vendor Invoices</span>
+    </nav>
+  );
+}
+
+export default function VendorInvoicesPage() {
+  const [records, setRecords] = useState<VendorInvoiceRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursorHistory, setCursorHistory] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("ALL");
+  const [limit] = useState(20);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const fetchData = useCallback(async (pageCursor?: string | null) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: limit.toString() });
+      if (searchQuery) params.append("search", searchQuery);
+      if (statusFilter !== "ALL") params.append("status", statusFilter);
+      if (pageCursor) params.append("cursor", pageCursor);
+      const res = await fetch(`/api/pharmacy/vendor-invoices?${params}`);
+      const result = await res.json();
+      if (result.success) {
+        setRecords(result.data || []);
+        setCursor(result.pagination?.cursor || null);
+        setHasMore(result.pagination?.hasMore || false);
+      } else {
+        setRecords([]);
+        addToast("error", result.message || "Failed to load");
+      }
+    } catch {
+      setRecords([]);
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [searchQuery, statusFilter, limit, addToast]);
+
+  useEffect(() => { setCursorHistory([]); setCursor(null); fetchData(null); }, [fetchData]);
+  useEffect(() => { const t = setTimeout(() => { setCursorHistory([]); setCursor(null); }, 300); return () => clearTimeout(t); }, [searchQuery]);
+
+  const handleNext = () => { if (cursor) { setCursorHistory((p) => [...p, cursor]); fetchData(cursor); } };
+  const handlePrev = () => { const h = [...cursorHistory]; h.pop(); setCursorHistory(h); fetchData(h[h.length - 1] || null); };
+
+  const handleCancel = async (rec: VendorInvoiceRecord) => {
+    if (!confirm(`Cancel "${rec.invoiceNumber}"?`)) return;
+    try {
+      const res = await fetch(`/api/pharmacy/vendor-invoices/${rec.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "cancel", version: rec.version }),
+      });
+      const result = await res.json();
+      if (result.success) { addToast("success", "Invoice cancelled"); fetchData(null); }
+      else addToast("error", result.message || "Failed");
+    } catch { addToast("error", "Network error"); }
+  };
+
+  const columns = [
+    { key: "invoiceNumber" as keyof VendorInvoiceRecord, header: "Invoice #", render: (v: string) => <span className="font-medium text-blue-700">{v}</span> },
+    { key: "invoiceDate" as keyof VendorInvoiceRecord, header: "Date", render: (v: string) => <span className="text-sm">{format(new Date(v), "PP")}</span> },
+    { key: "vendorName" as keyof VendorInvoiceRecord, header: "Vendor" },
+    {
+      key: "poNumber" as keyof VendorInvoiceRecord, header: "PO / GRN",
+      render: (v: string, row: VendorInvoiceRecord) => <span className="text-sm">{v} · {row.grnNumber}</span>,
+    },
+    { key: "itemCount" as keyof VendorInvoiceRecord, header: "Items", render: (v: number) => <span className="text-sm text-slate-600">{v}</span> },
+    { key: "total" as keyof VendorInvoiceRecord, header: "Total", render: (v: string) => <span className="font-medium">&#8377;{parseFloat(v).toLocaleString("en-IN", { minimumFractionDigits: 2 })}</span> },
+    {
+      key: "hasQuantityVariance" as keyof VendorInvoiceRecord, header: "Variance",
+      render: (v: boolean, row: VendorInvoiceRecord) => (
+        <div className="flex gap-1">
+          {v && <Badge className="bg-amber-100 text-amber-800">Qty</Badge>}
+          {row.hasPriceVariance && <Badge className="bg-amber-100 text-amber-800">Price</Badge>}
+          {!v && !row.hasPriceVariance && <span className="text-sm text-slate-400">-</span>}
+        </div>
+      ),
+    },
+    {
+      key: "status" as keyof VendorInvoiceRecord, header: "Status",
+      render: (v: VendorInvoiceStatus) => <Badge className={VENDOR_INVOICE_STATUS_STYLES[v]}>{v.replace("_", " ")}</Badge>,
+    },
+    {
+      key: "id" as keyof VendorInvoiceRecord, header: "Actions",
+      render: (_v: string, row: VendorInvoiceRecord) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0"><MoreHorizontal className="h-4 w-4" /></Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => setViewingId(row.id)}><Eye className="h-4 w-4 mr-2" />Open</DropdownMenuItem>
+            {row.status !== "PAYABLE" && row.status !== "CANCELLED" && (
+              <DropdownMenuItem onClick={() => handleCancel(row)} className="text-orange-600"><X className="h-4 w-4 mr-2" />Cancel</DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ];
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <Breadcrumb />
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg"><ReceiptText className="h-6 w-6 text-blue-600" /></div>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Vendor Invoices</h1>
+              <p className="text-sm text-slate-500">Match vendor bills against the PO and GRN before payment</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Link href="/pharmacy/vendor-invoices/match-report">
+              <Button variant="outline"><BarChart3 className="h-4 w-4 mr-2" />Match Report</Button>
+            </Link>
+            <Button onClick={() => setIsFormOpen(true)}><Plus className="h-4 w-4 mr-2" />Capture Invoice</Button>
+          </div>
+        </div>
+
+        <GlassCard className="p-4">
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+              <Input placeholder="Search invoice, PO or GRN #..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-9" />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[180px]"><SelectValue placeholder="All Status" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All</SelectItem>
+                <SelectItem value="MATCHED">Matched</SelectItem>
+                <SelectItem value="FLAGGED">Flagged</SelectItem>
+                <SelectItem value="VARIANCE_APPROVED">Variance Approved</SelectItem>
+                <SelectItem value="PAYABLE">Payable</SelectItem>
+                <SelectItem value="CANCELLED">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={() => fetchData(null)} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </GlassCard>
+
+        <GlassCard className="p-0 overflow-hidden">
+          <DataTable columns={columns} data={records} loading={isLoading} emptyMessage="No vendor invoices found" />
+          <div className="flex items-center justify-end px-4 py-3 border-t gap-2">
+            <Button variant="outline" size="sm" onClick={handlePrev} disabled={cursorHistory.length === 0}>Previous</Button>
+            <Button variant="outline" size="sm" onClick={handleNext} disabled={!hasMore}>Next <ChevronRight className="h-4 w-4 ml-1" /></Button>
+          </div>
+        </GlassCard>
+
+        <VendorInvoiceFormDrawer
+          isOpen={isFormOpen}
+          onClose={() => setIsFormOpen(false)}
+          onSuccess={(id) => { setIsFormOpen(false); fetchData(null); setViewingId(id); }}
+        />
+        <VendorInvoiceDetailDrawer
+          isOpen={!!viewingId}
+          invoiceId={viewingId}
+          onClose={() => setViewingId(null)}
+          onChanged={() => fetchData(null)}
+        />
+      </div>
+    </PageTransition>
+  );
+}
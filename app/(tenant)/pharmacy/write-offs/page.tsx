@@ -0,0 +1,203 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { DataTable } from "@/components/ui/DataTable";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { PageTransition } from "@/components/ui/PageTransition";
+import { useToast } from "@/components/ui/Toast";
+import {
+  Search, RefreshCw, MoreHorizontal, Plus, Eye, X,
+  PackageX, Home, ChevronRight,
+} from "lucide-react";
+import { format } from "date-fns";
+import { WriteOffFormDrawer } from "@/components/pharmacy/write-off-form-drawer";
+import {
+  WriteOffDetailDrawer, WRITE_OFF_STATUS_STYLES, type WriteOffStatus,
+} from "@/components/pharmacy/write-off-detail-drawer";
+
+interface WriteOffRecord {
+  id: string;
+  writeOffNumber: string;
+  storeName: string;
+  status: WriteOffStatus;
+  totalValue: string;
+  requiresWitness: boolean;
+  witnessCount: number;
+  itemCount: number;
+  version: number;
+  createdAt: string;
+  approvedAt: string | null;
+}
+
+function Breadcrumb() {
+  return (
+    <nav className="flex items-center gap-2 text-sm text-slate-500 mb-4">
+      <Link href="/dashboard" className="hover:text-blue-600 flex items-center gap-1"><Home className="h-4 w-4" /> Dashboard</Link>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-400">Pharmacy</span>
+      <ChevronRight className="h-4 w-4" />
+      <span className="text-slate-900 font-medium">Write-off Register</span>
+    </nav>
+  );
+}
+
+export default function WriteOffRegisterPage() {
+  const [records, setRecords] = useState<WriteOffRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursorHistory, setCursorHistory] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("ALL");
+  const [limit] = useState(20);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const fetchData = useCallback(async (pageCursor?: string | null) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: limit.toString() });
+      if (searchQuery) params.append("search", searchQuery);
+      if (statusFilter !== "ALL") params.append("status", statusFilter);
+      if (pageCursor) params.append("cursor", pageCursor);
+      const res = await fetch(`/api/pharmacy/write-offs?${params}`);
+      const result = await res.json();
+      if (result.success) {
+        setRecords(result.data || []);
+        setCursor(result.pagination?.cursor || null);
+        setHasMore(result.pagination?.hasMore || false);
+      } else {
+        setRecords([]);
+        addToast("error", result.message || "Failed to load");
+      }
+    } catch {
+      setRecords([]);
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [searchQuery, statusFilter, limit, addToast]);
+
+  useEffect(() => { setCursorHistory([]); setCursor(null); fetchData(null); }, [fetchData]);
+  useEffect(() => { const t = setTimeout(() => { setCursorHistory([]); setCursor(null); }, 300); return () => clearTimeout(t); }, [searchQuery]);
+
+  const handleNext = () => { if (cursor) { setCursorHistory((p) => [...p, cursor]); fetchData(cursor); } };
+  const handlePrev = () => { const h = [...cursorHistory]; h.pop(); setCursorHistory(h); fetchData(h[h.length - 1] || null); };
+
+  const handleCancel = async (rec: WriteOffRecord) => {
+    if (!confirm(`Cancel "${rec.writeOffNumber}"?`)) return;
+    try {
+      const res = await fetch(`/api/pharmacy/write-offs/${rec.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "cancel", version: rec.version }),
+      });
+      const result = await res.json();
+      if (result.success) { addToast("success", "Write-off cancelled"); fetchData(null); }
+      else addToast("error", result.message || "Failed");
+    } catch { addToast("error", "Network error"); }
+  };
+
+  const columns = [
+    { key: "writeOffNumber" as keyof WriteOffRecord, header: "Write-off #", render: (v: string) => <span className="font-medium text-blue-700">{v}</span> },
+    { key: "storeName" as keyof WriteOffRecord, header: "Store" },
+    { key: "createdAt" as keyof WriteOffRecord, header: "Raised", render: (v: string) => <span className="text-sm">{format(new Date(v), "PP")}</span> },
+    { key: "itemCount" as keyof WriteOffRecord, header: "Items", render: (v: number) => <span className="text-sm text-slate-600">{v}</span> },
+    { key: "totalValue" as keyof WriteOffRecord, header: "Value", render: (v: string) => <span className="font-medium">&#8377;{parseFloat(v).toLocaleString("en-IN", { minimumFractionDigits: 2 })}</span> },
+    {
+      key: "witnessCount" as keyof WriteOffRecord, header: "Witnesses",
+      render: (v: number, row: WriteOffRecord) => <span className="text-sm text-slate-600">{row.requiresWitness ? `${v} signed` : "-"}</span>,
+    },
+    {
+      key: "status" as keyof WriteOffRecord, header: "Status",
+      render: (v: WriteOffStatus) => <Badge className={WRITE_OFF_STATUS_STYLES[v]}>{v}</Badge>,
+    },
+    {
+      key: "id" as keyof WriteOffRecord, header: "Actions",
+      render: (_v: string, row: WriteOffRecord) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0"><MoreHorizontal className="h-4 w-4" /></Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => setViewingId(row.id)}><Eye className="h-4 w-4 mr-2" />Open</DropdownMenuItem>
+            {row.status === "PENDING" && (
+              <DropdownMenuItem onClick={() => handleCancel(row)} className="text-orange-600"><X className="h-4 w-4 mr-2" />Cancel</DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ];
+
+  return (
+    <PageTransition>
+      <div className="p-6 space-y-6">
+        <Breadcrumb />
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg"><PackageX className="h-6 w-6 text-blue-600" /></div>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Write-off Register</h1>
+              <p className="text-sm text-slate-500">Witnessed destruction of expired, damaged and recalled stock</p>
+            </div>
+          </div>
+          <Button onClick={() => setIsFormOpen(true)}><Plus className="h-4 w-4 mr-2" />New Write-off</Button>
+        </div>
+
+        <GlassCard className="p-4">
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+              <Input placeholder="Search write-off #..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-9" />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[160px]"><SelectValue placeholder="All Status" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All</SelectItem>
+                <SelectItem value="PENDING">Pending</SelectItem>
+                <SelectItem value="APPROVED">Approved</SelectItem>
+                <SelectItem value="REJECTED">Rejected</SelectItem>
+                <SelectItem value="CANCELLED">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={() => fetchData(null)} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </GlassCard>
+
+        <GlassCard className="p-0 overflow-hidden">
+          <DataTable columns={columns} data={records} loading={isLoading} emptyMessage="No write-offs found" />
+          <div className="flex items-center justify-end px-4 py-3 border-t gap-2">
+            <Button variant="outline" size="sm" onClick={handlePrev} disabled={cursorHistory.length === 0}>Previous</Button>
+            <Button variant="outline" size="sm" onClick={handleNext} disabled={!hasMore}>Next <ChevronRight className="h-4 w-4 ml-1" /></Button>
+          </div>
+        </GlassCard>
+
+        <WriteOffFormDrawer
+          isOpen={isFormOpen}
+          onClose={() => setIsFormOpen(false)}
+          onSuccess={() => { setIsFormOpen(false); fetchData(null); }}
+        />
+        <WriteOffDetailDrawer
+          isOpen={!!viewingId}
+          writeOffId={viewingId}
+          onClose={() => setViewingId(null)}
+          onChanged={() => fetchData(null)}
+        />
+      </div>
+    </PageTransition>
+  );
+}
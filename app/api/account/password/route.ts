@@ -0,0 +1,38 @@
+import { NextRequest } from "next/server";
+import { getSession } from "@/lib/auth";
+import { passwordService } from "@/lib/services/passwordService";
+import { ChangePasswordSchema } from "@/lib/schemas/auth-schema";
+
+/**
+ * Signed-in user changes their own password; their other devices are signed out
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session?.tenantId) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const body = await request.json();
+    const parseResult = ChangePasswordSchema.safeParse(body);
+    if (!parseResult.success) {
+      return Response.json(
+        { error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await passwordService.changeOwnPassword(
+      session.tenantId,
+      session.userId,
+      parseResult.data,
+      session.sessionId
+    );
+    if (!result.success) {
+      return Response.json({ error: result.error, errorCode: result.errorCode }, { status: 400 });
+    }
+
+    return Response.json({ success: true });
+  } catch (e) {
+    console.error("Change password:", e);
+    return Response.json({ error: "Failed to change password" }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import { getSession } from "@/lib/auth";
+import { twoFactorService } from "@/lib/services/twoFactorService";
+import { StartTwoFactorEnrollmentSchema } from "@/lib/schemas/auth-schema";
+
+/**
+ * Start authenticator setup: returns the secret and otpauth:// URI for the QR code
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const body = await request.json();
+    const parseResult = StartTwoFactorEnrollmentSchema.safeParse(body);
+    if (!parseResult.success) {
+      return Response.json(
+        { error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await twoFactorService.startEnrollment(session.userId, parseResult.data);
+    if (!result.success) {
+      return Response.json({ error: result.error, errorCode: result.errorCode }, { status: 400 });
+    }
+    return Response.json({ success: true, data: result.data });
+  } catch (e) {
+    console.error("Start 2FA enrollment:", e);
+    return Response.json({ error: "Failed to start enrollment" }, { status: 500 });
+  }
+}
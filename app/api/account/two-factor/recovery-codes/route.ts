@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import { getSession } from "@/lib/auth";
+import { twoFactorService } from "@/lib/services/twoFactorService";
+import { TwoFactorCodeSchema } from "@/lib/schemas/auth-schema";
+
+/**
+ * Replace the recovery codes (needs a current code)
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const body = await request.json();
+    const parseResult = TwoFactorCodeSchema.safeParse(body);
+    if (!parseResult.success) {
+      return Response.json(
+        { error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await twoFactorService.regenerateRecoveryCodes(session.userId, parseResult.data.code);
+    if (!result.success) {
+      return Response.json({ error: result.error, errorCode: result.errorCode }, { status: 400 });
+    }
+    return Response.json({ success: true, data: result.data });
+  } catch (e) {
+    console.error("Regenerate recovery codes:", e);
+    return Response.json({ error: "Failed to regenerate recovery codes" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from "next/server";
+import { getSession } from "@/lib/auth";
+import { twoFactorService } from "@/lib/services/twoFactorService";
+import { TwoFactorCodeSchema } from "@/lib/schemas/auth-schema";
+
+/**
+ * Two-factor authentication of the signed-in user
+ *
+ * GET    /api/account/two-factor - Status and remaining recovery codes
+ * DELETE /api/account/two-factor - Turn 2FA off (needs a current code)
+ */
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+  const result = await twoFactorService.getStatus(session.userId);
+  if (!result.success) {
+    return Response.json({ error: result.error }, { status: 404 });
+  }
+  return Response.json({ success: true, data: result.data });
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await getSession();
+  if (!session) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const body = await request.json();
+    const parseResult = TwoFactorCodeSchema.safeParse(body);
+    if (!parseResult.success) {
+      return Response.json(
+        { error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await twoFactorService.disable(session.userId, parseResult.data.code);
+    if (!result.success) {
+      return Response.json({ error: result.error, errorCode: result.errorCode }, { status: 400 });
+    }
+    return Response.json({ success: true });
+  } catch (e) {
+    console.error("Disable 2FA:", e);
+    return Response.json({ error: "Failed to disable two-factor authentication" }, { status: 500 });
+  }
+}
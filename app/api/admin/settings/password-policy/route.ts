@@ -0,0 +1,85 @@
+/**
+ * Password Policy Settings API
+ *
+ * GET /api/admin/settings/password-policy - Get the tenant's password policy
+ * PUT /api/admin/settings/password-policy - Update complexity, expiry, history and lockout rules
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { passwordService } from "@/lib/services/passwordService";
+import { PasswordPolicySchema } from "@/lib/schemas/auth-schema";
+
+// GET - Get policy
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("SETTINGS_MANAGE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const policy = await passwordService.getPolicy(session.tenantId);
+
+    return NextResponse.json({ success: true, data: policy });
+  } catch (error) {
+    console.error("GET password policy error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update policy
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("SETTINGS_MANAGE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parseResult = PasswordPolicySchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await passwordService.updatePolicy(session.tenantId, parseResult.data, session.userId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("PUT password policy error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
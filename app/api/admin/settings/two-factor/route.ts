@@ -0,0 +1,88 @@
+/**
+ * Two-Factor Settings API
+ *
+ * GET /api/admin/settings/two-factor - Get the roles that must use 2FA (and the tenant's roles)
+ * PUT /api/admin/settings/two-factor - Set the roles that must use 2FA
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { twoFactorService } from "@/lib/services/twoFactorService";
+import { TwoFactorSettingsSchema } from "@/lib/schemas/auth-schema";
+
+// GET - Get settings
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("SETTINGS_MANAGE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const [settings, roles] = await Promise.all([
+      twoFactorService.getSettings(session.tenantId),
+      twoFactorService.getRoleOptions(session.tenantId),
+    ]);
+
+    return NextResponse.json({ success: true, data: { ...settings, roles } });
+  } catch (error) {
+    console.error("GET 2FA settings error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update settings
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("SETTINGS_MANAGE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parseResult = TwoFactorSettingsSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await twoFactorService.updateSettings(session.tenantId, parseResult.data, session.userId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("PUT 2FA settings error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,10 @@ import { NextRequest } from "next/server";
 import { getSession } from "@/lib/auth";
 import { requirePermission } from "@/lib/rbac";
 import { prisma } from "@/lib/prisma";
-import { hashPassword } from "@/lib/auth";
 import { createAuditLog } from "@/lib/audit";
+import { invalidateUserCache } from "@/lib/cache/permission-cache";
+import { sessionService } from "@/lib/services/sessionService";
+import { passwordService } from "@/lib/services/passwordService";
 
 type Params = Promise<{ id: string }>;
 
@@ -48,13 +50,24 @@ export async function PUT(request: NextRequest, { params }: { params: Params })
     if (username !== undefined) update.username = username;
     if (mobile !== undefined) update.mobile = mobile;
     if (typeof isActive === "boolean") update.isActive = isActive;
-    if (newPassword && newPassword.length >= 6) update.passwordHash = await hashPassword(newPassword);
+
+    // Admin-set passwords follow the tenant policy and may have to be changed at next login
+    if (newPassword) {
+      const passwordResult = await passwordService.setByAdmin(session.tenantId, id, newPassword, session.userId);
+      if (!passwordResult.success) {
+        return Response.json({ error: passwordResult.error }, { status: 400 });
+      }
+    }
 
     await prisma.user.update({
       where: { id },
       data: update as Parameters<typeof prisma.user.update>[0]["data"],
     });
 
+    const currentRoleIds = user.userRoles.map((ur) => ur.roleId).sort();
+    const rolesChanged =
+      roleIds !== null && [...new Set<string>(roleIds)].sort().join(",") !== currentRoleIds.join(",");
+
     if (roleIds !== null) {
       await prisma.userRole.deleteMany({ where: { userId: id } });
       if (roleIds.length > 0) {
@@ -74,6 +87,16 @@ export async function PUT(request: NextRequest, { params }: { params: Params })
       newValue: { fullName, email, isActive },
     });
 
+    // Force logout so deactivation and new roles take effect immediately
+    if (rolesChanged) {
+      invalidateUserCache(session.tenantId, id);
+    }
+    if (user.isActive && isActive === false) {
+      await sessionService.revokeAllForUser(session.tenantId, id, session.userId, "USER_DEACTIVATED");
+    } else if (rolesChanged) {
+      await sessionService.revokeAllForUser(session.tenantId, id, session.userId, "ROLES_CHANGED");
+    }
+
     const updated = await prisma.user.findFirst({
       where: { id, tenantId: session.tenantId },
       include: { userRoles: { include: { role: true } } },
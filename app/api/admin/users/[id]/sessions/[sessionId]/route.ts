@@ -0,0 +1,24 @@
+import { NextRequest } from "next/server";
+import { getSession } from "@/lib/auth";
+import { requirePermission } from "@/lib/rbac";
+import { sessionService } from "@/lib/services/sessionService";
+
+type Params = Promise<{ id: string; sessionId: string }>;
+
+/**
+ * Revoke one session; the device is signed out on its next request
+ */
+export async function DELETE(_request: NextRequest, { params }: { params: Params }) {
+  const session = await getSession();
+  if (!session?.tenantId) return Response.json({ error: "Unauthorized" }, { status: 401 });
+  requirePermission(session, "USER_MANAGE");
+  const { id, sessionId } = await params;
+  const result = await sessionService.revoke(session.tenantId, id, sessionId, session.userId);
+  if (!result.success) {
+    return Response.json(
+      { error: result.error },
+      { status: result.errorCode === "NOT_FOUND" ? 404 : 500 }
+    );
+  }
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { getSession } from "@/lib/auth";
+import { requirePermission } from "@/lib/rbac";
+import { prisma } from "@/lib/prisma";
+import { sessionService } from "@/lib/services/sessionService";
+
+type Params = Promise<{ id: string }>;
+
+/**
+ * Active login sessions (one per device) of a user
+ */
+export async function GET(_request: NextRequest, { params }: { params: Params }) {
+  const session = await getSession();
+  if (!session?.tenantId) return Response.json({ error: "Unauthorized" }, { status: 401 });
+  requirePermission(session, "USER_MANAGE");
+  const { id } = await params;
+  const user = await prisma.user.findFirst({
+    where: { id, tenantId: session.tenantId },
+    select: { id: true },
+  });
+  if (!user) return Response.json({ error: "Not found" }, { status: 404 });
+  const sessions = await sessionService.listForUser(session.tenantId, id);
+  return Response.json(
+    sessions.map((s) => ({ ...s, isCurrent: s.id === session.sessionId }))
+  );
+}
+
+/**
+ * Sign the user out of every device
+ */
+export async function DELETE(_request: NextRequest, { params }: { params: Params }) {
+  const session = await getSession();
+  if (!session?.tenantId) return Response.json({ error: "Unauthorized" }, { status: 401 });
+  requirePermission(session, "USER_MANAGE");
+  const { id } = await params;
+  const user = await prisma.user.findFirst({
+    where: { id, tenantId: session.tenantId },
+    select: { id: true },
+  });
+  if (!user) return Response.json({ error: "Not found" }, { status: 404 });
+  const revoked = await sessionService.revokeAllForUser(session.tenantId, id, session.userId, "ADMIN_REVOKED");
+  return Response.json({ revoked });
+}
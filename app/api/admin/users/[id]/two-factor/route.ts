@@ -0,0 +1,22 @@
+import { NextRequest } from "next/server";
+import { getSession } from "@/lib/auth";
+import { requirePermission } from "@/lib/rbac";
+import { twoFactorService } from "@/lib/services/twoFactorService";
+
+type Params = Promise<{ id: string }>;
+
+/**
+ * Remove a user's two-factor authentication (e.g. lost phone)
+ */
+export async function DELETE(_request: NextRequest, { params }: { params: Params }) {
+  const session = await getSession();
+  if (!session?.tenantId) return Response.json({ error: "Unauthorized" }, { status: 401 });
+  requirePermission(session, "USER_MANAGE");
+  const { id } = await params;
+  const result = await twoFactorService.resetForUser(session.tenantId, id, session.userId);
+  if (!result.success) {
+    const status = result.errorCode === "NOT_FOUND" ? 404 : result.errorCode === "INTERNAL_ERROR" ? 500 : 400;
+    return Response.json({ error: result.error }, { status });
+  }
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from "next/server";
+import { getSession } from "@/lib/auth";
+import { requirePermission } from "@/lib/rbac";
+import { passwordService } from "@/lib/services/passwordService";
+
+type Params = Promise<{ id: string }>;
+
+/**
+ * Lift a failed-login lockout
+ */
+export async function POST(_request: NextRequest, { params }: { params: Params }) {
+  const session = await getSession();
+  if (!session?.tenantId) return Response.json({ error: "Unauthorized" }, { status: 401 });
+  requirePermission(session, "USER_MANAGE");
+  const { id } = await params;
+  const result = await passwordService.unlock(session.tenantId, id, session.userId);
+  if (!result.success) {
+    const status = result.errorCode === "NOT_FOUND" ? 404 : result.errorCode === "INTERNAL_ERROR" ? 500 : 400;
+    return Response.json({ error: result.error }, { status });
+  }
+  return Response.json({ unlocked: true });
+}
@@ -4,6 +4,7 @@ import { requirePermission } from "@/lib/rbac";
 import { prisma } from "@/lib/prisma";
 import { hashPassword } from "@/lib/auth";
 import { createAuditLog } from "@/lib/audit";
+import { passwordService, checkPasswordAgainstPolicy } from "@/lib/services/passwordService";
 
 export async function GET() {
   const session = await getSession();
@@ -20,6 +21,10 @@ export async function GET() {
       fullName: true,
       mobile: true,
       isActive: true,
+      mustChangePassword: true,
+      lockedAt: true,
+      lockedUntil: true,
+      twoFactorEnabled: true,
       createdAt: true,
       userRoles: { include: { role: { select: { id: true, code: true, name: true } } } },
     },
@@ -53,8 +58,14 @@ export async function POST(request: NextRequest) {
     if (!fullName || !email || !username) {
       return Response.json({ error: "Full name, email and username are required" }, { status: 400 });
     }
-    if (!password || password.length < 6) {
-      return Response.json({ error: "Password must be at least 6 characters" }, { status: 400 });
+    if (!password) {
+      return Response.json({ error: "Password is required" }, { status: 400 });
+    }
+
+    const policy = await passwordService.getPolicy(session.tenantId);
+    const violations = checkPasswordAgainstPolicy(policy, password, { email, username });
+    if (violations.length > 0) {
+      return Response.json({ error: violations.join(". ") }, { status: 400 });
     }
 
     const passwordHash = await hashPassword(password);
@@ -67,6 +78,7 @@ export async function POST(request: NextRequest) {
         mobile,
         passwordHash,
         isActive,
+        mustChangePassword: policy.forceChangeOnFirstLogin,
       },
     });
 
@@ -2,15 +2,21 @@
  * Appointment Actions API
  * 
  * POST /api/appointments/[id]/[action] - Perform action on appointment
- * Actions: reschedule, cancel, checkin, start, complete
+ * Actions: reschedule, cancel, confirm, checkin, start, complete
+ *
+ * reschedule and cancel accept scope THIS | FOLLOWING | ALL for appointments
+ * that belong to a recurring series (default THIS).
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { getSessionFromRequest } from "@/lib/auth";
 import { appointmentBookingService } from "@/lib/services/appointmentBookingService";
+import { appointmentSeriesService } from "@/lib/services/appointmentSeriesService";
 import {
   RescheduleAppointmentSchema,
   CancelAppointmentSchema,
+  RescheduleSeriesAppointmentsSchema,
+  CancelSeriesAppointmentsSchema,
 } from "@/lib/schemas/appointment-schema";
 
 interface RouteParams {
@@ -38,6 +44,33 @@ export async function POST(request: NextRequest, context: RouteParams) {
         }
 
         const body = await request.json();
+
+        if (body.scope && body.scope !== "THIS") {
+          const seriesParse = RescheduleSeriesAppointmentsSchema.safeParse(body);
+          if (!seriesParse.success) {
+            return NextResponse.json(
+              { success: false, error: "Validation failed", details: seriesParse.error.issues },
+              { status: 400 }
+            );
+          }
+
+          const seriesResult = await appointmentSeriesService.reschedule(
+            session.tenantId,
+            appointmentId,
+            seriesParse.data,
+            session.userId
+          );
+
+          if (!seriesResult.success) {
+            return NextResponse.json(
+              { success: false, error: seriesResult.error, errorCode: seriesResult.errorCode, data: seriesResult.data },
+              { status: seriesResult.errorCode === "SERIES_CONFLICT" ? 409 : 400 }
+            );
+          }
+
+          return NextResponse.json({ success: true, data: seriesResult.data });
+        }
+
         const parseResult = RescheduleAppointmentSchema.safeParse({ ...body, appointmentId });
         if (!parseResult.success) {
           return NextResponse.json(
@@ -70,6 +103,37 @@ export async function POST(request: NextRequest, context: RouteParams) {
         }
 
         const body = await request.json();
+
+        if (body.scope && body.scope !== "THIS") {
+          const seriesParse = CancelSeriesAppointmentsSchema.safeParse(body);
+          if (!seriesParse.success) {
+            return NextResponse.json(
+              { success: false, error: "Validation failed", details: seriesParse.error.issues },
+              { status: 400 }
+            );
+          }
+
+          const seriesResult = await appointmentSeriesService.cancel(
+            session.tenantId,
+            appointmentId,
+            seriesParse.data,
+            session.userId
+          );
+
+          if (!seriesResult.success) {
+            return NextResponse.json(
+              { success: false, error: seriesResult.error, errorCode: seriesResult.errorCode },
+              { status: 400 }
+            );
+          }
+
+          return NextResponse.json({
+            success: true,
+            message: `${seriesResult.data?.succeeded.length} appointment(s) cancelled`,
+            data: seriesResult.data,
+          });
+        }
+
         const parseResult = CancelAppointmentSchema.safeParse({ ...body, appointmentId });
         if (!parseResult.success) {
           return NextResponse.json(
@@ -94,6 +158,29 @@ export async function POST(request: NextRequest, context: RouteParams) {
         return NextResponse.json({ success: true, message: "Appointment cancelled" });
       }
 
+      case "confirm": {
+        const hasPermission = session.permissions?.includes("APPOINTMENT_UPDATE") || 
+                              session.permissions?.includes("ADMIN");
+        if (!hasPermission) {
+          return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+        }
+
+        const result = await appointmentBookingService.confirm(
+          session.tenantId,
+          appointmentId,
+          session.userId
+        );
+
+        if (!result.success) {
+          return NextResponse.json(
+            { success: false, error: result.error, errorCode: result.errorCode },
+            { status: 400 }
+          );
+        }
+
+        return NextResponse.json({ success: true, message: "Appointment confirmed" });
+      }
+
       case "checkin": {
         const hasPermission = session.permissions?.includes("APPOINTMENT_CHECKIN") || 
                               session.permissions?.includes("ADMIN");
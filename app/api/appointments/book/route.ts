@@ -39,6 +39,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Booking beyond slot capacity needs its own permission
+    if (parseResult.data.overbook) {
+      const canOverbook = session.permissions?.includes("APPOINTMENT_OVERBOOK") ||
+                          session.permissions?.includes("ADMIN");
+      if (!canOverbook) {
+        return NextResponse.json({ success: false, error: "Permission denied: cannot overbook" }, { status: 403 });
+      }
+    }
+
     const result = await appointmentBookingService.book(
       session.tenantId,
       parseResult.data,
@@ -46,7 +55,7 @@ export async function POST(request: NextRequest) {
     );
 
     if (!result.success) {
-      const status = result.errorCode === "SLOT_UNAVAILABLE" ? 409 : 400;
+      const status = result.errorCode === "SLOT_UNAVAILABLE" || result.errorCode === "SLOT_FULL" ? 409 : 400;
       return NextResponse.json(
         { success: false, error: result.error, errorCode: result.errorCode },
         { status }
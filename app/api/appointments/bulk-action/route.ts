@@ -0,0 +1,61 @@
+/**
+ * Bulk Appointment Action API
+ *
+ * POST /api/appointments/bulk-action - Cancel or reschedule several appointments
+ * (used after marking doctor leave or a holiday)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { appointmentBookingService } from "@/lib/services/appointmentBookingService";
+import { BulkAppointmentActionSchema } from "@/lib/schemas/appointment-schema";
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const parseResult = BulkAppointmentActionSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const requiredPermission =
+      parseResult.data.action === "CANCEL" ? "APPOINTMENT_CANCEL" : "APPOINTMENT_RESCHEDULE";
+    const hasPermission = session.permissions?.includes(requiredPermission) ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const result = await appointmentBookingService.bulkAction(
+      session.tenantId,
+      parseResult.data,
+      session.userId
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("POST bulk appointment action error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Online Booking Settings API
+ *
+ * GET /api/appointments/online-booking/settings - Get the booking link and policy windows
+ * PUT /api/appointments/online-booking/settings - Enable/disable, update windows or regenerate the link
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { onlineBookingService } from "@/lib/services/onlineBookingService";
+import { OnlineBookingSettingsSchema } from "@/lib/schemas/appointment-schema";
+
+// GET - Get settings
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("SETTINGS_MANAGE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const settings = await onlineBookingService.getSettings(session.tenantId);
+
+    return NextResponse.json({ success: true, data: settings });
+  } catch (error) {
+    console.error("GET online booking settings error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update settings
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("SETTINGS_MANAGE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parseResult = OnlineBookingSettingsSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await onlineBookingService.updateSettings(
+      session.tenantId,
+      parseResult.data,
+      session.userId
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("PUT online booking settings error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Appointment Reconciliation Detail API
+ *
+ * GET /api/appointments/reconciliations/[id] - Get a run with its items
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { appointmentReconciliationService } from "@/lib/services/appointmentReconciliationService";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("APPOINTMENT_RECONCILE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const reconciliation = await appointmentReconciliationService.getById(session.tenantId, id);
+
+    if (!reconciliation) {
+      return NextResponse.json({ success: false, error: "Reconciliation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: reconciliation });
+  } catch (error) {
+    console.error("GET reconciliation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
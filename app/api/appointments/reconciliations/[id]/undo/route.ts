@@ -0,0 +1,65 @@
+/**
+ * Appointment Reconciliation Undo API
+ *
+ * POST /api/appointments/reconciliations/[id]/undo - Restore selected items
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { appointmentReconciliationService } from "@/lib/services/appointmentReconciliationService";
+import { UndoReconciliationSchema } from "@/lib/schemas/appointment-schema";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("APPOINTMENT_RECONCILE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const body = await request.json();
+    const parseResult = UndoReconciliationSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await appointmentReconciliationService.undo(
+      session.tenantId,
+      id,
+      parseResult.data,
+      session.userId
+    );
+
+    if (!result.success) {
+      const status = result.errorCode === "NOT_FOUND" ? 404 : 400;
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("POST reconciliation undo error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Appointment Reconciliation API Routes
+ *
+ * GET /api/appointments/reconciliations - List end-of-day reconciliation runs
+ * POST /api/appointments/reconciliations - Run reconciliation now for a date
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { appointmentReconciliationService } from "@/lib/services/appointmentReconciliationService";
+import { ReconciliationQuerySchema, RunReconciliationSchema } from "@/lib/schemas/appointment-schema";
+
+// GET - List reconciliation runs
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("APPOINTMENT_RECONCILE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = ReconciliationQuerySchema.safeParse({
+      page: searchParams.get("page") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid query parameters", details: queryResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await appointmentReconciliationService.list(session.tenantId, queryResult.data);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("GET reconciliations error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Run reconciliation now
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("APPOINTMENT_RECONCILE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parseResult = RunReconciliationSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await appointmentReconciliationService.run(
+      session.tenantId,
+      parseResult.data,
+      session.userId
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+  } catch (error) {
+    console.error("POST reconciliation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Appointment Reconciliation Settings API
+ *
+ * GET /api/appointments/reconciliations/settings - Get cutoff time and enabled flag
+ * PUT /api/appointments/reconciliations/settings - Update cutoff time and enabled flag
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { appointmentReconciliationService } from "@/lib/services/appointmentReconciliationService";
+import { ReconciliationSettingsSchema } from "@/lib/schemas/appointment-schema";
+
+// GET - Get settings
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("APPOINTMENT_RECONCILE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const settings = await appointmentReconciliationService.getSettings(session.tenantId);
+
+    return NextResponse.json({ success: true, data: settings });
+  } catch (error) {
+    console.error("GET reconciliation settings error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update settings
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("SETTINGS_MANAGE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parseResult = ReconciliationSettingsSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await appointmentReconciliationService.updateSettings(
+      session.tenantId,
+      parseResult.data,
+      session.userId
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("PUT reconciliation settings error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
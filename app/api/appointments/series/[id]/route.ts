@@ -0,0 +1,50 @@
+/**
+ * Appointment Series Detail API
+ *
+ * GET /api/appointments/series/[id] - Get a series with its occurrences
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { appointmentSeriesService } from "@/lib/services/appointmentSeriesService";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET - Series detail
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("APPOINTMENT_VIEW") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const result = await appointmentSeriesService.getById(session.tenantId, id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.errorCode === "NOT_FOUND" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("GET appointment series error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Appointment Series API
+ *
+ * POST /api/appointments/series - Book a recurring series of appointments
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { appointmentSeriesService } from "@/lib/services/appointmentSeriesService";
+import { CreateAppointmentSeriesSchema } from "@/lib/schemas/appointment-schema";
+
+// POST - Create series
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("APPOINTMENT_CREATE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parseResult = CreateAppointmentSeriesSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await appointmentSeriesService.create(
+      session.tenantId,
+      parseResult.data,
+      session.userId
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode, data: result.data },
+        { status: result.errorCode === "SERIES_CONFLICT" ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+  } catch (error) {
+    console.error("POST appointment series error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
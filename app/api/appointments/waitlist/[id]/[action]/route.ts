@@ -0,0 +1,111 @@
+/**
+ * Appointment Waitlist Actions API
+ *
+ * POST /api/appointments/waitlist/[id]/[action] - Perform action on a waitlist entry
+ * Actions: book (accept the offered slot), decline, cancel
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { appointmentBookingService } from "@/lib/services/appointmentBookingService";
+import { appointmentWaitlistService } from "@/lib/services/appointmentWaitlistService";
+import { CancelWaitlistEntrySchema } from "@/lib/schemas/appointment-schema";
+
+interface RouteParams {
+  params: Promise<{ id: string; action: string }>;
+}
+
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("APPOINTMENT_CREATE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const { id: waitlistId, action } = await context.params;
+
+    switch (action) {
+      case "book": {
+        const result = await appointmentBookingService.bookFromWaitlist(
+          session.tenantId,
+          waitlistId,
+          session.userId
+        );
+
+        if (!result.success) {
+          return NextResponse.json(
+            { success: false, error: result.error, errorCode: result.errorCode },
+            { status: result.errorCode === "NOT_FOUND" ? 404 : 400 }
+          );
+        }
+
+        return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+      }
+
+      case "decline": {
+        const result = await appointmentWaitlistService.decline(
+          session.tenantId,
+          waitlistId,
+          session.userId
+        );
+
+        if (!result.success) {
+          return NextResponse.json(
+            { success: false, error: result.error, errorCode: result.errorCode },
+            { status: result.errorCode === "NOT_FOUND" ? 404 : 400 }
+          );
+        }
+
+        return NextResponse.json({ success: true, message: "Offer declined" });
+      }
+
+      case "cancel": {
+        const body = await request.json();
+        const parseResult = CancelWaitlistEntrySchema.safeParse(body);
+        if (!parseResult.success) {
+          return NextResponse.json(
+            { success: false, error: "Validation failed", details: parseResult.error.issues },
+            { status: 400 }
+          );
+        }
+
+        const result = await appointmentWaitlistService.cancel(
+          session.tenantId,
+          waitlistId,
+          parseResult.data,
+          session.userId
+        );
+
+        if (!result.success) {
+          return NextResponse.json(
+            { success: false, error: result.error, errorCode: result.errorCode },
+            { status: result.errorCode === "NOT_FOUND" ? 404 : 400 }
+          );
+        }
+
+        return NextResponse.json({ success: true, message: "Removed from waitlist" });
+      }
+
+      default:
+        return NextResponse.json(
+          { success: false, error: `Unknown action: ${action}` },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error("Waitlist action error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
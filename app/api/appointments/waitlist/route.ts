@@ -0,0 +1,104 @@
+/**
+ * Appointment Waitlist API
+ *
+ * GET /api/appointments/waitlist - List waitlist entries (open entries by default)
+ * POST /api/appointments/waitlist - Add a patient to a doctor's waitlist for a date
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { appointmentWaitlistService } from "@/lib/services/appointmentWaitlistService";
+import { CreateWaitlistEntrySchema, WaitlistQuerySchema } from "@/lib/schemas/appointment-schema";
+
+// GET - List waitlist
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("APPOINTMENT_VIEW") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = WaitlistQuerySchema.safeParse({
+      date: searchParams.get("date") || undefined,
+      doctorId: searchParams.get("doctorId") || undefined,
+      departmentId: searchParams.get("departmentId") || undefined,
+      status: searchParams.get("status") || undefined,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid query parameters", details: queryResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const entries = await appointmentWaitlistService.list(session.tenantId, queryResult.data);
+
+    return NextResponse.json({ success: true, data: entries });
+  } catch (error) {
+    console.error("GET waitlist error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add to waitlist
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const hasPermission = session.permissions?.includes("APPOINTMENT_CREATE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parseResult = CreateWaitlistEntrySchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await appointmentWaitlistService.add(
+      session.tenantId,
+      parseResult.data,
+      session.userId
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.errorCode === "DUPLICATE_ENTRY" ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+  } catch (error) {
+    console.error("POST waitlist error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,27 @@
 import { NextRequest } from "next/server";
 import { cookies } from "next/headers";
 import { prisma } from "@/lib/prisma";
-import { createTenantToken, getCookieNames } from "@/lib/auth";
+import {
+  getCookieNames,
+  getSessionCookieOptions,
+  createPasswordChangeToken,
+  createTwoFactorPendingToken,
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS,
+} from "@/lib/auth";
 import { getUserPermissionCodes } from "@/lib/rbac";
+import { sessionService, getSessionMeta } from "@/lib/services/sessionService";
+import { passwordService, describeLock, type LockState } from "@/lib/services/passwordService";
+import { twoFactorService } from "@/lib/services/twoFactorService";
 import bcrypt from "bcryptjs";
 
+function lockedResponse(lock: LockState) {
+  return Response.json(
+    { error: describeLock(lock), errorCode: "ACCOUNT_LOCKED", lockedUntil: lock.lockedUntil },
+    { status: 423 }
+  );
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -52,15 +69,51 @@ export async function POST(request: NextRequest) {
       return Response.json({ error: "Invalid credentials" }, { status: 401 });
     }
 
+    const policy = await passwordService.getPolicy(tenant.id);
+    const lock = passwordService.getLockState(user);
+    if (lock.locked) {
+      return lockedResponse(lock);
+    }
+
     const valid = await bcrypt.compare(password, user.passwordHash);
     if (!valid) {
+      const failed = await passwordService.recordFailedLogin(user, policy);
+      if (failed.locked) {
+        return lockedResponse(failed);
+      }
       return Response.json({ error: "Invalid credentials" }, { status: 401 });
     }
 
+    // Second factor pending: no session until the code is verified. The failed
+    // attempt counter is only cleared once the code is accepted.
+    const twoFactorMode = await twoFactorService.getLoginMode(user);
+    if (twoFactorMode) {
+      return Response.json({
+        success: true,
+        twoFactorRequired: true,
+        mode: twoFactorMode,
+        pendingToken: await createTwoFactorPendingToken({ userId: user.id, tenantId: tenant.id, isSuperAdmin: false }),
+      });
+    }
+
+    await passwordService.recordSuccessfulLogin(user);
+
+    // First login or expired password: no session until a new password is set
+    const changeReason = passwordService.getChangeRequirement(user, policy);
+    if (changeReason) {
+      return Response.json({
+        success: true,
+        passwordChangeRequired: true,
+        reason: changeReason,
+        changeToken: await createPasswordChangeToken(user.id, tenant.id),
+        policy,
+      });
+    }
+
     const permissions = await getUserPermissionCodes(user.id, user.tenantId!);
     const departmentIds = user.userDepartments.map((ud) => ud.departmentId);
     
-    const token = await createTenantToken({
+    const session = await sessionService.start({
       userId: user.id,
       email: user.email,
       username: user.username,
@@ -71,17 +124,12 @@ export async function POST(request: NextRequest) {
       isSuperAdmin: false,
       permissions,
       departmentIds,
-    });
+    }, getSessionMeta(request));
 
-    const { COOKIE_NAME } = getCookieNames();
+    const { COOKIE_NAME, REFRESH_COOKIE } = getCookieNames();
     const cookieStore = await cookies();
-    cookieStore.set(COOKIE_NAME, token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 7,
-      path: "/",
-    });
+    cookieStore.set(COOKIE_NAME, session.accessToken, getSessionCookieOptions(ACCESS_TOKEN_TTL_SECONDS));
+    cookieStore.set(REFRESH_COOKIE, session.refreshToken, getSessionCookieOptions(REFRESH_TOKEN_TTL_SECONDS));
 
     return Response.json({
       success: true,
@@ -1,11 +1,30 @@
 import { NextRequest } from "next/server";
 import { cookies } from "next/headers";
-import { getCookieNames } from "@/lib/auth";
+import { getCookieNames, verifyToken } from "@/lib/auth";
+import { sessionService } from "@/lib/services/sessionService";
+
+export async function POST(request: NextRequest) {
+  const { COOKIE_NAME, SUPER_ADMIN_COOKIE, REFRESH_COOKIE, SUPER_ADMIN_REFRESH_COOKIE } = getCookieNames();
+
+  // End the server-side session so the refresh token can no longer be used
+  const accessToken = request.cookies.get(SUPER_ADMIN_COOKIE)?.value ?? request.cookies.get(COOKIE_NAME)?.value;
+  const refreshToken =
+    request.cookies.get(SUPER_ADMIN_REFRESH_COOKIE)?.value ?? request.cookies.get(REFRESH_COOKIE)?.value;
+  const payload = accessToken ? await verifyToken(accessToken) : null;
+  const sessionId = payload?.sessionId ?? refreshToken?.split(".")[0];
+
+  if (sessionId) {
+    try {
+      await sessionService.revokeSession(sessionId, payload?.userId ?? null, "LOGOUT");
+    } catch (e) {
+      console.error("Logout session revoke:", e);
+    }
+  }
 
-export async function POST(_request: NextRequest) {
-  const { COOKIE_NAME, SUPER_ADMIN_COOKIE } = getCookieNames();
   const cookieStore = await cookies();
   cookieStore.delete(COOKIE_NAME);
   cookieStore.delete(SUPER_ADMIN_COOKIE);
+  cookieStore.delete(REFRESH_COOKIE);
+  cookieStore.delete(SUPER_ADMIN_REFRESH_COOKIE);
   return Response.json({ success: true });
 }
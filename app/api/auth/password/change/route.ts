@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+import { cookies } from "next/headers";
+import {
+  getCookieNames,
+  getSessionCookieOptions,
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS,
+} from "@/lib/auth";
+import { sessionService, getSessionMeta } from "@/lib/services/sessionService";
+import { passwordService } from "@/lib/services/passwordService";
+import { RequiredPasswordChangeSchema } from "@/lib/schemas/auth-schema";
+
+/**
+ * Set a new password when login requires it (first login or expired
+ * password). The change token from the login response proves the old
+ * password was verified; on success the session starts here.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parseResult = RequiredPasswordChangeSchema.safeParse(body);
+    if (!parseResult.success) {
+      return Response.json(
+        { error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await passwordService.completeRequiredChange(parseResult.data);
+    if (!result.success || !result.data) {
+      return Response.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: result.errorCode === "TOKEN_INVALID" ? 401 : 400 }
+      );
+    }
+
+    const session = await sessionService.startForUser(result.data.userId, getSessionMeta(request));
+    if (!session) {
+      return Response.json({ error: "Account is inactive" }, { status: 403 });
+    }
+
+    const { COOKIE_NAME, REFRESH_COOKIE } = getCookieNames();
+    const cookieStore = await cookies();
+    cookieStore.set(COOKIE_NAME, session.accessToken, getSessionCookieOptions(ACCESS_TOKEN_TTL_SECONDS));
+    cookieStore.set(REFRESH_COOKIE, session.refreshToken, getSessionCookieOptions(REFRESH_TOKEN_TTL_SECONDS));
+
+    return Response.json({
+      success: true,
+      redirect: "/dashboard",
+    });
+  } catch (e) {
+    console.error("Required password change:", e);
+    return Response.json({ error: "Failed to change password" }, { status: 500 });
+  }
+}
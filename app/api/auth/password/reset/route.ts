@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server";
+import { passwordService } from "@/lib/services/passwordService";
+import { ResetPasswordSchema } from "@/lib/schemas/auth-schema";
+
+/**
+ * Admin-issued password reset links
+ *
+ * GET  /api/auth/password/reset?token= - Who the link is for and the password rules
+ * POST /api/auth/password/reset        - Set a new password and consume the link
+ */
+
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token");
+  if (!token) {
+    return Response.json({ error: "Token is required" }, { status: 400 });
+  }
+
+  const result = await passwordService.getResetLinkInfo(token);
+  if (!result.success) {
+    return Response.json({ error: result.error, errorCode: result.errorCode }, { status: 404 });
+  }
+
+  return Response.json({ success: true, data: result.data });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parseResult = ResetPasswordSchema.safeParse(body);
+    if (!parseResult.success) {
+      return Response.json(
+        { error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await passwordService.resetWithToken(parseResult.data);
+    if (!result.success) {
+      return Response.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: result.errorCode === "LINK_INVALID" ? 404 : 400 }
+      );
+    }
+
+    return Response.json({ success: true, redirect: "/login" });
+  } catch (e) {
+    console.error("Password reset:", e);
+    return Response.json({ error: "Failed to reset password" }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+import { cookies } from "next/headers";
+import {
+  getCookieNames,
+  getSessionCookieOptions,
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS,
+} from "@/lib/auth";
+import { sessionService, getSessionMeta } from "@/lib/services/sessionService";
+
+/**
+ * Exchange the refresh cookie for a new access token (and rotated refresh token).
+ * Page and API requests are refreshed transparently by the middleware; this
+ * endpoint lets clients renew ahead of a long-running action.
+ */
+export async function POST(request: NextRequest) {
+  const { COOKIE_NAME, SUPER_ADMIN_COOKIE, REFRESH_COOKIE, SUPER_ADMIN_REFRESH_COOKIE } = getCookieNames();
+  const refreshToken =
+    request.cookies.get(SUPER_ADMIN_REFRESH_COOKIE)?.value ?? request.cookies.get(REFRESH_COOKIE)?.value;
+
+  if (!refreshToken) {
+    return Response.json({ error: "No session" }, { status: 401 });
+  }
+
+  const result = await sessionService.refresh(refreshToken, getSessionMeta(request));
+  const cookieStore = await cookies();
+
+  if (!result.success || !result.data) {
+    cookieStore.delete(COOKIE_NAME);
+    cookieStore.delete(SUPER_ADMIN_COOKIE);
+    cookieStore.delete(REFRESH_COOKIE);
+    cookieStore.delete(SUPER_ADMIN_REFRESH_COOKIE);
+    return Response.json(
+      { error: result.error ?? "Session expired", errorCode: result.errorCode },
+      { status: result.errorCode === "INTERNAL_ERROR" ? 500 : 401 }
+    );
+  }
+
+  const { accessToken, refreshToken: rotatedToken, payload } = result.data;
+  const isSuperAdmin = payload.isSuperAdmin;
+  cookieStore.set(
+    isSuperAdmin ? SUPER_ADMIN_COOKIE : COOKIE_NAME,
+    accessToken,
+    getSessionCookieOptions(ACCESS_TOKEN_TTL_SECONDS)
+  );
+  if (rotatedToken) {
+    cookieStore.set(
+      isSuperAdmin ? SUPER_ADMIN_REFRESH_COOKIE : REFRESH_COOKIE,
+      rotatedToken,
+      getSessionCookieOptions(REFRESH_TOKEN_TTL_SECONDS)
+    );
+  }
+
+  return Response.json({ success: true, expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
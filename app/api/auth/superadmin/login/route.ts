@@ -1,14 +1,21 @@
 import { NextRequest } from "next/server";
-import { cookies } from "next/headers";
 import { prisma } from "@/lib/prisma";
-import { verifyPassword, createSuperAdminToken, getCookieNames } from "@/lib/auth";
+import { verifyPassword, createTwoFactorPendingToken } from "@/lib/auth";
+import { passwordService, describeLock } from "@/lib/services/passwordService";
 
 type SuperAdminRow = {
   id: string;
+  tenantId: string | null;
   email: string;
   username: string;
   fullName: string;
   passwordHash: string;
+  passwordChangedAt: Date;
+  mustChangePassword: boolean;
+  failedLoginAttempts: number;
+  lockedAt: Date | null;
+  lockedUntil: Date | null;
+  twoFactorEnabled: boolean;
 };
 
 async function findSuperAdminUser(username: string): Promise<SuperAdminRow | null> {
@@ -20,7 +27,8 @@ async function findSuperAdminUser(username: string): Promise<SuperAdminRow | nul
     return user as SuperAdminRow | null;
   }
   const rows = await prisma.$queryRaw<SuperAdminRow[]>`
-    SELECT id, email, username, "fullName", "passwordHash"
+    SELECT id, "tenantId", email, username, "fullName", "passwordHash", "passwordChangedAt",
+           "mustChangePassword", "failedLoginAttempts", "lockedAt", "lockedUntil", "twoFactorEnabled"
     FROM "User"
     WHERE username = ${un}
       AND "tenantId" IS NULL
@@ -31,6 +39,11 @@ async function findSuperAdminUser(username: string): Promise<SuperAdminRow | nul
   return rows[0] ?? null;
 }
 
+/**
+ * Superadmin password check. A second factor is always required: the
+ * response carries a pending token for /api/auth/two-factor/verify (or
+ * /enroll on first sign-in); the session cookie is issued there.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -50,37 +63,27 @@ export async function POST(request: NextRequest) {
       return Response.json({ error: "Invalid credentials" }, { status: 401 });
     }
 
+    const lock = passwordService.getLockState(user);
+    if (lock.locked) {
+      return Response.json({ error: describeLock(lock), errorCode: "ACCOUNT_LOCKED" }, { status: 423 });
+    }
+
     const valid = await verifyPassword(password, user.passwordHash);
     if (!valid) {
+      const failed = await passwordService.recordFailedLogin(user, await passwordService.getPolicy(null));
+      if (failed.locked) {
+        return Response.json({ error: describeLock(failed), errorCode: "ACCOUNT_LOCKED" }, { status: 423 });
+      }
       return Response.json({ error: "Invalid credentials" }, { status: 401 });
     }
 
-    const token = await createSuperAdminToken({
-      userId: user.id,
-      email: user.email,
-      username: user.username,
-      fullName: user.fullName,
-      tenantId: null,
-      tenantCode: null,
-      tenantName: null,
-      isSuperAdmin: true,
-      permissions: [], // super admin has all
-      departmentIds: [], // super admin has no tenant departments
-    });
-
-    const { SUPER_ADMIN_COOKIE } = getCookieNames();
-    const cookieStore = await cookies();
-    cookieStore.set(SUPER_ADMIN_COOKIE, token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-      path: "/",
-    });
-
+    // Super admins always need a second factor; the failed attempt counter is
+    // cleared once the code is accepted
     return Response.json({
       success: true,
-      redirect: "/superadmin/dashboard",
+      twoFactorRequired: true,
+      mode: user.twoFactorEnabled ? "VERIFY" : "ENROLL",
+      pendingToken: await createTwoFactorPendingToken({ userId: user.id, tenantId: null, isSuperAdmin: true }),
     });
   } catch (e) {
     console.error("Super admin login:", e);
@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import { twoFactorService } from "@/lib/services/twoFactorService";
+import { TwoFactorPendingSchema } from "@/lib/schemas/auth-schema";
+
+/**
+ * Authenticator setup during login, for users whose role requires 2FA (and
+ * superadmins) who have not enrolled yet. Confirmed via /api/auth/two-factor/verify.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parseResult = TwoFactorPendingSchema.safeParse(body);
+    if (!parseResult.success) {
+      return Response.json(
+        { error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await twoFactorService.startLoginEnrollment(parseResult.data.pendingToken);
+    if (!result.success) {
+      return Response.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: result.errorCode === "TOKEN_INVALID" ? 401 : 400 }
+      );
+    }
+
+    return Response.json({ success: true, data: result.data });
+  } catch (e) {
+    console.error("2FA login enrollment:", e);
+    return Response.json({ error: "Failed to start enrollment" }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest } from "next/server";
+import { cookies } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import {
+  getCookieNames,
+  getSessionCookieOptions,
+  createPasswordChangeToken,
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS,
+} from "@/lib/auth";
+import { sessionService, getSessionMeta } from "@/lib/services/sessionService";
+import { passwordService } from "@/lib/services/passwordService";
+import { twoFactorService } from "@/lib/services/twoFactorService";
+import { TwoFactorLoginSchema } from "@/lib/schemas/auth-schema";
+
+/**
+ * Second login step: verify the authenticator (or recovery) code for a
+ * pending login and start the session. Tenant users whose password must be
+ * changed continue with /api/auth/password/change instead.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parseResult = TwoFactorLoginSchema.safeParse(body);
+    if (!parseResult.success) {
+      return Response.json(
+        { error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await twoFactorService.completeLogin(parseResult.data);
+    if (!result.success || !result.data) {
+      const status =
+        result.errorCode === "TOKEN_INVALID" ? 401 : result.errorCode === "ACCOUNT_LOCKED" ? 423 : 400;
+      return Response.json({ error: result.error, errorCode: result.errorCode }, { status });
+    }
+
+    const { userId, tenantId, isSuperAdmin, recoveryCodes } = result.data;
+
+    if (!isSuperAdmin && tenantId) {
+      const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+      const policy = await passwordService.getPolicy(tenantId);
+      const changeReason = passwordService.getChangeRequirement(user, policy);
+      if (changeReason) {
+        return Response.json({
+          success: true,
+          passwordChangeRequired: true,
+          reason: changeReason,
+          changeToken: await createPasswordChangeToken(userId, tenantId),
+          policy,
+          recoveryCodes,
+        });
+      }
+    }
+
+    const session = await sessionService.startForUser(userId, getSessionMeta(request));
+    if (!session) {
+      return Response.json({ error: "Account is inactive" }, { status: 403 });
+    }
+
+    const { COOKIE_NAME, SUPER_ADMIN_COOKIE, REFRESH_COOKIE, SUPER_ADMIN_REFRESH_COOKIE } = getCookieNames();
+    const cookieStore = await cookies();
+    cookieStore.set(
+      isSuperAdmin ? SUPER_ADMIN_COOKIE : COOKIE_NAME,
+      session.accessToken,
+      getSessionCookieOptions(ACCESS_TOKEN_TTL_SECONDS)
+    );
+    cookieStore.set(
+      isSuperAdmin ? SUPER_ADMIN_REFRESH_COOKIE : REFRESH_COOKIE,
+      session.refreshToken,
+      getSessionCookieOptions(REFRESH_TOKEN_TTL_SECONDS)
+    );
+
+    return Response.json({
+      success: true,
+      redirect: isSuperAdmin ? "/superadmin/dashboard" : "/dashboard",
+      recoveryCodes,
+    });
+  } catch (e) {
+    console.error("2FA login:", e);
+    return Response.json({ error: "Login failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  addInvoiceItem,
+  removeInvoiceItem,
+} from "@/lib/services/billing/invoice.service";
+import { AddInvoiceItemSchema } from "@/lib/schemas/billing-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("INVOICE_EDIT")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { version, ...item } = AddInvoiceItemSchema.parse(body);
+
+    const invoice = await addInvoiceItem(session.tenantId, session.userId, id, version, item);
+
+    return NextResponse.json(
+      { success: true, data: invoice, message: "Item added" },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/billing/invoices/[id]/items error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("INVOICE_EDIT")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const itemId = searchParams.get("itemId");
+    const version = parseInt(searchParams.get("version") || "", 10);
+
+    if (!itemId || isNaN(version)) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "itemId and version are required" },
+        { status: 400 }
+      );
+    }
+
+    const invoice = await removeInvoiceItem(session.tenantId, session.userId, id, version, itemId);
+
+    return NextResponse.json({ success: true, data: invoice, message: "Item removed" });
+  } catch (error) {
+    console.error("DELETE /api/billing/invoices/[id]/items error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  recordPayment,
+  getInvoicePayments,
+} from "@/lib/services/billing/payment.service";
+import { RecordPaymentSchema } from "@/lib/schemas/billing-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("PAYMENT_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const payments = await getInvoicePayments(session.tenantId, id);
+
+    return NextResponse.json({ success: true, data: payments });
+  } catch (error) {
+    console.error("GET /api/billing/invoices/[id]/payments error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("PAYMENT_CREATE")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = RecordPaymentSchema.parse(body);
+
+    const payment = await recordPayment(session.tenantId, session.userId, id, {
+      amount: validatedData.amount,
+      paymentMethod: validatedData.paymentMethod,
+      reference: validatedData.reference || undefined,
+      notes: validatedData.notes || undefined,
+    });
+
+    return NextResponse.json(
+      { success: true, data: payment, message: `Payment ${payment.paymentNumber} recorded` },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/billing/invoices/[id]/payments error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  getInvoiceById,
+  finalizeInvoice,
+  cancelInvoice,
+  pullVisitCharges,
+} from "@/lib/services/billing/invoice.service";
+import { InvoiceActionSchema } from "@/lib/schemas/billing-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("INVOICE_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const invoice = await getInvoiceById(session.tenantId, id);
+
+    return NextResponse.json({ success: true, data: invoice });
+  } catch (error) {
+    console.error("GET /api/billing/invoices/[id] error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("INVOICE_EDIT")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get("action");
+    const body = await request.json();
+    const { version, reason } = InvoiceActionSchema.parse(body);
+
+    if (action === "finalize") {
+      const invoice = await finalizeInvoice(session.tenantId, session.userId, id, version);
+      return NextResponse.json({ success: true, data: invoice, message: `Invoice ${invoice.invoiceNumber} finalized` });
+    }
+
+    if (action === "cancel") {
+      const invoice = await cancelInvoice(session.tenantId, session.userId, id, version, reason);
+      return NextResponse.json({ success: true, data: invoice, message: "Invoice cancelled" });
+    }
+
+    if (action === "pull-charges") {
+      const invoice = await pullVisitCharges(session.tenantId, session.userId, id, version);
+      return NextResponse.json({ success: true, data: invoice, message: "Pending visit charges added" });
+    }
+
+    return NextResponse.json(
+      { success: false, errorCode: "BAD_REQUEST", message: "Invalid action. Use ?action=finalize, ?action=cancel or ?action=pull-charges" },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error("PATCH /api/billing/invoices/[id] error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
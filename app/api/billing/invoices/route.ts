@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  createDraftInvoice,
+  getInvoicesCursor,
+} from "@/lib/services/billing/invoice.service";
+import {
+  CreateInvoiceSchema,
+  InvoiceQuerySchema,
+} from "@/lib/schemas/billing-schema";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("INVOICE_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryData = {
+      search: searchParams.get("search") || undefined,
+      status: searchParams.get("status") || "ALL",
+      patientId: searchParams.get("patientId") || undefined,
+      visitId: searchParams.get("visitId") || undefined,
+      limit: searchParams.get("limit") ? parseInt(searchParams.get("limit")!) : 20,
+      cursor: searchParams.get("cursor") || undefined,
+    };
+
+    const validatedQuery = InvoiceQuerySchema.parse(queryData);
+
+    const result = await getInvoicesCursor(session.tenantId, {
+      search: validatedQuery.search,
+      status: validatedQuery.status === "ALL" ? undefined : validatedQuery.status,
+      patientId: validatedQuery.patientId,
+      visitId: validatedQuery.visitId,
+      limit: validatedQuery.limit,
+      cursor: validatedQuery.cursor,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    console.error("GET /api/billing/invoices error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("INVOICE_CREATE")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = CreateInvoiceSchema.parse(body);
+
+    const invoice = await createDraftInvoice(session.tenantId, session.userId, {
+      visitId: validatedData.visitId,
+      consultationType: validatedData.consultationType,
+      dueDate: validatedData.dueDate || undefined,
+      notes: validatedData.notes || undefined,
+    });
+
+    return NextResponse.json(
+      { success: true, data: invoice, message: "Draft invoice created" },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/billing/invoices error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { approveShift } from "@/lib/services/billing/cashier-shift.service";
+import { ApproveShiftSchema } from "@/lib/schemas/billing-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("CASHIER_SHIFT_APPROVE")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = ApproveShiftSchema.parse(body);
+
+    const shift = await approveShift(session.tenantId, session.userId, id, validatedData);
+
+    return NextResponse.json({ success: true, data: shift, message: `Shift ${shift.shiftNumber} signed off` });
+  } catch (error) {
+    console.error("POST /api/billing/shifts/[id]/approve error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { getCurrentShift } from "@/lib/services/billing/cashier-shift.service";
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("CASHIER_SHIFT_OPERATE")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const shift = await getCurrentShift(session.tenantId, session.userId);
+
+    return NextResponse.json({ success: true, data: shift });
+  } catch (error) {
+    console.error("GET /api/billing/shifts/current error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
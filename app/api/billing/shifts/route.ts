@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { openShift, listShifts } from "@/lib/services/billing/cashier-shift.service";
+import { OpenShiftSchema, ShiftQuerySchema } from "@/lib/schemas/billing-schema";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    const canViewAll = session.permissions.includes("CASHIER_SHIFT_VIEW");
+    if (!canViewAll && !session.permissions.includes("CASHIER_SHIFT_OPERATE")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = ShiftQuerySchema.parse({
+      status: searchParams.get("status") || undefined,
+      date: searchParams.get("date") || undefined,
+      cashierId: searchParams.get("cashierId") || undefined,
+    });
+
+    // Cashiers without view rights only see their own shifts
+    const shifts = await listShifts(session.tenantId, canViewAll ? query : { ...query, cashierId: session.userId });
+
+    return NextResponse.json({ success: true, data: shifts });
+  } catch (error) {
+    console.error("GET /api/billing/shifts error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("CASHIER_SHIFT_OPERATE")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = OpenShiftSchema.parse(body);
+
+    const shift = await openShift(session.tenantId, session.userId, validatedData);
+
+    return NextResponse.json(
+      { success: true, data: shift, message: `Shift ${shift.shiftNumber} opened` },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/billing/shifts error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Consultation Coded Diagnoses API
+ * 
+ * POST /api/consultation/diagnoses
+ * 
+ * Replaces the ICD-10 coded diagnoses of a visit's consultation.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { getUserPermissionCodes } from "@/lib/rbac";
+import { saveConsultationDiagnoses } from "@/lib/services/consultation-writes";
+import { SaveCodedDiagnosesSchema } from "@/lib/schemas/clinical-schema";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Auth check
+    const session = await getSessionFromRequest(request);
+    if (!session || !session.userId || !session.tenantId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { userId, tenantId } = session;
+
+    // Permission check - same access as clinical notes
+    const permissions = await getUserPermissionCodes(userId, tenantId);
+    const hasAccess = permissions.includes("OPD_CONSULTATION_CREATE") || 
+                      permissions.includes("OPD_CONSULTATION_UPDATE") ||
+                      permissions.includes("CONSULTATION_CREATE") ||
+                      permissions.includes("CONSULTATION_VIEW") ||
+                      permissions.includes("ADMIN");
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { success: false, error: "Permission denied" },
+        { status: 403 }
+      );
+    }
+
+    // Parse body
+    const parsed = SaveCodedDiagnosesSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+
+    const { visitId, diagnoses } = parsed.data;
+    const result = await saveConsultationDiagnoses(visitId, diagnoses, tenantId, userId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error("[Consultation Diagnoses API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
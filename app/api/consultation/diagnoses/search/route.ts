@@ -0,0 +1,43 @@
+/**
+ * ICD-10 Diagnosis Search API
+ * 
+ * GET /api/consultation/diagnoses/search?q=xxx
+ * 
+ * Diagnosis code auto-suggest.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { searchIcdCodes } from "@/lib/services/icd-codes";
+
+export async function GET(request: NextRequest) {
+  try {
+    // Auth check
+    const session = await getSessionFromRequest(request);
+    if (!session || !session.userId || !session.tenantId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get query params
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get("q") || "";
+    const limitStr = searchParams.get("limit");
+    const limit = limitStr ? Math.min(parseInt(limitStr, 10) || 10, 50) : 10;
+
+    const suggestions = await searchIcdCodes(query, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: suggestions,
+    });
+  } catch (error) {
+    console.error("[ICD Search API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Prescription Safety Check API
+ * 
+ * POST /api/consultation/prescription/check
+ * 
+ * Returns interaction, duplicate therapy and allergy warnings for the
+ * medicines being prescribed. Nothing is saved.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { checkVisitPrescriptionSafety, SafetyCheckItem } from "@/lib/services/prescription-safety";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Auth check
+    const session = await getSessionFromRequest(request);
+    if (!session || !session.userId || !session.tenantId) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { tenantId } = session;
+
+    // Parse body
+    const body = await request.json();
+    const { visitId, items } = body as { visitId: string; items: SafetyCheckItem[] };
+
+    if (!visitId) {
+      return NextResponse.json(
+        { success: false, error: "visitId is required" },
+        { status: 400 }
+      );
+    }
+
+    // Keep positions aligned with the screen's rows; blank rows match nothing
+    const checkItems = (items || []).map(item => ({
+      medicineName: item?.medicineName ?? "",
+      genericName: item?.genericName ?? null,
+      overrideReason: item?.overrideReason ?? null,
+    }));
+    const warnings = await checkVisitPrescriptionSafety(visitId, tenantId, checkItems);
+
+    if (!warnings) {
+      return NextResponse.json(
+        { success: false, error: "Visit not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: warnings,
+    });
+  } catch (error) {
+    console.error("[Prescription Check API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
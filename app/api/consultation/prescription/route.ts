@@ -78,7 +78,7 @@ export async function POST(request: NextRequest) {
 
     if (!result.success) {
       return NextResponse.json(
-        { success: false, error: result.error },
+        { success: false, error: result.error, warnings: result.warnings },
         { status: 400 }
       );
     }
@@ -86,6 +86,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       data: result.data,
+      warnings: result.warnings,
     });
   } catch (error) {
     console.error("[Consultation Prescription API] Error:", error);
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { getDischargeSummaryPrintData } from "@/lib/services/ipd/discharge-summary.service";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/ipd/admissions/[id]/discharge-summary/print
+ * Summary content with tenant letterhead for the print page.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("IPD_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const data = await getDischargeSummaryPrintData(session.tenantId, id);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("GET /api/ipd/admissions/[id]/discharge-summary/print error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  getDischargeSummary,
+  saveDischargeSummaryDraft,
+} from "@/lib/services/ipd/discharge-summary.service";
+import { SaveDischargeSummaryDraftSchema } from "@/lib/schemas/ipd-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/ipd/admissions/[id]/discharge-summary
+ * Summary content (finalized, autosaved draft, or prefilled from the stay)
+ * together with the source records it can be built from.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("IPD_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const summary = await getDischargeSummary(session.tenantId, id);
+
+    return NextResponse.json({ success: true, data: summary });
+  } catch (error) {
+    console.error("GET /api/ipd/admissions/[id]/discharge-summary error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/ipd/admissions/[id]/discharge-summary
+ * Autosave the working draft.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("IPD_DISCHARGE_SUMMARY_EDIT")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = SaveDischargeSummaryDraftSchema.parse(body);
+    const result = await saveDischargeSummaryDraft(session.tenantId, session.userId, id, validatedData.content);
+
+    return NextResponse.json({ success: true, data: result, message: "Draft saved" });
+  } catch (error) {
+    console.error("PUT /api/ipd/admissions/[id]/discharge-summary error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  admitPatient,
+  getAdmissionsCursor,
+} from "@/lib/services/ipd/admission.service";
+import {
+  AdmitPatientSchema,
+  AdmissionQuerySchema,
+} from "@/lib/schemas/ipd-schema";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("IPD_VIEW") && !session.permissions.includes("PHARMACY_IP_SALE_CREATE")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = AdmissionQuerySchema.parse({
+      search: searchParams.get("search") || undefined,
+      status: searchParams.get("status") || "ADMITTED",
+      wardId: searchParams.get("wardId") || undefined,
+      patientId: searchParams.get("patientId") || undefined,
+      limit: searchParams.get("limit") || 20,
+      cursor: searchParams.get("cursor") || undefined,
+    });
+
+    const result = await getAdmissionsCursor(session.tenantId, {
+      search: validatedQuery.search,
+      status: validatedQuery.status === "ALL" ? undefined : validatedQuery.status,
+      wardId: validatedQuery.wardId,
+      patientId: validatedQuery.patientId,
+      limit: validatedQuery.limit,
+      cursor: validatedQuery.cursor,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    console.error("GET /api/ipd/admissions error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("IPD_ADMIT")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = AdmitPatientSchema.parse(body);
+    const admission = await admitPatient(session.tenantId, session.userId, validatedData);
+
+    return NextResponse.json(
+      { success: true, data: admission, message: `Patient admitted (${admission.admissionNumber})` },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/ipd/admissions error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
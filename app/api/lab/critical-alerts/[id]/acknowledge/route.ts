@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { acknowledgeCriticalAlert } from "@/lib/services/lab/critical-alert.service";
+import { AcknowledgeCriticalAlertSchema } from "@/lib/schemas/lab-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/lab/critical-alerts/[id]/acknowledge
+ * Read-back acknowledgement: the doctor must repeat the reported value.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("LAB_RESULT_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const input = AcknowledgeCriticalAlertSchema.parse(body);
+
+    const alert = await acknowledgeCriticalAlert(session.tenantId, session.userId, id, {
+      readBackValue: input.readBackValue,
+      notes: input.notes || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: alert, message: "Critical result acknowledged" });
+  } catch (error) {
+    console.error("POST /api/lab/critical-alerts/[id]/acknowledge error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
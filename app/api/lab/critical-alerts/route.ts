@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { getOpenCriticalAlerts } from "@/lib/services/lab/critical-alert.service";
+
+/**
+ * GET /api/lab/critical-alerts
+ * Unacknowledged critical lab values for the logged-in doctor,
+ * including alerts escalated to them.
+ */
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("LAB_RESULT_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const alerts = await getOpenCriticalAlerts(session.tenantId, session.userId);
+
+    return NextResponse.json({ success: true, data: alerts });
+  } catch (error) {
+    console.error("GET /api/lab/critical-alerts error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
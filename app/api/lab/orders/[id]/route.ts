@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  getLabOrderById,
+  collectSamples,
+  enterResults,
+  verifyResults,
+} from "@/lib/services/lab/lab-order.service";
+import {
+  CollectSamplesSchema,
+  EnterResultsSchema,
+  VerifyResultsSchema,
+} from "@/lib/schemas/lab-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/** Permission required for each PATCH action */
+const ACTION_PERMISSIONS: Record<string, string> = {
+  collect: "LAB_ORDER_EDIT",
+  results: "LAB_RESULT_CREATE",
+  verify: "LAB_RESULT_VERIFY",
+};
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("LAB_ORDER_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const order = await getLabOrderById(session.tenantId, id);
+
+    return NextResponse.json({ success: true, data: order });
+  } catch (error) {
+    console.error("GET /api/lab/orders/[id] error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get("action") || "";
+    const permission = ACTION_PERMISSIONS[action];
+
+    if (!permission) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Invalid action. Use ?action=collect, ?action=results or ?action=verify" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes(permission)) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (action === "collect") {
+      const input = CollectSamplesSchema.parse(body);
+      const order = await collectSamples(session.tenantId, session.userId, id, {
+        itemIds: input.itemIds,
+        notes: input.notes || undefined,
+      });
+      return NextResponse.json({ success: true, data: order, message: "Samples collected" });
+    }
+
+    if (action === "results") {
+      const input = EnterResultsSchema.parse(body);
+      const order = await enterResults(session.tenantId, session.userId, id, input.results);
+      const critical = order.items.filter((i) => i.result?.isCritical && !i.result.verifiedAt).length;
+      return NextResponse.json({
+        success: true,
+        data: order,
+        message: critical > 0 ? `Results saved. ${critical} critical value(s) flagged` : "Results saved",
+      });
+    }
+
+    const input = VerifyResultsSchema.parse(body);
+    const order = await verifyResults(session.tenantId, session.userId, id, {
+      itemIds: input.itemIds,
+      notes: input.notes || undefined,
+    });
+    return NextResponse.json({ success: true, data: order, message: "Results verified" });
+  } catch (error) {
+    console.error("PATCH /api/lab/orders/[id] error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * GET /api/masters/doctors/[id]/schedule-exceptions/[exceptionId]/affected-appointments
+ * Appointments still booked inside a leave or block
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { scheduleExceptionService } from "@/lib/services/scheduleExceptionService";
+
+interface RouteParams {
+  params: Promise<{ id: string; exceptionId: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const { exceptionId } = await context.params;
+
+    const result = await scheduleExceptionService.getAffectedAppointments(session.tenantId, exceptionId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("GET affected appointments error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Doctor Schedule Exception API Routes
+ *
+ * DELETE /api/masters/doctors/[id]/schedule-exceptions/[exceptionId] - Withdraw an exception
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { scheduleExceptionService } from "@/lib/services/scheduleExceptionService";
+
+interface RouteParams {
+  params: Promise<{ id: string; exceptionId: string }>;
+}
+
+// DELETE - Withdraw schedule exception
+export async function DELETE(request: NextRequest, context: RouteParams) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    // Check permission
+    const hasPermission = session.permissions?.includes("AVAILABILITY_DELETE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const { exceptionId } = await context.params;
+
+    const result = await scheduleExceptionService.cancel(session.tenantId, exceptionId, session.userId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.errorCode === "NOT_FOUND" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: "Schedule exception withdrawn" });
+  } catch (error) {
+    console.error("DELETE schedule exception error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
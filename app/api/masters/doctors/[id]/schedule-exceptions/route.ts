@@ -0,0 +1,110 @@
+/**
+ * Doctor Schedule Exception API Routes
+ *
+ * GET /api/masters/doctors/[id]/schedule-exceptions - List leave, blocks and extra sessions
+ * POST /api/masters/doctors/[id]/schedule-exceptions - Create exception (returns affected appointments)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { scheduleExceptionService } from "@/lib/services/scheduleExceptionService";
+import {
+  CreateScheduleExceptionSchema,
+  ScheduleExceptionQuerySchema,
+} from "@/lib/schemas/availability-schema";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET - List doctor schedule exceptions
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    const { id: doctorId } = await context.params;
+    const { searchParams } = new URL(request.url);
+
+    const queryResult = ScheduleExceptionQuerySchema.safeParse({
+      doctorId,
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+      includeInactive: searchParams.get("includeInactive") === "true",
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid query parameters", details: queryResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const exceptions = await scheduleExceptionService.list(session.tenantId, queryResult.data);
+
+    return NextResponse.json({ success: true, data: exceptions });
+  } catch (error) {
+    console.error("GET schedule exceptions error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create schedule exception
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    // Check permission
+    const hasPermission = session.permissions?.includes("AVAILABILITY_CREATE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const { id: doctorId } = await context.params;
+    const body = await request.json();
+
+    const parseResult = CreateScheduleExceptionSchema.safeParse({ ...body, doctorId });
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await scheduleExceptionService.create(
+      session.tenantId,
+      parseResult.data,
+      session.userId
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+  } catch (error) {
+    console.error("POST schedule exception error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
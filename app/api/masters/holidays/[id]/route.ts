@@ -0,0 +1,52 @@
+/**
+ * Holiday API Routes
+ *
+ * DELETE /api/masters/holidays/[id] - Remove a holiday
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth";
+import { scheduleExceptionService } from "@/lib/services/scheduleExceptionService";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE - Remove holiday
+export async function DELETE(request: NextRequest, context: RouteParams) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.tenantId) {
+      return NextResponse.json({ success: false, message: "Tenant context required" }, { status: 400 });
+    }
+
+    // Check permission
+    const hasPermission = session.permissions?.includes("SETTINGS_MANAGE") ||
+                          session.permissions?.includes("ADMIN");
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: "Permission denied" }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+
+    const result = await scheduleExceptionService.deleteHoliday(session.tenantId, id, session.userId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.errorCode === "NOT_FOUND" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: "Holiday removed" });
+  } catch (error) {
+    console.error("DELETE holiday error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
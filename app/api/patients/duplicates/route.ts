@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { getSession } from "@/lib/auth";
+import { requirePermission, AppError } from "@/lib/rbac";
+import { findDuplicatePatients } from "@/lib/services/patient-merge";
+import { DuplicatePatientQuerySchema } from "@/lib/schemas/patient-merge-schema";
+
+/**
+ * GET /api/patients/duplicates
+ *
+ * Likely duplicate patient pairs scored on Aadhaar, mobile, DOB and name similarity
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.tenantId) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required", errorCode: "AUTH_REQUIRED" },
+        { status: 401 }
+      );
+    }
+
+    requirePermission(session, "PATIENT_MERGE");
+
+    const { searchParams } = new URL(request.url);
+    const query = DuplicatePatientQuerySchema.parse(Object.fromEntries(searchParams));
+
+    const candidates = await findDuplicatePatients(session.tenantId, query);
+
+    return NextResponse.json({ success: true, data: candidates });
+  } catch (error) {
+    console.error("GET /api/patients/duplicates error:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Validation failed",
+          errorCode: "VALIDATION_ERROR",
+          errors: error.issues.map((e) => ({
+            field: e.path.join("."),
+            message: e.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          errorCode: error.errorCode,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: "Something went wrong. Please try again." },
+      { status: 500 }
+    );
+  }
+}
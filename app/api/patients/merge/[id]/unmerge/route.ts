@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { getSession } from "@/lib/auth";
+import { requirePermission, AppError } from "@/lib/rbac";
+import { unmergePatients } from "@/lib/services/patient-merge";
+import { UnmergePatientsSchema } from "@/lib/schemas/patient-merge-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/patients/merge/[id]/unmerge
+ *
+ * Reverse a merge: moved records go back and the tombstone is reactivated
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.tenantId) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required", errorCode: "AUTH_REQUIRED" },
+        { status: 401 }
+      );
+    }
+
+    requirePermission(session, "PATIENT_MERGE");
+
+    const { id } = await params;
+    const body = await request.json();
+    const { reason } = UnmergePatientsSchema.parse(body);
+
+    const result = await unmergePatients(session.tenantId, session.userId, id, reason);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("POST /api/patients/merge/[id]/unmerge error:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Validation failed",
+          errorCode: "VALIDATION_ERROR",
+          errors: error.issues.map((e) => ({
+            field: e.path.join("."),
+            message: e.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          errorCode: error.errorCode,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: "Something went wrong. Please try again." },
+      { status: 500 }
+    );
+  }
+}
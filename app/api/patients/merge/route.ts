@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { getSession } from "@/lib/auth";
+import { requirePermission, AppError } from "@/lib/rbac";
+import { mergePatients, getMergeHistory } from "@/lib/services/patient-merge";
+import { MergePatientsSchema, MergeHistoryQuerySchema } from "@/lib/schemas/patient-merge-schema";
+
+/**
+ * GET /api/patients/merge
+ *
+ * Merge history (cursor paginated)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.tenantId) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required", errorCode: "AUTH_REQUIRED" },
+        { status: 401 }
+      );
+    }
+
+    requirePermission(session, "PATIENT_MERGE");
+
+    const { searchParams } = new URL(request.url);
+    const query = MergeHistoryQuerySchema.parse(Object.fromEntries(searchParams));
+
+    const result = await getMergeHistory(session.tenantId, query);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("GET /api/patients/merge error:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Validation failed",
+          errorCode: "VALIDATION_ERROR",
+          errors: error.issues.map((e) => ({
+            field: e.path.join("."),
+            message: e.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          errorCode: error.errorCode,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: "Something went wrong. Please try again." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/patients/merge
+ *
+ * Merge a duplicate into the surviving UHID; the duplicate becomes an INACTIVE tombstone
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.tenantId) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required", errorCode: "AUTH_REQUIRED" },
+        { status: 401 }
+      );
+    }
+
+    requirePermission(session, "PATIENT_MERGE");
+
+    const body = await request.json();
+    const input = MergePatientsSchema.parse(body);
+
+    const result = await mergePatients(session.tenantId, session.userId, input);
+
+    return NextResponse.json({ success: true, data: result }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/patients/merge error:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Validation failed",
+          errorCode: "VALIDATION_ERROR",
+          errors: error.issues.map((e) => ({
+            field: e.path.join("."),
+            message: e.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          errorCode: error.errorCode,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: "Something went wrong. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { CreditLimitSchema } from "@/lib/schemas/pharmacy-dispensing-schema";
+import { updateCreditLimit } from "@/lib/services/pharmacy/credit.service";
+
+type RouteParams = { params: Promise<{ patientId: string }> };
+
+/**
+ * PUT /api/pharmacy/credit-ledger/[patientId]/credit-limit
+ * Set (or clear with null) the patient's pharmacy credit limit.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("PHARMACY_CREDIT_LIMIT_EDIT")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { patientId } = await params;
+    const body = await request.json();
+    const validated = CreditLimitSchema.parse(body);
+
+    const data = await updateCreditLimit(session.tenantId, session.userId, patientId, validated.creditLimit);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("PUT /api/pharmacy/credit-ledger/[patientId]/credit-limit error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { sendCreditReminder } from "@/lib/services/pharmacy/credit.service";
+
+type RouteParams = { params: Promise<{ patientId: string }> };
+
+/**
+ * POST /api/pharmacy/credit-ledger/[patientId]/reminder
+ * Send the patient an SMS / email reminder of their outstanding credit.
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("PHARMACY_CREDIT_SETTLE")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { patientId } = await params;
+    const data = await sendCreditReminder(session.tenantId, session.userId, patientId);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("POST /api/pharmacy/credit-ledger/[patientId]/reminder error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { CreditSettlementSchema } from "@/lib/schemas/pharmacy-dispensing-schema";
+import { settleCredit } from "@/lib/services/pharmacy/credit.service";
+
+type RouteParams = { params: Promise<{ patientId: string }> };
+
+/**
+ * POST /api/pharmacy/credit-ledger/[patientId]/settlements
+ * Record a payment against outstanding credit sales (explicit allocations,
+ * or oldest first) and write the matching credit rows.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("PHARMACY_CREDIT_SETTLE")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { patientId } = await params;
+    const body = await request.json();
+    const validated = CreditSettlementSchema.parse(body);
+
+    const data = await settleCredit(session.tenantId, session.userId, patientId, validated);
+
+    return NextResponse.json({ success: true, data }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/pharmacy/credit-ledger/[patientId]/settlements error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
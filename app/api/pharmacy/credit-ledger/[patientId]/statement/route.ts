@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { CreditStatementQuerySchema } from "@/lib/schemas/pharmacy-dispensing-schema";
+import { getCreditStatement } from "@/lib/services/pharmacy/credit.service";
+
+type RouteParams = { params: Promise<{ patientId: string }> };
+
+/**
+ * GET /api/pharmacy/credit-ledger/[patientId]/statement?from=&to=
+ * Credit statement with tenant letterhead: ledger lines for the period,
+ * outstanding sales and aging. Also used by the print page.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("PHARMACY_CREDIT_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { patientId } = await params;
+    const { searchParams } = new URL(request.url);
+    const query = CreditStatementQuerySchema.parse({
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+    });
+
+    const data = await getCreditStatement(session.tenantId, patientId, query);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("GET /api/pharmacy/credit-ledger/[patientId]/statement error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -74,7 +74,9 @@ export async function GET(request: NextRequest) {
         goodsReceipt: {
           select: {
             grnNumber: true,
+            storeId: true,
             store: { select: { name: true } },
+            purchaseOrder: { select: { vendorId: true } },
           },
         },
       },
@@ -90,7 +92,9 @@ export async function GET(request: NextRequest) {
       quantityReceived: item.quantityReceived,
       quantityRejected: item.quantityRejected,
       grnNumber: item.goodsReceipt.grnNumber,
+      storeId: item.goodsReceipt.storeId,
       storeName: item.goodsReceipt.store.name,
+      vendorId: item.goodsReceipt.purchaseOrder.vendorId,
     }));
 
     return NextResponse.json({ success: true, data });
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  getStockIndentById,
+  approveStockIndent,
+  rejectStockIndent,
+  cancelStockIndent,
+} from "@/lib/services/pharmacy/stock-indent.service";
+import {
+  ApproveStockIndentSchema,
+  RejectStockIndentSchema,
+  StockIndentStatusChangeSchema,
+} from "@/lib/schemas/pharmacy-procurement-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("STOCK_INDENT_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const indent = await getStockIndentById(session.tenantId, id);
+    if (!indent) {
+      return NextResponse.json(
+        { success: false, errorCode: "NOT_FOUND", message: "Indent not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: indent });
+  } catch (error) {
+    console.error("GET /api/pharmacy/indents/[id] error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Approve, Reject or Cancel
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as string;
+
+    if (action === "approve" || action === "reject") {
+      if (!session.permissions.includes("STOCK_INDENT_APPROVE")) {
+        return NextResponse.json(
+          { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+          { status: 403 }
+        );
+      }
+      if (action === "approve") {
+        const input = ApproveStockIndentSchema.parse(body);
+        const indent = await approveStockIndent(session.tenantId, session.userId, id, input);
+        return NextResponse.json({ success: true, data: indent, message: "Indent approved" });
+      }
+      const { version, reason } = RejectStockIndentSchema.parse(body);
+      const indent = await rejectStockIndent(session.tenantId, session.userId, id, version, reason);
+      return NextResponse.json({ success: true, data: indent, message: "Indent rejected" });
+    }
+
+    if (action === "cancel") {
+      if (!session.permissions.includes("STOCK_INDENT_CREATE")) {
+        return NextResponse.json(
+          { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+          { status: 403 }
+        );
+      }
+      const { version } = StockIndentStatusChangeSchema.parse(body);
+      const indent = await cancelStockIndent(session.tenantId, session.userId, id, version);
+      return NextResponse.json({ success: true, data: indent, message: "Indent cancelled" });
+    }
+
+    return NextResponse.json(
+      { success: false, errorCode: "BAD_REQUEST", message: "Invalid action. Use 'approve', 'reject' or 'cancel'" },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error("PATCH /api/pharmacy/indents/[id] error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  createStockIndent,
+  getStockIndentsCursor,
+} from "@/lib/services/pharmacy/stock-indent.service";
+import {
+  CreateStockIndentSchema,
+  StockIndentQuerySchema,
+} from "@/lib/schemas/pharmacy-procurement-schema";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("STOCK_INDENT_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryData = {
+      search: searchParams.get("search") || undefined,
+      status: searchParams.get("status") || "ALL",
+      storeId: searchParams.get("storeId") || undefined,
+      limit: searchParams.get("limit") ? parseInt(searchParams.get("limit")!) : 20,
+      cursor: searchParams.get("cursor") || undefined,
+    };
+
+    const validatedQuery = StockIndentQuerySchema.parse(queryData);
+
+    const result = await getStockIndentsCursor(session.tenantId, {
+      search: validatedQuery.search,
+      status: validatedQuery.status === "ALL" ? undefined : validatedQuery.status,
+      storeId: validatedQuery.storeId,
+      limit: validatedQuery.limit,
+      cursor: validatedQuery.cursor,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    console.error("GET /api/pharmacy/indents error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("STOCK_INDENT_CREATE")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = CreateStockIndentSchema.parse(body);
+
+    const indent = await createStockIndent(session.tenantId, session.userId, validatedData);
+
+    return NextResponse.json(
+      { success: true, data: indent, message: `Indent ${indent.indentNumber} raised` },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/pharmacy/indents error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
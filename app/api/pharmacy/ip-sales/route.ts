@@ -110,7 +110,7 @@ export async function POST(request: NextRequest) {
     const sale = await createIPSale(session.tenantId, session.userId, {
       patientId: validatedData.patientId,
       storeId: validatedData.storeId,
-      admissionId: validatedData.admissionId || undefined,
+      admissionId: validatedData.admissionId,
       visitId: validatedData.visitId || undefined,
       invoiceId: validatedData.invoiceId || undefined,
       prescriptionId: validatedData.prescriptionId || undefined,
@@ -111,8 +111,12 @@ export async function POST(request: NextRequest) {
       visitId: validatedData.visitId || undefined,
       prescriptionId: validatedData.prescriptionId || undefined,
       creditAllowed: validatedData.creditAllowed,
+      paymentMethod: validatedData.paymentMethod,
       notes: validatedData.notes || undefined,
-      items: validatedData.items,
+      items: validatedData.items.map((item) => ({
+        ...item,
+        prescriptionItemId: item.prescriptionItemId || undefined,
+      })),
     });
 
     return NextResponse.json(
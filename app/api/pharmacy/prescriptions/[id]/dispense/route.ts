@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { getPrescriptionDispenseMap } from "@/lib/services/pharmacy/prescription-dispense.service";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("PHARMACY_SALE_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const storeId = new URL(request.url).searchParams.get("storeId");
+    if (!storeId) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: "storeId is required" },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const dispenseMap = await getPrescriptionDispenseMap(session.tenantId, id, storeId);
+
+    return NextResponse.json({ success: true, data: dispenseMap });
+  } catch (error) {
+    console.error("GET /api/pharmacy/prescriptions/[id]/dispense error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
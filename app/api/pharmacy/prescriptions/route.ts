@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { getDispensablePrescriptions } from "@/lib/services/pharmacy/prescription-dispense.service";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("PHARMACY_SALE_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const patientId = new URL(request.url).searchParams.get("patientId");
+    if (!patientId) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: "patientId is required" },
+        { status: 400 }
+      );
+    }
+
+    const prescriptions = await getDispensablePrescriptions(session.tenantId, patientId);
+
+    return NextResponse.json({ success: true, data: prescriptions });
+  } catch (error) {
+    console.error("GET /api/pharmacy/prescriptions error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
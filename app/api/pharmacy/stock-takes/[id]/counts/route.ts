@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { recordStockTakeCounts } from "@/lib/services/pharmacy/stock-take.service";
+import { StockTakeCountsSchema } from "@/lib/schemas/pharmacy-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * PUT /api/pharmacy/stock-takes/[id]/counts
+ * Saves physical counts for a subset of lines; safe to call from several devices at once.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("STOCK_TAKE_COUNT")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = StockTakeCountsSchema.parse(body);
+
+    const stockTake = await recordStockTakeCounts(session.tenantId, session.userId, id, validatedData);
+
+    return NextResponse.json({ success: true, data: stockTake, message: `${validatedData.counts.length} count(s) saved` });
+  } catch (error) {
+    console.error("PUT /api/pharmacy/stock-takes/[id]/counts error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
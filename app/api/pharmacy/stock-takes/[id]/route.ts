@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  getStockTakeById,
+  submitStockTake,
+  approveStockTake,
+  rejectStockTake,
+  cancelStockTake,
+} from "@/lib/services/pharmacy/stock-take.service";
+import {
+  StockTakeRejectSchema,
+  StockTakeStatusChangeSchema,
+} from "@/lib/schemas/pharmacy-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("STOCK_TAKE_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const stockTake = await getStockTakeById(session.tenantId, id);
+    if (!stockTake) {
+      return NextResponse.json(
+        { success: false, errorCode: "NOT_FOUND", message: "Stock take not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: stockTake });
+  } catch (error) {
+    console.error("GET /api/pharmacy/stock-takes/[id] error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Submit, Approve, Reject (send back for recount) or Cancel
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as string;
+
+    if (action === "submit" || action === "cancel") {
+      if (!session.permissions.includes("STOCK_TAKE_CREATE")) {
+        return NextResponse.json(
+          { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+          { status: 403 }
+        );
+      }
+      const { version } = StockTakeStatusChangeSchema.parse(body);
+      if (action === "submit") {
+        const stockTake = await submitStockTake(session.tenantId, session.userId, id, version);
+        return NextResponse.json({ success: true, data: stockTake, message: "Stock take submitted for variance approval" });
+      }
+      const stockTake = await cancelStockTake(session.tenantId, session.userId, id, version);
+      return NextResponse.json({ success: true, data: stockTake, message: "Stock take cancelled" });
+    }
+
+    if (action === "approve" || action === "reject") {
+      if (!session.permissions.includes("STOCK_TAKE_APPROVE")) {
+        return NextResponse.json(
+          { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+          { status: 403 }
+        );
+      }
+      if (action === "approve") {
+        const { version } = StockTakeStatusChangeSchema.parse(body);
+        const stockTake = await approveStockTake(session.tenantId, session.userId, id, version);
+        return NextResponse.json({ success: true, data: stockTake, message: "Variances approved and stock adjusted" });
+      }
+      const { version, reason } = StockTakeRejectSchema.parse(body);
+      const stockTake = await rejectStockTake(session.tenantId, session.userId, id, version, reason);
+      return NextResponse.json({ success: true, data: stockTake, message: "Stock take sent back for recount" });
+    }
+
+    return NextResponse.json(
+      { success: false, errorCode: "BAD_REQUEST", message: "Invalid action. Use 'submit', 'approve', 'reject' or 'cancel'" },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error("PATCH /api/pharmacy/stock-takes/[id] error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import { getActiveContractRates } from "@/lib/services/pharmacy/vendor-contract.service";
+import { ActiveContractRatesQuerySchema } from "@/lib/schemas/pharmacy-procurement-schema";
+
+// GET: Contract rates in force for a vendor, used to default PO prices
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("PO_CREATE")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { vendorId, date } = ActiveContractRatesQuerySchema.parse({
+      vendorId: searchParams.get("vendorId") || "",
+      date: searchParams.get("date") || undefined,
+    });
+
+    const data = await getActiveContractRates(session.tenantId, [vendorId], date ? new Date(date) : new Date());
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("GET /api/pharmacy/vendor-contracts/rates error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
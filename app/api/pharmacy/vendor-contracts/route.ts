@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  createVendorRateContract,
+  getVendorRateContractsCursor,
+} from "@/lib/services/pharmacy/vendor-contract.service";
+import {
+  CreateVendorRateContractSchema,
+  VendorRateContractQuerySchema,
+} from "@/lib/schemas/pharmacy-procurement-schema";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("VENDOR_CONTRACT_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryData = {
+      search: searchParams.get("search") || undefined,
+      vendorId: searchParams.get("vendorId") || undefined,
+      productId: searchParams.get("productId") || undefined,
+      validity: searchParams.get("validity") || "ALL",
+      limit: searchParams.get("limit") ? parseInt(searchParams.get("limit")!) : 20,
+      cursor: searchParams.get("cursor") || undefined,
+    };
+
+    const validatedQuery = VendorRateContractQuerySchema.parse(queryData);
+
+    const result = await getVendorRateContractsCursor(session.tenantId, {
+      search: validatedQuery.search,
+      vendorId: validatedQuery.vendorId,
+      productId: validatedQuery.productId,
+      validity: validatedQuery.validity === "ALL" ? undefined : validatedQuery.validity,
+      limit: validatedQuery.limit,
+      cursor: validatedQuery.cursor,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    console.error("GET /api/pharmacy/vendor-contracts error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("VENDOR_CONTRACT_MANAGE")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = CreateVendorRateContractSchema.parse(body);
+
+    const contract = await createVendorRateContract(session.tenantId, session.userId, validatedData);
+
+    return NextResponse.json(
+      { success: true, data: contract, message: "Rate contract created" },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/pharmacy/vendor-contracts error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  getVendorInvoiceById,
+  approveInvoiceVariance,
+  markVendorInvoicePayable,
+  cancelVendorInvoice,
+} from "@/lib/services/pharmacy/vendor-invoice.service";
+import {
+  ApproveInvoiceVarianceSchema,
+  VendorInvoiceStatusChangeSchema,
+} from "@/lib/schemas/pharmacy-procurement-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("VENDOR_INVOICE_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const invoice = await getVendorInvoiceById(session.tenantId, id);
+    if (!invoice) {
+      return NextResponse.json(
+        { success: false, errorCode: "NOT_FOUND", message: "Vendor invoice not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: invoice });
+  } catch (error) {
+    console.error("GET /api/pharmacy/vendor-invoices/[id] error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Approve variance, mark payable or cancel
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as string;
+
+    if (action === "approve-variance") {
+      if (!session.permissions.includes("VENDOR_INVOICE_APPROVE_VARIANCE")) {
+        return NextResponse.json(
+          { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+          { status: 403 }
+        );
+      }
+      const { version, notes } = ApproveInvoiceVarianceSchema.parse(body);
+      const invoice = await approveInvoiceVariance(session.tenantId, session.userId, id, version, notes);
+      return NextResponse.json({ success: true, data: invoice, message: "Variance approved" });
+    }
+
+    if (action === "payable") {
+      if (!session.permissions.includes("VENDOR_INVOICE_PAYABLE")) {
+        return NextResponse.json(
+          { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+          { status: 403 }
+        );
+      }
+      const { version } = VendorInvoiceStatusChangeSchema.parse(body);
+      const invoice = await markVendorInvoicePayable(session.tenantId, session.userId, id, version);
+      return NextResponse.json({ success: true, data: invoice, message: "Invoice marked payable" });
+    }
+
+    if (action === "cancel") {
+      if (!session.permissions.includes("VENDOR_INVOICE_CREATE")) {
+        return NextResponse.json(
+          { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+          { status: 403 }
+        );
+      }
+      const { version } = VendorInvoiceStatusChangeSchema.parse(body);
+      const invoice = await cancelVendorInvoice(session.tenantId, session.userId, id, version);
+      return NextResponse.json({ success: true, data: invoice, message: "Invoice cancelled" });
+    }
+
+    return NextResponse.json(
+      { success: false, errorCode: "BAD_REQUEST", message: "Invalid action. Use 'approve-variance', 'payable' or 'cancel'" },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error("PATCH /api/pharmacy/vendor-invoices/[id] error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  getVendorReturnById,
+  approveVendorReturn,
+  cancelVendorReturn,
+} from "@/lib/services/pharmacy/vendor-return.service";
+import { VendorReturnStatusChangeSchema } from "@/lib/schemas/pharmacy-return-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("VENDOR_RETURN_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const vendorReturn = await getVendorReturnById(session.tenantId, id);
+    if (!vendorReturn) {
+      return NextResponse.json(
+        { success: false, errorCode: "NOT_FOUND", message: "Vendor return not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: vendorReturn });
+  } catch (error) {
+    console.error("GET /api/pharmacy/vendor-returns/[id] error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Approve (posts stock + debit note) or Cancel
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as string;
+    const { version } = VendorReturnStatusChangeSchema.parse(body);
+
+    if (action === "approve") {
+      if (!session.permissions.includes("VENDOR_RETURN_APPROVE")) {
+        return NextResponse.json(
+          { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+          { status: 403 }
+        );
+      }
+      const vendorReturn = await approveVendorReturn(session.tenantId, session.userId, id, version);
+      return NextResponse.json({
+        success: true,
+        data: vendorReturn,
+        message: `Debit note ${vendorReturn.debitNoteNumber} issued`,
+      });
+    }
+
+    if (action === "cancel") {
+      if (!session.permissions.includes("VENDOR_RETURN_CREATE")) {
+        return NextResponse.json(
+          { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+          { status: 403 }
+        );
+      }
+      const vendorReturn = await cancelVendorReturn(session.tenantId, session.userId, id, version);
+      return NextResponse.json({ success: true, data: vendorReturn, message: "Vendor return cancelled" });
+    }
+
+    return NextResponse.json(
+      { success: false, errorCode: "BAD_REQUEST", message: "Invalid action. Use 'approve' or 'cancel'" },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error("PATCH /api/pharmacy/vendor-returns/[id] error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSession } from "@/lib/auth";
+import { AppError } from "@/lib/rbac";
+import {
+  getWriteOffById,
+  approveWriteOff,
+  rejectWriteOff,
+  cancelWriteOff,
+} from "@/lib/services/pharmacy/write-off.service";
+import {
+  WriteOffRejectSchema,
+  WriteOffStatusChangeSchema,
+} from "@/lib/schemas/pharmacy-return-schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+    if (!session.permissions.includes("STOCK_WRITE_OFF_VIEW")) {
+      return NextResponse.json(
+        { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const writeOff = await getWriteOffById(session.tenantId, id);
+    if (!writeOff) {
+      return NextResponse.json(
+        { success: false, errorCode: "NOT_FOUND", message: "Write-off not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: writeOff });
+  } catch (error) {
+    console.error("GET /api/pharmacy/write-offs/[id] error:", error);
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Approve, Reject or Cancel
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, errorCode: "UNAUTHORIZED", message: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    if (!session.tenantId) {
+      return NextResponse.json(
+        { success: false, errorCode: "BAD_REQUEST", message: "Tenant context required" },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as string;
+
+    if (action === "approve" || action === "reject") {
+      if (!session.permissions.includes("STOCK_WRITE_OFF_APPROVE")) {
+        return NextResponse.json(
+          { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+          { status: 403 }
+        );
+      }
+      if (action === "approve") {
+        const { version } = WriteOffStatusChangeSchema.parse(body);
+        const writeOff = await approveWriteOff(session.tenantId, session.userId, id, version);
+        return NextResponse.json({ success: true, data: writeOff, message: "Write-off approved and stock posted" });
+      }
+      const { version, reason } = WriteOffRejectSchema.parse(body);
+      const writeOff = await rejectWriteOff(session.tenantId, session.userId, id, version, reason);
+      return NextResponse.json({ success: true, data: writeOff, message: "Write-off rejected" });
+    }
+
+    if (action === "cancel") {
+      if (!session.permissions.includes("STOCK_WRITE_OFF_CREATE")) {
+        return NextResponse.json(
+          { success: false, errorCode: "FORBIDDEN", message: "Access denied" },
+          { status: 403 }
+        );
+      }
+      const { version } = WriteOffStatusChangeSchema.parse(body);
+      const writeOff = await cancelWriteOff(session.tenantId, session.userId, id, version);
+      return NextResponse.json({ success: true, data: writeOff, message: "Write-off cancelled" });
+    }
+
+    return NextResponse.json(
+      { success: false, errorCode: "BAD_REQUEST", message: "Invalid action. Use 'approve', 'reject' or 'cancel'" },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error("PATCH /api/pharmacy/write-offs/[id] error:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errorCode: "VALIDATION_ERROR", message: error.issues.map((i) => i.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.errorCode, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { success: false, errorCode: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "An error occurred" },
+      { status: 500 }
+    );
+  }
+}
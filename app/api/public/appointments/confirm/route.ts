@@ -0,0 +1,76 @@
+/**
+ * Appointment Confirmation Link API
+ *
+ * GET /api/public/appointments/confirm?token= - Appointment details for a confirmation link
+ * POST /api/public/appointments/confirm - Confirm the appointment
+ *
+ * The signed token sent by SMS is the only credential. Confirmation is a POST
+ * so link previews cannot confirm on the patient's behalf.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { onlineBookingService } from "@/lib/services/onlineBookingService";
+import { ConfirmAppointmentSchema } from "@/lib/schemas/appointment-schema";
+
+// GET - Preview the appointment
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const queryResult = ConfirmAppointmentSchema.safeParse({ token: searchParams.get("token") });
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid query parameters", details: queryResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await onlineBookingService.getConfirmation(queryResult.data.token);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("GET appointment confirmation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Confirm the appointment
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parseResult = ConfirmAppointmentSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await onlineBookingService.confirmByToken(parseResult.data.token);
+
+    if (!result.success) {
+      const status = result.errorCode === "LINK_INVALID" || result.errorCode === "NOT_FOUND" ? 404 : 400;
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: "Appointment confirmed" });
+  } catch (error) {
+    console.error("POST appointment confirmation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Public Booking Cancel API
+ *
+ * POST /api/public/booking/[token]/appointments/[id]/cancel - Cancel within the policy window
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getPatientBookingSession } from "@/lib/auth";
+import { onlineBookingService } from "@/lib/services/onlineBookingService";
+import { PublicCancelAppointmentSchema } from "@/lib/schemas/appointment-schema";
+
+interface RouteParams {
+  params: Promise<{ token: string; id: string }>;
+}
+
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    const { token, id } = await context.params;
+    const booking = await onlineBookingService.resolveLink(token);
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, error: "This booking link is invalid or no longer active" },
+        { status: 404 }
+      );
+    }
+
+    const patient = await getPatientBookingSession(request, booking.tenant.id);
+    if (!patient) {
+      return NextResponse.json(
+        { success: false, error: "Please verify your mobile number again", errorCode: "SESSION_EXPIRED" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parseResult = PublicCancelAppointmentSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await onlineBookingService.cancel(booking, patient.patientId, id, parseResult.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.errorCode === "NOT_FOUND" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: "Appointment cancelled" });
+  } catch (error) {
+    console.error("POST public booking cancel error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
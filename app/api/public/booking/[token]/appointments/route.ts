@@ -0,0 +1,95 @@
+/**
+ * Public Booking Appointments API
+ *
+ * GET /api/public/booking/[token]/appointments - The patient's upcoming appointments
+ * POST /api/public/booking/[token]/appointments - Book an ONLINE appointment
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getPatientBookingSession } from "@/lib/auth";
+import { onlineBookingService } from "@/lib/services/onlineBookingService";
+import { PublicBookAppointmentSchema } from "@/lib/schemas/appointment-schema";
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+// GET - List the patient's upcoming appointments
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const { token } = await context.params;
+    const booking = await onlineBookingService.resolveLink(token);
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, error: "This booking link is invalid or no longer active" },
+        { status: 404 }
+      );
+    }
+
+    const patient = await getPatientBookingSession(request, booking.tenant.id);
+    if (!patient) {
+      return NextResponse.json(
+        { success: false, error: "Please verify your mobile number again", errorCode: "SESSION_EXPIRED" },
+        { status: 401 }
+      );
+    }
+
+    const appointments = await onlineBookingService.listAppointments(booking, patient.patientId);
+
+    return NextResponse.json({ success: true, data: appointments });
+  } catch (error) {
+    console.error("GET public booking appointments error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Book an appointment
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    const { token } = await context.params;
+    const booking = await onlineBookingService.resolveLink(token);
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, error: "This booking link is invalid or no longer active" },
+        { status: 404 }
+      );
+    }
+
+    const patient = await getPatientBookingSession(request, booking.tenant.id);
+    if (!patient) {
+      return NextResponse.json(
+        { success: false, error: "Please verify your mobile number again", errorCode: "SESSION_EXPIRED" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parseResult = PublicBookAppointmentSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await onlineBookingService.book(booking, patient.patientId, parseResult.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+  } catch (error) {
+    console.error("POST public booking appointment error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Public Booking OTP API
+ *
+ * POST /api/public/booking/[token]/otp/request - Send an OTP to the patient's registered mobile
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { onlineBookingService } from "@/lib/services/onlineBookingService";
+import { RequestBookingOtpSchema } from "@/lib/schemas/appointment-schema";
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    const { token } = await context.params;
+    const body = await request.json();
+    const parseResult = RequestBookingOtpSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await onlineBookingService.requestOtp(token, parseResult.data);
+
+    if (!result.success) {
+      const status = result.errorCode === "LINK_INVALID" ? 404 : 400;
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("POST booking OTP request error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Public Booking OTP Verification API
+ *
+ * POST /api/public/booking/[token]/otp/verify - Verify the OTP and start a patient booking session
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createPatientBookingToken, getPatientBookingCookieName } from "@/lib/auth";
+import { onlineBookingService } from "@/lib/services/onlineBookingService";
+import { VerifyBookingOtpSchema } from "@/lib/schemas/appointment-schema";
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    const { token } = await context.params;
+    const body = await request.json();
+    const parseResult = VerifyBookingOtpSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation failed", details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await onlineBookingService.verifyOtp(token, parseResult.data);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.errorCode === "LINK_INVALID" ? 404 : 400 }
+      );
+    }
+
+    const { tenantId, patientId, patientName, uhid } = result.data;
+    const sessionToken = await createPatientBookingToken({ tenantId, patientId });
+
+    const cookieStore = await cookies();
+    cookieStore.set(getPatientBookingCookieName(), sessionToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "strict",
+      maxAge: 60 * 30,
+      path: "/api/public/booking",
+    });
+
+    return NextResponse.json({ success: true, data: { patientName, uhid } });
+  } catch (error) {
+    console.error("POST booking OTP verify error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Public Booking Page API
+ *
+ * GET /api/public/booking/[token] - Hospital, departments and doctors for a booking link
+ *
+ * No staff session: access is controlled by the tenant's booking link token.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { onlineBookingService } from "@/lib/services/onlineBookingService";
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+export async function GET(_request: NextRequest, context: RouteParams) {
+  try {
+    const { token } = await context.params;
+    const result = await onlineBookingService.getBookingInfo(token);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("GET public booking info error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Public Booking Session API
+ *
+ * DELETE /api/public/booking/[token]/session - Sign the patient out
+ */
+
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getPatientBookingCookieName } from "@/lib/auth";
+
+export async function DELETE() {
+  const cookieStore = await cookies();
+  cookieStore.delete({ name: getPatientBookingCookieName(), path: "/api/public/booking" });
+  return NextResponse.json({ success: true });
+}
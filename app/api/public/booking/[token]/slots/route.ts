@@ -0,0 +1,66 @@
+/**
+ * Public Booking Slots API
+ *
+ * GET /api/public/booking/[token]/slots - Open slots for a doctor on a date
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getPatientBookingSession } from "@/lib/auth";
+import { onlineBookingService } from "@/lib/services/onlineBookingService";
+import { SlotQuerySchema } from "@/lib/schemas/availability-schema";
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const { token } = await context.params;
+    const booking = await onlineBookingService.resolveLink(token);
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, error: "This booking link is invalid or no longer active" },
+        { status: 404 }
+      );
+    }
+
+    const patient = await getPatientBookingSession(request, booking.tenant.id);
+    if (!patient) {
+      return NextResponse.json(
+        { success: false, error: "Please verify your mobile number again", errorCode: "SESSION_EXPIRED" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = SlotQuerySchema.safeParse({
+      doctorId: searchParams.get("doctorId"),
+      date: searchParams.get("date"),
+      departmentId: searchParams.get("departmentId") || undefined,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid query parameters", details: queryResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await onlineBookingService.getSlots(booking, queryResult.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("GET public booking slots error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
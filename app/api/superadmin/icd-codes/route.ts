@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { getSession } from "@/lib/auth";
+import { createAuditLog } from "@/lib/audit";
+import { importIcdCodes, listIcdCodes } from "@/lib/services/icd-codes";
+
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session?.isSuperAdmin) {
+    return Response.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const { searchParams } = new URL(request.url);
+  const result = await listIcdCodes({
+    search: searchParams.get("search") || undefined,
+    chapter: searchParams.get("chapter") || undefined,
+    cursor: searchParams.get("cursor") || undefined,
+    limit: Math.min(Number(searchParams.get("limit")) || 50, 200),
+  });
+  return Response.json(result);
+}
+
+/**
+ * Import ICD-10 codes from a local CSV.
+ * Accepts multipart/form-data with a "file" field, or JSON { csv: string }.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session?.isSuperAdmin) {
+    return Response.json({ error: "Forbidden" }, { status: 403 });
+  }
+  try {
+    let csv = "";
+    const contentType = request.headers.get("content-type") ?? "";
+    if (contentType.includes("multipart/form-data")) {
+      const form = await request.formData();
+      const file = form.get("file");
+      if (!(file instanceof File)) {
+        return Response.json({ error: "CSV file is required" }, { status: 400 });
+      }
+      if (file.size > MAX_IMPORT_BYTES) {
+        return Response.json({ error: "CSV file is too large (max 20 MB)" }, { status: 400 });
+      }
+      csv = await file.text();
+    } else {
+      const body = await request.json();
+      csv = (body.csv ?? "").toString();
+    }
+
+    if (!csv.trim()) {
+      return Response.json({ error: "CSV content is empty" }, { status: 400 });
+    }
+
+    const result = await importIcdCodes(csv, session.userId);
+
+    await createAuditLog({
+      tenantId: null,
+      performedBy: session.userId,
+      entityType: "IcdCode",
+      action: "IMPORT",
+      newValue: { total: result.total, created: result.created, updated: result.updated, skipped: result.skipped },
+    });
+
+    return Response.json(result);
+  } catch (e) {
+    console.error(e);
+    return Response.json({ error: "Failed to import ICD codes" }, { status: 500 });
+  }
+}
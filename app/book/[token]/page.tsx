@@ -0,0 +1,6 @@
+import PatientBookingPortal from "@/components/booking/PatientBookingPortal";
+
+export default async function PatientBookingPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  return <PatientBookingPortal token={token} />;
+}
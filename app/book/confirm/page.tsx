@@ -0,0 +1,10 @@
+import AppointmentConfirmation from "@/components/booking/AppointmentConfirmation";
+
+export default async function AppointmentConfirmPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  return <AppointmentConfirmation token={token || ""} />;
+}
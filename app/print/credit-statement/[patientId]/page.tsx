@@ -0,0 +1,365 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+
+type AgingBucket = "0_30" | "31_60" | "60_PLUS";
+
+interface CreditStatementPrint {
+  letterhead: {
+    name: string;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+    logoUrl: string | null;
+    footerNote: string | null;
+  };
+  patient: {
+    name: string;
+    uhid: string;
+    mobile: string;
+    email: string | null;
+    address: string | null;
+    employerName: string | null;
+    corporateId: string | null;
+    employeeId: string | null;
+  };
+  period: { from: string | null; to: string };
+  openingBalance: string;
+  closingBalance: string;
+  lines: Array<{
+    id: string;
+    date: string;
+    referenceType: string;
+    description: string | null;
+    paymentNumber: string | null;
+    paymentMethod: string | null;
+    debit: string;
+    credit: string;
+    balance: string;
+  }>;
+  outstandingEntries: Array<{
+    id: string;
+    notes: string | null;
+    referenceType: string;
+    createdAt: string;
+    debitAmount: string;
+    outstanding: string;
+    ageDays: number;
+  }>;
+  aging: Record<AgingBucket | "total", string>;
+  creditLimit: string | null;
+  availableCredit: string | null;
+  generatedAt: string;
+}
+
+const AGING_LABELS: Array<[AgingBucket, string]> = [
+  ["0_30", "0–30 days"],
+  ["31_60", "31–60 days"],
+  ["60_PLUS", "Over 60 days"],
+];
+
+const money = (value: string) =>
+  parseFloat(value).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString("en-IN");
+
+export default function CreditStatementPrintPage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const patientId = params.patientId as string;
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+
+  const [data, setData] = useState<CreditStatementPrint | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchStatement() {
+      try {
+        const query = new URLSearchParams();
+        if (from) query.set("from", from);
+        if (to) query.set("to", to);
+        const response = await fetch(`/api/pharmacy/credit-ledger/${patientId}/statement?${query}`);
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || "Failed to fetch statement");
+        }
+        setData(result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    if (patientId) {
+      fetchStatement();
+    }
+  }, [patientId, from, to]);
+
+  useEffect(() => {
+    // Auto-print when statement data is loaded
+    if (data && !loading) {
+      setTimeout(() => {
+        window.print();
+      }, 500);
+    }
+  }, [data, loading]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading statement...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center text-red-600">
+          <p className="font-medium">Error</p>
+          <p className="text-sm">{error || "Statement not found"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { letterhead, patient } = data;
+
+  return (
+    <>
+      {/* Print Styles */}
+      <style jsx global>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 15mm;
+          }
+          body {
+            -webkit-print-color-adjust: exact !important;
+            print-color-adjust: exact !important;
+          }
+          .no-print {
+            display: none !important;
+          }
+        }
+      `}</style>
+
+      <div className="relative max-w-[210mm] mx-auto bg-white p-6 print:p-0">
+        {/* Header */}
+        <div className="border-b-2 border-gray-800 pb-4 mb-4">
+          <div className="flex items-start justify-between">
+            <div className="flex items-center gap-4">
+              {letterhead.logoUrl ? (
+                /* eslint-disable-next-line @next/next/no-img-element */
+                <img
+                  src={letterhead.logoUrl}
+                  alt="Hospital Logo"
+                  className="w-16 h-16 object-contain"
+                />
+              ) : (
+                <div className="w-16 h-16 bg-blue-100 rounded-lg flex items-center justify-center">
+                  <span className="text-2xl font-bold text-blue-600">H</span>
+                </div>
+              )}
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">{letterhead.name}</h1>
+                {letterhead.address && (
+                  <p className="text-sm text-gray-600">{letterhead.address}</p>
+                )}
+                <div className="flex gap-4 text-xs text-gray-500 mt-1">
+                  {letterhead.phone && <span>Tel: {letterhead.phone}</span>}
+                  {letterhead.email && <span>Email: {letterhead.email}</span>}
+                </div>
+              </div>
+            </div>
+            <div className="text-right">
+              <h2 className="text-lg font-semibold text-gray-800">STATEMENT OF ACCOUNT</h2>
+              <p className="text-sm text-gray-600">Pharmacy Credit</p>
+              <p className="text-sm text-gray-600">
+                {data.period.from ? `${formatDate(data.period.from)} – ` : "Up to "}
+                {formatDate(data.period.to)}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Account Details */}
+        <div className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm mb-4 p-3 bg-gray-50 rounded-lg">
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Patient</span>
+            <span className="font-semibold">{patient.name}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Employer</span>
+            <span className="font-medium">{patient.employerName || "-"}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">UHID</span>
+            <span className="font-medium">{patient.uhid}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Corporate ID</span>
+            <span className="font-medium">{patient.corporateId || "-"}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Mobile</span>
+            <span className="font-medium">{patient.mobile}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Employee ID</span>
+            <span className="font-medium">{patient.employeeId || "-"}</span>
+          </div>
+          {patient.address && (
+            <div className="flex gap-2 col-span-2">
+              <span className="text-gray-500 w-28">Address</span>
+              <span className="font-medium">{patient.address}</span>
+            </div>
+          )}
+        </div>
+
+        {/* Transactions */}
+        <div className="mb-4">
+          <h3 className="text-sm font-bold uppercase text-gray-800 border-b border-gray-300 mb-1">Transactions</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-100 text-left">
+                <th className="px-2 py-1 font-semibold">Date</th>
+                <th className="px-2 py-1 font-semibold">Particulars</th>
+                <th className="px-2 py-1 font-semibold text-right">Debit</th>
+                <th className="px-2 py-1 font-semibold text-right">Credit</th>
+                <th className="px-2 py-1 font-semibold text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-gray-100">
+                <td className="px-2 py-1">{data.period.from ? formatDate(data.period.from) : ""}</td>
+                <td className="px-2 py-1 font-medium">Opening balance</td>
+                <td className="px-2 py-1" />
+                <td className="px-2 py-1" />
+                <td className="px-2 py-1 text-right">{money(data.openingBalance)}</td>
+              </tr>
+              {data.lines.map((line) => (
+                <tr key={line.id} className="border-b border-gray-100 break-inside-avoid">
+                  <td className="px-2 py-1 whitespace-nowrap">{formatDate(line.date)}</td>
+                  <td className="px-2 py-1">
+                    {line.description || line.referenceType.replace("_", " ")}
+                    {line.paymentMethod && (
+                      <span className="text-xs text-gray-500"> ({line.paymentMethod.replace("_", " ")})</span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1 text-right">{parseFloat(line.debit) > 0 ? money(line.debit) : ""}</td>
+                  <td className="px-2 py-1 text-right">{parseFloat(line.credit) > 0 ? money(line.credit) : ""}</td>
+                  <td className="px-2 py-1 text-right">{money(line.balance)}</td>
+                </tr>
+              ))}
+              <tr className="bg-gray-50 font-semibold">
+                <td className="px-2 py-1" />
+                <td className="px-2 py-1">Closing balance</td>
+                <td className="px-2 py-1" />
+                <td className="px-2 py-1" />
+                <td className="px-2 py-1 text-right">&#8377;{money(data.closingBalance)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        {/* Aging */}
+        <div className="mb-4 break-inside-avoid">
+          <h3 className="text-sm font-bold uppercase text-gray-800 border-b border-gray-300 mb-1">Outstanding by Age</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-100 text-left">
+                {AGING_LABELS.map(([bucket, label]) => (
+                  <th key={bucket} className="px-2 py-1 font-semibold text-right">{label}</th>
+                ))}
+                <th className="px-2 py-1 font-semibold text-right">Total Due</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                {AGING_LABELS.map(([bucket]) => (
+                  <td key={bucket} className="px-2 py-1 text-right">{money(data.aging[bucket])}</td>
+                ))}
+                <td className="px-2 py-1 text-right font-semibold">&#8377;{money(data.aging.total)}</td>
+              </tr>
+            </tbody>
+          </table>
+          {data.creditLimit && (
+            <p className="text-xs text-gray-500 mt-1">
+              Credit limit: &#8377;{money(data.creditLimit)} · Available: &#8377;{money(data.availableCredit ?? "0")}
+            </p>
+          )}
+        </div>
+
+        {data.outstandingEntries.length > 0 && (
+          <div className="mb-4 break-inside-avoid">
+            <h3 className="text-sm font-bold uppercase text-gray-800 border-b border-gray-300 mb-1">Unpaid Bills</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-100 text-left">
+                  <th className="px-2 py-1 font-semibold">Date</th>
+                  <th className="px-2 py-1 font-semibold">Bill</th>
+                  <th className="px-2 py-1 font-semibold text-right">Days</th>
+                  <th className="px-2 py-1 font-semibold text-right">Amount</th>
+                  <th className="px-2 py-1 font-semibold text-right">Due</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.outstandingEntries.map((entry) => (
+                  <tr key={entry.id} className="border-b border-gray-100">
+                    <td className="px-2 py-1">{formatDate(entry.createdAt)}</td>
+                    <td className="px-2 py-1">{entry.notes || entry.referenceType}</td>
+                    <td className="px-2 py-1 text-right">{entry.ageDays}</td>
+                    <td className="px-2 py-1 text-right">{money(entry.debitAmount)}</td>
+                    <td className="px-2 py-1 text-right">{money(entry.outstanding)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Signature */}
+        <div className="mt-12 flex justify-end">
+          <div className="text-right text-sm">
+            <div className="border-t border-gray-400 pt-1 w-48 ml-auto" />
+            <p className="font-semibold">Authorised Signatory</p>
+            <p className="text-xs text-gray-500">Generated {new Date(data.generatedAt).toLocaleString("en-IN")}</p>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="mt-6 pt-2 border-t border-gray-200 flex justify-between text-xs text-gray-500">
+          <span>{letterhead.footerNote || "Please quote the UHID with your payment."}</span>
+          <span>*** End of Statement ***</span>
+        </div>
+
+        {/* Print Instructions (non-print) */}
+        <div className="mt-8 text-center no-print">
+          <p className="text-sm text-gray-500 mb-2">
+            This page will automatically print. If it doesn&apos;t, click the button below.
+          </p>
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+          >
+            Print Statement
+          </button>
+          <button
+            onClick={() => window.close()}
+            className="ml-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,325 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+
+interface MethodLine {
+  paymentMethod: string;
+  registrations: string;
+  pharmacySales: string;
+  payments: string;
+  refunds: string;
+  collected: string;
+  expected: string;
+  counted: string | null;
+  variance: string | null;
+}
+
+interface DayEndShift {
+  id: string;
+  shiftNumber: string;
+  cashierName: string;
+  counterNumber: string | null;
+  status: "OPEN" | "CLOSED" | "APPROVED";
+  openingFloat: string;
+  openedAt: string;
+  closedAt: string | null;
+  countedCash: string | null;
+  totalCollected: string;
+  totalVariance: string | null;
+  approvedAt: string | null;
+  approvedByName: string | null;
+  closingNotes: string | null;
+  approvalNotes: string | null;
+  denominations: Record<string, number> | null;
+  methods: MethodLine[];
+  counts: { registrations: number; pharmacySales: number; payments: number; refunds: number };
+}
+
+interface DayEndReportPrint {
+  date: string;
+  shifts: DayEndShift[];
+  methods: Array<{ paymentMethod: string; collected: string; counted: string | null; variance: string | null }>;
+  totalCollected: string;
+  totalVariance: string;
+  pendingShifts: number;
+  letterhead: {
+    name: string;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+    logoUrl: string | null;
+    footerNote: string | null;
+  };
+}
+
+const money = (value: string | number) =>
+  parseFloat(String(value)).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit" });
+
+const variance = (value: string | null) => {
+  if (value === null) return "-";
+  const val = parseFloat(value);
+  return `${val > 0 ? "+" : ""}${money(val)}`;
+};
+
+export default function DayEndCollectionPrintPage() {
+  const params = useParams();
+  const date = params.date as string;
+
+  const [data, setData] = useState<DayEndReportPrint | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchReport() {
+      try {
+        const response = await fetch(`/api/billing/shifts/day-end?date=${encodeURIComponent(date)}`);
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || "Failed to fetch report");
+        }
+        setData(result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    if (date) {
+      fetchReport();
+    }
+  }, [date]);
+
+  useEffect(() => {
+    // Auto-print when report data is loaded
+    if (data && !loading) {
+      setTimeout(() => {
+        window.print();
+      }, 500);
+    }
+  }, [data, loading]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading report...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center text-red-600">
+          <p className="font-medium">Error</p>
+          <p className="text-sm">{error || "Report not found"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { letterhead } = data;
+
+  return (
+    <>
+      {/* Print Styles */}
+      <style jsx global>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 15mm;
+          }
+          body {
+            -webkit-print-color-adjust: exact !important;
+            print-color-adjust: exact !important;
+          }
+          .no-print {
+            display: none !important;
+          }
+        }
+      `}</style>
+
+      <div className="relative max-w-[210mm] mx-auto bg-white p-6 print:p-0">
+        {/* Header */}
+        <div className="border-b-2 border-gray-800 pb-4 mb-4">
+          <div className="flex items-start justify-between">
+            <div className="flex items-center gap-4">
+              {letterhead.logoUrl ? (
+                /* eslint-disable-next-line @next/next/no-img-element */
+                <img
+                  src={letterhead.logoUrl}
+                  alt="Hospital Logo"
+                  className="w-16 h-16 object-contain"
+                />
+              ) : (
+                <div className="w-16 h-16 bg-blue-100 rounded-lg flex items-center justify-center">
+                  <span className="text-2xl font-bold text-blue-600">H</span>
+                </div>
+              )}
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">{letterhead.name}</h1>
+                {letterhead.address && (
+                  <p className="text-sm text-gray-600">{letterhead.address}</p>
+                )}
+                <div className="flex gap-4 text-xs text-gray-500 mt-1">
+                  {letterhead.phone && <span>Tel: {letterhead.phone}</span>}
+                  {letterhead.email && <span>Email: {letterhead.email}</span>}
+                </div>
+              </div>
+            </div>
+            <div className="text-right">
+              <h2 className="text-lg font-semibold text-gray-800">DAY-END COLLECTION REPORT</h2>
+              <p className="text-sm text-gray-600">{new Date(`${data.date}T00:00:00`).toLocaleDateString("en-IN")}</p>
+              <p className="text-sm text-gray-600">{data.shifts.length} shift(s)</p>
+            </div>
+          </div>
+        </div>
+
+        {data.pendingShifts > 0 && (
+          <p className="mb-4 p-2 text-sm bg-amber-50 text-amber-800 rounded">
+            {data.pendingShifts} shift(s) not yet signed off. Figures for open shifts are provisional.
+          </p>
+        )}
+
+        {/* Summary by method */}
+        <div className="mb-4 break-inside-avoid">
+          <h3 className="text-sm font-bold uppercase text-gray-800 border-b border-gray-300 mb-1">Collections by Payment Method</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-100 text-left">
+                <th className="px-2 py-1 font-semibold">Method</th>
+                <th className="px-2 py-1 font-semibold text-right">Collected</th>
+                <th className="px-2 py-1 font-semibold text-right">Counted</th>
+                <th className="px-2 py-1 font-semibold text-right">Variance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.methods.map((m) => (
+                <tr key={m.paymentMethod} className="border-b border-gray-100">
+                  <td className="px-2 py-1">{m.paymentMethod.replace("_", " ")}</td>
+                  <td className="px-2 py-1 text-right">{money(m.collected)}</td>
+                  <td className="px-2 py-1 text-right">{m.counted !== null ? money(m.counted) : "-"}</td>
+                  <td className="px-2 py-1 text-right">{variance(m.variance)}</td>
+                </tr>
+              ))}
+              <tr className="bg-gray-50 font-semibold">
+                <td className="px-2 py-1">Total</td>
+                <td className="px-2 py-1 text-right">&#8377;{money(data.totalCollected)}</td>
+                <td className="px-2 py-1" />
+                <td className="px-2 py-1 text-right">{variance(data.totalVariance)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-1">Counted cash includes opening floats; collected figures do not.</p>
+        </div>
+
+        {/* Per shift */}
+        {data.shifts.map((shift) => (
+          <div key={shift.id} className="mb-4 break-inside-avoid">
+            <h3 className="text-sm font-bold uppercase text-gray-800 border-b border-gray-300 mb-1">
+              {shift.shiftNumber} · {shift.cashierName}
+              {shift.counterNumber ? ` · Counter ${shift.counterNumber}` : ""}
+            </h3>
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+              <span>
+                {formatTime(shift.openedAt)} – {shift.closedAt ? formatTime(shift.closedAt) : "open"} · Float {money(shift.openingFloat)}
+              </span>
+              <span>
+                {shift.counts.registrations} registrations · {shift.counts.pharmacySales} sales · {shift.counts.payments} payments · {shift.counts.refunds} refunds
+              </span>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-100 text-left">
+                  <th className="px-2 py-1 font-semibold">Method</th>
+                  <th className="px-2 py-1 font-semibold text-right">Registration</th>
+                  <th className="px-2 py-1 font-semibold text-right">Pharmacy</th>
+                  <th className="px-2 py-1 font-semibold text-right">Payments</th>
+                  <th className="px-2 py-1 font-semibold text-right">Refunds</th>
+                  <th className="px-2 py-1 font-semibold text-right">Expected</th>
+                  <th className="px-2 py-1 font-semibold text-right">Counted</th>
+                  <th className="px-2 py-1 font-semibold text-right">Variance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shift.methods.map((m) => (
+                  <tr key={m.paymentMethod} className="border-b border-gray-100">
+                    <td className="px-2 py-1">{m.paymentMethod.replace("_", " ")}</td>
+                    <td className="px-2 py-1 text-right">{money(m.registrations)}</td>
+                    <td className="px-2 py-1 text-right">{money(m.pharmacySales)}</td>
+                    <td className="px-2 py-1 text-right">{money(m.payments)}</td>
+                    <td className="px-2 py-1 text-right">{money(m.refunds)}</td>
+                    <td className="px-2 py-1 text-right">{money(m.expected)}</td>
+                    <td className="px-2 py-1 text-right">{m.counted !== null ? money(m.counted) : "-"}</td>
+                    <td className="px-2 py-1 text-right">{variance(m.variance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {shift.denominations && (
+              <p className="text-xs text-gray-600 mt-1">
+                Cash count:{" "}
+                {Object.entries(shift.denominations)
+                  .filter(([, count]) => count > 0)
+                  .sort(([a], [b]) => Number(b) - Number(a))
+                  .map(([value, count]) => `${value} × ${count}`)
+                  .join(", ") || "nil"}
+              </p>
+            )}
+            <p className="text-xs text-gray-600">
+              {shift.status === "APPROVED"
+                ? `Signed off by ${shift.approvedByName}${shift.approvedAt ? ` at ${formatTime(shift.approvedAt)}` : ""}`
+                : shift.status === "CLOSED" ? "Awaiting supervisor sign-off" : "Shift still open"}
+              {shift.approvalNotes ? ` — ${shift.approvalNotes}` : ""}
+            </p>
+          </div>
+        ))}
+
+        {/* Signature */}
+        <div className="mt-12 flex justify-between text-sm">
+          <div>
+            <div className="border-t border-gray-400 pt-1 w-48" />
+            <p className="font-semibold">Cashier(s)</p>
+          </div>
+          <div className="text-right">
+            <div className="border-t border-gray-400 pt-1 w-48 ml-auto" />
+            <p className="font-semibold">Supervisor</p>
+            <p className="text-xs text-gray-500">Generated {new Date().toLocaleString("en-IN")}</p>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="mt-6 pt-2 border-t border-gray-200 flex justify-between text-xs text-gray-500">
+          <span>{letterhead.footerNote || ""}</span>
+          <span>*** End of Report ***</span>
+        </div>
+
+        {/* Print Instructions (non-print) */}
+        <div className="mt-8 text-center no-print">
+          <p className="text-sm text-gray-500 mb-2">
+            This page will automatically print. If it doesn&apos;t, click the button below.
+          </p>
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+          >
+            Print Report
+          </button>
+          <button
+            onClick={() => window.close()}
+            className="ml-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
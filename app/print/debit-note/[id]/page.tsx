@@ -0,0 +1,309 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+
+interface DebitNotePrint {
+  letterhead: {
+    name: string;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+    logoUrl: string | null;
+    footerNote: string | null;
+  };
+  returnNumber: string;
+  debitNoteNumber: string;
+  debitNoteDate: string;
+  vendorName: string;
+  vendorCode: string;
+  vendorGst: string | null;
+  vendorContactPerson: string | null;
+  vendorContactNumber: string | null;
+  storeName: string;
+  storeGst: string | null;
+  notes: string | null;
+  subtotal: string;
+  tax: string;
+  total: string;
+  gst: { cgst: string; sgst: string; igst: string };
+  items: Array<{
+    id: string;
+    grnNumber: string;
+    productCode: string;
+    productName: string;
+    hsnCode: string | null;
+    batchNumber: string;
+    expiryDate: string;
+    quantity: number;
+    reason: string;
+    unitCost: string;
+    gstPercent: string;
+    tax: string;
+    total: string;
+  }>;
+}
+
+const money = (value: string) =>
+  parseFloat(value).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString("en-IN");
+
+export default function DebitNotePrintPage() {
+  const params = useParams();
+  const returnId = params.id as string;
+
+  const [data, setData] = useState<DebitNotePrint | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchDebitNote() {
+      try {
+        const response = await fetch(`/api/pharmacy/vendor-returns/${returnId}/debit-note`);
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || "Failed to fetch debit note");
+        }
+        setData(result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    if (returnId) {
+      fetchDebitNote();
+    }
+  }, [returnId]);
+
+  useEffect(() => {
+    // Auto-print when debit note data is loaded
+    if (data && !loading) {
+      setTimeout(() => {
+        window.print();
+      }, 500);
+    }
+  }, [data, loading]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading debit note...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center text-red-600">
+          <p className="font-medium">Error</p>
+          <p className="text-sm">{error || "Debit note not found"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { letterhead } = data;
+  const interState = parseFloat(data.gst.igst) > 0;
+
+  return (
+    <>
+      {/* Print Styles */}
+      <style jsx global>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 15mm;
+          }
+          body {
+            -webkit-print-color-adjust: exact !important;
+            print-color-adjust: exact !important;
+          }
+          .no-print {
+            display: none !important;
+          }
+        }
+      `}</style>
+
+      <div className="relative max-w-[210mm] mx-auto bg-white p-6 print:p-0">
+        {/* Header */}
+        <div className="border-b-2 border-gray-800 pb-4 mb-4">
+          <div className="flex items-start justify-between">
+            <div className="flex items-center gap-4">
+              {letterhead.logoUrl ? (
+                /* eslint-disable-next-line @next/next/no-img-element */
+                <img
+                  src={letterhead.logoUrl}
+                  alt="Hospital Logo"
+                  className="w-16 h-16 object-contain"
+                />
+              ) : (
+                <div className="w-16 h-16 bg-blue-100 rounded-lg flex items-center justify-center">
+                  <span className="text-2xl font-bold text-blue-600">H</span>
+                </div>
+              )}
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">{letterhead.name}</h1>
+                {letterhead.address && (
+                  <p className="text-sm text-gray-600">{letterhead.address}</p>
+                )}
+                <div className="flex gap-4 text-xs text-gray-500 mt-1">
+                  {letterhead.phone && <span>Tel: {letterhead.phone}</span>}
+                  {letterhead.email && <span>Email: {letterhead.email}</span>}
+                </div>
+                {data.storeGst && <p className="text-xs text-gray-500">GSTIN: {data.storeGst}</p>}
+              </div>
+            </div>
+            <div className="text-right">
+              <h2 className="text-lg font-semibold text-gray-800">DEBIT NOTE</h2>
+              <p className="text-sm text-gray-600">{data.debitNoteNumber}</p>
+              <p className="text-sm text-gray-600">{formatDate(data.debitNoteDate)}</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Vendor Details */}
+        <div className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm mb-4 p-3 bg-gray-50 rounded-lg">
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Vendor</span>
+            <span className="font-semibold">{data.vendorName} ({data.vendorCode})</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Return #</span>
+            <span className="font-medium">{data.returnNumber}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Vendor GSTIN</span>
+            <span className="font-medium">{data.vendorGst || "-"}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Store</span>
+            <span className="font-medium">{data.storeName}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Contact</span>
+            <span className="font-medium">
+              {[data.vendorContactPerson, data.vendorContactNumber].filter(Boolean).join(", ") || "-"}
+            </span>
+          </div>
+        </div>
+
+        {/* Items */}
+        <div className="mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-100 text-left">
+                <th className="px-2 py-1 font-semibold">Item</th>
+                <th className="px-2 py-1 font-semibold">HSN</th>
+                <th className="px-2 py-1 font-semibold">Batch / Expiry</th>
+                <th className="px-2 py-1 font-semibold text-right">Qty</th>
+                <th className="px-2 py-1 font-semibold text-right">Rate</th>
+                <th className="px-2 py-1 font-semibold text-right">GST %</th>
+                <th className="px-2 py-1 font-semibold text-right">GST</th>
+                <th className="px-2 py-1 font-semibold text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.items.map((item) => (
+                <tr key={item.id} className="border-b border-gray-100 break-inside-avoid">
+                  <td className="px-2 py-1">
+                    {item.productName}
+                    <div className="text-xs text-gray-500">{item.grnNumber} · {item.reason.replace("_", " ")}</div>
+                  </td>
+                  <td className="px-2 py-1">{item.hsnCode || "-"}</td>
+                  <td className="px-2 py-1 whitespace-nowrap">
+                    {item.batchNumber}
+                    <div className="text-xs text-gray-500">{formatDate(item.expiryDate)}</div>
+                  </td>
+                  <td className="px-2 py-1 text-right">{item.quantity}</td>
+                  <td className="px-2 py-1 text-right">{money(item.unitCost)}</td>
+                  <td className="px-2 py-1 text-right">{item.gstPercent}</td>
+                  <td className="px-2 py-1 text-right">{money(item.tax)}</td>
+                  <td className="px-2 py-1 text-right">{money(item.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Totals */}
+        <div className="flex justify-end mb-4 break-inside-avoid">
+          <table className="text-sm w-72">
+            <tbody>
+              <tr>
+                <td className="px-2 py-1 text-gray-600">Taxable value</td>
+                <td className="px-2 py-1 text-right">{money(data.subtotal)}</td>
+              </tr>
+              {interState ? (
+                <tr>
+                  <td className="px-2 py-1 text-gray-600">IGST reversed</td>
+                  <td className="px-2 py-1 text-right">{money(data.gst.igst)}</td>
+                </tr>
+              ) : (
+                <>
+                  <tr>
+                    <td className="px-2 py-1 text-gray-600">CGST reversed</td>
+                    <td className="px-2 py-1 text-right">{money(data.gst.cgst)}</td>
+                  </tr>
+                  <tr>
+                    <td className="px-2 py-1 text-gray-600">SGST reversed</td>
+                    <td className="px-2 py-1 text-right">{money(data.gst.sgst)}</td>
+                  </tr>
+                </>
+              )}
+              <tr className="bg-gray-50 font-semibold border-t border-gray-300">
+                <td className="px-2 py-1">Total debit</td>
+                <td className="px-2 py-1 text-right">&#8377;{money(data.total)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        {data.notes && <p className="text-sm text-gray-600 mb-4">Remarks: {data.notes}</p>}
+
+        {/* Signature */}
+        <div className="mt-12 flex justify-between text-sm">
+          <div>
+            <div className="border-t border-gray-400 pt-1 w-48" />
+            <p className="font-semibold">Received by (Vendor)</p>
+          </div>
+          <div className="text-right">
+            <div className="border-t border-gray-400 pt-1 w-48 ml-auto" />
+            <p className="font-semibold">Authorised Signatory</p>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="mt-6 pt-2 border-t border-gray-200 flex justify-between text-xs text-gray-500">
+          <span>{letterhead.footerNote || "Please adjust this debit note against your next invoice."}</span>
+          <span>*** End of Debit Note ***</span>
+        </div>
+
+        {/* Print Instructions (non-print) */}
+        <div className="mt-8 text-center no-print">
+          <p className="text-sm text-gray-500 mb-2">
+            This page will automatically print. If it doesn&apos;t, click the button below.
+          </p>
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+          >
+            Print Debit Note
+          </button>
+          <button
+            onClick={() => window.close()}
+            className="ml-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
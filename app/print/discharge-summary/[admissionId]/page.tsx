@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+
+interface Medication {
+  medicineName: string;
+  dosage?: string;
+  frequency?: string;
+  duration?: string;
+  instructions?: string;
+}
+
+interface DischargeSummaryPrint {
+  letterhead: {
+    name: string;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+    logoUrl: string | null;
+    footerNote: string | null;
+  };
+  admission: {
+    admissionNumber: string;
+    patientName: string;
+    uhid: string;
+    gender: string;
+    ageYears: number | null;
+    mobile: string;
+    doctorName: string | null;
+    departmentName: string | null;
+    wardName: string | null;
+    bedLabel: string | null;
+    admittedAt: string;
+    dischargedAt: string | null;
+    dischargeType: string | null;
+  };
+  status: "DRAFT" | "FINALIZED";
+  content: {
+    finalDiagnosis?: string;
+    presentingComplaints?: string;
+    courseInHospital?: string;
+    investigations?: string;
+    proceduresPerformed?: string;
+    conditionAtDischarge?: string;
+    dischargeMedications: Medication[];
+    followUpPlan?: string;
+    followUpDate?: string;
+    dietAdvice?: string;
+    specialInstructions?: string;
+  };
+  finalizedAt: string | null;
+  finalizedByName: string | null;
+}
+
+const DISCHARGE_TYPE_LABELS: Record<string, string> = {
+  NORMAL: "Discharged",
+  LAMA: "Left Against Medical Advice",
+  REFERRED: "Referred",
+  ABSCONDED: "Absconded",
+  DEATH: "Expired",
+};
+
+function Section({ title, text }: { title: string; text?: string }) {
+  if (!text) return null;
+  return (
+    <div className="mb-4 break-inside-avoid">
+      <h3 className="text-sm font-bold uppercase text-gray-800 border-b border-gray-300 mb-1">{title}</h3>
+      <p className="text-sm whitespace-pre-line">{text}</p>
+    </div>
+  );
+}
+
+export default function DischargeSummaryPrintPage() {
+  const params = useParams();
+  const admissionId = params.admissionId as string;
+
+  const [data, setData] = useState<DischargeSummaryPrint | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSummary() {
+      try {
+        const response = await fetch(`/api/ipd/admissions/${admissionId}/discharge-summary/print`);
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || "Failed to fetch discharge summary");
+        }
+        setData(result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    if (admissionId) {
+      fetchSummary();
+    }
+  }, [admissionId]);
+
+  useEffect(() => {
+    // Auto-print when summary data is loaded
+    if (data && !loading) {
+      setTimeout(() => {
+        window.print();
+      }, 500);
+    }
+  }, [data, loading]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading discharge summary...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center text-red-600">
+          <p className="font-medium">Error</p>
+          <p className="text-sm">{error || "Discharge summary not found"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { letterhead, admission, content } = data;
+  const isDraft = data.status !== "FINALIZED";
+
+  return (
+    <>
+      {/* Print Styles */}
+      <style jsx global>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 15mm;
+          }
+          body {
+            -webkit-print-color-adjust: exact !important;
+            print-color-adjust: exact !important;
+          }
+          .no-print {
+            display: none !important;
+          }
+        }
+      `}</style>
+
+      <div className="relative max-w-[210mm] mx-auto bg-white p-6 print:p-0">
+        {isDraft && (
+          <div className="pointer-events-none fixed inset-0 flex items-center justify-center">
+            <span className="text-8xl font-bold text-gray-200 -rotate-30 select-none">DRAFT</span>
+          </div>
+        )}
+
+        {/* Header */}
+        <div className="border-b-2 border-gray-800 pb-4 mb-4">
+          <div className="flex items-start justify-between">
+            <div className="flex items-center gap-4">
+              {letterhead.logoUrl ? (
+                /* eslint-disable-next-line @next/next/no-img-element */
+                <img
+                  src={letterhead.logoUrl}
+                  alt="Hospital Logo"
+                  className="w-16 h-16 object-contain"
+                />
+              ) : (
+                <div className="w-16 h-16 bg-blue-100 rounded-lg flex items-center justify-center">
+                  <span className="text-2xl font-bold text-blue-600">H</span>
+                </div>
+              )}
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">{letterhead.name}</h1>
+                {letterhead.address && (
+                  <p className="text-sm text-gray-600">{letterhead.address}</p>
+                )}
+                <div className="flex gap-4 text-xs text-gray-500 mt-1">
+                  {letterhead.phone && <span>Tel: {letterhead.phone}</span>}
+                  {letterhead.email && <span>Email: {letterhead.email}</span>}
+                </div>
+              </div>
+            </div>
+            <div className="text-right">
+              <h2 className="text-lg font-semibold text-gray-800">DISCHARGE SUMMARY</h2>
+              {isDraft && <p className="text-sm text-amber-700 font-medium">Draft — not final</p>}
+              <p className="text-sm text-gray-600">Admission No: {admission.admissionNumber}</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Patient Details */}
+        <div className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm mb-4 p-3 bg-gray-50 rounded-lg">
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Patient</span>
+            <span className="font-semibold">{admission.patientName}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Consultant</span>
+            <span className="font-medium">{admission.doctorName ? `Dr. ${admission.doctorName}` : "-"}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">UHID</span>
+            <span className="font-medium">{admission.uhid}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Department</span>
+            <span className="font-medium">{admission.departmentName || "-"}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Age / Gender</span>
+            <span className="font-medium">
+              {admission.ageYears !== null ? `${admission.ageYears} Y` : "-"} / {admission.gender}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Ward / Bed</span>
+            <span className="font-medium">{admission.wardName ? `${admission.wardName} / ${admission.bedLabel}` : "-"}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Admitted</span>
+            <span className="font-medium">{new Date(admission.admittedAt).toLocaleString("en-IN")}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-28">Discharged</span>
+            <span className="font-medium">
+              {admission.dischargedAt ? new Date(admission.dischargedAt).toLocaleString("en-IN") : "-"}
+              {admission.dischargeType ? ` (${DISCHARGE_TYPE_LABELS[admission.dischargeType] || admission.dischargeType})` : ""}
+            </span>
+          </div>
+        </div>
+
+        <Section title="Final Diagnosis" text={content.finalDiagnosis} />
+        <Section title="Presenting Complaints" text={content.presentingComplaints} />
+        <Section title="Course in Hospital" text={content.courseInHospital} />
+        <Section title="Investigations" text={content.investigations} />
+        <Section title="Procedures Performed" text={content.proceduresPerformed} />
+        <Section title="Condition at Discharge" text={content.conditionAtDischarge} />
+
+        {content.dischargeMedications.length > 0 && (
+          <div className="mb-4 break-inside-avoid">
+            <h3 className="text-sm font-bold uppercase text-gray-800 border-b border-gray-300 mb-1">Medications on Discharge</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-100 text-left">
+                  <th className="px-2 py-1 font-semibold w-8">#</th>
+                  <th className="px-2 py-1 font-semibold">Medicine</th>
+                  <th className="px-2 py-1 font-semibold">Dose</th>
+                  <th className="px-2 py-1 font-semibold">Frequency</th>
+                  <th className="px-2 py-1 font-semibold">Duration</th>
+                  <th className="px-2 py-1 font-semibold">Instructions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {content.dischargeMedications.map((m, idx) => (
+                  <tr key={idx} className="border-b border-gray-100">
+                    <td className="px-2 py-1">{idx + 1}</td>
+                    <td className="px-2 py-1 font-medium">{m.medicineName}</td>
+                    <td className="px-2 py-1">{m.dosage || "-"}</td>
+                    <td className="px-2 py-1">{m.frequency || "-"}</td>
+                    <td className="px-2 py-1">{m.duration || "-"}</td>
+                    <td className="px-2 py-1 text-gray-600">{m.instructions || ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <Section
+          title="Follow-up"
+          text={[
+            content.followUpPlan,
+            content.followUpDate ? `Review on ${new Date(content.followUpDate).toLocaleDateString("en-IN")}` : "",
+          ].filter(Boolean).join("\n")}
+        />
+        <Section title="Diet Advice" text={content.dietAdvice} />
+        <Section title="Special Instructions" text={content.specialInstructions} />
+
+        {/* Signature */}
+        <div className="mt-12 flex justify-end">
+          <div className="text-right text-sm">
+            <div className="border-t border-gray-400 pt-1 w-48 ml-auto" />
+            <p className="font-semibold">
+              {data.finalizedByName ? `Dr. ${data.finalizedByName}` : admission.doctorName ? `Dr. ${admission.doctorName}` : "Treating Doctor"}
+            </p>
+            {data.finalizedAt && (
+              <p className="text-xs text-gray-500">Finalized {new Date(data.finalizedAt).toLocaleString("en-IN")}</p>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="mt-6 pt-2 border-t border-gray-200 flex justify-between text-xs text-gray-500">
+          <span>{letterhead.footerNote || "In case of emergency, contact the hospital immediately."}</span>
+          <span>*** End of Summary ***</span>
+        </div>
+
+        {/* Print Instructions (non-print) */}
+        <div className="mt-8 text-center no-print">
+          <p className="text-sm text-gray-500 mb-2">
+            This page will automatically print. If it doesn&apos;t, click the button below.
+          </p>
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+          >
+            Print Summary
+          </button>
+          <button
+            onClick={() => window.close()}
+            className="ml-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
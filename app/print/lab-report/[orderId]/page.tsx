@@ -0,0 +1,330 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+
+interface ResultRow {
+  testName: string;
+  testCode: string | null;
+  result: string;
+  unit: string | null;
+  referenceRange: string | null;
+  flag: string | null;
+  isCritical: boolean;
+  notes: string | null;
+  accessionNumber: string | null;
+}
+
+interface LabReport {
+  letterhead: {
+    name: string;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+    logoUrl: string | null;
+    footerNote: string | null;
+  };
+  orderId: string;
+  orderNumber: string;
+  orderDate: string;
+  reportStatus: "FINAL" | "PARTIAL";
+  reportDate: string;
+  patient: {
+    name: string;
+    uhid: string;
+    gender: string;
+    ageYears: number | null;
+    mobile: string;
+  };
+  referringDoctor: string;
+  sampleCollectedAt: string | null;
+  sections: Array<{ category: string; results: ResultRow[] }>;
+  pendingTests: string[];
+  signatories: Array<{
+    userId: string;
+    name: string;
+    qualifications: string[];
+    registrationNumber: string | null;
+    verifiedAt: string;
+  }>;
+}
+
+const FLAG_LABELS: Record<string, string> = {
+  LOW: "L",
+  HIGH: "H",
+  ABNORMAL: "ABN",
+  CRITICAL_LOW: "CRITICAL L",
+  CRITICAL_HIGH: "CRITICAL H",
+};
+
+export default function LabReportPrintPage() {
+  const params = useParams();
+  const orderId = params.orderId as string;
+
+  const [report, setReport] = useState<LabReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [archiving, setArchiving] = useState(false);
+  const [archiveMessage, setArchiveMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchReport() {
+      try {
+        const response = await fetch(`/api/lab/orders/${orderId}/report`);
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.message || "Failed to fetch lab report");
+        }
+        setReport(data.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    if (orderId) {
+      fetchReport();
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    // Auto-print when report data is loaded
+    if (report && !loading) {
+      setTimeout(() => {
+        window.print();
+      }, 500);
+    }
+  }, [report, loading]);
+
+  const handleArchive = async () => {
+    setArchiving(true);
+    setArchiveMessage(null);
+    try {
+      const response = await fetch(`/api/lab/orders/${orderId}/report/pdf`, { method: "POST" });
+      const data = await response.json();
+      setArchiveMessage(data.message || (data.success ? "Archived" : "Failed to archive report"));
+    } catch {
+      setArchiveMessage("Network error");
+    } finally {
+      setArchiving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading lab report...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center text-red-600">
+          <p className="font-medium">Error</p>
+          <p className="text-sm">{error || "Lab report not found"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { letterhead, patient } = report;
+
+  return (
+    <>
+      {/* Print Styles */}
+      <style jsx global>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 15mm;
+          }
+          body {
+            -webkit-print-color-adjust: exact !important;
+            print-color-adjust: exact !important;
+          }
+          .no-print {
+            display: none !important;
+          }
+        }
+      `}</style>
+
+      <div className="max-w-[210mm] mx-auto bg-white p-6 print:p-0">
+        {/* Header */}
+        <div className="border-b-2 border-gray-800 pb-4 mb-4">
+          <div className="flex items-start justify-between">
+            <div className="flex items-center gap-4">
+              {letterhead.logoUrl ? (
+                /* eslint-disable-next-line @next/next/no-img-element */
+                <img
+                  src={letterhead.logoUrl}
+                  alt="Hospital Logo"
+                  className="w-16 h-16 object-contain"
+                />
+              ) : (
+                <div className="w-16 h-16 bg-blue-100 rounded-lg flex items-center justify-center">
+                  <span className="text-2xl font-bold text-blue-600">H</span>
+                </div>
+              )}
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">{letterhead.name}</h1>
+                {letterhead.address && (
+                  <p className="text-sm text-gray-600">{letterhead.address}</p>
+                )}
+                <div className="flex gap-4 text-xs text-gray-500 mt-1">
+                  {letterhead.phone && <span>Tel: {letterhead.phone}</span>}
+                  {letterhead.email && <span>Email: {letterhead.email}</span>}
+                </div>
+              </div>
+            </div>
+            <div className="text-right">
+              <h2 className="text-lg font-semibold text-gray-800">LABORATORY REPORT</h2>
+              <p className={`text-sm ${report.reportStatus === "FINAL" ? "text-gray-600" : "text-amber-700 font-medium"}`}>
+                {report.reportStatus === "FINAL" ? "Final Report" : "Partial Report"}
+              </p>
+              <p className="text-sm text-gray-600">Order No: {report.orderNumber}</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Patient Details */}
+        <div className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm mb-4 p-3 bg-gray-50 rounded-lg">
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-24">Patient</span>
+            <span className="font-semibold">{patient.name}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-24">Referred By</span>
+            <span className="font-medium">Dr. {report.referringDoctor}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-24">UHID</span>
+            <span className="font-medium">{patient.uhid}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-24">Collected</span>
+            <span className="font-medium">
+              {report.sampleCollectedAt ? new Date(report.sampleCollectedAt).toLocaleString("en-IN") : "-"}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-24">Age / Gender</span>
+            <span className="font-medium">
+              {patient.ageYears !== null ? `${patient.ageYears} Y` : "-"} / {patient.gender}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-gray-500 w-24">Reported</span>
+            <span className="font-medium">{new Date(report.reportDate).toLocaleString("en-IN")}</span>
+          </div>
+        </div>
+
+        {/* Results grouped by category */}
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="bg-gray-100 text-left">
+              <th className="px-2 py-1.5 font-semibold">Test</th>
+              <th className="px-2 py-1.5 font-semibold">Result</th>
+              <th className="px-2 py-1.5 font-semibold">Unit</th>
+              <th className="px-2 py-1.5 font-semibold">Reference Range</th>
+              <th className="px-2 py-1.5 font-semibold text-right">Flag</th>
+            </tr>
+          </thead>
+          {report.sections.map((section) => (
+            <tbody key={section.category}>
+              <tr>
+                <td colSpan={5} className="px-2 pt-3 pb-1 font-bold uppercase text-gray-800 border-b border-gray-300">
+                  {section.category}
+                </td>
+              </tr>
+              {section.results.map((row, idx) => {
+                const abnormal = row.flag !== null && row.flag !== "NORMAL";
+                const color = row.isCritical ? "text-red-600" : abnormal ? "text-amber-700" : "text-gray-900";
+                return (
+                  <tr key={`${section.category}-${idx}`} className="border-b border-gray-100 align-top">
+                    <td className="px-2 py-1.5">
+                      {row.testName}
+                      {row.notes && <p className="text-xs text-gray-500">Note: {row.notes}</p>}
+                    </td>
+                    <td className={`px-2 py-1.5 ${color} ${abnormal ? "font-bold" : ""}`}>{row.result}</td>
+                    <td className="px-2 py-1.5">{row.unit || ""}</td>
+                    <td className="px-2 py-1.5 text-gray-600">{row.referenceRange || "-"}</td>
+                    <td className={`px-2 py-1.5 text-right text-xs font-bold ${color}`}>
+                      {row.flag ? FLAG_LABELS[row.flag] || "" : ""}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          ))}
+        </table>
+
+        {report.pendingTests.length > 0 && (
+          <p className="text-sm text-amber-700 mb-4">
+            Pending: {report.pendingTests.join(", ")}
+          </p>
+        )}
+
+        {/* Verifying Pathologists */}
+        <div className="mt-12 flex justify-end gap-12">
+          {report.signatories.map((s) => (
+            <div key={s.userId} className="text-right text-sm">
+              <div className="border-t border-gray-400 pt-1 w-48 ml-auto" />
+              <p className="font-semibold">Dr. {s.name}</p>
+              {s.qualifications.length > 0 && (
+                <p className="text-xs text-gray-500">{s.qualifications.join(", ")}</p>
+              )}
+              <p className="text-xs text-gray-500">
+                {s.registrationNumber ? `Reg. No: ${s.registrationNumber}` : "Pathologist"}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="mt-6 pt-2 border-t border-gray-200 flex justify-between text-xs text-gray-500">
+          <span>{letterhead.footerNote || "This is an electronically verified report."}</span>
+          <span>*** End of Report ***</span>
+        </div>
+
+        {/* Print Instructions (non-print) */}
+        <div className="mt-8 text-center no-print">
+          <p className="text-sm text-gray-500 mb-2">
+            This page will automatically print. If it doesn&apos;t, click the button below.
+          </p>
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+          >
+            Print Report
+          </button>
+          <a
+            href={`/api/lab/orders/${orderId}/report/pdf`}
+            className="ml-2 inline-block px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition"
+          >
+            Download PDF
+          </a>
+          <button
+            onClick={handleArchive}
+            disabled={archiving}
+            className="ml-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50"
+          >
+            {archiving ? "Archiving..." : "Archive to Patient Documents"}
+          </button>
+          <button
+            onClick={() => window.close()}
+            className="ml-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition"
+          >
+            Close
+          </button>
+          {archiveMessage && <p className="mt-2 text-sm text-gray-600">{archiveMessage}</p>}
+        </div>
+      </div>
+    </>
+  );
+}
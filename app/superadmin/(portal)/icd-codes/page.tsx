@@ -0,0 +1,179 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Upload } from "lucide-react";
+
+type IcdCode = {
+  id: string;
+  code: string;
+  description: string;
+  chapter: string;
+  chapterTitle: string | null;
+  isBillable: boolean;
+  isActive: boolean;
+};
+
+type ImportResult = {
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: Array<{ row: number; message: string }>;
+};
+
+export default function SuperAdminIcdCodesPage() {
+  const [codes, setCodes] = useState<IcdCode[]>([]);
+  const [search, setSearch] = useState("");
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState("");
+
+  const loadCodes = useCallback(async (append: boolean, fromCursor: string | null) => {
+    const params = new URLSearchParams();
+    if (search) params.set("search", search);
+    if (append && fromCursor) params.set("cursor", fromCursor);
+    try {
+      const res = await fetch(`/api/superadmin/icd-codes?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to load codes");
+        return;
+      }
+      setCodes((prev) => (append ? [...prev, ...data.data] : data.data));
+      setCursor(data.pagination.cursor);
+      setHasMore(data.pagination.hasMore);
+    } catch {
+      setError("Something went wrong");
+    }
+  }, [search]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadCodes(false, null), 300);
+    return () => clearTimeout(timer);
+  }, [loadCodes]);
+
+  async function handleImport(e: React.FormEvent) {
+    e.preventDefault();
+    if (!file) return;
+    setError("");
+    setImportResult(null);
+    setImporting(true);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/superadmin/icd-codes", { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Import failed");
+      } else {
+        setImportResult(data);
+        setFile(null);
+        loadCodes(false, null);
+      }
+    } catch {
+      setError("Something went wrong");
+    }
+    setImporting(false);
+  }
+
+  return (
+    <div>
+      <h1 className="text-2xl font-semibold text-slate-900">ICD-10 Codes</h1>
+      <p className="mt-1 text-slate-600">Diagnosis code master shared by all tenants</p>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Import from CSV</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleImport} className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="icd-file">CSV file</Label>
+              <Input
+                id="icd-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <Button type="submit" disabled={!file || importing}>
+              <Upload className="h-4 w-4" />
+              {importing ? "Importing..." : "Import"}
+            </Button>
+          </form>
+          <p className="mt-2 text-xs text-slate-500">
+            Columns: code, description (required); chapter, chapter_title, block, billable, active (optional).
+            Existing codes are updated; chapter is derived from the code when omitted.
+          </p>
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+          {importResult && (
+            <div className="mt-3 text-sm text-slate-700">
+              <p>
+                {importResult.total} rows · {importResult.created} created · {importResult.updated} updated · {importResult.skipped} skipped
+              </p>
+              {importResult.errors.length > 0 && (
+                <ul className="mt-1 max-h-32 overflow-y-auto text-xs text-red-600">
+                  {importResult.errors.slice(0, 50).map((err) => (
+                    <li key={err.row}>Row {err.row}: {err.message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="mt-6 flex items-center gap-4">
+        <Input
+          placeholder="Search code or description"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="max-w-sm"
+        />
+      </div>
+
+      <div className="mt-4 overflow-hidden rounded-lg border border-slate-200 bg-white">
+        <table className="min-w-full divide-y divide-slate-200">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-slate-500">Code</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-slate-500">Description</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-slate-500">Chapter</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-slate-500">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {codes.map((c) => (
+              <tr key={c.id} className="hover:bg-slate-50">
+                <td className="whitespace-nowrap px-4 py-3 font-mono text-sm font-medium text-slate-900">{c.code}</td>
+                <td className="px-4 py-3 text-sm text-slate-900">{c.description}</td>
+                <td className="whitespace-nowrap px-4 py-3 text-sm text-slate-600">{c.chapter}</td>
+                <td className="whitespace-nowrap px-4 py-3">
+                  {c.isActive ? <Badge variant="default">Active</Badge> : <Badge variant="destructive">Inactive</Badge>}
+                </td>
+              </tr>
+            ))}
+            {codes.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-4 py-6 text-center text-sm text-slate-500">No codes found</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {hasMore && (
+        <div className="mt-4 text-center">
+          <Button variant="outline" onClick={() => loadCodes(true, cursor)}>Load more</Button>
+        </div>
+      )}
+    </div>
+  );
+}
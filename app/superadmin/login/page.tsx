@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { PasswordInput } from "@/components/ui/PasswordInput";
@@ -10,6 +10,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { TwoFactorChallenge, type TwoFactorRequest } from "@/components/auth/TwoFactorChallenge";
 
 export default function SuperAdminLoginPage() {
   const router = useRouter();
@@ -17,6 +18,7 @@ export default function SuperAdminLoginPage() {
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
+  const [twoFactorRequest, setTwoFactorRequest] = useState<TwoFactorRequest | null>(null);
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -40,6 +42,12 @@ export default function SuperAdminLoginPage() {
         setLoading(false);
         return;
       }
+      if (data.twoFactorRequired) {
+        setTwoFactorRequest({ mode: data.mode, pendingToken: data.pendingToken });
+        setPassword("");
+        setLoading(false);
+        return;
+      }
       router.push(data.redirect ?? "/superadmin/dashboard");
       router.refresh();
     } catch {
@@ -48,6 +56,19 @@ export default function SuperAdminLoginPage() {
     }
   }
 
+  const handleTwoFactorComplete = useCallback(
+    (data: Record<string, unknown>) => {
+      router.push((data.redirect as string | undefined) ?? "/superadmin/dashboard");
+      router.refresh();
+    },
+    [router]
+  );
+
+  const handleTwoFactorExpired = useCallback((message: string) => {
+    setTwoFactorRequest(null);
+    setError(message);
+  }, []);
+
   return (
     <div className="relative min-h-screen flex items-center justify-center bg-slate-50 overflow-hidden">
       <img
@@ -70,45 +91,53 @@ export default function SuperAdminLoginPage() {
               <h1 className="text-2xl font-bold text-primary mb-1">Super Admin Login</h1>
               <p className="text-sm text-gray-500">Platform administration</p>
             </div>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="username">Username</Label>
-                <Input
-                  id="username"
-                  type="text"
-                  placeholder="superadmin"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  disabled={loading}
-                  autoComplete="username"
-                  className="border-slate-300 focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <PasswordInput
-                  id="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  disabled={loading}
-                  autoComplete="current-password"
-                />
-              </div>
-              {error && (
-                <motion.p
-                  className="text-sm text-red-600 mt-2"
-                  role="alert"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={{ duration: 0.3 }}
-                >
-                  {error}
-                </motion.p>
-              )}
-              <Button type="submit" className="w-full mt-2" disabled={loading}>
-                {loading ? "Signing in…" : "Sign in"}
-              </Button>
-            </form>
+            {twoFactorRequest ? (
+              <TwoFactorChallenge
+                request={twoFactorRequest}
+                onComplete={handleTwoFactorComplete}
+                onExpired={handleTwoFactorExpired}
+              />
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="username">Username</Label>
+                  <Input
+                    id="username"
+                    type="text"
+                    placeholder="superadmin"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    disabled={loading}
+                    autoComplete="username"
+                    className="border-slate-300 focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <PasswordInput
+                    id="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={loading}
+                    autoComplete="current-password"
+                  />
+                </div>
+                {error && (
+                  <motion.p
+                    className="text-sm text-red-600 mt-2"
+                    role="alert"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ duration: 0.3 }}
+                  >
+                    {error}
+                  </motion.p>
+                )}
+                <Button type="submit" className="w-full mt-2" disabled={loading}>
+                  {loading ? "Signing in…" : "Sign in"}
+                </Button>
+              </form>
+            )}
             <p className="mt-6 text-center text-xs text-gray-500">
               <a href="/login" className="underline hover:text-primary transition">
                 Tenant login
@@ -0,0 +1,243 @@
+"use client";
+
+/**
+ * Affected Appointments Dialog
+ *
+ * Lists appointments that fall inside a doctor leave, block or holiday and
+ * bulk cancels or reschedules the selected ones.
+ */
+
+import React, { useState, useEffect } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiClient } from "@/lib/api-client";
+import { AlertCircle, CheckCircle2 } from "lucide-react";
+
+export interface AffectedAppointment {
+  id: string;
+  tokenNumber: number | null;
+  appointmentDate: string;
+  appointmentTime: string | null;
+  status: string;
+  patient: { id: string; uhid: string; firstName: string; lastName: string | null; phoneNumber: string | null };
+  doctorMaster: { id: string; fullName: string } | null;
+  department: { id: string; name: string } | null;
+}
+
+interface BulkActionResult {
+  succeeded: Array<{ appointmentId: string; newDate?: string; newTime?: string }>;
+  failed: Array<{ appointmentId: string; reason: string }>;
+}
+
+interface AffectedAppointmentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  appointments: AffectedAppointment[];
+  defaultReason?: string;
+  onDone?: () => void;
+}
+
+export default function AffectedAppointmentsDialog({
+  open,
+  onOpenChange,
+  title,
+  appointments,
+  defaultReason = "",
+  onDone,
+}: AffectedAppointmentsDialogProps) {
+  const { addToast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [action, setAction] = useState<"RESCHEDULE" | "CANCEL">("RESCHEDULE");
+  const [reason, setReason] = useState(defaultReason);
+  const [newDate, setNewDate] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<BulkActionResult | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(appointments.map((a) => a.id));
+      setAction("RESCHEDULE");
+      setReason(defaultReason);
+      setNewDate("");
+      setResult(null);
+    }
+  }, [open, appointments, defaultReason]);
+
+  const toggleAppointment = (id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  };
+
+  const handleSubmit = async () => {
+    if (selectedIds.length === 0) return;
+    if (!reason.trim()) {
+      addToast("error", "Please enter a reason");
+      return;
+    }
+    if (action === "RESCHEDULE" && !newDate) {
+      addToast("error", "Please select the new date");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const data: BulkActionResult = await apiClient.post("/api/appointments/bulk-action", {
+        appointmentIds: selectedIds,
+        action,
+        reason,
+        ...(action === "RESCHEDULE" && { newDate }),
+      });
+
+      setResult(data);
+      setSelectedIds((ids) => ids.filter((id) => !data.succeeded.some((s) => s.appointmentId === id)));
+      const verb = action === "CANCEL" ? "cancelled" : "rescheduled";
+      if (data.failed.length === 0) {
+        addToast("success", `${data.succeeded.length} appointment(s) ${verb}`);
+      } else {
+        addToast("error", `${data.succeeded.length} ${verb}, ${data.failed.length} could not be updated`);
+      }
+      onDone?.();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to update appointments";
+      addToast("error", message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const failedReason = (id: string) => result?.failed.find((f) => f.appointmentId === id)?.reason;
+  const succeeded = (id: string) => result?.succeeded.find((s) => s.appointmentId === id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {appointments.length === 0
+              ? "No upcoming appointments are affected."
+              : `${appointments.length} upcoming appointment(s) fall in this period. Reschedule or cancel them now, or later from the schedule list.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {appointments.length > 0 && (
+          <div className="space-y-4">
+            <div className="max-h-64 overflow-y-auto rounded-lg border divide-y text-sm">
+              {appointments.map((apt) => {
+                const done = succeeded(apt.id);
+                const error = failedReason(apt.id);
+                return (
+                  <label key={apt.id} className="flex items-center gap-3 px-3 py-2 cursor-pointer">
+                    <Checkbox
+                      checked={selectedIds.includes(apt.id)}
+                      onCheckedChange={() => toggleAppointment(apt.id)}
+                      disabled={!!done}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium">
+                        {apt.patient.firstName} {apt.patient.lastName || ""}
+                        <span className="ml-2 text-xs text-muted-foreground">{apt.patient.uhid}</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(apt.appointmentDate).toLocaleDateString("en-IN")} {apt.appointmentTime || ""}
+                        {apt.doctorMaster && ` · Dr. ${apt.doctorMaster.fullName}`}
+                        {apt.patient.phoneNumber && ` · ${apt.patient.phoneNumber}`}
+                      </div>
+                      {error && <div className="text-xs text-destructive">{error}</div>}
+                    </div>
+                    {done ? (
+                      <Badge variant="outline" className="text-green-700 border-green-300">
+                        <CheckCircle2 className="h-3 w-3 mr-1" />
+                        {done.newTime ? `${done.newDate} ${done.newTime}` : "Cancelled"}
+                      </Badge>
+                    ) : error ? (
+                      <AlertCircle className="h-4 w-4 text-destructive" />
+                    ) : (
+                      <Badge variant="outline">{apt.status}</Badge>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select value={action} onValueChange={(val) => setAction(val as "RESCHEDULE" | "CANCEL")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="RESCHEDULE">Reschedule</SelectItem>
+                    <SelectItem value="CANCEL">Cancel</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {action === "RESCHEDULE" && (
+                <div className="space-y-2">
+                  <Label>New Date *</Label>
+                  <Input
+                    type="date"
+                    value={newDate}
+                    min={new Date().toISOString().split("T")[0]}
+                    onChange={(e) => setNewDate(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Reason *</Label>
+              <Input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Doctor on leave"
+              />
+              {action === "RESCHEDULE" && (
+                <p className="text-xs text-muted-foreground">
+                  Each appointment keeps its time on the new date if free, otherwise it takes the next free slot.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {result || appointments.length === 0 ? "Close" : "Later"}
+          </Button>
+          {appointments.length > 0 && (
+            <Button
+              variant={action === "CANCEL" ? "destructive" : "default"}
+              onClick={handleSubmit}
+              disabled={saving || selectedIds.length === 0}
+            >
+              {saving
+                ? "Updating..."
+                : `${action === "CANCEL" ? "Cancel" : "Reschedule"} ${selectedIds.length} appointment(s)`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,7 +7,7 @@
  * 1. Select Patient
  * 2. Select Department & Doctor
  * 3. Select Date & Time Slot
- * 4. Confirm Booking
+ * 4. Confirm Booking (optionally repeating as a series)
  */
 
 import React, { useState, useEffect, useCallback } from "react";
@@ -18,6 +18,7 @@ import { Drawer } from "@/components/ui/Drawer";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -27,6 +28,7 @@ import {
 } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { apiClient } from "@/lib/api-client";
+import { WAITLIST_PRIORITY_LABELS } from "@/components/appointments/AppointmentWaitlist";
 import {
   Calendar,
   Clock,
@@ -39,6 +41,9 @@ import {
   Loader2,
   AlertCircle,
   Search,
+  Hourglass,
+  Repeat,
+  XCircle,
 } from "lucide-react";
 
 // Types
@@ -103,6 +108,16 @@ interface AppointmentBookingDrawerProps {
 
 type BookingStep = "patient" | "doctor" | "slot" | "confirm";
 
+type RepeatFrequency = "NONE" | "DAILY" | "WEEKLY" | "MONTHLY";
+
+interface SeriesOccurrence {
+  index: number;
+  date: string;
+  time: string;
+  available: boolean;
+  reason?: string;
+}
+
 export default function AppointmentBookingDrawer({
   open,
   onClose,
@@ -131,6 +146,17 @@ export default function AppointmentBookingDrawer({
   const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
   const [chiefComplaint, setChiefComplaint] = useState<string>("");
   const [notes, setNotes] = useState<string>("");
+  const [bookingSource, setBookingSource] = useState<"RECEPTION" | "PHONE">("RECEPTION");
+  const [overbookReason, setOverbookReason] = useState<string>("");
+  const [canOverbook, setCanOverbook] = useState(false);
+  const [waitlistPriority, setWaitlistPriority] = useState<string>("3");
+  const [addingToWaitlist, setAddingToWaitlist] = useState(false);
+  const [repeatFrequency, setRepeatFrequency] = useState<RepeatFrequency>("NONE");
+  const [repeatInterval, setRepeatInterval] = useState<string>("1");
+  const [repeatCount, setRepeatCount] = useState<string>("8");
+  const [skipUnavailable, setSkipUnavailable] = useState(false);
+  const [seriesPreview, setSeriesPreview] = useState<SeriesOccurrence[] | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
 
   // Loading states
   const [loadingPatients, setLoadingPatients] = useState(false);
@@ -153,11 +179,28 @@ export default function AppointmentBookingDrawer({
       setSelectedSlot(null);
       setChiefComplaint("");
       setNotes("");
+      setBookingSource("RECEPTION");
+      setOverbookReason("");
+      setWaitlistPriority("3");
+      setRepeatFrequency("NONE");
+      setRepeatInterval("1");
+      setRepeatCount("8");
+      setSkipUnavailable(false);
+      setSeriesPreview(null);
       setPatientSearch("");
       fetchDepartments();
     }
   }, [open, preselectedPatient]);
 
+  // Overbooking full slots needs APPOINTMENT_OVERBOOK
+  useEffect(() => {
+    if (!open || isWalkIn) return;
+    apiClient
+      .get("/api/appointments/permissions?permission=APPOINTMENT_OVERBOOK")
+      .then((response) => setCanOverbook(!!response?.allowed))
+      .catch(() => setCanOverbook(false));
+  }, [open, isWalkIn]);
+
   // Fetch patients
   const fetchPatients = useCallback(async (search: string) => {
     if (!search || search.length < 2) {
@@ -310,12 +353,140 @@ export default function AppointmentBookingDrawer({
     }
   };
 
+  // A full slot can only be selected by users allowed to overbook
+  const isOverbooking = !isWalkIn && !!selectedSlot && !selectedSlot.isAvailable;
+  const sessionFull = !!slotData && (slotData.isDayFull || slotData.slots.every((s) => !s.isAvailable));
+
+  // Series are never overbooked; every date must fit the doctor's capacity
+  const isRepeating = !isWalkIn && !isOverbooking && repeatFrequency !== "NONE";
+  const seriesConflicts = seriesPreview?.filter((o) => !o.available).length ?? 0;
+  const seriesBlocked =
+    isRepeating && (!seriesPreview || (seriesConflicts > 0 && (!skipUnavailable || seriesConflicts === seriesPreview.length)));
+
+  const buildSeriesPayload = () => ({
+    patientId: selectedPatient?.id,
+    departmentId: selectedDepartment,
+    doctorId: selectedDoctor,
+    startDate: selectedDate,
+    appointmentTime: selectedSlot?.time,
+    slotEndTime: selectedSlot?.endTime,
+    frequency: repeatFrequency,
+    interval: Number(repeatInterval) || 1,
+    occurrences: Number(repeatCount) || 0,
+    bookingSource,
+    skipConflicts: skipUnavailable,
+    chiefComplaint,
+    notes,
+  });
+
+  // Check every date of the series up front
+  useEffect(() => {
+    if (currentStep !== "confirm" || !isRepeating || !selectedPatient || !selectedSlot) {
+      setSeriesPreview(null);
+      return;
+    }
+
+    const count = Number(repeatCount);
+    if (!count || count < 2) {
+      setSeriesPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingPreview(true);
+    apiClient
+      .post("/api/appointments/series/preview", {
+        patientId: selectedPatient.id,
+        departmentId: selectedDepartment,
+        doctorId: selectedDoctor,
+        startDate: selectedDate,
+        appointmentTime: selectedSlot.time,
+        frequency: repeatFrequency,
+        interval: Number(repeatInterval) || 1,
+        occurrences: count,
+      })
+      .then((data) => {
+        if (!cancelled) setSeriesPreview(data || []);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setSeriesPreview(null);
+        addToast("error", err instanceof Error ? err.message : "Failed to check series dates");
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingPreview(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    currentStep,
+    isRepeating,
+    selectedPatient,
+    selectedDepartment,
+    selectedDoctor,
+    selectedDate,
+    selectedSlot,
+    repeatFrequency,
+    repeatInterval,
+    repeatCount,
+    addToast,
+  ]);
+
+  const handleAddToWaitlist = async () => {
+    if (!selectedPatient || !selectedDepartment || !selectedDoctor) return;
+
+    setAddingToWaitlist(true);
+    try {
+      const response = await apiClient.post("/api/appointments/waitlist", {
+        patientId: selectedPatient.id,
+        departmentId: selectedDepartment,
+        doctorId: selectedDoctor,
+        preferredDate: selectedDate,
+        priority: Number(waitlistPriority),
+        notes: chiefComplaint || undefined,
+      });
+      addToast("success", `Added to waitlist (position ${response?.position ?? "-"})`);
+      onClose();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to add to waitlist";
+      addToast("error", message);
+    } finally {
+      setAddingToWaitlist(false);
+    }
+  };
+
   // Submit booking
   const handleSubmit = async () => {
     if (!selectedPatient || !selectedDepartment || !selectedDoctor || !selectedSlot) {
       addToast("error", "Please complete all required selections");
       return;
     }
+    if (isOverbooking && !overbookReason.trim()) {
+      addToast("error", "Please enter a reason for overbooking");
+      return;
+    }
+
+    if (isRepeating) {
+      setSubmitting(true);
+      try {
+        const response = await apiClient.post("/api/appointments/series", buildSeriesPayload());
+        const skipped = response?.skipped?.length ?? 0;
+        addToast(
+          "success",
+          `Booked ${response?.booked ?? 0} appointments${skipped > 0 ? `, skipped ${skipped} unavailable date(s)` : ""}`
+        );
+        onSuccess?.(response);
+        onClose();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to book series";
+        addToast("error", message);
+      } finally {
+        setSubmitting(false);
+      }
+      return;
+    }
 
     setSubmitting(true);
     try {
@@ -336,7 +507,9 @@ export default function AppointmentBookingDrawer({
             appointmentTime: selectedSlot.time,
             slotEndTime: selectedSlot.endTime,
             isWalkIn,
-            bookingSource: isWalkIn ? "WALKIN" : "RECEPTION",
+            bookingSource: isWalkIn ? "WALKIN" : bookingSource,
+            overbook: isOverbooking,
+            overbookReason: isOverbooking ? overbookReason : undefined,
             chiefComplaint,
             notes,
           };
@@ -376,7 +549,10 @@ export default function AppointmentBookingDrawer({
       </Button>
 
       {currentStep === "confirm" ? (
-        <Button onClick={handleSubmit} disabled={submitting}>
+        <Button
+          onClick={handleSubmit}
+          disabled={submitting || (isOverbooking && !overbookReason.trim()) || seriesBlocked || loadingPreview}
+        >
           {submitting ? (
             <>
               <Loader2 className="h-4 w-4 mr-2 animate-spin" />
@@ -385,7 +561,7 @@ export default function AppointmentBookingDrawer({
           ) : (
             <>
               <Check className="h-4 w-4 mr-2" />
-              Confirm Booking
+              {isRepeating ? "Book Series" : "Confirm Booking"}
             </>
           )}
         </Button>
@@ -610,9 +786,9 @@ export default function AppointmentBookingDrawer({
                         key={slot.time}
                         variant={selectedSlot?.time === slot.time ? "default" : "outline"}
                         size="sm"
-                        disabled={!slot.isAvailable}
+                        disabled={!slot.isAvailable && (isWalkIn || !canOverbook)}
                         className={`h-auto py-2 ${
-                          !slot.isAvailable ? "opacity-50" : ""
+                          !slot.isAvailable ? (canOverbook && !isWalkIn ? "border-amber-300" : "opacity-50") : ""
                         }`}
                         onClick={() => setSelectedSlot(slot)}
                       >
@@ -631,6 +807,55 @@ export default function AppointmentBookingDrawer({
                       No slots available for this date
                     </div>
                   )}
+
+                  {!isWalkIn && canOverbook && sessionFull && (
+                    <p className="text-xs text-amber-700">
+                      Full slots can be selected to overbook with a reason
+                    </p>
+                  )}
+
+                  {!isWalkIn && sessionFull && slotData.slots.length > 0 && (
+                    <Card className="border-amber-200 bg-amber-50">
+                      <CardContent className="p-4 space-y-3">
+                        <div className="flex items-center gap-2 text-sm font-medium text-amber-800">
+                          <Hourglass className="h-4 w-4" />
+                          Session fully booked
+                        </div>
+                        <p className="text-xs text-amber-700">
+                          Add the patient to the waitlist; they will be offered the first slot that frees up.
+                        </p>
+                        <div className="flex items-end gap-2">
+                          <div className="space-y-1 flex-1">
+                            <Label className="text-xs">Priority</Label>
+                            <Select value={waitlistPriority} onValueChange={setWaitlistPriority}>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(WAITLIST_PRIORITY_LABELS).map(([value, label]) => (
+                                  <SelectItem key={value} value={value}>
+                                    {label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <Button
+                            variant="outline"
+                            onClick={handleAddToWaitlist}
+                            disabled={addingToWaitlist || !selectedPatient}
+                          >
+                            {addingToWaitlist ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <Hourglass className="h-4 w-4 mr-2" />
+                            )}
+                            Add to Waitlist
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  )}
                 </div>
               ) : selectedDoctor ? (
                 <div className="text-center py-8 text-muted-foreground flex flex-col items-center gap-2">
@@ -682,6 +907,137 @@ export default function AppointmentBookingDrawer({
                 </CardContent>
               </Card>
 
+              {isOverbooking && (
+                <div className="space-y-2 rounded-lg border border-amber-200 bg-amber-50 p-3">
+                  <p className="text-sm font-medium text-amber-800">
+                    This slot is full. The appointment will be recorded as overbooked.
+                  </p>
+                  <Label>Reason for overbooking *</Label>
+                  <Textarea
+                    placeholder="e.g. Post-operative review, doctor approved"
+                    value={overbookReason}
+                    onChange={(e) => setOverbookReason(e.target.value)}
+                    rows={2}
+                  />
+                </div>
+              )}
+
+              {!isWalkIn && !isOverbooking && (
+                <div className="space-y-3 rounded-lg border p-3">
+                  <div className="flex items-center gap-2">
+                    <Repeat className="h-4 w-4 text-muted-foreground" />
+                    <Label>Repeat</Label>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <Select
+                      value={repeatFrequency}
+                      onValueChange={(value) => setRepeatFrequency(value as RepeatFrequency)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="NONE">Does not repeat</SelectItem>
+                        <SelectItem value="DAILY">Daily</SelectItem>
+                        <SelectItem value="WEEKLY">Weekly</SelectItem>
+                        <SelectItem value="MONTHLY">Monthly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {repeatFrequency !== "NONE" && (
+                      <>
+                        <div className="flex items-center gap-1">
+                          <span className="text-xs text-muted-foreground">Every</span>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={12}
+                            value={repeatInterval}
+                            onChange={(e) => setRepeatInterval(e.target.value)}
+                          />
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Input
+                            type="number"
+                            min={2}
+                            max={52}
+                            value={repeatCount}
+                            onChange={(e) => setRepeatCount(e.target.value)}
+                          />
+                          <span className="text-xs text-muted-foreground">times</span>
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  {isRepeating && (
+                    <>
+                      {loadingPreview ? (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Checking dates...
+                        </div>
+                      ) : seriesPreview ? (
+                        <div className="max-h-48 overflow-y-auto divide-y rounded border text-sm">
+                          {seriesPreview.map((occurrence) => (
+                            <div key={occurrence.index} className="flex items-center gap-2 px-3 py-1.5">
+                              {occurrence.available ? (
+                                <Check className="h-4 w-4 text-green-600" />
+                              ) : (
+                                <XCircle className="h-4 w-4 text-red-500" />
+                              )}
+                              <span className="w-6 text-muted-foreground">{occurrence.index}</span>
+                              <span className="font-medium">
+                                {new Date(occurrence.date).toLocaleDateString("en-IN", {
+                                  weekday: "short",
+                                  day: "numeric",
+                                  month: "short",
+                                  year: "numeric",
+                                })}
+                              </span>
+                              <span className="text-muted-foreground">{occurrence.time}</span>
+                              {occurrence.reason && (
+                                <span className="ml-auto text-xs text-red-600">{occurrence.reason}</span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ) : null}
+
+                      {seriesConflicts > 0 && (
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id="skipUnavailable"
+                            checked={skipUnavailable}
+                            onCheckedChange={setSkipUnavailable}
+                          />
+                          <Label htmlFor="skipUnavailable" className="text-sm font-normal">
+                            Skip {seriesConflicts} unavailable date(s) and book the rest
+                          </Label>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
+              {!isWalkIn && (
+                <div className="space-y-2">
+                  <Label>Booked Via</Label>
+                  <Select
+                    value={bookingSource}
+                    onValueChange={(value) => setBookingSource(value as "RECEPTION" | "PHONE")}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="RECEPTION">Reception (in person)</SelectItem>
+                      <SelectItem value="PHONE">Phone call</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label>Chief Complaint (optional)</Label>
                 <Textarea
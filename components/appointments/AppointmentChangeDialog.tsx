@@ -0,0 +1,190 @@
+"use client";
+
+/**
+ * Appointment Change Dialog
+ *
+ * Cancel or reschedule a single appointment. For occurrences of a recurring
+ * series the user chooses whether the change applies to this appointment,
+ * this and the following ones, or the whole series.
+ */
+
+import React, { useState, useEffect } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiClient } from "@/lib/api-client";
+
+// Types
+export type SeriesScope = "THIS" | "FOLLOWING" | "ALL";
+
+export interface ChangeableAppointment {
+  id: string;
+  appointmentDate: string;
+  appointmentTime: string | null;
+  seriesId?: string | null;
+  seriesIndex?: number | null;
+  patient: { firstName: string; lastName: string | null };
+}
+
+const SCOPE_OPTIONS: { value: SeriesScope; label: string }[] = [
+  { value: "THIS", label: "This appointment" },
+  { value: "FOLLOWING", label: "This and following appointments" },
+  { value: "ALL", label: "All appointments in the series" },
+];
+
+export function SeriesScopeSelect({
+  value,
+  onChange,
+}: {
+  value: SeriesScope;
+  onChange: (scope: SeriesScope) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label>Apply to</Label>
+      {SCOPE_OPTIONS.map((option) => (
+        <label key={option.value} className="flex items-center gap-2 text-sm">
+          <input
+            type="radio"
+            name="series-scope"
+            value={option.value}
+            checked={value === option.value}
+            onChange={() => onChange(option.value)}
+          />
+          {option.label}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+interface AppointmentChangeDialogProps {
+  appointment: ChangeableAppointment | null;
+  mode: "cancel" | "reschedule";
+  onClose: () => void;
+  onDone: () => void;
+}
+
+export default function AppointmentChangeDialog({
+  appointment,
+  mode,
+  onClose,
+  onDone,
+}: AppointmentChangeDialogProps) {
+  const { addToast } = useToast();
+  const [scope, setScope] = useState<SeriesScope>("THIS");
+  const [reason, setReason] = useState("");
+  const [newDate, setNewDate] = useState("");
+  const [newTime, setNewTime] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (appointment) {
+      setScope("THIS");
+      setReason("");
+      setNewDate(new Date(appointment.appointmentDate).toISOString().split("T")[0]);
+      setNewTime(appointment.appointmentTime || "");
+    }
+  }, [appointment]);
+
+  const isCancel = mode === "cancel";
+  const canSubmit = isCancel ? !!reason.trim() : !!newDate && !!newTime;
+
+  const handleSubmit = async () => {
+    if (!appointment || !canSubmit) return;
+
+    setSubmitting(true);
+    try {
+      const payload = isCancel
+        ? { scope, cancelReason: reason }
+        : { scope, newDate, newTime, reason: reason || undefined };
+      const response = await apiClient.post(`/api/appointments/${appointment.id}/${mode}`, payload);
+
+      const changed = response?.succeeded?.length;
+      const failed = response?.failed?.length ?? 0;
+      if (failed > 0) {
+        addToast("error", `${changed} updated, ${failed} could not be changed`);
+      } else {
+        addToast(
+          "success",
+          changed
+            ? `${changed} appointment(s) ${isCancel ? "cancelled" : "rescheduled"}`
+            : `Appointment ${isCancel ? "cancelled" : "rescheduled"}`
+        );
+      }
+      onDone();
+      onClose();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : `Failed to ${mode} appointment`;
+      addToast("error", message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!appointment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isCancel ? "Cancel Appointment" : "Reschedule Appointment"}</DialogTitle>
+          <DialogDescription>
+            {appointment &&
+              `${appointment.patient.firstName} ${appointment.patient.lastName || ""} · ${new Date(
+                appointment.appointmentDate
+              ).toLocaleDateString("en-IN")} ${appointment.appointmentTime || ""}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {appointment?.seriesId && <SeriesScopeSelect value={scope} onChange={setScope} />}
+
+          {!isCancel && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>New Date</Label>
+                <Input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>New Time</Label>
+                <Input type="time" value={newTime} onChange={(e) => setNewTime(e.target.value)} />
+              </div>
+              {appointment?.seriesId && scope !== "THIS" && (
+                <p className="col-span-2 text-xs text-muted-foreground">
+                  Other appointments move by the same number of days and take the new time
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{isCancel ? "Reason *" : "Reason (optional)"}</Label>
+            <Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={3} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            variant={isCancel ? "destructive" : "default"}
+            onClick={handleSubmit}
+            disabled={!canSubmit || submitting}
+          >
+            {isCancel ? "Cancel Appointment" : "Reschedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,334 @@
+"use client";
+
+/**
+ * Appointment Reconciliation Component
+ *
+ * End-of-day runs that mark unattended appointments NO_SHOW and close stale
+ * WAITING visits. Admins review each run and undo selected changes.
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiClient } from "@/lib/api-client";
+import { ClipboardCheck, Play, Undo2 } from "lucide-react";
+
+// Types
+interface ReconciliationSettings {
+  enabled: boolean;
+  cutoffTime: string;
+}
+
+interface Reconciliation {
+  id: string;
+  businessDate: string;
+  cutoffTime: string;
+  status: "COMPLETED" | "PARTIALLY_UNDONE" | "UNDONE";
+  noShowCount: number;
+  closedVisitCount: number;
+  undoneCount: number;
+  triggeredBy: string | null;
+  createdAt: string;
+}
+
+interface ReconciliationItem {
+  id: string;
+  entityType: "APPOINTMENT" | "VISIT";
+  previousStatus: string;
+  newStatus: string;
+  patientName: string;
+  patientUhid: string;
+  doctorName: string | null;
+  scheduledDate: string;
+  scheduledTime: string | null;
+  undoneAt: string | null;
+}
+
+interface UndoResult {
+  restored: string[];
+  failed: Array<{ itemId: string; reason: string }>;
+}
+
+const STATUS_LABELS: Record<Reconciliation["status"], string> = {
+  COMPLETED: "Completed",
+  PARTIALLY_UNDONE: "Partially undone",
+  UNDONE: "Undone",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short", year: "numeric" });
+
+export default function AppointmentReconciliation() {
+  const { addToast } = useToast();
+  const [settings, setSettings] = useState<ReconciliationSettings>({ enabled: true, cutoffTime: "21:00" });
+  const [runs, setRuns] = useState<Reconciliation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [runDate, setRunDate] = useState("");
+
+  const [selectedRun, setSelectedRun] = useState<Reconciliation | null>(null);
+  const [items, setItems] = useState<ReconciliationItem[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [failures, setFailures] = useState<UndoResult["failed"]>([]);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [settingsData, runsData] = await Promise.all([
+        apiClient.get("/api/appointments/reconciliations/settings"),
+        apiClient.get("/api/appointments/reconciliations?limit=30"),
+      ]);
+      setSettings(settingsData);
+      setRuns(runsData?.items || []);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to load reconciliation";
+      addToast("error", message);
+    } finally {
+      setLoading(false);
+    }
+  }, [addToast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleSaveSettings = async () => {
+    setSaving(true);
+    try {
+      await apiClient.put("/api/appointments/reconciliations/settings", settings);
+      addToast("success", "Reconciliation settings saved");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to save settings";
+      addToast("error", message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    setSaving(true);
+    try {
+      const run: Reconciliation = await apiClient.post(
+        "/api/appointments/reconciliations",
+        runDate ? { date: runDate } : {}
+      );
+      addToast("success", `Reconciled: ${run.noShowCount} no-show(s), ${run.closedVisitCount} visit(s) closed`);
+      fetchData();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to run reconciliation";
+      addToast("error", message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const loadRun = async (run: Reconciliation) => {
+    try {
+      const data: Reconciliation & { items: ReconciliationItem[] } = await apiClient.get(
+        `/api/appointments/reconciliations/${run.id}`
+      );
+      setItems(data.items);
+      setSelectedRun(data);
+      setSelectedIds([]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to load reconciliation";
+      addToast("error", message);
+    }
+  };
+
+  const toggleItem = (id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  };
+
+  const handleUndo = async () => {
+    if (!selectedRun || selectedIds.length === 0) return;
+
+    setSaving(true);
+    try {
+      const result: UndoResult = await apiClient.post(
+        `/api/appointments/reconciliations/${selectedRun.id}/undo`,
+        { itemIds: selectedIds }
+      );
+
+      setFailures(result.failed);
+      if (result.failed.length === 0) {
+        addToast("success", `${result.restored.length} change(s) undone`);
+      } else {
+        addToast("error", `${result.restored.length} undone, ${result.failed.length} could not be undone`);
+      }
+      await loadRun(selectedRun);
+      fetchData();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to undo changes";
+      addToast("error", message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const failureReason = (id: string) => failures.find((f) => f.itemId === id)?.reason;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">End-of-Day Reconciliation</h3>
+        <p className="text-sm text-muted-foreground">
+          After the cutoff, unattended appointments are marked no-show and waiting visits are closed
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 flex flex-wrap items-end gap-4">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={settings.enabled}
+              onCheckedChange={(checked) => setSettings((s) => ({ ...s, enabled: checked === true }))}
+            />
+            Run automatically
+          </label>
+          <div className="space-y-2">
+            <Label>Cutoff Time</Label>
+            <Input
+              type="time"
+              value={settings.cutoffTime}
+              onChange={(e) => setSettings((s) => ({ ...s, cutoffTime: e.target.value }))}
+              className="w-32"
+            />
+          </div>
+          <Button variant="outline" onClick={handleSaveSettings} disabled={saving}>
+            Save
+          </Button>
+
+          <div className="ml-auto flex items-end gap-2">
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input
+                type="date"
+                value={runDate}
+                max={new Date().toISOString().split("T")[0]}
+                onChange={(e) => setRunDate(e.target.value)}
+                className="w-40"
+              />
+            </div>
+            <Button onClick={handleRunNow} disabled={saving}>
+              <Play className="h-4 w-4 mr-2" />
+              Run Now
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0 divide-y">
+          {loading ? (
+            <div className="flex items-center justify-center p-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : runs.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground text-sm">
+              No reconciliation runs yet
+            </div>
+          ) : (
+            runs.map((run) => (
+              <div key={run.id} className="flex items-center gap-3 px-4 py-3 text-sm">
+                <ClipboardCheck className="h-4 w-4 text-slate-500" />
+                <div className="flex-1">
+                  <div className="font-medium">{formatDate(run.businessDate)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {run.noShowCount} no-show(s) · {run.closedVisitCount} visit(s) closed
+                    {run.undoneCount > 0 && ` · ${run.undoneCount} undone`}
+                    {` · ${run.triggeredBy ? "Manual" : `Scheduled at ${run.cutoffTime}`}`}
+                  </div>
+                </div>
+                <Badge variant="outline">{STATUS_LABELS[run.status]}</Badge>
+                <Button variant="ghost" size="sm" onClick={() => {
+                    setFailures([]);
+                    loadRun(run);
+                  }}>
+                  Review
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Review Dialog */}
+      <Dialog open={!!selectedRun} onOpenChange={(open) => !open && setSelectedRun(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Reconciliation for {selectedRun && formatDate(selectedRun.businessDate)}</DialogTitle>
+            <DialogDescription>
+              Select changes to undo. A change is skipped if the appointment or visit was updated afterwards.
+            </DialogDescription>
+          </DialogHeader>
+
+          {items.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground text-sm">
+              Nothing was changed in this run
+            </div>
+          ) : (
+            <div className="max-h-80 overflow-y-auto rounded-lg border divide-y text-sm">
+              {items.map((item) => {
+                const error = failureReason(item.id);
+                return (
+                  <label key={item.id} className="flex items-center gap-3 px-3 py-2 cursor-pointer">
+                    <Checkbox
+                      checked={selectedIds.includes(item.id)}
+                      onCheckedChange={() => toggleItem(item.id)}
+                      disabled={!!item.undoneAt}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium">
+                        {item.patientName}
+                        <span className="ml-2 text-xs text-muted-foreground">{item.patientUhid}</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {item.entityType === "APPOINTMENT" ? "Appointment" : "Visit"} ·{" "}
+                        {new Date(item.scheduledDate).toLocaleDateString("en-IN")} {item.scheduledTime || ""}
+                        {item.doctorName && ` · Dr. ${item.doctorName}`}
+                      </div>
+                      {error && <div className="text-xs text-destructive">{error}</div>}
+                    </div>
+                    {item.undoneAt ? (
+                      <Badge variant="outline">Restored to {item.previousStatus}</Badge>
+                    ) : (
+                      <Badge variant="outline">
+                        {item.previousStatus} → {item.newStatus}
+                      </Badge>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedRun(null)}>
+              Close
+            </Button>
+            {items.length > 0 && (
+              <Button onClick={handleUndo} disabled={saving || selectedIds.length === 0}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                {saving ? "Undoing..." : `Undo ${selectedIds.length} change(s)`}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
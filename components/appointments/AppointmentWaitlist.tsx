@@ -0,0 +1,244 @@
+"use client";
+
+/**
+ * Appointment Waitlist Component
+ *
+ * Patients waiting for fully booked doctor sessions. Freed slots are offered
+ * automatically; reception books the offer after speaking to the patient, or
+ * declines it to pass the slot to the next patient.
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiClient } from "@/lib/api-client";
+import { CalendarCheck, Hourglass, RefreshCw, X } from "lucide-react";
+
+// Types
+interface WaitlistEntry {
+  id: string;
+  preferredDate: string;
+  preferredTimeFrom: string | null;
+  preferredTimeTo: string | null;
+  priority: number;
+  notes: string | null;
+  status: "WAITING" | "OFFERED" | "BOOKED" | "EXPIRED" | "CANCELLED";
+  offeredTime: string | null;
+  offerExpiresAt: string | null;
+  declinedCount: number;
+  createdAt: string;
+  patient: { id: string; uhid: string; firstName: string; lastName: string | null; primaryMobile: string };
+  doctor: { id: string; fullName: string };
+  department: { id: string; name: string };
+}
+
+export const WAITLIST_PRIORITY_LABELS: Record<number, string> = {
+  1: "Urgent",
+  2: "High",
+  3: "Normal",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short" });
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit" });
+
+export default function AppointmentWaitlist() {
+  const { addToast } = useToast();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [date, setDate] = useState("");
+  const [actionId, setActionId] = useState<string | null>(null);
+
+  const [removeTarget, setRemoveTarget] = useState<WaitlistEntry | null>(null);
+  const [removeReason, setRemoveReason] = useState("");
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await apiClient.get(`/api/appointments/waitlist${date ? `?date=${date}` : ""}`);
+      setEntries(data || []);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to load waitlist";
+      addToast("error", message);
+    } finally {
+      setLoading(false);
+    }
+  }, [date, addToast]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const runAction = async (entry: WaitlistEntry, action: "book" | "decline", successMessage: string) => {
+    setActionId(entry.id);
+    try {
+      await apiClient.post(`/api/appointments/waitlist/${entry.id}/${action}`, {});
+      addToast("success", successMessage);
+      fetchEntries();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Action failed";
+      addToast("error", message);
+      fetchEntries();
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removeTarget || !removeReason.trim()) return;
+
+    setActionId(removeTarget.id);
+    try {
+      await apiClient.post(`/api/appointments/waitlist/${removeTarget.id}/cancel`, { reason: removeReason });
+      addToast("success", "Removed from waitlist");
+      setRemoveTarget(null);
+      setRemoveReason("");
+      fetchEntries();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to remove from waitlist";
+      addToast("error", message);
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const preferredWindow = (entry: WaitlistEntry) => {
+    if (!entry.preferredTimeFrom && !entry.preferredTimeTo) return "Any time";
+    return `${entry.preferredTimeFrom || "Start"} – ${entry.preferredTimeTo || "End"}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">Waitlist</h3>
+          <p className="text-sm text-muted-foreground">
+            Freed slots are held for the first patient in line by priority; book or decline the offer after calling them
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-40" />
+          </div>
+          <Button variant="outline" size="icon" onClick={fetchEntries} title="Refresh">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0 divide-y">
+          {loading ? (
+            <div className="flex items-center justify-center p-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground text-sm">Nobody is waiting</div>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="flex items-center gap-3 px-4 py-3 text-sm">
+                <Hourglass className="h-4 w-4 text-slate-500" />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">
+                    {entry.patient.firstName} {entry.patient.lastName || ""}
+                    <span className="ml-2 text-xs text-muted-foreground">{entry.patient.uhid}</span>
+                    <span className="ml-2 text-xs text-muted-foreground">{entry.patient.primaryMobile}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Dr. {entry.doctor.fullName} · {entry.department.name} · {formatDate(entry.preferredDate)} ·{" "}
+                    {preferredWindow(entry)}
+                    {entry.declinedCount > 0 && ` · ${entry.declinedCount} offer(s) missed`}
+                  </div>
+                  {entry.notes && <div className="text-xs text-muted-foreground">{entry.notes}</div>}
+                </div>
+                <Badge variant={entry.priority === 1 ? "destructive" : "outline"}>
+                  {WAITLIST_PRIORITY_LABELS[entry.priority]}
+                </Badge>
+                {entry.status === "OFFERED" && entry.offeredTime ? (
+                  <>
+                    <Badge variant="secondary">
+                      Offered {entry.offeredTime}
+                      {entry.offerExpiresAt && ` · until ${formatTime(entry.offerExpiresAt)}`}
+                    </Badge>
+                    <Button
+                      size="sm"
+                      onClick={() => runAction(entry, "book", `Booked ${entry.offeredTime} for ${entry.patient.firstName}`)}
+                      disabled={actionId === entry.id}
+                    >
+                      <CalendarCheck className="h-4 w-4 mr-1" />
+                      Book
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => runAction(entry, "decline", "Offer passed to the next patient")}
+                      disabled={actionId === entry.id}
+                    >
+                      Decline
+                    </Button>
+                  </>
+                ) : (
+                  <Badge variant="outline">Waiting</Badge>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRemoveTarget(entry)}
+                  disabled={actionId === entry.id}
+                  title="Remove from waitlist"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Remove Dialog */}
+      <Dialog open={!!removeTarget} onOpenChange={(open) => !open && setRemoveTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove from Waitlist</DialogTitle>
+            <DialogDescription>
+              {removeTarget &&
+                `${removeTarget.patient.firstName} ${removeTarget.patient.lastName || ""} · Dr. ${removeTarget.doctor.fullName} · ${formatDate(removeTarget.preferredDate)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Textarea value={removeReason} onChange={(e) => setRemoveReason(e.target.value)} rows={3} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRemoveTarget(null)}>
+              Close
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleRemove}
+              disabled={!removeReason.trim() || actionId === removeTarget?.id}
+            >
+              Remove
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
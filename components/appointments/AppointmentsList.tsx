@@ -3,7 +3,8 @@
 /**
  * All Appointments List Component
  * 
- * Displays a searchable, filterable table of all appointments
+ * Displays a searchable, filterable table of all appointments.
+ * Open appointments can be cancelled or rescheduled from the table.
  */
 
 import React, { useState, useEffect, useCallback } from "react";
@@ -28,13 +29,17 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { apiClient } from "@/lib/api-client";
+import AppointmentChangeDialog from "@/components/appointments/AppointmentChangeDialog";
 import {
   Search,
   Calendar,
+  CalendarClock,
   Loader2,
   ChevronLeft,
   ChevronRight,
   RefreshCw,
+  Repeat,
+  X,
 } from "lucide-react";
 
 // Types
@@ -45,6 +50,8 @@ interface Appointment {
   appointmentTime: string | null;
   status: string;
   isWalkIn: boolean;
+  seriesId: string | null;
+  seriesIndex: number | null;
   chiefComplaint: string | null;
   createdAt: string;
   patient: {
@@ -83,6 +90,9 @@ const STATUS_COLORS: Record<string, string> = {
   RESCHEDULED: "bg-orange-100 text-orange-800",
 };
 
+const CANCELLABLE_STATUSES = ["BOOKED", "CONFIRMED", "RESCHEDULED"];
+const RESCHEDULABLE_STATUSES = ["BOOKED", "CONFIRMED"];
+
 export default function AppointmentsList() {
   const { addToast } = useToast();
 
@@ -103,6 +113,10 @@ export default function AppointmentsList() {
   const [total, setTotal] = useState(0);
   const limit = 20;
 
+  // Cancel / reschedule
+  const [changeTarget, setChangeTarget] = useState<Appointment | null>(null);
+  const [changeMode, setChangeMode] = useState<"cancel" | "reschedule">("cancel");
+
   // Fetch departments on mount
   useEffect(() => {
     fetchDepartments();
@@ -288,6 +302,7 @@ export default function AppointmentsList() {
                     <TableHead>Doctor</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Type</TableHead>
+                    <TableHead className="w-[90px]"></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -323,6 +338,42 @@ export default function AppointmentsList() {
                             Scheduled
                           </Badge>
                         )}
+                        {apt.seriesId && (
+                          <Badge variant="outline" className="ml-1 bg-teal-50 text-teal-700 border-teal-200">
+                            <Repeat className="h-3 w-3 mr-1" />
+                            Series #{apt.seriesIndex}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          {RESCHEDULABLE_STATUSES.includes(apt.status) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Reschedule"
+                              onClick={() => {
+                                setChangeMode("reschedule");
+                                setChangeTarget(apt);
+                              }}
+                            >
+                              <CalendarClock className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {CANCELLABLE_STATUSES.includes(apt.status) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Cancel"
+                              onClick={() => {
+                                setChangeMode("cancel");
+                                setChangeTarget(apt);
+                              }}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -359,6 +410,13 @@ export default function AppointmentsList() {
             </div>
           </>
         )}
+
+        <AppointmentChangeDialog
+          appointment={changeTarget}
+          mode={changeMode}
+          onClose={() => setChangeTarget(null)}
+          onDone={fetchAppointments}
+        />
       </CardContent>
     </Card>
   );
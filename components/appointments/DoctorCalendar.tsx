@@ -15,6 +15,7 @@ interface Slot {
   doctorId: string;
   isAvailable: boolean;
   appointmentId?: string;
+  overbookedCount: number;
 }
 
 interface DoctorCalendarData {
@@ -24,6 +25,7 @@ interface DoctorCalendarData {
   totalSlots: number;
   bookedSlots: number;
   availableSlots: number;
+  overbookedAppointments: number;
 }
 
 interface DoctorCalendarProps {
@@ -195,6 +197,11 @@ export function DoctorCalendar({
                       <div className="text-xs text-gray-600">
                         {cal.availableSlots}/{cal.totalSlots} slots
                       </div>
+                      {cal.overbookedAppointments > 0 && (
+                        <div className="text-xs text-amber-700">
+                          +{cal.overbookedAppointments} overbooked
+                        </div>
+                      )}
                     </th>
                   ))}
                 </tr>
@@ -255,6 +262,14 @@ export function DoctorCalendar({
                           >
                             {slot.isAvailable ? "✓" : "✕"}
                           </button>
+                          {slot.overbookedCount > 0 && (
+                            <div
+                              className="mt-1 rounded bg-amber-100 text-amber-800 text-[10px] font-medium py-0.5"
+                              title="Booked beyond slot capacity"
+                            >
+                              +{slot.overbookedCount} overbooked
+                            </div>
+                          )}
                         </td>
                       );
                     })}
@@ -276,6 +291,10 @@ export function DoctorCalendar({
           <div className="w-4 h-4 bg-red-100 border border-red-300 rounded" />
           <span>Booked</span>
         </div>
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 bg-amber-100 border border-amber-300 rounded" />
+          <span>Overbooked</span>
+        </div>
         <div className="flex items-center gap-2">
           <div className="w-4 h-4 bg-blue-600 rounded" />
           <span>Selected</span>
@@ -0,0 +1,239 @@
+"use client";
+
+/**
+ * Hospital Holiday Calendar Component
+ *
+ * Tenant-wide closures. No appointment slots are generated on a holiday.
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiClient } from "@/lib/api-client";
+import AffectedAppointmentsDialog, {
+  type AffectedAppointment,
+} from "@/components/appointments/AffectedAppointmentsDialog";
+import { Plus, PartyPopper, Trash2, Users } from "lucide-react";
+
+interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short", year: "numeric" });
+
+export default function HolidayCalendar() {
+  const { addToast } = useToast();
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [date, setDate] = useState("");
+  const [name, setName] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<Holiday | null>(null);
+
+  const [affected, setAffected] = useState<AffectedAppointment[]>([]);
+  const [affectedHoliday, setAffectedHoliday] = useState<Holiday | null>(null);
+
+  const fetchHolidays = useCallback(async () => {
+    try {
+      setLoading(true);
+      const from = new Date().toISOString().split("T")[0];
+      const response = await apiClient.get(`/api/masters/holidays?from=${from}`);
+      setHolidays(Array.isArray(response) ? response : []);
+    } catch {
+      addToast("error", "Failed to load holidays");
+    } finally {
+      setLoading(false);
+    }
+  }, [addToast]);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  const handleCreate = async () => {
+    if (!date || !name.trim()) {
+      addToast("error", "Please enter the date and holiday name");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const data: { holiday: Holiday; affectedAppointments: AffectedAppointment[] } =
+        await apiClient.post("/api/masters/holidays", { date, name });
+
+      addToast("success", "Holiday added");
+      setShowAddDialog(false);
+      setDate("");
+      setName("");
+      fetchHolidays();
+
+      if (data.affectedAppointments.length > 0) {
+        setAffected(data.affectedAppointments);
+        setAffectedHoliday(data.holiday);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to add holiday";
+      addToast("error", message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleViewAffected = async (holiday: Holiday) => {
+    try {
+      const appointments = await apiClient.get(`/api/masters/holidays/${holiday.id}/affected-appointments`);
+      setAffected(Array.isArray(appointments) ? appointments : []);
+      setAffectedHoliday(holiday);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to load appointments";
+      addToast("error", message);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    setSaving(true);
+    try {
+      await apiClient.delete(`/api/masters/holidays/${deleteTarget.id}`);
+      addToast("success", "Holiday removed");
+      setDeleteTarget(null);
+      fetchHolidays();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to remove holiday";
+      addToast("error", message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Hospital Holidays</h3>
+          <p className="text-sm text-muted-foreground">
+            OPD is closed for all doctors on these dates
+          </p>
+        </div>
+        <Button onClick={() => setShowAddDialog(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Holiday
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0 divide-y">
+          {loading ? (
+            <div className="flex items-center justify-center p-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : holidays.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground text-sm">
+              No upcoming holidays
+            </div>
+          ) : (
+            holidays.map((holiday) => (
+              <div key={holiday.id} className="flex items-center gap-3 px-4 py-3 text-sm">
+                <PartyPopper className="h-4 w-4 text-amber-600" />
+                <div className="flex-1">
+                  <div className="font-medium">{holiday.name}</div>
+                  <div className="text-xs text-muted-foreground">{formatDate(holiday.date)}</div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleViewAffected(holiday)}>
+                  <Users className="h-4 w-4 mr-1" />
+                  Appointments
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => setDeleteTarget(holiday)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Dialog */}
+      <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Holiday</DialogTitle>
+            <DialogDescription>
+              Existing appointments on this date are listed so they can be moved or cancelled
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Date *</Label>
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Name *</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Diwali" />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAddDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving}>
+              {saving ? "Saving..." : "Add Holiday"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove Holiday</DialogTitle>
+            <DialogDescription>
+              Remove <strong>{deleteTarget?.name}</strong>? Slots for{" "}
+              {deleteTarget && formatDate(deleteTarget.date)} will be bookable again.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={saving}>
+              {saving ? "Removing..." : "Remove"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AffectedAppointmentsDialog
+        open={!!affectedHoliday}
+        onOpenChange={(open) => !open && setAffectedHoliday(null)}
+        title={`Appointments on ${affectedHoliday?.name || "holiday"}`}
+        appointments={affected}
+        defaultReason={affectedHoliday ? `Hospital holiday: ${affectedHoliday.name}` : ""}
+      />
+    </div>
+  );
+}
@@ -41,6 +41,7 @@ import {
 } from "@/components/ui/dialog";
 import { apiClient } from "@/lib/api-client";
 import AppointmentBookingDrawer from "./AppointmentBookingDrawer";
+import { SeriesScopeSelect, type SeriesScope } from "./AppointmentChangeDialog";
 import {
   Users,
   Clock,
@@ -67,6 +68,7 @@ interface Appointment {
   slotEndTime: string | null;
   status: string;
   isWalkIn: boolean;
+  seriesId: string | null;
   chiefComplaint: string | null;
   checkedInAt: string | null;
   patient: {
@@ -145,6 +147,7 @@ export default function OPDQueueDashboard() {
   const [showCancelDialog, setShowCancelDialog] = useState(false);
   const [cancelTarget, setCancelTarget] = useState<Appointment | null>(null);
   const [cancelReason, setCancelReason] = useState("");
+  const [cancelScope, setCancelScope] = useState<SeriesScope>("THIS");
   const [isWalkIn, setIsWalkIn] = useState(false);
 
   // Fetch departments on mount
@@ -235,6 +238,19 @@ export default function OPDQueueDashboard() {
     }
   };
 
+  const handleConfirm = async (appointmentId: string) => {
+    setActionLoading(appointmentId);
+    try {
+      await apiClient.post(`/api/appointments/${appointmentId}/confirm`, {});
+      addToast("success", "Appointment confirmed");
+      fetchQueue();
+    } catch {
+      addToast("error", "Failed to confirm appointment");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleStartConsultation = async (appointmentId: string) => {
     setActionLoading(appointmentId);
     try {
@@ -268,8 +284,9 @@ export default function OPDQueueDashboard() {
     try {
       await apiClient.post(`/api/appointments/${cancelTarget.id}/cancel`, {
         cancelReason,
+        scope: cancelScope,
       });
-      addToast("success", "Appointment cancelled");
+      addToast("success", cancelScope === "THIS" ? "Appointment cancelled" : "Series appointments cancelled");
       setShowCancelDialog(false);
       setCancelTarget(null);
       setCancelReason("");
@@ -284,6 +301,7 @@ export default function OPDQueueDashboard() {
   const openCancelDialog = (appointment: Appointment) => {
     setCancelTarget(appointment);
     setCancelReason("");
+    setCancelScope("THIS");
     setShowCancelDialog(true);
   };
 
@@ -558,6 +576,17 @@ export default function OPDQueueDashboard() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-1">
+                          {(apt.status === "BOOKED" || apt.status === "RESCHEDULED") && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleConfirm(apt.id)}
+                              disabled={isLoading}
+                              title="Mark confirmed"
+                            >
+                              <CheckCircle className="h-4 w-4" />
+                            </Button>
+                          )}
                           {(apt.status === "BOOKED" || apt.status === "CONFIRMED" || apt.status === "RESCHEDULED") && (
                             <Button
                               size="sm"
@@ -648,6 +677,8 @@ export default function OPDQueueDashboard() {
             </DialogDescription>
           </DialogHeader>
 
+          {cancelTarget?.seriesId && <SeriesScopeSelect value={cancelScope} onChange={setCancelScope} />}
+
           <div className="space-y-2">
             <label className="text-sm font-medium">Cancellation Reason *</label>
             <Input
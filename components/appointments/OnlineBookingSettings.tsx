@@ -0,0 +1,178 @@
+"use client";
+
+/**
+ * Online Booking Settings Component
+ *
+ * Enables the tenant's public booking link and sets the booking window,
+ * minimum lead time and cancellation cutoff shown to patients.
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiClient } from "@/lib/api-client";
+import { Copy, RefreshCw } from "lucide-react";
+
+// Types
+interface OnlineBookingSettingsData {
+  enabled: boolean;
+  token: string | null;
+  bookingWindowDays: number;
+  minLeadMinutes: number;
+  cancelCutoffHours: number;
+}
+
+export default function OnlineBookingSettings() {
+  const { addToast } = useToast();
+  const [settings, setSettings] = useState<OnlineBookingSettingsData>({
+    enabled: false,
+    token: null,
+    bookingWindowDays: 30,
+    minLeadMinutes: 60,
+    cancelCutoffHours: 4,
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const bookingUrl =
+    settings.token && typeof window !== "undefined" ? `${window.location.origin}/book/${settings.token}` : null;
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await apiClient.get("/api/appointments/online-booking/settings");
+      setSettings(data);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to load online booking settings";
+      addToast("error", message);
+    } finally {
+      setLoading(false);
+    }
+  }, [addToast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const save = async (regenerateLink: boolean) => {
+    setSaving(true);
+    try {
+      const data = await apiClient.put("/api/appointments/online-booking/settings", {
+        enabled: settings.enabled,
+        bookingWindowDays: settings.bookingWindowDays,
+        minLeadMinutes: settings.minLeadMinutes,
+        cancelCutoffHours: settings.cancelCutoffHours,
+        regenerateLink,
+      });
+      setSettings(data);
+      addToast("success", regenerateLink ? "New booking link generated" : "Online booking settings saved");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to save settings";
+      addToast("error", message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRegenerate = () => {
+    if (!confirm("Generate a new link? The current link will stop working.")) return;
+    save(true);
+  };
+
+  const handleCopy = async () => {
+    if (!bookingUrl) return;
+    try {
+      await navigator.clipboard.writeText(bookingUrl);
+      addToast("success", "Booking link copied");
+    } catch {
+      addToast("error", "Could not copy the link");
+    }
+  };
+
+  return (
+    <Card className="mt-6 max-w-xl border-slate-200">
+      <CardHeader>
+        <CardTitle>Online booking</CardTitle>
+        <CardDescription>
+          Patients verify with UHID and their registered mobile, then book or cancel appointments
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center p-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={settings.enabled}
+                onCheckedChange={(checked) => setSettings((s) => ({ ...s, enabled: checked === true }))}
+              />
+              Accept online bookings
+            </label>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Booking window (days)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={180}
+                  value={settings.bookingWindowDays}
+                  onChange={(e) => setSettings((s) => ({ ...s, bookingWindowDays: Number(e.target.value) }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Min. lead time (min)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={1440}
+                  value={settings.minLeadMinutes}
+                  onChange={(e) => setSettings((s) => ({ ...s, minLeadMinutes: Number(e.target.value) }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Cancel cutoff (hours)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={168}
+                  value={settings.cancelCutoffHours}
+                  onChange={(e) => setSettings((s) => ({ ...s, cancelCutoffHours: Number(e.target.value) }))}
+                />
+              </div>
+            </div>
+
+            {bookingUrl && (
+              <div className="space-y-2">
+                <Label>Booking link</Label>
+                <div className="flex gap-2">
+                  <Input value={bookingUrl} readOnly className="font-mono text-xs" />
+                  <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={handleRegenerate} disabled={saving} title="Regenerate link">
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                </div>
+                {!settings.enabled && (
+                  <p className="text-xs text-muted-foreground">The link is inactive while online booking is off</p>
+                )}
+              </div>
+            )}
+
+            <Button onClick={() => save(false)} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,492 @@
+"use client";
+
+/**
+ * Doctor Schedule Exceptions Component
+ *
+ * Leave, conferences, partial-day blocks and one-off extra sessions that
+ * override the weekly availability for specific dates.
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiClient } from "@/lib/api-client";
+import AffectedAppointmentsDialog, {
+  type AffectedAppointment,
+} from "@/components/appointments/AffectedAppointmentsDialog";
+import { Plus, CalendarOff, CalendarPlus, Users, XCircle } from "lucide-react";
+
+// Types
+interface ScheduleException {
+  id: string;
+  type: string;
+  startDate: string;
+  endDate: string;
+  startTime: string | null;
+  endTime: string | null;
+  slotDurationMinutes: number | null;
+  maxPatientsPerSlot: number | null;
+  reason: string | null;
+  department: { id: string; code: string; name: string } | null;
+}
+
+interface Department {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface ExceptionFormData {
+  type: string;
+  startDate: string;
+  endDate: string;
+  wholeDay: boolean;
+  startTime: string;
+  endTime: string;
+  departmentId: string;
+  slotDurationMinutes: number;
+  maxPatientsPerSlot: number;
+  reason: string;
+}
+
+interface ScheduleExceptionsProps {
+  doctorId: string;
+  doctorName: string;
+  departments: Department[];
+}
+
+const EXCEPTION_TYPES = [
+  { value: "LEAVE", label: "Leave" },
+  { value: "CONFERENCE", label: "Conference" },
+  { value: "BLOCK", label: "Block time" },
+  { value: "EXTRA_SESSION", label: "Extra session" },
+];
+
+const TYPE_STYLES: Record<string, string> = {
+  LEAVE: "bg-red-100 text-red-800",
+  CONFERENCE: "bg-purple-100 text-purple-800",
+  BLOCK: "bg-amber-100 text-amber-800",
+  EXTRA_SESSION: "bg-green-100 text-green-800",
+};
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const initialFormData = (): ExceptionFormData => ({
+  type: "LEAVE",
+  startDate: today(),
+  endDate: today(),
+  wholeDay: true,
+  startTime: "09:00",
+  endTime: "13:00",
+  departmentId: "",
+  slotDurationMinutes: 15,
+  maxPatientsPerSlot: 1,
+  reason: "",
+});
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" });
+
+export default function ScheduleExceptions({
+  doctorId,
+  doctorName,
+  departments,
+}: ScheduleExceptionsProps) {
+  const { addToast } = useToast();
+  const [exceptions, setExceptions] = useState<ScheduleException[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [formData, setFormData] = useState<ExceptionFormData>(initialFormData);
+  const [withdrawTarget, setWithdrawTarget] = useState<ScheduleException | null>(null);
+
+  // Affected appointments
+  const [affected, setAffected] = useState<AffectedAppointment[]>([]);
+  const [affectedTitle, setAffectedTitle] = useState("");
+  const [affectedReason, setAffectedReason] = useState("");
+  const [showAffected, setShowAffected] = useState(false);
+
+  const fetchExceptions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.get(`/api/masters/doctors/${doctorId}/schedule-exceptions`);
+      setExceptions(Array.isArray(response) ? response : []);
+    } catch {
+      addToast("error", "Failed to load leave and exceptions");
+    } finally {
+      setLoading(false);
+    }
+  }, [doctorId, addToast]);
+
+  useEffect(() => {
+    fetchExceptions();
+  }, [fetchExceptions]);
+
+  const typeLabel = (type: string) => EXCEPTION_TYPES.find((t) => t.value === type)?.label || type;
+
+  const openAffected = (exception: ScheduleException, appointments: AffectedAppointment[]) => {
+    setAffected(appointments);
+    setAffectedTitle(`Appointments during ${typeLabel(exception.type).toLowerCase()}`);
+    setAffectedReason(exception.reason || `Dr. ${doctorName} unavailable`);
+    setShowAffected(true);
+  };
+
+  const handleCreate = async () => {
+    const isExtra = formData.type === "EXTRA_SESSION";
+    if (isExtra && !formData.departmentId) {
+      addToast("error", "Please select a department for the extra session");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const partial = isExtra || !formData.wholeDay;
+      const data: { exception: ScheduleException; affectedAppointments: AffectedAppointment[] } =
+        await apiClient.post(`/api/masters/doctors/${doctorId}/schedule-exceptions`, {
+          type: formData.type,
+          startDate: formData.startDate,
+          endDate: formData.endDate,
+          startTime: partial ? formData.startTime : null,
+          endTime: partial ? formData.endTime : null,
+          departmentId: isExtra ? formData.departmentId : null,
+          slotDurationMinutes: isExtra ? formData.slotDurationMinutes : null,
+          maxPatientsPerSlot: isExtra ? formData.maxPatientsPerSlot : null,
+          reason: formData.reason || null,
+        });
+
+      addToast("success", `${typeLabel(formData.type)} saved`);
+      setShowAddDialog(false);
+      setFormData(initialFormData());
+      fetchExceptions();
+
+      if (data.affectedAppointments.length > 0) {
+        openAffected(data.exception, data.affectedAppointments);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to save";
+      addToast("error", message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleViewAffected = async (exception: ScheduleException) => {
+    try {
+      const appointments = await apiClient.get(
+        `/api/masters/doctors/${doctorId}/schedule-exceptions/${exception.id}/affected-appointments`
+      );
+      openAffected(exception, Array.isArray(appointments) ? appointments : []);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to load appointments";
+      addToast("error", message);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!withdrawTarget) return;
+
+    setSaving(true);
+    try {
+      await apiClient.delete(`/api/masters/doctors/${doctorId}/schedule-exceptions/${withdrawTarget.id}`);
+      addToast("success", `${typeLabel(withdrawTarget.type)} withdrawn`);
+      setWithdrawTarget(null);
+      fetchExceptions();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to withdraw";
+      addToast("error", message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isExtra = formData.type === "EXTRA_SESSION";
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Leave & Exceptions</h3>
+          <p className="text-sm text-muted-foreground">
+            Date-specific changes to {doctorName}&apos;s weekly schedule
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setShowAddDialog(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Leave / Session
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0 divide-y">
+          {loading ? (
+            <div className="flex items-center justify-center p-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : exceptions.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground text-sm">
+              No upcoming leave or extra sessions
+            </div>
+          ) : (
+            exceptions.map((exception) => (
+              <div key={exception.id} className="flex items-center gap-3 px-4 py-3 text-sm">
+                {exception.type === "EXTRA_SESSION" ? (
+                  <CalendarPlus className="h-4 w-4 text-green-600" />
+                ) : (
+                  <CalendarOff className="h-4 w-4 text-red-600" />
+                )}
+                <Badge className={TYPE_STYLES[exception.type]}>{typeLabel(exception.type)}</Badge>
+                <div className="flex-1">
+                  <div className="font-medium">
+                    {formatDate(exception.startDate)}
+                    {exception.endDate !== exception.startDate && ` – ${formatDate(exception.endDate)}`}
+                    <span className="ml-2 text-muted-foreground font-normal">
+                      {exception.startTime ? `${exception.startTime} - ${exception.endTime}` : "Whole day"}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {exception.department && `${exception.department.name} · `}
+                    {exception.type === "EXTRA_SESSION" &&
+                      `${exception.slotDurationMinutes}m slots, ${exception.maxPatientsPerSlot}/slot · `}
+                    {exception.reason}
+                  </div>
+                </div>
+                {exception.type !== "EXTRA_SESSION" && (
+                  <Button variant="ghost" size="sm" onClick={() => handleViewAffected(exception)}>
+                    <Users className="h-4 w-4 mr-1" />
+                    Appointments
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => setWithdrawTarget(exception)}
+                >
+                  <XCircle className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Dialog */}
+      <Dialog open={showAddDialog} onOpenChange={(open) => {
+        if (!open) {
+          setShowAddDialog(false);
+          setFormData(initialFormData());
+        }
+      }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add Leave / Session</DialogTitle>
+            <DialogDescription>
+              Block dates or add a one-off session for {doctorName}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Type *</Label>
+              <Select value={formData.type} onValueChange={(val) => setFormData({ ...formData, type: val })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXCEPTION_TYPES.map((t) => (
+                    <SelectItem key={t.value} value={t.value}>
+                      {t.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>From *</Label>
+                <Input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    startDate: e.target.value,
+                    endDate: formData.endDate < e.target.value ? e.target.value : formData.endDate,
+                  })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>To *</Label>
+                <Input
+                  type="date"
+                  value={formData.endDate}
+                  min={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {!isExtra && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="wholeDay"
+                  checked={formData.wholeDay}
+                  onCheckedChange={(checked) => setFormData({ ...formData, wholeDay: !!checked })}
+                />
+                <label htmlFor="wholeDay" className="text-sm">
+                  Whole day
+                </label>
+              </div>
+            )}
+
+            {(isExtra || !formData.wholeDay) && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Start Time *</Label>
+                  <Input
+                    type="time"
+                    value={formData.startTime}
+                    onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>End Time *</Label>
+                  <Input
+                    type="time"
+                    value={formData.endTime}
+                    onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {isExtra && (
+              <>
+                <div className="space-y-2">
+                  <Label>Department *</Label>
+                  <Select
+                    value={formData.departmentId}
+                    onValueChange={(val) => setFormData({ ...formData, departmentId: val })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select department" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {departments.map((dept) => (
+                        <SelectItem key={dept.id} value={dept.id}>
+                          {dept.name} ({dept.code})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Slot Duration (min)</Label>
+                    <Select
+                      value={formData.slotDurationMinutes.toString()}
+                      onValueChange={(val) => setFormData({ ...formData, slotDurationMinutes: parseInt(val) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[10, 15, 20, 30, 45, 60].map((d) => (
+                          <SelectItem key={d} value={d.toString()}>
+                            {d} minutes
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Patients per Slot</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={formData.maxPatientsPerSlot}
+                      onChange={(e) => setFormData({ ...formData, maxPatientsPerSlot: parseInt(e.target.value) || 1 })}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Input
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                placeholder={isExtra ? "e.g. Special diabetes camp" : "e.g. Annual leave"}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAddDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Withdraw Confirmation */}
+      <Dialog open={!!withdrawTarget} onOpenChange={(open) => !open && setWithdrawTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Withdraw {typeLabel(withdrawTarget?.type || "")}</DialogTitle>
+            <DialogDescription>
+              The weekly schedule applies again for{" "}
+              <strong>{withdrawTarget && formatDate(withdrawTarget.startDate)}</strong>
+              {withdrawTarget && withdrawTarget.endDate !== withdrawTarget.startDate &&
+                <> to <strong>{formatDate(withdrawTarget.endDate)}</strong></>}.
+              Appointments already cancelled or moved are not restored.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWithdrawTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleWithdraw} disabled={saving}>
+              {saving ? "Withdrawing..." : "Withdraw"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AffectedAppointmentsDialog
+        open={showAffected}
+        onOpenChange={setShowAffected}
+        title={affectedTitle}
+        appointments={affected}
+        defaultReason={affectedReason}
+      />
+    </div>
+  );
+}
@@ -1,18 +1,27 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { PasswordInput } from "@/components/ui/PasswordInput";
+import { NewPasswordFields, isNewPasswordReady, type PasswordRules } from "@/components/auth/NewPasswordFields";
+import { TwoFactorChallenge, type TwoFactorRequest } from "@/components/auth/TwoFactorChallenge";
 import { Loader2 } from "lucide-react";
 
 interface LoginFormProps {
   primaryColor?: string;
 }
 
+// Returned by the login when a new password must be set before signing in
+interface PasswordChangeRequest {
+  reason: "FIRST_LOGIN" | "EXPIRED";
+  changeToken: string;
+  policy: PasswordRules;
+}
+
 export function LoginForm({ primaryColor = "#3b82f6" }: LoginFormProps) {
   const router = useRouter();
   const [tenantCode, setTenantCode] = useState("");
@@ -20,6 +29,10 @@ export function LoginForm({ primaryColor = "#3b82f6" }: LoginFormProps) {
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
+  const [twoFactorRequest, setTwoFactorRequest] = useState<TwoFactorRequest | null>(null);
+  const [changeRequest, setChangeRequest] = useState<PasswordChangeRequest | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -44,6 +57,69 @@ export function LoginForm({ primaryColor = "#3b82f6" }: LoginFormProps) {
         setLoading(false);
         return;
       }
+      if (data.twoFactorRequired) {
+        setTwoFactorRequest({ mode: data.mode, pendingToken: data.pendingToken });
+        setPassword("");
+        setLoading(false);
+        return;
+      }
+      if (data.passwordChangeRequired) {
+        setChangeRequest({ reason: data.reason, changeToken: data.changeToken, policy: data.policy });
+        setPassword("");
+        setLoading(false);
+        return;
+      }
+      router.push(data.redirect ?? "/dashboard");
+      router.refresh();
+    } catch {
+      setError("Something went wrong. Please try again.");
+      setLoading(false);
+    }
+  }
+
+  const handleTwoFactorComplete = useCallback(
+    (data: Record<string, unknown>) => {
+      setTwoFactorRequest(null);
+      if (data.passwordChangeRequired) {
+        setChangeRequest({
+          reason: data.reason as PasswordChangeRequest["reason"],
+          changeToken: data.changeToken as string,
+          policy: data.policy as PasswordRules,
+        });
+        return;
+      }
+      router.push((data.redirect as string | undefined) ?? "/dashboard");
+      router.refresh();
+    },
+    [router]
+  );
+
+  const handleTwoFactorExpired = useCallback((message: string) => {
+    setTwoFactorRequest(null);
+    setError(message);
+  }, []);
+
+  async function handleChangePassword(e: React.FormEvent) {
+    e.preventDefault();
+    if (!changeRequest) return;
+    setError("");
+    setLoading(true);
+    try {
+      const res = await fetch("/api/auth/password/change", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ changeToken: changeRequest.changeToken, newPassword }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to change password");
+        setLoading(false);
+        // Change token expired: back to the sign-in form
+        if (res.status === 401) {
+          setChangeRequest(null);
+        }
+        return;
+      }
       router.push(data.redirect ?? "/dashboard");
       router.refresh();
     } catch {
@@ -52,6 +128,70 @@ export function LoginForm({ primaryColor = "#3b82f6" }: LoginFormProps) {
     }
   }
 
+  if (twoFactorRequest) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: "easeOut" }}
+        className="w-full max-w-md"
+      >
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <TwoFactorChallenge
+            request={twoFactorRequest}
+            onComplete={handleTwoFactorComplete}
+            onExpired={handleTwoFactorExpired}
+          />
+        </div>
+      </motion.div>
+    );
+  }
+
+  if (changeRequest) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: "easeOut" }}
+        className="w-full max-w-md"
+      >
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <div className="text-center mb-6">
+            <h2 className="text-2xl font-semibold text-gray-900 mb-2">Set a New Password</h2>
+            <p className="text-gray-600">
+              {changeRequest.reason === "EXPIRED"
+                ? "Your password has expired. Choose a new one to continue."
+                : "Choose your own password before signing in for the first time."}
+            </p>
+          </div>
+          <form onSubmit={handleChangePassword} className="space-y-4">
+            <NewPasswordFields
+              rules={changeRequest.policy}
+              password={newPassword}
+              confirm={confirmPassword}
+              onPasswordChange={setNewPassword}
+              onConfirmChange={setConfirmPassword}
+              disabled={loading}
+            />
+            {error && (
+              <p className="text-sm text-red-600 mt-2" role="alert">
+                {error}
+              </p>
+            )}
+            <Button
+              type="submit"
+              className="w-full mt-6"
+              disabled={loading || !isNewPasswordReady(changeRequest.policy, newPassword, confirmPassword)}
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {loading ? "Saving…" : "Set Password and Sign In"}
+            </Button>
+          </form>
+        </div>
+      </motion.div>
+    );
+  }
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
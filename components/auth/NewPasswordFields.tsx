@@ -0,0 +1,100 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { PasswordInput } from "@/components/ui/PasswordInput";
+import { Check, X } from "lucide-react";
+
+// Complexity rules of the tenant password policy (see passwordService)
+export interface PasswordRules {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  historyCount: number;
+}
+
+interface NewPasswordFieldsProps {
+  rules: PasswordRules;
+  password: string;
+  confirm: string;
+  onPasswordChange: (value: string) => void;
+  onConfirmChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+function ruleChecks(rules: PasswordRules, password: string) {
+  return [
+    { label: `At least ${rules.minLength} characters`, met: password.length >= rules.minLength, show: true },
+    { label: "An uppercase letter", met: /[A-Z]/.test(password), show: rules.requireUppercase },
+    { label: "A lowercase letter", met: /[a-z]/.test(password), show: rules.requireLowercase },
+    { label: "A number", met: /\d/.test(password), show: rules.requireNumber },
+    { label: "A symbol", met: /[^A-Za-z0-9]/.test(password), show: rules.requireSymbol },
+  ].filter((check) => check.show);
+}
+
+/**
+ * Whether the password meets the complexity rules and matches its confirmation
+ */
+export function isNewPasswordReady(rules: PasswordRules, password: string, confirm: string): boolean {
+  return ruleChecks(rules, password).every((check) => check.met) && password === confirm;
+}
+
+export function NewPasswordFields({
+  rules,
+  password,
+  confirm,
+  onPasswordChange,
+  onConfirmChange,
+  disabled,
+}: NewPasswordFieldsProps) {
+  const checks = ruleChecks(rules, password);
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="newPassword" className="text-gray-700 font-medium">
+          New Password
+        </Label>
+        <PasswordInput
+          id="newPassword"
+          value={password}
+          onChange={(e) => onPasswordChange(e.target.value)}
+          disabled={disabled}
+          autoComplete="new-password"
+          placeholder="Enter a new password"
+          required
+        />
+        <ul className="space-y-1 text-xs">
+          {checks.map((check) => (
+            <li
+              key={check.label}
+              className={`flex items-center gap-1 ${check.met ? "text-green-600" : "text-gray-500"}`}
+            >
+              {check.met ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+              {check.label}
+            </li>
+          ))}
+          {rules.historyCount > 0 && (
+            <li className="text-gray-500">Must differ from your last {rules.historyCount} passwords</li>
+          )}
+        </ul>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword" className="text-gray-700 font-medium">
+          Confirm New Password
+        </Label>
+        <PasswordInput
+          id="confirmPassword"
+          value={confirm}
+          onChange={(e) => onConfirmChange(e.target.value)}
+          disabled={disabled}
+          autoComplete="new-password"
+          placeholder="Re-enter the new password"
+          required
+        />
+        {confirm && confirm !== password && <p className="text-xs text-red-600">Passwords do not match</p>}
+      </div>
+    </>
+  );
+}
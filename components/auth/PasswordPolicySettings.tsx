@@ -0,0 +1,156 @@
+"use client";
+
+/**
+ * Password Policy Settings Component
+ *
+ * Complexity rules, expiry, reuse history and failed-login lockout for the
+ * tenant's staff accounts.
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiClient } from "@/lib/api-client";
+
+// Types
+interface PasswordPolicyData {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  expiryDays: number;
+  historyCount: number;
+  maxFailedAttempts: number;
+  lockoutMinutes: number;
+  forceChangeOnFirstLogin: boolean;
+  resetLinkTtlMinutes: number;
+}
+
+type BooleanKey = {
+  [K in keyof PasswordPolicyData]: PasswordPolicyData[K] extends boolean ? K : never;
+}[keyof PasswordPolicyData];
+
+type NumberKey = Exclude<keyof PasswordPolicyData, BooleanKey>;
+
+const COMPLEXITY_OPTIONS: { key: BooleanKey; label: string }[] = [
+  { key: "requireUppercase", label: "Uppercase letter" },
+  { key: "requireLowercase", label: "Lowercase letter" },
+  { key: "requireNumber", label: "Number" },
+  { key: "requireSymbol", label: "Symbol" },
+];
+
+const NUMBER_FIELDS: { key: NumberKey; label: string; min: number; max: number; hint?: string }[] = [
+  { key: "minLength", label: "Minimum length", min: 6, max: 64 },
+  { key: "expiryDays", label: "Expires after (days)", min: 0, max: 365, hint: "0 = never" },
+  { key: "historyCount", label: "Block reuse of last", min: 0, max: 24, hint: "passwords; 0 = off" },
+  { key: "maxFailedAttempts", label: "Lock after failed logins", min: 0, max: 20, hint: "0 = never lock" },
+  { key: "lockoutMinutes", label: "Lockout (minutes)", min: 0, max: 1440, hint: "0 = until unlocked by an admin" },
+  { key: "resetLinkTtlMinutes", label: "Reset link valid (minutes)", min: 10, max: 1440 },
+];
+
+export default function PasswordPolicySettings() {
+  const { addToast } = useToast();
+  const [policy, setPolicy] = useState<PasswordPolicyData | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchPolicy = useCallback(async () => {
+    try {
+      const data = await apiClient.get("/api/admin/settings/password-policy");
+      setPolicy(data);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to load password policy";
+      addToast("error", message);
+    }
+  }, [addToast]);
+
+  useEffect(() => {
+    fetchPolicy();
+  }, [fetchPolicy]);
+
+  const save = async () => {
+    if (!policy) return;
+    setSaving(true);
+    try {
+      const data = await apiClient.put("/api/admin/settings/password-policy", policy);
+      setPolicy(data);
+      addToast("success", "Password policy saved");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to save password policy";
+      addToast("error", message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6 max-w-xl border-slate-200">
+      <CardHeader>
+        <CardTitle>Password policy</CardTitle>
+        <CardDescription>
+          Applies to staff passwords set from now on; lockout and expiry are checked at every login
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!policy ? (
+          <div className="flex items-center justify-center p-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Must contain</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {COMPLEXITY_OPTIONS.map((option) => (
+                  <label key={option.key} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={policy[option.key]}
+                      onCheckedChange={(checked) =>
+                        setPolicy((p) => p && { ...p, [option.key]: checked === true })
+                      }
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {NUMBER_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label>{field.label}</Label>
+                  <Input
+                    type="number"
+                    min={field.min}
+                    max={field.max}
+                    value={policy[field.key]}
+                    onChange={(e) => setPolicy((p) => p && { ...p, [field.key]: Number(e.target.value) })}
+                  />
+                  {field.hint && <p className="text-xs text-muted-foreground">{field.hint}</p>}
+                </div>
+              ))}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={policy.forceChangeOnFirstLogin}
+                onCheckedChange={(checked) =>
+                  setPolicy((p) => p && { ...p, forceChangeOnFirstLogin: checked === true })
+                }
+              />
+              Require a new password at first login and after an admin sets one
+            </label>
+
+            <Button onClick={save} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
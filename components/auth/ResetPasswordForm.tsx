@@ -0,0 +1,126 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { NewPasswordFields, isNewPasswordReady, type PasswordRules } from "@/components/auth/NewPasswordFields";
+import { Loader2 } from "lucide-react";
+
+interface ResetLinkInfo {
+  fullName: string;
+  tenantName: string;
+  policy: PasswordRules;
+}
+
+export function ResetPasswordForm({ token }: { token: string }) {
+  const router = useRouter();
+  const [info, setInfo] = useState<ResetLinkInfo | null>(null);
+  const [linkError, setLinkError] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setLinkError("This reset link is invalid or has expired");
+      return;
+    }
+    fetch(`/api/auth/password/reset?token=${encodeURIComponent(token)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          setLinkError(data.error ?? "This reset link is invalid or has expired");
+          return;
+        }
+        setInfo(data.data);
+      })
+      .catch(() => setLinkError("Something went wrong. Please try again."));
+  }, [token]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+    try {
+      const res = await fetch("/api/auth/password/reset", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, newPassword }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to reset password");
+        return;
+      }
+      setDone(true);
+    } catch {
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, ease: "easeOut" }}
+      className="w-full max-w-md"
+    >
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="text-center mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900 mb-2">Reset Password</h2>
+          {info && (
+            <p className="text-gray-600">
+              {info.fullName} · {info.tenantName}
+            </p>
+          )}
+        </div>
+
+        {linkError ? (
+          <p className="text-sm text-red-600 text-center" role="alert">
+            {linkError}. Ask your administrator for a new link.
+          </p>
+        ) : done ? (
+          <div className="space-y-4 text-center">
+            <p className="text-sm text-gray-700">Your password has been reset. Sign in with your new password.</p>
+            <Button className="w-full" onClick={() => router.push("/login")}>
+              Go to Sign In
+            </Button>
+          </div>
+        ) : !info ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <NewPasswordFields
+              rules={info.policy}
+              password={newPassword}
+              confirm={confirmPassword}
+              onPasswordChange={setNewPassword}
+              onConfirmChange={setConfirmPassword}
+              disabled={loading}
+            />
+            {error && (
+              <p className="text-sm text-red-600 mt-2" role="alert">
+                {error}
+              </p>
+            )}
+            <Button
+              type="submit"
+              className="w-full mt-6"
+              disabled={loading || !isNewPasswordReady(info.policy, newPassword, confirmPassword)}
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {loading ? "Saving…" : "Reset Password"}
+            </Button>
+          </form>
+        )}
+      </div>
+    </motion.div>
+  );
+}
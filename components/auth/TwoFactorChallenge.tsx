@@ -0,0 +1,208 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { QrCode } from "@/components/ui/QrCode";
+import { Loader2 } from "lucide-react";
+
+// Returned by the password step of a login when a second factor is needed
+export interface TwoFactorRequest {
+  mode: "VERIFY" | "ENROLL";
+  pendingToken: string;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+interface TwoFactorChallengeProps {
+  request: TwoFactorRequest;
+  /** Response of /api/auth/two-factor/verify (session started or password change required) */
+  onComplete: (data: Record<string, unknown>) => void;
+  /** Pending login expired; back to the password step */
+  onExpired: (message: string) => void;
+}
+
+/**
+ * Recovery codes shown once, after 2FA is turned on or the codes are replaced
+ */
+export function RecoveryCodeList({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600">
+        Save these recovery codes somewhere safe. Each can be used once to sign in if you lose your
+        authenticator. They will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md border border-slate-200 bg-slate-50 p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Authenticator setup with QR code and manual key
+ */
+export function AuthenticatorSetup({ enrollment }: { enrollment: Enrollment }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Scan this QR code with an authenticator app (Google Authenticator, Microsoft Authenticator,
+        Authy, …), then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        <QrCode value={enrollment.otpauthUrl} className="rounded-md border border-slate-200" />
+      </div>
+      <p className="text-xs text-gray-500 text-center">
+        Can&apos;t scan? Enter this key manually:
+        <span className="block mt-1 font-mono text-sm text-gray-800 break-all">
+          {enrollment.secret.match(/.{1,4}/g)?.join(" ")}
+        </span>
+      </p>
+    </div>
+  );
+}
+
+export function TwoFactorChallenge({ request, onComplete, onExpired }: TwoFactorChallengeProps) {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [completed, setCompleted] = useState<Record<string, unknown> | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (request.mode !== "ENROLL") return;
+    fetch("/api/auth/two-factor/enroll", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ pendingToken: request.pendingToken }),
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          if (res.status === 401) {
+            onExpired(data.error ?? "Your sign-in has expired. Please sign in again.");
+            return;
+          }
+          setError(data.error ?? "Failed to start authenticator setup");
+          return;
+        }
+        setEnrollment(data.data);
+      })
+      .catch(() => setError("Something went wrong. Please try again."));
+  }, [request, onExpired]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+    try {
+      const res = await fetch("/api/auth/two-factor/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pendingToken: request.pendingToken, code: code.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setLoading(false);
+        setCode("");
+        if (res.status === 401) {
+          onExpired(data.error ?? "Your sign-in has expired. Please sign in again.");
+          return;
+        }
+        setError(data.error ?? "Invalid code");
+        return;
+      }
+      // Enrolled during this login: show the recovery codes before continuing
+      if (Array.isArray(data.recoveryCodes) && data.recoveryCodes.length > 0) {
+        setRecoveryCodes(data.recoveryCodes);
+        setCompleted(data);
+        setLoading(false);
+        return;
+      }
+      onComplete(data);
+    } catch {
+      setError("Something went wrong. Please try again.");
+      setLoading(false);
+    }
+  }
+
+  if (completed) {
+    return (
+      <div className="space-y-4">
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold text-gray-900 mb-2">Two-Factor Enabled</h2>
+        </div>
+        <RecoveryCodeList codes={recoveryCodes} />
+        <Button type="button" className="w-full mt-6" onClick={() => onComplete(completed)}>
+          I&apos;ve Saved My Codes
+        </Button>
+      </div>
+    );
+  }
+
+  const enrolling = request.mode === "ENROLL";
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center">
+        <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+          {enrolling ? "Set Up Two-Factor Authentication" : "Two-Factor Authentication"}
+        </h2>
+        <p className="text-gray-600">
+          {enrolling
+            ? "Your account requires a second sign-in step."
+            : "Enter the code from your authenticator app, or one of your recovery codes."}
+        </p>
+      </div>
+      {enrolling &&
+        (enrollment ? (
+          <AuthenticatorSetup enrollment={enrollment} />
+        ) : (
+          !error && (
+            <div className="flex items-center justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          )
+        ))}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="twoFactorCode" className="text-gray-700 font-medium">
+            {enrolling ? "Code from your app" : "Authentication code"}
+          </Label>
+          <Input
+            id="twoFactorCode"
+            type="text"
+            inputMode={enrolling ? "numeric" : "text"}
+            placeholder={enrolling ? "123456" : "123456 or xxxxx-xxxxx"}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={loading || (enrolling && !enrollment)}
+            autoComplete="one-time-code"
+            autoFocus
+            required
+          />
+        </div>
+        {error && (
+          <p className="text-sm text-red-600 mt-2" role="alert">
+            {error}
+          </p>
+        )}
+        <Button
+          type="submit"
+          className="w-full mt-6"
+          disabled={loading || code.trim().length < 6 || (enrolling && !enrollment)}
+        >
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {loading ? "Verifying…" : "Verify"}
+        </Button>
+      </form>
+    </div>
+  );
+}
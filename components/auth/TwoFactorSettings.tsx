@@ -0,0 +1,107 @@
+"use client";
+
+/**
+ * Two-Factor Settings Component
+ *
+ * Roles whose users must sign in with an authenticator code. Users without
+ * 2FA set it up at their next login.
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiClient } from "@/lib/api-client";
+
+// Types
+interface RoleOption {
+  code: string;
+  name: string;
+}
+
+interface TwoFactorSettingsData {
+  requiredRoleCodes: string[];
+  roles: RoleOption[];
+}
+
+export default function TwoFactorSettings() {
+  const { addToast } = useToast();
+  const [roles, setRoles] = useState<RoleOption[] | null>(null);
+  const [requiredRoleCodes, setRequiredRoleCodes] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const data: TwoFactorSettingsData = await apiClient.get("/api/admin/settings/two-factor");
+      setRoles(data.roles);
+      setRequiredRoleCodes(data.requiredRoleCodes);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to load two-factor settings";
+      addToast("error", message);
+    }
+  }, [addToast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const toggleRole = (code: string, checked: boolean) => {
+    setRequiredRoleCodes((codes) => (checked ? [...codes, code] : codes.filter((c) => c !== code)));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const data = await apiClient.put("/api/admin/settings/two-factor", { requiredRoleCodes });
+      setRequiredRoleCodes(data.requiredRoleCodes);
+      addToast("success", "Two-factor settings saved");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to save two-factor settings";
+      addToast("error", message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6 max-w-xl border-slate-200">
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+        <CardDescription>
+          Users in these roles must enter an authenticator code at every sign-in; anyone can turn it on
+          from Account Settings
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!roles ? (
+          <div className="flex items-center justify-center p-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Required for</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {roles.map((role) => (
+                  <label key={role.code} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={requiredRoleCodes.includes(role.code)}
+                      onCheckedChange={(checked) => toggleRole(role.code, checked === true)}
+                    />
+                    {role.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <Button onClick={save} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
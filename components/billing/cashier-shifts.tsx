@@ -0,0 +1,224 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { DataTable } from "@/components/ui/DataTable";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { useToast } from "@/components/ui/Toast";
+import { ShiftCloseDrawer } from "./shift-close-drawer";
+import {
+  ShiftDetailDrawer,
+  SHIFT_STATUS_STYLES,
+  money,
+  VarianceText,
+  type ShiftDetail,
+  type ShiftSummary,
+} from "./shift-detail-drawer";
+import { RefreshCw, Printer, PlayCircle, StopCircle, Eye } from "lucide-react";
+import { format } from "date-fns";
+
+interface CashierShiftsProps {
+  currentUserId: string;
+  canOperate: boolean;
+  canViewAll: boolean;
+  canApprove: boolean;
+}
+
+/**
+ * Cashier's own open shift plus the day's shifts with close / sign-off and day-end report
+ */
+export function CashierShifts({ currentUserId, canOperate, canViewAll, canApprove }: CashierShiftsProps) {
+  const [current, setCurrent] = useState<ShiftDetail | null>(null);
+  const [shifts, setShifts] = useState<ShiftSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [counterNumber, setCounterNumber] = useState("");
+  const [isOpening, setIsOpening] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const fetchCurrent = useCallback(async () => {
+    if (!canOperate) return;
+    try {
+      const res = await fetch("/api/billing/shifts/current");
+      const result = await res.json();
+      if (result.success) setCurrent(result.data);
+    } catch {
+      addToast("error", "Network error");
+    }
+  }, [canOperate, addToast]);
+
+  const fetchShifts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ date });
+      const res = await fetch(`/api/billing/shifts?${params}`);
+      const result = await res.json();
+      if (result.success) {
+        setShifts(result.data);
+      } else {
+        setShifts([]);
+        addToast("error", result.message || "Failed to load shifts");
+      }
+    } catch {
+      setShifts([]);
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [date, addToast]);
+
+  useEffect(() => { fetchCurrent(); }, [fetchCurrent]);
+  useEffect(() => { fetchShifts(); }, [fetchShifts]);
+
+  const refresh = () => {
+    fetchCurrent();
+    fetchShifts();
+  };
+
+  const openShift = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsOpening(true);
+    try {
+      const res = await fetch("/api/billing/shifts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ openingFloat: parseFloat(openingFloat) || 0, counterNumber }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Shift opened");
+        setOpeningFloat("");
+        setCurrent(result.data);
+        fetchShifts();
+      } else {
+        addToast("error", result.message || "Failed to open shift");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const columns = [
+    { key: "shiftNumber", header: "Shift", render: (v: string, row: ShiftSummary) => (
+      <div>
+        <div className="font-medium">{v}</div>
+        <div className="text-xs text-slate-500">{row.cashierName}{row.counterNumber ? ` · Counter ${row.counterNumber}` : ""}</div>
+      </div>
+    ) },
+    { key: "openedAt", header: "Opened", render: (v: string, row: ShiftSummary) => (
+      <div className="text-sm">
+        <div>{format(new Date(v), "p")}</div>
+        {row.closedAt && <div className="text-xs text-slate-500">to {format(new Date(row.closedAt), "p")}</div>}
+      </div>
+    ) },
+    { key: "status", header: "Status", render: (v: ShiftSummary["status"]) => (
+      <Badge className={SHIFT_STATUS_STYLES[v]}>{v}</Badge>
+    ) },
+    { key: "openingFloat", header: "Float", render: (v: string) => <span className="text-sm">&#8377;{money(v)}</span> },
+    { key: "totalCollected", header: "Collected", render: (v: string) => <span className="font-semibold">&#8377;{money(v)}</span> },
+    { key: "countedCash", header: "Cash Counted", render: (v: string | null) => (
+      v !== null ? <span>&#8377;{money(v)}</span> : <span className="text-slate-400">-</span>
+    ) },
+    { key: "totalVariance", header: "Variance", render: (v: string | null) => <VarianceText value={v} /> },
+    { key: "actions", header: "", render: (_: unknown, row: ShiftSummary) => (
+      <div className="flex items-center justify-end">
+        <Button size="sm" variant="ghost" title="View shift" onClick={() => setViewingId(row.id)}>
+          <Eye className="h-4 w-4" />
+        </Button>
+      </div>
+    ) },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {canOperate && (
+        <GlassCard className="p-4">
+          {current ? (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-slate-900">{current.shiftNumber}</span>
+                    <Badge className={SHIFT_STATUS_STYLES.OPEN}>OPEN</Badge>
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    Since {format(new Date(current.openedAt), "PP p")} · Float &#8377;{money(current.openingFloat)}
+                    {current.counterNumber ? ` · Counter ${current.counterNumber}` : ""}
+                  </div>
+                </div>
+                <Button onClick={() => setIsClosing(true)}>
+                  <StopCircle className="h-4 w-4 mr-2" /> Close Shift
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {current.methods.map((m) => (
+                  <div key={m.paymentMethod} className="rounded-lg bg-slate-50 p-2">
+                    <div className="text-xs text-slate-500">{m.paymentMethod.replace("_", " ")}</div>
+                    <div className="font-medium">&#8377;{money(m.collected)}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={openShift} className="flex items-end gap-4">
+              <div className="space-y-2">
+                <Label>Opening Float (&#8377;)</Label>
+                <Input type="number" min={0} step="0.01" value={openingFloat} onChange={(e) => setOpeningFloat(e.target.value)} className="w-40" />
+              </div>
+              <div className="space-y-2">
+                <Label>Counter</Label>
+                <Input value={counterNumber} maxLength={20} onChange={(e) => setCounterNumber(e.target.value)} className="w-32" />
+              </div>
+              <Button type="submit" disabled={isOpening}>
+                <PlayCircle className="h-4 w-4 mr-2" /> {isOpening ? "Opening..." : "Open Shift"}
+              </Button>
+              <p className="text-sm text-slate-500 pb-2">No open shift. Collections are only attached to a shift while it is open.</p>
+            </form>
+          )}
+        </GlassCard>
+      )}
+
+      <GlassCard className="p-4">
+        <div className="flex items-center gap-4">
+          <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-44" />
+          <Button variant="ghost" size="icon" onClick={refresh} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+          {canViewAll && (
+            <Button variant="outline" className="ml-auto" onClick={() => window.open(`/print/day-end-collection/${date}`, "_blank")}>
+              <Printer className="h-4 w-4 mr-2" /> Day-End Report
+            </Button>
+          )}
+        </div>
+      </GlassCard>
+
+      <GlassCard className="p-0 overflow-hidden">
+        <DataTable columns={columns} data={shifts} loading={isLoading} emptyMessage="No shifts on this day" />
+      </GlassCard>
+
+      <ShiftCloseDrawer
+        isOpen={isClosing}
+        shift={current}
+        onClose={() => setIsClosing(false)}
+        onSuccess={() => { setIsClosing(false); refresh(); }}
+      />
+
+      <ShiftDetailDrawer
+        isOpen={!!viewingId}
+        shiftId={viewingId}
+        canApprove={canApprove}
+        currentUserId={currentUserId}
+        onClose={() => setViewingId(null)}
+        onApproved={() => { setViewingId(null); fetchShifts(); }}
+      />
+    </div>
+  );
+}
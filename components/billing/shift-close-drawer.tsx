@@ -0,0 +1,175 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+import { CASH_DENOMINATIONS } from "@/lib/schemas/billing-schema";
+import { money, VarianceText, type ShiftDetail } from "./shift-detail-drawer";
+
+interface ShiftCloseDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  shift: ShiftDetail | null;
+}
+
+export function ShiftCloseDrawer({ isOpen, onClose, onSuccess, shift }: ShiftCloseDrawerProps) {
+  const { addToast } = useToast();
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [countedAmounts, setCountedAmounts] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !shift) return;
+    setCounts({});
+    setNotes("");
+    // Non-cash methods default to the system figure; the cashier corrects them from settlement slips
+    setCountedAmounts(Object.fromEntries(
+      shift.methods.filter((m) => m.paymentMethod !== "CASH").map((m) => [m.paymentMethod, m.expected])
+    ));
+  }, [isOpen, shift]);
+
+  const countedCash = CASH_DENOMINATIONS.reduce((sum, value) => sum + value * (parseInt(counts[value] ?? "", 10) || 0), 0);
+  const cashLine = shift?.methods.find((m) => m.paymentMethod === "CASH");
+  const otherLines = shift?.methods.filter((m) => m.paymentMethod !== "CASH") ?? [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shift) return;
+
+    const body = {
+      version: shift.version,
+      denominations: Object.fromEntries(
+        CASH_DENOMINATIONS.map((value) => [String(value), parseInt(counts[value] ?? "", 10) || 0])
+      ),
+      countedAmounts: Object.fromEntries(
+        Object.entries(countedAmounts).map(([method, v]) => [method, parseFloat(v) || 0])
+      ),
+      notes,
+    };
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/billing/shifts/${shift.id}/close`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json();
+      if (result.success) {
+        const variance = parseFloat(result.data.totalVariance ?? "0");
+        addToast("success", variance === 0 ? result.message : `${result.message}. Variance: ₹${money(variance)}`);
+        onSuccess();
+      } else {
+        addToast("error", result.message || "Failed to close shift");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title="Close Shift">
+      <form onSubmit={handleSubmit} className="flex flex-col h-full">
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {shift && (
+            <div>
+              <div className="font-medium text-slate-900">{shift.shiftNumber}</div>
+              <div className="text-xs text-slate-500">
+                Opening float &#8377;{money(shift.openingFloat)}{shift.counterNumber ? ` · Counter ${shift.counterNumber}` : ""}
+              </div>
+            </div>
+          )}
+
+          {/* Denomination count */}
+          <div className="space-y-2">
+            <Label>Cash Count</Label>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+              {CASH_DENOMINATIONS.map((value) => (
+                <div key={value} className="flex items-center gap-2">
+                  <span className="w-14 text-sm text-slate-600 text-right">&#8377;{value} ×</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="1"
+                    className="h-8"
+                    value={counts[value] ?? ""}
+                    onChange={(e) => setCounts((c) => ({ ...c, [value]: e.target.value }))}
+                  />
+                  <span className="w-24 text-sm text-right">{money(value * (parseInt(counts[value] ?? "", 10) || 0))}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Reconciliation preview */}
+          <div className="space-y-2">
+            <Label>System vs Counted</Label>
+            <div className="border rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50">
+                  <tr className="text-left">
+                    <th className="px-3 py-2 font-medium">Method</th>
+                    <th className="px-3 py-2 font-medium text-right">Expected</th>
+                    <th className="px-3 py-2 font-medium w-32">Counted</th>
+                    <th className="px-3 py-2 font-medium text-right">Variance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-t">
+                    <td className="px-3 py-2">CASH</td>
+                    <td className="px-3 py-2 text-right">{money(cashLine?.expected ?? shift?.openingFloat ?? 0)}</td>
+                    <td className="px-3 py-2">{money(countedCash)}</td>
+                    <td className="px-3 py-2 text-right">
+                      <VarianceText value={(countedCash - parseFloat(cashLine?.expected ?? shift?.openingFloat ?? "0")).toFixed(2)} />
+                    </td>
+                  </tr>
+                  {otherLines.map((m) => (
+                    <tr key={m.paymentMethod} className="border-t">
+                      <td className="px-3 py-2">{m.paymentMethod.replace("_", " ")}</td>
+                      <td className="px-3 py-2 text-right">{money(m.expected)}</td>
+                      <td className="px-3 py-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          className="h-8"
+                          value={countedAmounts[m.paymentMethod] ?? ""}
+                          onChange={(e) => setCountedAmounts((a) => ({ ...a, [m.paymentMethod]: e.target.value }))}
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <VarianceText value={((parseFloat(countedAmounts[m.paymentMethod]) || 0) - parseFloat(m.expected)).toFixed(2)} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-slate-500">Expected cash includes the opening float. Enter card / UPI totals from the settlement slips.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Closing Note</Label>
+            <Textarea rows={3} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t p-4 flex items-center justify-end gap-3">
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={isSubmitting || !shift}>
+            {isSubmitting ? "Closing..." : "Close Shift"}
+          </Button>
+        </div>
+      </form>
+    </Drawer>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+import { format } from "date-fns";
+
+export type ShiftStatus = "OPEN" | "CLOSED" | "APPROVED";
+
+export interface ShiftMethodTotal {
+  paymentMethod: string;
+  registrations: string;
+  pharmacySales: string;
+  payments: string;
+  refunds: string;
+  collected: string;
+  expected: string;
+  counted: string | null;
+  variance: string | null;
+}
+
+export interface ShiftSummary {
+  id: string;
+  shiftNumber: string;
+  cashierId: string;
+  cashierName: string;
+  counterNumber: string | null;
+  status: ShiftStatus;
+  openingFloat: string;
+  openedAt: string;
+  closedAt: string | null;
+  countedCash: string | null;
+  totalCollected: string;
+  totalVariance: string | null;
+  approvedAt: string | null;
+  approvedByName: string | null;
+  version: number;
+}
+
+export interface ShiftDetail extends ShiftSummary {
+  openingNotes: string | null;
+  closingNotes: string | null;
+  approvalNotes: string | null;
+  denominations: Record<string, number> | null;
+  methods: ShiftMethodTotal[];
+  counts: { registrations: number; pharmacySales: number; payments: number; refunds: number };
+}
+
+export const SHIFT_STATUS_STYLES: Record<ShiftStatus, string> = {
+  OPEN: "bg-blue-100 text-blue-700",
+  CLOSED: "bg-amber-100 text-amber-700",
+  APPROVED: "bg-green-100 text-green-700",
+};
+
+export const money = (value: string | number) =>
+  parseFloat(String(value)).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function VarianceText({ value }: { value: string | null }) {
+  if (value === null) return <span className="text-slate-400">-</span>;
+  const val = parseFloat(value);
+  if (val === 0) return <span className="text-green-600">0.00</span>;
+  return <span className={val < 0 ? "text-red-600 font-medium" : "text-amber-600 font-medium"}>{val > 0 ? "+" : ""}{money(val)}</span>;
+}
+
+interface ShiftDetailDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApproved: () => void;
+  shiftId: string | null;
+  canApprove: boolean;
+  currentUserId: string;
+}
+
+export function ShiftDetailDrawer({ isOpen, onClose, onApproved, shiftId, canApprove, currentUserId }: ShiftDetailDrawerProps) {
+  const { addToast } = useToast();
+  const [shift, setShift] = useState<ShiftDetail | null>(null);
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !shiftId) return;
+    setShift(null);
+    setNotes("");
+    fetch(`/api/billing/shifts/${shiftId}`)
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) {
+          setShift(result.data);
+        } else {
+          addToast("error", result.message || "Failed to load shift");
+        }
+      })
+      .catch(() => addToast("error", "Network error"));
+  }, [isOpen, shiftId, addToast]);
+
+  const approve = async () => {
+    if (!shift) return;
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/billing/shifts/${shift.id}/approve`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ version: shift.version, notes }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Shift signed off");
+        onApproved();
+      } else {
+        addToast("error", result.message || "Failed to sign off shift");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const hasVariance = !!shift?.totalVariance && parseFloat(shift.totalVariance) !== 0;
+  const showApproval = !!shift && canApprove && shift.status === "CLOSED" && shift.cashierId !== currentUserId;
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title={shift ? `Shift ${shift.shiftNumber}` : "Shift"}>
+      <div className="flex flex-col h-full">
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {!shift ? (
+            <div className="flex items-center justify-center p-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <div className="text-xs text-slate-500">Cashier</div>
+                  <div className="font-medium">{shift.cashierName}{shift.counterNumber ? ` · Counter ${shift.counterNumber}` : ""}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500">Status</div>
+                  <Badge className={SHIFT_STATUS_STYLES[shift.status]}>{shift.status}</Badge>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500">Opened</div>
+                  <div>{format(new Date(shift.openedAt), "PP p")}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500">Closed</div>
+                  <div>{shift.closedAt ? format(new Date(shift.closedAt), "PP p") : "-"}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500">Opening Float</div>
+                  <div>&#8377;{money(shift.openingFloat)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500">Transactions</div>
+                  <div>
+                    {shift.counts.registrations} registrations · {shift.counts.pharmacySales} sales · {shift.counts.payments} payments · {shift.counts.refunds} refunds
+                  </div>
+                </div>
+              </div>
+
+              {/* Per-method reconciliation */}
+              <div className="space-y-2">
+                <Label>Collections by Payment Method</Label>
+                <div className="border rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50">
+                      <tr className="text-left">
+                        <th className="px-3 py-2 font-medium">Method</th>
+                        <th className="px-3 py-2 font-medium text-right">Collected</th>
+                        <th className="px-3 py-2 font-medium text-right">Expected</th>
+                        <th className="px-3 py-2 font-medium text-right">Counted</th>
+                        <th className="px-3 py-2 font-medium text-right">Variance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {shift.methods.map((m) => (
+                        <tr key={m.paymentMethod} className="border-t">
+                          <td className="px-3 py-2">{m.paymentMethod.replace("_", " ")}</td>
+                          <td className="px-3 py-2 text-right">{money(m.collected)}</td>
+                          <td className="px-3 py-2 text-right">{money(m.expected)}</td>
+                          <td className="px-3 py-2 text-right">{m.counted !== null ? money(m.counted) : "-"}</td>
+                          <td className="px-3 py-2 text-right"><VarianceText value={m.variance} /></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-xs text-slate-500">Expected cash includes the opening float.</p>
+              </div>
+
+              {shift.denominations && (
+                <div className="space-y-2">
+                  <Label>Cash Count</Label>
+                  <div className="grid grid-cols-4 gap-2 text-sm">
+                    {Object.entries(shift.denominations)
+                      .filter(([, count]) => count > 0)
+                      .sort(([a], [b]) => Number(b) - Number(a))
+                      .map(([value, count]) => (
+                        <div key={value} className="rounded-lg bg-slate-50 p-2 text-center">
+                          <div className="text-xs text-slate-500">&#8377;{value} × {count}</div>
+                          <div className="font-medium">&#8377;{money(Number(value) * count)}</div>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              )}
+
+              {(shift.openingNotes || shift.closingNotes || shift.approvalNotes) && (
+                <div className="space-y-1 text-sm">
+                  {shift.openingNotes && <p><span className="text-slate-500">Opening note:</span> {shift.openingNotes}</p>}
+                  {shift.closingNotes && <p><span className="text-slate-500">Closing note:</span> {shift.closingNotes}</p>}
+                  {shift.approvalNotes && <p><span className="text-slate-500">Sign-off note:</span> {shift.approvalNotes}</p>}
+                </div>
+              )}
+
+              {shift.status === "APPROVED" && shift.approvedAt && (
+                <p className="text-sm text-green-700">
+                  Signed off by {shift.approvedByName} on {format(new Date(shift.approvedAt), "PP p")}
+                </p>
+              )}
+
+              {showApproval && (
+                <div className="space-y-2">
+                  <Label>Sign-off Note{hasVariance ? " *" : ""}</Label>
+                  <Textarea
+                    rows={3}
+                    placeholder={hasVariance ? "Explain the variance" : "Optional"}
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t p-4 flex items-center justify-end gap-3">
+          <Button type="button" variant="outline" onClick={onClose}>Close</Button>
+          {showApproval && (
+            <Button onClick={approve} disabled={isSubmitting || (hasVariance && !notes.trim())}>
+              {isSubmitting ? "Signing off..." : "Sign Off Shift"}
+            </Button>
+          )}
+        </div>
+      </div>
+    </Drawer>
+  );
+}
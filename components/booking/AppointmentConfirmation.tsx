@@ -0,0 +1,117 @@
+"use client";
+
+/**
+ * Appointment Confirmation
+ *
+ * Landing page for the confirmation link sent by SMS. Shows the appointment
+ * and confirms it only when the patient presses Confirm.
+ */
+
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiClient } from "@/lib/api-client";
+import { CheckCircle2 } from "lucide-react";
+
+// Types
+interface ConfirmationDetails {
+  hospitalName: string;
+  patientName: string;
+  appointmentDate: string;
+  appointmentTime: string | null;
+  status: string;
+  doctorName: string | null;
+  departmentName: string | null;
+}
+
+interface AppointmentConfirmationProps {
+  token: string;
+}
+
+export default function AppointmentConfirmation({ token }: AppointmentConfirmationProps) {
+  const [details, setDetails] = useState<ConfirmationDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setError("This confirmation link is invalid or has expired");
+      return;
+    }
+    apiClient
+      .get(`/api/public/appointments/confirm?token=${encodeURIComponent(token)}`)
+      .then(setDetails)
+      .catch((err) => setError(err instanceof Error ? err.message : "This confirmation link is invalid or has expired"));
+  }, [token]);
+
+  const handleConfirm = async () => {
+    setConfirming(true);
+    setError(null);
+    try {
+      await apiClient.post("/api/public/appointments/confirm", { token });
+      setDetails((d) => (d ? { ...d, status: "CONFIRMED" } : d));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to confirm appointment");
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  const confirmed = details?.status === "CONFIRMED";
+  const confirmable = details?.status === "BOOKED" || details?.status === "RESCHEDULED";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-gray-50">
+      <Card className="max-w-md w-full">
+        {!details ? (
+          <CardContent className="p-6 text-center text-muted-foreground">
+            {error || (
+              <div className="flex justify-center">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              </div>
+            )}
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle>{details.hospitalName}</CardTitle>
+              <CardDescription>Appointment for {details.patientName}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="rounded-lg border p-4 text-sm space-y-1">
+                <div className="font-medium">
+                  {new Date(details.appointmentDate).toLocaleDateString("en-IN", {
+                    weekday: "long",
+                    day: "numeric",
+                    month: "long",
+                    year: "numeric",
+                  })}
+                  {details.appointmentTime && ` at ${details.appointmentTime}`}
+                </div>
+                {details.doctorName && <div>Dr. {details.doctorName}</div>}
+                {details.departmentName && <div className="text-muted-foreground">{details.departmentName}</div>}
+              </div>
+
+              {error && <p className="text-sm text-destructive">{error}</p>}
+
+              {confirmed ? (
+                <div className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle2 className="h-5 w-5" />
+                  Your appointment is confirmed
+                </div>
+              ) : confirmable ? (
+                <Button className="w-full" onClick={handleConfirm} disabled={confirming}>
+                  {confirming ? "Confirming..." : "Confirm Appointment"}
+                </Button>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  This appointment can no longer be confirmed. Please contact the hospital.
+                </p>
+              )}
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,518 @@
+"use client";
+
+/**
+ * Patient Booking Portal
+ *
+ * Public self-service flow behind a tenant's booking link: verify with UHID,
+ * registered mobile and OTP, pick department / doctor / date / slot, and
+ * manage upcoming appointments.
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiClient } from "@/lib/api-client";
+import { CalendarCheck, Clock, LogOut, Stethoscope } from "lucide-react";
+
+// Types
+interface BookingInfo {
+  hospitalName: string;
+  bookingWindowDays: number;
+  minLeadMinutes: number;
+  cancelCutoffHours: number;
+  departments: Array<{ id: string; name: string }>;
+  doctors: Array<{
+    id: string;
+    fullName: string;
+    qualifications: string[];
+    specializations: string[];
+    departmentIds: string[];
+  }>;
+}
+
+interface Slot {
+  time: string;
+  endTime: string;
+  isAvailable: boolean;
+}
+
+interface PatientAppointment {
+  id: string;
+  appointmentDate: string;
+  appointmentTime: string | null;
+  status: string;
+  canCancel: boolean;
+  doctorMaster: { id: string; fullName: string } | null;
+  department: { id: string; name: string } | null;
+}
+
+type Step = "IDENTIFY" | "OTP" | "BOOK";
+
+const toDateInput = (date: Date) => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short", year: "numeric" });
+
+interface PatientBookingPortalProps {
+  token: string;
+}
+
+export default function PatientBookingPortal({ token }: PatientBookingPortalProps) {
+  const { addToast } = useToast();
+  const baseUrl = `/api/public/booking/${token}`;
+
+  const [info, setInfo] = useState<BookingInfo | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [step, setStep] = useState<Step>("IDENTIFY");
+  const [submitting, setSubmitting] = useState(false);
+
+  // Verification
+  const [uhid, setUhid] = useState("");
+  const [mobile, setMobile] = useState("");
+  const [otp, setOtp] = useState("");
+  const [patientName, setPatientName] = useState("");
+
+  // Booking
+  const [departmentId, setDepartmentId] = useState("");
+  const [doctorId, setDoctorId] = useState("");
+  const [date, setDate] = useState(toDateInput(new Date()));
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [selectedSlot, setSelectedSlot] = useState<Slot | null>(null);
+  const [chiefComplaint, setChiefComplaint] = useState("");
+
+  // Appointments
+  const [appointments, setAppointments] = useState<PatientAppointment[]>([]);
+  const [cancelTarget, setCancelTarget] = useState<PatientAppointment | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+
+  const lastDay = new Date();
+  lastDay.setDate(lastDay.getDate() + (info?.bookingWindowDays ?? 30));
+
+  const doctors = info?.doctors.filter((d) => !departmentId || d.departmentIds.includes(departmentId)) || [];
+
+  useEffect(() => {
+    apiClient
+      .get(baseUrl)
+      .then(setInfo)
+      .catch((err) => setLinkError(err instanceof Error ? err.message : "This booking link is not available"));
+  }, [baseUrl]);
+
+  // A 401 means the 30-minute patient session expired
+  const handleSessionError = useCallback(
+    (err: unknown, fallback: string) => {
+      const message = err instanceof Error ? err.message : fallback;
+      addToast("error", message);
+      if ((err as { statusCode?: number })?.statusCode === 401) {
+        setStep("IDENTIFY");
+        setOtp("");
+      }
+    },
+    [addToast]
+  );
+
+  const fetchAppointments = useCallback(async () => {
+    try {
+      const data = await apiClient.get(`${baseUrl}/appointments`);
+      setAppointments(data);
+    } catch (err) {
+      handleSessionError(err, "Failed to load appointments");
+    }
+  }, [baseUrl, handleSessionError]);
+
+  useEffect(() => {
+    if (step !== "BOOK" || !doctorId || !date) {
+      setSlots([]);
+      return;
+    }
+
+    setSlotsLoading(true);
+    setSelectedSlot(null);
+    const params = new URLSearchParams({ doctorId, date });
+    if (departmentId) params.set("departmentId", departmentId);
+    apiClient
+      .get(`${baseUrl}/slots?${params}`)
+      .then((data) => setSlots(data?.slots || []))
+      .catch((err) => {
+        setSlots([]);
+        handleSessionError(err, "Failed to load slots");
+      })
+      .finally(() => setSlotsLoading(false));
+  }, [step, baseUrl, doctorId, departmentId, date, handleSessionError]);
+
+  const handleRequestOtp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      await apiClient.post(`${baseUrl}/otp/request`, { uhid, mobile });
+      addToast("success", "If the details match our records, an OTP has been sent to your mobile");
+      setStep("OTP");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to send OTP";
+      addToast("error", message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVerifyOtp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const data = await apiClient.post(`${baseUrl}/otp/verify`, { uhid, otp });
+      setPatientName(data.patientName);
+      setStep("BOOK");
+      fetchAppointments();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to verify OTP";
+      addToast("error", message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await apiClient.delete(`${baseUrl}/session`);
+    } finally {
+      setStep("IDENTIFY");
+      setOtp("");
+      setAppointments([]);
+    }
+  };
+
+  const handleBook = async () => {
+    if (!selectedSlot) return;
+
+    const doctor = info?.doctors.find((d) => d.id === doctorId);
+    const bookingDepartmentId = departmentId || doctor?.departmentIds[0];
+    if (!bookingDepartmentId) {
+      addToast("error", "Please select a department");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await apiClient.post(`${baseUrl}/appointments`, {
+        departmentId: bookingDepartmentId,
+        doctorId,
+        appointmentDate: date,
+        appointmentTime: selectedSlot.time,
+        slotEndTime: selectedSlot.endTime,
+        chiefComplaint: chiefComplaint || undefined,
+      });
+      addToast("success", `Appointment booked for ${formatDate(date)} at ${selectedSlot.time}`);
+      setSelectedSlot(null);
+      setChiefComplaint("");
+      fetchAppointments();
+    } catch (err) {
+      handleSessionError(err, "Failed to book appointment");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelTarget || !cancelReason.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await apiClient.post(`${baseUrl}/appointments/${cancelTarget.id}/cancel`, { cancelReason });
+      addToast("success", "Appointment cancelled");
+      setCancelTarget(null);
+      setCancelReason("");
+      fetchAppointments();
+    } catch (err) {
+      handleSessionError(err, "Failed to cancel appointment");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (linkError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6 bg-gray-50">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-6 text-center text-muted-foreground">{linkError}</CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!info) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900">{info.hospitalName}</h1>
+            <p className="text-sm text-slate-600">Book an appointment online</p>
+          </div>
+          {step === "BOOK" && (
+            <Button variant="ghost" size="sm" onClick={handleSignOut}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out
+            </Button>
+          )}
+        </div>
+
+        {step !== "BOOK" && (
+          <Card className="max-w-md">
+            <CardHeader>
+              <CardTitle>Verify your identity</CardTitle>
+              <CardDescription>
+                Enter your UHID and the mobile number registered with the hospital
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {step === "IDENTIFY" ? (
+                <form onSubmit={handleRequestOtp} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="uhid">UHID</Label>
+                    <Input id="uhid" value={uhid} onChange={(e) => setUhid(e.target.value)} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="mobile">Registered Mobile</Label>
+                    <Input
+                      id="mobile"
+                      type="tel"
+                      value={mobile}
+                      onChange={(e) => setMobile(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={submitting}>
+                    {submitting ? "Sending..." : "Send OTP"}
+                  </Button>
+                </form>
+              ) : (
+                <form onSubmit={handleVerifyOtp} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="otp">One-time passcode</Label>
+                    <Input
+                      id="otp"
+                      inputMode="numeric"
+                      maxLength={6}
+                      value={otp}
+                      onChange={(e) => setOtp(e.target.value.replace(/\D/g, ""))}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={submitting || otp.length !== 6}>
+                    {submitting ? "Verifying..." : "Verify"}
+                  </Button>
+                  <Button type="button" variant="ghost" className="w-full" onClick={() => setStep("IDENTIFY")}>
+                    Change details
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "BOOK" && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Hello, {patientName}</CardTitle>
+                <CardDescription>
+                  Appointments can be booked up to {info.bookingWindowDays} days ahead and cancelled online up to{" "}
+                  {info.cancelCutoffHours} hours before the slot
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div className="space-y-2">
+                    <Label>Department</Label>
+                    <Select
+                      value={departmentId}
+                      onValueChange={(value) => {
+                        setDepartmentId(value);
+                        setDoctorId("");
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select department" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {info.departments.map((dept) => (
+                          <SelectItem key={dept.id} value={dept.id}>
+                            {dept.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Doctor</Label>
+                    <Select value={doctorId} onValueChange={setDoctorId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select doctor" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {doctors.map((doc) => (
+                          <SelectItem key={doc.id} value={doc.id}>
+                            Dr. {doc.fullName}
+                            {doc.specializations.length > 0 && ` (${doc.specializations[0]})`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Date</Label>
+                    <Input
+                      type="date"
+                      value={date}
+                      min={toDateInput(new Date())}
+                      max={toDateInput(lastDay)}
+                      onChange={(e) => setDate(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                {doctorId && (
+                  <div className="space-y-2">
+                    <Label>Available Slots</Label>
+                    {slotsLoading ? (
+                      <div className="flex items-center justify-center p-4">
+                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                      </div>
+                    ) : slots.filter((s) => s.isAvailable).length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No open slots on this date</p>
+                    ) : (
+                      <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+                        {slots
+                          .filter((s) => s.isAvailable)
+                          .map((slot) => (
+                            <Button
+                              key={slot.time}
+                              type="button"
+                              size="sm"
+                              variant={selectedSlot?.time === slot.time ? "default" : "outline"}
+                              onClick={() => setSelectedSlot(slot)}
+                            >
+                              {slot.time}
+                            </Button>
+                          ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {selectedSlot && (
+                  <div className="space-y-2">
+                    <Label>Reason for visit (optional)</Label>
+                    <Textarea
+                      value={chiefComplaint}
+                      onChange={(e) => setChiefComplaint(e.target.value)}
+                      maxLength={500}
+                      rows={2}
+                    />
+                  </div>
+                )}
+
+                <Button onClick={handleBook} disabled={submitting || !selectedSlot}>
+                  <CalendarCheck className="h-4 w-4 mr-2" />
+                  {submitting ? "Booking..." : "Book Appointment"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Upcoming Appointments</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0 divide-y">
+                {appointments.length === 0 ? (
+                  <div className="text-center py-6 text-muted-foreground text-sm">No upcoming appointments</div>
+                ) : (
+                  appointments.map((apt) => (
+                    <div key={apt.id} className="flex items-center gap-3 px-6 py-3 text-sm">
+                      <Stethoscope className="h-4 w-4 text-slate-500" />
+                      <div className="flex-1">
+                        <div className="font-medium">
+                          {apt.doctorMaster ? `Dr. ${apt.doctorMaster.fullName}` : "Doctor to be assigned"}
+                        </div>
+                        <div className="text-xs text-muted-foreground flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          {formatDate(apt.appointmentDate)} {apt.appointmentTime || ""}
+                          {apt.department && ` · ${apt.department.name}`}
+                        </div>
+                      </div>
+                      <Badge variant="outline">{apt.status.replace("_", " ")}</Badge>
+                      {apt.canCancel && (
+                        <Button variant="ghost" size="sm" onClick={() => setCancelTarget(apt)}>
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      {/* Cancel Dialog */}
+      <Dialog open={!!cancelTarget} onOpenChange={(open) => !open && setCancelTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Appointment</DialogTitle>
+            <DialogDescription>
+              {cancelTarget &&
+                `${formatDate(cancelTarget.appointmentDate)} ${cancelTarget.appointmentTime || ""}${
+                  cancelTarget.doctorMaster ? ` with Dr. ${cancelTarget.doctorMaster.fullName}` : ""
+                }`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Textarea value={cancelReason} onChange={(e) => setCancelReason(e.target.value)} rows={3} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelTarget(null)}>
+              Keep Appointment
+            </Button>
+            <Button variant="destructive" onClick={handleCancel} disabled={submitting || !cancelReason.trim()}>
+              {submitting ? "Cancelling..." : "Cancel Appointment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
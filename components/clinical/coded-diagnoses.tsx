@@ -0,0 +1,233 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Save, Star, X } from "lucide-react";
+import type { CodedDiagnosis } from "@/lib/services/consultation-context";
+
+interface IcdSuggestion {
+  id: string;
+  code: string;
+  description: string;
+  chapter: string;
+  chapterTitle: string | null;
+  isBillable: boolean;
+}
+
+type DiagnosisRow = Pick<CodedDiagnosis, "icdCodeId" | "code" | "description" | "rank" | "certainty">;
+
+interface CodedDiagnosesProps {
+  visitId: string;
+  initial: CodedDiagnosis[];
+  canEdit: boolean;
+  onSaved: () => void;
+}
+
+/**
+ * ICD-10 coded diagnoses for the consultation (primary/secondary,
+ * provisional/final). Saved independently of the prescription.
+ */
+export function CodedDiagnoses({ visitId, initial, canEdit, onSaved }: CodedDiagnosesProps) {
+  const [rows, setRows] = useState<DiagnosisRow[]>(initial);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<IcdSuggestion[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    setRows(initial);
+    setDirty(false);
+  }, [initial]);
+
+  const searchCodes = async (value: string) => {
+    if (value.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/consultation/diagnoses/search?q=${encodeURIComponent(value)}`);
+      const result = await response.json();
+      if (result.success) {
+        setSuggestions(result.data);
+        setShowSuggestions(true);
+      }
+    } catch (err) {
+      console.error("Failed to search ICD codes:", err);
+    }
+  };
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+
+    searchTimeoutRef.current = setTimeout(() => {
+      searchCodes(value);
+    }, 300);
+  };
+
+  const addCode = (s: IcdSuggestion) => {
+    setRows((prev) => {
+      if (prev.some((r) => r.icdCodeId === s.id)) return prev;
+      return [
+        ...prev,
+        {
+          icdCodeId: s.id,
+          code: s.code,
+          description: s.description,
+          rank: prev.some((r) => r.rank === "PRIMARY") ? "SECONDARY" : "PRIMARY",
+          certainty: "PROVISIONAL",
+        },
+      ];
+    });
+    setDirty(true);
+    setQuery("");
+    setSuggestions([]);
+    setShowSuggestions(false);
+  };
+
+  const makePrimary = (icdCodeId: string) => {
+    setRows((prev) => prev.map((r) => ({ ...r, rank: r.icdCodeId === icdCodeId ? "PRIMARY" : "SECONDARY" })));
+    setDirty(true);
+  };
+
+  const setCertainty = (icdCodeId: string, certainty: DiagnosisRow["certainty"]) => {
+    setRows((prev) => prev.map((r) => (r.icdCodeId === icdCodeId ? { ...r, certainty } : r)));
+    setDirty(true);
+  };
+
+  const removeRow = (icdCodeId: string) => {
+    setRows((prev) => {
+      const next = prev.filter((r) => r.icdCodeId !== icdCodeId);
+      // Keep a primary when the primary row is removed
+      if (next.length > 0 && !next.some((r) => r.rank === "PRIMARY")) {
+        next[0] = { ...next[0], rank: "PRIMARY" };
+      }
+      return next;
+    });
+    setDirty(true);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/consultation/diagnoses", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          visitId,
+          diagnoses: rows.map((r) => ({ icdCodeId: r.icdCodeId, rank: r.rank, certainty: r.certainty })),
+        }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setDirty(false);
+        onSaved();
+      } else {
+        alert(result.error || "Failed to save diagnoses");
+      }
+    } catch {
+      alert("Failed to save diagnoses");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">ICD-10 Codes</Label>
+        {canEdit && dirty && (
+          <Button variant="outline" size="sm" onClick={save} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Save className="h-4 w-4 mr-1" />}
+            Save Codes
+          </Button>
+        )}
+      </div>
+
+      {canEdit && (
+        <div className="relative mt-1">
+          <Input
+            value={query}
+            onChange={(e) => handleQueryChange(e.target.value)}
+            onFocus={() => query.length >= 2 && setShowSuggestions(true)}
+            onBlur={() => setTimeout(() => setShowSuggestions(false), 200)}
+            placeholder="Search ICD-10 code or description"
+            className="text-sm"
+          />
+          {showSuggestions && suggestions.length > 0 && (
+            <div className="absolute z-10 mt-1 w-full bg-white border rounded-lg shadow-lg max-h-56 overflow-y-auto">
+              {suggestions.map((s) => (
+                <div
+                  key={s.id}
+                  className="px-3 py-2 hover:bg-gray-100 cursor-pointer text-sm"
+                  onMouseDown={() => addCode(s)}
+                >
+                  <p>
+                    <span className="font-mono font-medium">{s.code}</span> {s.description}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Chapter {s.chapter}{s.chapterTitle ? ` • ${s.chapterTitle}` : ""}
+                    {!s.isBillable && <Badge variant="outline" className="ml-1 text-xs">Category</Badge>}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {rows.map((row) => (
+            <div key={row.icdCodeId} className="flex items-center gap-2 text-sm border rounded px-2 py-1 bg-gray-50">
+              <button
+                type="button"
+                title={row.rank === "PRIMARY" ? "Primary diagnosis" : "Mark as primary"}
+                onClick={() => canEdit && makePrimary(row.icdCodeId)}
+                disabled={!canEdit}
+              >
+                <Star className={`h-4 w-4 ${row.rank === "PRIMARY" ? "fill-amber-400 text-amber-500" : "text-gray-300"}`} />
+              </button>
+              <span className="font-mono font-medium">{row.code}</span>
+              <span className="flex-1 truncate">{row.description}</span>
+              <Select
+                value={row.certainty}
+                onValueChange={(v) => setCertainty(row.icdCodeId, v as DiagnosisRow["certainty"])}
+                disabled={!canEdit}
+              >
+                <SelectTrigger className="w-32 h-7 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="PROVISIONAL">Provisional</SelectItem>
+                  <SelectItem value="FINAL">Final</SelectItem>
+                </SelectContent>
+              </Select>
+              {canEdit && (
+                <Button variant="ghost" size="sm" onClick={() => removeRow(row.icdCodeId)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
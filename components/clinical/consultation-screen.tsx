@@ -32,7 +32,9 @@ import {
   X,
   ArrowLeft,
 } from "lucide-react";
-import type { ConsultationContext } from "@/lib/services/consultation-context";
+import type { ConsultationContext, CodedDiagnosis } from "@/lib/services/consultation-context";
+import type { PrescriptionWarning } from "@/lib/services/prescription-safety";
+import { CodedDiagnoses } from "./coded-diagnoses";
 
 // ============== TYPES ==============
 
@@ -49,6 +51,7 @@ interface PrescriptionItem {
   timing?: string;
   instructions?: string;
   quantity?: number;
+  overrideReason?: string;
 }
 
 interface LabOrderItem {
@@ -89,6 +92,9 @@ interface ConsultationScreenProps {
   visitId: string;
 }
 
+// Stable fallback so CodedDiagnoses does not reset on every render
+const NO_CODED_DIAGNOSES: CodedDiagnosis[] = [];
+
 export function ConsultationScreen({ visitId }: ConsultationScreenProps) {
   const router = useRouter();
   
@@ -104,6 +110,7 @@ export function ConsultationScreen({ visitId }: ConsultationScreenProps) {
   const [diagnosis, setDiagnosis] = useState("");
   const [followUpAdvice, setFollowUpAdvice] = useState("");
   const [labOrders, setLabOrders] = useState<LabOrderItem[]>([]);
+  const [safetyWarnings, setSafetyWarnings] = useState<PrescriptionWarning[]>([]);
   
   // UI states
   const [saving, setSaving] = useState(false);
@@ -219,6 +226,43 @@ export function ConsultationScreen({ visitId }: ConsultationScreenProps) {
     };
   }, [notes, diagnosis, followUpAdvice, prescriptionItems, labOrders, saveDraft, context?.canEdit]);
 
+  // ============== SAFETY CHECKS ==============
+
+  // Re-check only when the medicines change, not on every dosage edit
+  const medicineKey = prescriptionItems.map((i) => `${i.medicineName}|${i.genericName || ""}`).join(";");
+
+  useEffect(() => {
+    if (!context?.canEdit) return;
+    if (!medicineKey.replace(/[|;]/g, "")) {
+      setSafetyWarnings([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/consultation/prescription/check", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            visitId,
+            items: medicineKey.split(";").map((key) => {
+              const [medicineName, genericName] = key.split("|");
+              return { medicineName, genericName: genericName || null };
+            }),
+          }),
+        });
+        const result = await response.json();
+        if (result.success) {
+          setSafetyWarnings(result.data);
+        }
+      } catch (err) {
+        console.error("Failed to check prescription safety:", err);
+      }
+    }, 800);
+
+    return () => clearTimeout(timer);
+  }, [visitId, medicineKey, context?.canEdit]);
+
   // ============== API CALLS ==============
 
   const saveVitals = async () => {
@@ -294,8 +338,10 @@ export function ConsultationScreen({ visitId }: ConsultationScreenProps) {
       });
       const result = await response.json();
       if (result.success) {
+        setSafetyWarnings(result.warnings || []);
         await loadContext();
       } else {
+        if (result.warnings) setSafetyWarnings(result.warnings);
         alert(result.error || "Failed to save prescription");
       }
     } catch {
@@ -495,6 +541,10 @@ export function ConsultationScreen({ visitId }: ConsultationScreenProps) {
         {/* CENTER PANEL - Prescription (Primary) */}
         <div className="flex-1 overflow-y-auto p-4">
           <PrescriptionPanel
+            visitId={visitId}
+            codedDiagnoses={context.consultation?.codedDiagnoses ?? NO_CODED_DIAGNOSES}
+            onDiagnosesSaved={loadContext}
+            safetyWarnings={safetyWarnings}
             diagnosis={diagnosis}
             setDiagnosis={setDiagnosis}
             followUpAdvice={followUpAdvice}
@@ -664,6 +714,10 @@ function PatientContextPanel({
 }
 
 function PrescriptionPanel({
+  visitId,
+  codedDiagnoses,
+  onDiagnosesSaved,
+  safetyWarnings,
   diagnosis,
   setDiagnosis,
   followUpAdvice,
@@ -677,6 +731,10 @@ function PrescriptionPanel({
   canEdit,
   existingPrescription,
 }: {
+  visitId: string;
+  codedDiagnoses: CodedDiagnosis[];
+  onDiagnosesSaved: () => void;
+  safetyWarnings: PrescriptionWarning[];
   diagnosis: string;
   setDiagnosis: (v: string) => void;
   followUpAdvice: string;
@@ -722,6 +780,14 @@ function PrescriptionPanel({
           />
         </div>
 
+        {/* Coded Diagnoses (ICD-10) */}
+        <CodedDiagnoses
+          visitId={visitId}
+          initial={codedDiagnoses}
+          canEdit={canEdit}
+          onSaved={onDiagnosesSaved}
+        />
+
         {/* Follow-up Advice */}
         <div>
           <Label htmlFor="followup" className="text-sm font-medium">
@@ -762,6 +828,14 @@ function PrescriptionPanel({
             </div>
           ) : (
             <div className="space-y-3">
+              {safetyWarnings.length > 0 && (
+                <SafetyWarningsPanel
+                  warnings={safetyWarnings}
+                  items={items}
+                  onUpdateItem={onUpdateItem}
+                  canEdit={canEdit}
+                />
+              )}
               {items.map((item, index) => (
                 <PrescriptionItemRow
                   key={index}
@@ -798,6 +872,61 @@ function PrescriptionPanel({
   );
 }
 
+const SEVERITY_STYLES: Record<PrescriptionWarning["severity"], string> = {
+  MAJOR: "border-red-300 bg-red-50 text-red-800",
+  MODERATE: "border-amber-300 bg-amber-50 text-amber-800",
+  MINOR: "border-slate-200 bg-slate-50 text-slate-700",
+};
+
+const WARNING_TYPE_LABELS: Record<PrescriptionWarning["type"], string> = {
+  INTERACTION: "Interaction",
+  DUPLICATE_THERAPY: "Duplicate therapy",
+  ALLERGY: "Allergy",
+};
+
+function SafetyWarningsPanel({
+  warnings,
+  items,
+  onUpdateItem,
+  canEdit,
+}: {
+  warnings: PrescriptionWarning[];
+  items: PrescriptionItem[];
+  onUpdateItem: (index: number, field: keyof PrescriptionItem, value: string | number) => void;
+  canEdit: boolean;
+}) {
+  return (
+    <div className="space-y-2">
+      {warnings.map((w, i) => {
+        // Override reason is recorded on the last item of the pair (the one being added)
+        const overrideIndex = w.itemIndexes[w.itemIndexes.length - 1];
+        return (
+          <div key={i} className={`border rounded-lg p-2 text-sm ${SEVERITY_STYLES[w.severity]}`}>
+            <div className="flex items-start gap-2">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <div className="flex-1">
+                <p>
+                  <span className="font-semibold">{w.severity} · {WARNING_TYPE_LABELS[w.type]}:</span> {w.message}
+                </p>
+                {w.management && <p className="text-xs mt-0.5">{w.management}</p>}
+                {w.severity === "MAJOR" && items[overrideIndex] && (
+                  <Input
+                    value={items[overrideIndex].overrideReason ?? ""}
+                    onChange={(e) => onUpdateItem(overrideIndex, "overrideReason", e.target.value)}
+                    placeholder="Override reason (required to save)"
+                    disabled={!canEdit}
+                    className="mt-1 h-8 text-sm bg-white"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 function PrescriptionItemRow({
   index,
   item,
@@ -7,6 +7,7 @@
  * - Today's queue (WAITING / IN_PROGRESS / COMPLETED)
  * - Quick stats panel
  * - Actions: START, RESUME, VIEW
+ * - Critical lab value alerts with read-back acknowledgement
  * - Auto-refresh with manual refresh option
  */
 
@@ -53,6 +54,7 @@ import {
   Stethoscope,
   ArrowRight,
   UserCheck,
+  AlertTriangle,
 } from "lucide-react";
 
 // Types
@@ -88,6 +90,21 @@ interface DoctorContext {
   departments: Array<{ id: string; name: string; code: string }>;
 }
 
+interface CriticalAlert {
+  id: string;
+  orderNumber: string;
+  patientName: string;
+  uhid: string;
+  testName: string;
+  resultValue: string;
+  unit: string | null;
+  flag: string | null;
+  referenceRange: string | null;
+  status: "PENDING" | "ESCALATED";
+  isEscalatedToMe: boolean;
+  createdAt: string;
+}
+
 interface InProgressVisit {
   visitId: string;
   patientName: string;
@@ -123,6 +140,13 @@ export default function DoctorDashboard() {
   const [inProgressVisit, setInProgressVisit] = useState<InProgressVisit | null>(null);
   const [pendingVisitId, setPendingVisitId] = useState<string | null>(null);
 
+  // Critical lab alerts
+  const [criticalAlerts, setCriticalAlerts] = useState<CriticalAlert[]>([]);
+  const [ackAlert, setAckAlert] = useState<CriticalAlert | null>(null);
+  const [readBackValue, setReadBackValue] = useState("");
+  const [ackNotes, setAckNotes] = useState("");
+  const [ackLoading, setAckLoading] = useState(false);
+
   // Fetch data on mount
   useEffect(() => {
     fetchData();
@@ -140,6 +164,7 @@ export default function DoctorDashboard() {
     const interval = setInterval(() => {
       fetchQueue();
       fetchStats();
+      fetchCriticalAlerts();
     }, 30000);
     return () => clearInterval(interval);
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -147,7 +172,7 @@ export default function DoctorDashboard() {
 
   const fetchData = async () => {
     setLoading(true);
-    await Promise.all([fetchQueue(), fetchStats()]);
+    await Promise.all([fetchQueue(), fetchStats(), fetchCriticalAlerts()]);
     setLoading(false);
   };
 
@@ -180,6 +205,39 @@ export default function DoctorDashboard() {
     }
   };
 
+  const fetchCriticalAlerts = async () => {
+    try {
+      const response = await apiClient.get<CriticalAlert[]>("/api/lab/critical-alerts");
+      setCriticalAlerts(Array.isArray(response) ? response : []);
+    } catch (error) {
+      console.error("Error fetching critical alerts:", error);
+    }
+  };
+
+  const openAcknowledge = (alert: CriticalAlert) => {
+    setAckAlert(alert);
+    setReadBackValue("");
+    setAckNotes("");
+  };
+
+  const handleAcknowledge = async () => {
+    if (!ackAlert) return;
+    setAckLoading(true);
+    try {
+      await apiClient.post(`/api/lab/critical-alerts/${ackAlert.id}/acknowledge`, {
+        readBackValue,
+        notes: ackNotes,
+      });
+      addToast("success", "Critical result acknowledged");
+      setAckAlert(null);
+      await fetchCriticalAlerts();
+    } catch (error: unknown) {
+      addToast("error", error instanceof Error ? error.message : "Failed to acknowledge alert");
+    } finally {
+      setAckLoading(false);
+    }
+  };
+
   const handleStartConsultation = async (visitId: string, force: boolean = false) => {
     setActionLoading(visitId);
     try {
@@ -313,6 +371,56 @@ export default function DoctorDashboard() {
         </Button>
       </div>
 
+      {/* Critical Lab Alerts */}
+      {criticalAlerts.length > 0 && (
+        <Card className="border-red-300 bg-red-50 dark:bg-red-950/20">
+          <CardHeader className="border-b border-red-200 py-3">
+            <CardTitle className="text-lg flex items-center gap-2 text-red-700">
+              <AlertTriangle className="h-5 w-5" />
+              Critical Lab Values ({criticalAlerts.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableBody>
+                {criticalAlerts.map((alert) => (
+                  <TableRow key={alert.id}>
+                    <TableCell>
+                      <p className="font-medium">{alert.patientName}</p>
+                      <p className="text-sm text-muted-foreground">{alert.uhid} · {alert.orderNumber}</p>
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{alert.testName}</p>
+                      <p className="text-sm text-red-700 font-semibold">
+                        {alert.resultValue} {alert.unit || ""}
+                        {alert.referenceRange && (
+                          <span className="ml-2 font-normal text-muted-foreground">(Ref: {alert.referenceRange})</span>
+                        )}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm">
+                        {new Date(alert.createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={alert.status === "ESCALATED" ? "destructive" : "outline"}>
+                        {alert.status === "ESCALATED" ? (alert.isEscalatedToMe ? "Escalated to you" : "Escalated") : "Unacknowledged"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="destructive" onClick={() => openAcknowledge(alert)}>
+                        Acknowledge
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Stats Cards */}
       {stats && (
         <div className="grid grid-cols-5 gap-4">
@@ -532,6 +640,53 @@ export default function DoctorDashboard() {
         </CardContent>
       </Card>
 
+      {/* Critical Value Read-back Dialog */}
+      <Dialog open={!!ackAlert} onOpenChange={(open) => !open && setAckAlert(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-red-600">
+              <AlertTriangle className="h-5 w-5" />
+              Acknowledge Critical Value
+            </DialogTitle>
+            <DialogDescription>
+              <strong>{ackAlert?.testName}</strong> for <strong>{ackAlert?.patientName}</strong> ({ackAlert?.uhid}) was
+              reported as <strong>{ackAlert?.resultValue} {ackAlert?.unit || ""}</strong>. Read the value back to confirm
+              you have received it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Read-back value *</label>
+              <Input
+                autoFocus
+                placeholder="Type the reported value"
+                value={readBackValue}
+                onChange={(e) => setReadBackValue(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Action taken</label>
+              <Input
+                placeholder="Optional notes"
+                value={ackNotes}
+                onChange={(e) => setAckNotes(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => setAckAlert(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleAcknowledge} disabled={!readBackValue.trim() || ackLoading}>
+              {ackLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Acknowledge
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* In-Progress Warning Dialog */}
       <Dialog open={showInProgressDialog} onOpenChange={setShowInProgressDialog}>
         <DialogContent>
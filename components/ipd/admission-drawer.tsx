@@ -0,0 +1,346 @@
+"use client";
+
+import React, { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import { ArrowRightLeft, LogOut, Loader2, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+
+interface BedStay {
+  id: string;
+  bedLabel: string;
+  wardName: string;
+  startAt: string;
+  endAt: string | null;
+  dailyRate: string;
+  days: number;
+  reason: string | null;
+}
+
+interface AdmissionDetail {
+  id: string;
+  admissionNumber: string;
+  patientName: string;
+  uhid: string;
+  status: "ADMITTED" | "DISCHARGED";
+  wardName: string | null;
+  bedLabel: string | null;
+  doctorName: string | null;
+  departmentName: string | null;
+  admittedAt: string;
+  dischargedAt: string | null;
+  lengthOfStayDays: number;
+  admissionReason: string | null;
+  provisionalDiagnosis: string | null;
+  attendantName: string | null;
+  attendantPhone: string | null;
+  dischargeType: string | null;
+  dischargeNotes: string | null;
+  version: number;
+  bedStays: BedStay[];
+  charges: { pharmacy: string; pharmacySaleCount: number; bed: string; total: string };
+  invoices: Array<{ id: string; invoiceNumber: string; status: string; total: number; outstanding: number }>;
+}
+
+interface FreeBed {
+  id: string;
+  label: string;
+}
+
+interface AdmissionDrawerProps {
+  isOpen: boolean;
+  admissionId: string | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type Mode = "view" | "transfer" | "discharge";
+
+const DISCHARGE_TYPES = [
+  { value: "NORMAL", label: "Normal" },
+  { value: "LAMA", label: "LAMA (against medical advice)" },
+  { value: "REFERRED", label: "Referred" },
+  { value: "ABSCONDED", label: "Absconded" },
+  { value: "DEATH", label: "Death" },
+];
+
+const formatAmount = (value: string | number) =>
+  Number(value).toLocaleString("en-IN", { minimumFractionDigits: 2 });
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+
+export function AdmissionDrawer({ isOpen, admissionId, onClose, onChanged }: AdmissionDrawerProps) {
+  const { addToast } = useToast();
+  const [admission, setAdmission] = useState<AdmissionDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [mode, setMode] = useState<Mode>("view");
+  const [submitting, setSubmitting] = useState(false);
+
+  const [freeBeds, setFreeBeds] = useState<FreeBed[]>([]);
+  const [toBedId, setToBedId] = useState("");
+  const [transferReason, setTransferReason] = useState("");
+  const [dischargeType, setDischargeType] = useState("NORMAL");
+  const [dischargeNotes, setDischargeNotes] = useState("");
+
+  const fetchAdmission = useCallback(async () => {
+    if (!admissionId) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/ipd/admissions/${admissionId}`);
+      const data = await res.json();
+      if (data.success) setAdmission(data.data);
+      else addToast("error", data.message || "Failed to load admission");
+    } catch {
+      addToast("error", "Failed to load admission");
+    } finally {
+      setLoading(false);
+    }
+  }, [admissionId, addToast]);
+
+  const fetchFreeBeds = useCallback(async () => {
+    try {
+      const res = await fetch("/api/ipd/bed-board");
+      const data = await res.json();
+      if (!data.success) return;
+      const beds: FreeBed[] = [];
+      for (const ward of data.data as Array<{ name: string; beds: Array<{ id: string; bedNumber: string; roomNumber: string; bedStatus: string }> }>) {
+        for (const bed of ward.beds) {
+          if (bed.bedStatus === "AVAILABLE" || bed.bedStatus === "RESERVED") {
+            beds.push({ id: bed.id, label: `${ward.name} — ${bed.roomNumber}-${bed.bedNumber}${bed.bedStatus === "RESERVED" ? " (reserved)" : ""}` });
+          }
+        }
+      }
+      setFreeBeds(beds);
+    } catch {
+      // Silent
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode("view");
+      setAdmission(null);
+      setToBedId("");
+      setTransferReason("");
+      setDischargeType("NORMAL");
+      setDischargeNotes("");
+      fetchAdmission();
+    }
+  }, [isOpen, fetchAdmission]);
+
+  useEffect(() => { if (mode === "transfer") fetchFreeBeds(); }, [mode, fetchFreeBeds]);
+
+  const submitAction = async (url: string, body: object, successMessage: string) => {
+    setSubmitting(true);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || successMessage);
+        setMode("view");
+        await fetchAdmission();
+        onChanged();
+      } else {
+        addToast("error", result.message || "Action failed");
+        if (result.errorCode === "VERSION_CONFLICT") await fetchAdmission();
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleTransfer = () => {
+    if (!admission) return;
+    if (!toBedId) return addToast("error", "Select a bed to transfer to");
+    if (!transferReason.trim()) return addToast("error", "Transfer reason is required");
+    submitAction(
+      `/api/ipd/admissions/${admission.id}/transfer`,
+      { toBedId, reason: transferReason, version: admission.version },
+      "Patient transferred"
+    );
+  };
+
+  const handleDischarge = () => {
+    if (!admission) return;
+    submitAction(
+      `/api/ipd/admissions/${admission.id}/discharge`,
+      { dischargeType, dischargeNotes, version: admission.version },
+      "Patient discharged"
+    );
+  };
+
+  const isActive = admission?.status === "ADMITTED";
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title={admission ? `Admission ${admission.admissionNumber}` : "Admission"}>
+      {loading && !admission ? (
+        <div className="flex items-center justify-center py-12 text-slate-500">
+          <Loader2 className="w-5 h-5 animate-spin mr-2" /> Loading...
+        </div>
+      ) : admission ? (
+        <div className="space-y-6">
+          {/* Patient & stay */}
+          <div className="rounded-lg border border-slate-200 bg-slate-50 p-4 text-sm space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-semibold text-slate-900">{admission.patientName}</span>
+              <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${isActive ? "bg-emerald-100 text-emerald-700" : "bg-slate-200 text-slate-700"}`}>
+                {admission.status}
+              </span>
+            </div>
+            <p className="text-slate-500">{admission.uhid}</p>
+            <p>Bed: <span className="font-medium">{admission.wardName ? `${admission.wardName} — ${admission.bedLabel}` : "—"}</span></p>
+            <p>Consultant: {admission.doctorName || "—"}{admission.departmentName ? ` (${admission.departmentName})` : ""}</p>
+            <p>Admitted: {formatDateTime(admission.admittedAt)} · {admission.lengthOfStayDays} day(s)</p>
+            {admission.dischargedAt && (
+              <p>Discharged: {formatDateTime(admission.dischargedAt)} · {admission.dischargeType}</p>
+            )}
+            {admission.provisionalDiagnosis && <p>Diagnosis: {admission.provisionalDiagnosis}</p>}
+            {admission.attendantName && (
+              <p>Attendant: {admission.attendantName}{admission.attendantPhone ? ` · ${admission.attendantPhone}` : ""}</p>
+            )}
+          </div>
+
+          {/* Running charges */}
+          <div>
+            <h3 className="text-sm font-semibold text-slate-700 mb-2">{isActive ? "Running Charges" : "Charges"}</h3>
+            <div className="rounded-lg border border-slate-200 divide-y divide-slate-100 text-sm">
+              <div className="flex justify-between px-4 py-2">
+                <span>Pharmacy ({admission.charges.pharmacySaleCount} sale{admission.charges.pharmacySaleCount === 1 ? "" : "s"})</span>
+                <span>&#8377;{formatAmount(admission.charges.pharmacy)}</span>
+              </div>
+              <div className="flex justify-between px-4 py-2">
+                <span>Bed charges</span>
+                <span>&#8377;{formatAmount(admission.charges.bed)}</span>
+              </div>
+              <div className="flex justify-between px-4 py-2 font-semibold">
+                <span>Total</span>
+                <span>&#8377;{formatAmount(admission.charges.total)}</span>
+              </div>
+            </div>
+            {admission.invoices.length > 0 && (
+              <div className="mt-2 space-y-1 text-xs text-slate-600">
+                {admission.invoices.map((inv) => (
+                  <p key={inv.id}>
+                    Invoice {inv.invoiceNumber} · {inv.status} · &#8377;{formatAmount(inv.total)}
+                    {inv.outstanding > 0 ? ` (due ₹${formatAmount(inv.outstanding)})` : ""}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Bed history */}
+          <div>
+            <h3 className="text-sm font-semibold text-slate-700 mb-2">Bed History</h3>
+            <div className="space-y-2">
+              {admission.bedStays.map((stay) => (
+                <div key={stay.id} className="rounded-md border border-slate-200 px-3 py-2 text-xs">
+                  <div className="flex justify-between">
+                    <span className="font-medium text-slate-800">{stay.wardName} — {stay.bedLabel}</span>
+                    <span>{stay.days} day(s) × &#8377;{formatAmount(stay.dailyRate)}</span>
+                  </div>
+                  <p className="text-slate-500">
+                    {formatDateTime(stay.startAt)} → {stay.endAt ? formatDateTime(stay.endAt) : "current"}
+                  </p>
+                  {stay.reason && <p className="text-slate-500">{stay.reason}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Transfer */}
+          {isActive && mode === "transfer" && (
+            <div className="rounded-lg border border-blue-200 bg-blue-50/50 p-4 space-y-3">
+              <h3 className="text-sm font-semibold text-slate-700">Transfer Bed</h3>
+              <div>
+                <Label>New Bed *</Label>
+                <Select value={toBedId} onValueChange={setToBedId}>
+                  <SelectTrigger><SelectValue placeholder="Select an available bed" /></SelectTrigger>
+                  <SelectContent>
+                    {freeBeds.map((b) => (
+                      <SelectItem key={b.id} value={b.id}>{b.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Reason *</Label>
+                <Input value={transferReason} onChange={(e) => setTransferReason(e.target.value)} placeholder="e.g. Step-down from ICU" />
+              </div>
+              <div className="flex gap-3">
+                <Button className="flex-1" onClick={handleTransfer} disabled={submitting}>
+                  {submitting ? "Transferring..." : "Confirm Transfer"}
+                </Button>
+                <Button variant="outline" onClick={() => setMode("view")}>Cancel</Button>
+              </div>
+            </div>
+          )}
+
+          {/* Discharge */}
+          {isActive && mode === "discharge" && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50/50 p-4 space-y-3">
+              <h3 className="text-sm font-semibold text-slate-700">Discharge Patient</h3>
+              <div>
+                <Label>Discharge Type</Label>
+                <Select value={dischargeType} onValueChange={setDischargeType}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {DISCHARGE_TYPES.map((t) => (
+                      <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Notes</Label>
+                <Textarea value={dischargeNotes} onChange={(e) => setDischargeNotes(e.target.value)} rows={3} />
+              </div>
+              <p className="text-xs text-slate-500">
+                The bed is released for cleaning and a draft invoice with bed and pharmacy charges is prepared.
+              </p>
+              <div className="flex gap-3">
+                <Button className="flex-1" onClick={handleDischarge} disabled={submitting}>
+                  {submitting ? "Discharging..." : "Confirm Discharge"}
+                </Button>
+                <Button variant="outline" onClick={() => setMode("view")}>Cancel</Button>
+              </div>
+            </div>
+          )}
+
+          {mode === "view" && (
+            <Link href={`/ipd/admissions/${admission.id}/discharge-summary`} className="block">
+              <Button variant="outline" className="w-full">
+                <FileText className="w-4 h-4 mr-2" /> Discharge Summary
+              </Button>
+            </Link>
+          )}
+
+          {isActive && mode === "view" && (
+            <div className="flex gap-3">
+              <Button variant="outline" className="flex-1" onClick={() => setMode("transfer")}>
+                <ArrowRightLeft className="w-4 h-4 mr-2" /> Transfer
+              </Button>
+              <Button className="flex-1" onClick={() => setMode("discharge")}>
+                <LogOut className="w-4 h-4 mr-2" /> Discharge
+              </Button>
+            </div>
+          )}
+        </div>
+      ) : null}
+    </Drawer>
+  );
+}
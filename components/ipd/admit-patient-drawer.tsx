@@ -0,0 +1,199 @@
+"use client";
+
+import React, { useEffect, useState, useCallback } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { AdmitPatientSchema, type AdmitPatientInput } from "@/lib/schemas/ipd-schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+
+interface PatientOption { id: string; uhid: string; firstName: string; lastName: string; }
+interface DoctorOption { id: string; fullName: string; doctorCode: string; }
+interface DepartmentOption { id: string; name: string; }
+
+export interface AdmitBedOption {
+  id: string;
+  label: string;
+}
+
+interface AdmitPatientDrawerProps {
+  isOpen: boolean;
+  bed: AdmitBedOption | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const EMPTY_FORM: AdmitPatientInput = {
+  patientId: "",
+  bedId: "",
+  doctorMasterId: "",
+  departmentId: "",
+  admissionReason: "",
+  provisionalDiagnosis: "",
+  attendantName: "",
+  attendantPhone: "",
+};
+
+export function AdmitPatientDrawer({ isOpen, bed, onClose, onSuccess }: AdmitPatientDrawerProps) {
+  const { addToast } = useToast();
+  const [patients, setPatients] = useState<PatientOption[]>([]);
+  const [doctors, setDoctors] = useState<DoctorOption[]>([]);
+  const [departments, setDepartments] = useState<DepartmentOption[]>([]);
+  const [patientSearch, setPatientSearch] = useState("");
+
+  const { register, handleSubmit, reset, setValue, watch, formState: { errors, isSubmitting } } = useForm<AdmitPatientInput>({
+    resolver: zodResolver(AdmitPatientSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  const fetchLookups = useCallback(async () => {
+    try {
+      const [dRes, depRes] = await Promise.all([
+        fetch("/api/masters/doctors?status=ACTIVE&limit=100"),
+        fetch("/api/departments?status=ACTIVE"),
+      ]);
+      const [dData, depData] = await Promise.all([dRes.json(), depRes.json()]);
+      if (dData.success) setDoctors(dData.data || []);
+      if (depData.success) setDepartments(depData.data || []);
+    } catch {
+      addToast("error", "Failed to load lookups");
+    }
+  }, [addToast]);
+
+  const searchPatients = useCallback(async (query: string) => {
+    if (query.length < 2) return;
+    try {
+      const res = await fetch(`/api/patients?search=${encodeURIComponent(query)}&limit=20`);
+      const data = await res.json();
+      if (data.success) setPatients(data.data?.patients || []);
+    } catch {
+      // Silent
+    }
+  }, []);
+
+  useEffect(() => { if (isOpen) fetchLookups(); }, [isOpen, fetchLookups]);
+  useEffect(() => { const t = setTimeout(() => searchPatients(patientSearch), 300); return () => clearTimeout(t); }, [patientSearch, searchPatients]);
+
+  useEffect(() => {
+    if (isOpen) {
+      reset({ ...EMPTY_FORM, bedId: bed?.id ?? "" });
+      setPatientSearch("");
+      setPatients([]);
+    }
+  }, [isOpen, bed, reset]);
+
+  const onSubmit = async (data: AdmitPatientInput) => {
+    try {
+      const res = await fetch("/api/ipd/admissions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Patient admitted");
+        onSuccess();
+      } else {
+        addToast("error", result.message || "Failed to admit patient");
+      }
+    } catch {
+      addToast("error", "Network error");
+    }
+  };
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title={`Admit Patient${bed ? ` — Bed ${bed.label}` : ""}`}>
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        {/* Patient search */}
+        <div>
+          <Label>Patient *</Label>
+          <Input
+            placeholder="Type to search patients (name / UHID)..."
+            value={patientSearch}
+            onChange={(e) => setPatientSearch(e.target.value)}
+            className="mb-2"
+          />
+          {patients.length > 0 && (
+            <div className="border rounded-md max-h-32 overflow-auto">
+              {patients.map((p) => (
+                <div
+                  key={p.id}
+                  className={`px-3 py-2 cursor-pointer hover:bg-blue-50 text-sm ${watch("patientId") === p.id ? "bg-blue-100" : ""}`}
+                  onClick={() => { setValue("patientId", p.id); setPatientSearch(`${p.firstName}${p.lastName ? " " + p.lastName : ""} (${p.uhid})`); setPatients([]); }}
+                >
+                  {p.firstName}{p.lastName ? " " + p.lastName : ""} — <span className="text-slate-500">{p.uhid}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {errors.patientId && <p className="text-sm text-red-500 mt-1">{errors.patientId.message}</p>}
+        </div>
+
+        {/* Consultant & department */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Admitting Consultant</Label>
+            <Select value={watch("doctorMasterId") || ""} onValueChange={(v) => setValue("doctorMasterId", v)}>
+              <SelectTrigger><SelectValue placeholder="Select doctor" /></SelectTrigger>
+              <SelectContent>
+                {doctors.map((d) => (
+                  <SelectItem key={d.id} value={d.id}>{d.fullName} ({d.doctorCode})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Department</Label>
+            <Select value={watch("departmentId") || ""} onValueChange={(v) => setValue("departmentId", v)}>
+              <SelectTrigger><SelectValue placeholder="Doctor's department" /></SelectTrigger>
+              <SelectContent>
+                {departments.map((d) => (
+                  <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div>
+          <Label>Reason for Admission</Label>
+          <Textarea {...register("admissionReason")} rows={2} placeholder="Chief complaint / indication" />
+        </div>
+
+        <div>
+          <Label>Provisional Diagnosis</Label>
+          <Input {...register("provisionalDiagnosis")} placeholder="Provisional diagnosis" />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Attendant Name</Label>
+            <Input {...register("attendantName")} />
+          </div>
+          <div>
+            <Label>Attendant Phone</Label>
+            <Input {...register("attendantPhone")} />
+            {errors.attendantPhone && <p className="text-sm text-red-500 mt-1">{errors.attendantPhone.message}</p>}
+          </div>
+        </div>
+
+        {errors.bedId && <p className="text-sm text-red-500">{errors.bedId.message}</p>}
+
+        {/* Submit */}
+        <div className="flex gap-3 pt-4">
+          <Button type="submit" className="flex-1" disabled={isSubmitting || !bed}>
+            {isSubmitting ? "Admitting..." : "Admit Patient"}
+          </Button>
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+        </div>
+      </form>
+    </Drawer>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import React, { useEffect, useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+import { AlertTriangle, Barcode, CheckCircle2, FlaskConical, Printer, Save } from "lucide-react";
+import { format } from "date-fns";
+
+interface LabResultRecord {
+  id: string;
+  result: string | null;
+  unit: string | null;
+  referenceRange: string | null;
+  isNormal: boolean | null;
+  isCritical: boolean;
+  flag: string | null;
+  notes: string | null;
+  performedAt: string | null;
+  verifiedAt: string | null;
+}
+
+interface LabOrderItemRecord {
+  id: string;
+  testName: string;
+  testCode: string | null;
+  category: string | null;
+  status: string;
+  accessionNumber: string | null;
+  sampleType: string | null;
+  container: string | null;
+  sampleCollectedAt: string | null;
+  expectedRange: string | null;
+  expectedUnit: string | null;
+  result: LabResultRecord | null;
+}
+
+interface LabOrderRecord {
+  id: string;
+  orderNumber: string;
+  orderDate: string;
+  patientName: string;
+  uhid: string;
+  gender: string;
+  ageYears: number | null;
+  doctorName: string;
+  priority: string;
+  status: string;
+  notes: string | null;
+  items: LabOrderItemRecord[];
+}
+
+interface ResultDraft {
+  result: string;
+  unit: string;
+  notes: string;
+}
+
+export const LAB_STATUS_COLORS: Record<string, string> = {
+  ORDERED: "bg-slate-100 text-slate-700",
+  SAMPLE_COLLECTED: "bg-blue-100 text-blue-800",
+  IN_PROGRESS: "bg-amber-100 text-amber-800",
+  COMPLETED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-red-100 text-red-700",
+};
+
+const FLAG_COLORS: Record<string, string> = {
+  NORMAL: "bg-green-100 text-green-800",
+  LOW: "bg-amber-100 text-amber-800",
+  HIGH: "bg-amber-100 text-amber-800",
+  ABNORMAL: "bg-amber-100 text-amber-800",
+  CRITICAL_LOW: "bg-red-600 text-white",
+  CRITICAL_HIGH: "bg-red-600 text-white",
+};
+
+interface LabOrderDrawerProps {
+  orderId: string | null;
+  onClose: () => void;
+  onUpdated: () => void;
+}
+
+export function LabOrderDrawer({ orderId, onClose, onUpdated }: LabOrderDrawerProps) {
+  const { addToast } = useToast();
+  const [order, setOrder] = useState<LabOrderRecord | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [drafts, setDrafts] = useState<Record<string, ResultDraft>>({});
+
+  const applyOrder = useCallback((data: LabOrderRecord) => {
+    setOrder(data);
+    setSelected(new Set());
+    const next: Record<string, ResultDraft> = {};
+    for (const item of data.items) {
+      next[item.id] = {
+        result: item.result?.result ?? "",
+        unit: item.result?.unit ?? item.expectedUnit ?? "",
+        notes: item.result?.notes ?? "",
+      };
+    }
+    setDrafts(next);
+  }, []);
+
+  useEffect(() => {
+    if (!orderId) { setOrder(null); return; }
+    setLoading(true);
+    fetch(`/api/lab/orders/${orderId}`)
+      .then((r) => r.json())
+      .then((res) => {
+        if (res.success) applyOrder(res.data);
+        else addToast("error", res.message || "Failed to load lab order");
+      })
+      .catch(() => addToast("error", "Network error"))
+      .finally(() => setLoading(false));
+  }, [orderId, applyOrder, addToast]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+
+  const updateDraft = (id: string, field: keyof ResultDraft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  const runAction = async (action: "collect" | "results" | "verify", body: unknown) => {
+    if (!order) return;
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/lab/orders/${order.id}?action=${action}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Saved");
+        applyOrder(result.data);
+        onUpdated();
+      } else {
+        addToast("error", result.message || "Failed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const items = order?.items ?? [];
+  const selectedItems = items.filter((i) => selected.has(i.id));
+  const canCollect = selectedItems.length > 0 && selectedItems.every((i) => i.status === "ORDERED");
+  const canVerify = selectedItems.length > 0 && selectedItems.every((i) => i.status === "IN_PROGRESS");
+  const pendingEntries = items.filter(
+    (i) => (i.status === "SAMPLE_COLLECTED" || i.status === "IN_PROGRESS") && drafts[i.id]?.result.trim()
+      && drafts[i.id].result.trim() !== (i.result?.result ?? "")
+  );
+
+  const hasVerified = items.some((i) => i.result?.verifiedAt);
+
+  const handleCollect = () => runAction("collect", { itemIds: selectedItems.map((i) => i.id) });
+  const handleVerify = () => {
+    if (!confirm(`Verify ${selectedItems.length} result(s)? Verified results cannot be edited.`)) return;
+    runAction("verify", { itemIds: selectedItems.map((i) => i.id) });
+  };
+  const handleSaveResults = () => runAction("results", {
+    results: pendingEntries.map((i) => ({
+      itemId: i.id,
+      result: drafts[i.id].result.trim(),
+      unit: drafts[i.id].unit,
+      notes: drafts[i.id].notes,
+    })),
+  });
+
+  const footer = (
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex items-center gap-2">
+        <Button variant="outline" onClick={onClose}>Close</Button>
+        {hasVerified && order && (
+          <Button variant="ghost" onClick={() => window.open(`/print/lab-report/${order.id}`, "_blank")}>
+            <Printer className="h-4 w-4 mr-2" />Report
+          </Button>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" onClick={handleCollect} disabled={!canCollect || submitting}>
+          <Barcode className="h-4 w-4 mr-2" />Collect Sample
+        </Button>
+        <Button variant="outline" onClick={handleSaveResults} disabled={pendingEntries.length === 0 || submitting}>
+          <Save className="h-4 w-4 mr-2" />Save Results
+        </Button>
+        <Button onClick={handleVerify} disabled={!canVerify || submitting}>
+          <CheckCircle2 className="h-4 w-4 mr-2" />Verify
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Drawer isOpen={!!orderId} onClose={onClose} title={order ? `Lab Order ${order.orderNumber}` : "Lab Order"} footer={footer} width="w-3/5">
+      {loading || !order ? (
+        <div className="py-12 text-center text-slate-500">Loading...</div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <div className="font-medium text-slate-900">{order.patientName}</div>
+              <div className="text-slate-500">{order.uhid} · {order.gender}{order.ageYears !== null ? ` · ${order.ageYears}y` : ""}</div>
+            </div>
+            <div className="text-right">
+              <div className="text-slate-700">Dr. {order.doctorName}</div>
+              <div className="text-slate-500">{format(new Date(order.orderDate), "PP p")}</div>
+            </div>
+          </div>
+          {order.notes && <p className="text-sm text-slate-600 bg-slate-50 rounded p-3">{order.notes}</p>}
+
+          <div className="space-y-3">
+            {items.map((item) => {
+              const draft = drafts[item.id] ?? { result: "", unit: "", notes: "" };
+              const editable = (item.status === "SAMPLE_COLLECTED" || item.status === "IN_PROGRESS") && !item.result?.verifiedAt;
+              return (
+                <div key={item.id} className={`border rounded-lg p-4 ${item.result?.isCritical ? "border-red-300 bg-red-50/40" : "border-slate-200"}`}>
+                  <div className="flex items-start gap-3">
+                    <Checkbox
+                      checked={selected.has(item.id)}
+                      onCheckedChange={(checked) => toggle(item.id, checked as boolean)}
+                      disabled={item.status === "COMPLETED" || item.status === "CANCELLED"}
+                    />
+                    <div className="flex-1 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <span className="font-medium text-slate-900">{item.testName}</span>
+                          {item.testCode && <span className="ml-2 text-xs text-slate-500">{item.testCode}</span>}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {item.result?.flag && (
+                            <Badge className={FLAG_COLORS[item.result.flag] || "bg-slate-100 text-slate-700"}>
+                              {item.result.isCritical && <AlertTriangle className="h-3 w-3 mr-1" />}
+                              {item.result.flag.replace("_", " ")}
+                            </Badge>
+                          )}
+                          <Badge className={LAB_STATUS_COLORS[item.status] || "bg-slate-100 text-slate-700"}>{item.status.replace("_", " ")}</Badge>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-4 text-xs text-slate-500">
+                        {item.sampleType && <span><FlaskConical className="inline h-3 w-3 mr-1" />{item.sampleType}{item.container ? ` (${item.container})` : ""}</span>}
+                        {item.accessionNumber && <span className="font-mono text-slate-700">{item.accessionNumber}</span>}
+                        {item.sampleCollectedAt && <span>Collected {format(new Date(item.sampleCollectedAt), "PP p")}</span>}
+                        {item.expectedRange && <span>Ref: {item.expectedRange}{item.expectedUnit ? ` ${item.expectedUnit}` : ""}</span>}
+                      </div>
+                      {editable ? (
+                        <div className="grid grid-cols-6 gap-2">
+                          <Input className="col-span-2" placeholder="Result" value={draft.result} onChange={(e) => updateDraft(item.id, "result", e.target.value)} />
+                          <Input className="col-span-1" placeholder="Unit" value={draft.unit} onChange={(e) => updateDraft(item.id, "unit", e.target.value)} />
+                          <Input className="col-span-3" placeholder="Notes" value={draft.notes} onChange={(e) => updateDraft(item.id, "notes", e.target.value)} />
+                        </div>
+                      ) : item.result ? (
+                        <div className="text-sm">
+                          <span className="font-semibold text-slate-900">{item.result.result}</span>
+                          {item.result.unit && <span className="ml-1 text-slate-600">{item.result.unit}</span>}
+                          {item.result.verifiedAt && (
+                            <span className="ml-3 text-xs text-green-700">Verified {format(new Date(item.result.verifiedAt), "PP p")}</span>
+                          )}
+                        </div>
+                      ) : null}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </Drawer>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import React, { useEffect, useState, useCallback } from "react";
+import { ArrowLeftRight, AlertTriangle, Ban, Loader2, GitMerge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+
+interface PatientSummary {
+  id: string;
+  uhid: string;
+  name: string;
+  gender: string;
+  dateOfBirth: string | null;
+  ageYears: number | null;
+  primaryMobile: string;
+  createdAt: string;
+  version: number;
+}
+
+interface FieldComparison {
+  key: string;
+  label: string;
+  survivorValue: string;
+  mergedValue: string;
+  differs: boolean;
+  defaultSelection: "SURVIVOR" | "MERGED";
+}
+
+interface MergePreview {
+  survivor: PatientSummary;
+  merged: PatientSummary;
+  fields: FieldComparison[];
+  recordCounts: Record<string, number>;
+  blockers: string[];
+  warnings: string[];
+}
+
+interface PatientMergeDrawerProps {
+  isOpen: boolean;
+  pair: [string, string] | null;
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+const RECORD_LABELS: Record<string, string> = {
+  visits: "Visits",
+  appointments: "Appointments",
+  prescriptions: "Prescriptions",
+  labOrders: "Lab orders",
+  invoices: "Invoices",
+  payments: "Payments",
+  pharmacySales: "Pharmacy sales",
+  creditLedgers: "Credit ledger entries",
+  admissions: "Admissions",
+  documents: "Documents",
+};
+
+export function PatientMergeDrawer({ isOpen, pair, onClose, onMerged }: PatientMergeDrawerProps) {
+  const { addToast } = useToast();
+  const [survivorId, setSurvivorId] = useState<string | null>(null);
+  const [mergedId, setMergedId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [selections, setSelections] = useState<Record<string, "SURVIVOR" | "MERGED">>({});
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchPreview = useCallback(async () => {
+    if (!survivorId || !mergedId) return;
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ survivorId, mergedId });
+      const res = await fetch(`/api/patients/merge/preview?${params}`);
+      const data = await res.json();
+      if (data.success) {
+        setPreview(data.data);
+        setSelections(Object.fromEntries(
+          (data.data.fields as FieldComparison[]).map((f) => [f.key, f.defaultSelection])
+        ));
+      } else {
+        addToast("error", data.message || "Failed to load merge preview");
+      }
+    } catch {
+      addToast("error", "Failed to load merge preview");
+    } finally {
+      setLoading(false);
+    }
+  }, [survivorId, mergedId, addToast]);
+
+  useEffect(() => {
+    if (isOpen && pair) {
+      setPreview(null);
+      setReason("");
+      setSurvivorId(pair[0]);
+      setMergedId(pair[1]);
+    }
+  }, [isOpen, pair]);
+
+  useEffect(() => { if (isOpen) fetchPreview(); }, [isOpen, fetchPreview]);
+
+  const handleSwap = () => {
+    setSurvivorId(mergedId);
+    setMergedId(survivorId);
+  };
+
+  const handleMerge = async () => {
+    if (!preview) return;
+    if (!reason.trim()) return addToast("error", "Merge reason is required");
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/patients/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          survivorId: preview.survivor.id,
+          mergedId: preview.merged.id,
+          survivorVersion: preview.survivor.version,
+          mergedVersion: preview.merged.version,
+          fieldSelections: selections,
+          reason,
+        }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", `${preview.merged.uhid} merged into ${preview.survivor.uhid}`);
+        onMerged();
+        onClose();
+      } else {
+        addToast("error", result.message || "Merge failed");
+        if (result.errorCode === "VERSION_CONFLICT") await fetchPreview();
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const blocked = !!preview && preview.blockers.length > 0;
+  const movedTotal = preview ? Object.values(preview.recordCounts).reduce((a, b) => a + b, 0) : 0;
+
+  const footer = preview ? (
+    <div className="flex gap-3">
+      <Button className="flex-1" onClick={handleMerge} disabled={submitting || blocked}>
+        <GitMerge className="w-4 h-4 mr-2" />
+        {submitting ? "Merging..." : `Merge into ${preview.survivor.uhid}`}
+      </Button>
+      <Button variant="outline" onClick={onClose}>Cancel</Button>
+    </div>
+  ) : undefined;
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title="Merge Patients" footer={footer}>
+      {loading && !preview ? (
+        <div className="flex items-center justify-center py-12 text-slate-500">
+          <Loader2 className="w-5 h-5 animate-spin mr-2" /> Loading...
+        </div>
+      ) : preview ? (
+        <div className="space-y-6">
+          {/* Survivor / duplicate */}
+          <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-3">
+            <div className="rounded-lg border border-emerald-200 bg-emerald-50/60 p-3 text-sm">
+              <p className="text-xs font-medium text-emerald-700 uppercase">Keep (survivor)</p>
+              <p className="font-semibold text-slate-900">{preview.survivor.name}</p>
+              <p className="text-slate-600">{preview.survivor.uhid}</p>
+              <p className="text-xs text-slate-500">Registered {new Date(preview.survivor.createdAt).toLocaleDateString("en-IN")}</p>
+            </div>
+            <Button variant="ghost" size="icon" onClick={handleSwap} disabled={loading} title="Swap survivor">
+              <ArrowLeftRight className="h-4 w-4" />
+            </Button>
+            <div className="rounded-lg border border-red-200 bg-red-50/60 p-3 text-sm">
+              <p className="text-xs font-medium text-red-700 uppercase">Retire (duplicate)</p>
+              <p className="font-semibold text-slate-900">{preview.merged.name}</p>
+              <p className="text-slate-600">{preview.merged.uhid}</p>
+              <p className="text-xs text-slate-500">Registered {new Date(preview.merged.createdAt).toLocaleDateString("en-IN")}</p>
+            </div>
+          </div>
+
+          {preview.blockers.map((b) => (
+            <div key={b} className="flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+              <Ban className="h-4 w-4 mt-0.5 shrink-0" /> {b}
+            </div>
+          ))}
+          {preview.warnings.map((w) => (
+            <div key={w} className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" /> {w}
+            </div>
+          ))}
+
+          {/* Field-level survivorship */}
+          <div>
+            <h3 className="text-sm font-semibold text-slate-700 mb-2">Choose the value to keep</h3>
+            <div className="rounded-lg border border-slate-200 divide-y divide-slate-100 text-sm">
+              {preview.fields.filter((f) => f.differs).map((field) => (
+                <div key={field.key} className="grid grid-cols-[120px_1fr_1fr] gap-2 px-3 py-2">
+                  <span className="text-slate-500">{field.label}</span>
+                  {(["SURVIVOR", "MERGED"] as const).map((side) => (
+                    <label key={side} className="flex items-start gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name={`field-${field.key}`}
+                        className="mt-1"
+                        checked={selections[field.key] === side}
+                        onChange={() => setSelections((s) => ({ ...s, [field.key]: side }))}
+                      />
+                      <span className={side === "SURVIVOR" ? "text-slate-900" : "text-slate-700"}>
+                        {(side === "SURVIVOR" ? field.survivorValue : field.mergedValue) || <span className="text-slate-400">—</span>}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              ))}
+              {preview.fields.every((f) => !f.differs) && (
+                <p className="px-3 py-2 text-slate-500">Demographics are identical.</p>
+              )}
+            </div>
+          </div>
+
+          {/* Records that move */}
+          <div>
+            <h3 className="text-sm font-semibold text-slate-700 mb-2">
+              Records moving to {preview.survivor.uhid} ({movedTotal})
+            </h3>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {Object.entries(preview.recordCounts).map(([key, count]) => (
+                <div key={key} className="flex justify-between rounded border border-slate-100 px-3 py-1.5">
+                  <span className="text-slate-600">{RECORD_LABELS[key] || key}</span>
+                  <span className="font-medium">{count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label>Reason *</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              placeholder="e.g. Same patient registered twice at front desk"
+            />
+            <p className="text-xs text-slate-500 mt-1">
+              {preview.merged.uhid} is kept as an inactive record pointing to {preview.survivor.uhid}. The merge can be reversed from Merge History.
+            </p>
+          </div>
+        </div>
+      ) : null}
+    </Drawer>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { DataTable } from "@/components/ui/DataTable";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { useToast } from "@/components/ui/Toast";
+import { CreditSettlementDrawer, type CreditSettlementPatient } from "./credit-settlement-drawer";
+import { Search, RefreshCw, Wallet, Bell, Printer } from "lucide-react";
+
+interface CreditAccount {
+  patientId: string;
+  patientName: string;
+  uhid: string;
+  mobile: string;
+  employerName: string | null;
+  corporateId: string | null;
+  creditLimit: string | null;
+  outstanding: string;
+  overLimit: boolean;
+  oldestAgeDays: number;
+  aging: { "0_30": string; "31_60": string; "60_PLUS": string; total: string };
+}
+
+type AccountRow = CreditAccount & { id: string; aging0to30: string; aging31to60: string; aging60plus: string };
+
+const money = (value: string) => {
+  const val = parseFloat(value);
+  return val > 0 ? <span>&#8377;{val.toFixed(2)}</span> : <span className="text-slate-400">-</span>;
+};
+
+/**
+ * Patients with outstanding pharmacy credit: aging, settlement and reminders
+ */
+export function CreditAccounts() {
+  const [accounts, setAccounts] = useState<AccountRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [settling, setSettling] = useState<CreditSettlementPatient | null>(null);
+  const [remindingId, setRemindingId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const fetchAccounts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (search.trim()) params.append("search", search.trim());
+      const res = await fetch(`/api/pharmacy/credit-ledger/accounts?${params}`);
+      const result = await res.json();
+      if (result.success) {
+        setAccounts((result.data as CreditAccount[]).map((a) => ({
+          ...a,
+          id: a.patientId,
+          aging0to30: a.aging["0_30"],
+          aging31to60: a.aging["31_60"],
+          aging60plus: a.aging["60_PLUS"],
+        })));
+      } else {
+        setAccounts([]);
+        addToast("error", result.message || "Failed to load");
+      }
+    } catch {
+      setAccounts([]);
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, addToast]);
+
+  useEffect(() => { fetchAccounts(); }, [fetchAccounts]);
+
+  const sendReminder = async (row: AccountRow) => {
+    setRemindingId(row.patientId);
+    try {
+      const res = await fetch(`/api/pharmacy/credit-ledger/${row.patientId}/reminder`, { method: "POST" });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", `Reminder sent to ${result.data.sentTo.join(", ")}`);
+      } else {
+        addToast("error", result.message || "Failed to send reminder");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setRemindingId(null);
+    }
+  };
+
+  const columns = [
+    { key: "patientName", header: "Patient", render: (v: string, row: AccountRow) => (
+      <div>
+        <div className="font-medium">{v}</div>
+        <div className="text-xs text-slate-500">{row.uhid} · {row.mobile}</div>
+        {row.employerName && <div className="text-xs text-slate-500">{row.employerName}</div>}
+      </div>
+    ) },
+    { key: "aging0to30", header: "0–30 days", render: (v: string) => money(v) },
+    { key: "aging31to60", header: "31–60 days", render: (v: string) => money(v) },
+    { key: "aging60plus", header: "60+ days", render: (v: string) => (
+      parseFloat(v) > 0
+        ? <span className="text-red-600 font-medium">&#8377;{parseFloat(v).toFixed(2)}</span>
+        : <span className="text-slate-400">-</span>
+    ) },
+    { key: "outstanding", header: "Outstanding", render: (v: string, row: AccountRow) => (
+      <div>
+        <span className="font-semibold">&#8377;{parseFloat(v).toFixed(2)}</span>
+        {row.overLimit && <Badge variant="destructive" className="ml-2">Over limit</Badge>}
+      </div>
+    ) },
+    { key: "creditLimit", header: "Limit", render: (v: string | null) => (
+      v ? <span className="text-sm">&#8377;{parseFloat(v).toFixed(2)}</span> : <span className="text-sm text-slate-400">None</span>
+    ) },
+    { key: "actions", header: "", render: (_: unknown, row: AccountRow) => (
+      <div className="flex items-center justify-end gap-1">
+        <Button size="sm" variant="outline" onClick={() => setSettling({ patientId: row.patientId, patientName: row.patientName, uhid: row.uhid })}>
+          <Wallet className="h-4 w-4 mr-1" /> Settle
+        </Button>
+        <Button size="sm" variant="ghost" title="Send reminder" onClick={() => sendReminder(row)} disabled={remindingId === row.patientId}>
+          <Bell className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" title="Print statement" onClick={() => window.open(`/print/credit-statement/${row.patientId}`, "_blank")}>
+          <Printer className="h-4 w-4" />
+        </Button>
+      </div>
+    ) },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <GlassCard className="p-4">
+        <div className="flex items-center gap-4">
+          <div className="relative flex-1 max-w-sm">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input placeholder="Search patient, UHID, mobile or employer..." value={search} onChange={(e) => setSearch(e.target.value)} className="pl-9" />
+          </div>
+          <Button variant="ghost" size="icon" onClick={() => fetchAccounts()} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </GlassCard>
+
+      <GlassCard className="p-0 overflow-hidden">
+        <DataTable columns={columns} data={accounts} loading={isLoading} emptyMessage="No outstanding credit" />
+      </GlassCard>
+
+      <CreditSettlementDrawer
+        isOpen={!!settling}
+        patient={settling}
+        onClose={() => setSettling(null)}
+        onSuccess={() => { setSettling(null); fetchAccounts(); }}
+        onLimitSaved={fetchAccounts}
+      />
+    </div>
+  );
+}
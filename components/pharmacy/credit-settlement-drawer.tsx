@@ -0,0 +1,326 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Drawer } from "@/components/ui/Drawer";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/Toast";
+import { format } from "date-fns";
+
+type AgingBucket = "0_30" | "31_60" | "60_PLUS";
+
+interface OutstandingEntry {
+  id: string;
+  referenceType: string;
+  notes: string | null;
+  createdAt: string;
+  debitAmount: string;
+  outstanding: string;
+  ageDays: number;
+  bucket: AgingBucket;
+}
+
+interface StatementSummary {
+  outstandingEntries: OutstandingEntry[];
+  aging: Record<AgingBucket | "total", string>;
+  creditLimit: string | null;
+  availableCredit: string | null;
+}
+
+export interface CreditSettlementPatient {
+  patientId: string;
+  patientName: string;
+  uhid: string;
+}
+
+interface CreditSettlementDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  onLimitSaved: () => void;
+  patient: CreditSettlementPatient | null;
+}
+
+const PAYMENT_METHODS = ["CASH", "CARD", "UPI", "NET_BANKING", "CHEQUE", "OTHER"] as const;
+
+const BUCKET_STYLES: Record<AgingBucket, string> = {
+  "0_30": "bg-green-100 text-green-700",
+  "31_60": "bg-amber-100 text-amber-700",
+  "60_PLUS": "bg-red-100 text-red-700",
+};
+
+const money = (value: string | number) =>
+  parseFloat(String(value)).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function CreditSettlementDrawer({ isOpen, onClose, onSuccess, onLimitSaved, patient }: CreditSettlementDrawerProps) {
+  const { addToast } = useToast();
+  const [summary, setSummary] = useState<StatementSummary | null>(null);
+  const [amount, setAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<(typeof PAYMENT_METHODS)[number]>("CASH");
+  const [reference, setReference] = useState("");
+  const [notes, setNotes] = useState("");
+  const [manual, setManual] = useState(false);
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+  const [creditLimit, setCreditLimit] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSavingLimit, setIsSavingLimit] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !patient) return;
+    setSummary(null);
+    setAmount("");
+    setPaymentMethod("CASH");
+    setReference("");
+    setNotes("");
+    setManual(false);
+    setAllocations({});
+    fetch(`/api/pharmacy/credit-ledger/${patient.patientId}/statement`)
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) {
+          setSummary(result.data);
+          setCreditLimit(result.data.creditLimit ?? "");
+        } else {
+          addToast("error", result.message || "Failed to load outstanding credit");
+        }
+      })
+      .catch(() => addToast("error", "Network error"));
+  }, [isOpen, patient, addToast]);
+
+  const allocatedTotal = Object.values(allocations).reduce((sum, v) => sum + (parseFloat(v) || 0), 0);
+  const paymentAmount = manual ? allocatedTotal : parseFloat(amount) || 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!patient || paymentAmount <= 0) return;
+
+    const body = {
+      amount: Math.round(paymentAmount * 100) / 100,
+      paymentMethod,
+      reference,
+      notes,
+      ...(manual
+        ? {
+            allocations: Object.entries(allocations)
+              .filter(([, v]) => parseFloat(v) > 0)
+              .map(([entryId, v]) => ({ entryId, amount: parseFloat(v) })),
+          }
+        : {}),
+    };
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/pharmacy/credit-ledger/${patient.patientId}/settlements`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json();
+      if (result.success) {
+        const numbers = (result.data.payments as Array<{ paymentNumber: string }>).map((p) => p.paymentNumber).join(", ");
+        addToast("success", `Payment ${numbers} recorded. Balance: ₹${money(result.data.balance)}`);
+        onSuccess();
+      } else {
+        addToast("error", result.message || "Failed to record payment");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const saveCreditLimit = async () => {
+    if (!patient) return;
+    setIsSavingLimit(true);
+    try {
+      const res = await fetch(`/api/pharmacy/credit-ledger/${patient.patientId}/credit-limit`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ creditLimit: creditLimit.trim() === "" ? null : parseFloat(creditLimit) }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.data.creditLimit ? "Credit limit updated" : "Credit limit removed");
+        const limit = result.data.creditLimit as string | null;
+        setSummary((s) => s && {
+          ...s,
+          creditLimit: limit,
+          availableCredit: limit === null ? null : Math.max(parseFloat(limit) - parseFloat(s.aging.total), 0).toFixed(2),
+        });
+        onLimitSaved();
+      } else {
+        addToast("error", result.message || "Failed to update credit limit");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSavingLimit(false);
+    }
+  };
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title="Settle Pharmacy Credit">
+      <form onSubmit={handleSubmit} className="flex flex-col h-full">
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {patient && (
+            <div>
+              <div className="font-medium text-slate-900">{patient.patientName}</div>
+              <div className="text-xs text-slate-500">{patient.uhid}</div>
+            </div>
+          )}
+
+          {!summary ? (
+            <div className="flex items-center justify-center p-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <>
+              {/* Aging */}
+              <div className="grid grid-cols-4 gap-2 text-center">
+                {([["0_30", "0–30 days"], ["31_60", "31–60 days"], ["60_PLUS", "60+ days"]] as const).map(([bucket, label]) => (
+                  <div key={bucket} className="rounded-lg bg-slate-50 p-2">
+                    <div className="text-xs text-slate-500">{label}</div>
+                    <div className="font-medium">&#8377;{money(summary.aging[bucket])}</div>
+                  </div>
+                ))}
+                <div className="rounded-lg bg-slate-100 p-2">
+                  <div className="text-xs text-slate-500">Outstanding</div>
+                  <div className="font-semibold">&#8377;{money(summary.aging.total)}</div>
+                </div>
+              </div>
+
+              {/* Credit limit */}
+              <div className="space-y-2">
+                <Label>Credit Limit (&#8377;)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="No limit"
+                    value={creditLimit}
+                    onChange={(e) => setCreditLimit(e.target.value)}
+                  />
+                  <Button type="button" variant="outline" onClick={saveCreditLimit} disabled={isSavingLimit}>
+                    {isSavingLimit ? "Saving..." : "Save Limit"}
+                  </Button>
+                </div>
+                {summary.availableCredit !== null && (
+                  <p className="text-xs text-slate-500">Available for new credit sales: &#8377;{money(summary.availableCredit)}</p>
+                )}
+              </div>
+
+              {/* Outstanding sales */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Outstanding Sales</Label>
+                  <label className="flex items-center gap-2 text-xs text-slate-600">
+                    <input type="checkbox" checked={manual} onChange={(e) => setManual(e.target.checked)} />
+                    Allocate manually
+                  </label>
+                </div>
+                <div className="border rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50">
+                      <tr className="text-left">
+                        <th className="px-3 py-2 font-medium">Sale</th>
+                        <th className="px-3 py-2 font-medium">Age</th>
+                        <th className="px-3 py-2 font-medium text-right">Outstanding</th>
+                        {manual && <th className="px-3 py-2 font-medium w-28">Pay</th>}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summary.outstandingEntries.map((entry) => (
+                        <tr key={entry.id} className="border-t">
+                          <td className="px-3 py-2">
+                            <div>{entry.notes || entry.referenceType}</div>
+                            <div className="text-xs text-slate-500">{format(new Date(entry.createdAt), "PP")}</div>
+                          </td>
+                          <td className="px-3 py-2">
+                            <Badge className={BUCKET_STYLES[entry.bucket]}>{entry.ageDays}d</Badge>
+                          </td>
+                          <td className="px-3 py-2 text-right">&#8377;{money(entry.outstanding)}</td>
+                          {manual && (
+                            <td className="px-3 py-2">
+                              <Input
+                                type="number"
+                                min={0}
+                                max={entry.outstanding}
+                                step="0.01"
+                                className="h-8"
+                                value={allocations[entry.id] ?? ""}
+                                onChange={(e) => setAllocations((a) => ({ ...a, [entry.id]: e.target.value }))}
+                              />
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                      {summary.outstandingEntries.length === 0 && (
+                        <tr>
+                          <td colSpan={manual ? 4 : 3} className="px-3 py-4 text-center text-slate-500">
+                            No outstanding credit
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+                {!manual && <p className="text-xs text-slate-500">The payment is applied to the oldest sales first.</p>}
+              </div>
+
+              {/* Payment */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Amount (&#8377;) *</Label>
+                  {manual ? (
+                    <Input value={allocatedTotal.toFixed(2)} readOnly />
+                  ) : (
+                    <Input
+                      type="number"
+                      min={0}
+                      max={summary.aging.total}
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                    />
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label>Payment Method *</Label>
+                  <Select value={paymentMethod} onValueChange={(v) => setPaymentMethod(v as typeof paymentMethod)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {PAYMENT_METHODS.map((m) => (
+                        <SelectItem key={m} value={m}>{m.replace("_", " ")}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Reference</Label>
+                  <Input placeholder="Cheque / transaction no." value={reference} onChange={(e) => setReference(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Notes</Label>
+                  <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t p-4 flex items-center justify-end gap-3">
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={isSubmitting || !summary || paymentAmount <= 0}>
+            {isSubmitting ? "Recording..." : `Record Payment${paymentAmount > 0 ? ` ₹${money(paymentAmount)}` : ""}`}
+          </Button>
+        </div>
+      </form>
+    </Drawer>
+  );
+}
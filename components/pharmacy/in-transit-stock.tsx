@@ -0,0 +1,87 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/ui/DataTable";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { useToast } from "@/components/ui/Toast";
+import { RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+
+interface InTransitRow {
+  indentId: string;
+  indentNumber: string;
+  fromStoreName: string;
+  toStoreName: string;
+  productCode: string;
+  productName: string;
+  batchNumber: string;
+  expiryDate: string | null;
+  quantity: number;
+  issuedAt: string | null;
+}
+
+type TransitTableRow = InTransitRow & { id: string };
+
+/**
+ * Batches issued from the central store that the destination has not received yet
+ */
+export function InTransitStock() {
+  const [rows, setRows] = useState<TransitTableRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { addToast } = useToast();
+
+  const fetchRows = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch("/api/pharmacy/indents/in-transit");
+      const result = await res.json();
+      if (result.success) {
+        setRows((result.data as InTransitRow[]).map((r) => ({ ...r, id: `${r.indentId}-${r.productCode}-${r.batchNumber}` })));
+      } else {
+        setRows([]);
+        addToast("error", result.message || "Failed to load");
+      }
+    } catch {
+      setRows([]);
+      addToast("error", "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addToast]);
+
+  useEffect(() => { fetchRows(); }, [fetchRows]);
+
+  const columns = [
+    { key: "indentNumber", header: "Indent #", render: (v: string) => <span className="font-medium text-blue-700">{v}</span> },
+    { key: "productName", header: "Product", render: (v: string, row: TransitTableRow) => (
+      <div>
+        <div className="font-medium">{v}</div>
+        <div className="text-xs text-slate-500">{row.productCode}</div>
+      </div>
+    ) },
+    { key: "batchNumber", header: "Batch", render: (v: string, row: TransitTableRow) => (
+      <div>
+        <div>{v}</div>
+        {row.expiryDate && <div className="text-xs text-slate-500">Exp {format(new Date(row.expiryDate), "MMM yyyy")}</div>}
+      </div>
+    ) },
+    { key: "quantity", header: "Qty", render: (v: number) => <span className="font-medium">{v}</span> },
+    { key: "fromStoreName", header: "From" },
+    { key: "toStoreName", header: "To" },
+    { key: "issuedAt", header: "Issued", render: (v: string | null) => <span className="text-sm">{v ? format(new Date(v), "PPp") : "-"}</span> },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="ghost" size="icon" onClick={() => fetchRows()} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+      <GlassCard className="p-0 overflow-hidden">
+        <DataTable columns={columns} data={rows} loading={isLoading} emptyMessage="Nothing in transit" />
+      </GlassCard>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+import { format } from "date-fns";
+
+export type IndentStatus = "REQUESTED" | "APPROVED" | "REJECTED" | "ISSUED" | "RECEIVED" | "CANCELLED";
+
+interface TransferBatch {
+  id: string;
+  batchNumber: string;
+  expiryDate: string | null;
+  quantityIssued: number;
+  quantityReceived: number | null;
+  shortfallQty: number;
+  shortfallReason: string | null;
+}
+
+interface IndentItem {
+  id: string;
+  productCode: string;
+  productName: string;
+  quantityRequested: number;
+  quantityApproved: number | null;
+  quantityIssued: number;
+  quantityReceived: number;
+  batches: TransferBatch[];
+}
+
+interface IndentDetail {
+  id: string;
+  indentNumber: string;
+  requestingStoreName: string;
+  issuingStoreName: string;
+  status: IndentStatus;
+  requiredDate: string | null;
+  notes: string | null;
+  rejectionReason: string | null;
+  issuedAt: string | null;
+  receivedAt: string | null;
+  version: number;
+  createdAt: string;
+  items: IndentItem[];
+}
+
+export const INDENT_STATUS_STYLES: Record<IndentStatus, string> = {
+  REQUESTED: "bg-slate-100 text-slate-700",
+  APPROVED: "bg-blue-100 text-blue-800",
+  REJECTED: "bg-red-100 text-red-700",
+  ISSUED: "bg-amber-100 text-amber-800",
+  RECEIVED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-red-100 text-red-700",
+};
+
+interface IndentDetailDrawerProps {
+  isOpen: boolean;
+  indentId: string | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+/**
+ * Indent lines with the action for the current stage:
+ * approve quantities, issue (FEFO pick) or receive with shortfalls.
+ */
+export function IndentDetailDrawer({ isOpen, indentId, onClose, onChanged }: IndentDetailDrawerProps) {
+  const { addToast } = useToast();
+  const [indent, setIndent] = useState<IndentDetail | null>(null);
+  const [approved, setApproved] = useState<Record<string, string>>({});
+  const [received, setReceived] = useState<Record<string, string>>({});
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [rejectReason, setRejectReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const load = (data: IndentDetail) => {
+    setIndent(data);
+    setApproved(Object.fromEntries(data.items.map((i) => [i.id, String(i.quantityApproved ?? i.quantityRequested)])));
+    setReceived(Object.fromEntries(data.items.flatMap((i) => i.batches.map((b) => [b.id, String(b.quantityReceived ?? b.quantityIssued)]))));
+    setReasons({});
+    setRejectReason("");
+  };
+
+  useEffect(() => {
+    if (!isOpen || !indentId) return;
+    setIndent(null);
+    fetch(`/api/pharmacy/indents/${indentId}`)
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) load(result.data);
+        else addToast("error", result.message || "Failed to load indent");
+      })
+      .catch(() => addToast("error", "Network error"));
+  }, [isOpen, indentId, addToast]);
+
+  const submit = async (url: string, method: "PATCH" | "POST", body: Record<string, unknown>) => {
+    if (!indent) return;
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, version: indent.version }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Saved");
+        onChanged();
+        if (result.data?.items) load(result.data);
+        else onClose();
+      } else {
+        addToast("error", result.message || "Failed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleApprove = () => submit(`/api/pharmacy/indents/${indent!.id}`, "PATCH", {
+    action: "approve",
+    items: Object.entries(approved).map(([itemId, v]) => ({ itemId, quantityApproved: parseInt(v, 10) || 0 })),
+  });
+
+  const handleReject = () => submit(`/api/pharmacy/indents/${indent!.id}`, "PATCH", { action: "reject", reason: rejectReason });
+
+  const handleIssue = () => {
+    if (!confirm(`Issue "${indent!.indentNumber}"? Stock will be picked by nearest expiry.`)) return;
+    submit(`/api/pharmacy/indents/${indent!.id}/issue`, "POST", {});
+  };
+
+  const handleReceive = () => submit(`/api/pharmacy/indents/${indent!.id}/receive`, "POST", {
+    batches: Object.entries(received).map(([batchId, v]) => ({
+      batchId,
+      quantityReceived: parseInt(v, 10) || 0,
+      shortfallReason: reasons[batchId] || undefined,
+    })),
+  });
+
+  const shortfallOf = (b: TransferBatch) => b.quantityIssued - (parseInt(received[b.id], 10) || 0);
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title={indent ? `Indent ${indent.indentNumber}` : "Indent"}>
+      {!indent ? (
+        <div className="flex items-center justify-center p-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-slate-500">From</div>
+              <div className="font-medium">{indent.issuingStoreName}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">To</div>
+              <div className="font-medium">{indent.requestingStoreName}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Status</div>
+              <Badge className={INDENT_STATUS_STYLES[indent.status]}>{indent.status}</Badge>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Required By</div>
+              <div>{indent.requiredDate ? format(new Date(indent.requiredDate), "PP") : "-"}</div>
+            </div>
+          </div>
+          {indent.notes && <p className="text-sm text-slate-600">{indent.notes}</p>}
+          {indent.rejectionReason && <p className="text-sm text-red-600">Rejected: {indent.rejectionReason}</p>}
+
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr className="text-left">
+                  <th className="px-3 py-2 font-medium">Product</th>
+                  <th className="px-3 py-2 font-medium text-right">Requested</th>
+                  <th className="px-3 py-2 font-medium text-right w-24">Approved</th>
+                  <th className="px-3 py-2 font-medium text-right">Issued</th>
+                  <th className="px-3 py-2 font-medium text-right">Received</th>
+                </tr>
+              </thead>
+              <tbody>
+                {indent.items.map((item) => (
+                  <React.Fragment key={item.id}>
+                    <tr className="border-t">
+                      <td className="px-3 py-2">
+                        <div className="font-medium">{item.productName}</div>
+                        <div className="text-xs text-slate-500">{item.productCode}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right">{item.quantityRequested}</td>
+                      <td className="px-3 py-2 text-right">
+                        {indent.status === "REQUESTED" ? (
+                          <Input
+                            type="number"
+                            min={0}
+                            max={item.quantityRequested}
+                            className="h-8 text-right"
+                            value={approved[item.id] ?? ""}
+                            onChange={(e) => setApproved((a) => ({ ...a, [item.id]: e.target.value }))}
+                          />
+                        ) : (item.quantityApproved ?? "-")}
+                      </td>
+                      <td className="px-3 py-2 text-right">{item.quantityIssued}</td>
+                      <td className="px-3 py-2 text-right">{indent.status === "RECEIVED" ? item.quantityReceived : "-"}</td>
+                    </tr>
+                    {item.batches.map((b) => (
+                      <tr key={b.id} className="bg-slate-50/50 text-xs">
+                        <td className="px-3 py-1 pl-6 text-slate-600" colSpan={3}>
+                          Batch {b.batchNumber}
+                          {b.expiryDate && <span className="text-slate-400"> · Exp {format(new Date(b.expiryDate), "MMM yyyy")}</span>}
+                          {b.shortfallQty > 0 && (
+                            <div className="text-red-600">Short {b.shortfallQty}: {b.shortfallReason}</div>
+                          )}
+                        </td>
+                        <td className="px-3 py-1 text-right">{b.quantityIssued}</td>
+                        <td className="px-3 py-1 text-right">
+                          {indent.status === "ISSUED" ? (
+                            <Input
+                              type="number"
+                              min={0}
+                              max={b.quantityIssued}
+                              className="h-7 text-right"
+                              value={received[b.id] ?? ""}
+                              onChange={(e) => setReceived((r) => ({ ...r, [b.id]: e.target.value }))}
+                            />
+                          ) : (b.quantityReceived ?? "-")}
+                        </td>
+                      </tr>
+                    ))}
+                    {indent.status === "ISSUED" && item.batches.filter((b) => shortfallOf(b) > 0).map((b) => (
+                      <tr key={`${b.id}-reason`} className="text-xs">
+                        <td className="px-3 py-1 pl-6" colSpan={5}>
+                          <Input
+                            className="h-7"
+                            placeholder={`Reason for shortfall of ${shortfallOf(b)} in batch ${b.batchNumber} *`}
+                            value={reasons[b.id] ?? ""}
+                            onChange={(e) => setReasons((r) => ({ ...r, [b.id]: e.target.value }))}
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {indent.status === "REQUESTED" && (
+            <div className="space-y-2">
+              <Label>Rejection Reason</Label>
+              <Input value={rejectReason} onChange={(e) => setRejectReason(e.target.value)} placeholder="Required to reject" />
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end pt-4 border-t">
+            <Button type="button" variant="outline" onClick={onClose}>Close</Button>
+            {indent.status === "REQUESTED" && (
+              <>
+                <Button variant="outline" className="text-red-600" onClick={handleReject} disabled={isSubmitting || !rejectReason.trim()}>Reject</Button>
+                <Button onClick={handleApprove} disabled={isSubmitting}>{isSubmitting ? "Saving..." : "Approve"}</Button>
+              </>
+            )}
+            {indent.status === "APPROVED" && (
+              <Button onClick={handleIssue} disabled={isSubmitting}>{isSubmitting ? "Issuing..." : "Issue Stock"}</Button>
+            )}
+            {indent.status === "ISSUED" && (
+              <Button onClick={handleReceive} disabled={isSubmitting}>{isSubmitting ? "Saving..." : "Confirm Receipt"}</Button>
+            )}
+          </div>
+        </div>
+      )}
+    </Drawer>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import React, { useEffect, useState, useCallback } from "react";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type { z } from "zod";
+import { CreateStockIndentSchema, type CreateStockIndentInput } from "@/lib/schemas/pharmacy-procurement-schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+import { Plus, Trash2 } from "lucide-react";
+
+interface StoreOption { id: string; code: string; name: string; type: "CENTRAL" | "OP" | "IP" | "SUB"; }
+interface ProductOption { id: string; code: string; name: string; }
+
+interface IndentFormDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const EMPTY_INDENT: z.input<typeof CreateStockIndentSchema> = {
+  requestingStoreId: "",
+  issuingStoreId: "",
+  requiredDate: "",
+  notes: "",
+  items: [{ productId: "", quantityRequested: 1, notes: "" }],
+};
+
+export function IndentFormDrawer({ isOpen, onClose, onSuccess }: IndentFormDrawerProps) {
+  const { addToast } = useToast();
+  const [stores, setStores] = useState<StoreOption[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+
+  const { register, handleSubmit, control, reset, setValue, watch, formState: { errors, isSubmitting } } = useForm<z.input<typeof CreateStockIndentSchema>, unknown, CreateStockIndentInput>({
+    resolver: zodResolver(CreateStockIndentSchema),
+    defaultValues: EMPTY_INDENT,
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: "items" });
+
+  const fetchLookups = useCallback(async () => {
+    try {
+      const [sRes, pRes] = await Promise.all([
+        fetch("/api/pharmacy/masters/stores?limit=100&status=ACTIVE"),
+        fetch("/api/pharmacy/masters/products?limit=100&status=ACTIVE"),
+      ]);
+      const [sData, pData] = await Promise.all([sRes.json(), pRes.json()]);
+      if (sData.success) setStores(sData.data || []);
+      if (pData.success) setProducts(pData.data || []);
+    } catch { /* silent */ }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      reset(EMPTY_INDENT);
+      fetchLookups();
+    }
+  }, [isOpen, reset, fetchLookups]);
+
+  const requestingStoreId = watch("requestingStoreId");
+  const centralStores = stores.filter((s) => s.type === "CENTRAL" && s.id !== requestingStoreId);
+
+  const onSubmit = async (data: CreateStockIndentInput) => {
+    try {
+      const res = await fetch("/api/pharmacy/indents", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...data,
+          requiredDate: data.requiredDate || undefined,
+          notes: data.notes || undefined,
+        }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Indent raised");
+        onSuccess();
+      } else {
+        addToast("error", result.message || "Failed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    }
+  };
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title="New Stock Indent">
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        {/* Stores */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Requesting Store *</Label>
+            <Select value={requestingStoreId} onValueChange={(v) => setValue("requestingStoreId", v)}>
+              <SelectTrigger><SelectValue placeholder="Select store" /></SelectTrigger>
+              <SelectContent>
+                {stores.filter((s) => s.type !== "CENTRAL").map((s) => (
+                  <SelectItem key={s.id} value={s.id}>{s.code} - {s.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.requestingStoreId && <p className="text-xs text-red-500 mt-1">{errors.requestingStoreId.message}</p>}
+          </div>
+          <div>
+            <Label>Issuing Store *</Label>
+            <Select value={watch("issuingStoreId")} onValueChange={(v) => setValue("issuingStoreId", v)}>
+              <SelectTrigger><SelectValue placeholder="Select central store" /></SelectTrigger>
+              <SelectContent>
+                {centralStores.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>{s.code} - {s.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.issuingStoreId && <p className="text-xs text-red-500 mt-1">{errors.issuingStoreId.message}</p>}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Required By</Label>
+            <Input type="date" {...register("requiredDate")} />
+          </div>
+          <div>
+            <Label>Notes</Label>
+            <Input {...register("notes")} placeholder="Optional notes..." />
+          </div>
+        </div>
+
+        {/* Items */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-base font-medium">Requested Items</Label>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append({ productId: "", quantityRequested: 1, notes: "" })}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add Item
+            </Button>
+          </div>
+
+          {fields.map((field, idx) => (
+            <div key={field.id} className="p-3 border rounded-lg space-y-2 bg-slate-50">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-slate-500">Item #{idx + 1}</span>
+                {fields.length > 1 && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => remove(idx)} className="h-6 w-6 p-0 text-red-500">
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="col-span-2">
+                  <Label className="text-xs">Product *</Label>
+                  <Select
+                    value={watch(`items.${idx}.productId`)}
+                    onValueChange={(v) => setValue(`items.${idx}.productId`, v)}
+                  >
+                    <SelectTrigger className="h-8 text-sm"><SelectValue placeholder="Select product" /></SelectTrigger>
+                    <SelectContent>
+                      {products.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>{p.code} - {p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">Qty *</Label>
+                  <Input type="number" step="1" min="1" {...register(`items.${idx}.quantityRequested`, { valueAsNumber: true })} className="h-8 text-sm" />
+                </div>
+              </div>
+            </div>
+          ))}
+          {errors.items && typeof errors.items === "object" && "message" in errors.items && (
+            <p className="text-xs text-red-500">{(errors.items as { message?: string }).message}</p>
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-end pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={isSubmitting}>{isSubmitting ? "Saving..." : "Raise Indent"}</Button>
+        </div>
+      </form>
+    </Drawer>
+  );
+}
@@ -17,6 +17,7 @@ import { Plus, Trash2 } from "lucide-react";
 interface PatientOption { id: string; uhid: string; firstName: string; lastName: string; }
 interface StoreOption { id: string; code: string; name: string; }
 interface ProductOption { id: string; code: string; name: string; mrp: string; }
+interface AdmissionOption { id: string; admissionNumber: string; wardName: string | null; bedLabel: string | null; admittedAt: string; }
 
 interface IPSaleFormDrawerProps {
   isOpen: boolean;
@@ -30,6 +31,8 @@ export function IPSaleFormDrawer({ isOpen, onClose, onSuccess }: IPSaleFormDrawe
   const [stores, setStores] = useState<StoreOption[]>([]);
   const [products, setProducts] = useState<ProductOption[]>([]);
   const [patientSearch, setPatientSearch] = useState("");
+  const [admission, setAdmission] = useState<AdmissionOption | null>(null);
+  const [admissionLoaded, setAdmissionLoaded] = useState(false);
 
   const { register, handleSubmit, control, reset, setValue, watch, formState: { errors, isSubmitting } } = useForm<CreateIPSaleInput>({
     resolver: zodResolver(CreateIPSaleSchema) as any,
@@ -47,6 +50,7 @@ export function IPSaleFormDrawer({ isOpen, onClose, onSuccess }: IPSaleFormDrawe
 
   const { fields, append, remove } = useFieldArray({ control, name: "items" });
   const watchedItems = watch("items");
+  const watchedPatientId = watch("patientId");
 
   const fetchLookups = useCallback(async () => {
     try {
@@ -73,6 +77,29 @@ export function IPSaleFormDrawer({ isOpen, onClose, onSuccess }: IPSaleFormDrawe
     }
   }, []);
 
+  // IP sales post to the patient's current admission
+  useEffect(() => {
+    setAdmission(null);
+    setAdmissionLoaded(false);
+    setValue("admissionId", "");
+    if (!watchedPatientId) return;
+    (async () => {
+      try {
+        const res = await fetch(`/api/ipd/admissions?patientId=${watchedPatientId}&status=ADMITTED&limit=1`);
+        const data = await res.json();
+        const current: AdmissionOption | undefined = data.success ? data.data?.[0] : undefined;
+        if (current) {
+          setAdmission(current);
+          setValue("admissionId", current.id);
+        }
+      } catch {
+        // Silent
+      } finally {
+        setAdmissionLoaded(true);
+      }
+    })();
+  }, [watchedPatientId, setValue]);
+
   useEffect(() => { if (isOpen) fetchLookups(); }, [isOpen, fetchLookups]);
   useEffect(() => { const t = setTimeout(() => searchPatients(patientSearch), 300); return () => clearTimeout(t); }, [patientSearch, searchPatients]);
 
@@ -164,11 +191,23 @@ export function IPSaleFormDrawer({ isOpen, onClose, onSuccess }: IPSaleFormDrawe
           {errors.storeId && <p className="text-sm text-red-500 mt-1">{errors.storeId.message}</p>}
         </div>
 
-        {/* Admission / Visit / Invoice IDs */}
+        {/* Admission / Invoice */}
         <div className="grid grid-cols-2 gap-4">
           <div>
-            <Label>Admission ID (optional)</Label>
-            <Input {...register("admissionId")} placeholder="IP admission ID" />
+            <Label>Admission *</Label>
+            {admission ? (
+              <div className="border rounded-md px-3 py-2 text-sm bg-purple-50">
+                <p className="font-medium">{admission.admissionNumber}</p>
+                <p className="text-xs text-slate-500">
+                  {admission.wardName ?? "-"}{admission.bedLabel ? ` / Bed ${admission.bedLabel}` : ""} • since {new Date(admission.admittedAt).toLocaleDateString()}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500 border rounded-md px-3 py-2">
+                {!watchedPatientId ? "Select a patient" : admissionLoaded ? "Patient is not currently admitted" : "Loading..."}
+              </p>
+            )}
+            {errors.admissionId && <p className="text-sm text-red-500 mt-1">{errors.admissionId.message}</p>}
           </div>
           <div>
             <Label>Invoice ID (optional)</Label>
@@ -17,6 +17,26 @@ import { Plus, Trash2 } from "lucide-react";
 interface PatientOption { id: string; uhid: string; firstName: string; lastName: string; }
 interface StoreOption { id: string; code: string; name: string; }
 interface ProductOption { id: string; code: string; name: string; mrp: string; }
+interface PrescriptionOption { id: string; prescriptionDate: string; doctorName: string; itemCount: number; pendingCount: number; }
+interface RxCandidate {
+  productId: string; code: string; name: string; strength: string | null; mrp: string;
+  available: number; matchType: "EXACT" | "BRAND" | "GENERIC" | "SUBSTITUTE";
+}
+interface RxDispenseItem {
+  prescriptionItemId: string; medicineName: string; strength: string | null;
+  dosage: string; frequency: string; duration: string;
+  prescribedQuantity: number | null; dispensedQuantity: number; remainingQuantity: number | null;
+  isDispensed: boolean; suggestedProductId: string | null; candidates: RxCandidate[];
+}
+
+const PAYMENT_METHODS = ["CASH", "CARD", "UPI", "NET_BANKING", "CHEQUE", "OTHER"] as const;
+
+const MATCH_LABELS: Record<RxCandidate["matchType"], string> = {
+  EXACT: "Prescribed",
+  BRAND: "Prescribed",
+  GENERIC: "Generic",
+  SUBSTITUTE: "Substitute",
+};
 
 interface OPSaleFormDrawerProps {
   isOpen: boolean;
@@ -30,6 +50,8 @@ export function OPSaleFormDrawer({ isOpen, onClose, onSuccess }: OPSaleFormDrawe
   const [stores, setStores] = useState<StoreOption[]>([]);
   const [products, setProducts] = useState<ProductOption[]>([]);
   const [patientSearch, setPatientSearch] = useState("");
+  const [prescriptions, setPrescriptions] = useState<PrescriptionOption[]>([]);
+  const [rxItems, setRxItems] = useState<RxDispenseItem[]>([]);
 
   const { register, handleSubmit, control, reset, setValue, watch, formState: { errors, isSubmitting } } = useForm<CreateOPSaleInput>({
     resolver: zodResolver(CreateOPSaleSchema) as any,
@@ -39,6 +61,7 @@ export function OPSaleFormDrawer({ isOpen, onClose, onSuccess }: OPSaleFormDrawe
       visitId: "",
       prescriptionId: "",
       creditAllowed: false,
+      paymentMethod: "CASH",
       notes: "",
       items: [{ productId: "", quantity: 1, discount: 0 }],
     },
@@ -46,6 +69,10 @@ export function OPSaleFormDrawer({ isOpen, onClose, onSuccess }: OPSaleFormDrawe
 
   const { fields, append, remove } = useFieldArray({ control, name: "items" });
   const watchedItems = watch("items");
+  const watchedPatientId = watch("patientId");
+  const watchedStoreId = watch("storeId");
+  const watchedPrescriptionId = watch("prescriptionId");
+  const watchedCreditAllowed = watch("creditAllowed");
 
   const fetchLookups = useCallback(async () => {
     try {
@@ -72,6 +99,58 @@ export function OPSaleFormDrawer({ isOpen, onClose, onSuccess }: OPSaleFormDrawe
     }
   }, []);
 
+  // Active prescriptions with outstanding items for the selected patient
+  useEffect(() => {
+    setPrescriptions([]);
+    setValue("prescriptionId", "");
+    if (!watchedPatientId) return;
+    (async () => {
+      try {
+        const res = await fetch(`/api/pharmacy/prescriptions?patientId=${watchedPatientId}`);
+        const data = await res.json();
+        if (data.success) setPrescriptions(data.data || []);
+      } catch {
+        // Silent
+      }
+    })();
+  }, [watchedPatientId, setValue]);
+
+  // Map prescription items to products in the selected store and pre-fill the lines
+  useEffect(() => {
+    setRxItems([]);
+    if (!watchedPrescriptionId || !watchedStoreId) return;
+    (async () => {
+      try {
+        const res = await fetch(`/api/pharmacy/prescriptions/${watchedPrescriptionId}/dispense?storeId=${watchedStoreId}`);
+        const data = await res.json();
+        if (!data.success) {
+          addToast("error", data.message || "Failed to load prescription");
+          return;
+        }
+        const pending: RxDispenseItem[] = data.data.items.filter((i: RxDispenseItem) => !i.isDispensed);
+        setRxItems(pending);
+        setProducts((prev) => {
+          const known = new Set(prev.map((p) => p.id));
+          const extra = pending
+            .flatMap((i) => i.candidates)
+            .filter((c) => !known.has(c.productId) && known.add(c.productId))
+            .map((c) => ({ id: c.productId, code: c.code, name: c.name, mrp: c.mrp }));
+          return [...prev, ...extra];
+        });
+        if (pending.length > 0) {
+          setValue("items", pending.map((i) => ({
+            productId: i.suggestedProductId || "",
+            quantity: i.remainingQuantity || 1,
+            discount: 0,
+            prescriptionItemId: i.prescriptionItemId,
+          })));
+        }
+      } catch {
+        addToast("error", "Failed to load prescription");
+      }
+    })();
+  }, [watchedPrescriptionId, watchedStoreId, setValue, addToast]);
+
   useEffect(() => { if (isOpen) fetchLookups(); }, [isOpen, fetchLookups]);
   useEffect(() => { const t = setTimeout(() => searchPatients(patientSearch), 300); return () => clearTimeout(t); }, [patientSearch, searchPatients]);
 
@@ -83,10 +162,12 @@ export function OPSaleFormDrawer({ isOpen, onClose, onSuccess }: OPSaleFormDrawe
         visitId: "",
         prescriptionId: "",
         creditAllowed: false,
+        paymentMethod: "CASH",
         notes: "",
         items: [{ productId: "", quantity: 1, discount: 0 }],
       });
       setPatientSearch("");
+      setRxItems([]);
     }
   }, [isOpen, reset]);
 
@@ -162,16 +243,50 @@ export function OPSaleFormDrawer({ isOpen, onClose, onSuccess }: OPSaleFormDrawe
           {errors.storeId && <p className="text-sm text-red-500 mt-1">{errors.storeId.message}</p>}
         </div>
 
-        {/* Prescription ID (optional) */}
+        {/* Prescription (optional) */}
         <div>
-          <Label>Prescription ID (optional)</Label>
-          <Input {...register("prescriptionId")} placeholder="Enter prescription ID if dispensing against Rx" />
+          <Label>Dispense against prescription (optional)</Label>
+          <Select
+            value={watchedPrescriptionId || "NONE"}
+            onValueChange={(v) => setValue("prescriptionId", v === "NONE" ? "" : v)}
+            disabled={!watchedPatientId}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder={watchedPatientId ? "Select prescription" : "Select a patient first"} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="NONE">No prescription</SelectItem>
+              {prescriptions.map((rx) => (
+                <SelectItem key={rx.id} value={rx.id}>
+                  {new Date(rx.prescriptionDate).toLocaleDateString()} — Dr. {rx.doctorName} ({rx.pendingCount}/{rx.itemCount} pending)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {watchedPatientId && prescriptions.length === 0 && (
+            <p className="text-xs text-slate-500 mt-1">No active prescriptions pending dispense</p>
+          )}
+          {watchedPrescriptionId && !watchedStoreId && (
+            <p className="text-xs text-slate-500 mt-1">Select a store to map prescription items to stock</p>
+          )}
         </div>
 
-        {/* Credit allowed */}
-        <div className="flex items-center gap-2">
-          <input type="checkbox" id="creditAllowed" {...register("creditAllowed")} className="rounded" />
-          <Label htmlFor="creditAllowed">Allow credit (patient pays later)</Label>
+        {/* Credit allowed / payment method */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <input type="checkbox" id="creditAllowed" {...register("creditAllowed")} className="rounded" />
+            <Label htmlFor="creditAllowed">Allow credit (patient pays later)</Label>
+          </div>
+          {!watchedCreditAllowed && (
+            <Select value={watch("paymentMethod")} onValueChange={(v) => setValue("paymentMethod", v as CreateOPSaleInput["paymentMethod"])}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {PAYMENT_METHODS.map((m) => (
+                  <SelectItem key={m} value={m}>{m.replace("_", " ")}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
 
         {/* Items */}
@@ -186,6 +301,7 @@ export function OPSaleFormDrawer({ isOpen, onClose, onSuccess }: OPSaleFormDrawe
           <div className="space-y-3">
             {fields.map((field, index) => {
               const selectedProduct = products.find((p) => p.id === watchedItems?.[index]?.productId);
+              const rxItem = rxItems.find((i) => i.prescriptionItemId === watchedItems?.[index]?.prescriptionItemId);
               return (
                 <div key={field.id} className="border rounded-lg p-3 space-y-2 bg-slate-50">
                   <div className="flex items-center justify-between">
@@ -195,16 +311,35 @@ export function OPSaleFormDrawer({ isOpen, onClose, onSuccess }: OPSaleFormDrawe
                     )}
                   </div>
 
+                  {rxItem && (
+                    <div className="text-xs text-slate-600 bg-white border rounded px-2 py-1">
+                      <span className="font-medium">Rx: {rxItem.medicineName}{rxItem.strength ? ` ${rxItem.strength}` : ""}</span>
+                      {" — "}{rxItem.dosage}, {rxItem.frequency}, {rxItem.duration}
+                      {rxItem.prescribedQuantity != null && (
+                        <span className="ml-1">• Prescribed {rxItem.prescribedQuantity}, dispensed {rxItem.dispensedQuantity}</span>
+                      )}
+                    </div>
+                  )}
+
                   <div>
                     <Label>Product *</Label>
                     <Select value={watchedItems?.[index]?.productId || ""} onValueChange={(v) => setValue(`items.${index}.productId`, v)}>
                       <SelectTrigger><SelectValue placeholder="Select product" /></SelectTrigger>
                       <SelectContent>
-                        {products.map((p) => (
-                          <SelectItem key={p.id} value={p.id}>{p.name} ({p.code}) — ₹{p.mrp}</SelectItem>
-                        ))}
+                        {rxItem
+                          ? rxItem.candidates.map((c) => (
+                              <SelectItem key={c.productId} value={c.productId} disabled={c.available <= 0}>
+                                {c.name}{c.strength ? ` ${c.strength}` : ""} ({c.code}) — ₹{c.mrp} • {MATCH_LABELS[c.matchType]} • Stock {c.available}
+                              </SelectItem>
+                            ))
+                          : products.map((p) => (
+                              <SelectItem key={p.id} value={p.id}>{p.name} ({p.code}) — ₹{p.mrp}</SelectItem>
+                            ))}
                       </SelectContent>
                     </Select>
+                    {rxItem && !rxItem.candidates.some((c) => c.available > 0) && (
+                      <p className="text-xs text-amber-600 mt-1">No stock of this medicine or a substitute in the selected store — remove the line to dispense partially</p>
+                    )}
                   </div>
 
                   <div className="grid grid-cols-3 gap-2">
@@ -38,8 +38,9 @@ export function POFormDrawer({ isOpen, onClose, onSuccess, initialData }: POForm
   const { addToast } = useToast();
   const [vendors, setVendors] = useState<VendorOption[]>([]);
   const [products, setProducts] = useState<ProductOption[]>([]);
+  const [contractRates, setContractRates] = useState<Record<string, number>>({});
 
-  const { register, handleSubmit, control, reset, setValue, watch, formState: { errors, isSubmitting } } = useForm<CreatePurchaseOrderInput & { version?: number }>({
+  const { register, handleSubmit, control, reset, setValue, getValues, watch, formState: { errors, isSubmitting } } = useForm<CreatePurchaseOrderInput & { version?: number }>({
     resolver: zodResolver(CreatePurchaseOrderSchema) as any,
     defaultValues: {
       vendorId: "",
@@ -51,6 +52,7 @@ export function POFormDrawer({ isOpen, onClose, onSuccess, initialData }: POForm
   });
 
   const { fields, append, remove } = useFieldArray({ control, name: "items" });
+  const vendorId = watch("vendorId");
 
   const fetchLookups = useCallback(async () => {
     try {
@@ -68,6 +70,28 @@ export function POFormDrawer({ isOpen, onClose, onSuccess, initialData }: POForm
     if (isOpen) fetchLookups();
   }, [isOpen, fetchLookups]);
 
+  // Rate contracts in force for the vendor default the unit cost of lines left unpriced
+  useEffect(() => {
+    if (!isOpen || !vendorId) { setContractRates({}); return; }
+    fetch(`/api/pharmacy/vendor-contracts/rates?vendorId=${vendorId}`)
+      .then((res) => res.json())
+      .then((result) => {
+        if (!result.success) return;
+        const rates: Record<string, number> = {};
+        for (const r of result.data as { productId: string; unitCost: string }[]) rates[r.productId] = parseFloat(r.unitCost);
+        setContractRates(rates);
+        getValues("items").forEach((item, idx) => {
+          if (rates[item.productId] && !item.unitCost) setValue(`items.${idx}.unitCost`, rates[item.productId]);
+        });
+      })
+      .catch(() => setContractRates({}));
+  }, [isOpen, vendorId, getValues, setValue]);
+
+  const handleProductChange = (idx: number, productId: string) => {
+    setValue(`items.${idx}.productId`, productId);
+    if (contractRates[productId]) setValue(`items.${idx}.unitCost`, contractRates[productId]);
+  };
+
   useEffect(() => {
     if (initialData) {
       reset({
@@ -194,7 +218,7 @@ export function POFormDrawer({ isOpen, onClose, onSuccess, initialData }: POForm
                 <Label className="text-xs">Product *</Label>
                 <Select
                   value={watch(`items.${idx}.productId`)}
-                  onValueChange={(v) => setValue(`items.${idx}.productId`, v)}
+                  onValueChange={(v) => handleProductChange(idx, v)}
                 >
                   <SelectTrigger className="h-8 text-sm"><SelectValue placeholder="Select product" /></SelectTrigger>
                   <SelectContent>
@@ -212,6 +236,9 @@ export function POFormDrawer({ isOpen, onClose, onSuccess, initialData }: POForm
                 <div>
                   <Label className="text-xs">Unit Cost *</Label>
                   <Input type="number" step="0.01" min="0" {...register(`items.${idx}.unitCost`, { valueAsNumber: true })} className="h-8 text-sm" />
+                  {contractRates[watch(`items.${idx}.productId`)] !== undefined && (
+                    <p className="text-[11px] text-slate-500 mt-0.5">Contract &#8377;{contractRates[watch(`items.${idx}.productId`)].toFixed(2)}</p>
+                  )}
                 </div>
                 <div>
                   <Label className="text-xs">Tax</Label>
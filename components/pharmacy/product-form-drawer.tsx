@@ -39,6 +39,8 @@ interface ProductFormDrawerProps {
     reorderLevel?: number;
     storageCondition?: string | null;
     isNarcotic?: boolean;
+    category?: string | null;
+    rackLocation?: string | null;
     status: "ACTIVE" | "INACTIVE";
   } | null;
 }
@@ -54,7 +56,7 @@ export function ProductFormDrawer({ isOpen, onClose, onSuccess, initialData }: P
       code: "", name: "", genericName: "", brandName: "", strength: "", dosageForm: "",
       scheduleType: "OTC", manufacturerId: "", hsnCode: "",
       gstPercent: undefined, mrp: undefined, purchasePrice: undefined,
-      minimumStock: 0, reorderLevel: 0, storageCondition: "", isNarcotic: false, status: "ACTIVE",
+      minimumStock: 0, reorderLevel: 0, storageCondition: "", isNarcotic: false, category: "", rackLocation: "", status: "ACTIVE",
     },
   });
 
@@ -87,6 +89,8 @@ export function ProductFormDrawer({ isOpen, onClose, onSuccess, initialData }: P
         reorderLevel: initialData.reorderLevel || 0,
         storageCondition: initialData.storageCondition || "",
         isNarcotic: initialData.isNarcotic || false,
+        category: initialData.category || "",
+        rackLocation: initialData.rackLocation || "",
         status: initialData.status,
       });
     } else {
@@ -94,7 +98,7 @@ export function ProductFormDrawer({ isOpen, onClose, onSuccess, initialData }: P
         code: "", name: "", genericName: "", brandName: "", strength: "", dosageForm: "",
         scheduleType: "OTC", manufacturerId: "", hsnCode: "",
         gstPercent: undefined, mrp: undefined, purchasePrice: undefined,
-        minimumStock: 0, reorderLevel: 0, storageCondition: "", isNarcotic: false, status: "ACTIVE",
+        minimumStock: 0, reorderLevel: 0, storageCondition: "", isNarcotic: false, category: "", rackLocation: "", status: "ACTIVE",
       });
     }
   }, [initialData, reset]);
@@ -172,7 +176,11 @@ export function ProductFormDrawer({ isOpen, onClose, onSuccess, initialData }: P
             <div><Label>Reorder Level</Label><Input type="number" {...register("reorderLevel", { valueAsNumber: true })} /></div>
           </div>
 
-          <div><Label>Storage Condition</Label><Input {...register("storageCondition")} placeholder="e.g. Cool & Dry Place" /></div>
+          <div className="grid grid-cols-3 gap-4">
+            <div><Label>Storage Condition</Label><Input {...register("storageCondition")} placeholder="e.g. Cool & Dry Place" /></div>
+            <div><Label>Category</Label><Input {...register("category")} placeholder="e.g. Antibiotics" /></div>
+            <div><Label>Rack</Label><Input {...register("rackLocation")} placeholder="e.g. R3-S2" /></div>
+          </div>
 
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-2">
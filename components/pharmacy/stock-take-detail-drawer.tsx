@@ -0,0 +1,321 @@
+"use client";
+
+import React, { useEffect, useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+import { AlertTriangle, RefreshCw, Search } from "lucide-react";
+import { format } from "date-fns";
+
+export type StockTakeStatus = "COUNTING" | "SUBMITTED" | "APPROVED" | "CANCELLED";
+
+interface StockTakeItem {
+  id: string;
+  productCode: string;
+  productName: string;
+  rackLocation: string | null;
+  batchNumber: string;
+  expiryDate: string | null;
+  frozenQty: number;
+  movementQty: number;
+  expectedQty: number;
+  countedQty: number | null;
+  remarks: string | null;
+  varianceQty: number | null;
+  varianceValue: string | null;
+  soldDuringCount: boolean;
+}
+
+interface StockTakeDetail {
+  id: string;
+  stockTakeNumber: string;
+  storeName: string;
+  status: StockTakeStatus;
+  frozenAt: string;
+  notes: string | null;
+  rejectionReason: string | null;
+  version: number;
+  summary: {
+    totalItems: number;
+    countedItems: number;
+    flaggedItems: number;
+    shortageValue: string;
+    excessValue: string;
+    netVarianceValue: string;
+  };
+  items: StockTakeItem[];
+}
+
+export const STOCK_TAKE_STATUS_STYLES: Record<StockTakeStatus, string> = {
+  COUNTING: "bg-blue-100 text-blue-800",
+  SUBMITTED: "bg-amber-100 text-amber-800",
+  APPROVED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-red-100 text-red-700",
+};
+
+interface StockTakeDetailDrawerProps {
+  isOpen: boolean;
+  stockTakeId: string | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const money = (value: string) =>
+  parseFloat(value).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Count sheet and variance report. Only lines edited on this device are saved,
+ * so several counters can work the same session; refresh to pull their counts.
+ */
+export function StockTakeDetailDrawer({ isOpen, stockTakeId, onClose, onChanged }: StockTakeDetailDrawerProps) {
+  const { addToast } = useToast();
+  const [stockTake, setStockTake] = useState<StockTakeDetail | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState("");
+  const [uncountedOnly, setUncountedOnly] = useState(false);
+  const [recountReason, setRecountReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const load = (data: StockTakeDetail) => {
+    setStockTake(data);
+    setDrafts({});
+    setRecountReason("");
+  };
+
+  const fetchStockTake = useCallback(async () => {
+    if (!stockTakeId) return;
+    try {
+      const res = await fetch(`/api/pharmacy/stock-takes/${stockTakeId}`);
+      const result = await res.json();
+      if (result.success) load(result.data);
+      else addToast("error", result.message || "Failed to load stock take");
+    } catch {
+      addToast("error", "Network error");
+    }
+  }, [stockTakeId, addToast]);
+
+  useEffect(() => {
+    if (!isOpen || !stockTakeId) return;
+    setStockTake(null);
+    setFilter("");
+    setUncountedOnly(false);
+    fetchStockTake();
+  }, [isOpen, stockTakeId, fetchStockTake]);
+
+  const send = async (url: string, method: "PATCH" | "PUT", body: Record<string, unknown>) => {
+    if (!stockTake) return;
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Saved");
+        load(result.data);
+        onChanged();
+      } else {
+        addToast("error", result.message || "Failed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const dirty = Object.entries(drafts).filter(([, v]) => v.trim() !== "");
+
+  const handleSaveCounts = () => send(`/api/pharmacy/stock-takes/${stockTake!.id}/counts`, "PUT", {
+    counts: dirty.map(([itemId, v]) => ({ itemId, countedQty: parseInt(v, 10) || 0 })),
+  });
+
+  const changeStatus = (action: string, extra: Record<string, unknown> = {}) =>
+    send(`/api/pharmacy/stock-takes/${stockTake!.id}`, "PATCH", { action, version: stockTake!.version, ...extra });
+
+  const handleSubmit = () => {
+    const uncounted = stockTake!.summary.totalItems - stockTake!.summary.countedItems;
+    if (uncounted > 0 && !confirm(`${uncounted} batch(es) are not counted and will not be adjusted. Submit anyway?`)) return;
+    changeStatus("submit");
+  };
+
+  const handleApprove = () => {
+    if (!confirm(`Approve variances for "${stockTake!.stockTakeNumber}"? Adjustment entries will be posted to the stock ledger.`)) return;
+    changeStatus("approve");
+  };
+
+  const handleCancel = () => {
+    if (!confirm(`Cancel "${stockTake!.stockTakeNumber}"? Counts entered so far will be discarded.`)) return;
+    changeStatus("cancel");
+  };
+
+  const term = filter.trim().toLowerCase();
+  const visible = (stockTake?.items ?? []).filter((i) =>
+    (!uncountedOnly || i.countedQty === null) &&
+    (!term || i.productName.toLowerCase().includes(term) || i.productCode.toLowerCase().includes(term) ||
+      i.batchNumber.toLowerCase().includes(term) || (i.rackLocation ?? "").toLowerCase().includes(term))
+  );
+  const counting = stockTake?.status === "COUNTING";
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title={stockTake ? `Stock Take ${stockTake.stockTakeNumber}` : "Stock Take"}>
+      {!stockTake ? (
+        <div className="flex items-center justify-center p-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-slate-500">Store</div>
+              <div className="font-medium">{stockTake.storeName}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Status</div>
+              <Badge className={STOCK_TAKE_STATUS_STYLES[stockTake.status]}>{stockTake.status}</Badge>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Frozen At</div>
+              <div>{format(new Date(stockTake.frozenAt), "PPp")}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Counted</div>
+              <div>{stockTake.summary.countedItems} / {stockTake.summary.totalItems} batches</div>
+            </div>
+          </div>
+          {stockTake.notes && <p className="text-sm text-slate-600">{stockTake.notes}</p>}
+          {stockTake.rejectionReason && counting && (
+            <p className="text-sm text-red-600">Sent back for recount: {stockTake.rejectionReason}</p>
+          )}
+
+          <div className="grid grid-cols-3 gap-3 text-sm">
+            <div className="rounded-lg bg-red-50 p-3">
+              <div className="text-xs text-slate-500">Shortage</div>
+              <div className="font-semibold text-red-700">&#8377;{money(stockTake.summary.shortageValue)}</div>
+            </div>
+            <div className="rounded-lg bg-green-50 p-3">
+              <div className="text-xs text-slate-500">Excess</div>
+              <div className="font-semibold text-green-700">&#8377;{money(stockTake.summary.excessValue)}</div>
+            </div>
+            <div className="rounded-lg bg-slate-50 p-3">
+              <div className="text-xs text-slate-500">Net Variance</div>
+              <div className="font-semibold">&#8377;{money(stockTake.summary.netVarianceValue)}</div>
+            </div>
+          </div>
+          {stockTake.summary.flaggedItems > 0 && (
+            <div className="flex items-center gap-2 rounded-lg bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4" />
+              {stockTake.summary.flaggedItems} batch(es) moved after the freeze. Check they were counted after the movement.
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-slate-400" />
+              <Input className="h-8 pl-7 text-sm" placeholder="Filter product, batch, rack..." value={filter} onChange={(e) => setFilter(e.target.value)} />
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input type="checkbox" checked={uncountedOnly} onChange={(e) => setUncountedOnly(e.target.checked)} />
+              Uncounted only
+            </label>
+            <Button variant="ghost" size="icon" onClick={fetchStockTake} disabled={isSubmitting} title="Pull counts from other devices">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="border rounded-lg overflow-hidden max-h-[480px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr className="text-left">
+                  <th className="px-3 py-2 font-medium">Product / Batch</th>
+                  <th className="px-3 py-2 font-medium text-right">System</th>
+                  <th className="px-3 py-2 font-medium text-right w-24">Counted</th>
+                  <th className="px-3 py-2 font-medium text-right">Variance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((item) => (
+                  <tr key={item.id} className="border-t">
+                    <td className="px-3 py-2">
+                      <div className="font-medium flex items-center gap-2">
+                        {item.productName}
+                        {item.soldDuringCount && <Badge className="bg-amber-100 text-amber-800">Sold during count</Badge>}
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {item.batchNumber}
+                        {item.expiryDate && <> · Exp {format(new Date(item.expiryDate), "MMM yyyy")}</>}
+                        {item.rackLocation && <> · Rack {item.rackLocation}</>}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {item.expectedQty}
+                      {item.movementQty !== 0 && (
+                        <div className="text-xs text-amber-700">frozen {item.frozenQty}, {item.movementQty > 0 ? "+" : ""}{item.movementQty}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {counting ? (
+                        <Input
+                          type="number"
+                          min={0}
+                          className="h-8 text-right"
+                          placeholder={item.countedQty !== null ? String(item.countedQty) : "-"}
+                          value={drafts[item.id] ?? (item.countedQty !== null ? String(item.countedQty) : "")}
+                          onChange={(e) => setDrafts((d) => ({ ...d, [item.id]: e.target.value }))}
+                        />
+                      ) : (item.countedQty ?? "-")}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {item.varianceQty === null ? "-" : (
+                        <span className={item.varianceQty < 0 ? "text-red-600" : item.varianceQty > 0 ? "text-green-700" : ""}>
+                          {item.varianceQty > 0 ? "+" : ""}{item.varianceQty}
+                          <div className="text-xs">&#8377;{money(item.varianceValue ?? "0")}</div>
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {visible.length === 0 && (
+                  <tr><td colSpan={4} className="px-3 py-4 text-center text-slate-500">No batches match</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {stockTake.status === "SUBMITTED" && (
+            <div className="space-y-2">
+              <Label>Recount Reason</Label>
+              <Input value={recountReason} onChange={(e) => setRecountReason(e.target.value)} placeholder="Required to send back for recount" />
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end pt-4 border-t">
+            <Button type="button" variant="outline" onClick={onClose}>Close</Button>
+            {counting && (
+              <>
+                <Button variant="outline" className="text-red-600" onClick={handleCancel} disabled={isSubmitting}>Cancel Count</Button>
+                <Button variant="outline" onClick={handleSaveCounts} disabled={isSubmitting || dirty.length === 0}>
+                  Save Counts{dirty.length > 0 ? ` (${dirty.length})` : ""}
+                </Button>
+                <Button onClick={handleSubmit} disabled={isSubmitting || dirty.length > 0}>Submit for Approval</Button>
+              </>
+            )}
+            {stockTake.status === "SUBMITTED" && (
+              <>
+                <Button variant="outline" onClick={() => changeStatus("reject", { reason: recountReason })} disabled={isSubmitting || !recountReason.trim()}>
+                  Send Back for Recount
+                </Button>
+                <Button onClick={handleApprove} disabled={isSubmitting}>{isSubmitting ? "Posting..." : "Approve & Adjust Stock"}</Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </Drawer>
+  );
+}
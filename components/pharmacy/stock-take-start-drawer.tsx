@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+
+interface StoreOption { id: string; code: string; name: string; }
+
+interface StockTakeStartDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onStarted: (stockTakeId: string) => void;
+}
+
+/**
+ * Start a count for a store. System quantities for every matching batch are
+ * frozen at this moment.
+ */
+export function StockTakeStartDrawer({ isOpen, onClose, onStarted }: StockTakeStartDrawerProps) {
+  const { addToast } = useToast();
+  const [stores, setStores] = useState<StoreOption[]>([]);
+  const [storeId, setStoreId] = useState("");
+  const [rackLocation, setRackLocation] = useState("");
+  const [category, setCategory] = useState("");
+  const [scheduleType, setScheduleType] = useState("ALL");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStoreId("");
+    setRackLocation("");
+    setCategory("");
+    setScheduleType("ALL");
+    setNotes("");
+    fetch("/api/pharmacy/masters/stores?limit=100&status=ACTIVE")
+      .then((r) => r.json())
+      .then((data) => { if (data.success) setStores(data.data || []); })
+      .catch(() => { /* silent */ });
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const res = await fetch("/api/pharmacy/stock-takes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          storeId,
+          rackLocation: rackLocation || undefined,
+          category: category || undefined,
+          scheduleType: scheduleType === "ALL" ? undefined : scheduleType,
+          notes: notes || undefined,
+        }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Stock take started");
+        onStarted(result.data.id);
+      } else {
+        addToast("error", result.message || "Failed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title="Start Stock Take">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <Label>Store *</Label>
+          <Select value={storeId} onValueChange={setStoreId}>
+            <SelectTrigger><SelectValue placeholder="Select store" /></SelectTrigger>
+            <SelectContent>
+              {stores.map((s) => <SelectItem key={s.id} value={s.id}>{s.code} - {s.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label>Rack</Label>
+            <Input value={rackLocation} onChange={(e) => setRackLocation(e.target.value)} placeholder="All racks" />
+          </div>
+          <div>
+            <Label>Category</Label>
+            <Input value={category} onChange={(e) => setCategory(e.target.value)} placeholder="All categories" />
+          </div>
+          <div>
+            <Label>Schedule</Label>
+            <Select value={scheduleType} onValueChange={setScheduleType}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All</SelectItem>
+                <SelectItem value="OTC">OTC</SelectItem>
+                <SelectItem value="H">Schedule H</SelectItem>
+                <SelectItem value="H1">Schedule H1</SelectItem>
+                <SelectItem value="X">Schedule X</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div>
+          <Label>Notes</Label>
+          <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional notes..." />
+        </div>
+
+        <p className="text-xs text-slate-500">
+          System quantities are frozen when the count starts. Sales on these batches while counting are flagged on the variance report.
+        </p>
+
+        <div className="flex gap-2 justify-end pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={isSubmitting || !storeId}>{isSubmitting ? "Freezing..." : "Start Count"}</Button>
+        </div>
+      </form>
+    </Drawer>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type { z } from "zod";
+import {
+  CreateVendorRateContractSchema, type CreateVendorRateContractInput,
+} from "@/lib/schemas/pharmacy-procurement-schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+
+interface VendorOption { id: string; code: string; name: string; }
+interface ProductOption { id: string; code: string; name: string; }
+
+export interface VendorContractInitialData {
+  id: string;
+  vendorId: string;
+  productId: string;
+  unitCost: string;
+  validFrom: string;
+  validTo: string;
+  notes: string | null;
+  version: number;
+}
+
+interface VendorContractFormDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  initialData?: VendorContractInitialData | null;
+}
+
+const emptyForm = (): CreateVendorRateContractInput => ({
+  vendorId: "",
+  productId: "",
+  unitCost: 0,
+  validFrom: new Date().toISOString().split("T")[0],
+  validTo: "",
+  notes: "",
+});
+
+export function VendorContractFormDrawer({ isOpen, onClose, onSuccess, initialData }: VendorContractFormDrawerProps) {
+  const isEdit = !!initialData;
+  const { addToast } = useToast();
+  const [vendors, setVendors] = useState<VendorOption[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+
+  const { register, handleSubmit, reset, setValue, watch, formState: { errors, isSubmitting } } = useForm<z.input<typeof CreateVendorRateContractSchema>, unknown, CreateVendorRateContractInput>({
+    resolver: zodResolver(CreateVendorRateContractSchema),
+    defaultValues: emptyForm(),
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    Promise.all([
+      fetch("/api/pharmacy/masters/vendors?limit=100&status=ACTIVE").then((r) => r.json()),
+      fetch("/api/pharmacy/masters/products?limit=100&status=ACTIVE").then((r) => r.json()),
+    ])
+      .then(([vData, pData]) => {
+        if (vData.success) setVendors(vData.data || []);
+        if (pData.success) setProducts(pData.data || []);
+      })
+      .catch(() => { /* silent */ });
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (initialData) {
+      reset({
+        vendorId: initialData.vendorId,
+        productId: initialData.productId,
+        unitCost: parseFloat(initialData.unitCost),
+        validFrom: initialData.validFrom.split("T")[0],
+        validTo: initialData.validTo.split("T")[0],
+        notes: initialData.notes || "",
+      });
+    } else {
+      reset(emptyForm());
+    }
+  }, [initialData, reset]);
+
+  const onSubmit = async (data: CreateVendorRateContractInput) => {
+    try {
+      const res = await fetch(isEdit ? `/api/pharmacy/vendor-contracts/${initialData!.id}` : "/api/pharmacy/vendor-contracts", {
+        method: isEdit ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(isEdit
+          ? { unitCost: data.unitCost, validFrom: data.validFrom, validTo: data.validTo, notes: data.notes, version: initialData!.version }
+          : data),
+      });
+      const result = await res.json();
+      if (result.success) { addToast("success", isEdit ? "Contract updated" : "Contract created"); onSuccess(); }
+      else addToast("error", result.message || "Failed");
+    } catch { addToast("error", "Network error"); }
+  };
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title={isEdit ? "Edit Rate Contract" : "New Rate Contract"}>
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div>
+          <Label>Vendor *</Label>
+          <Select value={watch("vendorId")} onValueChange={(v) => setValue("vendorId", v)} disabled={isEdit}>
+            <SelectTrigger><SelectValue placeholder="Select vendor" /></SelectTrigger>
+            <SelectContent>
+              {vendors.map((v) => <SelectItem key={v.id} value={v.id}>{v.code} - {v.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {errors.vendorId && <p className="text-xs text-red-500 mt-1">{errors.vendorId.message}</p>}
+        </div>
+        <div>
+          <Label>Product *</Label>
+          <Select value={watch("productId")} onValueChange={(v) => setValue("productId", v)} disabled={isEdit}>
+            <SelectTrigger><SelectValue placeholder="Select product" /></SelectTrigger>
+            <SelectContent>
+              {products.map((p) => <SelectItem key={p.id} value={p.id}>{p.code} - {p.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {errors.productId && <p className="text-xs text-red-500 mt-1">{errors.productId.message}</p>}
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label>Rate *</Label>
+            <Input type="number" step="0.01" min="0" {...register("unitCost", { valueAsNumber: true })} />
+            {errors.unitCost && <p className="text-xs text-red-500 mt-1">{errors.unitCost.message}</p>}
+          </div>
+          <div>
+            <Label>Valid From *</Label>
+            <Input type="date" {...register("validFrom")} />
+            {errors.validFrom && <p className="text-xs text-red-500 mt-1">{errors.validFrom.message}</p>}
+          </div>
+          <div>
+            <Label>Valid To *</Label>
+            <Input type="date" {...register("validTo")} />
+            {errors.validTo && <p className="text-xs text-red-500 mt-1">{errors.validTo.message}</p>}
+          </div>
+        </div>
+        <div>
+          <Label>Notes</Label>
+          <Input {...register("notes")} placeholder="Tender / agreement reference..." />
+        </div>
+        <div className="flex gap-2 justify-end pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={isSubmitting}>{isSubmitting ? "Saving..." : isEdit ? "Update" : "Create"}</Button>
+        </div>
+      </form>
+    </Drawer>
+  );
+}
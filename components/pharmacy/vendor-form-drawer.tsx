@@ -25,6 +25,7 @@ interface VendorFormDrawerProps {
     contactPerson: string | null;
     contactNumber: string | null;
     email: string | null;
+    leadTimeDays: number;
     status: "ACTIVE" | "INACTIVE";
   } | null;
 }
@@ -35,7 +36,7 @@ export function VendorFormDrawer({ isOpen, onClose, onSuccess, initialData }: Ve
 
   const { register, handleSubmit, reset, setValue, watch, formState: { errors, isSubmitting } } = useForm<VendorCreateInput>({
     resolver: zodResolver(VendorCreateSchema) as any,
-    defaultValues: { code: "", name: "", gstNumber: "", contactPerson: "", contactNumber: "", email: "", status: "ACTIVE" },
+    defaultValues: { code: "", name: "", gstNumber: "", contactPerson: "", contactNumber: "", email: "", leadTimeDays: 7, status: "ACTIVE" },
   });
 
   useEffect(() => {
@@ -43,10 +44,10 @@ export function VendorFormDrawer({ isOpen, onClose, onSuccess, initialData }: Ve
       reset({
         code: initialData.code, name: initialData.name, gstNumber: initialData.gstNumber || "",
         contactPerson: initialData.contactPerson || "", contactNumber: initialData.contactNumber || "",
-        email: initialData.email || "", status: initialData.status,
+        email: initialData.email || "", leadTimeDays: initialData.leadTimeDays, status: initialData.status,
       });
     } else {
-      reset({ code: "", name: "", gstNumber: "", contactPerson: "", contactNumber: "", email: "", status: "ACTIVE" });
+      reset({ code: "", name: "", gstNumber: "", contactPerson: "", contactNumber: "", email: "", leadTimeDays: 7, status: "ACTIVE" });
     }
   }, [initialData, reset]);
 
@@ -79,12 +80,15 @@ export function VendorFormDrawer({ isOpen, onClose, onSuccess, initialData }: Ve
             <div><Label>Contact Person</Label><Input {...register("contactPerson")} /></div>
             <div><Label>Contact Number</Label><Input {...register("contactNumber")} /></div>
           </div>
-          <div>
-            <Label>Status</Label>
-            <Select value={watch("status")} onValueChange={(v) => setValue("status", v as "ACTIVE" | "INACTIVE")}>
-              <SelectTrigger><SelectValue /></SelectTrigger>
-              <SelectContent><SelectItem value="ACTIVE">Active</SelectItem><SelectItem value="INACTIVE">Inactive</SelectItem></SelectContent>
-            </Select>
+          <div className="grid grid-cols-2 gap-4">
+            <div><Label>Lead Time (days)</Label><Input type="number" min={0} {...register("leadTimeDays")} />{errors.leadTimeDays && <p className="text-xs text-red-500 mt-1">{errors.leadTimeDays.message}</p>}</div>
+            <div>
+              <Label>Status</Label>
+              <Select value={watch("status")} onValueChange={(v) => setValue("status", v as "ACTIVE" | "INACTIVE")}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent><SelectItem value="ACTIVE">Active</SelectItem><SelectItem value="INACTIVE">Inactive</SelectItem></SelectContent>
+              </Select>
+            </div>
           </div>
           <div className="flex gap-2 justify-end pt-4">
             <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
@@ -0,0 +1,245 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+import { format } from "date-fns";
+
+export type VendorInvoiceStatus = "MATCHED" | "FLAGGED" | "VARIANCE_APPROVED" | "PAYABLE" | "CANCELLED";
+
+interface VendorInvoiceItem {
+  id: string;
+  productCode: string;
+  productName: string;
+  quantity: number;
+  unitCost: string;
+  tax: string;
+  total: string;
+  poQuantity: number;
+  poUnitCost: string | null;
+  grnQuantity: number;
+  grnUnitCost: string | null;
+  quantityVariance: boolean;
+  priceVariance: boolean;
+  priceVariancePercent: string | null;
+}
+
+interface VendorInvoiceDetail {
+  id: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  vendorName: string;
+  poNumber: string;
+  grnNumber: string;
+  storeName: string;
+  status: VendorInvoiceStatus;
+  subtotal: string;
+  tax: string;
+  total: string;
+  notes: string | null;
+  varianceApprovedAt: string | null;
+  varianceApprovalNotes: string | null;
+  payableAt: string | null;
+  version: number;
+  items: VendorInvoiceItem[];
+}
+
+export const VENDOR_INVOICE_STATUS_STYLES: Record<VendorInvoiceStatus, string> = {
+  MATCHED: "bg-green-100 text-green-800",
+  FLAGGED: "bg-amber-100 text-amber-800",
+  VARIANCE_APPROVED: "bg-blue-100 text-blue-800",
+  PAYABLE: "bg-emerald-100 text-emerald-800",
+  CANCELLED: "bg-red-100 text-red-700",
+};
+
+interface VendorInvoiceDetailDrawerProps {
+  isOpen: boolean;
+  invoiceId: string | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+/**
+ * PO, GRN and invoice figures side by side. Flagged invoices need a purchase
+ * manager's approval before accounts can mark them payable.
+ */
+export function VendorInvoiceDetailDrawer({ isOpen, invoiceId, onClose, onChanged }: VendorInvoiceDetailDrawerProps) {
+  const { addToast } = useToast();
+  const [invoice, setInvoice] = useState<VendorInvoiceDetail | null>(null);
+  const [approvalNotes, setApprovalNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !invoiceId) return;
+    setInvoice(null);
+    setApprovalNotes("");
+    fetch(`/api/pharmacy/vendor-invoices/${invoiceId}`)
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) setInvoice(result.data);
+        else addToast("error", result.message || "Failed to load vendor invoice");
+      })
+      .catch(() => addToast("error", "Network error"));
+  }, [isOpen, invoiceId, addToast]);
+
+  const submit = async (action: "approve-variance" | "payable" | "cancel") => {
+    if (!invoice) return;
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/pharmacy/vendor-invoices/${invoice.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          version: invoice.version,
+          ...(action === "approve-variance" ? { notes: approvalNotes } : {}),
+        }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Saved");
+        setInvoice(result.data);
+        onChanged();
+      } else {
+        addToast("error", result.message || "Failed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleApprove = () => {
+    if (!approvalNotes.trim()) { addToast("error", "Enter the reason for accepting the variance"); return; }
+    submit("approve-variance");
+  };
+
+  const handlePayable = () => {
+    if (!confirm(`Mark "${invoice!.invoiceNumber}" payable for ₹${invoice!.total}?`)) return;
+    submit("payable");
+  };
+
+  const handleCancel = () => {
+    if (!confirm(`Cancel "${invoice!.invoiceNumber}"? The GRN can then be invoiced again.`)) return;
+    submit("cancel");
+  };
+
+  const isOpenForAction = invoice && ["MATCHED", "FLAGGED", "VARIANCE_APPROVED"].includes(invoice.status);
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title={invoice ? `Vendor Invoice ${invoice.invoiceNumber}` : "Vendor Invoice"}>
+      {!invoice ? (
+        <div className="flex items-center justify-center p-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-slate-500">Vendor</div>
+              <div className="font-medium">{invoice.vendorName}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Invoice Date</div>
+              <div className="font-medium">{format(new Date(invoice.invoiceDate), "PP")}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">PO / GRN</div>
+              <div>{invoice.poNumber} · {invoice.grnNumber} · {invoice.storeName}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Status</div>
+              <Badge className={VENDOR_INVOICE_STATUS_STYLES[invoice.status]}>{invoice.status.replace("_", " ")}</Badge>
+            </div>
+          </div>
+          {invoice.notes && <p className="text-sm text-slate-600">{invoice.notes}</p>}
+
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr className="text-left">
+                  <th className="px-3 py-2 font-medium">Product</th>
+                  <th className="px-3 py-2 font-medium text-right">PO</th>
+                  <th className="px-3 py-2 font-medium text-right">GRN</th>
+                  <th className="px-3 py-2 font-medium text-right">Invoice</th>
+                  <th className="px-3 py-2 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invoice.items.map((item) => (
+                  <tr key={item.id} className={`border-t ${item.quantityVariance || item.priceVariance ? "bg-amber-50" : ""}`}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium">{item.productName}</div>
+                      <div className="text-xs text-slate-500">{item.productCode}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {item.poQuantity}
+                      <div className="text-xs text-slate-500">&#8377;{item.poUnitCost ?? "-"}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {item.grnQuantity}
+                      <div className="text-xs text-slate-500">&#8377;{item.grnUnitCost ?? "-"}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <span className={item.quantityVariance ? "text-amber-700 font-medium" : ""}>{item.quantity}</span>
+                      <div className={`text-xs ${item.priceVariance ? "text-amber-700 font-medium" : "text-slate-500"}`}>
+                        &#8377;{item.unitCost}
+                        {item.priceVariancePercent && Number(item.priceVariancePercent) !== 0 && ` (${Number(item.priceVariancePercent) > 0 ? "+" : ""}${item.priceVariancePercent}%)`}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium">&#8377;{item.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="rounded-lg bg-slate-50 p-3 text-sm space-y-1">
+            <div className="flex justify-between"><span className="text-slate-500">Taxable value</span><span>&#8377;{invoice.subtotal}</span></div>
+            <div className="flex justify-between"><span className="text-slate-500">GST</span><span>&#8377;{invoice.tax}</span></div>
+            <div className="flex justify-between font-semibold border-t pt-1"><span>Invoice total</span><span>&#8377;{invoice.total}</span></div>
+          </div>
+
+          {invoice.varianceApprovedAt && (
+            <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm">
+              <div className="text-xs text-slate-500">Variance approved {format(new Date(invoice.varianceApprovedAt), "PPp")}</div>
+              <div>{invoice.varianceApprovalNotes}</div>
+            </div>
+          )}
+          {invoice.payableAt && (
+            <p className="text-sm text-slate-600">Marked payable {format(new Date(invoice.payableAt), "PPp")}</p>
+          )}
+
+          {invoice.status === "FLAGGED" && (
+            <div>
+              <Label>Variance Approval Notes *</Label>
+              <Input
+                value={approvalNotes}
+                onChange={(e) => setApprovalNotes(e.target.value)}
+                placeholder="Reason for accepting the quantity / price difference..."
+              />
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end pt-4 border-t">
+            <Button type="button" variant="outline" onClick={onClose}>Close</Button>
+            {isOpenForAction && (
+              <Button variant="outline" className="text-red-600" onClick={handleCancel} disabled={isSubmitting}>Cancel Invoice</Button>
+            )}
+            {invoice.status === "FLAGGED" && (
+              <Button onClick={handleApprove} disabled={isSubmitting}>{isSubmitting ? "Saving..." : "Approve Variance"}</Button>
+            )}
+            {(invoice.status === "MATCHED" || invoice.status === "VARIANCE_APPROVED") && (
+              <Button onClick={handlePayable} disabled={isSubmitting}>{isSubmitting ? "Saving..." : "Mark Payable"}</Button>
+            )}
+          </div>
+        </div>
+      )}
+    </Drawer>
+  );
+}
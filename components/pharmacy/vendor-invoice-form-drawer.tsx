@@ -0,0 +1,288 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+import { format } from "date-fns";
+
+interface InvoiceableLine {
+  productId: string;
+  productCode: string;
+  productName: string;
+  gstPercent: string;
+  poQuantity: number;
+  poUnitCost: string | null;
+  grnQuantity: number;
+  grnUnitCost: string | null;
+}
+
+interface InvoiceableGoodsReceipt {
+  goodsReceiptId: string;
+  grnNumber: string;
+  receivedDate: string;
+  vendorInvoiceNumber: string | null;
+  poNumber: string;
+  vendorName: string;
+  storeName: string;
+  lines: InvoiceableLine[];
+}
+
+interface InvoiceLine { included: boolean; quantity: string; unitCost: string; tax: string; }
+
+interface VendorInvoiceFormDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (invoiceId: string) => void;
+}
+
+const money = (value: number) => value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const lineTax = (line: InvoiceableLine, quantity: string, unitCost: string) =>
+  ((parseInt(quantity, 10) || 0) * (parseFloat(unitCost) || 0) * parseFloat(line.gstPercent) / 100).toFixed(2);
+
+/**
+ * Capture the vendor's invoice against a GRN. Lines default to the GRN's
+ * accepted quantities and rates; the server runs the three-way match on save.
+ */
+export function VendorInvoiceFormDrawer({ isOpen, onClose, onSuccess }: VendorInvoiceFormDrawerProps) {
+  const { addToast } = useToast();
+  const [search, setSearch] = useState("");
+  const [receipts, setReceipts] = useState<InvoiceableGoodsReceipt[]>([]);
+  const [goodsReceiptId, setGoodsReceiptId] = useState("");
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [invoiceDate, setInvoiceDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<Record<string, InvoiceLine>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSearch("");
+    setGoodsReceiptId("");
+    setInvoiceNumber("");
+    setInvoiceDate(new Date().toISOString().split("T")[0]);
+    setNotes("");
+    setLines({});
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const t = setTimeout(() => {
+      const params = new URLSearchParams();
+      if (search) params.append("search", search);
+      fetch(`/api/pharmacy/vendor-invoices/invoiceable?${params}`)
+        .then((res) => res.json())
+        .then((result) => {
+          if (result.success) setReceipts(result.data || []);
+          else addToast("error", result.message || "Failed to load goods receipts");
+        })
+        .catch(() => addToast("error", "Network error"));
+    }, 300);
+    return () => clearTimeout(t);
+  }, [isOpen, search, addToast]);
+
+  const receipt = receipts.find((r) => r.goodsReceiptId === goodsReceiptId) ?? null;
+
+  const selectReceipt = (id: string) => {
+    const grn = receipts.find((r) => r.goodsReceiptId === id);
+    setGoodsReceiptId(id);
+    if (!grn) return;
+    setInvoiceNumber(grn.vendorInvoiceNumber ?? "");
+    const next: Record<string, InvoiceLine> = {};
+    for (const line of grn.lines) {
+      const quantity = String(line.grnQuantity);
+      const unitCost = line.grnUnitCost ?? line.poUnitCost ?? "";
+      next[line.productId] = { included: line.grnQuantity > 0, quantity, unitCost, tax: lineTax(line, quantity, unitCost) };
+    }
+    setLines(next);
+  };
+
+  const updateLine = (line: InvoiceableLine, patch: Partial<InvoiceLine>) =>
+    setLines((prev) => {
+      const merged = { ...prev[line.productId], ...patch };
+      // Keep GST in step with quantity and rate unless it is being edited directly
+      if (patch.quantity !== undefined || patch.unitCost !== undefined) {
+        merged.tax = lineTax(line, merged.quantity, merged.unitCost);
+      }
+      return { ...prev, [line.productId]: merged };
+    });
+
+  const totals = (receipt?.lines ?? []).reduce((acc, l) => {
+    const line = lines[l.productId];
+    if (!line?.included) return acc;
+    return {
+      subtotal: acc.subtotal + (parseInt(line.quantity, 10) || 0) * (parseFloat(line.unitCost) || 0),
+      tax: acc.tax + (parseFloat(line.tax) || 0),
+    };
+  }, { subtotal: 0, tax: 0 });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = Object.entries(lines)
+      .filter(([, line]) => line.included)
+      .map(([productId, line]) => ({
+        productId,
+        quantity: parseInt(line.quantity, 10) || 0,
+        unitCost: parseFloat(line.unitCost) || 0,
+        tax: parseFloat(line.tax) || 0,
+      }));
+    if (!goodsReceiptId) { addToast("error", "Select a goods receipt"); return; }
+    if (items.length === 0) { addToast("error", "Include at least one line"); return; }
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch("/api/pharmacy/vendor-invoices", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ goodsReceiptId, invoiceNumber, invoiceDate, notes: notes || undefined, items }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast(result.data.status === "FLAGGED" ? "warning" : "success", result.message || "Invoice captured");
+        onSuccess(result.data.id);
+      } else {
+        addToast("error", result.message || "Failed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title="Capture Vendor Invoice">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Find GRN</Label>
+            <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="GRN, PO or vendor..." />
+          </div>
+          <div>
+            <Label>Goods Receipt *</Label>
+            <Select value={goodsReceiptId} onValueChange={selectReceipt}>
+              <SelectTrigger><SelectValue placeholder="Select GRN" /></SelectTrigger>
+              <SelectContent>
+                {receipts.map((r) => (
+                  <SelectItem key={r.goodsReceiptId} value={r.goodsReceiptId}>{r.grnNumber} - {r.vendorName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {receipt && (
+          <div className="grid grid-cols-3 gap-4 text-sm rounded-lg bg-slate-50 p-3">
+            <div><div className="text-xs text-slate-500">Vendor</div><div className="font-medium">{receipt.vendorName}</div></div>
+            <div><div className="text-xs text-slate-500">PO</div><div className="font-medium">{receipt.poNumber}</div></div>
+            <div>
+              <div className="text-xs text-slate-500">Received</div>
+              <div className="font-medium">{format(new Date(receipt.receivedDate), "PP")} · {receipt.storeName}</div>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Invoice Number *</Label>
+            <Input value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} required />
+          </div>
+          <div>
+            <Label>Invoice Date *</Label>
+            <Input type="date" value={invoiceDate} onChange={(e) => setInvoiceDate(e.target.value)} required />
+          </div>
+        </div>
+
+        {receipt && (
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr className="text-left">
+                  <th className="px-3 py-2 w-8"></th>
+                  <th className="px-3 py-2 font-medium">Product</th>
+                  <th className="px-3 py-2 font-medium w-20">Qty</th>
+                  <th className="px-3 py-2 font-medium w-24">Rate</th>
+                  <th className="px-3 py-2 font-medium w-24">GST</th>
+                </tr>
+              </thead>
+              <tbody>
+                {receipt.lines.map((l) => {
+                  const line = lines[l.productId];
+                  if (!line) return null;
+                  const qtyDiffers = (parseInt(line.quantity, 10) || 0) !== l.grnQuantity;
+                  const rateDiffers = l.poUnitCost !== null && (parseFloat(line.unitCost) || 0) !== parseFloat(l.poUnitCost);
+                  return (
+                    <tr key={l.productId} className={`border-t ${line.included ? "" : "opacity-50"}`}>
+                      <td className="px-3 py-2">
+                        <input type="checkbox" checked={line.included} onChange={(e) => updateLine(l, { included: e.target.checked })} />
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium">{l.productName}</div>
+                        <div className="text-xs text-slate-500">
+                          PO {l.poQuantity} @ &#8377;{l.poUnitCost ?? "-"} · GRN {l.grnQuantity} @ &#8377;{l.grnUnitCost ?? "-"}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          className={`h-8 ${qtyDiffers ? "border-amber-400" : ""}`}
+                          value={line.quantity}
+                          onChange={(e) => updateLine(l, { quantity: e.target.value })}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min={0}
+                          className={`h-8 ${rateDiffers ? "border-amber-400" : ""}`}
+                          value={line.unitCost}
+                          onChange={(e) => updateLine(l, { unitCost: e.target.value })}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min={0}
+                          className="h-8"
+                          value={line.tax}
+                          onChange={(e) => updateLine(l, { tax: e.target.value })}
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div>
+          <Label>Notes</Label>
+          <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional notes..." />
+        </div>
+
+        <div className="rounded-lg bg-slate-50 p-3 text-sm space-y-1">
+          <div className="flex justify-between"><span className="text-slate-500">Taxable value</span><span>&#8377;{money(totals.subtotal)}</span></div>
+          <div className="flex justify-between"><span className="text-slate-500">GST</span><span>&#8377;{money(totals.tax)}</span></div>
+          <div className="flex justify-between font-semibold"><span>Invoice total</span><span>&#8377;{money(totals.subtotal + totals.tax)}</span></div>
+        </div>
+
+        <div className="flex gap-2 justify-end pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={isSubmitting || !receipt}>
+            {isSubmitting ? "Saving..." : "Capture & Match"}
+          </Button>
+        </div>
+      </form>
+    </Drawer>
+  );
+}
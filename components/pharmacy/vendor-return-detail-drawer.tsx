@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+import { DISPOSAL_REASON_LABELS } from "@/components/pharmacy/vendor-return-form-drawer";
+import { Printer } from "lucide-react";
+import { format } from "date-fns";
+
+export type VendorReturnStatus = "DRAFT" | "APPROVED" | "CANCELLED";
+
+interface VendorReturnItem {
+  id: string;
+  grnNumber: string;
+  productCode: string;
+  productName: string;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: number;
+  reason: keyof typeof DISPOSAL_REASON_LABELS;
+  unitCost: string;
+  gstPercent: string;
+  tax: string;
+  total: string;
+}
+
+interface VendorReturnDetail {
+  id: string;
+  returnNumber: string;
+  debitNoteNumber: string | null;
+  debitNoteDate: string | null;
+  vendorName: string;
+  storeName: string;
+  status: VendorReturnStatus;
+  notes: string | null;
+  subtotal: string;
+  tax: string;
+  total: string;
+  gst: { cgst: string; sgst: string; igst: string };
+  version: number;
+  items: VendorReturnItem[];
+}
+
+export const VENDOR_RETURN_STATUS_STYLES: Record<VendorReturnStatus, string> = {
+  DRAFT: "bg-slate-100 text-slate-700",
+  APPROVED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-red-100 text-red-700",
+};
+
+interface VendorReturnDetailDrawerProps {
+  isOpen: boolean;
+  returnId: string | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+/**
+ * Return lines with the GST reversal split. Approving a draft deducts the batches
+ * and issues the debit note.
+ */
+export function VendorReturnDetailDrawer({ isOpen, returnId, onClose, onChanged }: VendorReturnDetailDrawerProps) {
+  const { addToast } = useToast();
+  const [vendorReturn, setVendorReturn] = useState<VendorReturnDetail | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !returnId) return;
+    setVendorReturn(null);
+    fetch(`/api/pharmacy/vendor-returns/${returnId}`)
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) setVendorReturn(result.data);
+        else addToast("error", result.message || "Failed to load vendor return");
+      })
+      .catch(() => addToast("error", "Network error"));
+  }, [isOpen, returnId, addToast]);
+
+  const submit = async (action: "approve" | "cancel") => {
+    if (!vendorReturn) return;
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/pharmacy/vendor-returns/${vendorReturn.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, version: vendorReturn.version }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Saved");
+        setVendorReturn(result.data);
+        onChanged();
+      } else {
+        addToast("error", result.message || "Failed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleApprove = () => {
+    if (!confirm(`Approve "${vendorReturn!.returnNumber}"? Stock will be deducted and a debit note issued.`)) return;
+    submit("approve");
+  };
+
+  const handleCancel = () => {
+    if (!confirm(`Cancel "${vendorReturn!.returnNumber}"?`)) return;
+    submit("cancel");
+  };
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title={vendorReturn ? `Vendor Return ${vendorReturn.returnNumber}` : "Vendor Return"}>
+      {!vendorReturn ? (
+        <div className="flex items-center justify-center p-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-slate-500">Vendor</div>
+              <div className="font-medium">{vendorReturn.vendorName}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Store</div>
+              <div className="font-medium">{vendorReturn.storeName}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Status</div>
+              <Badge className={VENDOR_RETURN_STATUS_STYLES[vendorReturn.status]}>{vendorReturn.status}</Badge>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Debit Note</div>
+              <div>
+                {vendorReturn.debitNoteNumber
+                  ? `${vendorReturn.debitNoteNumber} · ${format(new Date(vendorReturn.debitNoteDate!), "PP")}`
+                  : "-"}
+              </div>
+            </div>
+          </div>
+          {vendorReturn.notes && <p className="text-sm text-slate-600">{vendorReturn.notes}</p>}
+
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr className="text-left">
+                  <th className="px-3 py-2 font-medium">Product / Batch</th>
+                  <th className="px-3 py-2 font-medium text-right">Qty</th>
+                  <th className="px-3 py-2 font-medium text-right">Rate</th>
+                  <th className="px-3 py-2 font-medium text-right">GST</th>
+                  <th className="px-3 py-2 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {vendorReturn.items.map((item) => (
+                  <tr key={item.id} className="border-t">
+                    <td className="px-3 py-2">
+                      <div className="font-medium">{item.productName}</div>
+                      <div className="text-xs text-slate-500">
+                        {item.batchNumber} · Exp {format(new Date(item.expiryDate), "MMM yyyy")} · {item.grnNumber} · {DISPOSAL_REASON_LABELS[item.reason]}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right">{item.quantity}</td>
+                    <td className="px-3 py-2 text-right">&#8377;{item.unitCost}</td>
+                    <td className="px-3 py-2 text-right">
+                      &#8377;{item.tax}
+                      <div className="text-xs text-slate-500">{item.gstPercent}%</div>
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium">&#8377;{item.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="rounded-lg bg-slate-50 p-3 text-sm space-y-1">
+            <div className="flex justify-between"><span className="text-slate-500">Taxable value</span><span>&#8377;{vendorReturn.subtotal}</span></div>
+            {Number(vendorReturn.gst.igst) > 0 ? (
+              <div className="flex justify-between"><span className="text-slate-500">IGST reversal</span><span>&#8377;{vendorReturn.gst.igst}</span></div>
+            ) : (
+              <>
+                <div className="flex justify-between"><span className="text-slate-500">CGST reversal</span><span>&#8377;{vendorReturn.gst.cgst}</span></div>
+                <div className="flex justify-between"><span className="text-slate-500">SGST reversal</span><span>&#8377;{vendorReturn.gst.sgst}</span></div>
+              </>
+            )}
+            <div className="flex justify-between font-semibold border-t pt-1"><span>Debit note total</span><span>&#8377;{vendorReturn.total}</span></div>
+          </div>
+
+          <div className="flex gap-2 justify-end pt-4 border-t">
+            <Button type="button" variant="outline" onClick={onClose}>Close</Button>
+            {vendorReturn.status === "DRAFT" && (
+              <>
+                <Button variant="outline" className="text-red-600" onClick={handleCancel} disabled={isSubmitting}>Cancel Return</Button>
+                <Button onClick={handleApprove} disabled={isSubmitting}>{isSubmitting ? "Saving..." : "Approve & Issue Debit Note"}</Button>
+              </>
+            )}
+            {vendorReturn.status === "APPROVED" && (
+              <Button onClick={() => window.open(`/print/debit-note/${vendorReturn.id}`, "_blank")}>
+                <Printer className="h-4 w-4 mr-2" /> Print Debit Note
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </Drawer>
+  );
+}
@@ -0,0 +1,284 @@
+"use client";
+
+import React, { useEffect, useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+import { STOCK_DISPOSAL_REASONS } from "@/lib/schemas/pharmacy-return-schema";
+import { format } from "date-fns";
+
+type DisposalReason = (typeof STOCK_DISPOSAL_REASONS)[number];
+
+interface Option { id: string; code: string; name: string; }
+
+interface ReturnableBatch {
+  goodsReceiptItemId: string;
+  grnNumber: string;
+  productCode: string;
+  productName: string;
+  batchNumber: string;
+  expiryDate: string;
+  unitCost: string;
+  gstPercent: string;
+  returnableQty: number;
+}
+
+interface SelectedLine { quantity: string; reason: DisposalReason; }
+
+export interface VendorReturnPreset {
+  storeId: string;
+  vendorId: string;
+  goodsReceiptItemId?: string;
+}
+
+interface VendorReturnFormDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  preset?: VendorReturnPreset | null;
+}
+
+export const DISPOSAL_REASON_LABELS: Record<DisposalReason, string> = {
+  EXPIRED: "Expired",
+  NEAR_EXPIRY: "Near expiry",
+  DAMAGED: "Damaged",
+  RECALLED: "Recalled",
+  OTHER: "Other",
+};
+
+const money = (value: number) => value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Pick GRN batches from a store to send back to the vendor. Saved as a DRAFT;
+ * stock moves and the debit note is issued on approval.
+ */
+export function VendorReturnFormDrawer({ isOpen, onClose, onSuccess, preset }: VendorReturnFormDrawerProps) {
+  const { addToast } = useToast();
+  const [stores, setStores] = useState<Option[]>([]);
+  const [vendors, setVendors] = useState<Option[]>([]);
+  const [storeId, setStoreId] = useState("");
+  const [vendorId, setVendorId] = useState("");
+  const [expiredOnly, setExpiredOnly] = useState(false);
+  const [batches, setBatches] = useState<ReturnableBatch[]>([]);
+  const [selected, setSelected] = useState<Record<string, SelectedLine>>({});
+  const [notes, setNotes] = useState("");
+  const [isLoadingBatches, setIsLoadingBatches] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStoreId(preset?.storeId ?? "");
+    setVendorId(preset?.vendorId ?? "");
+    setExpiredOnly(false);
+    setSelected({});
+    setNotes("");
+    Promise.all([
+      fetch("/api/pharmacy/masters/stores?limit=100&status=ACTIVE").then((r) => r.json()),
+      fetch("/api/pharmacy/masters/vendors?limit=100&status=ACTIVE").then((r) => r.json()),
+    ])
+      .then(([sData, vData]) => {
+        if (sData.success) setStores(sData.data || []);
+        if (vData.success) setVendors(vData.data || []);
+      })
+      .catch(() => { /* silent */ });
+  }, [isOpen, preset]);
+
+  const fetchBatches = useCallback(async () => {
+    if (!storeId || !vendorId) { setBatches([]); return; }
+    setIsLoadingBatches(true);
+    try {
+      const params = new URLSearchParams({ storeId, vendorId });
+      if (expiredOnly) params.append("expiredOnly", "true");
+      const res = await fetch(`/api/pharmacy/vendor-returns/returnable?${params}`);
+      const result = await res.json();
+      if (result.success) {
+        const rows = result.data as ReturnableBatch[];
+        setBatches(rows);
+        const presetRow = rows.find((b) => b.goodsReceiptItemId === preset?.goodsReceiptItemId);
+        setSelected(presetRow
+          ? { [presetRow.goodsReceiptItemId]: { quantity: String(presetRow.returnableQty), reason: new Date(presetRow.expiryDate) < new Date() ? "EXPIRED" : "NEAR_EXPIRY" } }
+          : {});
+      } else {
+        setBatches([]);
+        addToast("error", result.message || "Failed to load batches");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsLoadingBatches(false);
+    }
+  }, [storeId, vendorId, expiredOnly, preset, addToast]);
+
+  useEffect(() => { if (isOpen) fetchBatches(); }, [isOpen, fetchBatches]);
+
+  const toggle = (b: ReturnableBatch, checked: boolean) => {
+    setSelected((s) => {
+      const next = { ...s };
+      if (checked) next[b.goodsReceiptItemId] = { quantity: String(b.returnableQty), reason: new Date(b.expiryDate) < new Date() ? "EXPIRED" : "DAMAGED" };
+      else delete next[b.goodsReceiptItemId];
+      return next;
+    });
+  };
+
+  const updateLine = (id: string, patch: Partial<SelectedLine>) =>
+    setSelected((s) => ({ ...s, [id]: { ...s[id], ...patch } }));
+
+  const totals = batches.reduce((acc, b) => {
+    const line = selected[b.goodsReceiptItemId];
+    if (!line) return acc;
+    const sub = parseFloat(b.unitCost) * (parseInt(line.quantity, 10) || 0);
+    const tax = sub * parseFloat(b.gstPercent) / 100;
+    return { subtotal: acc.subtotal + sub, tax: acc.tax + tax };
+  }, { subtotal: 0, tax: 0 });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = Object.entries(selected).map(([goodsReceiptItemId, line]) => ({
+      goodsReceiptItemId,
+      quantity: parseInt(line.quantity, 10) || 0,
+      reason: line.reason,
+    }));
+    if (items.length === 0) { addToast("error", "Select at least one batch"); return; }
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch("/api/pharmacy/vendor-returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ storeId, vendorId, notes: notes || undefined, items }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Vendor return created");
+        onSuccess();
+      } else {
+        addToast("error", result.message || "Failed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title="New Vendor Return">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Store *</Label>
+            <Select value={storeId} onValueChange={setStoreId}>
+              <SelectTrigger><SelectValue placeholder="Select store" /></SelectTrigger>
+              <SelectContent>
+                {stores.map((s) => <SelectItem key={s.id} value={s.id}>{s.code} - {s.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Vendor *</Label>
+            <Select value={vendorId} onValueChange={setVendorId}>
+              <SelectTrigger><SelectValue placeholder="Select vendor" /></SelectTrigger>
+              <SelectContent>
+                {vendors.map((v) => <SelectItem key={v.id} value={v.id}>{v.code} - {v.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-base font-medium">Batches on Hand</Label>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input type="checkbox" checked={expiredOnly} onChange={(e) => setExpiredOnly(e.target.checked)} />
+              Expired only
+            </label>
+          </div>
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr className="text-left">
+                  <th className="px-3 py-2 w-8"></th>
+                  <th className="px-3 py-2 font-medium">Product / Batch</th>
+                  <th className="px-3 py-2 font-medium text-right">Returnable</th>
+                  <th className="px-3 py-2 font-medium w-20">Qty</th>
+                  <th className="px-3 py-2 font-medium w-32">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.map((b) => {
+                  const line = selected[b.goodsReceiptItemId];
+                  return (
+                    <tr key={b.goodsReceiptItemId} className="border-t">
+                      <td className="px-3 py-2">
+                        <input type="checkbox" checked={!!line} onChange={(e) => toggle(b, e.target.checked)} />
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium">{b.productName}</div>
+                        <div className="text-xs text-slate-500">
+                          {b.batchNumber} · Exp {format(new Date(b.expiryDate), "MMM yyyy")} · {b.grnNumber} · &#8377;{b.unitCost} + {b.gstPercent}% GST
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-right">{b.returnableQty}</td>
+                      <td className="px-3 py-2">
+                        {line && (
+                          <Input
+                            type="number"
+                            min={1}
+                            max={b.returnableQty}
+                            className="h-8"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(b.goodsReceiptItemId, { quantity: e.target.value })}
+                          />
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        {line && (
+                          <Select value={line.reason} onValueChange={(v) => updateLine(b.goodsReceiptItemId, { reason: v as DisposalReason })}>
+                            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {STOCK_DISPOSAL_REASONS.map((r) => <SelectItem key={r} value={r}>{DISPOSAL_REASON_LABELS[r]}</SelectItem>)}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {batches.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-4 text-center text-slate-500">
+                      {isLoadingBatches ? "Loading..." : storeId && vendorId ? "No returnable batches from this vendor" : "Select a store and vendor"}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div>
+          <Label>Notes</Label>
+          <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional notes..." />
+        </div>
+
+        <div className="rounded-lg bg-slate-50 p-3 text-sm space-y-1">
+          <div className="flex justify-between"><span className="text-slate-500">Taxable value</span><span>&#8377;{money(totals.subtotal)}</span></div>
+          <div className="flex justify-between"><span className="text-slate-500">GST reversal</span><span>&#8377;{money(totals.tax)}</span></div>
+          <div className="flex justify-between font-semibold"><span>Debit note total</span><span>&#8377;{money(totals.subtotal + totals.tax)}</span></div>
+        </div>
+
+        <div className="flex gap-2 justify-end pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={isSubmitting || Object.keys(selected).length === 0}>
+            {isSubmitting ? "Saving..." : "Save Draft"}
+          </Button>
+        </div>
+      </form>
+    </Drawer>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+import { DISPOSAL_REASON_LABELS } from "@/components/pharmacy/vendor-return-form-drawer";
+import { ShieldAlert, PenLine } from "lucide-react";
+import { format } from "date-fns";
+
+export type WriteOffStatus = "PENDING" | "APPROVED" | "REJECTED" | "CANCELLED";
+
+interface WriteOffItem {
+  id: string;
+  productCode: string;
+  productName: string;
+  scheduleType: string;
+  batchNumber: string;
+  expiryDate: string | null;
+  quantity: number;
+  reason: keyof typeof DISPOSAL_REASON_LABELS;
+  unitCost: string;
+  value: string;
+  isScheduled: boolean;
+}
+
+interface WriteOffWitness {
+  id: string;
+  name: string;
+  designation: string | null;
+  signature: string;
+  signedAt: string;
+}
+
+interface WriteOffDetail {
+  id: string;
+  writeOffNumber: string;
+  storeName: string;
+  status: WriteOffStatus;
+  destructionMethod: string | null;
+  notes: string | null;
+  totalValue: string;
+  requiresWitness: boolean;
+  requiredWitnesses: number;
+  approvedAt: string | null;
+  rejectionReason: string | null;
+  version: number;
+  createdAt: string;
+  items: WriteOffItem[];
+  witnesses: WriteOffWitness[];
+}
+
+export const WRITE_OFF_STATUS_STYLES: Record<WriteOffStatus, string> = {
+  PENDING: "bg-amber-100 text-amber-800",
+  APPROVED: "bg-green-100 text-green-800",
+  REJECTED: "bg-red-100 text-red-700",
+  CANCELLED: "bg-slate-100 text-slate-700",
+};
+
+interface WriteOffDetailDrawerProps {
+  isOpen: boolean;
+  writeOffId: string | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+/**
+ * Write-off lines with witness sign-off for scheduled drugs and the approve/reject step
+ */
+export function WriteOffDetailDrawer({ isOpen, writeOffId, onClose, onChanged }: WriteOffDetailDrawerProps) {
+  const { addToast } = useToast();
+  const [writeOff, setWriteOff] = useState<WriteOffDetail | null>(null);
+  const [designation, setDesignation] = useState("");
+  const [signature, setSignature] = useState("");
+  const [rejectReason, setRejectReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const load = (data: WriteOffDetail) => {
+    setWriteOff(data);
+    setDesignation("");
+    setSignature("");
+    setRejectReason("");
+  };
+
+  useEffect(() => {
+    if (!isOpen || !writeOffId) return;
+    setWriteOff(null);
+    fetch(`/api/pharmacy/write-offs/${writeOffId}`)
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) load(result.data);
+        else addToast("error", result.message || "Failed to load write-off");
+      })
+      .catch(() => addToast("error", "Network error"));
+  }, [isOpen, writeOffId, addToast]);
+
+  const submit = async (url: string, method: "PATCH" | "POST", body: Record<string, unknown>) => {
+    if (!writeOff) return;
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, version: writeOff.version }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Saved");
+        load(result.data);
+        onChanged();
+      } else {
+        addToast("error", result.message || "Failed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSign = () => submit(`/api/pharmacy/write-offs/${writeOff!.id}/witnesses`, "POST", {
+    designation: designation || undefined,
+    signature,
+  });
+
+  const handleApprove = () => {
+    if (!confirm(`Approve "${writeOff!.writeOffNumber}"? The stock will be removed from inventory.`)) return;
+    submit(`/api/pharmacy/write-offs/${writeOff!.id}`, "PATCH", { action: "approve" });
+  };
+
+  const handleReject = () => submit(`/api/pharmacy/write-offs/${writeOff!.id}`, "PATCH", { action: "reject", reason: rejectReason });
+
+  const handleCancel = () => {
+    if (!confirm(`Cancel "${writeOff!.writeOffNumber}"?`)) return;
+    submit(`/api/pharmacy/write-offs/${writeOff!.id}`, "PATCH", { action: "cancel" });
+  };
+
+  const witnessesPending = !!writeOff && writeOff.requiresWitness && writeOff.witnesses.length < writeOff.requiredWitnesses;
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title={writeOff ? `Write-off ${writeOff.writeOffNumber}` : "Write-off"}>
+      {!writeOff ? (
+        <div className="flex items-center justify-center p-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-slate-500">Store</div>
+              <div className="font-medium">{writeOff.storeName}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Status</div>
+              <Badge className={WRITE_OFF_STATUS_STYLES[writeOff.status]}>{writeOff.status}</Badge>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Destruction Method</div>
+              <div>{writeOff.destructionMethod || "-"}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Value at Cost</div>
+              <div className="font-medium">&#8377;{writeOff.totalValue}</div>
+            </div>
+          </div>
+          {writeOff.notes && <p className="text-sm text-slate-600">{writeOff.notes}</p>}
+          {writeOff.rejectionReason && <p className="text-sm text-red-600">Rejected: {writeOff.rejectionReason}</p>}
+
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr className="text-left">
+                  <th className="px-3 py-2 font-medium">Product / Batch</th>
+                  <th className="px-3 py-2 font-medium">Reason</th>
+                  <th className="px-3 py-2 font-medium text-right">Qty</th>
+                  <th className="px-3 py-2 font-medium text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {writeOff.items.map((item) => (
+                  <tr key={item.id} className="border-t">
+                    <td className="px-3 py-2">
+                      <div className="font-medium flex items-center gap-2">
+                        {item.productName}
+                        {item.isScheduled && <Badge className="bg-purple-100 text-purple-800">{item.scheduleType}</Badge>}
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {item.productCode} · {item.batchNumber}
+                        {item.expiryDate && <> · Exp {format(new Date(item.expiryDate), "MMM yyyy")}</>}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">{DISPOSAL_REASON_LABELS[item.reason]}</td>
+                    <td className="px-3 py-2 text-right">{item.quantity}</td>
+                    <td className="px-3 py-2 text-right">&#8377;{item.value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {writeOff.requiresWitness && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <ShieldAlert className="h-4 w-4 text-purple-600" />
+                Witnesses ({writeOff.witnesses.length}/{writeOff.requiredWitnesses})
+              </div>
+              {writeOff.witnesses.map((w) => (
+                <div key={w.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                  <div>
+                    <div className="font-medium">{w.name}</div>
+                    {w.designation && <div className="text-xs text-slate-500">{w.designation}</div>}
+                  </div>
+                  <div className="text-right">
+                    <div className="italic">{w.signature}</div>
+                    <div className="text-xs text-slate-500">{format(new Date(w.signedAt), "PPp")}</div>
+                  </div>
+                </div>
+              ))}
+              {writeOff.status === "PENDING" && witnessesPending && (
+                <div className="rounded-lg bg-slate-50 p-3 space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label className="text-xs">Designation</Label>
+                      <Input className="h-8" value={designation} onChange={(e) => setDesignation(e.target.value)} placeholder="e.g. Pharmacist" />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Signature *</Label>
+                      <Input className="h-8" value={signature} onChange={(e) => setSignature(e.target.value)} placeholder="Type your full name" />
+                    </div>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button size="sm" variant="outline" onClick={handleSign} disabled={isSubmitting || !signature.trim()}>
+                      <PenLine className="h-4 w-4 mr-1" /> Sign as Witness
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {writeOff.status === "PENDING" && (
+            <div className="space-y-2">
+              <Label>Rejection Reason</Label>
+              <Input value={rejectReason} onChange={(e) => setRejectReason(e.target.value)} placeholder="Required to reject" />
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end pt-4 border-t">
+            <Button type="button" variant="outline" onClick={onClose}>Close</Button>
+            {writeOff.status === "PENDING" && (
+              <>
+                <Button variant="outline" onClick={handleCancel} disabled={isSubmitting}>Cancel Write-off</Button>
+                <Button variant="outline" className="text-red-600" onClick={handleReject} disabled={isSubmitting || !rejectReason.trim()}>Reject</Button>
+                <Button onClick={handleApprove} disabled={isSubmitting || witnessesPending}>
+                  {isSubmitting ? "Saving..." : "Approve"}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </Drawer>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import React, { useEffect, useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Drawer } from "@/components/ui/Drawer";
+import { useToast } from "@/components/ui/Toast";
+import { STOCK_DISPOSAL_REASONS } from "@/lib/schemas/pharmacy-return-schema";
+import { DISPOSAL_REASON_LABELS } from "@/components/pharmacy/vendor-return-form-drawer";
+import { Search } from "lucide-react";
+import { format } from "date-fns";
+
+type DisposalReason = (typeof STOCK_DISPOSAL_REASONS)[number];
+
+interface StoreOption { id: string; code: string; name: string; }
+
+interface StockBatch {
+  productId: string;
+  productCode: string;
+  productName: string;
+  batchNumber: string;
+  expiryDate: string | null;
+  availableQty: number;
+  purchasePrice?: string;
+}
+
+interface SelectedLine { quantity: string; reason: DisposalReason; }
+
+export interface WriteOffPreset {
+  storeId: string;
+  productId?: string;
+  batchNumber?: string;
+}
+
+interface WriteOffFormDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  preset?: WriteOffPreset | null;
+}
+
+const batchKey = (b: { productId: string; batchNumber: string }) => `${b.productId}::${b.batchNumber}`;
+
+const defaultReason = (b: StockBatch): DisposalReason =>
+  b.expiryDate && new Date(b.expiryDate) < new Date() ? "EXPIRED" : "DAMAGED";
+
+/**
+ * Raise a write-off for batches on hand in a store. Stock is only deducted once
+ * the write-off is approved (and witnessed, for scheduled drugs).
+ */
+export function WriteOffFormDrawer({ isOpen, onClose, onSuccess, preset }: WriteOffFormDrawerProps) {
+  const { addToast } = useToast();
+  const [stores, setStores] = useState<StoreOption[]>([]);
+  const [storeId, setStoreId] = useState("");
+  const [batches, setBatches] = useState<StockBatch[]>([]);
+  const [filter, setFilter] = useState("");
+  const [selected, setSelected] = useState<Record<string, SelectedLine>>({});
+  const [destructionMethod, setDestructionMethod] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isLoadingBatches, setIsLoadingBatches] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStoreId(preset?.storeId ?? "");
+    setFilter("");
+    setSelected({});
+    setDestructionMethod("");
+    setNotes("");
+    fetch("/api/pharmacy/masters/stores?limit=100&status=ACTIVE")
+      .then((r) => r.json())
+      .then((data) => { if (data.success) setStores(data.data || []); })
+      .catch(() => { /* silent */ });
+  }, [isOpen, preset]);
+
+  const fetchBatches = useCallback(async () => {
+    if (!storeId) { setBatches([]); return; }
+    setIsLoadingBatches(true);
+    try {
+      const res = await fetch(`/api/pharmacy/inventory/stock?storeId=${storeId}`);
+      const result = await res.json();
+      if (result.success) {
+        const rows = (result.data as StockBatch[]).filter((b) => b.availableQty > 0);
+        setBatches(rows);
+        const presetRow = rows.find((b) => b.productId === preset?.productId && b.batchNumber === preset?.batchNumber);
+        setSelected(presetRow ? { [batchKey(presetRow)]: { quantity: String(presetRow.availableQty), reason: defaultReason(presetRow) } } : {});
+      } else {
+        setBatches([]);
+        addToast("error", result.message || "Failed to load stock");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsLoadingBatches(false);
+    }
+  }, [storeId, preset, addToast]);
+
+  useEffect(() => { if (isOpen) fetchBatches(); }, [isOpen, fetchBatches]);
+
+  const toggle = (b: StockBatch, checked: boolean) => {
+    setSelected((s) => {
+      const next = { ...s };
+      if (checked) next[batchKey(b)] = { quantity: String(b.availableQty), reason: defaultReason(b) };
+      else delete next[batchKey(b)];
+      return next;
+    });
+  };
+
+  const updateLine = (key: string, patch: Partial<SelectedLine>) =>
+    setSelected((s) => ({ ...s, [key]: { ...s[key], ...patch } }));
+
+  const term = filter.trim().toLowerCase();
+  const visible = batches.filter((b) =>
+    !!selected[batchKey(b)] || !term ||
+    b.productName.toLowerCase().includes(term) || b.productCode.toLowerCase().includes(term) || b.batchNumber.toLowerCase().includes(term)
+  );
+
+  const totalValue = batches.reduce((sum, b) => {
+    const line = selected[batchKey(b)];
+    return line ? sum + parseFloat(b.purchasePrice ?? "0") * (parseInt(line.quantity, 10) || 0) : sum;
+  }, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = batches
+      .filter((b) => selected[batchKey(b)])
+      .map((b) => ({
+        productId: b.productId,
+        batchNumber: b.batchNumber,
+        quantity: parseInt(selected[batchKey(b)].quantity, 10) || 0,
+        reason: selected[batchKey(b)].reason,
+      }));
+    if (items.length === 0) { addToast("error", "Select at least one batch"); return; }
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch("/api/pharmacy/write-offs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          storeId,
+          destructionMethod: destructionMethod || undefined,
+          notes: notes || undefined,
+          items,
+        }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        addToast("success", result.message || "Write-off raised");
+        onSuccess();
+      } else {
+        addToast("error", result.message || "Failed");
+      }
+    } catch {
+      addToast("error", "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title="New Stock Write-off">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Store *</Label>
+            <Select value={storeId} onValueChange={setStoreId}>
+              <SelectTrigger><SelectValue placeholder="Select store" /></SelectTrigger>
+              <SelectContent>
+                {stores.map((s) => <SelectItem key={s.id} value={s.id}>{s.code} - {s.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Destruction Method</Label>
+            <Input value={destructionMethod} onChange={(e) => setDestructionMethod(e.target.value)} placeholder="e.g. Incineration via BMW agency" />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-base font-medium">Batches on Hand</Label>
+            <div className="relative w-56">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-slate-400" />
+              <Input className="h-8 pl-7 text-sm" placeholder="Filter..." value={filter} onChange={(e) => setFilter(e.target.value)} />
+            </div>
+          </div>
+          <div className="border rounded-lg overflow-hidden max-h-[420px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr className="text-left">
+                  <th className="px-3 py-2 w-8"></th>
+                  <th className="px-3 py-2 font-medium">Product / Batch</th>
+                  <th className="px-3 py-2 font-medium text-right">On Hand</th>
+                  <th className="px-3 py-2 font-medium w-20">Qty</th>
+                  <th className="px-3 py-2 font-medium w-32">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((b) => {
+                  const key = batchKey(b);
+                  const line = selected[key];
+                  return (
+                    <tr key={key} className="border-t">
+                      <td className="px-3 py-2">
+                        <input type="checkbox" checked={!!line} onChange={(e) => toggle(b, e.target.checked)} />
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium">{b.productName}</div>
+                        <div className="text-xs text-slate-500">
+                          {b.productCode} · {b.batchNumber}
+                          {b.expiryDate && <> · Exp {format(new Date(b.expiryDate), "MMM yyyy")}</>}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-right">{b.availableQty}</td>
+                      <td className="px-3 py-2">
+                        {line && (
+                          <Input
+                            type="number"
+                            min={1}
+                            max={b.availableQty}
+                            className="h-8"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(key, { quantity: e.target.value })}
+                          />
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        {line && (
+                          <Select value={line.reason} onValueChange={(v) => updateLine(key, { reason: v as DisposalReason })}>
+                            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {STOCK_DISPOSAL_REASONS.map((r) => <SelectItem key={r} value={r}>{DISPOSAL_REASON_LABELS[r]}</SelectItem>)}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {visible.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-4 text-center text-slate-500">
+                      {isLoadingBatches ? "Loading..." : storeId ? "No stock found" : "Select a store"}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div>
+          <Label>Notes</Label>
+          <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional notes..." />
+        </div>
+
+        <div className="rounded-lg bg-slate-50 p-3 text-sm flex justify-between font-semibold">
+          <span>Value written off (at cost)</span>
+          <span>&#8377;{totalValue.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+        </div>
+        <p className="text-xs text-slate-500">Scheduled and narcotic drugs need two witness signatures before the write-off can be approved.</p>
+
+        <div className="flex gap-2 justify-end pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={isSubmitting || Object.keys(selected).length === 0}>
+            {isSubmitting ? "Saving..." : "Raise Write-off"}
+          </Button>
+        </div>
+      </form>
+    </Drawer>
+  );
+}
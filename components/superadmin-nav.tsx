@@ -4,7 +4,7 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import type { SessionPayload } from "@/lib/auth";
-import { LayoutDashboard, Building2, LogOut } from "lucide-react";
+import { LayoutDashboard, Building2, LogOut, Stethoscope } from "lucide-react";
 
 export function SuperAdminNav({ user }: { user: SessionPayload }) {
   const router = useRouter();
@@ -37,6 +37,13 @@ export function SuperAdminNav({ user }: { user: SessionPayload }) {
               <Building2 className="h-4 w-4" />
               Tenants
             </Link>
+            <Link
+              href="/superadmin/icd-codes"
+              className="flex items-center gap-2 text-sm text-slate-600 hover:text-slate-900"
+            >
+              <Stethoscope className="h-4 w-4" />
+              ICD-10 Codes
+            </Link>
           </nav>
         </div>
         <div className="flex items-center gap-2">
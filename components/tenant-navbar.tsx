@@ -129,7 +129,13 @@ export function TenantNavbar({ session }: { session: SessionPayload }) {
                         </p>
                       </div>
                       <div className="py-2">
-                        <button className="w-full flex items-center space-x-3 px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 transition-colors">
+                        <button
+                          onClick={() => {
+                            setShowUserMenu(false);
+                            router.push("/account");
+                          }}
+                          className="w-full flex items-center space-x-3 px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 transition-colors"
+                        >
                           <Settings className="h-4 w-4" />
                           <span>Account Settings</span>
                         </button>
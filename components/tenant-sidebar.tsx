@@ -38,6 +38,18 @@ import {
   LineChart,
   TrendingUp,
   ShieldCheck,
+  FlaskConical,
+  BedDouble,
+  Hospital,
+  GitMerge,
+  Wallet,
+  ArrowLeftRight,
+  Undo2,
+  PackageX,
+  ListChecks,
+  Repeat,
+  FileSignature,
+  ReceiptText,
 } from "lucide-react";
 
 function hasPermission(session: SessionPayload, code: string): boolean {
@@ -48,6 +60,7 @@ function hasPermission(session: SessionPayload, code: string): boolean {
 const navItems: { href: string; label: string; icon: React.ElementType; permission?: string; section?: string }[] = [
   { href: "/dashboard", label: "Dashboard", icon: LayoutDashboard, section: "main" },
   { href: "/patients", label: "Patients", icon: UserPlus, permission: "PATIENT_VIEW", section: "main" },
+  { href: "/billing/shifts", label: "Cashier Shifts", icon: Wallet, permission: "CASHIER_SHIFT_OPERATE", section: "main" },
   
   { href: "/doctor/dashboard", label: "My OPD", icon: BriefcaseMedical, permission: "CONSULTATION_VIEW", section: "clinical" },
   { href: "/appointments", label: "Appointments", icon: Calendar, permission: "APPOINTMENT_VIEW", section: "clinical" },
@@ -55,10 +68,14 @@ const navItems: { href: string; label: string; icon: React.ElementType; permissi
   { href: "/vitals", label: "Vitals", icon: Activity, permission: "VITAL_VIEW", section: "clinical" },
   { href: "/prescriptions", label: "Prescriptions", icon: Pill, permission: "PRESCRIPTION_VIEW", section: "clinical" },
   { href: "/visits", label: "Visits", icon: ClipboardCheck, permission: "VISIT_VIEW", section: "clinical" },
+  { href: "/lab/worklist", label: "Lab Worklist", icon: FlaskConical, permission: "LAB_ORDER_VIEW", section: "clinical" },
+  { href: "/ipd/bed-board", label: "Bed Board", icon: BedDouble, permission: "IPD_VIEW", section: "clinical" },
+  { href: "/ipd/admissions", label: "Admissions", icon: Hospital, permission: "IPD_VIEW", section: "clinical" },
   
   { href: "/admin/users", label: "Users", icon: Users, permission: "USER_MANAGE", section: "management" },
   { href: "/admin/roles", label: "Roles", icon: Shield, permission: "ROLE_MANAGE", section: "management" },
   { href: "/admin/permissions", label: "Permissions", icon: Key, permission: "ROLE_MANAGE", section: "management" },
+  { href: "/admin/patient-merge", label: "Patient Merge", icon: GitMerge, permission: "PATIENT_MERGE", section: "management" },
   
   { href: "/admin/reports", label: "Report Dashboard", icon: FileText, permission: "REPORTS_VIEW", section: "reports" },
   { href: "/admin/reports/billing", label: "Billing Analysis", icon: TrendingUp, permission: "REPORTS_VIEW", section: "reports" },
@@ -69,15 +86,23 @@ const navItems: { href: string; label: string; icon: React.ElementType; permissi
   
     { href: "/pharmacy/dashboard", label: "Dashboard", icon: LayoutDashboard, permission: "PHARMACY_SALE_VIEW", section: "pharmacy" },
     { href: "/medical-masters/departments", label: "Departments", icon: Building2, permission: "SETTINGS_MANAGE", section: "masters" },  { href: "/medical-masters/doctors", label: "Doctors", icon: Stethoscope, permission: "SETTINGS_MANAGE", section: "masters" },
+  { href: "/medical-masters/wards", label: "Wards & Beds", icon: BedDouble, permission: "IPD_MASTER_MANAGE", section: "masters" },
 
   { href: "/pharmacy/masters/stores", label: "Stores", icon: Store, permission: "PHARMACY_STORE_VIEW", section: "pharmacy" },
   { href: "/pharmacy/masters/manufacturers", label: "Manufacturers", icon: Factory, permission: "PHARMACY_MANUFACTURER_VIEW", section: "pharmacy" },
   { href: "/pharmacy/masters/vendors", label: "Vendors", icon: Truck, permission: "PHARMACY_VENDOR_VIEW", section: "pharmacy" },
   { href: "/pharmacy/masters/products", label: "Products", icon: Package, permission: "PHARMACY_PRODUCT_VIEW", section: "pharmacy" },
   { href: "/pharmacy/inventory/stock", label: "Stock", icon: ClipboardList, permission: "PHARMACY_INVENTORY_VIEW", section: "pharmacy" },
+  { href: "/pharmacy/reorder", label: "Reorder Suggestions", icon: Repeat, permission: "PO_VIEW", section: "pharmacy" },
   { href: "/pharmacy/purchase-orders", label: "Purchase Orders", icon: ShoppingCart, permission: "PO_VIEW", section: "pharmacy" },
   { href: "/pharmacy/grn", label: "Goods Receipt", icon: FileInput, permission: "GRN_VIEW", section: "pharmacy" },
+  { href: "/pharmacy/vendor-invoices", label: "Vendor Invoices", icon: ReceiptText, permission: "VENDOR_INVOICE_VIEW", section: "pharmacy" },
+  { href: "/pharmacy/vendor-contracts", label: "Rate Contracts", icon: FileSignature, permission: "VENDOR_CONTRACT_VIEW", section: "pharmacy" },
+  { href: "/pharmacy/indents", label: "Stock Indents", icon: ArrowLeftRight, permission: "STOCK_INDENT_VIEW", section: "pharmacy" },
   { href: "/pharmacy/expiry", label: "Expiry Dashboard", icon: AlertTriangle, permission: "PHARMACY_EXPIRY_VIEW", section: "pharmacy" },
+  { href: "/pharmacy/vendor-returns", label: "Vendor Returns", icon: Undo2, permission: "VENDOR_RETURN_VIEW", section: "pharmacy" },
+  { href: "/pharmacy/write-offs", label: "Write-off Register", icon: PackageX, permission: "STOCK_WRITE_OFF_VIEW", section: "pharmacy" },
+  { href: "/pharmacy/stock-takes", label: "Stock Take", icon: ListChecks, permission: "STOCK_TAKE_VIEW", section: "pharmacy" },
   { href: "/pharmacy/op-sales", label: "OP Pharmacy", icon: ShoppingBag, permission: "PHARMACY_SALE_VIEW", section: "pharmacy" },
   { href: "/pharmacy/ip-sales", label: "IP Pharmacy", icon: ShoppingBag, permission: "PHARMACY_SALE_VIEW", section: "pharmacy" },
   { href: "/pharmacy/returns", label: "Returns", icon: RotateCcw, permission: "PHARMACY_RETURN_VIEW", section: "pharmacy" },
@@ -0,0 +1,41 @@
+"use client";
+
+import { useMemo } from "react";
+import { encodeQrCode } from "@/lib/utils/qr-code";
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+/** Number of light modules around the symbol required by scanners */
+const QUIET_ZONE = 4;
+
+export function QrCode({ value, size = 192, className }: QrCodeProps) {
+  const { path, dimension } = useMemo(() => {
+    const matrix = encodeQrCode(value);
+    const segments: string[] = [];
+    matrix.forEach((row, y) =>
+      row.forEach((dark, x) => {
+        if (dark) segments.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+      })
+    );
+    return { path: segments.join(""), dimension: matrix.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+}
@@ -6,6 +6,13 @@ import { NextRequest } from "next/server";
 const SALT_ROUNDS = 12;
 const COOKIE_NAME = "hms_session";
 const SUPER_ADMIN_COOKIE = "hms_superadmin_session";
+const REFRESH_COOKIE = "hms_refresh";
+const SUPER_ADMIN_REFRESH_COOKIE = "hms_superadmin_refresh";
+
+// Access tokens are short-lived; the refresh token (see sessionService) renews
+// them and picks up role changes, deactivation and revocation
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 60 * 60 * 24 * 30;
 
 export type SessionPayload = {
   userId: string;
@@ -18,6 +25,7 @@ export type SessionPayload = {
   isSuperAdmin: boolean;
   permissions: string[];
   departmentIds: string[]; // User's assigned departments
+  sessionId: string; // UserSession row backing this token
   exp: number;
   iat: number;
 };
@@ -46,7 +54,7 @@ export async function createSuperAdminToken(payload: Omit<SessionPayload, "exp"
   return new SignJWT({ ...payload, isSuperAdmin: true })
     .setProtectedHeader({ alg: "HS256" })
     .setIssuedAt()
-    .setExpirationTime("7d")
+    .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
     .sign(secret);
 }
 
@@ -55,7 +63,7 @@ export async function createTenantToken(payload: Omit<SessionPayload, "exp" | "i
   return new SignJWT(payload)
     .setProtectedHeader({ alg: "HS256" })
     .setIssuedAt()
-    .setExpirationTime("7d")
+    .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
     .sign(secret);
 }
 
@@ -90,5 +98,142 @@ export async function getSessionFromRequest(request: NextRequest): Promise<Sessi
 }
 
 export function getCookieNames() {
-  return { COOKIE_NAME, SUPER_ADMIN_COOKIE };
+  return { COOKIE_NAME, SUPER_ADMIN_COOKIE, REFRESH_COOKIE, SUPER_ADMIN_REFRESH_COOKIE };
+}
+
+export function getSessionCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    maxAge,
+    path: "/",
+  };
+}
+
+// ============== PATIENT SELF-SERVICE TOKENS ==============
+// Signed with a key derived per purpose so these tokens can never be
+// accepted as a staff session (and vice versa).
+
+const PATIENT_BOOKING_COOKIE = "hms_patient_booking";
+
+export type PatientBookingSession = {
+  tenantId: string;
+  patientId: string;
+};
+
+function getPurposeSecret(purpose: string) {
+  const secret = process.env.JWT_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("JWT_SECRET must be set and at least 32 characters");
+  }
+  return new TextEncoder().encode(`${secret}:${purpose}`);
+}
+
+export async function createPatientBookingToken(payload: PatientBookingSession): Promise<string> {
+  return new SignJWT(payload)
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt()
+    .setExpirationTime("30m")
+    .sign(getPurposeSecret("patient-booking"));
+}
+
+/**
+ * Patient booking session from the request cookie, scoped to one tenant
+ */
+export async function getPatientBookingSession(
+  request: NextRequest,
+  tenantId: string
+): Promise<PatientBookingSession | null> {
+  const token = request.cookies.get(PATIENT_BOOKING_COOKIE)?.value;
+  if (!token) return null;
+  try {
+    const { payload } = await jwtVerify(token, getPurposeSecret("patient-booking"));
+    const session = payload as unknown as PatientBookingSession;
+    return session.tenantId === tenantId ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getPatientBookingCookieName() {
+  return PATIENT_BOOKING_COOKIE;
+}
+
+/**
+ * Signed appointment confirmation link token; valid until the end of the
+ * appointment day.
+ */
+export async function createAppointmentConfirmToken(
+  appointmentId: string,
+  tenantId: string,
+  expiresAt: Date
+): Promise<string> {
+  return new SignJWT({ appointmentId, tenantId })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(getPurposeSecret("appointment-confirm"));
+}
+
+export async function verifyAppointmentConfirmToken(
+  token: string
+): Promise<{ appointmentId: string; tenantId: string } | null> {
+  try {
+    const { payload } = await jwtVerify(token, getPurposeSecret("appointment-confirm"));
+    return payload as unknown as { appointmentId: string; tenantId: string };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Short-lived token proving a successful password check when the login must
+ * first set a new password (first login or expired password). No session is
+ * issued until the change completes.
+ */
+export async function createPasswordChangeToken(userId: string, tenantId: string): Promise<string> {
+  return new SignJWT({ userId, tenantId })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt()
+    .setExpirationTime("10m")
+    .sign(getPurposeSecret("password-change"));
+}
+
+export async function verifyPasswordChangeToken(
+  token: string
+): Promise<{ userId: string; tenantId: string } | null> {
+  try {
+    const { payload } = await jwtVerify(token, getPurposeSecret("password-change"));
+    return payload as unknown as { userId: string; tenantId: string };
+  } catch {
+    return null;
+  }
+}
+
+export type TwoFactorPendingClaims = {
+  userId: string;
+  tenantId: string | null;
+  isSuperAdmin: boolean;
+};
+
+/**
+ * "2FA pending" state between a correct password and the second factor; the
+ * session cookie is only issued once the code is verified.
+ */
+export async function createTwoFactorPendingToken(claims: TwoFactorPendingClaims): Promise<string> {
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt()
+    .setExpirationTime("5m")
+    .sign(getPurposeSecret("two-factor-pending"));
+}
+
+export async function verifyTwoFactorPendingToken(token: string): Promise<TwoFactorPendingClaims | null> {
+  try {
+    const { payload } = await jwtVerify(token, getPurposeSecret("two-factor-pending"));
+    return payload as unknown as TwoFactorPendingClaims;
+  } catch {
+    return null;
+  }
 }
@@ -18,6 +18,7 @@ export const PERMISSION_CODES = [
   "PATIENT_EXPORT",
   "PATIENT_PRINT",
   "PATIENT_DOCUMENT_UPLOAD",
+  "PATIENT_MERGE",
   "APPOINTMENT_CREATE",
   "APPOINTMENT_VIEW",
   "APPOINTMENT_EDIT",
@@ -26,6 +27,8 @@ export const PERMISSION_CODES = [
   "APPOINTMENT_RESCHEDULE",
   "APPOINTMENT_CHECKIN",
   "APPOINTMENT_SLOTS_VIEW",
+  "APPOINTMENT_RECONCILE",
+  "APPOINTMENT_OVERBOOK",
   "VISIT_CREATE",
   "VISIT_VIEW",
   "VISIT_EDIT",
@@ -47,12 +50,16 @@ export const PERMISSION_CODES = [
   "LAB_RESULT_CREATE",
   "LAB_RESULT_VIEW",
   "LAB_RESULT_EDIT",
+  "LAB_RESULT_VERIFY",
   "INVOICE_CREATE",
   "INVOICE_VIEW",
   "INVOICE_EDIT",
   "PAYMENT_CREATE",
   "PAYMENT_VIEW",
   "PAYMENT_EDIT",
+  "CASHIER_SHIFT_OPERATE",
+  "CASHIER_SHIFT_VIEW",
+  "CASHIER_SHIFT_APPROVE",
   "REPORTS_VIEW",
   "USER_MANAGE",
   "ROLES_VIEW",
@@ -125,17 +132,51 @@ export const PERMISSION_CODES = [
   "PHARMACY_PRICE_OVERRIDE",
   "PHARMACY_DISCOUNT_APPROVE",
   "PHARMACY_CREDIT_VIEW",
+  "PHARMACY_CREDIT_SETTLE",
+  "PHARMACY_CREDIT_LIMIT_EDIT",
   "PHARMACY_IP_SALE_CREATE",
   // Pharmacy Returns – Phase 4
   "PHARMACY_RETURN_VIEW",
   "PHARMACY_RETURN_CREATE",
   "PHARMACY_RETURN_APPROVE",
   "PHARMACY_RETURN_CANCEL",
+  // Inter-store stock transfer (indents)
+  "STOCK_INDENT_VIEW",
+  "STOCK_INDENT_CREATE",
+  "STOCK_INDENT_APPROVE",
+  "STOCK_INDENT_ISSUE",
+  "STOCK_INDENT_RECEIVE",
+  // Vendor returns (debit notes) & stock write-off register
+  "VENDOR_RETURN_VIEW",
+  "VENDOR_RETURN_CREATE",
+  "VENDOR_RETURN_APPROVE",
+  "STOCK_WRITE_OFF_VIEW",
+  "STOCK_WRITE_OFF_CREATE",
+  "STOCK_WRITE_OFF_WITNESS",
+  "STOCK_WRITE_OFF_APPROVE",
+  "STOCK_TAKE_VIEW",
+  "STOCK_TAKE_CREATE",
+  "STOCK_TAKE_COUNT",
+  "STOCK_TAKE_APPROVE",
+  // Vendor rate contracts & invoice three-way match
+  "VENDOR_CONTRACT_VIEW",
+  "VENDOR_CONTRACT_MANAGE",
+  "VENDOR_INVOICE_VIEW",
+  "VENDOR_INVOICE_CREATE",
+  "VENDOR_INVOICE_APPROVE_VARIANCE",
+  "VENDOR_INVOICE_PAYABLE",
+  // Inpatient (IPD)
+  "IPD_VIEW",
+  "IPD_ADMIT",
+  "IPD_TRANSFER",
+  "IPD_DISCHARGE",
+  "IPD_MASTER_MANAGE",
+  "IPD_DISCHARGE_SUMMARY_EDIT",
+  "IPD_DISCHARGE_SUMMARY_FINALIZE",
 ] as const;
 
 export type PermissionCode = (typeof PERMISSION_CODES)[number];
 export type RoleCode = (typeof SYSTEM_ROLE_CODES)[number];
 
-// Super Admin default credentials (change in production)
+// Super Admin username; the password comes from SUPER_ADMIN_PASSWORD at seed time
 export const SUPER_ADMIN_USERNAME = "superadmin";
-export const SUPER_ADMIN_DEFAULT_PASSWORD = "224466";
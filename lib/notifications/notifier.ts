@@ -0,0 +1,88 @@
+/**
+ * HMS Notifications: Pluggable Notifier
+ *
+ * Outbound SMS / email messages (OTPs, confirmation links) go through a
+ * provider selected by NOTIFIER_PROVIDER. Real gateways register themselves
+ * with registerNotificationProvider(); the built-in providers are stand-ins
+ * for development:
+ * - console: logs the message (default); the body is redacted in production
+ *   because it carries OTPs, confirmation tokens and password reset links
+ * - file: appends one JSON line per message to NOTIFIER_OUTBOX_FILE
+ *
+ * Environment:
+ * - NOTIFIER_PROVIDER: provider name (default: console)
+ * - NOTIFIER_OUTBOX_FILE: outbox path for the file provider (default: .data/notifications.log)
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+// ============== TYPES ==============
+
+export type NotificationChannel = "SMS" | "EMAIL";
+
+export interface NotificationMessage {
+  tenantId: string | null;
+  channel: NotificationChannel;
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+export interface NotificationProvider {
+  name: string;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+// ============== BUILT-IN PROVIDERS ==============
+
+const consoleProvider: NotificationProvider = {
+  name: "console",
+  async send(message) {
+    const body = process.env.NODE_ENV === "production" ? "[redacted]" : message.body;
+    console.log(
+      `[Notifier] ${message.channel} to ${message.to}${message.subject ? ` (${message.subject})` : ""}: ${body}`
+    );
+  },
+};
+
+const fileProvider: NotificationProvider = {
+  name: "file",
+  async send(message) {
+    const outbox = process.env.NOTIFIER_OUTBOX_FILE || path.join(process.cwd(), ".data", "notifications.log");
+    await fs.mkdir(path.dirname(outbox), { recursive: true });
+    await fs.appendFile(outbox, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n");
+  },
+};
+
+const providers = new Map<string, NotificationProvider>([
+  [consoleProvider.name, consoleProvider],
+  [fileProvider.name, fileProvider],
+]);
+
+// ============== PUBLIC API ==============
+
+/**
+ * Register a delivery provider (e.g. an SMS gateway) under its name
+ */
+export function registerNotificationProvider(provider: NotificationProvider): void {
+  providers.set(provider.name, provider);
+}
+
+function getProvider(): NotificationProvider {
+  const name = process.env.NOTIFIER_PROVIDER || consoleProvider.name;
+  const provider = providers.get(name);
+  // A misspelt provider must not quietly route secrets to the logs
+  if (!provider) {
+    throw new Error(`[Notifier] Unknown provider "${name}"`);
+  }
+  return provider;
+}
+
+/**
+ * Send a message through the configured provider.
+ * Throws when the provider fails so callers can decide whether it is fatal.
+ */
+export async function sendNotification(message: NotificationMessage): Promise<void> {
+  await getProvider().send(message);
+}
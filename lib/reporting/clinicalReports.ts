@@ -32,24 +32,96 @@ export async function getDoctorPerformance(
   `;
 }
 
+interface DiagnosisReportOptions {
+  limit?: number;
+  startDate?: Date;
+  endDate?: Date;
+  /** Count only the PRIMARY diagnosis of each consultation */
+  primaryOnly?: boolean;
+  /** Count only FINAL (confirmed) diagnoses */
+  finalOnly?: boolean;
+}
+
+function diagnosisFilters(options: DiagnosisReportOptions) {
+  return Prisma.sql`
+    ${options.startDate ? Prisma.sql`AND cd."createdAt" >= ${options.startDate}` : Prisma.empty}
+    ${options.endDate ? Prisma.sql`AND cd."createdAt" <= ${options.endDate}` : Prisma.empty}
+    ${options.primaryOnly ? Prisma.sql`AND cd.rank = 'PRIMARY'` : Prisma.empty}
+    ${options.finalOnly ? Prisma.sql`AND cd.certainty = 'FINAL'` : Prisma.empty}
+  `;
+}
+
 /**
  * Disease Prevalence Report
- * Extracts diagnosis frequencies from Clinical Notes.
- * Note: This relies on the 'diagnosis' field in the Consultation model.
+ * Diagnosis frequencies by ICD-10 code from coded consultation diagnoses.
+ * "consultations" counts distinct consultations carrying the code.
  */
 export async function getDiagnosisStats(
+  tenantId: string,
+  options: DiagnosisReportOptions = {}
+) {
+  const limit = options.limit ?? 10;
+
+  return prisma.$queryRaw`
+    SELECT 
+      cd.code,
+      MAX(cd.description) as "description",
+      cd.chapter,
+      COUNT(*) as "count",
+      COUNT(DISTINCT cd."consultationId") as "consultations",
+      COUNT(*) FILTER (WHERE cd.rank = 'PRIMARY') as "primaryCount"
+    FROM "ConsultationDiagnosis" cd
+    WHERE cd."tenantId" = ${tenantId}
+      ${diagnosisFilters(options)}
+    GROUP BY cd.code, cd.chapter
+    ORDER BY count DESC
+    LIMIT ${limit}
+  `;
+}
+
+/**
+ * Disease Prevalence by ICD-10 Chapter
+ */
+export async function getDiagnosisChapterStats(
+  tenantId: string,
+  options: Omit<DiagnosisReportOptions, "limit"> = {}
+) {
+  return prisma.$queryRaw`
+    SELECT 
+      cd.chapter,
+      MAX(ic."chapterTitle") as "chapterTitle",
+      COUNT(*) as "count",
+      COUNT(DISTINCT cd.code) as "distinctCodes",
+      COUNT(DISTINCT cd."consultationId") as "consultations"
+    FROM "ConsultationDiagnosis" cd
+    LEFT JOIN "IcdCode" ic ON ic.id = cd."icdCodeId"
+    WHERE cd."tenantId" = ${tenantId}
+      ${diagnosisFilters(options)}
+    GROUP BY cd.chapter
+    ORDER BY count DESC
+  `;
+}
+
+/**
+ * Free-text diagnosis frequencies for consultations not yet coded.
+ * Note: This relies on the 'diagnosis' field in the Consultation model.
+ */
+export async function getUncodedDiagnosisStats(
   tenantId: string,
   limit: number = 10
 ) {
   return prisma.$queryRaw`
     SELECT 
-      diagnosis,
+      c.diagnosis,
       COUNT(*) as "count"
-    FROM "Consultation"
-    WHERE "tenantId" = ${tenantId}
-      AND diagnosis IS NOT NULL
-      AND diagnosis != ''
-    GROUP BY diagnosis
+    FROM "Consultation" c
+    WHERE c."tenantId" = ${tenantId}
+      AND c.diagnosis IS NOT NULL
+      AND c.diagnosis != ''
+      AND NOT EXISTS (
+        SELECT 1 FROM "ConsultationDiagnosis" cd WHERE cd."consultationId" = c.id
+      )
+    GROUP BY c.diagnosis
     ORDER BY count DESC
     LIMIT ${limit}
   `;
@@ -40,6 +40,9 @@ export const CreateAppointmentSchema = z.object({
   notes: z.string().max(1000, "Notes too long").optional(),
   isWalkIn: z.boolean().default(false),
   bookingSource: BookingSourceEnum.default("RECEPTION"),
+  // Book beyond slot/day capacity (requires APPOINTMENT_OVERBOOK)
+  overbook: z.boolean().default(false),
+  overbookReason: z.string().trim().max(500, "Reason too long").optional(),
 }).refine(
   (data) => {
     // Parse the appointment date as local date (not UTC)
@@ -53,6 +56,9 @@ export const CreateAppointmentSchema = z.object({
     return appointmentDate >= today;
   },
   { message: "Appointment date cannot be in the past", path: ["appointmentDate"] }
+).refine(
+  (data) => !data.overbook || !!data.overbookReason,
+  { message: "Reason is required to overbook", path: ["overbookReason"] }
 );
 
 export type CreateAppointmentInput = z.infer<typeof CreateAppointmentSchema>;
@@ -124,6 +130,215 @@ export const WalkInAppointmentSchema = z.object({
 
 export type WalkInAppointmentInput = z.infer<typeof WalkInAppointmentSchema>;
 
+// ============== BULK ACTION SCHEMA ==============
+// Used to clear appointments affected by doctor leave or a holiday
+
+export const BulkAppointmentActionSchema = z.object({
+  appointmentIds: z.array(z.string().uuid()).min(1, "Select at least one appointment").max(200),
+  action: z.enum(["CANCEL", "RESCHEDULE"]),
+  reason: z.string().min(1, "Reason is required").max(500),
+  newDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD format").optional(),
+  newDoctorId: z.string().uuid().optional(),
+}).refine(
+  (data) => data.action !== "RESCHEDULE" || !!data.newDate,
+  { message: "New date is required to reschedule", path: ["newDate"] }
+);
+
+export type BulkAppointmentActionInput = z.infer<typeof BulkAppointmentActionSchema>;
+
+// ============== WAITLIST SCHEMAS ==============
+
+export const WaitlistStatusEnum = z.enum(["WAITING", "OFFERED", "BOOKED", "EXPIRED", "CANCELLED"]);
+
+export const CreateWaitlistEntrySchema = z.object({
+  patientId: z.string().uuid("Invalid patient ID"),
+  departmentId: z.string().uuid("Invalid department ID"),
+  doctorId: z.string().uuid("Invalid doctor ID"),
+  preferredDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD format"),
+  preferredTimeFrom: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Time must be HH:mm format").optional(),
+  preferredTimeTo: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Time must be HH:mm format").optional(),
+  priority: z.coerce.number().int().min(1).max(3).default(3),
+  notes: z.string().max(500, "Notes too long").optional(),
+}).refine(
+  (data) => {
+    const [year, month, day] = data.preferredDate.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return date >= today;
+  },
+  { message: "Preferred date cannot be in the past", path: ["preferredDate"] }
+).refine(
+  (data) => !data.preferredTimeFrom || !data.preferredTimeTo || data.preferredTimeFrom < data.preferredTimeTo,
+  { message: "Preferred time range is invalid", path: ["preferredTimeTo"] }
+);
+
+export type CreateWaitlistEntryInput = z.infer<typeof CreateWaitlistEntrySchema>;
+
+export const WaitlistQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  doctorId: z.string().uuid().optional(),
+  departmentId: z.string().uuid().optional(),
+  status: WaitlistStatusEnum.optional(),
+});
+
+export type WaitlistQueryInput = z.infer<typeof WaitlistQuerySchema>;
+
+export const CancelWaitlistEntrySchema = z.object({
+  reason: z.string().min(1, "Reason is required").max(500),
+});
+
+export type CancelWaitlistEntryInput = z.infer<typeof CancelWaitlistEntrySchema>;
+
+// ============== SERIES SCHEMAS ==============
+// Recurring appointments (physiotherapy, dialysis, antenatal follow-ups)
+
+export const SeriesFrequencyEnum = z.enum(["DAILY", "WEEKLY", "MONTHLY"]);
+
+// Which occurrences a cancel/reschedule applies to
+export const SeriesScopeEnum = z.enum(["THIS", "FOLLOWING", "ALL"]);
+
+export const CreateAppointmentSeriesSchema = z.object({
+  patientId: z.string().uuid("Invalid patient ID"),
+  departmentId: z.string().uuid("Invalid department ID"),
+  doctorId: z.string().uuid("Invalid doctor ID"),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD format"),
+  appointmentTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Time must be HH:mm format"),
+  slotEndTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/).optional(),
+  frequency: SeriesFrequencyEnum,
+  interval: z.coerce.number().int().min(1).max(12).default(1),
+  occurrences: z.coerce.number().int().min(2, "A series needs at least 2 appointments").max(52, "A series can have at most 52 appointments"),
+  chiefComplaint: z.string().max(500, "Chief complaint too long").optional(),
+  notes: z.string().max(1000, "Notes too long").optional(),
+  bookingSource: z.enum(["RECEPTION", "PHONE"]).default("RECEPTION"),
+  // Book the available dates and skip the conflicting ones instead of rejecting the series
+  skipConflicts: z.boolean().default(false),
+}).refine(
+  (data) => {
+    const [year, month, day] = data.startDate.split('-').map(Number);
+    const startDate = new Date(year, month - 1, day);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return startDate >= today;
+  },
+  { message: "Start date cannot be in the past", path: ["startDate"] }
+);
+
+export type CreateAppointmentSeriesInput = z.infer<typeof CreateAppointmentSeriesSchema>;
+
+export const CancelSeriesAppointmentsSchema = z.object({
+  scope: SeriesScopeEnum,
+  cancelReason: z.string().min(1, "Cancel reason is required").max(500),
+});
+
+export type CancelSeriesAppointmentsInput = z.infer<typeof CancelSeriesAppointmentsSchema>;
+
+// newDate/newTime apply to the selected occurrence; the others shift by the same number of days
+export const RescheduleSeriesAppointmentsSchema = z.object({
+  scope: SeriesScopeEnum,
+  newDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD format"),
+  newTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Time must be HH:mm format"),
+  newSlotEndTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/).optional(),
+  reason: z.string().max(500).optional(),
+}).refine(
+  (data) => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const newDate = new Date(data.newDate);
+    return newDate >= today;
+  },
+  { message: "New date cannot be in the past", path: ["newDate"] }
+);
+
+export type RescheduleSeriesAppointmentsInput = z.infer<typeof RescheduleSeriesAppointmentsSchema>;
+
+// ============== RECONCILIATION SCHEMAS ==============
+
+export const ReconciliationSettingsSchema = z.object({
+  enabled: z.boolean(),
+  cutoffTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Time must be HH:mm format"),
+});
+
+export type ReconciliationSettingsInput = z.infer<typeof ReconciliationSettingsSchema>;
+
+export const RunReconciliationSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD format").optional(),
+}).refine(
+  (data) => {
+    if (!data.date) return true;
+    const [year, month, day] = data.date.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return date <= today;
+  },
+  { message: "Cannot reconcile a future date", path: ["date"] }
+);
+
+export type RunReconciliationInput = z.infer<typeof RunReconciliationSchema>;
+
+export const UndoReconciliationSchema = z.object({
+  itemIds: z.array(z.string().uuid()).min(1, "Select at least one item").max(500),
+});
+
+export type UndoReconciliationInput = z.infer<typeof UndoReconciliationSchema>;
+
+export const ReconciliationQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+export type ReconciliationQueryInput = z.infer<typeof ReconciliationQuerySchema>;
+
+// ============== ONLINE BOOKING SCHEMAS ==============
+
+export const OnlineBookingSettingsSchema = z.object({
+  enabled: z.boolean(),
+  bookingWindowDays: z.coerce.number().int().min(1).max(180),
+  minLeadMinutes: z.coerce.number().int().min(0).max(1440),
+  cancelCutoffHours: z.coerce.number().int().min(0).max(168),
+  regenerateLink: z.boolean().default(false),
+});
+
+export type OnlineBookingSettingsInput = z.infer<typeof OnlineBookingSettingsSchema>;
+
+export const RequestBookingOtpSchema = z.object({
+  uhid: z.string().trim().min(1, "UHID is required").max(50),
+  mobile: z.string().trim().min(10, "Enter a valid mobile number").max(20),
+});
+
+export type RequestBookingOtpInput = z.infer<typeof RequestBookingOtpSchema>;
+
+export const VerifyBookingOtpSchema = z.object({
+  uhid: z.string().trim().min(1, "UHID is required").max(50),
+  otp: z.string().regex(/^\d{6}$/, "OTP must be 6 digits"),
+});
+
+export type VerifyBookingOtpInput = z.infer<typeof VerifyBookingOtpSchema>;
+
+export const PublicBookAppointmentSchema = z.object({
+  departmentId: z.string().uuid("Invalid department ID"),
+  doctorId: z.string().uuid("Invalid doctor ID"),
+  appointmentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD format"),
+  appointmentTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Time must be HH:mm format"),
+  slotEndTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/).optional(),
+  chiefComplaint: z.string().max(500, "Chief complaint too long").optional(),
+});
+
+export type PublicBookAppointmentInput = z.infer<typeof PublicBookAppointmentSchema>;
+
+export const PublicCancelAppointmentSchema = z.object({
+  cancelReason: z.string().min(1, "Cancel reason is required").max(500),
+});
+
+export type PublicCancelAppointmentInput = z.infer<typeof PublicCancelAppointmentSchema>;
+
+export const ConfirmAppointmentSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+});
+
+export type ConfirmAppointmentInput = z.infer<typeof ConfirmAppointmentSchema>;
+
 // ============== RESPONSE TYPES ==============
 
 export interface AppointmentWithRelations {
@@ -139,6 +354,10 @@ export interface AppointmentWithRelations {
   status: string;
   isWalkIn: boolean;
   bookingSource: string | null;
+  isOverbooked: boolean;
+  overbookReason: string | null;
+  seriesId: string | null;
+  seriesIndex: number | null;
   chiefComplaint: string | null;
   notes: string | null;
   checkedInAt: Date | null;
@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+// ============== PASSWORD POLICY SCHEMAS ==============
+
+export const PasswordPolicySchema = z.object({
+  minLength: z.coerce.number().int().min(6).max(64),
+  requireUppercase: z.boolean(),
+  requireLowercase: z.boolean(),
+  requireNumber: z.boolean(),
+  requireSymbol: z.boolean(),
+  expiryDays: z.coerce.number().int().min(0).max(365),
+  historyCount: z.coerce.number().int().min(0).max(24),
+  maxFailedAttempts: z.coerce.number().int().min(0).max(20),
+  lockoutMinutes: z.coerce.number().int().min(0).max(1440),
+  forceChangeOnFirstLogin: z.boolean(),
+  resetLinkTtlMinutes: z.coerce.number().int().min(10).max(1440),
+});
+
+export type PasswordPolicyInput = z.infer<typeof PasswordPolicySchema>;
+
+// ============== PASSWORD CHANGE SCHEMAS ==============
+
+export const ChangePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(1, "New password is required").max(128),
+});
+
+export type ChangePasswordInput = z.infer<typeof ChangePasswordSchema>;
+
+export const RequiredPasswordChangeSchema = z.object({
+  changeToken: z.string().min(1),
+  newPassword: z.string().min(1, "New password is required").max(128),
+});
+
+export type RequiredPasswordChangeInput = z.infer<typeof RequiredPasswordChangeSchema>;
+
+export const ResetPasswordSchema = z.object({
+  token: z.string().min(1),
+  newPassword: z.string().min(1, "New password is required").max(128),
+});
+
+export type ResetPasswordInput = z.infer<typeof ResetPasswordSchema>;
+
+// ============== TWO-FACTOR SCHEMAS ==============
+
+export const TwoFactorSettingsSchema = z.object({
+  requiredRoleCodes: z.array(z.string().min(1)).max(50),
+});
+
+export type TwoFactorSettingsInput = z.infer<typeof TwoFactorSettingsSchema>;
+
+/** A 6-digit authenticator code or a recovery code */
+export const TwoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(20),
+});
+
+export type TwoFactorCodeInput = z.infer<typeof TwoFactorCodeSchema>;
+
+export const StartTwoFactorEnrollmentSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+});
+
+export type StartTwoFactorEnrollmentInput = z.infer<typeof StartTwoFactorEnrollmentSchema>;
+
+export const TwoFactorPendingSchema = z.object({
+  pendingToken: z.string().min(1),
+});
+
+export type TwoFactorPendingInput = z.infer<typeof TwoFactorPendingSchema>;
+
+export const TwoFactorLoginSchema = TwoFactorPendingSchema.extend({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(20),
+});
+
+export type TwoFactorLoginInput = z.infer<typeof TwoFactorLoginSchema>;
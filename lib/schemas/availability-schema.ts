@@ -180,3 +180,65 @@ export const DisableDaySchema = z.object({
 });
 
 export type DisableDayInput = z.infer<typeof DisableDaySchema>;
+
+// ============== HOLIDAY SCHEMAS ==============
+
+export const CreateHolidaySchema = z.object({
+  date: z.coerce.date(),
+  name: z.string().trim().min(1, "Holiday name is required").max(100),
+});
+
+export type CreateHolidayInput = z.infer<typeof CreateHolidaySchema>;
+
+export const HolidayQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type HolidayQueryInput = z.infer<typeof HolidayQuerySchema>;
+
+// ============== SCHEDULE EXCEPTION SCHEMAS ==============
+// Leave, conference and partial-day blocks remove slots; extra sessions add them
+
+export const ScheduleExceptionTypeEnum = z.enum(["LEAVE", "CONFERENCE", "BLOCK", "EXTRA_SESSION"]);
+
+export const CreateScheduleExceptionSchema = z.object({
+  doctorId: z.string().uuid("Invalid doctor ID"),
+  departmentId: z.string().uuid("Invalid department ID").nullish(),
+  type: ScheduleExceptionTypeEnum,
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  startTime: TimeString.nullish(),
+  endTime: TimeString.nullish(),
+  slotDurationMinutes: z.coerce.number().int().min(5).max(120).nullish(),
+  maxPatientsPerSlot: z.coerce.number().int().min(1).max(10).nullish(),
+  reason: z.string().max(500).nullish(),
+}).refine(
+  (data) => data.endDate >= data.startDate,
+  { message: "End date must be on or after start date", path: ["endDate"] }
+).refine(
+  (data) => !!data.startTime === !!data.endTime,
+  { message: "Provide both start and end time for a partial-day exception", path: ["endTime"] }
+).refine(
+  (data) => {
+    if (!data.startTime || !data.endTime) return true;
+    const [startH, startM] = data.startTime.split(":").map(Number);
+    const [endH, endM] = data.endTime.split(":").map(Number);
+    return endH * 60 + endM > startH * 60 + startM;
+  },
+  { message: "End time must be after start time", path: ["endTime"] }
+).refine(
+  (data) => data.type !== "EXTRA_SESSION" || (!!data.departmentId && !!data.startTime),
+  { message: "Extra sessions need a department and session times", path: ["departmentId"] }
+);
+
+export type CreateScheduleExceptionInput = z.infer<typeof CreateScheduleExceptionSchema>;
+
+export const ScheduleExceptionQuerySchema = z.object({
+  doctorId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  includeInactive: z.coerce.boolean().optional().default(false),
+});
+
+export type ScheduleExceptionQueryInput = z.infer<typeof ScheduleExceptionQuerySchema>;
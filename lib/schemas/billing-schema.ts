@@ -0,0 +1,104 @@
+import { z } from "zod";
+
+// =====================================================
+// INVOICE SCHEMAS
+// =====================================================
+
+export const CreateInvoiceSchema = z.object({
+  visitId: z.string().uuid("Invalid visit ID"),
+  consultationType: z.enum(["NORMAL", "FOLLOW_UP"]).optional(),
+  dueDate: z.string().optional().or(z.literal("")),
+  notes: z.string().max(1000).optional().or(z.literal("")),
+});
+
+export const InvoiceItemInputSchema = z.object({
+  itemType: z.enum(["CONSULTATION", "PROCEDURE", "LAB_TEST", "MEDICINE", "ROOM_CHARGE", "OTHER"]),
+  description: z.string().min(1, "Description is required").max(500),
+  quantity: z.coerce.number().int().positive("Quantity must be positive").default(1),
+  unitPrice: z.coerce.number().min(0, "Unit price cannot be negative"),
+  discount: z.coerce.number().min(0, "Discount cannot be negative").default(0),
+});
+
+export const AddInvoiceItemSchema = InvoiceItemInputSchema.extend({
+  version: z.coerce.number().int().positive("Version required"),
+});
+
+export const InvoiceQuerySchema = z.object({
+  search: z.string().optional(),
+  status: z.enum(["DRAFT", "FINAL", "PARTIAL", "PAID", "OVERDUE", "CANCELLED", "ALL"]).default("ALL"),
+  patientId: z.string().uuid().optional(),
+  visitId: z.string().uuid().optional(),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export const InvoiceActionSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+  reason: z.string().max(500).optional(),
+});
+
+export type CreateInvoiceInput = z.infer<typeof CreateInvoiceSchema>;
+export type InvoiceItemInput = z.infer<typeof InvoiceItemInputSchema>;
+export type InvoiceQueryInput = z.infer<typeof InvoiceQuerySchema>;
+
+// =====================================================
+// PAYMENT SCHEMAS
+// =====================================================
+
+export const RecordPaymentSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be positive"),
+  paymentMethod: z.enum(["CASH", "CARD", "UPI", "NET_BANKING", "CHEQUE", "INSURANCE", "OTHER"]),
+  reference: z.string().max(100).optional().or(z.literal("")),
+  notes: z.string().max(500).optional().or(z.literal("")),
+});
+
+export type RecordPaymentInput = z.infer<typeof RecordPaymentSchema>;
+
+// =====================================================
+// CASHIER SHIFT SCHEMAS
+// =====================================================
+
+/** Indian currency notes and coins counted at shift close */
+export const CASH_DENOMINATIONS = [2000, 500, 200, 100, 50, 20, 10, 5, 2, 1] as const;
+
+export const SHIFT_PAYMENT_METHODS = ["CASH", "CARD", "UPI", "NET_BANKING", "CHEQUE", "INSURANCE", "OTHER"] as const;
+
+export const OpenShiftSchema = z.object({
+  openingFloat: z.coerce.number().min(0, "Opening float cannot be negative"),
+  counterNumber: z.string().max(20).optional().or(z.literal("")),
+  notes: z.string().max(500).optional().or(z.literal("")),
+});
+
+export const CloseShiftSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+  /** Count of each note / coin keyed by face value, e.g. { "500": 4 } */
+  denominations: z.partialRecord(
+    z.enum(CASH_DENOMINATIONS.map(String) as [string, ...string[]]),
+    z.coerce.number().int().min(0, "Count cannot be negative")
+  ),
+  /** Counted / settlement-slip totals for non-cash methods */
+  countedAmounts: z
+    .partialRecord(z.enum(SHIFT_PAYMENT_METHODS.filter((m) => m !== "CASH") as [string, ...string[]]), z.coerce.number().min(0))
+    .default({}),
+  notes: z.string().max(1000).optional().or(z.literal("")),
+});
+
+export const ApproveShiftSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+  notes: z.string().max(1000).optional().or(z.literal("")),
+});
+
+export const ShiftQuerySchema = z.object({
+  status: z.enum(["OPEN", "CLOSED", "APPROVED", "ALL"]).default("ALL"),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  cashierId: z.string().uuid().optional(),
+});
+
+export const DayEndReportQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+});
+
+export type OpenShiftInput = z.infer<typeof OpenShiftSchema>;
+export type CloseShiftInput = z.infer<typeof CloseShiftSchema>;
+export type ApproveShiftInput = z.infer<typeof ApproveShiftSchema>;
+export type ShiftQueryInput = z.infer<typeof ShiftQuerySchema>;
@@ -62,4 +62,17 @@ export const PrescriptionSchema = z.object({
   items: z.array(PrescriptionItemSchema).min(1, "At least one medicine is required"),
 });
 
-export type PrescriptionFormData = z.infer<typeof PrescriptionSchema>;
\ No newline at end of file
+export type PrescriptionFormData = z.infer<typeof PrescriptionSchema>;
+export const CodedDiagnosisSchema = z.object({
+  icdCodeId: z.string().min(1, "ICD code is required"),
+  rank: z.enum(["PRIMARY", "SECONDARY"]),
+  certainty: z.enum(["PROVISIONAL", "FINAL"]),
+  notes: z.string().max(500).optional().nullable(),
+});
+
+export const SaveCodedDiagnosesSchema = z.object({
+  visitId: z.string().min(1, "Visit is required"),
+  diagnoses: z.array(CodedDiagnosisSchema).max(20, "At most 20 diagnoses can be coded"),
+});
+
+export type SaveCodedDiagnosesData = z.infer<typeof SaveCodedDiagnosesSchema>;
@@ -0,0 +1,134 @@
+import { z } from "zod";
+
+const WARD_TYPES = [
+  "GENERAL", "SEMI_PRIVATE", "PRIVATE", "ICU", "NICU", "HDU", "EMERGENCY", "MATERNITY", "ISOLATION",
+] as const;
+
+// =====================================================
+// WARD / ROOM / BED MASTER SCHEMAS
+// =====================================================
+
+export const CreateWardSchema = z.object({
+  code: z.string().trim().min(1, "Code is required").max(20),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  wardType: z.enum(WARD_TYPES).default("GENERAL"),
+  floor: z.string().max(50).optional().or(z.literal("")),
+  departmentId: z.string().uuid("Invalid department ID").optional().or(z.literal("")),
+  nurseStation: z.string().max(100).optional().or(z.literal("")),
+  dailyRate: z.coerce.number().min(0, "Rate cannot be negative").optional(),
+});
+
+export const UpdateWardSchema = CreateWardSchema.omit({ code: true }).partial().extend({
+  status: z.enum(["ACTIVE", "INACTIVE"]).optional(),
+  version: z.number().int().positive(),
+});
+
+export const CreateRoomSchema = z.object({
+  wardId: z.string().uuid("Invalid ward ID"),
+  roomNumber: z.string().trim().min(1, "Room number is required").max(20),
+  dailyRate: z.coerce.number().min(0, "Rate cannot be negative").optional(),
+  notes: z.string().max(500).optional().or(z.literal("")),
+});
+
+export const CreateBedsSchema = z.object({
+  roomId: z.string().uuid("Invalid room ID"),
+  bedNumbers: z.array(z.string().trim().min(1).max(20)).min(1, "At least one bed is required").max(50),
+});
+
+export const UpdateBedStatusSchema = z.object({
+  bedStatus: z.enum(["AVAILABLE", "RESERVED", "CLEANING", "MAINTENANCE"]),
+  notes: z.string().max(500).optional().or(z.literal("")),
+  version: z.number().int().positive(),
+});
+
+export type CreateWardInput = z.infer<typeof CreateWardSchema>;
+export type UpdateWardInput = z.infer<typeof UpdateWardSchema>;
+export type CreateRoomInput = z.infer<typeof CreateRoomSchema>;
+export type CreateBedsInput = z.infer<typeof CreateBedsSchema>;
+export type UpdateBedStatusInput = z.infer<typeof UpdateBedStatusSchema>;
+
+// =====================================================
+// ADMISSION SCHEMAS
+// =====================================================
+
+export const AdmitPatientSchema = z.object({
+  patientId: z.string().uuid("Invalid patient ID"),
+  bedId: z.string().uuid("Invalid bed ID"),
+  doctorMasterId: z.string().uuid("Invalid doctor ID").optional().or(z.literal("")),
+  departmentId: z.string().uuid("Invalid department ID").optional().or(z.literal("")),
+  admissionReason: z.string().max(1000).optional().or(z.literal("")),
+  provisionalDiagnosis: z.string().max(1000).optional().or(z.literal("")),
+  attendantName: z.string().max(100).optional().or(z.literal("")),
+  attendantPhone: z.string().max(20).optional().or(z.literal("")),
+});
+
+export const TransferBedSchema = z.object({
+  toBedId: z.string().uuid("Invalid bed ID"),
+  reason: z.string().trim().min(1, "Transfer reason is required").max(500),
+  version: z.number().int().positive(),
+});
+
+export const DischargeSchema = z.object({
+  dischargeType: z.enum(["NORMAL", "LAMA", "REFERRED", "ABSCONDED", "DEATH"]).default("NORMAL"),
+  dischargeNotes: z.string().max(2000).optional().or(z.literal("")),
+  version: z.number().int().positive(),
+});
+
+export const AdmissionQuerySchema = z.object({
+  search: z.string().optional(),
+  status: z.enum(["ADMITTED", "DISCHARGED", "ALL"]).default("ADMITTED"),
+  wardId: z.string().uuid().optional(),
+  patientId: z.string().uuid().optional(),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export type AdmitPatientInput = z.infer<typeof AdmitPatientSchema>;
+export type TransferBedInput = z.infer<typeof TransferBedSchema>;
+export type DischargeInput = z.infer<typeof DischargeSchema>;
+export type AdmissionQueryInput = z.infer<typeof AdmissionQuerySchema>;
+
+// =====================================================
+// DISCHARGE SUMMARY SCHEMAS
+// =====================================================
+
+const optionalText = (max: number) => z.string().max(max).optional().or(z.literal(""));
+
+export const DischargeMedicationSchema = z.object({
+  medicineName: z.string().trim().min(1, "Medicine name is required").max(200),
+  dosage: optionalText(100),
+  frequency: optionalText(100),
+  duration: optionalText(100),
+  instructions: optionalText(500),
+});
+
+export const DischargeSummaryContentSchema = z.object({
+  finalDiagnosis: optionalText(2000),
+  presentingComplaints: optionalText(4000),
+  courseInHospital: optionalText(8000),
+  investigations: optionalText(8000),
+  proceduresPerformed: optionalText(4000),
+  conditionAtDischarge: optionalText(2000),
+  dischargeMedications: z.array(DischargeMedicationSchema).max(50).default([]),
+  followUpPlan: optionalText(2000),
+  followUpDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date").optional().or(z.literal("")),
+  dietAdvice: optionalText(2000),
+  specialInstructions: optionalText(2000),
+});
+
+export const SaveDischargeSummaryDraftSchema = z.object({
+  content: DischargeSummaryContentSchema,
+});
+
+export const FinalizeDischargeSummarySchema = z.object({
+  content: DischargeSummaryContentSchema.extend({
+    finalDiagnosis: z.string().trim().min(1, "Final diagnosis is required").max(2000),
+    courseInHospital: z.string().trim().min(1, "Course in hospital is required").max(8000),
+    conditionAtDischarge: z.string().trim().min(1, "Condition at discharge is required").max(2000),
+  }),
+});
+
+export type DischargeMedication = z.infer<typeof DischargeMedicationSchema>;
+export type DischargeSummaryContent = z.infer<typeof DischargeSummaryContentSchema>;
+export type SaveDischargeSummaryDraftInput = z.infer<typeof SaveDischargeSummaryDraftSchema>;
+export type FinalizeDischargeSummaryInput = z.infer<typeof FinalizeDischargeSummarySchema>;
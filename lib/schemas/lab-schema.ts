@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+// =====================================================
+// WORKLIST SCHEMAS
+// =====================================================
+
+export const LabWorklistQuerySchema = z.object({
+  search: z.string().optional(),
+  status: z
+    .enum(["ORDERED", "SAMPLE_COLLECTED", "IN_PROGRESS", "COMPLETED", "CANCELLED", "ACTIVE", "ALL"])
+    .default("ACTIVE"),
+  priority: z.enum(["EMERGENCY", "URGENT", "NORMAL", "LOW"]).optional(),
+  fromDate: z.string().optional(),
+  toDate: z.string().optional(),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export type LabWorklistQueryInput = z.infer<typeof LabWorklistQuerySchema>;
+
+// =====================================================
+// SAMPLE COLLECTION SCHEMAS
+// =====================================================
+
+export const CollectSamplesSchema = z.object({
+  itemIds: z.array(z.string().uuid("Invalid item ID")).min(1, "Select at least one test"),
+  notes: z.string().max(500).optional().or(z.literal("")),
+});
+
+export type CollectSamplesInput = z.infer<typeof CollectSamplesSchema>;
+
+// =====================================================
+// RESULT ENTRY SCHEMAS
+// =====================================================
+
+export const LabResultEntrySchema = z.object({
+  itemId: z.string().uuid("Invalid item ID"),
+  result: z.string().trim().min(1, "Result is required").max(1000),
+  unit: z.string().max(50).optional().or(z.literal("")),
+  referenceRange: z.string().max(200).optional().or(z.literal("")),
+  isNormal: z.boolean().optional(), // Manual call for qualitative results
+  notes: z.string().max(500).optional().or(z.literal("")),
+});
+
+export const EnterResultsSchema = z.object({
+  results: z.array(LabResultEntrySchema).min(1, "At least one result is required"),
+});
+
+export type LabResultEntryInput = z.infer<typeof LabResultEntrySchema>;
+export type EnterResultsInput = z.infer<typeof EnterResultsSchema>;
+
+// =====================================================
+// VERIFICATION SCHEMAS
+// =====================================================
+
+export const VerifyResultsSchema = z.object({
+  itemIds: z.array(z.string().uuid("Invalid item ID")).min(1, "Select at least one result"),
+  notes: z.string().max(500).optional().or(z.literal("")),
+});
+
+export type VerifyResultsInput = z.infer<typeof VerifyResultsSchema>;
+
+// =====================================================
+// CRITICAL ALERT SCHEMAS
+// =====================================================
+
+export const AcknowledgeCriticalAlertSchema = z.object({
+  readBackValue: z.string().trim().min(1, "Read back the reported value to acknowledge"),
+  notes: z.string().max(500).optional().or(z.literal("")),
+});
+
+export type AcknowledgeCriticalAlertInput = z.infer<typeof AcknowledgeCriticalAlertSchema>;
@@ -0,0 +1,84 @@
+import { z } from "zod";
+
+// =====================================================
+// FIELD GROUPS (survivorship is chosen per group)
+// =====================================================
+
+export const PATIENT_MERGE_FIELD_GROUPS = [
+  { key: "name", label: "Name", fields: ["titleCode", "firstName", "middleName", "lastName"] },
+  { key: "gender", label: "Gender", fields: ["gender"] },
+  { key: "dateOfBirth", label: "Date of Birth / Age", fields: ["dateOfBirth", "ageYears", "ageMonths", "ageDays"] },
+  { key: "primaryMobile", label: "Primary Mobile", fields: ["primaryMobile", "phoneNumber"] },
+  { key: "secondaryMobile", label: "Secondary Mobile", fields: ["secondaryMobile"] },
+  { key: "email", label: "Email", fields: ["email"] },
+  { key: "aadhaarNumber", label: "Aadhaar", fields: ["aadhaarNumber"] },
+  { key: "otherIds", label: "Passport / PAN", fields: ["passportNumber", "panNumber"] },
+  { key: "bloodGroup", label: "Blood Group", fields: ["bloodGroup"] },
+  { key: "maritalStatus", label: "Marital Status", fields: ["maritalStatus"] },
+  {
+    key: "presentAddress",
+    label: "Present Address",
+    fields: [
+      "presentHouseNo", "presentStreet", "presentArea", "presentVillage", "presentTaluk",
+      "presentDistrict", "presentState", "presentCountry", "presentPincode", "address",
+    ],
+  },
+  {
+    key: "permanentAddress",
+    label: "Permanent Address",
+    fields: [
+      "permanentSameAsPresent", "permanentHouseNo", "permanentStreet", "permanentArea", "permanentVillage",
+      "permanentTaluk", "permanentDistrict", "permanentState", "permanentCountry", "permanentPincode",
+    ],
+  },
+  { key: "guardian", label: "Guardian", fields: ["guardianName", "guardianRelation", "guardianMobile"] },
+  { key: "emergencyContact", label: "Emergency Contact", fields: ["emergencyContactName", "emergencyContactPhone"] },
+  { key: "occupation", label: "Occupation / Employer", fields: ["occupation", "employerName", "corporateId", "employeeId"] },
+  { key: "allergies", label: "Allergies", fields: ["allergies"] },
+  { key: "medicalHistory", label: "Medical History", fields: ["medicalHistory"] },
+  { key: "photoUrl", label: "Photo", fields: ["photoUrl"] },
+] as const;
+
+export type PatientMergeFieldGroupKey = (typeof PATIENT_MERGE_FIELD_GROUPS)[number]["key"];
+
+const FIELD_GROUP_KEYS = PATIENT_MERGE_FIELD_GROUPS.map((g) => g.key) as [PatientMergeFieldGroupKey, ...PatientMergeFieldGroupKey[]];
+
+// =====================================================
+// REQUEST SCHEMAS
+// =====================================================
+
+export const DuplicatePatientQuerySchema = z.object({
+  minScore: z.coerce.number().int().min(1).max(100).default(60),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const MergePreviewQuerySchema = z.object({
+  survivorId: z.string().uuid("Invalid survivor patient ID"),
+  mergedId: z.string().uuid("Invalid duplicate patient ID"),
+});
+
+export const MergePatientsSchema = z.object({
+  survivorId: z.string().uuid("Invalid survivor patient ID"),
+  mergedId: z.string().uuid("Invalid duplicate patient ID"),
+  survivorVersion: z.number().int().positive(),
+  mergedVersion: z.number().int().positive(),
+  fieldSelections: z.partialRecord(z.enum(FIELD_GROUP_KEYS), z.enum(["SURVIVOR", "MERGED"])).default({}),
+  reason: z.string().trim().min(1, "Merge reason is required").max(500),
+}).refine((d) => d.survivorId !== d.mergedId, {
+  message: "Cannot merge a patient into itself",
+  path: ["mergedId"],
+});
+
+export const UnmergePatientsSchema = z.object({
+  reason: z.string().trim().min(1, "Unmerge reason is required").max(500),
+});
+
+export const MergeHistoryQuerySchema = z.object({
+  status: z.enum(["MERGED", "UNMERGED", "ALL"]).default("ALL"),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export type DuplicatePatientQuery = z.infer<typeof DuplicatePatientQuerySchema>;
+export type MergePatientsInput = z.infer<typeof MergePatientsSchema>;
+export type MergeHistoryQuery = z.infer<typeof MergeHistoryQuerySchema>;
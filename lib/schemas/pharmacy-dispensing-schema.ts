@@ -8,6 +8,7 @@ export const OPSaleItemInputSchema = z.object({
   productId: z.string().uuid("Invalid product ID"),
   quantity: z.coerce.number().int().positive("Quantity must be positive"),
   discount: z.coerce.number().min(0, "Discount cannot be negative").default(0),
+  prescriptionItemId: z.string().uuid("Invalid prescription item ID").optional().or(z.literal("")),
 });
 
 export const CreateOPSaleSchema = z.object({
@@ -16,6 +17,7 @@ export const CreateOPSaleSchema = z.object({
   visitId: z.string().uuid("Invalid visit ID").optional().or(z.literal("")),
   prescriptionId: z.string().uuid("Invalid prescription ID").optional().or(z.literal("")),
   creditAllowed: z.boolean().default(false),
+  paymentMethod: z.enum(["CASH", "CARD", "UPI", "NET_BANKING", "CHEQUE", "OTHER"]).default("CASH"),
   notes: z.string().max(1000).optional().or(z.literal("")),
   items: z.array(OPSaleItemInputSchema).min(1, "At least one item is required"),
 });
@@ -53,7 +55,7 @@ export const IPSaleItemInputSchema = z.object({
 export const CreateIPSaleSchema = z.object({
   patientId: z.string().uuid("Invalid patient ID"),
   storeId: z.string().uuid("Invalid store ID"),
-  admissionId: z.string().uuid("Invalid admission ID").optional().or(z.literal("")),
+  admissionId: z.string().uuid("Select an active admission"),
   visitId: z.string().uuid("Invalid visit ID").optional().or(z.literal("")),
   invoiceId: z.string().uuid("Invalid invoice ID").optional().or(z.literal("")),
   prescriptionId: z.string().uuid("Invalid prescription ID").optional().or(z.literal("")),
@@ -87,6 +89,36 @@ export const CreditLedgerQuerySchema = z.object({
 
 export type CreditLedgerQueryInput = z.infer<typeof CreditLedgerQuerySchema>;
 
+export const CreditSettlementSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be positive"),
+  paymentMethod: z.enum(["CASH", "CARD", "UPI", "NET_BANKING", "CHEQUE", "OTHER"]),
+  reference: z.string().max(100).optional().or(z.literal("")),
+  notes: z.string().max(500).optional().or(z.literal("")),
+  // Omit to apply the payment to the oldest outstanding sales first
+  allocations: z
+    .array(
+      z.object({
+        entryId: z.string().uuid("Invalid credit entry ID"),
+        amount: z.coerce.number().positive("Amount must be positive"),
+      })
+    )
+    .min(1)
+    .optional(),
+});
+
+export const CreditLimitSchema = z.object({
+  creditLimit: z.coerce.number().min(0, "Credit limit cannot be negative").nullable(),
+});
+
+export const CreditStatementQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type CreditSettlementInput = z.infer<typeof CreditSettlementSchema>;
+export type CreditLimitInput = z.infer<typeof CreditLimitSchema>;
+export type CreditStatementQueryInput = z.infer<typeof CreditStatementQuerySchema>;
+
 // =====================================================
 // STOCK CHECK SCHEMA
 // =====================================================
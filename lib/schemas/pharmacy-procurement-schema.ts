@@ -77,3 +77,172 @@ export const GoodsReceiptQuerySchema = z.object({
 
 export type CreateGoodsReceiptInput = z.infer<typeof CreateGoodsReceiptSchema>;
 export type GoodsReceiptQueryInput = z.infer<typeof GoodsReceiptQuerySchema>;
+
+// =====================================================
+// STOCK INDENT (INTER-STORE TRANSFER) SCHEMAS
+// =====================================================
+
+export const StockIndentItemInputSchema = z.object({
+  productId: z.string().uuid("Invalid product ID"),
+  quantityRequested: z.coerce.number().int().positive("Quantity must be positive"),
+  notes: z.string().max(500).optional().or(z.literal("")),
+});
+
+export const CreateStockIndentSchema = z.object({
+  requestingStoreId: z.string().uuid("Invalid requesting store ID"),
+  issuingStoreId: z.string().uuid("Invalid issuing store ID"),
+  requiredDate: z.string().optional().or(z.literal("")),
+  notes: z.string().max(1000).optional().or(z.literal("")),
+  items: z.array(StockIndentItemInputSchema).min(1, "At least one item is required"),
+});
+
+export const ApproveStockIndentSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+  items: z.array(z.object({
+    itemId: z.string().uuid("Invalid indent item ID"),
+    quantityApproved: z.coerce.number().int().min(0, "Approved quantity cannot be negative"),
+  })).min(1, "At least one item is required"),
+});
+
+export const RejectStockIndentSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+  reason: z.string().min(1, "Rejection reason is required").max(500),
+});
+
+export const StockIndentStatusChangeSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+});
+
+export const ReceiveStockIndentSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+  batches: z.array(z.object({
+    batchId: z.string().uuid("Invalid transfer batch ID"),
+    quantityReceived: z.coerce.number().int().min(0, "Received quantity cannot be negative"),
+    shortfallReason: z.string().max(500).optional().or(z.literal("")),
+  })).min(1, "At least one batch is required"),
+});
+
+export const StockIndentQuerySchema = z.object({
+  search: z.string().optional(),
+  status: z.enum(["REQUESTED", "APPROVED", "REJECTED", "ISSUED", "RECEIVED", "CANCELLED", "ALL"]).default("ALL"),
+  storeId: z.string().uuid().optional(),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export type CreateStockIndentInput = z.infer<typeof CreateStockIndentSchema>;
+export type ApproveStockIndentInput = z.infer<typeof ApproveStockIndentSchema>;
+export type ReceiveStockIndentInput = z.infer<typeof ReceiveStockIndentSchema>;
+export type StockIndentQueryInput = z.infer<typeof StockIndentQuerySchema>;
+
+// =====================================================
+// REORDER SUGGESTION SCHEMAS
+// =====================================================
+
+export const ReorderSuggestionQuerySchema = z.object({
+  storeId: z.string().uuid("Invalid store ID"),
+  lookbackDays: z.coerce.number().int().min(7).max(365).default(30),
+  coverDays: z.coerce.number().int().min(0).max(180).default(15),
+});
+
+export const CreateReorderPurchaseOrdersSchema = z.object({
+  storeId: z.string().uuid("Invalid store ID"),
+  orders: z.array(z.object({
+    vendorId: z.string().uuid("Invalid vendor ID"),
+    items: z.array(z.object({
+      productId: z.string().uuid("Invalid product ID"),
+      quantityOrdered: z.coerce.number().int().positive("Quantity must be positive"),
+      unitCost: z.coerce.number().positive("Unit cost must be positive"),
+    })).min(1, "At least one item is required"),
+  })).min(1, "At least one vendor order is required"),
+});
+
+export type ReorderSuggestionQueryInput = z.infer<typeof ReorderSuggestionQuerySchema>;
+export type CreateReorderPurchaseOrdersInput = z.infer<typeof CreateReorderPurchaseOrdersSchema>;
+
+// =====================================================
+// VENDOR RATE CONTRACT SCHEMAS
+// =====================================================
+
+export const CreateVendorRateContractSchema = z.object({
+  vendorId: z.string().uuid("Invalid vendor ID"),
+  productId: z.string().uuid("Invalid product ID"),
+  unitCost: z.coerce.number().positive("Unit cost must be positive"),
+  validFrom: z.string().min(1, "Valid from date is required"),
+  validTo: z.string().min(1, "Valid to date is required"),
+  notes: z.string().max(500).optional().or(z.literal("")),
+});
+
+export const UpdateVendorRateContractSchema = z.object({
+  unitCost: z.coerce.number().positive("Unit cost must be positive").optional(),
+  validFrom: z.string().optional(),
+  validTo: z.string().optional(),
+  notes: z.string().max(500).optional().or(z.literal("")),
+  version: z.coerce.number().int().positive("Version required"),
+});
+
+export const VendorRateContractQuerySchema = z.object({
+  search: z.string().optional(),
+  vendorId: z.string().uuid().optional(),
+  productId: z.string().uuid().optional(),
+  validity: z.enum(["ACTIVE", "UPCOMING", "EXPIRED", "ALL"]).default("ALL"),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export const ActiveContractRatesQuerySchema = z.object({
+  vendorId: z.string().uuid("Invalid vendor ID"),
+  date: z.string().optional(),
+});
+
+export type CreateVendorRateContractInput = z.infer<typeof CreateVendorRateContractSchema>;
+export type UpdateVendorRateContractInput = z.infer<typeof UpdateVendorRateContractSchema>;
+export type VendorRateContractQueryInput = z.infer<typeof VendorRateContractQuerySchema>;
+
+// =====================================================
+// VENDOR INVOICE (THREE-WAY MATCH) SCHEMAS
+// =====================================================
+
+export const VendorInvoiceItemInputSchema = z.object({
+  productId: z.string().uuid("Invalid product ID"),
+  quantity: z.coerce.number().int().positive("Quantity must be positive"),
+  unitCost: z.coerce.number().positive("Unit cost must be positive"),
+  tax: z.coerce.number().min(0, "Tax cannot be negative").default(0),
+});
+
+export const CreateVendorInvoiceSchema = z.object({
+  goodsReceiptId: z.string().uuid("Invalid GRN ID"),
+  invoiceNumber: z.string().min(1, "Invoice number is required").max(100),
+  invoiceDate: z.string().min(1, "Invoice date is required"),
+  notes: z.string().max(1000).optional().or(z.literal("")),
+  items: z.array(VendorInvoiceItemInputSchema).min(1, "At least one item is required"),
+});
+
+export const VendorInvoiceStatusChangeSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+});
+
+export const ApproveInvoiceVarianceSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+  notes: z.string().min(1, "Approval notes are required").max(500),
+});
+
+export const VendorInvoiceQuerySchema = z.object({
+  search: z.string().optional(),
+  status: z.enum(["MATCHED", "FLAGGED", "VARIANCE_APPROVED", "PAYABLE", "CANCELLED", "ALL"]).default("ALL"),
+  vendorId: z.string().uuid().optional(),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export const ThreeWayMatchReportQuerySchema = z.object({
+  vendorId: z.string().uuid().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  varianceOnly: z.coerce.boolean().default(false),
+});
+
+export type VendorInvoiceItemInput = z.infer<typeof VendorInvoiceItemInputSchema>;
+export type CreateVendorInvoiceInput = z.infer<typeof CreateVendorInvoiceSchema>;
+export type VendorInvoiceQueryInput = z.infer<typeof VendorInvoiceQuerySchema>;
+export type ThreeWayMatchReportQueryInput = z.infer<typeof ThreeWayMatchReportQuerySchema>;
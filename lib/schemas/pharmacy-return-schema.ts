@@ -37,3 +37,89 @@ export const ReturnCancelSchema = z.object({
 
 export type CreateReturnInput = z.infer<typeof CreateReturnSchema>;
 export type ReturnQueryInput = z.infer<typeof ReturnQuerySchema>;
+
+// =====================================================
+// VENDOR RETURN (DEBIT NOTE) SCHEMAS
+// =====================================================
+
+export const STOCK_DISPOSAL_REASONS = ["EXPIRED", "NEAR_EXPIRY", "DAMAGED", "RECALLED", "OTHER"] as const;
+
+export const VendorReturnItemInputSchema = z.object({
+  goodsReceiptItemId: z.string().uuid("Invalid GRN item ID"),
+  quantity: z.coerce.number().int().positive("Quantity must be positive"),
+  reason: z.enum(STOCK_DISPOSAL_REASONS, { message: "Invalid return reason" }),
+});
+
+export const CreateVendorReturnSchema = z.object({
+  vendorId: z.string().uuid("Invalid vendor ID"),
+  storeId: z.string().uuid("Invalid store ID"),
+  notes: z.string().max(1000).optional().or(z.literal("")),
+  items: z.array(VendorReturnItemInputSchema).min(1, "At least one item is required"),
+});
+
+export const VendorReturnQuerySchema = z.object({
+  search: z.string().optional(),
+  status: z.enum(["DRAFT", "APPROVED", "CANCELLED", "ALL"]).default("ALL"),
+  vendorId: z.string().uuid().optional(),
+  storeId: z.string().uuid().optional(),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export const ReturnableBatchQuerySchema = z.object({
+  storeId: z.string().uuid("Invalid store ID"),
+  vendorId: z.string().uuid("Invalid vendor ID"),
+  expiredOnly: z.coerce.boolean().default(false),
+});
+
+export const VendorReturnStatusChangeSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+});
+
+export type CreateVendorReturnInput = z.infer<typeof CreateVendorReturnSchema>;
+export type VendorReturnQueryInput = z.infer<typeof VendorReturnQuerySchema>;
+
+// =====================================================
+// STOCK WRITE-OFF (DESTRUCTION REGISTER) SCHEMAS
+// =====================================================
+
+export const WriteOffItemInputSchema = z.object({
+  productId: z.string().uuid("Invalid product ID"),
+  batchNumber: z.string().min(1, "Batch number required"),
+  quantity: z.coerce.number().int().positive("Quantity must be positive"),
+  reason: z.enum(STOCK_DISPOSAL_REASONS, { message: "Invalid write-off reason" }),
+});
+
+export const CreateWriteOffSchema = z.object({
+  storeId: z.string().uuid("Invalid store ID"),
+  destructionMethod: z.string().max(200).optional().or(z.literal("")),
+  notes: z.string().max(1000).optional().or(z.literal("")),
+  items: z.array(WriteOffItemInputSchema).min(1, "At least one item is required"),
+});
+
+export const WriteOffWitnessSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+  designation: z.string().max(100).optional().or(z.literal("")),
+  signature: z.string().min(1, "Type your full name to sign").max(150),
+});
+
+export const WriteOffRejectSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+  reason: z.string().min(1, "Rejection reason is required").max(500),
+});
+
+export const WriteOffStatusChangeSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+});
+
+export const WriteOffQuerySchema = z.object({
+  search: z.string().optional(),
+  status: z.enum(["PENDING", "APPROVED", "REJECTED", "CANCELLED", "ALL"]).default("ALL"),
+  storeId: z.string().uuid().optional(),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export type CreateWriteOffInput = z.infer<typeof CreateWriteOffSchema>;
+export type WriteOffWitnessInput = z.infer<typeof WriteOffWitnessSchema>;
+export type WriteOffQueryInput = z.infer<typeof WriteOffQuerySchema>;
@@ -62,6 +62,7 @@ export const VendorCreateSchema = z.object({
   contactPerson: z.string().optional().or(z.literal("")),
   contactNumber: z.string().optional().or(z.literal("")),
   email: z.string().email("Valid email required").optional().or(z.literal("")),
+  leadTimeDays: z.coerce.number().int().min(0).max(365).optional().default(7),
   status: z.enum(["ACTIVE", "INACTIVE"]).default("ACTIVE"),
 });
 
@@ -106,6 +107,8 @@ export const ProductCreateSchema = z.object({
   reorderLevel: z.coerce.number().min(0).optional().default(0),
   storageCondition: z.string().optional().or(z.literal("")),
   isNarcotic: z.boolean().default(false),
+  category: z.string().max(100).optional().or(z.literal("")),
+  rackLocation: z.string().max(50).optional().or(z.literal("")),
   status: z.enum(["ACTIVE", "INACTIVE"]).default("ACTIVE"),
 });
 
@@ -147,7 +150,7 @@ export const InventoryLedgerQuerySchema = z.object({
   storeId: z.string().uuid().optional(),
   productId: z.string().uuid().optional(),
   batchNumber: z.string().optional(),
-  transactionType: z.enum(["OPENING", "ADJUSTMENT"]).optional(),
+  transactionType: z.enum(["OPENING", "ADJUSTMENT", "GRN_IN", "SALE_OUT", "RETURN_IN", "TRANSFER_OUT", "TRANSFER_IN", "VENDOR_RETURN_OUT", "WRITE_OFF"]).optional(),
   limit: z.coerce.number().min(10).max(100).default(20),
   cursor: z.string().optional(),
 });
@@ -167,3 +170,42 @@ export const StockQuerySchema = z.object({
 });
 
 export type StockQueryInput = z.infer<typeof StockQuerySchema>;
+
+// ============== STOCK TAKE (CYCLE COUNT) SCHEMAS ==============
+
+export const StartStockTakeSchema = z.object({
+  storeId: z.string().uuid("Invalid store ID"),
+  rackLocation: z.string().max(50).optional().or(z.literal("")),
+  category: z.string().max(100).optional().or(z.literal("")),
+  scheduleType: z.enum(["H", "H1", "X", "OTC"]).optional(),
+  notes: z.string().max(1000).optional().or(z.literal("")),
+});
+
+export const StockTakeCountsSchema = z.object({
+  counts: z.array(z.object({
+    itemId: z.string().uuid("Invalid item ID"),
+    countedQty: z.coerce.number().int().min(0, "Count cannot be negative"),
+    remarks: z.string().max(300).optional().or(z.literal("")),
+  })).min(1, "At least one count is required"),
+});
+
+export const StockTakeStatusChangeSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+});
+
+export const StockTakeRejectSchema = z.object({
+  version: z.coerce.number().int().positive("Version required"),
+  reason: z.string().min(1, "Reason for recount is required").max(500),
+});
+
+export const StockTakeQuerySchema = z.object({
+  search: z.string().optional(),
+  status: z.enum(["COUNTING", "SUBMITTED", "APPROVED", "CANCELLED", "ALL"]).default("ALL"),
+  storeId: z.string().uuid().optional(),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export type StartStockTakeInput = z.infer<typeof StartStockTakeSchema>;
+export type StockTakeCountsInput = z.infer<typeof StockTakeCountsSchema>;
+export type StockTakeQueryInput = z.infer<typeof StockTakeQuerySchema>;
@@ -9,10 +9,14 @@ import { prisma } from "@/lib/prisma";
 import { createAuditLog } from "@/lib/audit";
 import { availabilityService } from "@/lib/services/availabilityService";
 import { syncOPDQueueSnapshot } from "@/lib/services/opd-queue-snapshot";
+import { appointmentWaitlistService } from "@/lib/services/appointmentWaitlistService";
+import { createAppointmentConfirmToken } from "@/lib/auth";
+import { sendNotification } from "@/lib/notifications/notifier";
 import {
   CreateAppointmentInput,
   RescheduleAppointmentInput,
   CancelAppointmentInput,
+  BulkAppointmentActionInput,
   WalkInAppointmentInput,
   AppointmentQueryInput,
   AppointmentWithRelations,
@@ -27,6 +31,17 @@ interface ServiceResult<T> {
   errorCode?: string;
 }
 
+export interface SeriesOccurrenceRef {
+  seriesId: string;
+  seriesIndex: number;
+  sendConfirmation: boolean;
+}
+
+interface BulkActionResult {
+  succeeded: Array<{ appointmentId: string; newDate?: string; newTime?: string }>;
+  failed: Array<{ appointmentId: string; reason: string }>;
+}
+
 interface PaginatedResult<T> {
   items: T[];
   pagination: {
@@ -37,6 +52,8 @@ interface PaginatedResult<T> {
   };
 }
 
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+
 // ============== HELPER FUNCTIONS ==============
 
 /**
@@ -99,16 +116,55 @@ async function getNextWalkInSlot(
   return null;
 }
 
+/**
+ * Send the patient a signed link to confirm a scheduled appointment.
+ * Delivery failures are logged and never block the booking.
+ */
+async function sendConfirmationLink(tenantId: string, appointmentId: string): Promise<void> {
+  try {
+    const appointment = await prisma.appointment.findFirst({
+      where: { id: appointmentId, tenantId },
+      select: {
+        appointmentDate: true,
+        appointmentTime: true,
+        patient: { select: { firstName: true, primaryMobile: true } },
+        doctorMaster: { select: { fullName: true } },
+        tenant: { select: { name: true } },
+      },
+    });
+
+    if (!appointment?.patient.primaryMobile) return;
+
+    const expiresAt = new Date(appointment.appointmentDate);
+    expiresAt.setHours(23, 59, 59, 999);
+    const token = await createAppointmentConfirmToken(appointmentId, tenantId, expiresAt);
+
+    const when = `${appointment.appointmentDate.toLocaleDateString("en-IN")} ${appointment.appointmentTime || ""}`.trim();
+    const doctor = appointment.doctorMaster ? ` with Dr. ${appointment.doctorMaster.fullName}` : "";
+
+    await sendNotification({
+      tenantId,
+      channel: "SMS",
+      to: appointment.patient.primaryMobile,
+      body: `Dear ${appointment.patient.firstName}, your appointment${doctor} at ${appointment.tenant.name} is on ${when}. Please confirm: ${APP_URL}/book/confirm?token=${token}`,
+    });
+  } catch (error) {
+    console.error("[Booking] Failed to send confirmation link:", error);
+  }
+}
+
 // ============== SERVICE ==============
 
 export const appointmentBookingService = {
   /**
-   * Book a new appointment with slot validation
+   * Book a new appointment with slot validation.
+   * Occurrences of a recurring series pass their series reference.
    */
   async book(
     tenantId: string,
     input: CreateAppointmentInput,
-    performedBy: string
+    performedBy: string | null,
+    series?: SeriesOccurrenceRef
   ): Promise<ServiceResult<AppointmentWithRelations>> {
     try {
       // 1. Validate patient exists
@@ -133,11 +189,15 @@ export const appointmentBookingService = {
         return { success: false, error: slotValidation.error, errorCode: "VALIDATION_ERROR" };
       }
 
-      if (!slotValidation.data?.canBook) {
+      // Capacity limits can be overridden with a recorded reason; holidays,
+      // leave and session hours cannot
+      const isOverbooked = !slotValidation.data?.canBook && !!slotValidation.data?.capacityExceeded && input.overbook;
+
+      if (!slotValidation.data?.canBook && !isOverbooked) {
         return {
           success: false,
           error: slotValidation.data?.reason || "Slot not available",
-          errorCode: "SLOT_UNAVAILABLE",
+          errorCode: slotValidation.data?.capacityExceeded ? "SLOT_FULL" : "SLOT_UNAVAILABLE",
         };
       }
 
@@ -180,6 +240,10 @@ export const appointmentBookingService = {
           status: "BOOKED",
           isWalkIn: input.isWalkIn,
           bookingSource: input.bookingSource,
+          isOverbooked,
+          overbookReason: isOverbooked ? input.overbookReason : null,
+          seriesId: series?.seriesId,
+          seriesIndex: series?.seriesIndex,
           chiefComplaint: input.chiefComplaint,
           notes: input.notes,
           createdBy: performedBy,
@@ -208,6 +272,12 @@ export const appointmentBookingService = {
         newValue: { ...appointment, tokenNumber },
       });
 
+      // 7. Ask the patient to confirm scheduled (non walk-in) bookings; a series
+      // sends one link for its first booked occurrence rather than one SMS per date
+      if (!input.isWalkIn && (!series || series.sendConfirmation)) {
+        await sendConfirmationLink(tenantId, appointment.id);
+      }
+
       return { success: true, data: appointment as unknown as AppointmentWithRelations };
     } catch (error) {
       console.error("Book appointment error:", error);
@@ -247,6 +317,7 @@ export const appointmentBookingService = {
           slotEndTime: slot.endTime,
           isWalkIn: true,
           bookingSource: "WALKIN",
+          overbook: false,
           chiefComplaint: input.chiefComplaint,
           notes: input.notes,
         },
@@ -345,6 +416,20 @@ export const appointmentBookingService = {
         newValue: updated,
       });
 
+      // 5. Offer the vacated slot to the doctor's waitlist
+      const slotChanged =
+        newDoctorId !== existing.doctorMasterId ||
+        input.newTime !== existing.appointmentTime ||
+        new Date(input.newDate).getTime() !== existing.appointmentDate.getTime();
+      if (slotChanged && existing.doctorMasterId && existing.appointmentTime) {
+        await appointmentWaitlistService.offerFreedSlot(tenantId, {
+          doctorId: existing.doctorMasterId,
+          date: existing.appointmentDate,
+          time: existing.appointmentTime,
+          slotEndTime: existing.slotEndTime,
+        });
+      }
+
       return { success: true, data: updated as unknown as AppointmentWithRelations };
     } catch (error) {
       console.error("Reschedule appointment error:", error);
@@ -358,7 +443,7 @@ export const appointmentBookingService = {
   async cancel(
     tenantId: string,
     input: CancelAppointmentInput,
-    performedBy: string
+    performedBy: string | null
   ): Promise<ServiceResult<void>> {
     try {
       const existing = await prisma.appointment.findFirst({
@@ -393,6 +478,16 @@ export const appointmentBookingService = {
         newValue: { status: "CANCELLED", cancelReason: input.cancelReason },
       });
 
+      // Offer the freed slot to the doctor's waitlist
+      if (existing.doctorMasterId && existing.appointmentTime) {
+        await appointmentWaitlistService.offerFreedSlot(tenantId, {
+          doctorId: existing.doctorMasterId,
+          date: existing.appointmentDate,
+          time: existing.appointmentTime,
+          slotEndTime: existing.slotEndTime,
+        });
+      }
+
       return { success: true };
     } catch (error) {
       console.error("Cancel appointment error:", error);
@@ -400,6 +495,230 @@ export const appointmentBookingService = {
     }
   },
 
+  /**
+   * Confirm a booked appointment (staff action or the patient's confirmation link).
+   * Confirming an already confirmed appointment is a no-op.
+   */
+  async confirm(
+    tenantId: string,
+    appointmentId: string,
+    performedBy: string | null
+  ): Promise<ServiceResult<void>> {
+    try {
+      const existing = await prisma.appointment.findFirst({
+        where: { id: appointmentId, tenantId },
+      });
+
+      if (!existing) {
+        return { success: false, error: "Appointment not found", errorCode: "NOT_FOUND" };
+      }
+
+      if (existing.status === "CONFIRMED") {
+        return { success: true };
+      }
+
+      if (existing.status !== "BOOKED" && existing.status !== "RESCHEDULED") {
+        return { success: false, error: "Appointment can no longer be confirmed", errorCode: "INVALID_STATUS" };
+      }
+
+      await prisma.appointment.update({
+        where: { id: appointmentId },
+        data: {
+          status: "CONFIRMED",
+          confirmedAt: new Date(),
+          updatedBy: performedBy,
+        },
+      });
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "APPOINTMENT",
+        entityId: appointmentId,
+        action: "CONFIRM",
+        oldValue: { status: existing.status },
+        newValue: { status: "CONFIRMED" },
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error("Confirm appointment error:", error);
+      return { success: false, error: "Failed to confirm appointment", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Book the slot offered to a waitlisted patient. The hold is released first
+   * so the booking passes slot validation, and restored if booking fails.
+   */
+  async bookFromWaitlist(
+    tenantId: string,
+    waitlistId: string,
+    performedBy: string
+  ): Promise<ServiceResult<AppointmentWithRelations>> {
+    try {
+      const entry = await prisma.appointmentWaitlist.findFirst({
+        where: { id: waitlistId, tenantId, status: "OFFERED" },
+      });
+
+      if (!entry || !entry.offeredTime) {
+        return { success: false, error: "No open offer for this waitlist entry", errorCode: "NOT_FOUND" };
+      }
+
+      if (!entry.offerExpiresAt || entry.offerExpiresAt <= new Date()) {
+        return { success: false, error: "The offer has expired", errorCode: "OFFER_EXPIRED" };
+      }
+
+      const released = await prisma.appointmentWaitlist.updateMany({
+        where: { id: waitlistId, status: "OFFERED" },
+        data: { status: "BOOKED", updatedBy: performedBy },
+      });
+      if (released.count === 0) {
+        return { success: false, error: "Offer is no longer open", errorCode: "CONFLICT" };
+      }
+
+      const result = await this.book(
+        tenantId,
+        {
+          patientId: entry.patientId,
+          departmentId: entry.departmentId,
+          doctorId: entry.doctorId,
+          appointmentDate: entry.preferredDate.toISOString().split("T")[0],
+          appointmentTime: entry.offeredTime,
+          slotEndTime: entry.offeredSlotEndTime || undefined,
+          isWalkIn: false,
+          bookingSource: "PHONE",
+          overbook: false,
+          notes: entry.notes ? `From waitlist: ${entry.notes}` : "From waitlist",
+        },
+        performedBy
+      );
+
+      if (!result.success || !result.data) {
+        await prisma.appointmentWaitlist.updateMany({
+          where: { id: waitlistId, status: "BOOKED" },
+          data: { status: "OFFERED" },
+        });
+        return result;
+      }
+
+      await prisma.appointmentWaitlist.update({
+        where: { id: waitlistId },
+        data: { appointmentId: result.data.id },
+      });
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "APPOINTMENT_WAITLIST",
+        entityId: waitlistId,
+        action: "BOOK",
+        oldValue: { status: "OFFERED" },
+        newValue: { status: "BOOKED", appointmentId: result.data.id },
+      });
+
+      return result;
+    } catch (error) {
+      console.error("Book from waitlist error:", error);
+      return { success: false, error: "Failed to book from waitlist", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Cancel or reschedule several appointments at once (doctor leave, holidays).
+   * Rescheduled appointments keep their time where the new day allows it,
+   * otherwise they take the next free slot.
+   */
+  async bulkAction(
+    tenantId: string,
+    input: BulkAppointmentActionInput,
+    performedBy: string
+  ): Promise<ServiceResult<BulkActionResult>> {
+    try {
+      const result: BulkActionResult = { succeeded: [], failed: [] };
+
+      if (input.action === "CANCEL") {
+        for (const appointmentId of input.appointmentIds) {
+          const cancelled = await this.cancel(
+            tenantId,
+            { appointmentId, cancelReason: input.reason },
+            performedBy
+          );
+          if (cancelled.success) {
+            result.succeeded.push({ appointmentId });
+          } else {
+            result.failed.push({ appointmentId, reason: cancelled.error || "Cancel failed" });
+          }
+        }
+        return { success: true, data: result };
+      }
+
+      const newDate = input.newDate!;
+      const appointments = await prisma.appointment.findMany({
+        where: { id: { in: input.appointmentIds }, tenantId },
+        select: { id: true, doctorMasterId: true, departmentId: true, appointmentTime: true },
+        orderBy: { appointmentTime: "asc" },
+      });
+
+      // Slots taken by this batch (RESCHEDULED is not counted in slot capacity)
+      const taken = new Map<string, number>();
+
+      for (const appointmentId of input.appointmentIds) {
+        const appointment = appointments.find((a) => a.id === appointmentId);
+        const doctorId = input.newDoctorId || appointment?.doctorMasterId;
+        if (!appointment || !doctorId) {
+          result.failed.push({ appointmentId, reason: "Appointment not found" });
+          continue;
+        }
+
+        const daySlots = await availabilityService.getDoctorDaySlots(tenantId, {
+          doctorId,
+          departmentId: appointment.departmentId || undefined,
+          date: new Date(newDate),
+        });
+        if (!daySlots.success || !daySlots.data) {
+          result.failed.push({ appointmentId, reason: daySlots.error || "No availability on the new date" });
+          continue;
+        }
+
+        const free = daySlots.data.slots.filter(
+          (slot) => slot.availableCount - (taken.get(`${doctorId}-${slot.time}`) || 0) > 0
+        );
+        const slot =
+          free.find((s) => !appointment.appointmentTime || s.time >= appointment.appointmentTime) || free[0];
+        if (!slot) {
+          result.failed.push({ appointmentId, reason: "No free slot on the new date" });
+          continue;
+        }
+
+        const rescheduled = await this.reschedule(
+          tenantId,
+          {
+            appointmentId,
+            newDate,
+            newTime: slot.time,
+            newSlotEndTime: slot.endTime,
+            newDoctorId: input.newDoctorId,
+            reason: input.reason,
+          },
+          performedBy
+        );
+        if (rescheduled.success) {
+          const key = `${doctorId}-${slot.time}`;
+          taken.set(key, (taken.get(key) || 0) + 1);
+          result.succeeded.push({ appointmentId, newDate, newTime: slot.time });
+        } else {
+          result.failed.push({ appointmentId, reason: rescheduled.error || "Reschedule failed" });
+        }
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Bulk appointment action error:", error);
+      return { success: false, error: "Failed to update appointments", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
   /**
    * Check-in patient for appointment
    * Creates a Visit record and syncs OPD Queue for doctor dashboard
@@ -0,0 +1,515 @@
+/**
+ * HMS Appointment System - End-of-Day Reconciliation Service
+ *
+ * After the tenant's cutoff time, appointments still BOOKED / CONFIRMED /
+ * RESCHEDULED for the day (or earlier) are marked NO_SHOW and OPD visits
+ * still WAITING are closed. Every change is recorded as a reconciliation
+ * item so admins can review the run and undo individual changes.
+ *
+ * Scheduled runs come from workers/reportingWorker.ts via runDue().
+ */
+
+import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit";
+import { syncOPDQueueSnapshot, cleanupOldSnapshots } from "@/lib/services/opd-queue-snapshot";
+import {
+  ReconciliationSettingsInput,
+  RunReconciliationInput,
+  UndoReconciliationInput,
+  ReconciliationQueryInput,
+} from "@/lib/schemas/appointment-schema";
+import {
+  AppointmentReconciliation,
+  AppointmentReconciliationItem,
+  AppointmentStatus,
+  VisitStatus,
+} from "@/app/generated/prisma/client";
+
+// ============== TYPES ==============
+
+interface ServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  errorCode?: string;
+}
+
+interface PaginatedResult<T> {
+  items: T[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export interface ReconciliationSettings {
+  enabled: boolean;
+  cutoffTime: string;
+}
+
+interface ReconciliationWithItems extends AppointmentReconciliation {
+  items: AppointmentReconciliationItem[];
+}
+
+interface UndoResult {
+  restored: string[];
+  failed: Array<{ itemId: string; reason: string }>;
+}
+
+/** TenantSetting key holding { enabled, cutoffTime } */
+export const RECONCILIATION_SETTING_KEY = "appointment_reconciliation";
+const DEFAULT_CUTOFF_TIME = "21:00";
+const OPEN_APPOINTMENT_STATUSES: AppointmentStatus[] = ["BOOKED", "CONFIRMED", "RESCHEDULED"];
+
+// ============== HELPER FUNCTIONS ==============
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function endOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(23, 59, 59, 999);
+  return d;
+}
+
+/**
+ * Parse YYYY-MM-DD as a local date (not UTC)
+ */
+function parseLocalDate(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function toTimeString(date: Date): string {
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
+
+function fullName(person: { firstName: string; lastName: string | null }): string {
+  return [person.firstName, person.lastName].filter(Boolean).join(" ");
+}
+
+async function loadSettings(tenantId: string): Promise<ReconciliationSettings> {
+  const setting = await prisma.tenantSetting.findUnique({
+    where: { tenantId_key: { tenantId, key: RECONCILIATION_SETTING_KEY } },
+  });
+
+  const value = (setting?.value ?? {}) as { enabled?: boolean; cutoffTime?: string };
+  return {
+    enabled: value.enabled !== false,
+    cutoffTime:
+      typeof value.cutoffTime === "string" && /^([01]\d|2[0-3]):([0-5]\d)$/.test(value.cutoffTime)
+        ? value.cutoffTime
+        : DEFAULT_CUTOFF_TIME,
+  };
+}
+
+/**
+ * Mark unattended appointments NO_SHOW and close stale WAITING visits up to
+ * the end of the business date. Entities an admin restored from an earlier
+ * run are left alone so they are not reconciled again.
+ */
+async function reconcileDate(
+  tenantId: string,
+  businessDate: Date,
+  cutoffTime: string,
+  triggeredBy: string | null
+): Promise<AppointmentReconciliation> {
+  const dayStart = startOfDay(businessDate);
+  const dayEnd = endOfDay(businessDate);
+
+  const restored = await prisma.appointmentReconciliationItem.findMany({
+    where: { reconciliation: { tenantId }, undoneAt: { not: null } },
+    select: { entityId: true },
+  });
+  const excludedIds = restored.map((r) => r.entityId);
+
+  const { reconciliation, visitIds } = await prisma.$transaction(async (tx) => {
+    const appointments = await tx.appointment.findMany({
+      where: {
+        tenantId,
+        appointmentDate: { lte: dayEnd },
+        status: { in: OPEN_APPOINTMENT_STATUSES },
+        ...(excludedIds.length > 0 && { id: { notIn: excludedIds } }),
+      },
+      select: {
+        id: true,
+        status: true,
+        appointmentDate: true,
+        appointmentTime: true,
+        patient: { select: { uhid: true, firstName: true, lastName: true } },
+        doctorMaster: { select: { fullName: true } },
+      },
+    });
+
+    const visits = await tx.visit.findMany({
+      where: {
+        tenantId,
+        visitType: "OPD",
+        status: "WAITING",
+        OR: [
+          { checkInTime: { lte: dayEnd } },
+          { checkInTime: null, createdAt: { lte: dayEnd } },
+        ],
+        ...(excludedIds.length > 0 && { id: { notIn: excludedIds } }),
+      },
+      select: {
+        id: true,
+        status: true,
+        checkInTime: true,
+        createdAt: true,
+        patient: { select: { uhid: true, firstName: true, lastName: true } },
+        doctorMaster: { select: { fullName: true } },
+        doctor: { select: { fullName: true } },
+      },
+    });
+
+    if (appointments.length > 0) {
+      await tx.appointment.updateMany({
+        where: { id: { in: appointments.map((a) => a.id) } },
+        data: { status: "NO_SHOW", updatedBy: triggeredBy },
+      });
+    }
+
+    const closedAt = new Date();
+    if (visits.length > 0) {
+      await tx.visit.updateMany({
+        where: { id: { in: visits.map((v) => v.id) } },
+        data: { status: "CANCELLED", endTime: closedAt, updatedBy: triggeredBy },
+      });
+    }
+
+    const run = await tx.appointmentReconciliation.upsert({
+      where: { tenantId_businessDate: { tenantId, businessDate: dayStart } },
+      create: {
+        tenantId,
+        businessDate: dayStart,
+        cutoffTime,
+        noShowCount: appointments.length,
+        closedVisitCount: visits.length,
+        triggeredBy,
+      },
+      update: {
+        cutoffTime,
+        noShowCount: { increment: appointments.length },
+        closedVisitCount: { increment: visits.length },
+        triggeredBy,
+      },
+    });
+
+    await tx.appointmentReconciliationItem.createMany({
+      data: [
+        ...appointments.map((a) => ({
+          reconciliationId: run.id,
+          entityType: "APPOINTMENT" as const,
+          entityId: a.id,
+          previousStatus: a.status,
+          newStatus: "NO_SHOW",
+          patientName: fullName(a.patient),
+          patientUhid: a.patient.uhid,
+          doctorName: a.doctorMaster?.fullName || null,
+          scheduledDate: a.appointmentDate,
+          scheduledTime: a.appointmentTime,
+        })),
+        ...visits.map((v) => {
+          const checkIn = v.checkInTime || v.createdAt;
+          return {
+            reconciliationId: run.id,
+            entityType: "VISIT" as const,
+            entityId: v.id,
+            previousStatus: v.status,
+            newStatus: "CANCELLED",
+            patientName: fullName(v.patient),
+            patientUhid: v.patient.uhid,
+            doctorName: v.doctorMaster?.fullName || v.doctor?.fullName || null,
+            scheduledDate: startOfDay(checkIn),
+            scheduledTime: toTimeString(checkIn),
+          };
+        }),
+      ],
+    });
+
+    return { reconciliation: run, visitIds: visits.map((v) => v.id) };
+  });
+
+  // Refresh the OPD queue read model for the closed visits
+  for (const visitId of visitIds) {
+    await syncOPDQueueSnapshot(visitId);
+  }
+  if (visitIds.length > 0) {
+    await cleanupOldSnapshots(tenantId);
+  }
+
+  await createAuditLog({
+    tenantId,
+    performedBy: triggeredBy,
+    entityType: "APPOINTMENT_RECONCILIATION",
+    entityId: reconciliation.id,
+    action: "RECONCILE",
+    newValue: {
+      businessDate: dayStart,
+      cutoffTime,
+      noShowCount: reconciliation.noShowCount,
+      closedVisitCount: reconciliation.closedVisitCount,
+    },
+  });
+
+  return reconciliation;
+}
+
+// ============== SERVICE ==============
+
+export const appointmentReconciliationService = {
+  /**
+   * Reconciliation settings for a tenant (enabled, cutoff time)
+   */
+  async getSettings(tenantId: string): Promise<ReconciliationSettings> {
+    return loadSettings(tenantId);
+  },
+
+  /**
+   * Update reconciliation settings
+   */
+  async updateSettings(
+    tenantId: string,
+    input: ReconciliationSettingsInput,
+    performedBy: string
+  ): Promise<ServiceResult<ReconciliationSettings>> {
+    try {
+      const existing = await loadSettings(tenantId);
+
+      await prisma.tenantSetting.upsert({
+        where: { tenantId_key: { tenantId, key: RECONCILIATION_SETTING_KEY } },
+        create: {
+          tenantId,
+          key: RECONCILIATION_SETTING_KEY,
+          value: input,
+          createdBy: performedBy,
+          updatedBy: performedBy,
+        },
+        update: { value: input, updatedBy: performedBy },
+      });
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "TENANT_SETTING",
+        entityId: RECONCILIATION_SETTING_KEY,
+        action: "UPDATE",
+        oldValue: existing,
+        newValue: input,
+      });
+
+      return { success: true, data: input };
+    } catch (error) {
+      console.error("Update reconciliation settings error:", error);
+      return { success: false, error: "Failed to update settings", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Run reconciliation now for a date (default today), ignoring the cutoff
+   */
+  async run(
+    tenantId: string,
+    input: RunReconciliationInput,
+    performedBy: string
+  ): Promise<ServiceResult<AppointmentReconciliation>> {
+    try {
+      const settings = await loadSettings(tenantId);
+      const businessDate = input.date ? parseLocalDate(input.date) : new Date();
+
+      const reconciliation = await reconcileDate(tenantId, businessDate, settings.cutoffTime, performedBy);
+      return { success: true, data: reconciliation };
+    } catch (error) {
+      console.error("Run reconciliation error:", error);
+      return { success: false, error: "Failed to run reconciliation", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Scheduled entry point: reconcile today for every active tenant whose
+   * cutoff has passed and that has not been reconciled yet today.
+   * Returns the number of tenants reconciled.
+   */
+  async runDue(now: Date = new Date()): Promise<number> {
+    const tenants = await prisma.tenant.findMany({
+      where: { isActive: true },
+      select: { id: true },
+    });
+
+    const today = startOfDay(now);
+    const currentTime = toTimeString(now);
+    let count = 0;
+
+    for (const tenant of tenants) {
+      try {
+        const settings = await loadSettings(tenant.id);
+        // HH:mm strings compare correctly as text
+        if (!settings.enabled || currentTime < settings.cutoffTime) continue;
+
+        const existing = await prisma.appointmentReconciliation.findUnique({
+          where: { tenantId_businessDate: { tenantId: tenant.id, businessDate: today } },
+          select: { id: true },
+        });
+        if (existing) continue;
+
+        await reconcileDate(tenant.id, today, settings.cutoffTime, null);
+        count++;
+      } catch (error) {
+        console.error(`[Reconciliation] Failed for tenant ${tenant.id}:`, error);
+      }
+    }
+
+    return count;
+  },
+
+  /**
+   * List reconciliation runs, newest first
+   */
+  async list(
+    tenantId: string,
+    query: ReconciliationQueryInput
+  ): Promise<PaginatedResult<AppointmentReconciliation>> {
+    const where = { tenantId };
+
+    const [items, total] = await Promise.all([
+      prisma.appointmentReconciliation.findMany({
+        where,
+        orderBy: { businessDate: "desc" },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.appointmentReconciliation.count({ where }),
+    ]);
+
+    return {
+      items,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit),
+      },
+    };
+  },
+
+  /**
+   * Get a reconciliation run with its items
+   */
+  async getById(tenantId: string, id: string): Promise<ReconciliationWithItems | null> {
+    return prisma.appointmentReconciliation.findFirst({
+      where: { id, tenantId },
+      include: {
+        items: {
+          orderBy: [{ entityType: "asc" }, { scheduledDate: "asc" }, { scheduledTime: "asc" }],
+        },
+      },
+    });
+  },
+
+  /**
+   * Restore the previous status of selected items. An item is skipped when
+   * the appointment or visit has changed since the run.
+   */
+  async undo(
+    tenantId: string,
+    id: string,
+    input: UndoReconciliationInput,
+    performedBy: string
+  ): Promise<ServiceResult<UndoResult>> {
+    try {
+      const reconciliation = await prisma.appointmentReconciliation.findFirst({
+        where: { id, tenantId },
+      });
+
+      if (!reconciliation) {
+        return { success: false, error: "Reconciliation not found", errorCode: "NOT_FOUND" };
+      }
+
+      const items = await prisma.appointmentReconciliationItem.findMany({
+        where: { reconciliationId: id, id: { in: input.itemIds } },
+      });
+
+      const result: UndoResult = { restored: [], failed: [] };
+
+      for (const itemId of input.itemIds) {
+        const item = items.find((i) => i.id === itemId);
+        if (!item) {
+          result.failed.push({ itemId, reason: "Item not found" });
+          continue;
+        }
+        if (item.undoneAt) {
+          result.failed.push({ itemId, reason: "Already undone" });
+          continue;
+        }
+
+        const undoneAt = new Date();
+        const restored = await prisma.$transaction(async (tx) => {
+          // Guard on the reconciled status so later changes are never overwritten
+          const updated =
+            item.entityType === "APPOINTMENT"
+              ? await tx.appointment.updateMany({
+                  where: { id: item.entityId, tenantId, status: item.newStatus as AppointmentStatus },
+                  data: { status: item.previousStatus as AppointmentStatus, updatedBy: performedBy },
+                })
+              : await tx.visit.updateMany({
+                  where: { id: item.entityId, tenantId, status: item.newStatus as VisitStatus },
+                  data: { status: item.previousStatus as VisitStatus, endTime: null, updatedBy: performedBy },
+                });
+          if (updated.count === 0) return false;
+
+          await tx.appointmentReconciliationItem.update({
+            where: { id: item.id },
+            data: { undoneAt, undoneBy: performedBy },
+          });
+          return true;
+        });
+
+        if (!restored) {
+          const label = item.entityType === "APPOINTMENT" ? "Appointment" : "Visit";
+          result.failed.push({ itemId, reason: `${label} has changed since reconciliation` });
+          continue;
+        }
+
+        if (item.entityType === "VISIT") {
+          await syncOPDQueueSnapshot(item.entityId);
+        }
+        result.restored.push(itemId);
+      }
+
+      if (result.restored.length > 0) {
+        const [totalItems, undoneItems] = await Promise.all([
+          prisma.appointmentReconciliationItem.count({ where: { reconciliationId: id } }),
+          prisma.appointmentReconciliationItem.count({ where: { reconciliationId: id, undoneAt: { not: null } } }),
+        ]);
+
+        await prisma.appointmentReconciliation.update({
+          where: { id },
+          data: {
+            undoneCount: undoneItems,
+            status: undoneItems >= totalItems ? "UNDONE" : "PARTIALLY_UNDONE",
+          },
+        });
+
+        await createAuditLog({
+          tenantId,
+          performedBy,
+          entityType: "APPOINTMENT_RECONCILIATION",
+          entityId: id,
+          action: "UNDO",
+          newValue: { restoredItemIds: result.restored },
+        });
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Undo reconciliation error:", error);
+      return { success: false, error: "Failed to undo reconciliation", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+};
@@ -0,0 +1,543 @@
+/**
+ * HMS Appointment System - Recurring Series Service
+ *
+ * Books a course of appointments on a fixed cadence (e.g. every Tuesday at
+ * 10:00 for 8 weeks). Every date is checked against the doctor's availability
+ * and the patient's other bookings before anything is created; each occurrence
+ * is then a normal appointment linked by seriesId that can be edited on its
+ * own. Cancel and reschedule accept a scope: this occurrence, this and the
+ * following ones, or all open occurrences.
+ */
+
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, format } from "date-fns";
+import type { AppointmentStatus } from "@/app/generated/prisma/client";
+import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit";
+import { availabilityService } from "@/lib/services/availabilityService";
+import { appointmentBookingService } from "@/lib/services/appointmentBookingService";
+import {
+  CreateAppointmentSeriesInput,
+  CancelSeriesAppointmentsInput,
+  RescheduleSeriesAppointmentsInput,
+} from "@/lib/schemas/appointment-schema";
+
+// ============== TYPES ==============
+
+interface ServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface SeriesOccurrence {
+  index: number;
+  date: string; // YYYY-MM-DD
+  time: string;
+  available: boolean;
+  reason?: string;
+}
+
+interface SeriesBulkResult {
+  succeeded: string[];
+  failed: Array<{ appointmentId: string; reason: string }>;
+}
+
+type SeriesScope = CancelSeriesAppointmentsInput["scope"];
+
+const OPEN_STATUSES: AppointmentStatus[] = ["BOOKED", "CONFIRMED", "RESCHEDULED"];
+const RESCHEDULABLE_STATUSES: AppointmentStatus[] = ["BOOKED", "CONFIRMED"];
+
+// ============== HELPER FUNCTIONS ==============
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Expand the cadence into occurrence dates (YYYY-MM-DD).
+ * Monthly dates that fall past month end land on the last day of the month.
+ */
+function generateOccurrenceDates(
+  startDate: string,
+  frequency: CreateAppointmentSeriesInput["frequency"],
+  interval: number,
+  occurrences: number
+): string[] {
+  const [year, month, day] = startDate.split("-").map(Number);
+  const start = new Date(year, month - 1, day);
+
+  const dates: string[] = [];
+  for (let i = 0; i < occurrences; i++) {
+    const step = i * interval;
+    const date =
+      frequency === "DAILY" ? addDays(start, step) : frequency === "WEEKLY" ? addWeeks(start, step) : addMonths(start, step);
+    dates.push(format(date, "yyyy-MM-dd"));
+  }
+  return dates;
+}
+
+/**
+ * Check each date against the doctor's slots and the patient's existing
+ * bookings. Appointments in excludeIds are ignored (they are being moved).
+ */
+async function checkOccurrences(
+  tenantId: string,
+  params: { patientId: string; doctorId: string; time: string; dates: string[] },
+  excludeIds: string[] = []
+): Promise<SeriesOccurrence[]> {
+  const results: SeriesOccurrence[] = [];
+
+  for (const [i, date] of params.dates.entries()) {
+    const occurrence: SeriesOccurrence = { index: i + 1, date, time: params.time, available: true };
+
+    const slotValidation = await availabilityService.validateSlotBooking(
+      tenantId,
+      params.doctorId,
+      new Date(date),
+      params.time,
+      false,
+      excludeIds
+    );
+
+    if (!slotValidation.success || !slotValidation.data?.canBook) {
+      occurrence.available = false;
+      occurrence.reason = slotValidation.data?.reason || slotValidation.error || "Slot not available";
+      results.push(occurrence);
+      continue;
+    }
+
+    const existingBooking = await prisma.appointment.findFirst({
+      where: {
+        tenantId,
+        patientId: params.patientId,
+        appointmentDate: new Date(date),
+        status: { in: ["BOOKED", "CONFIRMED", "CHECKED_IN"] },
+        id: { notIn: excludeIds },
+      },
+      select: { id: true },
+    });
+
+    if (existingBooking) {
+      occurrence.available = false;
+      occurrence.reason = "Patient already has an appointment on this date";
+    }
+
+    results.push(occurrence);
+  }
+
+  return results;
+}
+
+/**
+ * Resolve the occurrences a scoped action applies to, in series order
+ */
+async function getScopedAppointments(
+  tenantId: string,
+  appointmentId: string,
+  scope: SeriesScope,
+  statuses: AppointmentStatus[]
+) {
+  const anchor = await prisma.appointment.findFirst({
+    where: { id: appointmentId, tenantId },
+  });
+
+  if (!anchor) {
+    return { anchor: null, appointments: [] };
+  }
+
+  if (scope === "THIS" || !anchor.seriesId) {
+    return { anchor, appointments: statuses.includes(anchor.status) ? [anchor] : [] };
+  }
+
+  const where: Record<string, unknown> = {
+    tenantId,
+    seriesId: anchor.seriesId,
+    status: { in: statuses },
+  };
+
+  if (scope === "FOLLOWING") {
+    where.seriesIndex = { gte: anchor.seriesIndex ?? 0 };
+  }
+
+  const appointments = await prisma.appointment.findMany({
+    where,
+    orderBy: [{ seriesIndex: "asc" }, { appointmentDate: "asc" }],
+  });
+
+  return { anchor, appointments };
+}
+
+// ============== SERVICE ==============
+
+export const appointmentSeriesService = {
+  /**
+   * Expand the cadence and report which dates can be booked
+   */
+  async preview(
+    tenantId: string,
+    input: CreateAppointmentSeriesInput
+  ): Promise<ServiceResult<SeriesOccurrence[]>> {
+    try {
+      const dates = generateOccurrenceDates(input.startDate, input.frequency, input.interval, input.occurrences);
+      const occurrences = await checkOccurrences(tenantId, {
+        patientId: input.patientId,
+        doctorId: input.doctorId,
+        time: input.appointmentTime,
+        dates,
+      });
+
+      return { success: true, data: occurrences };
+    } catch (error) {
+      console.error("Preview appointment series error:", error);
+      return { success: false, error: "Failed to check series dates", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Create the series and book every available occurrence.
+   * Unless skipConflicts is set, any unavailable date rejects the whole series
+   * and the occurrences are returned so the caller can show the conflicts.
+   */
+  async create(
+    tenantId: string,
+    input: CreateAppointmentSeriesInput,
+    performedBy: string
+  ): Promise<ServiceResult<{ seriesId: string; booked: number; skipped: SeriesOccurrence[]; occurrences: SeriesOccurrence[] }>> {
+    try {
+      const patient = await prisma.patient.findFirst({
+        where: { id: input.patientId, tenantId, status: "ACTIVE" },
+        select: { id: true },
+      });
+
+      if (!patient) {
+        return { success: false, error: "Patient not found", errorCode: "PATIENT_NOT_FOUND" };
+      }
+
+      const preview = await this.preview(tenantId, input);
+      if (!preview.success || !preview.data) {
+        return { success: false, error: preview.error, errorCode: preview.errorCode };
+      }
+
+      const occurrences = preview.data;
+      const conflicts = occurrences.filter((o) => !o.available);
+
+      if (conflicts.length === occurrences.length) {
+        return {
+          success: false,
+          error: "None of the series dates are available",
+          errorCode: "SERIES_CONFLICT",
+          data: { seriesId: "", booked: 0, skipped: conflicts, occurrences },
+        };
+      }
+
+      if (conflicts.length > 0 && !input.skipConflicts) {
+        return {
+          success: false,
+          error: `${conflicts.length} of ${occurrences.length} dates are unavailable`,
+          errorCode: "SERIES_CONFLICT",
+          data: { seriesId: "", booked: 0, skipped: conflicts, occurrences },
+        };
+      }
+
+      const series = await prisma.appointmentSeries.create({
+        data: {
+          tenantId,
+          patientId: input.patientId,
+          doctorId: input.doctorId,
+          departmentId: input.departmentId,
+          frequency: input.frequency,
+          interval: input.interval,
+          occurrences: input.occurrences,
+          startDate: new Date(input.startDate),
+          appointmentTime: input.appointmentTime,
+          slotEndTime: input.slotEndTime,
+          chiefComplaint: input.chiefComplaint,
+          notes: input.notes,
+          bookingSource: input.bookingSource,
+          createdBy: performedBy,
+          updatedBy: performedBy,
+        },
+      });
+
+      // Book in date order; a slot taken since the check is skipped, not fatal
+      const skipped = [...conflicts];
+      let booked = 0;
+
+      for (const occurrence of occurrences.filter((o) => o.available)) {
+        const result = await appointmentBookingService.book(
+          tenantId,
+          {
+            patientId: input.patientId,
+            departmentId: input.departmentId,
+            doctorId: input.doctorId,
+            appointmentDate: occurrence.date,
+            appointmentTime: occurrence.time,
+            slotEndTime: input.slotEndTime,
+            isWalkIn: false,
+            bookingSource: input.bookingSource,
+            overbook: false,
+            chiefComplaint: input.chiefComplaint,
+            notes: input.notes,
+          },
+          performedBy,
+          { seriesId: series.id, seriesIndex: occurrence.index, sendConfirmation: booked === 0 }
+        );
+
+        if (result.success) {
+          booked++;
+        } else {
+          occurrence.available = false;
+          occurrence.reason = result.error || "Slot not available";
+          skipped.push(occurrence);
+        }
+      }
+
+      if (booked === 0) {
+        await prisma.appointmentSeries.delete({ where: { id: series.id } });
+        return {
+          success: false,
+          error: "None of the series dates could be booked",
+          errorCode: "SERIES_CONFLICT",
+          data: { seriesId: "", booked: 0, skipped, occurrences },
+        };
+      }
+
+      skipped.sort((a, b) => a.index - b.index);
+      if (skipped.length > 0) {
+        await prisma.appointmentSeries.update({
+          where: { id: series.id },
+          data: { skippedDates: skipped.map((o) => o.date) },
+        });
+      }
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "APPOINTMENT_SERIES",
+        entityId: series.id,
+        action: "CREATE",
+        newValue: { ...series, booked, skippedDates: skipped.map((o) => o.date) },
+      });
+
+      return { success: true, data: { seriesId: series.id, booked, skipped, occurrences } };
+    } catch (error) {
+      console.error("Create appointment series error:", error);
+      return { success: false, error: "Failed to create appointment series", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Get a series with its occurrences
+   */
+  async getById(tenantId: string, seriesId: string) {
+    try {
+      const series = await prisma.appointmentSeries.findFirst({
+        where: { id: seriesId, tenantId },
+        include: {
+          patient: { select: { id: true, uhid: true, firstName: true, lastName: true, primaryMobile: true } },
+          doctor: { select: { id: true, fullName: true } },
+          department: { select: { id: true, name: true } },
+          appointments: {
+            select: {
+              id: true,
+              seriesIndex: true,
+              appointmentDate: true,
+              appointmentTime: true,
+              slotEndTime: true,
+              tokenNumber: true,
+              status: true,
+              cancelReason: true,
+            },
+            orderBy: [{ seriesIndex: "asc" }, { appointmentDate: "asc" }],
+          },
+        },
+      });
+
+      if (!series) {
+        return { success: false, error: "Series not found", errorCode: "NOT_FOUND" };
+      }
+
+      return { success: true, data: series };
+    } catch (error) {
+      console.error("Get appointment series error:", error);
+      return { success: false, error: "Failed to fetch appointment series", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Cancel this, this and following, or all open occurrences of a series.
+   * The series is marked cancelled once no open occurrence remains.
+   */
+  async cancel(
+    tenantId: string,
+    appointmentId: string,
+    input: CancelSeriesAppointmentsInput,
+    performedBy: string
+  ): Promise<ServiceResult<SeriesBulkResult>> {
+    try {
+      const { anchor, appointments } = await getScopedAppointments(tenantId, appointmentId, input.scope, OPEN_STATUSES);
+
+      if (!anchor) {
+        return { success: false, error: "Appointment not found", errorCode: "NOT_FOUND" };
+      }
+
+      if (appointments.length === 0) {
+        return { success: false, error: "No open appointments to cancel", errorCode: "NOT_FOUND" };
+      }
+
+      const result: SeriesBulkResult = { succeeded: [], failed: [] };
+
+      for (const appointment of appointments) {
+        const cancelled = await appointmentBookingService.cancel(
+          tenantId,
+          { appointmentId: appointment.id, cancelReason: input.cancelReason },
+          performedBy
+        );
+        if (cancelled.success) {
+          result.succeeded.push(appointment.id);
+        } else {
+          result.failed.push({ appointmentId: appointment.id, reason: cancelled.error || "Cancel failed" });
+        }
+      }
+
+      if (anchor.seriesId) {
+        const remaining = await prisma.appointment.count({
+          where: { tenantId, seriesId: anchor.seriesId, status: { in: OPEN_STATUSES } },
+        });
+
+        if (remaining === 0) {
+          await prisma.appointmentSeries.updateMany({
+            where: { id: anchor.seriesId, tenantId, status: "ACTIVE" },
+            data: { status: "CANCELLED", updatedBy: performedBy },
+          });
+        }
+
+        await createAuditLog({
+          tenantId,
+          performedBy,
+          entityType: "APPOINTMENT_SERIES",
+          entityId: anchor.seriesId,
+          action: "CANCEL",
+          newValue: { scope: input.scope, fromAppointmentId: appointmentId, cancelReason: input.cancelReason, ...result },
+        });
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("Cancel series appointments error:", error);
+      return { success: false, error: "Failed to cancel appointments", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Move this, this and following, or all occurrences. The selected occurrence
+   * moves to newDate/newTime and the others shift by the same number of days.
+   * All new dates are checked before any appointment is changed.
+   */
+  async reschedule(
+    tenantId: string,
+    appointmentId: string,
+    input: RescheduleSeriesAppointmentsInput,
+    performedBy: string
+  ): Promise<ServiceResult<SeriesBulkResult & { occurrences: SeriesOccurrence[] }>> {
+    try {
+      const { anchor, appointments } = await getScopedAppointments(
+        tenantId,
+        appointmentId,
+        input.scope,
+        RESCHEDULABLE_STATUSES
+      );
+
+      if (!anchor) {
+        return { success: false, error: "Appointment not found", errorCode: "NOT_FOUND" };
+      }
+
+      if (!anchor.doctorMasterId) {
+        return { success: false, error: "Doctor is required", errorCode: "DOCTOR_REQUIRED" };
+      }
+
+      if (appointments.length === 0) {
+        return { success: false, error: "No appointments can be rescheduled", errorCode: "NOT_FOUND" };
+      }
+
+      const dayShift = differenceInCalendarDays(new Date(input.newDate), anchor.appointmentDate);
+      const today = toDateString(new Date());
+      const moves = appointments.map((appointment) => ({
+        appointment,
+        newDate: toDateString(addDays(appointment.appointmentDate, dayShift)),
+      }));
+
+      if (moves.some((m) => m.newDate < today)) {
+        return { success: false, error: "Shifted dates cannot be in the past", errorCode: "VALIDATION_ERROR" };
+      }
+
+      const occurrences = await checkOccurrences(
+        tenantId,
+        {
+          patientId: anchor.patientId,
+          doctorId: anchor.doctorMasterId,
+          time: input.newTime,
+          dates: moves.map((m) => m.newDate),
+        },
+        appointments.map((a) => a.id)
+      );
+
+      const conflicts = occurrences.filter((o) => !o.available);
+      if (conflicts.length > 0) {
+        return {
+          success: false,
+          error: `${conflicts.length} of ${occurrences.length} new dates are unavailable`,
+          errorCode: "SERIES_CONFLICT",
+          data: { succeeded: [], failed: [], occurrences },
+        };
+      }
+
+      const result: SeriesBulkResult = { succeeded: [], failed: [] };
+
+      // Move the occurrence furthest in the shift direction first so each one
+      // lands on a slot its neighbour has already vacated
+      if (dayShift > 0) moves.reverse();
+
+      for (const move of moves) {
+        const rescheduled = await appointmentBookingService.reschedule(
+          tenantId,
+          {
+            appointmentId: move.appointment.id,
+            newDate: move.newDate,
+            newTime: input.newTime,
+            newSlotEndTime: input.newSlotEndTime,
+            reason: input.reason,
+          },
+          performedBy
+        );
+        if (rescheduled.success) {
+          result.succeeded.push(move.appointment.id);
+        } else {
+          result.failed.push({ appointmentId: move.appointment.id, reason: rescheduled.error || "Reschedule failed" });
+        }
+      }
+
+      if (anchor.seriesId && input.scope !== "THIS") {
+        await prisma.appointmentSeries.update({
+          where: { id: anchor.seriesId },
+          data: { appointmentTime: input.newTime, slotEndTime: input.newSlotEndTime, updatedBy: performedBy },
+        });
+
+        await createAuditLog({
+          tenantId,
+          performedBy,
+          entityType: "APPOINTMENT_SERIES",
+          entityId: anchor.seriesId,
+          action: "RESCHEDULE",
+          newValue: { scope: input.scope, fromAppointmentId: appointmentId, dayShift, newTime: input.newTime, ...result },
+        });
+      }
+
+      return { success: true, data: { ...result, occurrences } };
+    } catch (error) {
+      console.error("Reschedule series appointments error:", error);
+      return { success: false, error: "Failed to reschedule appointments", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+};
@@ -8,6 +8,7 @@ export interface AppointmentSlot {
   doctorId: string;
   isAvailable: boolean;
   appointmentId?: string; // if booked
+  overbookedCount: number; // appointments booked beyond capacity
 }
 
 export interface DoctorCalendarData {
@@ -17,6 +18,7 @@ export interface DoctorCalendarData {
   totalSlots: number;
   bookedSlots: number;
   availableSlots: number;
+  overbookedAppointments: number;
 }
 
 export interface AppointmentConflict {
@@ -137,11 +139,12 @@ export async function getDoctorCalendar(
     throw new Error("Doctor not found");
   }
 
-  // Fetch appointments for this doctor in date range
+  // Fetch appointments for this doctor in date range (legacy user-linked and
+  // doctor-master bookings)
   const appointments = await prisma.appointment.findMany({
     where: {
       tenantId,
-      doctorId,
+      OR: [{ doctorId }, { doctorMaster: { userId: doctorId } }],
       appointmentDate: {
         gte: startDate,
         lte: endDate,
@@ -154,6 +157,7 @@ export async function getDoctorCalendar(
       id: true,
       appointmentDate: true,
       appointmentTime: true,
+      isOverbooked: true,
     },
   });
 
@@ -165,12 +169,13 @@ export async function getDoctorCalendar(
     const dateStr = currentDate.toISOString().split("T")[0];
     const timeSlots = generateTimeSlots();
 
-    const bookedTimes = appointments
-      .filter(
-        (apt) =>
-          apt.appointmentDate.toISOString().split("T")[0] === dateStr &&
-          apt.appointmentTime
-      )
+    const dayAppointments = appointments.filter(
+      (apt) =>
+        apt.appointmentDate.toISOString().split("T")[0] === dateStr &&
+        apt.appointmentTime
+    );
+    const bookedTimes = dayAppointments
+      .filter((apt) => !apt.isOverbooked)
       .map((apt) => apt.appointmentTime);
 
     timeSlots.forEach((time) => {
@@ -187,6 +192,7 @@ export async function getDoctorCalendar(
                 apt.appointmentTime === time
             )?.id
           : undefined,
+        overbookedCount: dayAppointments.filter((apt) => apt.isOverbooked && apt.appointmentTime === time).length,
       });
     });
 
@@ -200,6 +206,7 @@ export async function getDoctorCalendar(
     totalSlots: slots.length,
     bookedSlots: slots.filter((s) => !s.isAvailable).length,
     availableSlots: slots.filter((s) => s.isAvailable).length,
+    overbookedAppointments: slots.reduce((sum, s) => sum + s.overbookedCount, 0),
   };
 }
 
@@ -0,0 +1,458 @@
+/**
+ * HMS Appointment System - Waitlist Service
+ *
+ * Per-doctor, per-date waitlist for fully booked sessions. When a cancel or
+ * reschedule frees a slot, the first matching entry (priority, then time
+ * added) is offered the slot and the slot is held for it until the offer is
+ * accepted, declined or lapses. Accepting an offer books the appointment via
+ * appointmentBookingService.bookFromWaitlist.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit";
+import { sendNotification } from "@/lib/notifications/notifier";
+import { availabilityService } from "@/lib/services/availabilityService";
+import {
+  CreateWaitlistEntryInput,
+  WaitlistQueryInput,
+  CancelWaitlistEntryInput,
+} from "@/lib/schemas/appointment-schema";
+
+// ============== TYPES ==============
+
+interface ServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface FreedSlot {
+  doctorId: string;
+  date: Date;
+  time: string;
+  slotEndTime: string | null;
+}
+
+const WAITLIST_INCLUDE = {
+  patient: { select: { id: true, uhid: true, firstName: true, lastName: true, primaryMobile: true } },
+  doctor: { select: { id: true, fullName: true } },
+  department: { select: { id: true, name: true } },
+} as const;
+
+/** How long a freed slot is held for the offered patient */
+const OFFER_HOLD_MINUTES = 30;
+
+// ============== HELPER FUNCTIONS ==============
+
+function dayRange(date: Date): { startOfDay: Date; endOfDay: Date } {
+  const startOfDay = new Date(date);
+  startOfDay.setHours(0, 0, 0, 0);
+  const endOfDay = new Date(date);
+  endOfDay.setHours(23, 59, 59, 999);
+  return { startOfDay, endOfDay };
+}
+
+function slotStart(date: Date, time: string): Date {
+  const start = new Date(date);
+  const [hours, minutes] = time.split(":").map(Number);
+  start.setHours(hours, minutes, 0, 0);
+  return start;
+}
+
+function fitsPreferredTime(
+  entry: { preferredTimeFrom: string | null; preferredTimeTo: string | null },
+  time: string
+): boolean {
+  if (entry.preferredTimeFrom && time < entry.preferredTimeFrom) return false;
+  if (entry.preferredTimeTo && time >= entry.preferredTimeTo) return false;
+  return true;
+}
+
+/**
+ * Let the patient know a slot is being held for them.
+ * Delivery failures are logged and never block the offer.
+ */
+async function notifyOffer(tenantId: string, waitlistId: string): Promise<void> {
+  try {
+    const entry = await prisma.appointmentWaitlist.findFirst({
+      where: { id: waitlistId, tenantId },
+      select: {
+        preferredDate: true,
+        offeredTime: true,
+        offerExpiresAt: true,
+        patient: { select: { firstName: true, primaryMobile: true } },
+        doctor: { select: { fullName: true } },
+        tenant: { select: { name: true } },
+      },
+    });
+
+    if (!entry?.patient.primaryMobile || !entry.offerExpiresAt) return;
+
+    const expires = entry.offerExpiresAt.toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit" });
+    await sendNotification({
+      tenantId,
+      channel: "SMS",
+      to: entry.patient.primaryMobile,
+      body: `Dear ${entry.patient.firstName}, a slot with Dr. ${entry.doctor.fullName} at ${entry.tenant.name} is available on ${entry.preferredDate.toLocaleDateString("en-IN")} at ${entry.offeredTime}. Please call the hospital before ${expires} to book it.`,
+    });
+  } catch (error) {
+    console.error("[Waitlist] Failed to notify offer:", error);
+  }
+}
+
+// ============== SERVICE ==============
+
+export const appointmentWaitlistService = {
+  /**
+   * List waitlist entries (open entries unless a status is given)
+   */
+  async list(tenantId: string, query: WaitlistQueryInput) {
+    await this.processExpiredOffers(tenantId);
+
+    const where: Record<string, unknown> = {
+      tenantId,
+      status: query.status || { in: ["WAITING", "OFFERED"] },
+    };
+    if (query.doctorId) where.doctorId = query.doctorId;
+    if (query.departmentId) where.departmentId = query.departmentId;
+    if (query.date) {
+      const { startOfDay, endOfDay } = dayRange(new Date(query.date));
+      where.preferredDate = { gte: startOfDay, lte: endOfDay };
+    }
+
+    return prisma.appointmentWaitlist.findMany({
+      where,
+      include: WAITLIST_INCLUDE,
+      orderBy: [{ preferredDate: "asc" }, { priority: "asc" }, { createdAt: "asc" }],
+    });
+  },
+
+  /**
+   * Add a patient to a doctor's waitlist for a date
+   */
+  async add(
+    tenantId: string,
+    input: CreateWaitlistEntryInput,
+    performedBy: string
+  ): Promise<ServiceResult<{ id: string; position: number }>> {
+    try {
+      const [patient, doctor] = await Promise.all([
+        prisma.patient.findFirst({
+          where: { id: input.patientId, tenantId, status: "ACTIVE" },
+          select: { id: true },
+        }),
+        prisma.doctor.findFirst({
+          where: { id: input.doctorId, tenantId, isDeleted: false },
+          select: { id: true },
+        }),
+      ]);
+
+      if (!patient) {
+        return { success: false, error: "Patient not found", errorCode: "PATIENT_NOT_FOUND" };
+      }
+      if (!doctor) {
+        return { success: false, error: "Doctor not found", errorCode: "DOCTOR_NOT_FOUND" };
+      }
+
+      const preferredDate = new Date(input.preferredDate);
+      const { startOfDay, endOfDay } = dayRange(preferredDate);
+
+      const existing = await prisma.appointmentWaitlist.findFirst({
+        where: {
+          tenantId,
+          patientId: input.patientId,
+          doctorId: input.doctorId,
+          preferredDate: { gte: startOfDay, lte: endOfDay },
+          status: { in: ["WAITING", "OFFERED"] },
+        },
+      });
+
+      if (existing) {
+        return {
+          success: false,
+          error: "Patient is already on this doctor's waitlist for the date",
+          errorCode: "DUPLICATE_ENTRY",
+        };
+      }
+
+      const entry = await prisma.appointmentWaitlist.create({
+        data: {
+          tenantId,
+          patientId: input.patientId,
+          doctorId: input.doctorId,
+          departmentId: input.departmentId,
+          preferredDate,
+          preferredTimeFrom: input.preferredTimeFrom,
+          preferredTimeTo: input.preferredTimeTo,
+          priority: input.priority,
+          notes: input.notes,
+          createdBy: performedBy,
+          updatedBy: performedBy,
+        },
+      });
+
+      // Position among open entries for the same doctor and date
+      const ahead = await prisma.appointmentWaitlist.count({
+        where: {
+          tenantId,
+          doctorId: input.doctorId,
+          preferredDate: { gte: startOfDay, lte: endOfDay },
+          status: "WAITING",
+          OR: [
+            { priority: { lt: entry.priority } },
+            { priority: entry.priority, createdAt: { lt: entry.createdAt } },
+          ],
+        },
+      });
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "APPOINTMENT_WAITLIST",
+        entityId: entry.id,
+        action: "CREATE",
+        newValue: entry,
+      });
+
+      return { success: true, data: { id: entry.id, position: ahead + 1 } };
+    } catch (error) {
+      console.error("Add waitlist entry error:", error);
+      return { success: false, error: "Failed to add to waitlist", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Remove an entry from the waitlist; a held slot passes to the next patient
+   */
+  async cancel(
+    tenantId: string,
+    waitlistId: string,
+    input: CancelWaitlistEntryInput,
+    performedBy: string
+  ): Promise<ServiceResult<void>> {
+    try {
+      const entry = await prisma.appointmentWaitlist.findFirst({
+        where: { id: waitlistId, tenantId, status: { in: ["WAITING", "OFFERED"] } },
+      });
+
+      if (!entry) {
+        return { success: false, error: "Waitlist entry not found or already closed", errorCode: "NOT_FOUND" };
+      }
+
+      const updated = await prisma.appointmentWaitlist.updateMany({
+        where: { id: waitlistId, status: entry.status },
+        data: { status: "CANCELLED", cancelReason: input.reason, updatedBy: performedBy },
+      });
+      if (updated.count === 0) {
+        return { success: false, error: "Waitlist entry was updated by someone else", errorCode: "CONFLICT" };
+      }
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "APPOINTMENT_WAITLIST",
+        entityId: waitlistId,
+        action: "CANCEL",
+        oldValue: { status: entry.status },
+        newValue: { status: "CANCELLED", reason: input.reason },
+      });
+
+      if (entry.status === "OFFERED" && entry.offeredTime) {
+        await this.offerFreedSlot(tenantId, {
+          doctorId: entry.doctorId,
+          date: entry.preferredDate,
+          time: entry.offeredTime,
+          slotEndTime: entry.offeredSlotEndTime,
+        });
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error("Cancel waitlist entry error:", error);
+      return { success: false, error: "Failed to remove from waitlist", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Patient declined the offered slot: they stay on the waitlist and the slot
+   * is offered to the next patient
+   */
+  async decline(
+    tenantId: string,
+    waitlistId: string,
+    performedBy: string
+  ): Promise<ServiceResult<void>> {
+    try {
+      const entry = await prisma.appointmentWaitlist.findFirst({
+        where: { id: waitlistId, tenantId, status: "OFFERED" },
+      });
+
+      if (!entry || !entry.offeredTime) {
+        return { success: false, error: "No open offer for this entry", errorCode: "NOT_FOUND" };
+      }
+
+      const updated = await prisma.appointmentWaitlist.updateMany({
+        where: { id: waitlistId, status: "OFFERED" },
+        data: {
+          status: "WAITING",
+          offerExpiresAt: null,
+          declinedCount: { increment: 1 },
+          updatedBy: performedBy,
+        },
+      });
+      if (updated.count === 0) {
+        return { success: false, error: "Offer is no longer open", errorCode: "CONFLICT" };
+      }
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "APPOINTMENT_WAITLIST",
+        entityId: waitlistId,
+        action: "DECLINE_OFFER",
+        oldValue: { status: "OFFERED", offeredTime: entry.offeredTime },
+        newValue: { status: "WAITING" },
+      });
+
+      await this.offerFreedSlot(
+        tenantId,
+        {
+          doctorId: entry.doctorId,
+          date: entry.preferredDate,
+          time: entry.offeredTime,
+          slotEndTime: entry.offeredSlotEndTime,
+        },
+        [waitlistId]
+      );
+
+      return { success: true };
+    } catch (error) {
+      console.error("Decline waitlist offer error:", error);
+      return { success: false, error: "Failed to decline offer", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Offer a freed slot to the first matching waitlisted patient.
+   * Returns the offered entry id, or null when nobody is waiting or the slot
+   * is not actually free. Never throws: callers are cancel/reschedule flows.
+   */
+  async offerFreedSlot(
+    tenantId: string,
+    slot: FreedSlot,
+    excludeIds: string[] = []
+  ): Promise<string | null> {
+    try {
+      const start = slotStart(slot.date, slot.time);
+      const now = new Date();
+      if (start <= now) return null;
+
+      const validation = await availabilityService.validateSlotBooking(
+        tenantId,
+        slot.doctorId,
+        slot.date,
+        slot.time
+      );
+      if (!validation.success || !validation.data?.canBook) return null;
+
+      const { startOfDay, endOfDay } = dayRange(slot.date);
+      const candidates = await prisma.appointmentWaitlist.findMany({
+        where: {
+          tenantId,
+          doctorId: slot.doctorId,
+          preferredDate: { gte: startOfDay, lte: endOfDay },
+          status: "WAITING",
+          id: { notIn: excludeIds },
+        },
+        orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+      });
+
+      const holdUntil = new Date(Math.min(now.getTime() + OFFER_HOLD_MINUTES * 60 * 1000, start.getTime()));
+
+      for (const candidate of candidates.filter((c) => fitsPreferredTime(c, slot.time))) {
+        // Guard against a concurrent offer to the same entry
+        const updated = await prisma.appointmentWaitlist.updateMany({
+          where: { id: candidate.id, status: "WAITING" },
+          data: {
+            status: "OFFERED",
+            offeredTime: slot.time,
+            offeredSlotEndTime: slot.slotEndTime,
+            offeredAt: now,
+            offerExpiresAt: holdUntil,
+          },
+        });
+        if (updated.count === 0) continue;
+
+        await createAuditLog({
+          tenantId,
+          performedBy: null,
+          entityType: "APPOINTMENT_WAITLIST",
+          entityId: candidate.id,
+          action: "OFFER",
+          newValue: { offeredTime: slot.time, offerExpiresAt: holdUntil },
+        });
+
+        await notifyOffer(tenantId, candidate.id);
+        return candidate.id;
+      }
+
+      return null;
+    } catch (error) {
+      console.error("[Waitlist] Failed to offer freed slot:", error);
+      return null;
+    }
+  },
+
+  /**
+   * Return lapsed offers to the waitlist (passing the slot on) and expire
+   * entries whose date has passed. Runs from the reporting worker and before
+   * listing.
+   */
+  async processExpiredOffers(tenantId?: string): Promise<{ lapsed: number; expired: number }> {
+    const now = new Date();
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+
+    const expired = await prisma.appointmentWaitlist.updateMany({
+      where: {
+        ...(tenantId ? { tenantId } : {}),
+        status: { in: ["WAITING", "OFFERED"] },
+        preferredDate: { lt: today },
+      },
+      data: { status: "EXPIRED" },
+    });
+
+    const lapsedOffers = await prisma.appointmentWaitlist.findMany({
+      where: {
+        ...(tenantId ? { tenantId } : {}),
+        status: "OFFERED",
+        offerExpiresAt: { lte: now },
+      },
+      orderBy: { offerExpiresAt: "asc" },
+    });
+
+    let lapsed = 0;
+    for (const entry of lapsedOffers) {
+      const updated = await prisma.appointmentWaitlist.updateMany({
+        where: { id: entry.id, status: "OFFERED" },
+        data: { status: "WAITING", offerExpiresAt: null, declinedCount: { increment: 1 } },
+      });
+      if (updated.count === 0 || !entry.offeredTime) continue;
+      lapsed++;
+
+      await this.offerFreedSlot(
+        entry.tenantId,
+        {
+          doctorId: entry.doctorId,
+          date: entry.preferredDate,
+          time: entry.offeredTime,
+          slotEndTime: entry.offeredSlotEndTime,
+        },
+        [entry.id]
+      );
+    }
+
+    return { lapsed, expired: expired.count };
+  },
+};
@@ -2,7 +2,8 @@
  * HMS Appointment System - Doctor Availability Service
  * 
  * Business logic for managing doctor availability schedules.
- * Includes CRUD, overlap validation, slot generation, and capacity checks.
+ * Includes CRUD, overlap validation, slot generation (with holidays and
+ * schedule exceptions applied), and capacity checks.
  */
 
 import { prisma } from "@/lib/prisma";
@@ -17,7 +18,7 @@ import {
   DoctorDaySlots,
   CopyAvailabilityInput,
 } from "@/lib/schemas/availability-schema";
-import { DayOfWeek, AvailabilityStatus } from "@/app/generated/prisma/client";
+import { DayOfWeek, AvailabilityStatus, ScheduleExceptionType } from "@/app/generated/prisma/client";
 
 // ============== TYPES ==============
 
@@ -61,6 +62,34 @@ interface AvailabilityWithRelations {
   };
 }
 
+/**
+ * A bookable session window: a weekly availability or a one-off extra session
+ */
+interface SessionWindow {
+  departmentId: string;
+  department: { id: string; code: string; name: string };
+  startTime: string;
+  endTime: string;
+  slotDurationMinutes: number;
+  maxPatientsPerSlot: number;
+  maxPatientsPerDay: number | null;
+  allowWalkIn: boolean;
+}
+
+interface DayOverrides {
+  holiday: { name: string } | null;
+  unavailableReason: string | null; // Whole-day leave/conference/block
+  blockedRanges: Array<{ startTime: string; endTime: string; reason: string }>;
+  extraSessions: SessionWindow[];
+}
+
+const EXCEPTION_LABELS: Record<ScheduleExceptionType, string> = {
+  LEAVE: "on leave",
+  CONFERENCE: "at a conference",
+  BLOCK: "unavailable",
+  EXTRA_SESSION: "in an extra session",
+};
+
 // ============== HELPER FUNCTIONS ==============
 
 /**
@@ -112,6 +141,89 @@ function timeRangesOverlap(
   return s1 < e2 && s2 < e1;
 }
 
+/**
+ * Holidays and doctor schedule exceptions that apply on a date
+ */
+async function getDayOverrides(
+  tenantId: string,
+  doctorId: string,
+  date: Date
+): Promise<DayOverrides> {
+  const startOfDay = new Date(date);
+  startOfDay.setHours(0, 0, 0, 0);
+  const endOfDay = new Date(date);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  const [holiday, exceptions] = await Promise.all([
+    prisma.holiday.findFirst({
+      where: { tenantId, isActive: true, date: { gte: startOfDay, lte: endOfDay } },
+      select: { name: true },
+    }),
+    prisma.doctorScheduleException.findMany({
+      where: {
+        tenantId,
+        doctorId,
+        status: "ACTIVE",
+        startDate: { lte: endOfDay },
+        endDate: { gte: startOfDay },
+      },
+      include: {
+        department: { select: { id: true, code: true, name: true } },
+      },
+      orderBy: { startTime: "asc" },
+    }),
+  ]);
+
+  const describe = (type: ScheduleExceptionType, reason: string | null) =>
+    `Doctor is ${EXCEPTION_LABELS[type]}${reason ? ` (${reason})` : ""}`;
+
+  const blocking = exceptions.filter((e) => e.type !== "EXTRA_SESSION");
+  const fullDay = blocking.find((e) => !e.startTime || !e.endTime);
+
+  return {
+    holiday,
+    unavailableReason: fullDay ? describe(fullDay.type, fullDay.reason) : null,
+    blockedRanges: blocking
+      .filter((e) => e.startTime && e.endTime)
+      .map((e) => ({ startTime: e.startTime!, endTime: e.endTime!, reason: describe(e.type, e.reason) })),
+    extraSessions: exceptions
+      .filter((e) => e.type === "EXTRA_SESSION" && e.department && e.startTime && e.endTime)
+      .map((e) => ({
+        departmentId: e.department!.id,
+        department: e.department!,
+        startTime: e.startTime!,
+        endTime: e.endTime!,
+        slotDurationMinutes: e.slotDurationMinutes ?? 15,
+        maxPatientsPerSlot: e.maxPatientsPerSlot ?? 1,
+        maxPatientsPerDay: null,
+        allowWalkIn: true,
+      })),
+  };
+}
+
+/**
+ * Slot times held for patients with an open waitlist offer; they count
+ * against capacity until the offer is accepted, declined or expires.
+ */
+async function getHeldOfferTimes(
+  tenantId: string,
+  doctorId: string,
+  startOfDay: Date,
+  endOfDay: Date
+): Promise<string[]> {
+  const offers = await prisma.appointmentWaitlist.findMany({
+    where: {
+      tenantId,
+      doctorId,
+      preferredDate: { gte: startOfDay, lte: endOfDay },
+      status: "OFFERED",
+      offerExpiresAt: { gt: new Date() },
+    },
+    select: { offeredTime: true },
+  });
+  return offers.map((o) => o.offeredTime).filter((t): t is string => !!t);
+}
+
 // ============== SERVICE ==============
 
 export const availabilityService = {
@@ -507,7 +619,18 @@ export const availabilityService = {
         return { success: false, error: "Doctor not found or not available", errorCode: "DOCTOR_NOT_AVAILABLE" };
       }
 
-      // 2. Get availability for this day
+      // 2. Holidays and leave override the weekly schedule
+      const overrides = await getDayOverrides(tenantId, query.doctorId, date);
+
+      if (overrides.holiday) {
+        return { success: false, error: `Hospital holiday: ${overrides.holiday.name}`, errorCode: "HOLIDAY" };
+      }
+
+      if (overrides.unavailableReason) {
+        return { success: false, error: overrides.unavailableReason, errorCode: "DOCTOR_ON_LEAVE" };
+      }
+
+      // 3. Get availability for this day
       const availabilityWhere: {
         tenantId: string;
         doctorId: string;
@@ -527,7 +650,7 @@ export const availabilityService = {
         availabilityWhere.departmentId = query.departmentId;
       }
 
-      const availabilities = await prisma.doctorAvailability.findMany({
+      const weeklyAvailabilities = await prisma.doctorAvailability.findMany({
         where: {
           ...availabilityWhere,
           OR: [
@@ -541,6 +664,13 @@ export const availabilityService = {
         orderBy: { startTime: "asc" },
       });
 
+      const availabilities: SessionWindow[] = [
+        ...weeklyAvailabilities,
+        ...overrides.extraSessions.filter(
+          (session) => !query.departmentId || session.departmentId === query.departmentId
+        ),
+      ].sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
+
       if (availabilities.length === 0) {
         return {
           success: false,
@@ -554,7 +684,7 @@ export const availabilityService = {
       const departmentId = primaryAvailability.departmentId;
       const departmentName = primaryAvailability.department.name;
 
-      // 3. Get existing appointments for this date
+      // 4. Get existing appointments for this date
       const startOfDay = new Date(date);
       startOfDay.setHours(0, 0, 0, 0);
       const endOfDay = new Date(date);
@@ -578,16 +708,18 @@ export const availabilityService = {
         },
       });
 
-      // Count appointments per time slot
+      const heldTimes = await getHeldOfferTimes(tenantId, query.doctorId, startOfDay, endOfDay);
+
+      // Count appointments (and held waitlist offers) per time slot
       const bookingCounts = new Map<string, number>();
-      existingAppointments.forEach((apt) => {
-        if (apt.appointmentTime) {
-          const count = bookingCounts.get(apt.appointmentTime) || 0;
-          bookingCounts.set(apt.appointmentTime, count + 1);
+      [...existingAppointments.map((apt) => apt.appointmentTime), ...heldTimes].forEach((time) => {
+        if (time) {
+          const count = bookingCounts.get(time) || 0;
+          bookingCounts.set(time, count + 1);
         }
       });
 
-      // 4. Generate slots
+      // 5. Generate slots, skipping partial-day blocks
       const slots: TimeSlot[] = [];
       let totalCapacity = 0;
       let totalBooked = 0;
@@ -609,6 +741,11 @@ export const availabilityService = {
         for (let time = startMinutes; time < endMinutes; time += duration) {
           const timeStr = minutesToTime(time);
           const endTimeStr = minutesToTime(time + duration);
+
+          if (overrides.blockedRanges.some((r) => timeRangesOverlap(timeStr, endTimeStr, r.startTime, r.endTime))) {
+            continue;
+          }
+
           const bookedCount = bookingCounts.get(timeStr) || 0;
           const availableCount = availability.maxPatientsPerSlot - bookedCount;
 
@@ -627,7 +764,7 @@ export const availabilityService = {
         }
       }
 
-      const dailyBookedCount = existingAppointments.length;
+      const dailyBookedCount = existingAppointments.length + heldTimes.length;
       const isDayFull = maxPatientsPerDay ? dailyBookedCount >= maxPatientsPerDay : slots.every((s) => !s.isAvailable);
 
       return {
@@ -774,84 +911,118 @@ export const availabilityService = {
   },
 
   /**
-   * Validate if a slot can be booked
+   * Validate if a slot can be booked.
+   * excludeAppointmentIds are left out of capacity counts (appointments being moved).
    */
   async validateSlotBooking(
     tenantId: string,
     doctorId: string,
     date: Date,
     time: string,
-    isWalkIn: boolean = false
-  ): Promise<ServiceResult<{ canBook: boolean; reason?: string }>> {
+    isWalkIn: boolean = false,
+    excludeAppointmentIds: string[] = []
+  ): Promise<ServiceResult<{ canBook: boolean; reason?: string; capacityExceeded?: boolean }>> {
     try {
       const dayOfWeek = getDayOfWeekFromDate(date);
+      const timeMinutes = timeToMinutes(time);
 
-      // 1. Get availability
-      const availability = await prisma.doctorAvailability.findFirst({
-        where: {
-          tenantId,
-          doctorId,
-          dayOfWeek,
-          status: "ACTIVE",
-          effectiveFrom: { lte: date },
-          OR: [
-            { effectiveTo: null },
-            { effectiveTo: { gte: date } },
-          ],
-        },
-        include: {
-          doctor: { select: { status: true, isSchedulable: true } },
-        },
-      });
+      // 1. Holidays and schedule exceptions
+      const overrides = await getDayOverrides(tenantId, doctorId, date);
 
-      if (!availability) {
+      if (overrides.holiday) {
+        return { success: true, data: { canBook: false, reason: `Hospital holiday: ${overrides.holiday.name}` } };
+      }
+
+      if (overrides.unavailableReason) {
+        return { success: true, data: { canBook: false, reason: overrides.unavailableReason } };
+      }
+
+      const block = overrides.blockedRanges.find(
+        (r) => timeMinutes >= timeToMinutes(r.startTime) && timeMinutes < timeToMinutes(r.endTime)
+      );
+      if (block) {
+        return { success: true, data: { canBook: false, reason: block.reason } };
+      }
+
+      // 2. Get availability (weekly schedule plus extra sessions)
+      const [doctor, weeklyAvailabilities] = await Promise.all([
+        prisma.doctor.findFirst({
+          where: { id: doctorId, tenantId },
+          select: { status: true, isSchedulable: true },
+        }),
+        prisma.doctorAvailability.findMany({
+          where: {
+            tenantId,
+            doctorId,
+            dayOfWeek,
+            status: "ACTIVE",
+            effectiveFrom: { lte: date },
+            OR: [
+              { effectiveTo: null },
+              { effectiveTo: { gte: date } },
+            ],
+          },
+          include: {
+            department: { select: { id: true, code: true, name: true } },
+          },
+        }),
+      ]);
+
+      const windows: SessionWindow[] = [...weeklyAvailabilities, ...overrides.extraSessions];
+
+      if (!doctor || windows.length === 0) {
         return { success: true, data: { canBook: false, reason: "No availability for this day" } };
       }
 
-      // 2. Check doctor status
-      if (availability.doctor.status !== "ACTIVE") {
+      // 3. Check doctor status
+      if (doctor.status !== "ACTIVE") {
         return { success: true, data: { canBook: false, reason: "Doctor is not active" } };
       }
 
-      if (!availability.doctor.isSchedulable) {
+      if (!doctor.isSchedulable) {
         return { success: true, data: { canBook: false, reason: "Doctor is not schedulable" } };
       }
 
-      // 3. Check if time is within availability window
-      const timeMinutes = timeToMinutes(time);
-      const startMinutes = timeToMinutes(availability.startTime);
-      const endMinutes = timeToMinutes(availability.endTime);
+      // 4. Check if time is within an availability window
+      const availability = windows.find(
+        (w) => timeMinutes >= timeToMinutes(w.startTime) && timeMinutes < timeToMinutes(w.endTime)
+      );
 
-      if (timeMinutes < startMinutes || timeMinutes >= endMinutes) {
+      if (!availability) {
         return { success: true, data: { canBook: false, reason: "Time is outside availability window" } };
       }
 
-      // 4. Check walk-in permission
+      // 5. Check walk-in permission
       if (isWalkIn && !availability.allowWalkIn) {
         return { success: true, data: { canBook: false, reason: "Walk-ins not allowed for this doctor" } };
       }
 
-      // 5. Check slot capacity
+      // 6. Check slot capacity
       const startOfDay = new Date(date);
       startOfDay.setHours(0, 0, 0, 0);
       const endOfDay = new Date(date);
       endOfDay.setHours(23, 59, 59, 999);
 
-      const slotBookings = await prisma.appointment.count({
-        where: {
-          tenantId,
-          doctorMasterId: doctorId,
-          appointmentDate: { gte: startOfDay, lte: endOfDay },
-          appointmentTime: time,
-          status: { in: ["BOOKED", "CONFIRMED", "CHECKED_IN"] },
-        },
-      });
+      const [slotAppointments, heldTimes] = await Promise.all([
+        prisma.appointment.count({
+          where: {
+            tenantId,
+            doctorMasterId: doctorId,
+            appointmentDate: { gte: startOfDay, lte: endOfDay },
+            appointmentTime: time,
+            status: { in: ["BOOKED", "CONFIRMED", "CHECKED_IN"] },
+            id: { notIn: excludeAppointmentIds },
+          },
+        }),
+        getHeldOfferTimes(tenantId, doctorId, startOfDay, endOfDay),
+      ]);
+      const slotBookings = slotAppointments + heldTimes.filter((t) => t === time).length;
 
       if (slotBookings >= availability.maxPatientsPerSlot) {
-        return { success: true, data: { canBook: false, reason: "Slot is fully booked" } };
+        return { success: true, data: { canBook: false, reason: "Slot is fully booked", capacityExceeded: true } };
       }
 
-      // 6. Check daily capacity
+      // 7. Check daily capacity
       if (availability.maxPatientsPerDay) {
         const dailyBookings = await prisma.appointment.count({
           where: {
@@ -859,11 +1030,12 @@ export const availabilityService = {
             doctorMasterId: doctorId,
             appointmentDate: { gte: startOfDay, lte: endOfDay },
             status: { in: ["BOOKED", "CONFIRMED", "CHECKED_IN"] },
+            id: { notIn: excludeAppointmentIds },
           },
         });
 
-        if (dailyBookings >= availability.maxPatientsPerDay) {
-          return { success: true, data: { canBook: false, reason: "Doctor's daily limit reached" } };
+        if (dailyBookings + heldTimes.length >= availability.maxPatientsPerDay) {
+          return { success: true, data: { canBook: false, reason: "Doctor's daily limit reached", capacityExceeded: true } };
         }
       }
 
@@ -0,0 +1,568 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import type { Prisma, PaymentMethod, CashierShiftStatus } from "@/app/generated/prisma/client";
+import { Prisma as PrismaNamespace } from "@/app/generated/prisma/client";
+import { nextBillingNumber } from "./invoice.service";
+import { getTenantLetterhead, type LabReportLetterhead } from "@/lib/services/lab/lab-report.service";
+import {
+  CASH_DENOMINATIONS,
+  type OpenShiftInput,
+  type CloseShiftInput,
+  type ApproveShiftInput,
+  type ShiftQueryInput,
+} from "@/lib/schemas/billing-schema";
+
+const Decimal = PrismaNamespace.Decimal;
+type DecimalType = InstanceType<typeof Decimal>;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface ShiftMethodTotal {
+  paymentMethod: PaymentMethod;
+  registrations: string;
+  pharmacySales: string;
+  payments: string;
+  refunds: string;
+  collected: string;
+  expected: string;
+  counted: string | null;
+  variance: string | null;
+}
+
+export interface ShiftSummary {
+  id: string;
+  shiftNumber: string;
+  cashierId: string;
+  cashierName: string;
+  counterNumber: string | null;
+  status: CashierShiftStatus;
+  openingFloat: string;
+  openedAt: string;
+  closedAt: string | null;
+  countedCash: string | null;
+  totalCollected: string;
+  totalVariance: string | null;
+  approvedAt: string | null;
+  approvedByName: string | null;
+  version: number;
+}
+
+export interface ShiftDetail extends ShiftSummary {
+  openingNotes: string | null;
+  closingNotes: string | null;
+  approvalNotes: string | null;
+  denominations: Record<string, number> | null;
+  methods: ShiftMethodTotal[];
+  counts: { registrations: number; pharmacySales: number; payments: number; refunds: number };
+}
+
+export interface DayEndReport {
+  date: string;
+  shifts: ShiftDetail[];
+  methods: Array<{ paymentMethod: PaymentMethod; collected: string; counted: string | null; variance: string | null }>;
+  totalCollected: string;
+  totalVariance: string;
+  pendingShifts: number;
+  letterhead: LabReportLetterhead;
+}
+
+interface ShiftCollections {
+  byMethod: Map<PaymentMethod, { registrations: DecimalType; pharmacySales: DecimalType; payments: DecimalType; refunds: DecimalType }>;
+  counts: { registrations: number; pharmacySales: number; payments: number; refunds: number };
+}
+
+type ShiftRecord = Prisma.CashierShiftGetPayload<{ include: { tallies: true } }>;
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * The cashier's currently open shift, if any.
+ * Collection points call this inside their own transaction so the
+ * registration / sale / payment is stamped with the shift it was taken in.
+ */
+export async function getOpenShiftId(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  userId: string
+): Promise<string | null> {
+  const shift = await tx.cashierShift.findFirst({
+    where: { tenantId, cashierId: userId, status: "OPEN" },
+    select: { id: true },
+  });
+  return shift?.id ?? null;
+}
+
+function dayRange(date: string): { start: Date; end: Date } {
+  const start = new Date(`${date}T00:00:00`);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
+}
+
+function countDenominations(denominations: Partial<Record<string, number>>): DecimalType {
+  return CASH_DENOMINATIONS.reduce(
+    (sum, value) => sum.add(new Decimal(value).mul(denominations[String(value)] ?? 0)),
+    new Decimal(0)
+  );
+}
+
+/**
+ * Collections linked to a shift, grouped by payment method.
+ * Pharmacy sales count only when paid at the counter (non-credit, completed or returned);
+ * credit repayments arrive as Payment rows. Counter refunds for approved pharmacy
+ * returns are paid out by the sale's payment method and reduce the collection.
+ */
+async function collectShiftTotals(
+  db: Prisma.TransactionClient,
+  shiftId: string
+): Promise<ShiftCollections> {
+  const [registrations, sales, payments, refunds] = await Promise.all([
+    db.patientRegistration.groupBy({
+      by: ["paymentMode"],
+      where: { shiftId, isPaid: true, status: { not: "CANCELLED" } },
+      _sum: { netAmount: true },
+      _count: { _all: true },
+    }),
+    db.pharmacySale.groupBy({
+      by: ["paymentMethod"],
+      where: {
+        shiftId,
+        isDeleted: false,
+        creditAllowed: false,
+        paymentMethod: { not: null },
+        status: { in: ["COMPLETED", "RETURNED"] },
+      },
+      _sum: { netAmount: true },
+      _count: { _all: true },
+    }),
+    db.payment.groupBy({
+      by: ["paymentMethod"],
+      where: { shiftId },
+      _sum: { amount: true },
+      _count: { _all: true },
+    }),
+    db.pharmacyReturn.findMany({
+      where: { shiftId, isDeleted: false, status: "APPROVED" },
+      select: { total: true, sale: { select: { paymentMethod: true } } },
+    }),
+  ]);
+
+  const byMethod: ShiftCollections["byMethod"] = new Map();
+  const bucket = (method: PaymentMethod) => {
+    let entry = byMethod.get(method);
+    if (!entry) {
+      entry = { registrations: new Decimal(0), pharmacySales: new Decimal(0), payments: new Decimal(0), refunds: new Decimal(0) };
+      byMethod.set(method, entry);
+    }
+    return entry;
+  };
+
+  const counts = { registrations: 0, pharmacySales: 0, payments: 0, refunds: 0 };
+  for (const row of registrations) {
+    const entry = bucket(row.paymentMode);
+    entry.registrations = entry.registrations.add(new Decimal((row._sum.netAmount ?? 0).toString()));
+    counts.registrations += row._count._all;
+  }
+  for (const row of sales) {
+    if (!row.paymentMethod) continue;
+    const entry = bucket(row.paymentMethod);
+    entry.pharmacySales = entry.pharmacySales.add(new Decimal((row._sum.netAmount ?? 0).toString()));
+    counts.pharmacySales += row._count._all;
+  }
+  for (const row of payments) {
+    const entry = bucket(row.paymentMethod);
+    entry.payments = entry.payments.add(new Decimal(row._sum.amount ?? 0).toDecimalPlaces(2));
+    counts.payments += row._count._all;
+  }
+  for (const row of refunds) {
+    if (!row.sale.paymentMethod) continue;
+    const entry = bucket(row.sale.paymentMethod);
+    entry.refunds = entry.refunds.add(new Decimal(row.total.toString()));
+    counts.refunds++;
+  }
+
+  return { byMethod, counts };
+}
+
+/**
+ * Per-method lines for a shift. While OPEN the expected figures are live;
+ * once closed the frozen tallies supply expected / counted / variance.
+ */
+function buildMethodTotals(
+  shift: ShiftRecord,
+  collections: ShiftCollections,
+  declaredMethods: PaymentMethod[] = []
+): ShiftMethodTotal[] {
+  const methods = new Set<PaymentMethod>([
+    "CASH",
+    ...collections.byMethod.keys(),
+    ...shift.tallies.map((t) => t.paymentMethod),
+    ...declaredMethods,
+  ]);
+  const tallyMap = new Map(shift.tallies.map((t) => [t.paymentMethod, t]));
+  const float = new Decimal(shift.openingFloat.toString());
+
+  return [...methods].map((method) => {
+    const c = collections.byMethod.get(method);
+    const collected = c ? c.registrations.add(c.pharmacySales).add(c.payments).sub(c.refunds) : new Decimal(0);
+    const tally = tallyMap.get(method);
+    const expected = tally
+      ? new Decimal(tally.expectedAmount.toString())
+      : method === "CASH" ? collected.add(float) : collected;
+
+    return {
+      paymentMethod: method,
+      registrations: (c?.registrations ?? new Decimal(0)).toFixed(2),
+      pharmacySales: (c?.pharmacySales ?? new Decimal(0)).toFixed(2),
+      payments: (c?.payments ?? new Decimal(0)).toFixed(2),
+      refunds: (c?.refunds ?? new Decimal(0)).toFixed(2),
+      collected: collected.toFixed(2),
+      expected: expected.toFixed(2),
+      counted: tally ? tally.countedAmount.toFixed(2) : null,
+      variance: tally ? tally.variance.toFixed(2) : null,
+    };
+  });
+}
+
+async function getUserNames(userIds: Array<string | null>): Promise<Map<string, string>> {
+  const ids = [...new Set(userIds.filter((id): id is string => !!id))];
+  if (ids.length === 0) return new Map();
+  const users = await prisma.user.findMany({ where: { id: { in: ids } }, select: { id: true, fullName: true } });
+  return new Map(users.map((u) => [u.id, u.fullName]));
+}
+
+function mapShiftSummary(shift: ShiftRecord, methods: ShiftMethodTotal[], names: Map<string, string>): ShiftSummary {
+  const totalCollected = methods.reduce((sum, m) => sum.add(m.collected), new Decimal(0));
+  return {
+    id: shift.id,
+    shiftNumber: shift.shiftNumber,
+    cashierId: shift.cashierId,
+    cashierName: names.get(shift.cashierId) ?? "Unknown",
+    counterNumber: shift.counterNumber,
+    status: shift.status,
+    openingFloat: shift.openingFloat.toFixed(2),
+    openedAt: shift.openedAt.toISOString(),
+    closedAt: shift.closedAt?.toISOString() ?? null,
+    countedCash: shift.countedCash?.toFixed(2) ?? null,
+    totalCollected: totalCollected.toFixed(2),
+    totalVariance: shift.totalVariance?.toFixed(2) ?? null,
+    approvedAt: shift.approvedAt?.toISOString() ?? null,
+    approvedByName: shift.approvedBy ? names.get(shift.approvedBy) ?? "Unknown" : null,
+    version: shift.version,
+  };
+}
+
+async function toShiftDetail(shift: ShiftRecord, names: Map<string, string>): Promise<ShiftDetail> {
+  const collections = await collectShiftTotals(prisma, shift.id);
+  const methods = buildMethodTotals(shift, collections);
+  return {
+    ...mapShiftSummary(shift, methods, names),
+    openingNotes: shift.openingNotes,
+    closingNotes: shift.closingNotes,
+    approvalNotes: shift.approvalNotes,
+    denominations: shift.denominations as Record<string, number> | null,
+    methods,
+    counts: collections.counts,
+  };
+}
+
+// =====================================================
+// OPEN SHIFT
+// =====================================================
+
+export async function openShift(
+  tenantId: string,
+  userId: string,
+  input: OpenShiftInput
+): Promise<ShiftDetail> {
+  const shift = await prisma.$transaction(async (tx) => {
+    // Row-level lock: one open shift per cashier even if "Open" is double-clicked
+    await tx.$executeRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`;
+
+    const existing = await tx.cashierShift.findFirst({
+      where: { tenantId, cashierId: userId, status: "OPEN" },
+      select: { shiftNumber: true },
+    });
+    if (existing) {
+      throw new AppError(`Shift ${existing.shiftNumber} is still open. Close it before opening a new one`, 409, "SHIFT_ALREADY_OPEN");
+    }
+
+    const shiftNumber = await nextBillingNumber(tx, tenantId, "SHIFT", "SFT");
+    const created = await tx.cashierShift.create({
+      data: {
+        tenantId,
+        shiftNumber,
+        cashierId: userId,
+        counterNumber: input.counterNumber || null,
+        openingFloat: new Decimal(input.openingFloat).toDecimalPlaces(2),
+        openingNotes: input.notes || null,
+      },
+      include: { tallies: true },
+    });
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "CASHIER_SHIFT",
+      entityId: created.id,
+      action: "CREATE",
+      newValue: { shiftNumber, counterNumber: created.counterNumber, openingFloat: created.openingFloat.toFixed(2) },
+    });
+
+    return created;
+  });
+
+  return toShiftDetail(shift, await getUserNames([userId]));
+}
+
+// =====================================================
+// CLOSE SHIFT (denomination count + per-method reconciliation)
+// =====================================================
+
+export async function closeShift(
+  tenantId: string,
+  userId: string,
+  shiftId: string,
+  input: CloseShiftInput,
+  canCloseOthers: boolean
+): Promise<ShiftDetail> {
+  const shift = await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT id FROM "CashierShift" WHERE id = ${shiftId} FOR UPDATE`;
+
+    const existing = await tx.cashierShift.findFirst({
+      where: { id: shiftId, tenantId },
+      include: { tallies: true },
+    });
+    if (!existing) throw new AppError("Shift not found", 404, "SHIFT_NOT_FOUND");
+    if (existing.cashierId !== userId && !canCloseOthers) {
+      throw new AppError("Only the cashier or a supervisor can close this shift", 403, "FORBIDDEN");
+    }
+    if (existing.status !== "OPEN") {
+      throw new AppError(`Shift is already ${existing.status}`, 400, "SHIFT_NOT_OPEN");
+    }
+    if (existing.version !== input.version) {
+      throw new AppError("Shift was modified by another user. Please refresh.", 409, "VERSION_CONFLICT");
+    }
+
+    const countedCash = countDenominations(input.denominations);
+    const collections = await collectShiftTotals(tx, shiftId);
+    const methods = buildMethodTotals(existing, collections, Object.keys(input.countedAmounts) as PaymentMethod[]);
+
+    let totalVariance = new Decimal(0);
+    const tallies = methods.map((m) => {
+      const counted = m.paymentMethod === "CASH"
+        ? countedCash
+        : new Decimal(input.countedAmounts[m.paymentMethod] ?? 0).toDecimalPlaces(2);
+      const variance = counted.sub(m.expected);
+      totalVariance = totalVariance.add(variance);
+      return { shiftId, paymentMethod: m.paymentMethod, expectedAmount: new Decimal(m.expected), countedAmount: counted, variance };
+    });
+
+    await tx.cashierShiftTally.createMany({ data: tallies });
+
+    const closed = await tx.cashierShift.update({
+      where: { id: shiftId },
+      data: {
+        status: "CLOSED",
+        closedAt: new Date(),
+        closedBy: userId,
+        denominations: input.denominations,
+        countedCash,
+        totalVariance,
+        closingNotes: input.notes || null,
+        version: { increment: 1 },
+      },
+      include: { tallies: true },
+    });
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "CASHIER_SHIFT",
+      entityId: shiftId,
+      action: "UPDATE",
+      oldValue: { status: "OPEN" },
+      newValue: {
+        status: "CLOSED",
+        countedCash: countedCash.toFixed(2),
+        totalVariance: totalVariance.toFixed(2),
+        tallies: tallies.map((t) => ({
+          paymentMethod: t.paymentMethod,
+          expected: t.expectedAmount.toFixed(2),
+          counted: t.countedAmount.toFixed(2),
+          variance: t.variance.toFixed(2),
+        })),
+      },
+    });
+
+    return closed;
+  });
+
+  return toShiftDetail(shift, await getUserNames([shift.cashierId, shift.approvedBy]));
+}
+
+// =====================================================
+// SUPERVISOR SIGN-OFF
+// =====================================================
+
+export async function approveShift(
+  tenantId: string,
+  userId: string,
+  shiftId: string,
+  input: ApproveShiftInput
+): Promise<ShiftDetail> {
+  const shift = await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT id FROM "CashierShift" WHERE id = ${shiftId} FOR UPDATE`;
+
+    const existing = await tx.cashierShift.findFirst({ where: { id: shiftId, tenantId } });
+    if (!existing) throw new AppError("Shift not found", 404, "SHIFT_NOT_FOUND");
+    if (existing.status !== "CLOSED") {
+      throw new AppError(
+        existing.status === "OPEN" ? "Close the shift before signing off" : "Shift is already signed off",
+        400,
+        "SHIFT_NOT_CLOSED"
+      );
+    }
+    if (existing.version !== input.version) {
+      throw new AppError("Shift was modified by another user. Please refresh.", 409, "VERSION_CONFLICT");
+    }
+    if (existing.cashierId === userId) {
+      throw new AppError("A cashier cannot sign off their own shift", 403, "SELF_APPROVAL_NOT_ALLOWED");
+    }
+    if (existing.totalVariance && !existing.totalVariance.isZero() && !input.notes?.trim()) {
+      throw new AppError("A note is required to sign off a shift with a cash variance", 400, "VARIANCE_NOTE_REQUIRED");
+    }
+
+    const approved = await tx.cashierShift.update({
+      where: { id: shiftId },
+      data: {
+        status: "APPROVED",
+        approvedAt: new Date(),
+        approvedBy: userId,
+        approvalNotes: input.notes || null,
+        version: { increment: 1 },
+      },
+      include: { tallies: true },
+    });
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "CASHIER_SHIFT",
+      entityId: shiftId,
+      action: "UPDATE",
+      oldValue: { status: "CLOSED" },
+      newValue: { status: "APPROVED", totalVariance: existing.totalVariance?.toFixed(2), notes: input.notes || null },
+    });
+
+    return approved;
+  });
+
+  return toShiftDetail(shift, await getUserNames([shift.cashierId, shift.approvedBy]));
+}
+
+// =====================================================
+// QUERIES
+// =====================================================
+
+export async function getCurrentShift(tenantId: string, userId: string): Promise<ShiftDetail | null> {
+  const shift = await prisma.cashierShift.findFirst({
+    where: { tenantId, cashierId: userId, status: "OPEN" },
+    include: { tallies: true },
+  });
+  if (!shift) return null;
+  return toShiftDetail(shift, await getUserNames([userId]));
+}
+
+export async function getShiftById(tenantId: string, shiftId: string): Promise<ShiftDetail> {
+  const shift = await prisma.cashierShift.findFirst({
+    where: { id: shiftId, tenantId },
+    include: { tallies: true },
+  });
+  if (!shift) throw new AppError("Shift not found", 404, "SHIFT_NOT_FOUND");
+  return toShiftDetail(shift, await getUserNames([shift.cashierId, shift.approvedBy]));
+}
+
+export async function listShifts(tenantId: string, query: ShiftQueryInput): Promise<ShiftSummary[]> {
+  const where: Prisma.CashierShiftWhereInput = { tenantId };
+  if (query.status !== "ALL") where.status = query.status;
+  if (query.cashierId) where.cashierId = query.cashierId;
+  if (query.date) {
+    const { start, end } = dayRange(query.date);
+    where.openedAt = { gte: start, lt: end };
+  }
+
+  const shifts = await prisma.cashierShift.findMany({
+    where,
+    orderBy: { openedAt: "desc" },
+    take: 200,
+    include: { tallies: true },
+  });
+
+  const names = await getUserNames(shifts.flatMap((s) => [s.cashierId, s.approvedBy]));
+  return Promise.all(
+    shifts.map(async (shift) => {
+      const collections = await collectShiftTotals(prisma, shift.id);
+      return mapShiftSummary(shift, buildMethodTotals(shift, collections), names);
+    })
+  );
+}
+
+// =====================================================
+// DAY-END COLLECTION REPORT
+// =====================================================
+
+export async function getDayEndReport(tenantId: string, date: string): Promise<DayEndReport> {
+  const { start, end } = dayRange(date);
+
+  const [shifts, letterhead] = await Promise.all([
+    prisma.cashierShift.findMany({
+      where: { tenantId, openedAt: { gte: start, lt: end } },
+      orderBy: { openedAt: "asc" },
+      include: { tallies: true },
+    }),
+    getTenantLetterhead(tenantId),
+  ]);
+
+  const names = await getUserNames(shifts.flatMap((s) => [s.cashierId, s.approvedBy]));
+  const details = await Promise.all(shifts.map((shift) => toShiftDetail(shift, names)));
+
+  const totals = new Map<PaymentMethod, { collected: DecimalType; counted: DecimalType; variance: DecimalType; reconciled: boolean }>();
+  for (const shift of details) {
+    for (const m of shift.methods) {
+      const t = totals.get(m.paymentMethod) ?? {
+        collected: new Decimal(0), counted: new Decimal(0), variance: new Decimal(0), reconciled: true,
+      };
+      t.collected = t.collected.add(m.collected);
+      if (m.counted !== null && m.variance !== null) {
+        t.counted = t.counted.add(m.counted);
+        t.variance = t.variance.add(m.variance);
+      } else {
+        t.reconciled = false;
+      }
+      totals.set(m.paymentMethod, t);
+    }
+  }
+
+  const methods = [...totals.entries()].map(([paymentMethod, t]) => ({
+    paymentMethod,
+    collected: t.collected.toFixed(2),
+    counted: t.reconciled ? t.counted.toFixed(2) : null,
+    variance: t.reconciled ? t.variance.toFixed(2) : null,
+  }));
+
+  return {
+    date,
+    shifts: details,
+    methods,
+    totalCollected: details.reduce((sum, s) => sum.add(s.totalCollected), new Decimal(0)).toFixed(2),
+    totalVariance: details.reduce((sum, s) => sum.add(s.totalVariance ?? 0), new Decimal(0)).toFixed(2),
+    pendingShifts: details.filter((s) => s.status !== "APPROVED").length,
+    letterhead,
+  };
+}
@@ -0,0 +1,837 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import type { Prisma, InvoiceStatus, InvoiceItemType } from "@/app/generated/prisma/client";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface CreateInvoiceInput {
+  visitId: string;
+  consultationType?: "NORMAL" | "FOLLOW_UP";
+  dueDate?: string;
+  notes?: string;
+}
+
+interface InvoiceItemInput {
+  itemType: InvoiceItemType;
+  itemId?: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discount?: number;
+}
+
+interface InvoiceItemResponse {
+  id: string;
+  itemType: InvoiceItemType;
+  itemId: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  total: number;
+}
+
+interface InvoicePaymentResponse {
+  id: string;
+  paymentNumber: string;
+  paymentDate: string;
+  amount: number;
+  paymentMethod: string;
+  reference: string | null;
+  receivedBy: string;
+}
+
+export interface InvoiceListItem {
+  id: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  visitId: string;
+  patientId: string;
+  patientName: string;
+  uhid: string;
+  status: InvoiceStatus;
+  total: number;
+  paidAmount: number;
+  outstanding: number;
+  itemCount: number;
+  createdAt: string;
+}
+
+export interface InvoiceDetail extends InvoiceListItem {
+  dueDate: string | null;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  notes: string | null;
+  finalizedAt: string | null;
+  finalizedBy: string | null;
+  cancelledAt: string | null;
+  cancelReason: string | null;
+  version: number;
+  items: InvoiceItemResponse[];
+  payments: InvoicePaymentResponse[];
+}
+
+interface CursorResult<T> {
+  data: T[];
+  pagination: { cursor: string | null; hasMore: boolean };
+}
+
+interface InvoiceQueryOptions {
+  search?: string;
+  status?: string;
+  patientId?: string;
+  visitId?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+/**
+ * A repeat visit to the same doctor within this window is billed
+ * at the doctor's followUpFee instead of the consultationFee.
+ */
+const FOLLOW_UP_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Invoice statuses that can still accept line-item changes */
+const EDITABLE_STATUSES: InvoiceStatus[] = ["DRAFT"];
+
+/** Invoice statuses that can accept payments */
+export const PAYABLE_STATUSES: InvoiceStatus[] = ["FINAL", "PARTIAL", "OVERDUE"];
+
+// =====================================================
+// NUMBER GENERATORS
+// =====================================================
+
+/**
+ * Next tenant-scoped billing number using BillingCounter.
+ * Must be called inside a transaction; the upsert increment is atomic.
+ * Format: {PREFIX}-{YYYY}-{6 digit running number}
+ */
+export async function nextBillingNumber(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  counterType: "INVOICE" | "PAYMENT" | "SHIFT",
+  prefix: string
+): Promise<string> {
+  const counter = await tx.billingCounter.upsert({
+    where: { tenantId_counterType: { tenantId, counterType } },
+    create: { tenantId, counterType, prefix, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } },
+  });
+  const year = new Date().getFullYear();
+  return `${counter.prefix}-${year}-${String(counter.lastNumber).padStart(6, "0")}`;
+}
+
+/**
+ * Draft invoices carry a temporary number so the tenant-scoped
+ * invoice sequence has no gaps from abandoned drafts.
+ */
+function generateDraftNumber(): string {
+  return `DRAFT-${Date.now()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+}
+
+// =====================================================
+// TOTALS
+// =====================================================
+
+/**
+ * Recalculate invoice header totals from its line items.
+ * paidAmount is preserved; outstanding is derived.
+ */
+async function recalculateInvoiceTotals(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  userId: string
+) {
+  const invoice = await tx.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    select: { paidAmount: true, tax: true },
+  });
+  const items = await tx.invoiceItem.findMany({
+    where: { invoiceId },
+    select: { quantity: true, unitPrice: true, discount: true },
+  });
+
+  const subtotal = roundMoney(items.reduce((sum, i) => sum + i.quantity * i.unitPrice, 0));
+  const discount = roundMoney(items.reduce((sum, i) => sum + i.discount, 0));
+  const total = roundMoney(subtotal - discount + invoice.tax);
+
+  return tx.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      subtotal,
+      discount,
+      total,
+      outstanding: roundMoney(Math.max(total - invoice.paidAmount, 0)),
+      updatedBy: userId,
+    },
+  });
+}
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// =====================================================
+// CHARGE COLLECTION
+// =====================================================
+
+/**
+ * Build billable line items for a visit from:
+ * - Doctor consultationFee / followUpFee
+ * - Ordered LabOrderItems (priced from LabTest.basePrice)
+ * - Completed PharmacySales linked to the visit that are not yet invoiced
+ * - Closed bed stays of the admission on an IPD visit (per started day)
+ *
+ * Sources already present on a non-cancelled invoice (matched by itemId) are skipped,
+ * so pulling charges twice is safe.
+ */
+async function collectVisitCharges(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  visit: { id: string; patientId: string; doctorMasterId: string | null; checkInTime: Date | null; createdAt: Date },
+  consultationType?: "NORMAL" | "FOLLOW_UP"
+): Promise<InvoiceItemInput[]> {
+  const billedItems = await tx.invoiceItem.findMany({
+    where: {
+      tenantId,
+      itemId: { not: null },
+      invoice: { visitId: visit.id, status: { not: "CANCELLED" } },
+    },
+    select: { itemId: true },
+  });
+  const alreadyBilled = new Set(billedItems.map((i) => i.itemId));
+  const charges: InvoiceItemInput[] = [];
+
+  // 1. Consultation fee
+  if (visit.doctorMasterId && !alreadyBilled.has(visit.doctorMasterId)) {
+    const doctor = await tx.doctor.findFirst({
+      where: { id: visit.doctorMasterId, tenantId },
+      select: { id: true, fullName: true, consultationFee: true, followUpFee: true },
+    });
+
+    if (doctor) {
+      let isFollowUp = consultationType === "FOLLOW_UP";
+      if (!consultationType) {
+        const windowStart = new Date(visit.checkInTime ?? visit.createdAt);
+        windowStart.setDate(windowStart.getDate() - FOLLOW_UP_WINDOW_DAYS);
+        const previousVisit = await tx.visit.findFirst({
+          where: {
+            tenantId,
+            patientId: visit.patientId,
+            doctorMasterId: doctor.id,
+            status: "COMPLETED",
+            id: { not: visit.id },
+            createdAt: { gte: windowStart, lt: visit.createdAt },
+          },
+          select: { id: true },
+        });
+        isFollowUp = !!previousVisit;
+      }
+
+      const fee = isFollowUp && doctor.followUpFee != null ? doctor.followUpFee : doctor.consultationFee;
+      if (fee != null) {
+        charges.push({
+          itemType: "CONSULTATION",
+          itemId: doctor.id,
+          description: `${isFollowUp ? "Follow-up consultation" : "Consultation"} - ${doctor.fullName}`,
+          quantity: 1,
+          unitPrice: fee.toNumber(),
+        });
+      }
+    }
+  }
+
+  // 2. Lab tests
+  const labItems = await tx.labOrderItem.findMany({
+    where: {
+      tenantId,
+      status: { not: "CANCELLED" },
+      labOrder: { visitId: visit.id, status: { not: "CANCELLED" } },
+    },
+    select: { id: true, testName: true, testCode: true },
+  });
+  const pendingLabItems = labItems.filter((i) => !alreadyBilled.has(i.id));
+
+  if (pendingLabItems.length > 0) {
+    const testCodes = [...new Set(pendingLabItems.map((i) => i.testCode).filter((c): c is string => !!c))];
+    const testNames = [...new Set(pendingLabItems.map((i) => i.testName))];
+    const labTests = await tx.labTest.findMany({
+      where: {
+        isDeleted: false,
+        OR: [{ tenantId }, { tenantId: null }],
+        AND: [{ OR: [{ testCode: { in: testCodes } }, { testName: { in: testNames } }] }],
+      },
+      select: { tenantId: true, testCode: true, testName: true, basePrice: true },
+    });
+
+    // Tenant-specific prices win over global ones
+    const priceFor = (item: { testCode: string | null; testName: string }) => {
+      const matches = labTests.filter((t) =>
+        item.testCode ? t.testCode === item.testCode : t.testName === item.testName
+      );
+      const match = matches.find((t) => t.tenantId === tenantId) ?? matches[0];
+      return match?.basePrice ? match.basePrice.toNumber() : 0;
+    };
+
+    for (const item of pendingLabItems) {
+      charges.push({
+        itemType: "LAB_TEST",
+        itemId: item.id,
+        description: item.testCode ? `${item.testName} (${item.testCode})` : item.testName,
+        quantity: 1,
+        unitPrice: priceFor(item),
+      });
+    }
+  }
+
+  // 3. Linked pharmacy sales (one line per sale, priced at net amount)
+  const sales = await tx.pharmacySale.findMany({
+    where: {
+      tenantId,
+      visitId: visit.id,
+      status: "COMPLETED",
+      invoiceId: null,
+      isDeleted: false,
+    },
+    select: { id: true, saleNumber: true, totalAmount: true, discount: true },
+  });
+
+  for (const sale of sales) {
+    if (alreadyBilled.has(sale.id)) continue;
+    charges.push({
+      itemType: "MEDICINE",
+      itemId: sale.id,
+      description: `Pharmacy sale ${sale.saleNumber}`,
+      quantity: 1,
+      unitPrice: sale.totalAmount.toNumber(),
+      discount: sale.discount.toNumber(),
+    });
+  }
+
+  // 4. Bed charges - only closed stays (transfer/discharge), so the running stay keeps accruing
+  const bedStays = await tx.admissionBedAssignment.findMany({
+    where: { tenantId, endAt: { not: null }, admission: { visitId: visit.id } },
+    include: {
+      bed: { select: { bedNumber: true, room: { select: { roomNumber: true } }, ward: { select: { name: true } } } },
+    },
+    orderBy: { startAt: "asc" },
+  });
+
+  for (const stay of bedStays) {
+    if (alreadyBilled.has(stay.id)) continue;
+    const days = Math.ceil((stay.endAt!.getTime() - stay.startAt.getTime()) / DAY_MS);
+    if (days <= 0) continue;
+    charges.push({
+      itemType: "ROOM_CHARGE",
+      itemId: stay.id,
+      description: `Bed ${stay.bed.ward.name} / ${stay.bed.room.roomNumber}-${stay.bed.bedNumber} (${days} day${days > 1 ? "s" : ""})`,
+      quantity: days,
+      unitPrice: stay.dailyRate.toNumber(),
+    });
+  }
+
+  return charges;
+}
+
+async function insertInvoiceItems(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  invoiceId: string,
+  items: InvoiceItemInput[]
+) {
+  for (const item of items) {
+    const discount = roundMoney(item.discount ?? 0);
+    const total = roundMoney(item.quantity * item.unitPrice - discount);
+    if (total < 0) {
+      throw new AppError(`Discount exceeds amount for "${item.description}"`, 400, "INVALID_DISCOUNT");
+    }
+
+    await tx.invoiceItem.create({
+      data: {
+        tenantId,
+        invoiceId,
+        itemType: item.itemType,
+        itemId: item.itemId ?? null,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: roundMoney(item.unitPrice),
+        discount,
+        total,
+      },
+    });
+
+    // Pharmacy sales point back at the invoice that bills them
+    if (item.itemType === "MEDICINE" && item.itemId) {
+      await tx.pharmacySale.updateMany({
+        where: { id: item.itemId, tenantId, invoiceId: null },
+        data: { invoiceId },
+      });
+    }
+  }
+}
+
+// =====================================================
+// CREATE DRAFT INVOICE FOR VISIT
+// =====================================================
+
+export async function createDraftInvoice(
+  tenantId: string,
+  userId: string,
+  input: CreateInvoiceInput
+): Promise<InvoiceDetail> {
+  const invoiceId = await prisma.$transaction(async (tx) => {
+    const visit = await tx.visit.findFirst({
+      where: { id: input.visitId, tenantId },
+      select: {
+        id: true,
+        patientId: true,
+        doctorMasterId: true,
+        status: true,
+        checkInTime: true,
+        createdAt: true,
+      },
+    });
+    if (!visit) throw new AppError("Visit not found", 404, "VISIT_NOT_FOUND");
+    if (visit.status === "CANCELLED") {
+      throw new AppError("Cannot bill a cancelled visit", 400, "VISIT_CANCELLED");
+    }
+
+    // One open draft per visit keeps the front desk from splitting charges by accident
+    const openDraft = await tx.invoice.findFirst({
+      where: { tenantId, visitId: visit.id, status: "DRAFT" },
+      select: { id: true },
+    });
+    if (openDraft) {
+      throw new AppError("A draft invoice already exists for this visit", 409, "DRAFT_INVOICE_EXISTS");
+    }
+
+    const invoice = await tx.invoice.create({
+      data: {
+        tenantId,
+        visitId: visit.id,
+        patientId: visit.patientId,
+        invoiceNumber: generateDraftNumber(),
+        invoiceDate: new Date(),
+        dueDate: input.dueDate ? new Date(input.dueDate) : null,
+        status: "DRAFT",
+        notes: input.notes || null,
+        createdBy: userId,
+        updatedBy: userId,
+      },
+    });
+
+    const charges = await collectVisitCharges(tx, tenantId, visit, input.consultationType);
+    await insertInvoiceItems(tx, tenantId, invoice.id, charges);
+    await recalculateInvoiceTotals(tx, invoice.id, userId);
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "INVOICE",
+      entityId: invoice.id,
+      action: "CREATE",
+      newValue: { visitId: visit.id, status: "DRAFT", itemCount: charges.length },
+    });
+
+    return invoice.id;
+  });
+
+  return getInvoiceById(tenantId, invoiceId);
+}
+
+// =====================================================
+// PULL PENDING CHARGES INTO A DRAFT
+// =====================================================
+
+/**
+ * Bring the visit's open draft invoice up to date, creating it if needed.
+ * Used by IPD discharge so everything accrued during the stay lands on one bill.
+ * Must be called inside a transaction.
+ */
+export async function syncVisitDraftInvoice(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  userId: string,
+  visitId: string,
+  notes?: string
+): Promise<string> {
+  const visit = await tx.visit.findFirstOrThrow({
+    where: { id: visitId, tenantId },
+    select: { id: true, patientId: true, doctorMasterId: true, checkInTime: true, createdAt: true },
+  });
+
+  let invoice = await tx.invoice.findFirst({
+    where: { tenantId, visitId: visit.id, status: "DRAFT" },
+    select: { id: true },
+  });
+  if (!invoice) {
+    invoice = await tx.invoice.create({
+      data: {
+        tenantId,
+        visitId: visit.id,
+        patientId: visit.patientId,
+        invoiceNumber: generateDraftNumber(),
+        invoiceDate: new Date(),
+        status: "DRAFT",
+        notes: notes || null,
+        createdBy: userId,
+        updatedBy: userId,
+      },
+      select: { id: true },
+    });
+  }
+
+  const charges = await collectVisitCharges(tx, tenantId, visit);
+  await insertInvoiceItems(tx, tenantId, invoice.id, charges);
+  await recalculateInvoiceTotals(tx, invoice.id, userId);
+  await tx.invoice.update({ where: { id: invoice.id }, data: { version: { increment: 1 } } });
+
+  return invoice.id;
+}
+
+export async function pullVisitCharges(
+  tenantId: string,
+  userId: string,
+  invoiceId: string,
+  version: number
+): Promise<InvoiceDetail> {
+  await prisma.$transaction(async (tx) => {
+    const invoice = await getEditableInvoice(tx, tenantId, invoiceId, version);
+    const visit = await tx.visit.findUniqueOrThrow({
+      where: { id: invoice.visitId },
+      select: { id: true, patientId: true, doctorMasterId: true, checkInTime: true, createdAt: true },
+    });
+
+    const charges = await collectVisitCharges(tx, tenantId, visit);
+    await insertInvoiceItems(tx, tenantId, invoice.id, charges);
+    await recalculateInvoiceTotals(tx, invoice.id, userId);
+    await tx.invoice.update({ where: { id: invoice.id }, data: { version: { increment: 1 } } });
+  });
+
+  return getInvoiceById(tenantId, invoiceId);
+}
+
+// =====================================================
+// MANUAL LINE ITEMS
+// =====================================================
+
+export async function addInvoiceItem(
+  tenantId: string,
+  userId: string,
+  invoiceId: string,
+  version: number,
+  item: InvoiceItemInput
+): Promise<InvoiceDetail> {
+  await prisma.$transaction(async (tx) => {
+    const invoice = await getEditableInvoice(tx, tenantId, invoiceId, version);
+    await insertInvoiceItems(tx, tenantId, invoice.id, [{ ...item, itemId: null }]);
+    await recalculateInvoiceTotals(tx, invoice.id, userId);
+    await tx.invoice.update({ where: { id: invoice.id }, data: { version: { increment: 1 } } });
+  });
+
+  createAuditLog({
+    tenantId,
+    performedBy: userId,
+    entityType: "INVOICE",
+    entityId: invoiceId,
+    action: "UPDATE",
+    newValue: { addedItem: item },
+  });
+
+  return getInvoiceById(tenantId, invoiceId);
+}
+
+export async function removeInvoiceItem(
+  tenantId: string,
+  userId: string,
+  invoiceId: string,
+  version: number,
+  itemId: string
+): Promise<InvoiceDetail> {
+  await prisma.$transaction(async (tx) => {
+    const invoice = await getEditableInvoice(tx, tenantId, invoiceId, version);
+    const item = await tx.invoiceItem.findFirst({
+      where: { id: itemId, invoiceId: invoice.id, tenantId },
+    });
+    if (!item) throw new AppError("Invoice item not found", 404, "INVOICE_ITEM_NOT_FOUND");
+
+    await tx.invoiceItem.delete({ where: { id: item.id } });
+
+    // Release the pharmacy sale so it can be billed again
+    if (item.itemType === "MEDICINE" && item.itemId) {
+      await tx.pharmacySale.updateMany({
+        where: { id: item.itemId, tenantId, invoiceId: invoice.id },
+        data: { invoiceId: null },
+      });
+    }
+
+    await recalculateInvoiceTotals(tx, invoice.id, userId);
+    await tx.invoice.update({ where: { id: invoice.id }, data: { version: { increment: 1 } } });
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "INVOICE",
+      entityId: invoice.id,
+      action: "UPDATE",
+      oldValue: { removedItem: item },
+    });
+  });
+
+  return getInvoiceById(tenantId, invoiceId);
+}
+
+async function getEditableInvoice(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  invoiceId: string,
+  version: number
+) {
+  const invoice = await tx.invoice.findFirst({ where: { id: invoiceId, tenantId } });
+  if (!invoice) throw new AppError("Invoice not found", 404, "INVOICE_NOT_FOUND");
+  if (!EDITABLE_STATUSES.includes(invoice.status)) {
+    throw new AppError(`Invoice is ${invoice.status} and cannot be edited`, 400, "INVOICE_NOT_EDITABLE");
+  }
+  if (invoice.version !== version) {
+    throw new AppError("Invoice has been modified. Refresh and try again.", 409, "VERSION_CONFLICT");
+  }
+  return invoice;
+}
+
+// =====================================================
+// FINALIZE (DRAFT → FINAL)
+// =====================================================
+
+export async function finalizeInvoice(
+  tenantId: string,
+  userId: string,
+  invoiceId: string,
+  version: number
+): Promise<InvoiceDetail> {
+  await prisma.$transaction(async (tx) => {
+    const invoice = await getEditableInvoice(tx, tenantId, invoiceId, version);
+
+    const itemCount = await tx.invoiceItem.count({ where: { invoiceId: invoice.id } });
+    if (itemCount === 0) {
+      throw new AppError("Cannot finalize an invoice without items", 400, "INVOICE_EMPTY");
+    }
+
+    const totals = await recalculateInvoiceTotals(tx, invoice.id, userId);
+    const invoiceNumber = await nextBillingNumber(tx, tenantId, "INVOICE", "INV");
+
+    await tx.invoice.update({
+      where: { id: invoice.id },
+      data: {
+        invoiceNumber,
+        invoiceDate: new Date(),
+        status: totals.outstanding <= 0 ? "PAID" : "FINAL",
+        finalizedAt: new Date(),
+        finalizedBy: userId,
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+    });
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "INVOICE",
+      entityId: invoice.id,
+      action: "UPDATE",
+      oldValue: { status: "DRAFT", invoiceNumber: invoice.invoiceNumber },
+      newValue: { status: "FINAL", invoiceNumber, total: totals.total },
+    });
+  });
+
+  return getInvoiceById(tenantId, invoiceId);
+}
+
+// =====================================================
+// CANCEL
+// =====================================================
+
+export async function cancelInvoice(
+  tenantId: string,
+  userId: string,
+  invoiceId: string,
+  version: number,
+  reason?: string
+): Promise<InvoiceDetail> {
+  await prisma.$transaction(async (tx) => {
+    const invoice = await tx.invoice.findFirst({ where: { id: invoiceId, tenantId } });
+    if (!invoice) throw new AppError("Invoice not found", 404, "INVOICE_NOT_FOUND");
+    if (invoice.status === "CANCELLED") {
+      throw new AppError("Invoice is already cancelled", 400, "INVOICE_ALREADY_CANCELLED");
+    }
+    if (invoice.paidAmount > 0) {
+      throw new AppError("Invoice has payments recorded and cannot be cancelled", 400, "INVOICE_HAS_PAYMENTS");
+    }
+    if (invoice.version !== version) {
+      throw new AppError("Invoice has been modified. Refresh and try again.", 409, "VERSION_CONFLICT");
+    }
+
+    // Release linked pharmacy sales so they can be billed on another invoice
+    await tx.pharmacySale.updateMany({
+      where: { tenantId, invoiceId: invoice.id },
+      data: { invoiceId: null },
+    });
+
+    await tx.invoice.update({
+      where: { id: invoice.id },
+      data: {
+        status: "CANCELLED",
+        outstanding: 0,
+        cancelledAt: new Date(),
+        cancelReason: reason || null,
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+    });
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "INVOICE",
+      entityId: invoice.id,
+      action: "UPDATE",
+      oldValue: { status: invoice.status },
+      newValue: { status: "CANCELLED", reason },
+    });
+  });
+
+  return getInvoiceById(tenantId, invoiceId);
+}
+
+// =====================================================
+// GET INVOICES (cursor pagination)
+// =====================================================
+
+export async function getInvoicesCursor(
+  tenantId: string,
+  options: InvoiceQueryOptions
+): Promise<CursorResult<InvoiceListItem>> {
+  const limit = options.limit ?? 20;
+  const where: Prisma.InvoiceWhereInput = { tenantId };
+
+  if (options.search) {
+    where.OR = [
+      { invoiceNumber: { contains: options.search, mode: "insensitive" } },
+      { patient: { firstName: { contains: options.search, mode: "insensitive" } } },
+      { patient: { lastName: { contains: options.search, mode: "insensitive" } } },
+      { patient: { uhid: { contains: options.search, mode: "insensitive" } } },
+    ];
+  }
+  if (options.status) where.status = options.status as InvoiceStatus;
+  if (options.patientId) where.patientId = options.patientId;
+  if (options.visitId) where.visitId = options.visitId;
+
+  const records = await prisma.invoice.findMany({
+    where,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(options.cursor ? { skip: 1, cursor: { id: options.cursor } } : {}),
+    include: {
+      patient: { select: { firstName: true, lastName: true, uhid: true } },
+      _count: { select: { items: true } },
+    },
+  });
+
+  const hasMore = records.length > limit;
+  const data = records.slice(0, limit);
+
+  return {
+    data: data.map((r) => ({
+      id: r.id,
+      invoiceNumber: r.invoiceNumber,
+      invoiceDate: r.invoiceDate.toISOString(),
+      visitId: r.visitId,
+      patientId: r.patientId,
+      patientName: r.patient.lastName ? `${r.patient.firstName} ${r.patient.lastName}` : r.patient.firstName,
+      uhid: r.patient.uhid,
+      status: r.status,
+      total: r.total,
+      paidAmount: r.paidAmount,
+      outstanding: r.outstanding,
+      itemCount: r._count.items,
+      createdAt: r.createdAt.toISOString(),
+    })),
+    pagination: {
+      cursor: hasMore && data.length > 0 ? data[data.length - 1].id : null,
+      hasMore,
+    },
+  };
+}
+
+// =====================================================
+// GET INVOICE DETAIL
+// =====================================================
+
+export async function getInvoiceById(tenantId: string, invoiceId: string): Promise<InvoiceDetail> {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, tenantId },
+    include: {
+      patient: { select: { firstName: true, lastName: true, uhid: true } },
+      items: { orderBy: { createdAt: "asc" } },
+      payments: { orderBy: { paymentDate: "asc" } },
+    },
+  });
+
+  if (!invoice) throw new AppError("Invoice not found", 404, "INVOICE_NOT_FOUND");
+
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    invoiceDate: invoice.invoiceDate.toISOString(),
+    dueDate: invoice.dueDate?.toISOString() ?? null,
+    visitId: invoice.visitId,
+    patientId: invoice.patientId,
+    patientName: invoice.patient.lastName
+      ? `${invoice.patient.firstName} ${invoice.patient.lastName}`
+      : invoice.patient.firstName,
+    uhid: invoice.patient.uhid,
+    status: invoice.status,
+    subtotal: invoice.subtotal,
+    discount: invoice.discount,
+    tax: invoice.tax,
+    total: invoice.total,
+    paidAmount: invoice.paidAmount,
+    outstanding: invoice.outstanding,
+    notes: invoice.notes,
+    finalizedAt: invoice.finalizedAt?.toISOString() ?? null,
+    finalizedBy: invoice.finalizedBy,
+    cancelledAt: invoice.cancelledAt?.toISOString() ?? null,
+    cancelReason: invoice.cancelReason,
+    version: invoice.version,
+    itemCount: invoice.items.length,
+    createdAt: invoice.createdAt.toISOString(),
+    items: invoice.items.map((i) => ({
+      id: i.id,
+      itemType: i.itemType,
+      itemId: i.itemId,
+      description: i.description,
+      quantity: i.quantity,
+      unitPrice: i.unitPrice,
+      discount: i.discount,
+      total: i.total,
+    })),
+    payments: invoice.payments.map((p) => ({
+      id: p.id,
+      paymentNumber: p.paymentNumber,
+      paymentDate: p.paymentDate.toISOString(),
+      amount: p.amount,
+      paymentMethod: p.paymentMethod,
+      reference: p.reference,
+      receivedBy: p.receivedBy,
+    })),
+  };
+}
@@ -0,0 +1,178 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import type { PaymentMethod, InvoiceStatus } from "@/app/generated/prisma/client";
+import { nextBillingNumber, roundMoney, PAYABLE_STATUSES } from "./invoice.service";
+import { getOpenShiftId } from "./cashier-shift.service";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface RecordPaymentInput {
+  amount: number;
+  paymentMethod: PaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export interface PaymentResponse {
+  id: string;
+  paymentNumber: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  patientId: string;
+  paymentDate: string;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  reference: string | null;
+  notes: string | null;
+  receivedBy: string;
+  invoiceStatus: InvoiceStatus;
+  invoiceOutstanding: number;
+}
+
+// =====================================================
+// RECORD PAYMENT
+// FINAL → PARTIAL → PAID, driven by the outstanding amount
+// =====================================================
+
+export async function recordPayment(
+  tenantId: string,
+  userId: string,
+  invoiceId: string,
+  input: RecordPaymentInput
+): Promise<PaymentResponse> {
+  return prisma.$transaction(async (tx) => {
+    // Row-level lock: Prevent two counters from over-collecting the same invoice
+    await tx.$executeRaw`SELECT id FROM "Invoice" WHERE id = ${invoiceId} FOR UPDATE`;
+
+    const invoice = await tx.invoice.findFirst({ where: { id: invoiceId, tenantId } });
+    if (!invoice) throw new AppError("Invoice not found", 404, "INVOICE_NOT_FOUND");
+
+    // Pharmacy credit sales are collected only through the patient's credit account,
+    // which settles the ledger debit and this invoice together
+    const creditDebit = await tx.creditLedger.findFirst({
+      where: { tenantId, invoiceId: invoice.id, referenceType: "PHARMACY_SALE", isDeleted: false },
+      select: { id: true },
+    });
+    if (creditDebit) {
+      throw new AppError(
+        "This invoice is a pharmacy credit sale. Record the payment against the patient's credit account.",
+        409,
+        "CREDIT_SALE_INVOICE"
+      );
+    }
+
+    if (!PAYABLE_STATUSES.includes(invoice.status)) {
+      throw new AppError(
+        invoice.status === "DRAFT"
+          ? "Finalize the invoice before recording payments"
+          : `Invoice is ${invoice.status} and cannot accept payments`,
+        400,
+        "INVOICE_NOT_PAYABLE"
+      );
+    }
+
+    const amount = roundMoney(input.amount);
+    if (amount > invoice.outstanding) {
+      throw new AppError(
+        `Payment exceeds outstanding amount. Outstanding: ${invoice.outstanding.toFixed(2)}`,
+        400,
+        "PAYMENT_EXCEEDS_OUTSTANDING"
+      );
+    }
+
+    const paymentNumber = await nextBillingNumber(tx, tenantId, "PAYMENT", "PAY");
+
+    const payment = await tx.payment.create({
+      data: {
+        tenantId,
+        invoiceId: invoice.id,
+        patientId: invoice.patientId,
+        paymentNumber,
+        paymentDate: new Date(),
+        amount,
+        paymentMethod: input.paymentMethod,
+        reference: input.reference || null,
+        notes: input.notes || null,
+        receivedBy: userId,
+        shiftId: await getOpenShiftId(tx, tenantId, userId),
+      },
+    });
+
+    const paidAmount = roundMoney(invoice.paidAmount + amount);
+    const outstanding = roundMoney(Math.max(invoice.total - paidAmount, 0));
+    const status: InvoiceStatus = outstanding <= 0 ? "PAID" : "PARTIAL";
+
+    await tx.invoice.update({
+      where: { id: invoice.id },
+      data: {
+        paidAmount,
+        outstanding,
+        status,
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+    });
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "PAYMENT",
+      entityId: payment.id,
+      action: "CREATE",
+      newValue: {
+        paymentNumber,
+        invoiceNumber: invoice.invoiceNumber,
+        amount,
+        paymentMethod: input.paymentMethod,
+        invoiceStatus: status,
+      },
+    });
+
+    return {
+      id: payment.id,
+      paymentNumber: payment.paymentNumber,
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      patientId: payment.patientId,
+      paymentDate: payment.paymentDate.toISOString(),
+      amount: payment.amount,
+      paymentMethod: payment.paymentMethod,
+      reference: payment.reference,
+      notes: payment.notes,
+      receivedBy: payment.receivedBy,
+      invoiceStatus: status,
+      invoiceOutstanding: outstanding,
+    };
+  });
+}
+
+// =====================================================
+// LIST PAYMENTS FOR INVOICE
+// =====================================================
+
+export async function getInvoicePayments(tenantId: string, invoiceId: string) {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, tenantId },
+    select: { id: true },
+  });
+  if (!invoice) throw new AppError("Invoice not found", 404, "INVOICE_NOT_FOUND");
+
+  const payments = await prisma.payment.findMany({
+    where: { tenantId, invoiceId },
+    orderBy: { paymentDate: "asc" },
+  });
+
+  return payments.map((p) => ({
+    id: p.id,
+    paymentNumber: p.paymentNumber,
+    paymentDate: p.paymentDate.toISOString(),
+    amount: p.amount,
+    paymentMethod: p.paymentMethod,
+    reference: p.reference,
+    notes: p.notes,
+    receivedBy: p.receivedBy,
+  }));
+}
@@ -88,6 +88,18 @@ export interface ConsultationNotes {
   followUpPlan: string | null;
   notes: string | null;
   status: string;
+  codedDiagnoses: CodedDiagnosis[];
+}
+
+export interface CodedDiagnosis {
+  id: string;
+  icdCodeId: string;
+  code: string;
+  description: string;
+  chapter: string;
+  rank: 'PRIMARY' | 'SECONDARY';
+  certainty: 'PROVISIONAL' | 'FINAL';
+  notes: string | null;
 }
 
 export interface PrescriptionItem {
@@ -103,6 +115,7 @@ export interface PrescriptionItem {
   timing: string | null;
   instructions: string | null;
   quantity: number | null;
+  overrideReason: string | null;
 }
 
 export interface PrescriptionData {
@@ -242,6 +255,9 @@ export async function getConsultationContext(
       consultations: {
         take: 1,
         orderBy: { createdAt: 'desc' },
+        include: {
+          codedDiagnoses: { orderBy: { sortOrder: 'asc' } },
+        },
       },
       prescriptions: {
         take: 1,
@@ -397,6 +413,16 @@ export async function getConsultationContext(
       followUpPlan: consultation.followUpPlan,
       notes: consultation.notes,
       status: consultation.status,
+      codedDiagnoses: consultation.codedDiagnoses.map(d => ({
+        id: d.id,
+        icdCodeId: d.icdCodeId,
+        code: d.code,
+        description: d.description,
+        chapter: d.chapter,
+        rank: d.rank,
+        certainty: d.certainty,
+        notes: d.notes,
+      })),
     } : null,
     prescription: prescription ? {
       id: prescription.id,
@@ -416,6 +442,7 @@ export async function getConsultationContext(
         timing: item.timing,
         instructions: item.instructions,
         quantity: item.quantity,
+        overrideReason: item.overrideReason,
       })),
     } : null,
     labOrders: visit.labOrders.map(order => ({
@@ -10,13 +10,15 @@ import { prisma } from "@/lib/prisma";
 import { createAuditLog } from "@/lib/audit";
 import { isVisitEditable, validateDoctorAccess } from "./consultation-context";
 import { syncOPDQueueSnapshot } from "./opd-queue-snapshot";
-import { Vital, Consultation, Prescription, LabOrder, Prisma } from "@/app/generated/prisma/client";
+import { checkPrescriptionSafety, getUnresolvedMajorWarnings, PrescriptionWarning } from "./prescription-safety";
+import { Vital, Consultation, ConsultationDiagnosis, Prescription, LabOrder, Prisma } from "@/app/generated/prisma/client";
 
 // Type aliases for return types
 type VitalsRecord = Vital;
 type ConsultationRecord = Consultation;
 type PrescriptionRecord = Prescription;
 type LabOrderRecord = LabOrder;
+type ConsultationDiagnosisRecord = ConsultationDiagnosis;
 
 // Alias for backward compatibility
 export type NotesInput = ClinicalNotesInput;
@@ -196,6 +198,8 @@ export interface PrescriptionItemInput {
   timing?: string | null;
   instructions?: string | null;
   quantity?: number | null;
+  /** Required to save when the item is part of a MAJOR safety warning */
+  overrideReason?: string | null;
 }
 
 export interface PrescriptionInput {
@@ -209,7 +213,7 @@ export async function saveConsultationPrescription(
   prescription: PrescriptionInput,
   tenantId: string,
   userId: string
-): Promise<{ success: boolean; data?: PrescriptionRecord; error?: string }> {
+): Promise<{ success: boolean; data?: PrescriptionRecord; error?: string; warnings?: PrescriptionWarning[] }> {
   // Validate visit is editable
   if (!await isVisitEditable(visitId, tenantId)) {
     return { success: false, error: "Visit is locked and cannot be edited" };
@@ -231,6 +235,39 @@ export async function saveConsultationPrescription(
     return { success: false, error: "Visit not found" };
   }
 
+  // Interaction / duplicate therapy / allergy checks
+  const warnings = await checkPrescriptionSafety(tenantId, visit.patientId, prescription.items);
+  const unresolved = getUnresolvedMajorWarnings(warnings, prescription.items);
+  if (unresolved.length > 0) {
+    return {
+      success: false,
+      error: "Major safety warning(s) require an override reason before saving",
+      warnings,
+    };
+  }
+
+  const itemsData = prescription.items.map((item, index) => {
+    const itemWarnings = warnings.filter(w => w.itemIndexes.includes(index));
+    const overrideReason = item.overrideReason?.trim() || null;
+    return {
+      tenantId,
+      medicineName: item.medicineName,
+      genericName: item.genericName,
+      strength: item.strength,
+      dosageForm: item.dosageForm,
+      route: item.route,
+      dosage: item.dosage,
+      frequency: item.frequency,
+      duration: item.duration,
+      timing: item.timing,
+      instructions: item.instructions,
+      quantity: item.quantity,
+      safetyWarnings: itemWarnings.length > 0 ? (itemWarnings as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+      overrideReason,
+      overriddenBy: overrideReason ? userId : null,
+    };
+  });
+
   // Get doctor master ID
   const doctorMaster = await prisma.doctor.findFirst({
     where: { tenantId, userId },
@@ -243,27 +280,24 @@ export async function saveConsultationPrescription(
     include: { items: true },
   });
 
-  let prescriptionRecord;
+  let prescriptionRecord: PrescriptionRecord;
 
   if (existingPrescription) {
     // Update: Delete existing items and recreate
-    await prisma.$transaction(async (tx) => {
+    prescriptionRecord = await prisma.$transaction(async (tx) => {
       // Delete existing items
       await tx.prescriptionItem.deleteMany({
         where: { prescriptionId: existingPrescription.id },
       });
 
       // Update prescription
-      prescriptionRecord = await tx.prescription.update({
+      return tx.prescription.update({
         where: { id: existingPrescription.id },
         data: {
           notes: prescription.followUpAdvice,
           updatedBy: userId,
           items: {
-            create: prescription.items.map(item => ({
-              tenantId,
-              ...item,
-            })),
+            create: itemsData,
           },
         },
         include: { items: true },
@@ -303,10 +337,7 @@ export async function saveConsultationPrescription(
         createdBy: userId,
         updatedBy: userId,
         items: {
-          create: prescription.items.map(item => ({
-            tenantId,
-            ...item,
-          })),
+          create: itemsData,
         },
       },
       include: { items: true },
@@ -338,10 +369,26 @@ export async function saveConsultationPrescription(
     });
   }
 
+  // Record overridden MAJOR warnings separately for safety review
+  const overridden = warnings.filter(w => w.severity === 'MAJOR');
+  if (overridden.length > 0) {
+    await createAuditLog({
+      action: "SAFETY_OVERRIDE",
+      entityType: "PRESCRIPTION",
+      entityId: prescriptionRecord.id,
+      newValue: {
+        warnings: overridden,
+        reasons: itemsData.filter(i => i.overrideReason).map(i => ({ medicineName: i.medicineName, overrideReason: i.overrideReason })),
+      },
+      tenantId,
+      performedBy: userId,
+    });
+  }
+
   // Update doctor's medicine favorites
   await updateDoctorMedicineFavorites(tenantId, userId, prescription.items);
 
-  return { success: true, data: prescriptionRecord };
+  return { success: true, data: prescriptionRecord, warnings };
 }
 
 /**
@@ -505,6 +552,129 @@ export async function saveConsultationLabOrders(
   return { success: true, data: labOrderRecord };
 }
 
+// ============== CODED DIAGNOSES (ICD-10) ==============
+
+export interface CodedDiagnosisInput {
+  icdCodeId: string;
+  rank: 'PRIMARY' | 'SECONDARY';
+  certainty: 'PROVISIONAL' | 'FINAL';
+  notes?: string | null;
+}
+
+/**
+ * Replace the coded diagnosis list of a consultation.
+ * Exactly one PRIMARY is required when any diagnosis is coded.
+ * If the free-text diagnosis is still empty it is filled from the primary
+ * code so existing screens and the completion check keep working.
+ */
+export async function saveConsultationDiagnoses(
+  visitId: string,
+  diagnoses: CodedDiagnosisInput[],
+  tenantId: string,
+  userId: string
+): Promise<{ success: boolean; data?: ConsultationDiagnosisRecord[]; error?: string }> {
+  // Validate visit is editable
+  if (!await isVisitEditable(visitId, tenantId)) {
+    return { success: false, error: "Visit is locked and cannot be edited" };
+  }
+
+  // Validate doctor access
+  const access = await validateDoctorAccess(visitId, tenantId, userId);
+  if (!access.valid) {
+    return { success: false, error: "You are not authorized to edit this consultation" };
+  }
+
+  const consultation = await prisma.consultation.findFirst({
+    where: { visitId, tenantId },
+    include: { codedDiagnoses: true },
+  });
+
+  if (!consultation) {
+    return { success: false, error: "Please save clinical notes before coding diagnoses" };
+  }
+
+  const uniqueIds = new Set(diagnoses.map(d => d.icdCodeId));
+  if (uniqueIds.size !== diagnoses.length) {
+    return { success: false, error: "The same ICD code cannot be added twice" };
+  }
+
+  const primaryCount = diagnoses.filter(d => d.rank === 'PRIMARY').length;
+  if (diagnoses.length > 0 && primaryCount !== 1) {
+    return { success: false, error: "Exactly one primary diagnosis is required" };
+  }
+
+  const codes = await prisma.icdCode.findMany({
+    where: { id: { in: Array.from(uniqueIds) }, isActive: true },
+  });
+  const codeMap = new Map(codes.map(c => [c.id, c]));
+  const missing = diagnoses.find(d => !codeMap.has(d.icdCodeId));
+  if (missing) {
+    return { success: false, error: "One or more ICD codes are invalid or inactive" };
+  }
+
+  // Primary first, then in the order entered
+  const ordered = [
+    ...diagnoses.filter(d => d.rank === 'PRIMARY'),
+    ...diagnoses.filter(d => d.rank !== 'PRIMARY'),
+  ];
+
+  const saved = await prisma.$transaction(async (tx) => {
+    await tx.consultationDiagnosis.deleteMany({
+      where: { consultationId: consultation.id },
+    });
+
+    if (ordered.length > 0) {
+      await tx.consultationDiagnosis.createMany({
+        data: ordered.map((d, index) => {
+          const icd = codeMap.get(d.icdCodeId)!;
+          return {
+            tenantId,
+            consultationId: consultation.id,
+            icdCodeId: icd.id,
+            code: icd.code,
+            description: icd.description,
+            chapter: icd.chapter,
+            rank: d.rank,
+            certainty: d.certainty,
+            notes: d.notes,
+            sortOrder: index,
+            createdBy: userId,
+            updatedBy: userId,
+          };
+        }),
+      });
+    }
+
+    const primary = ordered[0] ? codeMap.get(ordered[0].icdCodeId) : null;
+    if (primary && !consultation.diagnosis) {
+      await tx.consultation.update({
+        where: { id: consultation.id },
+        data: {
+          diagnosis: `${primary.description} (${primary.code})`,
+          updatedBy: userId,
+        },
+      });
+    }
+
+    return tx.consultationDiagnosis.findMany({
+      where: { consultationId: consultation.id },
+      orderBy: { sortOrder: 'asc' },
+    });
+  });
+
+  await createAuditLog({
+    action: "UPDATE",
+    entityType: "CONSULTATION_DIAGNOSIS",
+    entityId: consultation.id,
+    oldValue: consultation.codedDiagnoses,
+    newValue: saved,
+    tenantId,
+    performedBy: userId,
+  });
+
+  return { success: true, data: saved };
+}
+
 // ============== COMPLETE VISIT ==============
 
 export async function completeConsultation(
@@ -0,0 +1,291 @@
+/**
+ * ICD-10 Code Master Service
+ *
+ * Global (non-tenant) diagnosis code master used for structured coding of
+ * consultations. Maintained by the superadmin via CSV import; read by the
+ * consultation screen through the auto-suggest endpoint.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/app/generated/prisma/client";
+import { parseCSV } from "@/lib/services/masters/importExportUtils";
+
+// ============== CHAPTERS ==============
+
+export interface IcdChapter {
+  chapter: string;
+  title: string;
+  start: string;
+  end: string;
+}
+
+/**
+ * WHO ICD-10 chapter ranges (by 3-character category).
+ * Used when an imported row does not carry its own chapter.
+ */
+export const ICD10_CHAPTERS: IcdChapter[] = [
+  { chapter: "I", start: "A00", end: "B99", title: "Certain infectious and parasitic diseases" },
+  { chapter: "II", start: "C00", end: "D48", title: "Neoplasms" },
+  { chapter: "III", start: "D50", end: "D89", title: "Diseases of the blood and blood-forming organs and certain disorders involving the immune mechanism" },
+  { chapter: "IV", start: "E00", end: "E90", title: "Endocrine, nutritional and metabolic diseases" },
+  { chapter: "V", start: "F00", end: "F99", title: "Mental and behavioural disorders" },
+  { chapter: "VI", start: "G00", end: "G99", title: "Diseases of the nervous system" },
+  { chapter: "VII", start: "H00", end: "H59", title: "Diseases of the eye and adnexa" },
+  { chapter: "VIII", start: "H60", end: "H95", title: "Diseases of the ear and mastoid process" },
+  { chapter: "IX", start: "I00", end: "I99", title: "Diseases of the circulatory system" },
+  { chapter: "X", start: "J00", end: "J99", title: "Diseases of the respiratory system" },
+  { chapter: "XI", start: "K00", end: "K93", title: "Diseases of the digestive system" },
+  { chapter: "XII", start: "L00", end: "L99", title: "Diseases of the skin and subcutaneous tissue" },
+  { chapter: "XIII", start: "M00", end: "M99", title: "Diseases of the musculoskeletal system and connective tissue" },
+  { chapter: "XIV", start: "N00", end: "N99", title: "Diseases of the genitourinary system" },
+  { chapter: "XV", start: "O00", end: "O99", title: "Pregnancy, childbirth and the puerperium" },
+  { chapter: "XVI", start: "P00", end: "P96", title: "Certain conditions originating in the perinatal period" },
+  { chapter: "XVII", start: "Q00", end: "Q99", title: "Congenital malformations, deformations and chromosomal abnormalities" },
+  { chapter: "XVIII", start: "R00", end: "R99", title: "Symptoms, signs and abnormal clinical and laboratory findings, not elsewhere classified" },
+  { chapter: "XIX", start: "S00", end: "T98", title: "Injury, poisoning and certain other consequences of external causes" },
+  { chapter: "XX", start: "V01", end: "Y98", title: "External causes of morbidity and mortality" },
+  { chapter: "XXI", start: "Z00", end: "Z99", title: "Factors influencing health status and contact with health services" },
+  { chapter: "XXII", start: "U00", end: "U99", title: "Codes for special purposes" },
+];
+
+const CODE_PATTERN = /^[A-Z][0-9]{2}(\.[0-9A-Z]{1,4})?$/;
+
+/**
+ * Normalize a code to dotted upper-case form ("e119" -> "E11.9").
+ * Returns null when the value is not a valid ICD-10 code.
+ */
+export function normalizeIcdCode(raw: string): string | null {
+  let code = raw.trim().toUpperCase().replace(/\s+/g, "");
+  if (!code) return null;
+  if (!code.includes(".") && code.length > 3) {
+    code = `${code.slice(0, 3)}.${code.slice(3)}`;
+  }
+  if (code.endsWith(".")) code = code.slice(0, -1);
+  return CODE_PATTERN.test(code) ? code : null;
+}
+
+/**
+ * Resolve the chapter for a code from its 3-character category
+ */
+export function resolveIcdChapter(code: string): IcdChapter | null {
+  const category = code.slice(0, 3).toUpperCase();
+  return ICD10_CHAPTERS.find((c) => category >= c.start && category <= c.end) ?? null;
+}
+
+// ============== IMPORT ==============
+
+export interface IcdImportResult {
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
+const IMPORT_BATCH_SIZE = 500;
+
+function isTruthy(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value === "") return fallback;
+  return ["true", "yes", "y", "1"].includes(value.toLowerCase());
+}
+
+/**
+ * Import ICD-10 codes from CSV content.
+ *
+ * Expected headers (case-insensitive): code, description.
+ * Optional: chapter, chapter_title, block, billable, active.
+ * Existing codes are updated in place; rows with invalid codes are reported
+ * and skipped. Codes are never deleted — deactivate via the "active" column.
+ */
+export async function importIcdCodes(
+  csvContent: string,
+  performedBy: string
+): Promise<IcdImportResult> {
+  const rows = parseCSV(csvContent);
+  const result: IcdImportResult = { total: rows.length, created: 0, updated: 0, skipped: 0, errors: [] };
+  const parsed = new Map<string, Prisma.IcdCodeCreateManyInput>();
+
+  rows.forEach((row, index) => {
+    // Header is line 1, so data rows start at line 2
+    const line = index + 2;
+    const code = normalizeIcdCode(row.code ?? "");
+    const description = (row.description ?? row.title ?? "").trim();
+
+    if (!code) {
+      result.skipped++;
+      result.errors.push({ row: line, message: `Invalid ICD-10 code "${row.code ?? ""}"` });
+      return;
+    }
+    if (!description) {
+      result.skipped++;
+      result.errors.push({ row: line, message: `Description is required for ${code}` });
+      return;
+    }
+
+    const derived = resolveIcdChapter(code);
+    const chapter = (row.chapter || derived?.chapter || "").toUpperCase();
+    if (!chapter) {
+      result.skipped++;
+      result.errors.push({ row: line, message: `Could not determine chapter for ${code}` });
+      return;
+    }
+
+    // Later rows win when the file repeats a code
+    parsed.set(code, {
+      code,
+      description,
+      chapter,
+      chapterTitle: row.chapter_title || row.chaptertitle || (derived?.chapter === chapter ? derived.title : null),
+      block: row.block || null,
+      isBillable: isTruthy(row.billable, true),
+      isActive: isTruthy(row.active, true),
+      createdBy: performedBy,
+      updatedBy: performedBy,
+    });
+  });
+
+  const entries = Array.from(parsed.values());
+  for (let i = 0; i < entries.length; i += IMPORT_BATCH_SIZE) {
+    const batch = entries.slice(i, i + IMPORT_BATCH_SIZE);
+    const existing = await prisma.icdCode.findMany({
+      where: { code: { in: batch.map((e) => e.code) } },
+      select: { code: true },
+    });
+    const existingCodes = new Set(existing.map((e) => e.code));
+    const toCreate = batch.filter((e) => !existingCodes.has(e.code));
+    const toUpdate = batch.filter((e) => existingCodes.has(e.code));
+
+    await prisma.$transaction(async (tx) => {
+      if (toCreate.length > 0) {
+        await tx.icdCode.createMany({ data: toCreate, skipDuplicates: true });
+      }
+      for (const entry of toUpdate) {
+        await tx.icdCode.update({
+          where: { code: entry.code },
+          data: {
+            description: entry.description,
+            chapter: entry.chapter,
+            chapterTitle: entry.chapterTitle,
+            block: entry.block,
+            isBillable: entry.isBillable,
+            isActive: entry.isActive,
+            updatedBy: performedBy,
+          },
+        });
+      }
+    });
+
+    result.created += toCreate.length;
+    result.updated += toUpdate.length;
+  }
+
+  return result;
+}
+
+// ============== SEARCH ==============
+
+export interface IcdCodeSuggestion {
+  id: string;
+  code: string;
+  description: string;
+  chapter: string;
+  chapterTitle: string | null;
+  isBillable: boolean;
+}
+
+/**
+ * ICD-10 auto-suggest.
+ * Exact code-prefix matches are listed first, then description matches.
+ */
+export async function searchIcdCodes(
+  query: string,
+  limit: number = 10
+): Promise<IcdCodeSuggestion[]> {
+  if (!query || query.length < 2) {
+    return [];
+  }
+
+  const searchTerm = query.trim();
+  const select = {
+    id: true,
+    code: true,
+    description: true,
+    chapter: true,
+    chapterTitle: true,
+    isBillable: true,
+  } as const;
+
+  // 1. Code prefix ("E11", "e11.9")
+  const byCode = await prisma.icdCode.findMany({
+    where: {
+      isActive: true,
+      code: { startsWith: searchTerm.toUpperCase() },
+    },
+    select,
+    orderBy: { code: "asc" },
+    take: limit,
+  });
+
+  const results: IcdCodeSuggestion[] = [...byCode];
+  const seenIds = new Set(byCode.map((c) => c.id));
+
+  // 2. Description text
+  if (results.length < limit) {
+    const byDescription = await prisma.icdCode.findMany({
+      where: {
+        isActive: true,
+        description: { contains: searchTerm, mode: "insensitive" },
+      },
+      select,
+      orderBy: { code: "asc" },
+      take: limit,
+    });
+
+    for (const code of byDescription) {
+      if (results.length >= limit) break;
+      if (seenIds.has(code.id)) continue;
+      results.push(code);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Paginated master listing for the superadmin screen
+ */
+export async function listIcdCodes(options: {
+  search?: string;
+  chapter?: string;
+  cursor?: string;
+  limit?: number;
+}) {
+  const limit = options.limit || 50;
+  const where: Prisma.IcdCodeWhereInput = {};
+
+  if (options.chapter) where.chapter = options.chapter;
+  if (options.search) {
+    where.OR = [
+      { code: { startsWith: options.search.toUpperCase() } },
+      { description: { contains: options.search, mode: "insensitive" } },
+    ];
+  }
+
+  const codes = await prisma.icdCode.findMany({
+    where,
+    orderBy: { code: "asc" },
+    take: limit + 1,
+    ...(options.cursor && { skip: 1, cursor: { id: options.cursor } }),
+  });
+
+  const hasMore = codes.length > limit;
+  const data = hasMore ? codes.slice(0, limit) : codes;
+
+  return {
+    data,
+    pagination: {
+      cursor: hasMore ? data[data.length - 1].id : null,
+      hasMore,
+    },
+  };
+}
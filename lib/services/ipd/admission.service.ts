@@ -0,0 +1,578 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import type { Prisma, AdmissionStatus, BedStatus, DischargeType } from "@/app/generated/prisma/client";
+import { Prisma as PrismaNamespace } from "@/app/generated/prisma/client";
+import { syncVisitDraftInvoice } from "@/lib/services/billing/invoice.service";
+import type { AdmitPatientInput, TransferBedInput, DischargeInput } from "@/lib/schemas/ipd-schema";
+
+const Decimal = PrismaNamespace.Decimal;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Beds that can take a new patient */
+const ASSIGNABLE_BED_STATUSES: BedStatus[] = ["AVAILABLE", "RESERVED"];
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface AdmissionListItem {
+  id: string;
+  admissionNumber: string;
+  patientId: string;
+  patientName: string;
+  uhid: string;
+  status: AdmissionStatus;
+  wardName: string | null;
+  bedLabel: string | null;
+  doctorName: string | null;
+  admittedAt: string;
+  dischargedAt: string | null;
+  lengthOfStayDays: number;
+}
+
+interface BedStay {
+  id: string;
+  bedId: string;
+  bedLabel: string;
+  wardName: string;
+  startAt: string;
+  endAt: string | null;
+  dailyRate: string;
+  days: number;
+  reason: string | null;
+}
+
+interface AdmissionDetail extends AdmissionListItem {
+  visitId: string;
+  bedId: string | null;
+  doctorMasterId: string | null;
+  departmentId: string | null;
+  departmentName: string | null;
+  admissionReason: string | null;
+  provisionalDiagnosis: string | null;
+  attendantName: string | null;
+  attendantPhone: string | null;
+  dischargeType: DischargeType | null;
+  dischargeNotes: string | null;
+  version: number;
+  bedStays: BedStay[];
+  charges: {
+    pharmacy: string;
+    pharmacySaleCount: number;
+    bed: string;
+    total: string;
+  };
+  invoices: Array<{ id: string; invoiceNumber: string; status: string; total: number; outstanding: number }>;
+}
+
+interface CursorResult<T> {
+  data: T[];
+  pagination: { cursor: string | null; hasMore: boolean };
+}
+
+interface AdmissionQueryOptions {
+  search?: string;
+  status?: AdmissionStatus;
+  wardId?: string;
+  patientId?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+async function generateAdmissionNumber(
+  tenantId: string,
+  tx: Prisma.TransactionClient
+): Promise<string> {
+  const year = new Date().getFullYear();
+  const prefix = `ADM-${year}-`;
+
+  const last = await tx.admission.findFirst({
+    where: { tenantId, admissionNumber: { startsWith: prefix } },
+    orderBy: { admissionNumber: "desc" },
+    select: { admissionNumber: true },
+  });
+
+  let seq = 1;
+  if (last) {
+    const num = parseInt(last.admissionNumber.replace(prefix, ""), 10);
+    if (!isNaN(num)) seq = num + 1;
+  }
+
+  return `${prefix}${String(seq).padStart(5, "0")}`;
+}
+
+/** Started days; a running stay is counted up to now */
+function stayDays(startAt: Date, endAt: Date | null): number {
+  return Math.ceil(((endAt ?? new Date()).getTime() - startAt.getTime()) / DAY_MS);
+}
+
+/**
+ * Lock a bed row and verify it can take a patient.
+ * Room rate wins over the ward default.
+ */
+async function lockAssignableBed(tx: Prisma.TransactionClient, tenantId: string, bedId: string) {
+  await tx.$executeRaw`SELECT id FROM "Bed" WHERE id = ${bedId} FOR UPDATE`;
+
+  const bed = await tx.bed.findFirst({
+    where: { id: bedId, tenantId, isDeleted: false, status: "ACTIVE" },
+    include: {
+      room: { select: { roomNumber: true, dailyRate: true, isDeleted: true } },
+      ward: { select: { name: true, dailyRate: true, status: true, isDeleted: true } },
+    },
+  });
+  if (!bed || bed.room.isDeleted || bed.ward.isDeleted || bed.ward.status !== "ACTIVE") {
+    throw new AppError("Bed not found or inactive", 404, "BED_NOT_FOUND");
+  }
+  if (!ASSIGNABLE_BED_STATUSES.includes(bed.bedStatus)) {
+    throw new AppError(`Bed is ${bed.bedStatus.toLowerCase()} and cannot be assigned`, 400, "BED_NOT_AVAILABLE");
+  }
+
+  return {
+    ...bed,
+    dailyRate: bed.room.dailyRate ?? bed.ward.dailyRate ?? new Decimal(0),
+  };
+}
+
+async function getAdmittedAdmission(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  admissionId: string,
+  version: number
+) {
+  const admission = await tx.admission.findFirst({ where: { id: admissionId, tenantId } });
+  if (!admission) throw new AppError("Admission not found", 404, "ADMISSION_NOT_FOUND");
+  if (admission.status !== "ADMITTED") {
+    throw new AppError("Patient has already been discharged", 400, "ADMISSION_NOT_ACTIVE");
+  }
+  if (admission.version !== version) {
+    throw new AppError("Admission has been modified. Refresh and try again.", 409, "VERSION_CONFLICT");
+  }
+  return admission;
+}
+
+/** Close the running bed stay and release the bed to housekeeping */
+async function vacateCurrentBed(
+  tx: Prisma.TransactionClient,
+  admission: { id: string; bedId: string | null },
+  userId: string,
+  at: Date
+) {
+  await tx.admissionBedAssignment.updateMany({
+    where: { admissionId: admission.id, endAt: null },
+    data: { endAt: at },
+  });
+
+  if (admission.bedId) {
+    await tx.bed.update({
+      where: { id: admission.bedId },
+      data: { bedStatus: "CLEANING", updatedBy: userId, version: { increment: 1 } },
+    });
+  }
+}
+
+// =====================================================
+// ADMIT
+// Flow: Patient → Bed lock → IPD Visit → Admission → Bed stay
+// =====================================================
+
+export async function admitPatient(
+  tenantId: string,
+  userId: string,
+  input: AdmitPatientInput
+): Promise<AdmissionDetail> {
+  const admissionId = await prisma.$transaction(async (tx) => {
+    // 1. Validate patient and guard against double admission
+    const patient = await tx.patient.findFirst({
+      where: { id: input.patientId, tenantId, status: "ACTIVE" },
+      select: { id: true },
+    });
+    if (!patient) throw new AppError("Patient not found or inactive", 404, "PATIENT_NOT_FOUND");
+
+    await tx.$executeRaw`SELECT id FROM "Patient" WHERE id = ${patient.id} FOR UPDATE`;
+    const active = await tx.admission.findFirst({
+      where: { tenantId, patientId: patient.id, status: "ADMITTED" },
+      select: { admissionNumber: true },
+    });
+    if (active) {
+      throw new AppError(`Patient is already admitted (${active.admissionNumber})`, 409, "PATIENT_ALREADY_ADMITTED");
+    }
+
+    // 2. Lock & validate bed
+    const bed = await lockAssignableBed(tx, tenantId, input.bedId);
+
+    // 3. Validate consultant
+    let doctor: { id: string; userId: string; primaryDepartmentId: string | null } | null = null;
+    if (input.doctorMasterId) {
+      doctor = await tx.doctor.findFirst({
+        where: { id: input.doctorMasterId, tenantId, isDeleted: false },
+        select: { id: true, userId: true, primaryDepartmentId: true },
+      });
+      if (!doctor) throw new AppError("Doctor not found", 404, "DOCTOR_NOT_FOUND");
+    }
+    const departmentId = input.departmentId || doctor?.primaryDepartmentId || null;
+
+    // 4. IPD visit - carries orders, prescriptions, pharmacy sales and the bill
+    const lastVisit = await tx.visit.findFirst({
+      where: { patientId: patient.id },
+      orderBy: { visitNumber: "desc" },
+      select: { visitNumber: true },
+    });
+    const now = new Date();
+    const visit = await tx.visit.create({
+      data: {
+        tenantId,
+        patientId: patient.id,
+        doctorId: doctor?.userId ?? null,
+        doctorMasterId: doctor?.id ?? null,
+        departmentId,
+        visitType: "IPD",
+        visitNumber: (lastVisit?.visitNumber || 0) + 1,
+        status: "IN_PROGRESS",
+        checkInTime: now,
+        startTime: now,
+        notes: input.admissionReason || null,
+        createdBy: userId,
+        updatedBy: userId,
+      },
+    });
+
+    // 5. Admission + first bed stay
+    const admissionNumber = await generateAdmissionNumber(tenantId, tx);
+    const admission = await tx.admission.create({
+      data: {
+        tenantId,
+        admissionNumber,
+        patientId: patient.id,
+        visitId: visit.id,
+        doctorMasterId: doctor?.id ?? null,
+        departmentId,
+        bedId: bed.id,
+        admittedAt: now,
+        admissionReason: input.admissionReason || null,
+        provisionalDiagnosis: input.provisionalDiagnosis || null,
+        attendantName: input.attendantName || null,
+        attendantPhone: input.attendantPhone || null,
+        createdBy: userId,
+        updatedBy: userId,
+      },
+    });
+
+    await tx.admissionBedAssignment.create({
+      data: {
+        tenantId,
+        admissionId: admission.id,
+        bedId: bed.id,
+        startAt: now,
+        dailyRate: bed.dailyRate,
+        createdBy: userId,
+      },
+    });
+
+    await tx.bed.update({
+      where: { id: bed.id },
+      data: { bedStatus: "OCCUPIED", updatedBy: userId, version: { increment: 1 } },
+    });
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "ADMISSION",
+      entityId: admission.id,
+      action: "CREATE",
+      newValue: { admissionNumber, patientId: patient.id, bedId: bed.id, visitId: visit.id },
+    });
+
+    return admission.id;
+  });
+
+  return getAdmissionById(tenantId, admissionId);
+}
+
+// =====================================================
+// TRANSFER (bed / ward change)
+// =====================================================
+
+export async function transferBed(
+  tenantId: string,
+  userId: string,
+  admissionId: string,
+  input: TransferBedInput
+): Promise<AdmissionDetail> {
+  await prisma.$transaction(async (tx) => {
+    const admission = await getAdmittedAdmission(tx, tenantId, admissionId, input.version);
+    if (admission.bedId === input.toBedId) {
+      throw new AppError("Patient is already in this bed", 400, "SAME_BED");
+    }
+
+    const toBed = await lockAssignableBed(tx, tenantId, input.toBedId);
+    const now = new Date();
+
+    await vacateCurrentBed(tx, admission, userId, now);
+
+    await tx.admissionBedAssignment.create({
+      data: {
+        tenantId,
+        admissionId: admission.id,
+        bedId: toBed.id,
+        startAt: now,
+        dailyRate: toBed.dailyRate,
+        reason: input.reason,
+        createdBy: userId,
+      },
+    });
+
+    await tx.bed.update({
+      where: { id: toBed.id },
+      data: { bedStatus: "OCCUPIED", updatedBy: userId, version: { increment: 1 } },
+    });
+
+    await tx.admission.update({
+      where: { id: admission.id },
+      data: { bedId: toBed.id, updatedBy: userId, version: { increment: 1 } },
+    });
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "ADMISSION",
+      entityId: admission.id,
+      action: "TRANSFER",
+      oldValue: { bedId: admission.bedId },
+      newValue: { bedId: toBed.id, reason: input.reason },
+    });
+  });
+
+  return getAdmissionById(tenantId, admissionId);
+}
+
+// =====================================================
+// DISCHARGE
+// Flow: Close bed stay → Bed to CLEANING → Complete visit → Draft invoice with all accrued charges
+// =====================================================
+
+export async function dischargePatient(
+  tenantId: string,
+  userId: string,
+  admissionId: string,
+  input: DischargeInput
+): Promise<AdmissionDetail> {
+  await prisma.$transaction(async (tx) => {
+    const admission = await getAdmittedAdmission(tx, tenantId, admissionId, input.version);
+    const now = new Date();
+
+    await vacateCurrentBed(tx, admission, userId, now);
+
+    await tx.admission.update({
+      where: { id: admission.id },
+      data: {
+        status: "DISCHARGED",
+        bedId: null,
+        dischargedAt: now,
+        dischargedBy: userId,
+        dischargeType: input.dischargeType,
+        dischargeNotes: input.dischargeNotes || null,
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+    });
+
+    await tx.visit.update({
+      where: { id: admission.visitId },
+      data: { status: "COMPLETED", endTime: now, updatedBy: userId },
+    });
+
+    const invoiceId = await syncVisitDraftInvoice(
+      tx,
+      tenantId,
+      userId,
+      admission.visitId,
+      `IPD admission ${admission.admissionNumber}`
+    );
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "ADMISSION",
+      entityId: admission.id,
+      action: "DISCHARGE",
+      oldValue: { status: "ADMITTED", bedId: admission.bedId },
+      newValue: { status: "DISCHARGED", dischargeType: input.dischargeType, invoiceId },
+    });
+  });
+
+  return getAdmissionById(tenantId, admissionId);
+}
+
+// =====================================================
+// GET ADMISSIONS (cursor pagination)
+// =====================================================
+
+export async function getAdmissionsCursor(
+  tenantId: string,
+  options: AdmissionQueryOptions
+): Promise<CursorResult<AdmissionListItem>> {
+  const limit = options.limit ?? 20;
+  const where: Prisma.AdmissionWhereInput = { tenantId };
+
+  if (options.status) where.status = options.status;
+  if (options.patientId) where.patientId = options.patientId;
+  if (options.wardId) where.bed = { wardId: options.wardId };
+  if (options.search) {
+    where.OR = [
+      { admissionNumber: { contains: options.search, mode: "insensitive" } },
+      { patient: { firstName: { contains: options.search, mode: "insensitive" } } },
+      { patient: { lastName: { contains: options.search, mode: "insensitive" } } },
+      { patient: { uhid: { contains: options.search, mode: "insensitive" } } },
+    ];
+  }
+
+  const admissions = await prisma.admission.findMany({
+    where,
+    orderBy: { admittedAt: "desc" },
+    take: limit + 1,
+    ...(options.cursor && { skip: 1, cursor: { id: options.cursor } }),
+    include: {
+      patient: { select: { firstName: true, lastName: true, uhid: true } },
+      doctorMaster: { select: { fullName: true } },
+      bed: { select: { bedNumber: true, room: { select: { roomNumber: true } }, ward: { select: { name: true } } } },
+    },
+  });
+
+  const hasMore = admissions.length > limit;
+  const page = hasMore ? admissions.slice(0, limit) : admissions;
+
+  return {
+    data: page.map((a) => ({
+      id: a.id,
+      admissionNumber: a.admissionNumber,
+      patientId: a.patientId,
+      patientName: `${a.patient.firstName} ${a.patient.lastName ?? ""}`.trim(),
+      uhid: a.patient.uhid,
+      status: a.status,
+      wardName: a.bed?.ward.name ?? null,
+      bedLabel: a.bed ? `${a.bed.room.roomNumber}-${a.bed.bedNumber}` : null,
+      doctorName: a.doctorMaster?.fullName ?? null,
+      admittedAt: a.admittedAt.toISOString(),
+      dischargedAt: a.dischargedAt?.toISOString() ?? null,
+      lengthOfStayDays: Math.max(1, stayDays(a.admittedAt, a.dischargedAt)),
+    })),
+    pagination: {
+      cursor: hasMore ? page[page.length - 1].id : null,
+      hasMore,
+    },
+  };
+}
+
+// =====================================================
+// GET ADMISSION BY ID (with running charges)
+// =====================================================
+
+export async function getAdmissionById(tenantId: string, admissionId: string): Promise<AdmissionDetail> {
+  const admission = await prisma.admission.findFirst({
+    where: { id: admissionId, tenantId },
+    include: {
+      patient: { select: { firstName: true, lastName: true, uhid: true } },
+      doctorMaster: { select: { fullName: true } },
+      department: { select: { name: true } },
+      bed: { select: { bedNumber: true, room: { select: { roomNumber: true } }, ward: { select: { name: true } } } },
+      bedAssignments: {
+        orderBy: { startAt: "asc" },
+        include: {
+          bed: { select: { bedNumber: true, room: { select: { roomNumber: true } }, ward: { select: { name: true } } } },
+        },
+      },
+      visit: {
+        select: {
+          invoices: {
+            where: { status: { not: "CANCELLED" } },
+            orderBy: { createdAt: "asc" },
+            select: { id: true, invoiceNumber: true, status: true, total: true, outstanding: true },
+          },
+        },
+      },
+    },
+  });
+  if (!admission) throw new AppError("Admission not found", 404, "ADMISSION_NOT_FOUND");
+
+  const pharmacy = await prisma.pharmacySale.aggregate({
+    where: { tenantId, isDeleted: false, status: "COMPLETED", OR: [{ admissionId }, { visitId: admission.visitId }] },
+    _sum: { netAmount: true },
+    _count: true,
+  });
+
+  let bedTotal = new Decimal(0);
+  const bedStays: BedStay[] = admission.bedAssignments.map((stay) => {
+    const days = Math.max(0, stayDays(stay.startAt, stay.endAt));
+    bedTotal = bedTotal.add(stay.dailyRate.mul(days));
+    return {
+      id: stay.id,
+      bedId: stay.bedId,
+      bedLabel: `${stay.bed.room.roomNumber}-${stay.bed.bedNumber}`,
+      wardName: stay.bed.ward.name,
+      startAt: stay.startAt.toISOString(),
+      endAt: stay.endAt?.toISOString() ?? null,
+      dailyRate: stay.dailyRate.toString(),
+      days,
+      reason: stay.reason,
+    };
+  });
+
+  const pharmacyTotal = pharmacy._sum.netAmount ?? new Decimal(0);
+
+  return {
+    id: admission.id,
+    admissionNumber: admission.admissionNumber,
+    patientId: admission.patientId,
+    patientName: `${admission.patient.firstName} ${admission.patient.lastName ?? ""}`.trim(),
+    uhid: admission.patient.uhid,
+    status: admission.status,
+    wardName: admission.bed?.ward.name ?? null,
+    bedLabel: admission.bed ? `${admission.bed.room.roomNumber}-${admission.bed.bedNumber}` : null,
+    doctorName: admission.doctorMaster?.fullName ?? null,
+    admittedAt: admission.admittedAt.toISOString(),
+    dischargedAt: admission.dischargedAt?.toISOString() ?? null,
+    lengthOfStayDays: Math.max(1, stayDays(admission.admittedAt, admission.dischargedAt)),
+    visitId: admission.visitId,
+    bedId: admission.bedId,
+    doctorMasterId: admission.doctorMasterId,
+    departmentId: admission.departmentId,
+    departmentName: admission.department?.name ?? null,
+    admissionReason: admission.admissionReason,
+    provisionalDiagnosis: admission.provisionalDiagnosis,
+    attendantName: admission.attendantName,
+    attendantPhone: admission.attendantPhone,
+    dischargeType: admission.dischargeType,
+    dischargeNotes: admission.dischargeNotes,
+    version: admission.version,
+    bedStays,
+    charges: {
+      pharmacy: pharmacyTotal.toString(),
+      pharmacySaleCount: pharmacy._count,
+      bed: bedTotal.toString(),
+      total: pharmacyTotal.add(bedTotal).toString(),
+    },
+    invoices: admission.visit.invoices,
+  };
+}
+
+// =====================================================
+// ACTIVE ADMISSION LOOKUP (IP pharmacy, billing)
+// =====================================================
+
+export async function getActiveAdmissionForPatient(tenantId: string, patientId: string) {
+  return prisma.admission.findFirst({
+    where: { tenantId, patientId, status: "ADMITTED" },
+    select: {
+      id: true,
+      admissionNumber: true,
+      visitId: true,
+      admittedAt: true,
+      bed: { select: { bedNumber: true, room: { select: { roomNumber: true } }, ward: { select: { name: true } } } },
+    },
+  });
+}
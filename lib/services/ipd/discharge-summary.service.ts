@@ -0,0 +1,500 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import { format } from "date-fns";
+import type {
+  AdmissionStatus,
+  DischargeSummaryStatus,
+  DischargeType,
+  Gender,
+  LabResultFlag,
+} from "@/app/generated/prisma/client";
+import { Prisma } from "@/app/generated/prisma/client";
+import { getTenantLetterhead, type LabReportLetterhead } from "@/lib/services/lab/lab-report.service";
+import { getAgeInYears } from "@/lib/services/lab/reference-range";
+import {
+  DischargeSummaryContentSchema,
+  type DischargeMedication,
+  type DischargeSummaryContent,
+} from "@/lib/schemas/ipd-schema";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface DischargeSummarySources {
+  consultations: Array<{
+    id: string;
+    date: string;
+    doctorName: string;
+    chiefComplaint: string;
+    diagnosis: string | null;
+    codedDiagnoses: string[];
+    treatmentPlan: string | null;
+    followUpPlan: string | null;
+  }>;
+  labResults: Array<{
+    id: string;
+    orderNumber: string;
+    testName: string;
+    result: string;
+    unit: string | null;
+    referenceRange: string | null;
+    flag: LabResultFlag | null;
+    isCritical: boolean;
+    verifiedAt: string;
+  }>;
+  prescriptions: Array<{
+    id: string;
+    date: string;
+    doctorName: string;
+    items: DischargeMedication[];
+  }>;
+  /** IP pharmacy issues aggregated by product */
+  pharmacyIssues: Array<{ productName: string; genericName: string; quantity: number }>;
+}
+
+interface SummaryAdmissionHeader {
+  id: string;
+  admissionNumber: string;
+  status: AdmissionStatus;
+  patientId: string;
+  patientName: string;
+  uhid: string;
+  gender: Gender;
+  ageYears: number | null;
+  mobile: string;
+  doctorName: string | null;
+  departmentName: string | null;
+  wardName: string | null;
+  bedLabel: string | null;
+  admittedAt: string;
+  dischargedAt: string | null;
+  dischargeType: DischargeType | null;
+}
+
+export interface DischargeSummaryView {
+  admission: SummaryAdmissionHeader;
+  summary: {
+    id: string;
+    status: DischargeSummaryStatus;
+    lastSavedAt: string | null;
+    finalizedAt: string | null;
+    finalizedByName: string | null;
+    version: number;
+  } | null;
+  content: DischargeSummaryContent;
+  sources: DischargeSummarySources;
+  canEdit: boolean;
+}
+
+export interface DischargeSummaryPrintData {
+  letterhead: LabReportLetterhead;
+  admission: SummaryAdmissionHeader;
+  status: DischargeSummaryStatus;
+  content: DischargeSummaryContent;
+  finalizedAt: string | null;
+  finalizedByName: string | null;
+}
+
+type AdmissionForSummary = NonNullable<Awaited<ReturnType<typeof loadAdmission>>>;
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+async function loadAdmission(tenantId: string, admissionId: string) {
+  return prisma.admission.findFirst({
+    where: { id: admissionId, tenantId },
+    include: {
+      patient: {
+        select: {
+          id: true, firstName: true, middleName: true, lastName: true, uhid: true,
+          gender: true, dateOfBirth: true, ageYears: true, primaryMobile: true,
+        },
+      },
+      doctorMaster: { select: { fullName: true } },
+      department: { select: { name: true } },
+      // Last bed held (current bed is cleared on discharge)
+      bedAssignments: {
+        orderBy: { startAt: "desc" },
+        take: 1,
+        include: { bed: { select: { bedNumber: true, room: { select: { roomNumber: true } }, ward: { select: { name: true } } } } },
+      },
+      dischargeSummary: true,
+    },
+  });
+}
+
+async function requireAdmission(tenantId: string, admissionId: string): Promise<AdmissionForSummary> {
+  const admission = await loadAdmission(tenantId, admissionId);
+  if (!admission) throw new AppError("Admission not found", 404, "ADMISSION_NOT_FOUND");
+  return admission;
+}
+
+function toHeader(admission: AdmissionForSummary): SummaryAdmissionHeader {
+  const p = admission.patient;
+  const lastBed = admission.bedAssignments[0]?.bed;
+  return {
+    id: admission.id,
+    admissionNumber: admission.admissionNumber,
+    status: admission.status,
+    patientId: p.id,
+    patientName: [p.firstName, p.middleName, p.lastName].filter(Boolean).join(" "),
+    uhid: p.uhid,
+    gender: p.gender,
+    ageYears: getAgeInYears(p.dateOfBirth, p.ageYears),
+    mobile: p.primaryMobile,
+    doctorName: admission.doctorMaster?.fullName ?? null,
+    departmentName: admission.department?.name ?? null,
+    wardName: lastBed?.ward.name ?? null,
+    bedLabel: lastBed ? `${lastBed.room.roomNumber}-${lastBed.bedNumber}` : null,
+    admittedAt: admission.admittedAt.toISOString(),
+    dischargedAt: admission.dischargedAt?.toISOString() ?? null,
+    dischargeType: admission.dischargeType,
+  };
+}
+
+/**
+ * Clinical records belonging to the stay: anything on the IPD visit, plus the
+ * patient's records dated between admission and discharge (e.g. OPD reviews).
+ */
+async function collectSources(tenantId: string, admission: AdmissionForSummary): Promise<DischargeSummarySources> {
+  const window = { gte: admission.admittedAt, lte: admission.dischargedAt ?? new Date() };
+  const patientId = admission.patientId;
+
+  const [consultations, labResults, prescriptions, saleItems] = await Promise.all([
+    prisma.consultation.findMany({
+      where: {
+        tenantId,
+        OR: [{ visitId: admission.visitId }, { visit: { patientId }, consultationDate: window }],
+      },
+      orderBy: { consultationDate: "asc" },
+      include: {
+        doctor: { select: { fullName: true } },
+        codedDiagnoses: { orderBy: { sortOrder: "asc" }, select: { code: true, description: true } },
+      },
+    }),
+    prisma.labResult.findMany({
+      where: {
+        tenantId,
+        verifiedAt: { not: null },
+        labOrder: { OR: [{ visitId: admission.visitId }, { patientId, orderDate: window }] },
+      },
+      orderBy: { verifiedAt: "asc" },
+      include: { labOrder: { select: { orderNumber: true } } },
+    }),
+    prisma.prescription.findMany({
+      where: {
+        tenantId,
+        status: { not: "CANCELLED" },
+        OR: [{ visitId: admission.visitId }, { patientId, prescriptionDate: window }],
+      },
+      orderBy: { prescriptionDate: "asc" },
+      include: {
+        doctor: { select: { fullName: true } },
+        items: { orderBy: { createdAt: "asc" } },
+      },
+    }),
+    prisma.pharmacySaleItem.findMany({
+      where: {
+        tenantId,
+        isDeleted: false,
+        sale: { admissionId: admission.id, status: "COMPLETED", isDeleted: false },
+      },
+      select: { quantity: true, product: { select: { id: true, name: true, genericName: true } } },
+    }),
+  ]);
+
+  const issues = new Map<string, { productName: string; genericName: string; quantity: number }>();
+  for (const item of saleItems) {
+    const entry = issues.get(item.product.id) ?? { productName: item.product.name, genericName: item.product.genericName, quantity: 0 };
+    entry.quantity += Number(item.quantity);
+    issues.set(item.product.id, entry);
+  }
+
+  return {
+    consultations: consultations.map((c) => ({
+      id: c.id,
+      date: c.consultationDate.toISOString(),
+      doctorName: c.doctor.fullName,
+      chiefComplaint: c.chiefComplaint,
+      diagnosis: c.diagnosis,
+      codedDiagnoses: c.codedDiagnoses.map((d) => `${d.code} — ${d.description}`),
+      treatmentPlan: c.treatmentPlan,
+      followUpPlan: c.followUpPlan,
+    })),
+    labResults: labResults.map((r) => ({
+      id: r.id,
+      orderNumber: r.labOrder.orderNumber,
+      testName: r.testName,
+      result: r.result ?? "",
+      unit: r.unit,
+      referenceRange: r.referenceRange,
+      flag: r.flag,
+      isCritical: r.isCritical,
+      verifiedAt: r.verifiedAt!.toISOString(),
+    })),
+    prescriptions: prescriptions.map((rx) => ({
+      id: rx.id,
+      date: rx.prescriptionDate.toISOString(),
+      doctorName: rx.doctor.fullName,
+      items: rx.items.map((i) => ({
+        medicineName: [i.medicineName, i.strength].filter(Boolean).join(" "),
+        dosage: i.dosage,
+        frequency: i.frequency,
+        duration: i.duration,
+        instructions: [i.timing, i.instructions].filter(Boolean).join(", "),
+      })),
+    })),
+    pharmacyIssues: [...issues.values()].sort((a, b) => a.productName.localeCompare(b.productName)),
+  };
+}
+
+/** Starting content for a new summary, assembled from the stay's records */
+function buildPrefill(admission: AdmissionForSummary, sources: DischargeSummarySources): DischargeSummaryContent {
+  const coded = [...new Set(sources.consultations.flatMap((c) => c.codedDiagnoses))];
+  const lastDiagnosis = [...sources.consultations].reverse().find((c) => c.diagnosis)?.diagnosis;
+  const lastFollowUp = [...sources.consultations].reverse().find((c) => c.followUpPlan)?.followUpPlan;
+  const lastPrescription = sources.prescriptions[sources.prescriptions.length - 1];
+
+  const course = sources.consultations.map((c) => {
+    const finding = c.diagnosis || c.chiefComplaint;
+    return `${format(new Date(c.date), "dd MMM")}: ${finding}${c.treatmentPlan ? ` — ${c.treatmentPlan}` : ""}`;
+  });
+
+  const investigations = sources.labResults.map((r) => {
+    const flag = r.flag && r.flag !== "NORMAL" ? ` (${r.flag.replace(/_/g, " ")})` : "";
+    return `${r.testName}: ${r.result}${r.unit ? ` ${r.unit}` : ""}${flag}`;
+  });
+
+  return {
+    finalDiagnosis: coded.length > 0 ? coded.join("\n") : lastDiagnosis ?? admission.provisionalDiagnosis ?? "",
+    presentingComplaints: admission.admissionReason ?? sources.consultations[0]?.chiefComplaint ?? "",
+    courseInHospital: course.join("\n"),
+    investigations: investigations.join("\n"),
+    proceduresPerformed: "",
+    conditionAtDischarge: "",
+    dischargeMedications: lastPrescription?.items ?? [],
+    followUpPlan: lastFollowUp ?? "",
+    followUpDate: "",
+    dietAdvice: "",
+    specialInstructions: admission.dischargeNotes ?? "",
+  };
+}
+
+function contentFromColumns(summary: NonNullable<AdmissionForSummary["dischargeSummary"]>): DischargeSummaryContent {
+  return {
+    finalDiagnosis: summary.finalDiagnosis ?? "",
+    presentingComplaints: summary.presentingComplaints ?? "",
+    courseInHospital: summary.courseInHospital ?? "",
+    investigations: summary.investigations ?? "",
+    proceduresPerformed: summary.proceduresPerformed ?? "",
+    conditionAtDischarge: summary.conditionAtDischarge ?? "",
+    dischargeMedications: (summary.dischargeMedications as DischargeMedication[] | null) ?? [],
+    followUpPlan: summary.followUpPlan ?? "",
+    followUpDate: summary.followUpDate ? format(summary.followUpDate, "yyyy-MM-dd") : "",
+    dietAdvice: summary.dietAdvice ?? "",
+    specialInstructions: summary.specialInstructions ?? "",
+  };
+}
+
+/** Draft JSON is re-validated on read so schema changes never break the editor */
+function contentFromDraft(draftData: Prisma.JsonValue): DischargeSummaryContent | null {
+  const parsed = DischargeSummaryContentSchema.safeParse(draftData);
+  return parsed.success ? parsed.data : null;
+}
+
+async function getUserName(userId: string | null): Promise<string | null> {
+  if (!userId) return null;
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { fullName: true, doctor: { select: { fullName: true } } },
+  });
+  return user?.doctor?.fullName ?? user?.fullName ?? null;
+}
+
+function toColumns(content: DischargeSummaryContent) {
+  return {
+    finalDiagnosis: content.finalDiagnosis || null,
+    presentingComplaints: content.presentingComplaints || null,
+    courseInHospital: content.courseInHospital || null,
+    investigations: content.investigations || null,
+    proceduresPerformed: content.proceduresPerformed || null,
+    conditionAtDischarge: content.conditionAtDischarge || null,
+    dischargeMedications: content.dischargeMedications as unknown as Prisma.InputJsonValue,
+    followUpPlan: content.followUpPlan || null,
+    followUpDate: content.followUpDate ? new Date(content.followUpDate) : null,
+    dietAdvice: content.dietAdvice || null,
+    specialInstructions: content.specialInstructions || null,
+  };
+}
+
+// =====================================================
+// 1. EDITOR VIEW
+// Content precedence: finalized columns → autosaved draft → prefill
+// =====================================================
+
+export async function getDischargeSummary(tenantId: string, admissionId: string): Promise<DischargeSummaryView> {
+  const admission = await requireAdmission(tenantId, admissionId);
+  const sources = await collectSources(tenantId, admission);
+  const summary = admission.dischargeSummary;
+
+  let content: DischargeSummaryContent;
+  if (summary?.status === "FINALIZED") {
+    content = contentFromColumns(summary);
+  } else {
+    content = (summary?.draftData ? contentFromDraft(summary.draftData) : null) ?? buildPrefill(admission, sources);
+  }
+
+  return {
+    admission: toHeader(admission),
+    summary: summary
+      ? {
+          id: summary.id,
+          status: summary.status,
+          lastSavedAt: summary.lastSavedAt?.toISOString() ?? null,
+          finalizedAt: summary.finalizedAt?.toISOString() ?? null,
+          finalizedByName: await getUserName(summary.finalizedBy),
+          version: summary.version,
+        }
+      : null,
+    content,
+    sources,
+    canEdit: summary?.status !== "FINALIZED",
+  };
+}
+
+// =====================================================
+// 2. AUTOSAVE DRAFT
+// =====================================================
+
+export async function saveDischargeSummaryDraft(
+  tenantId: string,
+  userId: string,
+  admissionId: string,
+  content: DischargeSummaryContent
+): Promise<{ lastSavedAt: string }> {
+  const admission = await prisma.admission.findFirst({
+    where: { id: admissionId, tenantId },
+    select: { id: true, dischargeSummary: { select: { status: true } } },
+  });
+  if (!admission) throw new AppError("Admission not found", 404, "ADMISSION_NOT_FOUND");
+  if (admission.dischargeSummary?.status === "FINALIZED") {
+    throw new AppError("Discharge summary is finalized and locked", 409, "DISCHARGE_SUMMARY_LOCKED");
+  }
+
+  const now = new Date();
+  const draftData = content as unknown as Prisma.InputJsonValue;
+
+  await prisma.dischargeSummary.upsert({
+    where: { admissionId },
+    create: {
+      tenantId,
+      admissionId,
+      draftData,
+      lastSavedAt: now,
+      lastSavedBy: userId,
+      createdBy: userId,
+      updatedBy: userId,
+    },
+    update: {
+      draftData,
+      lastSavedAt: now,
+      lastSavedBy: userId,
+      updatedBy: userId,
+    },
+  });
+
+  return { lastSavedAt: now.toISOString() };
+}
+
+// =====================================================
+// 3. FINALIZE (locks the summary)
+// =====================================================
+
+export async function finalizeDischargeSummary(
+  tenantId: string,
+  userId: string,
+  admissionId: string,
+  content: DischargeSummaryContent
+): Promise<DischargeSummaryView> {
+  await prisma.$transaction(async (tx) => {
+    const admission = await tx.admission.findFirst({
+      where: { id: admissionId, tenantId },
+      select: { id: true, admissionNumber: true, status: true },
+    });
+    if (!admission) throw new AppError("Admission not found", 404, "ADMISSION_NOT_FOUND");
+    if (admission.status !== "DISCHARGED") {
+      throw new AppError("Discharge the patient before finalizing the summary", 400, "ADMISSION_NOT_DISCHARGED");
+    }
+
+    const existing = await tx.dischargeSummary.findUnique({ where: { admissionId }, select: { id: true } });
+    if (existing) {
+      await tx.$executeRaw`SELECT id FROM "DischargeSummary" WHERE id = ${existing.id} FOR UPDATE`;
+      const locked = await tx.dischargeSummary.findUnique({ where: { id: existing.id }, select: { status: true } });
+      if (locked?.status === "FINALIZED") {
+        throw new AppError("Discharge summary is already finalized", 409, "DISCHARGE_SUMMARY_LOCKED");
+      }
+    }
+
+    const now = new Date();
+    const finalized = {
+      ...toColumns(content),
+      status: "FINALIZED" as const,
+      draftData: Prisma.DbNull,
+      finalizedAt: now,
+      finalizedBy: userId,
+      updatedBy: userId,
+    };
+
+    const summary = existing
+      ? await tx.dischargeSummary.update({
+          where: { id: existing.id },
+          data: { ...finalized, version: { increment: 1 } },
+        })
+      : await tx.dischargeSummary.create({
+          data: { ...finalized, tenantId, admissionId, createdBy: userId },
+        });
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "DISCHARGE_SUMMARY",
+      entityId: summary.id,
+      action: "FINALIZE",
+      newValue: { admissionId, admissionNumber: admission.admissionNumber, finalDiagnosis: summary.finalDiagnosis },
+    });
+  });
+
+  return getDischargeSummary(tenantId, admissionId);
+}
+
+// =====================================================
+// 4. PRINT DATA
+// Drafts print too, watermarked by the page, so doctors can review on paper.
+// =====================================================
+
+export async function getDischargeSummaryPrintData(tenantId: string, admissionId: string): Promise<DischargeSummaryPrintData> {
+  const admission = await requireAdmission(tenantId, admissionId);
+  const summary = admission.dischargeSummary;
+  if (!summary) {
+    throw new AppError("No discharge summary has been written for this admission", 404, "DISCHARGE_SUMMARY_NOT_FOUND");
+  }
+
+  const content = summary.status === "FINALIZED"
+    ? contentFromColumns(summary)
+    : contentFromDraft(summary.draftData);
+  if (!content) {
+    throw new AppError("Discharge summary draft is empty", 400, "DISCHARGE_SUMMARY_NOT_FOUND");
+  }
+
+  return {
+    letterhead: await getTenantLetterhead(tenantId),
+    admission: toHeader(admission),
+    status: summary.status,
+    content,
+    finalizedAt: summary.finalizedAt?.toISOString() ?? null,
+    finalizedByName: await getUserName(summary.finalizedBy),
+  };
+}
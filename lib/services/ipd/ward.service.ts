@@ -0,0 +1,367 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import type { BedStatus, WardType } from "@/app/generated/prisma/client";
+import type {
+  CreateWardInput,
+  UpdateWardInput,
+  CreateRoomInput,
+  CreateBedsInput,
+  UpdateBedStatusInput,
+} from "@/lib/schemas/ipd-schema";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface BedBoardBed {
+  id: string;
+  bedNumber: string;
+  roomId: string;
+  roomNumber: string;
+  bedStatus: BedStatus;
+  notes: string | null;
+  version: number;
+  admission: {
+    id: string;
+    admissionNumber: string;
+    patientId: string;
+    patientName: string;
+    uhid: string;
+    gender: string;
+    doctorName: string | null;
+    admittedAt: string;
+    version: number;
+  } | null;
+}
+
+interface BedBoardWard {
+  id: string;
+  code: string;
+  name: string;
+  wardType: WardType;
+  floor: string | null;
+  summary: Record<BedStatus, number> & { total: number; occupancyPercent: number };
+  beds: BedBoardBed[];
+}
+
+const BED_STATUSES: BedStatus[] = ["AVAILABLE", "OCCUPIED", "RESERVED", "CLEANING", "MAINTENANCE"];
+
+// =====================================================
+// WARDS
+// =====================================================
+
+export async function listWards(tenantId: string, includeInactive = false) {
+  const wards = await prisma.ward.findMany({
+    where: { tenantId, isDeleted: false, ...(!includeInactive && { status: "ACTIVE" as const }) },
+    orderBy: { code: "asc" },
+    include: {
+      department: { select: { id: true, name: true } },
+      rooms: {
+        where: { isDeleted: false },
+        orderBy: { roomNumber: "asc" },
+        include: {
+          beds: {
+            where: { isDeleted: false },
+            orderBy: { bedNumber: "asc" },
+            select: { id: true, bedNumber: true, bedStatus: true, status: true, version: true },
+          },
+        },
+      },
+    },
+  });
+
+  return wards.map((ward) => ({
+    id: ward.id,
+    code: ward.code,
+    name: ward.name,
+    wardType: ward.wardType,
+    floor: ward.floor,
+    nurseStation: ward.nurseStation,
+    department: ward.department,
+    dailyRate: ward.dailyRate?.toString() ?? null,
+    status: ward.status,
+    version: ward.version,
+    rooms: ward.rooms.map((room) => ({
+      id: room.id,
+      roomNumber: room.roomNumber,
+      dailyRate: room.dailyRate?.toString() ?? null,
+      notes: room.notes,
+      beds: room.beds,
+    })),
+  }));
+}
+
+export async function createWard(tenantId: string, userId: string, input: CreateWardInput) {
+  const code = input.code.toUpperCase();
+  const existing = await prisma.ward.findFirst({ where: { tenantId, code } });
+  if (existing) throw new AppError("Ward code already exists", 400, "DUPLICATE_CODE");
+
+  const ward = await prisma.ward.create({
+    data: {
+      tenantId,
+      code,
+      name: input.name,
+      wardType: input.wardType,
+      floor: input.floor || null,
+      departmentId: input.departmentId || null,
+      nurseStation: input.nurseStation || null,
+      dailyRate: input.dailyRate ?? null,
+      createdBy: userId,
+      updatedBy: userId,
+    },
+  });
+
+  createAuditLog({
+    tenantId,
+    performedBy: userId,
+    entityType: "WARD",
+    entityId: ward.id,
+    action: "CREATE",
+    newValue: { code, name: ward.name, wardType: ward.wardType },
+  });
+
+  return ward;
+}
+
+export async function updateWard(tenantId: string, userId: string, wardId: string, input: UpdateWardInput) {
+  const ward = await prisma.ward.findFirst({ where: { id: wardId, tenantId, isDeleted: false } });
+  if (!ward) throw new AppError("Ward not found", 404, "WARD_NOT_FOUND");
+  if (ward.version !== input.version) {
+    throw new AppError("Ward has been modified. Refresh and try again.", 409, "VERSION_CONFLICT");
+  }
+
+  if (input.status === "INACTIVE") {
+    const occupied = await prisma.bed.count({ where: { wardId, bedStatus: "OCCUPIED", isDeleted: false } });
+    if (occupied > 0) {
+      throw new AppError("Cannot deactivate a ward with occupied beds", 400, "WARD_OCCUPIED");
+    }
+  }
+
+  const updated = await prisma.ward.update({
+    where: { id: wardId },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.wardType !== undefined && { wardType: input.wardType }),
+      ...(input.floor !== undefined && { floor: input.floor || null }),
+      ...(input.departmentId !== undefined && { departmentId: input.departmentId || null }),
+      ...(input.nurseStation !== undefined && { nurseStation: input.nurseStation || null }),
+      ...(input.dailyRate !== undefined && { dailyRate: input.dailyRate }),
+      ...(input.status !== undefined && { status: input.status }),
+      updatedBy: userId,
+      version: { increment: 1 },
+    },
+  });
+
+  createAuditLog({
+    tenantId,
+    performedBy: userId,
+    entityType: "WARD",
+    entityId: wardId,
+    action: "UPDATE",
+    oldValue: { name: ward.name, status: ward.status, dailyRate: ward.dailyRate?.toString() ?? null },
+    newValue: { name: updated.name, status: updated.status, dailyRate: updated.dailyRate?.toString() ?? null },
+  });
+
+  return updated;
+}
+
+// =====================================================
+// ROOMS & BEDS
+// =====================================================
+
+export async function createRoom(tenantId: string, userId: string, input: CreateRoomInput) {
+  const ward = await prisma.ward.findFirst({
+    where: { id: input.wardId, tenantId, isDeleted: false },
+    select: { id: true },
+  });
+  if (!ward) throw new AppError("Ward not found", 404, "WARD_NOT_FOUND");
+
+  const existing = await prisma.room.findFirst({
+    where: { tenantId, wardId: input.wardId, roomNumber: input.roomNumber },
+  });
+  if (existing) throw new AppError("Room number already exists in this ward", 400, "DUPLICATE_CODE");
+
+  const room = await prisma.room.create({
+    data: {
+      tenantId,
+      wardId: input.wardId,
+      roomNumber: input.roomNumber,
+      dailyRate: input.dailyRate ?? null,
+      notes: input.notes || null,
+      createdBy: userId,
+      updatedBy: userId,
+    },
+  });
+
+  createAuditLog({
+    tenantId,
+    performedBy: userId,
+    entityType: "ROOM",
+    entityId: room.id,
+    action: "CREATE",
+    newValue: { wardId: input.wardId, roomNumber: room.roomNumber },
+  });
+
+  return room;
+}
+
+export async function createBeds(tenantId: string, userId: string, input: CreateBedsInput) {
+  const room = await prisma.room.findFirst({
+    where: { id: input.roomId, tenantId, isDeleted: false },
+    select: { id: true, wardId: true },
+  });
+  if (!room) throw new AppError("Room not found", 404, "ROOM_NOT_FOUND");
+
+  const bedNumbers = [...new Set(input.bedNumbers)];
+  const existing = await prisma.bed.findMany({
+    where: { tenantId, roomId: room.id, bedNumber: { in: bedNumbers } },
+    select: { bedNumber: true },
+  });
+  if (existing.length > 0) {
+    throw new AppError(
+      `Bed number already exists in this room: ${existing.map((b) => b.bedNumber).join(", ")}`,
+      400,
+      "DUPLICATE_CODE"
+    );
+  }
+
+  await prisma.bed.createMany({
+    data: bedNumbers.map((bedNumber) => ({
+      tenantId,
+      wardId: room.wardId,
+      roomId: room.id,
+      bedNumber,
+      createdBy: userId,
+      updatedBy: userId,
+    })),
+  });
+
+  createAuditLog({
+    tenantId,
+    performedBy: userId,
+    entityType: "BED",
+    action: "CREATE",
+    newValue: { roomId: room.id, bedNumbers },
+  });
+
+  return { created: bedNumbers.length };
+}
+
+/**
+ * Housekeeping / maintenance status changes. OCCUPIED is only set by admission
+ * and transfer, never by hand.
+ */
+export async function updateBedStatus(
+  tenantId: string,
+  userId: string,
+  bedId: string,
+  input: UpdateBedStatusInput
+) {
+  const bed = await prisma.bed.findFirst({ where: { id: bedId, tenantId, isDeleted: false } });
+  if (!bed) throw new AppError("Bed not found", 404, "BED_NOT_FOUND");
+  if (bed.version !== input.version) {
+    throw new AppError("Bed has been modified. Refresh and try again.", 409, "VERSION_CONFLICT");
+  }
+  if (bed.bedStatus === "OCCUPIED") {
+    throw new AppError("Bed is occupied. Transfer or discharge the patient first.", 400, "BED_OCCUPIED");
+  }
+
+  const updated = await prisma.bed.update({
+    where: { id: bedId },
+    data: {
+      bedStatus: input.bedStatus,
+      notes: input.notes || null,
+      updatedBy: userId,
+      version: { increment: 1 },
+    },
+  });
+
+  createAuditLog({
+    tenantId,
+    performedBy: userId,
+    entityType: "BED",
+    entityId: bedId,
+    action: "UPDATE",
+    oldValue: { bedStatus: bed.bedStatus },
+    newValue: { bedStatus: updated.bedStatus },
+  });
+
+  return updated;
+}
+
+// =====================================================
+// BED BOARD (occupancy by ward)
+// =====================================================
+
+export async function getBedBoard(tenantId: string, wardId?: string): Promise<BedBoardWard[]> {
+  const wards = await prisma.ward.findMany({
+    where: { tenantId, isDeleted: false, status: "ACTIVE", ...(wardId && { id: wardId }) },
+    orderBy: { code: "asc" },
+    include: {
+      beds: {
+        where: { isDeleted: false, status: "ACTIVE", room: { isDeleted: false } },
+        include: {
+          room: { select: { roomNumber: true } },
+          currentAdmission: {
+            select: {
+              id: true,
+              admissionNumber: true,
+              admittedAt: true,
+              version: true,
+              patient: { select: { id: true, firstName: true, lastName: true, uhid: true, gender: true } },
+              doctorMaster: { select: { fullName: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return wards.map((ward) => {
+    const beds: BedBoardBed[] = ward.beds
+      .map((bed) => ({
+        id: bed.id,
+        bedNumber: bed.bedNumber,
+        roomId: bed.roomId,
+        roomNumber: bed.room.roomNumber,
+        bedStatus: bed.bedStatus,
+        notes: bed.notes,
+        version: bed.version,
+        admission: bed.currentAdmission
+          ? {
+              id: bed.currentAdmission.id,
+              admissionNumber: bed.currentAdmission.admissionNumber,
+              patientId: bed.currentAdmission.patient.id,
+              patientName: `${bed.currentAdmission.patient.firstName} ${bed.currentAdmission.patient.lastName ?? ""}`.trim(),
+              uhid: bed.currentAdmission.patient.uhid,
+              gender: bed.currentAdmission.patient.gender,
+              doctorName: bed.currentAdmission.doctorMaster?.fullName ?? null,
+              admittedAt: bed.currentAdmission.admittedAt.toISOString(),
+              version: bed.currentAdmission.version,
+            }
+          : null,
+      }))
+      .sort((a, b) =>
+        a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true }) ||
+        a.bedNumber.localeCompare(b.bedNumber, undefined, { numeric: true })
+      );
+
+    const counts = Object.fromEntries(BED_STATUSES.map((s) => [s, 0])) as Record<BedStatus, number>;
+    for (const bed of beds) counts[bed.bedStatus]++;
+
+    return {
+      id: ward.id,
+      code: ward.code,
+      name: ward.name,
+      wardType: ward.wardType,
+      floor: ward.floor,
+      summary: {
+        ...counts,
+        total: beds.length,
+        occupancyPercent: beds.length > 0 ? Math.round((counts.OCCUPIED / beds.length) * 100) : 0,
+      },
+      beds,
+    };
+  });
+}
@@ -0,0 +1,348 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import type {
+  Prisma,
+  LabCriticalAlertStatus,
+  LabResultFlag,
+} from "@/app/generated/prisma/client";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface CriticalAlertSettings {
+  escalationMinutes: number;
+  escalateToUserIds: string[];
+}
+
+interface RaiseAlertInput {
+  tenantId: string;
+  userId: string;
+  labResultId: string;
+  labOrderId: string;
+  patientId: string;
+  doctorId: string;
+  testName: string;
+  resultValue: string;
+  unit: string | null;
+  flag: LabResultFlag | null;
+}
+
+interface AcknowledgeInput {
+  readBackValue: string;
+  notes?: string;
+}
+
+export interface CriticalAlertResponse {
+  id: string;
+  labOrderId: string;
+  orderNumber: string;
+  patientId: string;
+  patientName: string;
+  uhid: string;
+  testName: string;
+  resultValue: string;
+  unit: string | null;
+  flag: LabResultFlag | null;
+  referenceRange: string | null;
+  status: LabCriticalAlertStatus;
+  escalationLevel: number;
+  escalatedAt: string | null;
+  isEscalatedToMe: boolean;
+  createdAt: string;
+}
+
+/** TenantSetting key holding { escalationMinutes, escalateToUserIds } */
+export const CRITICAL_ALERT_SETTING_KEY = "lab_critical_alert";
+const DEFAULT_ESCALATION_MINUTES = 30;
+const OPEN_STATUSES: LabCriticalAlertStatus[] = ["PENDING", "ESCALATED"];
+
+// =====================================================
+// SETTINGS
+// =====================================================
+
+export async function getCriticalAlertSettings(tenantId: string): Promise<CriticalAlertSettings> {
+  const setting = await prisma.tenantSetting.findUnique({
+    where: { tenantId_key: { tenantId, key: CRITICAL_ALERT_SETTING_KEY } },
+  });
+
+  const value = (setting?.value ?? {}) as { escalationMinutes?: number; escalateToUserIds?: string[] };
+  return {
+    escalationMinutes:
+      typeof value.escalationMinutes === "number" && value.escalationMinutes > 0
+        ? value.escalationMinutes
+        : DEFAULT_ESCALATION_MINUTES,
+    escalateToUserIds: Array.isArray(value.escalateToUserIds) ? value.escalateToUserIds : [],
+  };
+}
+
+/**
+ * Escalation recipients: configured users, or the tenant's active ADMIN users.
+ */
+async function getEscalationRecipients(tenantId: string, settings: CriticalAlertSettings): Promise<string[]> {
+  if (settings.escalateToUserIds.length > 0) return settings.escalateToUserIds;
+
+  const admins = await prisma.user.findMany({
+    where: {
+      tenantId,
+      isActive: true,
+      userRoles: { some: { role: { code: "ADMIN" } } },
+    },
+    select: { id: true },
+  });
+  return admins.map((u) => u.id);
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * Read-back matches when the doctor repeats the same value.
+ * Numeric values compare numerically ("7.0" = "7"), text ignores case and spacing.
+ */
+function readBackMatches(expected: string, readBack: string): boolean {
+  const a = expected.trim().toLowerCase().replace(/\s+/g, " ");
+  const b = readBack.trim().toLowerCase().replace(/\s+/g, " ");
+  const na = Number(a);
+  const nb = Number(b);
+  if (a !== "" && b !== "" && Number.isFinite(na) && Number.isFinite(nb)) return na === nb;
+  return a === b;
+}
+
+// =====================================================
+// 1. RAISE ALERT (called from result entry)
+// Re-entering a still-critical value on an open alert updates it
+// instead of raising a duplicate.
+// =====================================================
+
+export async function raiseCriticalAlert(tx: Prisma.TransactionClient, input: RaiseAlertInput): Promise<string> {
+  const open = await tx.labCriticalAlert.findFirst({
+    where: { tenantId: input.tenantId, labResultId: input.labResultId, status: { in: OPEN_STATUSES } },
+    select: { id: true },
+  });
+
+  if (open) {
+    await tx.labCriticalAlert.update({
+      where: { id: open.id },
+      data: { resultValue: input.resultValue, unit: input.unit, flag: input.flag },
+    });
+    return open.id;
+  }
+
+  const alert = await tx.labCriticalAlert.create({
+    data: {
+      tenantId: input.tenantId,
+      labResultId: input.labResultId,
+      labOrderId: input.labOrderId,
+      patientId: input.patientId,
+      doctorId: input.doctorId,
+      testName: input.testName,
+      resultValue: input.resultValue,
+      unit: input.unit,
+      flag: input.flag,
+      createdBy: input.userId,
+    },
+  });
+
+  createAuditLog({
+    tenantId: input.tenantId,
+    performedBy: input.userId,
+    entityType: "LAB_CRITICAL_ALERT",
+    entityId: alert.id,
+    action: "CREATE",
+    newValue: {
+      labOrderId: input.labOrderId,
+      doctorId: input.doctorId,
+      testName: input.testName,
+      resultValue: input.resultValue,
+      flag: input.flag,
+    },
+  });
+
+  return alert.id;
+}
+
+// =====================================================
+// 2. ESCALATION SWEEP
+// Runs lazily on alert reads and from the reporting worker.
+// =====================================================
+
+export async function escalateOverdueCriticalAlerts(tenantId?: string): Promise<number> {
+  const tenantIds = tenantId
+    ? [tenantId]
+    : (
+        await prisma.labCriticalAlert.findMany({
+          where: { status: "PENDING" },
+          distinct: ["tenantId"],
+          select: { tenantId: true },
+        })
+      ).map((a) => a.tenantId);
+
+  let escalated = 0;
+  for (const tid of tenantIds) {
+    const settings = await getCriticalAlertSettings(tid);
+    const cutoff = new Date(Date.now() - settings.escalationMinutes * 60 * 1000);
+
+    const overdue = await prisma.labCriticalAlert.findMany({
+      where: { tenantId: tid, status: "PENDING", createdAt: { lte: cutoff } },
+      select: { id: true, doctorId: true, testName: true, resultValue: true },
+    });
+    if (overdue.length === 0) continue;
+
+    const recipients = await getEscalationRecipients(tid, settings);
+    const escalatedAt = new Date();
+
+    for (const alert of overdue) {
+      // Guard on status so a concurrent acknowledgement is never overwritten
+      const result = await prisma.labCriticalAlert.updateMany({
+        where: { id: alert.id, status: "PENDING" },
+        data: {
+          status: "ESCALATED",
+          escalationLevel: { increment: 1 },
+          escalatedAt,
+          escalatedTo: recipients.filter((id) => id !== alert.doctorId),
+        },
+      });
+      if (result.count === 0) continue;
+      escalated++;
+
+      createAuditLog({
+        tenantId: tid,
+        performedBy: null,
+        entityType: "LAB_CRITICAL_ALERT",
+        entityId: alert.id,
+        action: "ESCALATE",
+        oldValue: { status: "PENDING" },
+        newValue: {
+          status: "ESCALATED",
+          escalatedTo: recipients,
+          escalationMinutes: settings.escalationMinutes,
+        },
+      });
+    }
+  }
+
+  return escalated;
+}
+
+// =====================================================
+// 3. OPEN ALERTS FOR USER
+// Ordering doctor, plus escalation recipients once escalated.
+// =====================================================
+
+export async function getOpenCriticalAlerts(tenantId: string, userId: string): Promise<CriticalAlertResponse[]> {
+  await escalateOverdueCriticalAlerts(tenantId);
+
+  const alerts = await prisma.labCriticalAlert.findMany({
+    where: {
+      tenantId,
+      status: { in: OPEN_STATUSES },
+      OR: [{ doctorId: userId }, { escalatedTo: { has: userId } }],
+    },
+    orderBy: { createdAt: "asc" },
+    include: {
+      labResult: {
+        select: {
+          referenceRange: true,
+          labOrder: {
+            select: {
+              orderNumber: true,
+              patient: { select: { firstName: true, lastName: true, uhid: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return alerts.map((a) => {
+    const patient = a.labResult.labOrder.patient;
+    return {
+      id: a.id,
+      labOrderId: a.labOrderId,
+      orderNumber: a.labResult.labOrder.orderNumber,
+      patientId: a.patientId,
+      patientName: patient.lastName ? `${patient.firstName} ${patient.lastName}` : patient.firstName,
+      uhid: patient.uhid,
+      testName: a.testName,
+      resultValue: a.resultValue,
+      unit: a.unit,
+      flag: a.flag,
+      referenceRange: a.labResult.referenceRange,
+      status: a.status,
+      escalationLevel: a.escalationLevel,
+      escalatedAt: a.escalatedAt?.toISOString() ?? null,
+      isEscalatedToMe: a.doctorId !== userId,
+      createdAt: a.createdAt.toISOString(),
+    };
+  });
+}
+
+// =====================================================
+// 4. READ-BACK ACKNOWLEDGEMENT
+// =====================================================
+
+export async function acknowledgeCriticalAlert(
+  tenantId: string,
+  userId: string,
+  alertId: string,
+  input: AcknowledgeInput
+) {
+  return prisma.$transaction(async (tx) => {
+    // Row-level lock: Prevent a racing escalation sweep from changing status mid-ack
+    await tx.$executeRaw`SELECT id FROM "LabCriticalAlert" WHERE id = ${alertId} FOR UPDATE`;
+
+    const alert = await tx.labCriticalAlert.findFirst({ where: { id: alertId, tenantId } });
+    if (!alert) throw new AppError("Critical alert not found", 404, "ALERT_NOT_FOUND");
+    if (alert.status === "ACKNOWLEDGED") {
+      throw new AppError("Critical alert is already acknowledged", 409, "ALERT_ALREADY_ACKNOWLEDGED");
+    }
+    if (alert.doctorId !== userId && !alert.escalatedTo.includes(userId)) {
+      throw new AppError("This alert is not addressed to you", 403, "ALERT_NOT_ADDRESSED");
+    }
+    if (!readBackMatches(alert.resultValue, input.readBackValue)) {
+      throw new AppError(
+        "Read-back value does not match the reported result. Re-check the value and try again",
+        400,
+        "READ_BACK_MISMATCH"
+      );
+    }
+
+    const acknowledgedAt = new Date();
+    const updated = await tx.labCriticalAlert.update({
+      where: { id: alert.id },
+      data: {
+        status: "ACKNOWLEDGED",
+        acknowledgedAt,
+        acknowledgedBy: userId,
+        readBackValue: input.readBackValue.trim(),
+        ackNotes: input.notes || null,
+      },
+    });
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "LAB_CRITICAL_ALERT",
+      entityId: alert.id,
+      action: "ACKNOWLEDGE",
+      oldValue: { status: alert.status, escalationLevel: alert.escalationLevel },
+      newValue: {
+        status: "ACKNOWLEDGED",
+        acknowledgedBy: userId,
+        acknowledgedAt: acknowledgedAt.toISOString(),
+        readBackValue: updated.readBackValue,
+        asOrderingDoctor: alert.doctorId === userId,
+      },
+    });
+
+    return {
+      id: updated.id,
+      status: updated.status,
+      acknowledgedAt: acknowledgedAt.toISOString(),
+      acknowledgedBy: userId,
+    };
+  });
+}
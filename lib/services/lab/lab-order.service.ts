@@ -0,0 +1,652 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import type {
+  Prisma,
+  Gender,
+  LabOrderStatus,
+  LabResultFlag,
+  Priority,
+} from "@/app/generated/prisma/client";
+import {
+  getAgeInYears,
+  resolveReferenceRange,
+  evaluateResult,
+  type ResolvedRange,
+} from "./reference-range";
+import { raiseCriticalAlert } from "./critical-alert.service";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface WorklistQueryOptions {
+  search?: string;
+  status?: string;
+  priority?: Priority;
+  fromDate?: string;
+  toDate?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+interface CollectSamplesInput {
+  itemIds: string[];
+  notes?: string;
+}
+
+interface ResultEntryInput {
+  itemId: string;
+  result: string;
+  unit?: string;
+  referenceRange?: string;
+  isNormal?: boolean;
+  notes?: string;
+}
+
+interface VerifyResultsInput {
+  itemIds: string[];
+  notes?: string;
+}
+
+export interface LabWorklistItem {
+  id: string;
+  orderNumber: string;
+  orderDate: string;
+  visitId: string;
+  patientId: string;
+  patientName: string;
+  uhid: string;
+  doctorName: string;
+  priority: Priority;
+  status: LabOrderStatus;
+  itemCount: number;
+  collectedCount: number;
+  resultedCount: number;
+  verifiedCount: number;
+  hasCritical: boolean;
+  accessionNumbers: string[];
+}
+
+export interface LabOrderItemDetail {
+  id: string;
+  testName: string;
+  testCode: string | null;
+  category: string | null;
+  priority: Priority;
+  status: LabOrderStatus;
+  accessionNumber: string | null;
+  sampleType: string | null;
+  container: string | null;
+  sampleCollectedAt: string | null;
+  sampleCollectedBy: string | null;
+  notes: string | null;
+  /** Range resolved for this patient's gender and age */
+  expectedRange: string | null;
+  expectedUnit: string | null;
+  result: {
+    id: string;
+    result: string | null;
+    unit: string | null;
+    referenceRange: string | null;
+    isNormal: boolean | null;
+    isCritical: boolean;
+    flag: LabResultFlag | null;
+    notes: string | null;
+    performedAt: string | null;
+    performedBy: string | null;
+    verifiedAt: string | null;
+    verifiedBy: string | null;
+  } | null;
+}
+
+export interface LabOrderDetail {
+  id: string;
+  orderNumber: string;
+  orderDate: string;
+  visitId: string;
+  patientId: string;
+  patientName: string;
+  uhid: string;
+  gender: Gender;
+  ageYears: number | null;
+  doctorId: string;
+  doctorName: string;
+  priority: Priority;
+  status: LabOrderStatus;
+  notes: string | null;
+  items: LabOrderItemDetail[];
+}
+
+interface CursorResult<T> {
+  data: T[];
+  pagination: { cursor: string | null; hasMore: boolean };
+}
+
+type LabTestLookup = {
+  tenantId: string | null;
+  testCode: string;
+  testName: string;
+  sampleType: string | null;
+  container: string | null;
+  referenceRanges: Prisma.JsonValue;
+};
+
+const ACTIVE_STATUSES: LabOrderStatus[] = ["ORDERED", "SAMPLE_COLLECTED", "IN_PROGRESS"];
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+function patientDisplayName(p: { firstName: string; lastName: string | null }) {
+  return p.lastName ? `${p.firstName} ${p.lastName}` : p.firstName;
+}
+
+/**
+ * Load LabTest masters for the given order items.
+ * Tenant-specific masters win over global ones.
+ */
+async function loadLabTests(
+  client: Prisma.TransactionClient | typeof prisma,
+  tenantId: string,
+  items: { testCode: string | null; testName: string }[]
+) {
+  const testCodes = [...new Set(items.map((i) => i.testCode).filter((c): c is string => !!c))];
+  const testNames = [...new Set(items.map((i) => i.testName))];
+
+  const labTests: LabTestLookup[] = await client.labTest.findMany({
+    where: {
+      isDeleted: false,
+      OR: [{ tenantId }, { tenantId: null }],
+      AND: [{ OR: [{ testCode: { in: testCodes } }, { testName: { in: testNames } }] }],
+    },
+    select: {
+      tenantId: true,
+      testCode: true,
+      testName: true,
+      sampleType: true,
+      container: true,
+      referenceRanges: true,
+    },
+  });
+
+  return (item: { testCode: string | null; testName: string }): LabTestLookup | null => {
+    const matches = labTests.filter((t) =>
+      item.testCode ? t.testCode === item.testCode : t.testName === item.testName
+    );
+    return matches.find((t) => t.tenantId === tenantId) ?? matches[0] ?? null;
+  };
+}
+
+/**
+ * Generate the next accession number for today: ACC-YYYYMMDD-0001.
+ * Printed as the barcode on the sample container label.
+ */
+async function generateAccessionNumber(tx: Prisma.TransactionClient, tenantId: string): Promise<string> {
+  const now = new Date();
+  const datePart = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, "0")}${String(now.getDate()).padStart(2, "0")}`;
+  const prefix = `ACC-${datePart}-`;
+
+  const last = await tx.labOrderItem.findFirst({
+    where: { tenantId, accessionNumber: { startsWith: prefix } },
+    orderBy: { accessionNumber: "desc" },
+    select: { accessionNumber: true },
+  });
+
+  let seq = 1;
+  if (last?.accessionNumber) {
+    const lastSeq = parseInt(last.accessionNumber.slice(prefix.length), 10);
+    if (!isNaN(lastSeq)) seq = lastSeq + 1;
+  }
+  return `${prefix}${String(seq).padStart(4, "0")}`;
+}
+
+/**
+ * Roll the order status up from its items:
+ * all verified → COMPLETED, any result entered → IN_PROGRESS,
+ * any sample collected → SAMPLE_COLLECTED, otherwise ORDERED.
+ */
+function rollUpOrderStatus(itemStatuses: LabOrderStatus[]): LabOrderStatus {
+  const live = itemStatuses.filter((s) => s !== "CANCELLED");
+  if (live.length === 0) return "CANCELLED";
+  if (live.every((s) => s === "COMPLETED")) return "COMPLETED";
+  if (live.some((s) => s === "IN_PROGRESS" || s === "COMPLETED")) return "IN_PROGRESS";
+  if (live.some((s) => s === "SAMPLE_COLLECTED")) return "SAMPLE_COLLECTED";
+  return "ORDERED";
+}
+
+async function lockOrder(tx: Prisma.TransactionClient, tenantId: string, orderId: string) {
+  // Row-level lock: Serialize concurrent collection / entry on the same order
+  await tx.$executeRaw`SELECT id FROM "LabOrder" WHERE id = ${orderId} FOR UPDATE`;
+
+  const order = await tx.labOrder.findFirst({
+    where: { id: orderId, tenantId },
+    include: {
+      items: { include: { result: true } },
+      patient: { select: { gender: true, dateOfBirth: true, ageYears: true } },
+    },
+  });
+  if (!order) throw new AppError("Lab order not found", 404, "LAB_ORDER_NOT_FOUND");
+  if (order.status === "CANCELLED") {
+    throw new AppError("Lab order is cancelled", 400, "LAB_ORDER_CANCELLED");
+  }
+  return order;
+}
+
+function pickItems<T extends { id: string }>(items: T[], itemIds: string[]): T[] {
+  const selected = items.filter((i) => itemIds.includes(i.id));
+  if (selected.length !== new Set(itemIds).size) {
+    throw new AppError("One or more tests do not belong to this order", 400, "LAB_ITEM_NOT_FOUND");
+  }
+  return selected;
+}
+
+async function syncOrderStatus(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  userId: string,
+  currentStatus: LabOrderStatus
+): Promise<LabOrderStatus> {
+  const items = await tx.labOrderItem.findMany({ where: { labOrderId: orderId }, select: { status: true } });
+  const status = rollUpOrderStatus(items.map((i) => i.status));
+  if (status !== currentStatus) {
+    await tx.labOrder.update({ where: { id: orderId }, data: { status, updatedBy: userId } });
+  }
+  return status;
+}
+
+// =====================================================
+// 1. WORKLIST (cursor-based)
+// =====================================================
+
+export async function getLabWorklist(
+  tenantId: string,
+  options: WorklistQueryOptions
+): Promise<CursorResult<LabWorklistItem>> {
+  const limit = options.limit ?? 20;
+  const where: Prisma.LabOrderWhereInput = { tenantId };
+
+  if (options.search) {
+    where.OR = [
+      { orderNumber: { contains: options.search, mode: "insensitive" } },
+      { patient: { firstName: { contains: options.search, mode: "insensitive" } } },
+      { patient: { lastName: { contains: options.search, mode: "insensitive" } } },
+      { patient: { uhid: { contains: options.search, mode: "insensitive" } } },
+      { items: { some: { accessionNumber: { equals: options.search, mode: "insensitive" } } } },
+    ];
+  }
+  if (options.status === "ACTIVE") {
+    where.status = { in: ACTIVE_STATUSES };
+  } else if (options.status && options.status !== "ALL") {
+    where.status = options.status as LabOrderStatus;
+  }
+  if (options.priority) where.priority = options.priority;
+  if (options.fromDate || options.toDate) {
+    where.orderDate = {};
+    if (options.fromDate) where.orderDate.gte = new Date(options.fromDate);
+    if (options.toDate) {
+      const to = new Date(options.toDate);
+      to.setHours(23, 59, 59, 999);
+      where.orderDate.lte = to;
+    }
+  }
+
+  const records = await prisma.labOrder.findMany({
+    where,
+    orderBy: [{ orderDate: "asc" }, { id: "asc" }],
+    take: limit + 1,
+    ...(options.cursor ? { skip: 1, cursor: { id: options.cursor } } : {}),
+    include: {
+      patient: { select: { firstName: true, lastName: true, uhid: true } },
+      doctor: { select: { fullName: true } },
+      items: {
+        select: {
+          status: true,
+          accessionNumber: true,
+          result: { select: { isCritical: true } },
+        },
+      },
+    },
+  });
+
+  const hasMore = records.length > limit;
+  const data = records.slice(0, limit);
+
+  return {
+    data: data.map((r) => {
+      const live = r.items.filter((i) => i.status !== "CANCELLED");
+      return {
+        id: r.id,
+        orderNumber: r.orderNumber,
+        orderDate: r.orderDate.toISOString(),
+        visitId: r.visitId,
+        patientId: r.patientId,
+        patientName: patientDisplayName(r.patient),
+        uhid: r.patient.uhid,
+        doctorName: r.doctor.fullName,
+        priority: r.priority,
+        status: r.status,
+        itemCount: live.length,
+        collectedCount: live.filter((i) => i.status !== "ORDERED").length,
+        resultedCount: live.filter((i) => i.status === "IN_PROGRESS" || i.status === "COMPLETED").length,
+        verifiedCount: live.filter((i) => i.status === "COMPLETED").length,
+        hasCritical: live.some((i) => i.result?.isCritical),
+        accessionNumbers: [...new Set(live.map((i) => i.accessionNumber).filter((a): a is string => !!a))],
+      };
+    }),
+    pagination: {
+      cursor: hasMore && data.length > 0 ? data[data.length - 1].id : null,
+      hasMore,
+    },
+  };
+}
+
+// =====================================================
+// 2. ORDER DETAIL
+// =====================================================
+
+export async function getLabOrderById(tenantId: string, orderId: string): Promise<LabOrderDetail> {
+  const order = await prisma.labOrder.findFirst({
+    where: { id: orderId, tenantId },
+    include: {
+      patient: {
+        select: { firstName: true, lastName: true, uhid: true, gender: true, dateOfBirth: true, ageYears: true },
+      },
+      doctor: { select: { fullName: true } },
+      items: { orderBy: { createdAt: "asc" }, include: { result: true } },
+    },
+  });
+  if (!order) throw new AppError("Lab order not found", 404, "LAB_ORDER_NOT_FOUND");
+
+  const ageYears = getAgeInYears(order.patient.dateOfBirth, order.patient.ageYears);
+  const findTest = await loadLabTests(prisma, tenantId, order.items);
+
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    orderDate: order.orderDate.toISOString(),
+    visitId: order.visitId,
+    patientId: order.patientId,
+    patientName: patientDisplayName(order.patient),
+    uhid: order.patient.uhid,
+    gender: order.patient.gender,
+    ageYears,
+    doctorId: order.doctorId,
+    doctorName: order.doctor.fullName,
+    priority: order.priority,
+    status: order.status,
+    notes: order.notes,
+    items: order.items.map((item) => {
+      const test = findTest(item);
+      const range = resolveReferenceRange(test?.referenceRanges, order.patient.gender, ageYears);
+      return {
+        id: item.id,
+        testName: item.testName,
+        testCode: item.testCode,
+        category: item.category,
+        priority: item.priority,
+        status: item.status,
+        accessionNumber: item.accessionNumber,
+        sampleType: item.sampleType ?? test?.sampleType ?? null,
+        container: test?.container ?? null,
+        sampleCollectedAt: item.sampleCollectedAt?.toISOString() ?? null,
+        sampleCollectedBy: item.sampleCollectedBy,
+        notes: item.notes,
+        expectedRange: range.referenceRange,
+        expectedUnit: range.unit,
+        result: item.result
+          ? {
+              id: item.result.id,
+              result: item.result.result,
+              unit: item.result.unit,
+              referenceRange: item.result.referenceRange,
+              isNormal: item.result.isNormal,
+              isCritical: item.result.isCritical,
+              flag: item.result.flag,
+              notes: item.result.notes,
+              performedAt: item.result.performedAt?.toISOString() ?? null,
+              performedBy: item.result.performedBy,
+              verifiedAt: item.result.verifiedAt?.toISOString() ?? null,
+              verifiedBy: item.result.verifiedBy,
+            }
+          : null,
+      };
+    }),
+  };
+}
+
+// =====================================================
+// 3. SAMPLE COLLECTION
+// Items sharing a sample type in one collection share a
+// container, so they get the same accession number.
+// =====================================================
+
+export async function collectSamples(
+  tenantId: string,
+  userId: string,
+  orderId: string,
+  input: CollectSamplesInput
+): Promise<LabOrderDetail> {
+  await prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, tenantId, orderId);
+    const items = pickItems(order.items, input.itemIds);
+
+    const notPending = items.filter((i) => i.status !== "ORDERED");
+    if (notPending.length > 0) {
+      throw new AppError(
+        `Sample already collected for: ${notPending.map((i) => i.testName).join(", ")}`,
+        409,
+        "SAMPLE_ALREADY_COLLECTED"
+      );
+    }
+
+    const findTest = await loadLabTests(tx, tenantId, items);
+    const collectedAt = new Date();
+    const accessionBySampleType = new Map<string, string>();
+    const collected: { itemId: string; testName: string; accessionNumber: string; sampleType: string | null }[] = [];
+
+    for (const item of items) {
+      const sampleType = findTest(item)?.sampleType ?? null;
+      const key = (sampleType ?? "UNSPECIFIED").toUpperCase();
+
+      let accessionNumber = accessionBySampleType.get(key);
+      if (!accessionNumber) {
+        accessionNumber = await generateAccessionNumber(tx, tenantId);
+        accessionBySampleType.set(key, accessionNumber);
+      }
+
+      await tx.labOrderItem.update({
+        where: { id: item.id },
+        data: {
+          status: "SAMPLE_COLLECTED",
+          accessionNumber,
+          sampleType,
+          sampleCollectedAt: collectedAt,
+          sampleCollectedBy: userId,
+          ...(input.notes ? { notes: input.notes } : {}),
+        },
+      });
+      collected.push({ itemId: item.id, testName: item.testName, accessionNumber, sampleType });
+    }
+
+    const status = await syncOrderStatus(tx, order.id, userId, order.status);
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "LAB_ORDER",
+      entityId: order.id,
+      action: "SAMPLE_COLLECT",
+      oldValue: { status: order.status },
+      newValue: { status, orderNumber: order.orderNumber, collected },
+    });
+  });
+
+  return getLabOrderById(tenantId, orderId);
+}
+
+// =====================================================
+// 4. RESULT ENTRY
+// Results can be re-entered until they are verified.
+// =====================================================
+
+export async function enterResults(
+  tenantId: string,
+  userId: string,
+  orderId: string,
+  results: ResultEntryInput[]
+): Promise<LabOrderDetail> {
+  await prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, tenantId, orderId);
+    const items = pickItems(order.items, results.map((r) => r.itemId));
+
+    for (const item of items) {
+      if (item.status === "ORDERED") {
+        throw new AppError(`Collect the sample for ${item.testName} before entering results`, 400, "SAMPLE_NOT_COLLECTED");
+      }
+      if (item.status === "CANCELLED") {
+        throw new AppError(`${item.testName} is cancelled`, 400, "LAB_ITEM_CANCELLED");
+      }
+      if (item.result?.verifiedAt) {
+        throw new AppError(`Result for ${item.testName} is already verified`, 409, "RESULT_ALREADY_VERIFIED");
+      }
+    }
+
+    const ageYears = getAgeInYears(order.patient.dateOfBirth, order.patient.ageYears);
+    const findTest = await loadLabTests(tx, tenantId, items);
+    const performedAt = new Date();
+    const entered: { itemId: string; testName: string; result: string; flag: LabResultFlag | null }[] = [];
+    const alertIds: string[] = [];
+
+    for (const entry of results) {
+      const item = items.find((i) => i.id === entry.itemId)!;
+      const resolved: ResolvedRange = resolveReferenceRange(
+        findTest(item)?.referenceRanges,
+        order.patient.gender,
+        ageYears
+      );
+      const evaluation = evaluateResult(resolved, entry.result, entry.isNormal);
+
+      const data = {
+        result: entry.result,
+        unit: entry.unit || evaluation.unit,
+        referenceRange: entry.referenceRange || evaluation.referenceRange,
+        isNormal: evaluation.isNormal,
+        isCritical: evaluation.isCritical,
+        flag: evaluation.flag,
+        notes: entry.notes || null,
+        performedAt,
+        performedBy: userId,
+      };
+
+      const saved = await tx.labResult.upsert({
+        where: { labOrderItemId: item.id },
+        create: {
+          tenantId,
+          labOrderId: order.id,
+          labOrderItemId: item.id,
+          testName: item.testName,
+          testCode: item.testCode,
+          category: item.category,
+          ...data,
+        },
+        update: data,
+      });
+
+      if (evaluation.isCritical) {
+        alertIds.push(
+          await raiseCriticalAlert(tx, {
+            tenantId,
+            userId,
+            labResultId: saved.id,
+            labOrderId: order.id,
+            patientId: order.patientId,
+            doctorId: order.doctorId,
+            testName: item.testName,
+            resultValue: entry.result,
+            unit: data.unit,
+            flag: evaluation.flag,
+          })
+        );
+      }
+
+      if (item.status !== "IN_PROGRESS") {
+        await tx.labOrderItem.update({ where: { id: item.id }, data: { status: "IN_PROGRESS" } });
+      }
+      entered.push({ itemId: item.id, testName: item.testName, result: entry.result, flag: evaluation.flag });
+    }
+
+    const status = await syncOrderStatus(tx, order.id, userId, order.status);
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "LAB_RESULT",
+      entityId: order.id,
+      action: "RESULT_ENTRY",
+      oldValue: { status: order.status },
+      newValue: { status, orderNumber: order.orderNumber, results: entered, criticalAlertIds: alertIds },
+    });
+  });
+
+  return getLabOrderById(tenantId, orderId);
+}
+
+// =====================================================
+// 5. PATHOLOGIST VERIFICATION
+// =====================================================
+
+export async function verifyResults(
+  tenantId: string,
+  userId: string,
+  orderId: string,
+  input: VerifyResultsInput
+): Promise<LabOrderDetail> {
+  await prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, tenantId, orderId);
+    const items = pickItems(order.items, input.itemIds);
+
+    for (const item of items) {
+      if (!item.result || item.status !== "IN_PROGRESS") {
+        throw new AppError(
+          item.result?.verifiedAt
+            ? `Result for ${item.testName} is already verified`
+            : `No result entered for ${item.testName}`,
+          400,
+          "RESULT_NOT_VERIFIABLE"
+        );
+      }
+    }
+
+    const verifiedAt = new Date();
+    for (const item of items) {
+      await tx.labResult.update({
+        where: { id: item.result!.id },
+        data: {
+          verifiedAt,
+          verifiedBy: userId,
+          ...(input.notes ? { notes: input.notes } : {}),
+        },
+      });
+      await tx.labOrderItem.update({ where: { id: item.id }, data: { status: "COMPLETED" } });
+    }
+
+    const status = await syncOrderStatus(tx, order.id, userId, order.status);
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "LAB_RESULT",
+      entityId: order.id,
+      action: "VERIFY",
+      oldValue: { status: order.status },
+      newValue: {
+        status,
+        orderNumber: order.orderNumber,
+        verified: items.map((i) => ({ itemId: i.id, testName: i.testName, flag: i.result!.flag })),
+      },
+    });
+  });
+
+  return getLabOrderById(tenantId, orderId);
+}
@@ -0,0 +1,387 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import { format } from "date-fns";
+import type { Gender, LabOrderStatus, LabResultFlag } from "@/app/generated/prisma/client";
+import { PdfDocument, A4_WIDTH, A4_HEIGHT, type RGB } from "@/lib/utils/pdf-writer";
+import { getAgeInYears } from "./reference-range";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface LabReportLetterhead {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  logoUrl: string | null;
+  footerNote: string | null;
+}
+
+export interface LabReportResultRow {
+  testName: string;
+  testCode: string | null;
+  result: string;
+  unit: string | null;
+  referenceRange: string | null;
+  flag: LabResultFlag | null;
+  isCritical: boolean;
+  notes: string | null;
+  accessionNumber: string | null;
+  verifiedAt: string;
+}
+
+export interface LabReportSection {
+  category: string;
+  results: LabReportResultRow[];
+}
+
+export interface LabReportSignatory {
+  userId: string;
+  name: string;
+  qualifications: string[];
+  registrationNumber: string | null;
+  verifiedAt: string;
+}
+
+export interface LabReportData {
+  letterhead: LabReportLetterhead;
+  orderId: string;
+  orderNumber: string;
+  orderDate: string;
+  orderStatus: LabOrderStatus;
+  reportStatus: "FINAL" | "PARTIAL";
+  reportDate: string;
+  patient: {
+    id: string;
+    name: string;
+    uhid: string;
+    gender: Gender;
+    ageYears: number | null;
+    mobile: string;
+  };
+  referringDoctor: string;
+  sampleCollectedAt: string | null;
+  sections: LabReportSection[];
+  pendingTests: string[];
+  signatories: LabReportSignatory[];
+}
+
+/** TenantSetting key holding { address, phone, email, logoUrl, footerNote } */
+export const LETTERHEAD_SETTING_KEY = "letterhead";
+
+const UNCATEGORISED = "General";
+
+// =====================================================
+// LETTERHEAD
+// =====================================================
+
+export async function getTenantLetterhead(tenantId: string): Promise<LabReportLetterhead> {
+  const [tenant, setting] = await Promise.all([
+    prisma.tenant.findUnique({ where: { id: tenantId }, select: { name: true, contact: true } }),
+    prisma.tenantSetting.findUnique({
+      where: { tenantId_key: { tenantId, key: LETTERHEAD_SETTING_KEY } },
+    }),
+  ]);
+
+  const value = (setting?.value ?? {}) as Record<string, unknown>;
+  const str = (v: unknown) => (typeof v === "string" && v.trim() ? v : null);
+
+  return {
+    name: str(value.name) ?? tenant?.name ?? "Hospital Management System",
+    address: str(value.address),
+    phone: str(value.phone) ?? tenant?.contact ?? null,
+    email: str(value.email),
+    logoUrl: str(value.logoUrl),
+    footerNote: str(value.footerNote),
+  };
+}
+
+// =====================================================
+// 1. REPORT DATA
+// Only verified results are reported; the rest are listed as pending.
+// =====================================================
+
+export async function getLabReportData(tenantId: string, orderId: string): Promise<LabReportData> {
+  const order = await prisma.labOrder.findFirst({
+    where: { id: orderId, tenantId },
+    include: {
+      patient: {
+        select: {
+          id: true, firstName: true, middleName: true, lastName: true, uhid: true,
+          gender: true, dateOfBirth: true, ageYears: true, primaryMobile: true,
+        },
+      },
+      doctor: { select: { fullName: true } },
+      items: { orderBy: { createdAt: "asc" }, include: { result: true } },
+    },
+  });
+  if (!order) throw new AppError("Lab order not found", 404, "LAB_ORDER_NOT_FOUND");
+
+  const liveItems = order.items.filter((i) => i.status !== "CANCELLED");
+  const verified = liveItems.filter((i) => i.result?.verifiedAt);
+  if (verified.length === 0) {
+    throw new AppError("No verified results to report yet", 400, "REPORT_NOT_READY");
+  }
+
+  // Group verified results by category, keeping order-entry sequence
+  const sectionMap = new Map<string, LabReportResultRow[]>();
+  for (const item of verified) {
+    const result = item.result!;
+    const category = item.category || result.category || UNCATEGORISED;
+    if (!sectionMap.has(category)) sectionMap.set(category, []);
+    sectionMap.get(category)!.push({
+      testName: item.testName,
+      testCode: item.testCode,
+      result: result.result ?? "",
+      unit: result.unit,
+      referenceRange: result.referenceRange,
+      flag: result.flag,
+      isCritical: result.isCritical,
+      notes: result.notes,
+      accessionNumber: item.accessionNumber,
+      verifiedAt: result.verifiedAt!.toISOString(),
+    });
+  }
+
+  // Verifying pathologists, with credentials from the doctor master when linked
+  const verifierIds = [...new Set(verified.map((i) => i.result!.verifiedBy).filter((v): v is string => !!v))];
+  const verifiers = await prisma.user.findMany({
+    where: { id: { in: verifierIds } },
+    select: {
+      id: true,
+      fullName: true,
+      doctor: { select: { fullName: true, qualifications: true, registrationNumber: true } },
+    },
+  });
+  const signatories: LabReportSignatory[] = verifierIds.map((id) => {
+    const user = verifiers.find((u) => u.id === id);
+    const lastVerifiedAt = verified
+      .filter((i) => i.result!.verifiedBy === id)
+      .map((i) => i.result!.verifiedAt!.getTime())
+      .reduce((a, b) => Math.max(a, b), 0);
+    return {
+      userId: id,
+      name: user?.doctor?.fullName ?? user?.fullName ?? "Unknown",
+      qualifications: user?.doctor?.qualifications ?? [],
+      registrationNumber: user?.doctor?.registrationNumber ?? null,
+      verifiedAt: new Date(lastVerifiedAt).toISOString(),
+    };
+  });
+
+  const collectedTimes = liveItems
+    .map((i) => i.sampleCollectedAt?.getTime())
+    .filter((t): t is number => t !== undefined);
+  const p = order.patient;
+
+  return {
+    letterhead: await getTenantLetterhead(tenantId),
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    orderDate: order.orderDate.toISOString(),
+    orderStatus: order.status,
+    reportStatus: verified.length === liveItems.length ? "FINAL" : "PARTIAL",
+    reportDate: new Date(Math.max(...verified.map((i) => i.result!.verifiedAt!.getTime()))).toISOString(),
+    patient: {
+      id: p.id,
+      name: [p.firstName, p.middleName, p.lastName].filter(Boolean).join(" "),
+      uhid: p.uhid,
+      gender: p.gender,
+      ageYears: getAgeInYears(p.dateOfBirth, p.ageYears),
+      mobile: p.primaryMobile,
+    },
+    referringDoctor: order.doctor.fullName,
+    sampleCollectedAt: collectedTimes.length > 0 ? new Date(Math.min(...collectedTimes)).toISOString() : null,
+    sections: [...sectionMap.entries()].map(([category, results]) => ({ category, results })),
+    pendingTests: liveItems.filter((i) => !i.result?.verifiedAt).map((i) => i.testName),
+    signatories,
+  };
+}
+
+// =====================================================
+// 2. PDF RENDERING
+// =====================================================
+
+const MARGIN = 40;
+const COLS = { test: MARGIN, result: 250, unit: 345, range: 410, flag: A4_WIDTH - MARGIN };
+const GREY: RGB = [100, 116, 139];
+const RED: RGB = [220, 38, 38];
+const AMBER: RGB = [180, 83, 9];
+
+function flagLabel(row: LabReportResultRow): string {
+  if (!row.flag || row.flag === "NORMAL") return "";
+  if (row.flag === "CRITICAL_LOW") return "CRITICAL L";
+  if (row.flag === "CRITICAL_HIGH") return "CRITICAL H";
+  if (row.flag === "LOW") return "L";
+  if (row.flag === "HIGH") return "H";
+  return "ABN";
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 3)}...` : text;
+}
+
+export function renderLabReportPdf(report: LabReportData): Buffer {
+  const pdf = new PdfDocument();
+  let y = 0;
+
+  const drawHeader = () => {
+    const lh = report.letterhead;
+    pdf.text(MARGIN, 50, lh.name, { size: 16, bold: true });
+    let hy = 66;
+    if (lh.address) { pdf.text(MARGIN, hy, lh.address, { size: 9, color: GREY }); hy += 12; }
+    const contact = [lh.phone && `Tel: ${lh.phone}`, lh.email && `Email: ${lh.email}`].filter(Boolean).join("   ");
+    if (contact) { pdf.text(MARGIN, hy, contact, { size: 9, color: GREY }); hy += 12; }
+    pdf.text(A4_WIDTH - MARGIN, 50, "LABORATORY REPORT", { size: 12, bold: true, align: "right" });
+    pdf.text(A4_WIDTH - MARGIN, 64, report.reportStatus === "FINAL" ? "Final Report" : "Partial Report", {
+      size: 9, color: report.reportStatus === "FINAL" ? GREY : AMBER, align: "right",
+    });
+    y = Math.max(hy, 80) + 4;
+    pdf.line(MARGIN, y, A4_WIDTH - MARGIN, y, 1.2);
+    y += 16;
+  };
+
+  const drawPatientBlock = () => {
+    const p = report.patient;
+    const left: [string, string][] = [
+      ["Patient", p.name],
+      ["UHID", p.uhid],
+      ["Age / Gender", `${p.ageYears !== null ? `${p.ageYears} Y` : "-"} / ${p.gender}`],
+    ];
+    const right: [string, string][] = [
+      ["Order No", report.orderNumber],
+      ["Referred By", `Dr. ${report.referringDoctor}`],
+      ["Collected", report.sampleCollectedAt ? format(new Date(report.sampleCollectedAt), "dd/MM/yyyy hh:mm a") : "-"],
+      ["Reported", format(new Date(report.reportDate), "dd/MM/yyyy hh:mm a")],
+    ];
+    const rows = Math.max(left.length, right.length);
+    for (let i = 0; i < rows; i++) {
+      if (left[i]) {
+        pdf.text(MARGIN, y, left[i][0], { size: 9, color: GREY });
+        pdf.text(MARGIN + 75, y, left[i][1], { size: 9, bold: i === 0 });
+      }
+      if (right[i]) {
+        pdf.text(320, y, right[i][0], { size: 9, color: GREY });
+        pdf.text(395, y, right[i][1], { size: 9 });
+      }
+      y += 13;
+    }
+    y += 4;
+  };
+
+  const drawTableHeader = () => {
+    pdf.rect(MARGIN, y - 10, A4_WIDTH - MARGIN * 2, 16, [241, 245, 249]);
+    pdf.text(COLS.test + 4, y + 2, "Test", { size: 9, bold: true });
+    pdf.text(COLS.result, y + 2, "Result", { size: 9, bold: true });
+    pdf.text(COLS.unit, y + 2, "Unit", { size: 9, bold: true });
+    pdf.text(COLS.range, y + 2, "Reference Range", { size: 9, bold: true });
+    pdf.text(COLS.flag - 4, y + 2, "Flag", { size: 9, bold: true, align: "right" });
+    y += 20;
+  };
+
+  const ensureSpace = (needed: number) => {
+    if (y + needed <= A4_HEIGHT - 110) return;
+    pdf.addPage();
+    drawHeader();
+    drawTableHeader();
+  };
+
+  drawHeader();
+  drawPatientBlock();
+  drawTableHeader();
+
+  for (const section of report.sections) {
+    ensureSpace(34);
+    pdf.text(MARGIN, y, section.category.toUpperCase(), { size: 10, bold: true });
+    y += 6;
+    pdf.line(MARGIN, y, A4_WIDTH - MARGIN, y, 0.3, GREY);
+    y += 12;
+
+    for (const row of section.results) {
+      ensureSpace(row.notes ? 28 : 16);
+      const abnormal = row.flag !== null && row.flag !== "NORMAL";
+      const color: RGB = row.isCritical ? RED : abnormal ? AMBER : [0, 0, 0];
+      pdf.text(COLS.test + 4, y, truncate(row.testName, 38), { size: 9 });
+      pdf.text(COLS.result, y, truncate(row.result, 16), { size: 9, bold: abnormal, color });
+      pdf.text(COLS.unit, y, truncate(row.unit ?? "", 11), { size: 9 });
+      pdf.text(COLS.range, y, truncate(row.referenceRange ?? "-", 22), { size: 9, color: GREY });
+      pdf.text(COLS.flag - 4, y, flagLabel(row), { size: 8, bold: true, color, align: "right" });
+      y += 14;
+      if (row.notes) {
+        pdf.text(COLS.test + 12, y - 2, truncate(`Note: ${row.notes}`, 100), { size: 8, color: GREY });
+        y += 12;
+      }
+    }
+    y += 6;
+  }
+
+  if (report.pendingTests.length > 0) {
+    ensureSpace(24);
+    pdf.text(MARGIN, y, `Pending: ${truncate(report.pendingTests.join(", "), 95)}`, { size: 9, color: AMBER });
+    y += 16;
+  }
+
+  // Signatories block pinned above the footer of the last page
+  const signY = A4_HEIGHT - 95;
+  report.signatories.slice(0, 3).forEach((s, i) => {
+    const x = A4_WIDTH - MARGIN - i * 170;
+    pdf.line(x - 150, signY - 12, x, signY - 12, 0.5, GREY);
+    pdf.text(x, signY, `Dr. ${s.name}`, { size: 9, bold: true, align: "right" });
+    if (s.qualifications.length > 0) pdf.text(x, signY + 11, s.qualifications.join(", "), { size: 8, color: GREY, align: "right" });
+    pdf.text(x, signY + 22, s.registrationNumber ? `Reg. No: ${s.registrationNumber}` : "Pathologist", { size: 8, color: GREY, align: "right" });
+  });
+
+  pdf.line(MARGIN, A4_HEIGHT - 50, A4_WIDTH - MARGIN, A4_HEIGHT - 50, 0.3, GREY);
+  pdf.text(MARGIN, A4_HEIGHT - 38, report.letterhead.footerNote ?? "This is an electronically verified report.", { size: 8, color: GREY });
+  pdf.text(A4_WIDTH - MARGIN, A4_HEIGHT - 38, "*** End of Report ***", { size: 8, color: GREY, align: "right" });
+
+  return pdf.toBuffer();
+}
+
+// =====================================================
+// 3. ARCHIVE TO PATIENT DOCUMENTS
+// Stored inline as a base64 data URL, the same way uploaded
+// patient documents carry their file data.
+// =====================================================
+
+export async function archiveLabReport(tenantId: string, userId: string, orderId: string) {
+  const report = await getLabReportData(tenantId, orderId);
+  const pdf = renderLabReportPdf(report);
+  const fileName = `${report.orderNumber}-${report.reportStatus.toLowerCase()}.pdf`;
+
+  const document = await prisma.patientDocument.create({
+    data: {
+      tenantId,
+      patientId: report.patient.id,
+      documentType: "LAB_REPORT",
+      documentNumber: report.orderNumber,
+      fileUrl: `data:application/pdf;base64,${pdf.toString("base64")}`,
+      fileName,
+      fileSize: pdf.length,
+      mimeType: "application/pdf",
+      isVerified: report.reportStatus === "FINAL",
+      verifiedBy: report.signatories[0]?.userId ?? null,
+      verifiedAt: report.reportStatus === "FINAL" ? new Date(report.reportDate) : null,
+      uploadedBy: userId,
+    },
+    select: { id: true, fileName: true, fileSize: true, documentType: true, uploadedAt: true },
+  });
+
+  createAuditLog({
+    tenantId,
+    performedBy: userId,
+    entityType: "PATIENT_DOCUMENT",
+    entityId: document.id,
+    action: "CREATE",
+    newValue: {
+      documentType: "LAB_REPORT",
+      labOrderId: report.orderId,
+      orderNumber: report.orderNumber,
+      reportStatus: report.reportStatus,
+      fileName,
+    },
+  });
+
+  return { ...document, uploadedAt: document.uploadedAt.toISOString(), reportStatus: report.reportStatus };
+}
@@ -0,0 +1,154 @@
+import type { Gender, LabResultFlag } from "@/app/generated/prisma/client";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * Shape of a single band inside LabTest.referenceRanges.
+ * criticalMin / criticalMax are optional panic limits.
+ */
+interface RangeBand {
+  min?: number | null;
+  max?: number | null;
+  unit?: string | null;
+  criticalMin?: number | null;
+  criticalMax?: number | null;
+  text?: string | null;
+}
+
+export interface ResolvedRange {
+  band: RangeBand | null;
+  referenceRange: string | null;
+  unit: string | null;
+}
+
+export interface RangeEvaluation {
+  isNormal: boolean | null;
+  isCritical: boolean;
+  flag: LabResultFlag | null;
+  referenceRange: string | null;
+  unit: string | null;
+}
+
+/** Patients younger than this use the `child` band when one is defined */
+const CHILD_AGE_LIMIT_YEARS = 12;
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseBand(raw: unknown): RangeBand | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const band: RangeBand = {
+    min: toNumber(r.min),
+    max: toNumber(r.max),
+    unit: typeof r.unit === "string" ? r.unit : null,
+    criticalMin: toNumber(r.criticalMin),
+    criticalMax: toNumber(r.criticalMax),
+    text: typeof r.text === "string" ? r.text : null,
+  };
+  if (band.min === null && band.max === null && !band.text) return null;
+  return band;
+}
+
+function formatBand(band: RangeBand): string | null {
+  if (band.text) return band.text;
+  if (band.min !== null && band.max !== null) return `${band.min} - ${band.max}`;
+  if (band.min !== null) return `>= ${band.min}`;
+  if (band.max !== null) return `<= ${band.max}`;
+  return null;
+}
+
+/**
+ * Age in whole years from date of birth, falling back to the
+ * registration-time ageYears when DOB was not captured.
+ */
+export function getAgeInYears(dateOfBirth: Date | null, ageYears: number | null): number | null {
+  if (dateOfBirth) {
+    const now = new Date();
+    let age = now.getFullYear() - dateOfBirth.getFullYear();
+    const m = now.getMonth() - dateOfBirth.getMonth();
+    if (m < 0 || (m === 0 && now.getDate() < dateOfBirth.getDate())) age--;
+    return Math.max(age, 0);
+  }
+  return ageYears ?? null;
+}
+
+// =====================================================
+// RESOLVE RANGE FOR PATIENT
+// child (under 12) → gender band → default band
+// =====================================================
+
+export function resolveReferenceRange(
+  referenceRanges: unknown,
+  gender: Gender,
+  ageYears: number | null
+): ResolvedRange {
+  if (!referenceRanges || typeof referenceRanges !== "object") {
+    return { band: null, referenceRange: null, unit: null };
+  }
+  const ranges = referenceRanges as Record<string, unknown>;
+
+  const candidates: unknown[] = [];
+  if (ageYears !== null && ageYears < CHILD_AGE_LIMIT_YEARS) candidates.push(ranges.child);
+  if (gender === "MALE") candidates.push(ranges.male);
+  if (gender === "FEMALE") candidates.push(ranges.female);
+  candidates.push(ranges.default, ranges.adult);
+
+  for (const candidate of candidates) {
+    const band = parseBand(candidate);
+    if (band) return { band, referenceRange: formatBand(band), unit: band.unit ?? null };
+  }
+
+  return { band: null, referenceRange: null, unit: null };
+}
+
+// =====================================================
+// EVALUATE RESULT
+// Numeric results are flagged against the band; qualitative
+// results rely on the technician's manual normal/abnormal call.
+// =====================================================
+
+export function evaluateResult(
+  resolved: ResolvedRange,
+  result: string,
+  manualIsNormal?: boolean
+): RangeEvaluation {
+  const base = { referenceRange: resolved.referenceRange, unit: resolved.unit };
+  const band = resolved.band;
+  const value = toNumber(result.trim());
+
+  if (!band || value === null || (band.min === null && band.max === null)) {
+    if (manualIsNormal === undefined) {
+      return { ...base, isNormal: null, isCritical: false, flag: null };
+    }
+    return {
+      ...base,
+      isNormal: manualIsNormal,
+      isCritical: false,
+      flag: manualIsNormal ? "NORMAL" : "ABNORMAL",
+    };
+  }
+
+  if (band.criticalMin != null && value < band.criticalMin) {
+    return { ...base, isNormal: false, isCritical: true, flag: "CRITICAL_LOW" };
+  }
+  if (band.criticalMax != null && value > band.criticalMax) {
+    return { ...base, isNormal: false, isCritical: true, flag: "CRITICAL_HIGH" };
+  }
+  if (band.min != null && value < band.min) {
+    return { ...base, isNormal: false, isCritical: false, flag: "LOW" };
+  }
+  if (band.max != null && value > band.max) {
+    return { ...base, isNormal: false, isCritical: false, flag: "HIGH" };
+  }
+  return { ...base, isNormal: true, isCritical: false, flag: "NORMAL" };
+}
@@ -0,0 +1,654 @@
+/**
+ * HMS Appointment System - Patient Self-Service Booking Service
+ *
+ * Public, token-secured booking per tenant. Patients identify with UHID +
+ * registered mobile and a one-time passcode, then see open slots (same slot
+ * generation as /api/appointments/slots), book ONLINE appointments and cancel
+ * them within the tenant's policy windows.
+ */
+
+import crypto from "crypto";
+import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit";
+import { verifyAppointmentConfirmToken } from "@/lib/auth";
+import { sendNotification } from "@/lib/notifications/notifier";
+import { availabilityService } from "@/lib/services/availabilityService";
+import { appointmentBookingService } from "@/lib/services/appointmentBookingService";
+import {
+  OnlineBookingSettingsInput,
+  RequestBookingOtpInput,
+  VerifyBookingOtpInput,
+  PublicBookAppointmentInput,
+  PublicCancelAppointmentInput,
+} from "@/lib/schemas/appointment-schema";
+import { SlotQueryInput, DoctorDaySlots } from "@/lib/schemas/availability-schema";
+
+// ============== TYPES ==============
+
+interface ServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  errorCode?: string;
+}
+
+export type OnlineBookingSettings = {
+  enabled: boolean;
+  token: string | null;
+  bookingWindowDays: number;
+  minLeadMinutes: number;
+  cancelCutoffHours: number;
+};
+
+interface BookingContext {
+  tenant: { id: string; name: string };
+  settings: OnlineBookingSettings;
+}
+
+interface BookingInfo {
+  hospitalName: string;
+  bookingWindowDays: number;
+  minLeadMinutes: number;
+  cancelCutoffHours: number;
+  departments: Array<{ id: string; name: string }>;
+  doctors: Array<{
+    id: string;
+    fullName: string;
+    qualifications: string[];
+    specializations: string[];
+    departmentIds: string[];
+  }>;
+}
+
+interface ConfirmationDetails {
+  hospitalName: string;
+  patientName: string;
+  appointmentDate: Date;
+  appointmentTime: string | null;
+  status: string;
+  doctorName: string | null;
+  departmentName: string | null;
+}
+
+interface PatientAppointment {
+  id: string;
+  appointmentDate: Date;
+  appointmentTime: string | null;
+  status: string;
+  bookingSource: string | null;
+  canCancel: boolean;
+  doctorMaster: { id: string; fullName: string } | null;
+  department: { id: string; name: string } | null;
+}
+
+/** TenantSetting key holding the public booking link and policy windows */
+export const ONLINE_BOOKING_SETTING_KEY = "online_booking";
+
+const DEFAULT_SETTINGS: OnlineBookingSettings = {
+  enabled: false,
+  token: null,
+  bookingWindowDays: 30,
+  minLeadMinutes: 60,
+  cancelCutoffHours: 4,
+};
+
+const OTP_TTL_MINUTES = 5;
+const OTP_MAX_ATTEMPTS = 5;
+const OTP_MAX_PER_WINDOW = 5;
+const OTP_WINDOW_MINUTES = 15;
+
+// ============== HELPER FUNCTIONS ==============
+
+function parseSettings(value: unknown): OnlineBookingSettings {
+  const v = (value ?? {}) as Partial<OnlineBookingSettings>;
+  return {
+    enabled: v.enabled === true,
+    token: typeof v.token === "string" ? v.token : null,
+    bookingWindowDays: typeof v.bookingWindowDays === "number" ? v.bookingWindowDays : DEFAULT_SETTINGS.bookingWindowDays,
+    minLeadMinutes: typeof v.minLeadMinutes === "number" ? v.minLeadMinutes : DEFAULT_SETTINGS.minLeadMinutes,
+    cancelCutoffHours: typeof v.cancelCutoffHours === "number" ? v.cancelCutoffHours : DEFAULT_SETTINGS.cancelCutoffHours,
+  };
+}
+
+/**
+ * Compare mobiles on their last 10 digits so "+91 98765 43210" matches "9876543210"
+ */
+function normalizeMobile(value: string): string {
+  return value.replace(/\D/g, "").slice(-10);
+}
+
+function hashOtp(otpId: string, code: string): string {
+  return crypto.createHash("sha256").update(`${otpId}:${code}`).digest("hex");
+}
+
+function maskMobile(mobile: string): string {
+  const digits = normalizeMobile(mobile);
+  return `••••••${digits.slice(-4)}`;
+}
+
+/**
+ * Appointment start as a local Date (date + HH:mm)
+ */
+function appointmentStart(date: Date, time: string | null): Date {
+  const start = new Date(date);
+  if (time) {
+    const [hours, minutes] = time.split(":").map(Number);
+    start.setHours(hours, minutes, 0, 0);
+  } else {
+    start.setHours(0, 0, 0, 0);
+  }
+  return start;
+}
+
+function canCancel(date: Date, time: string | null, status: string, settings: OnlineBookingSettings): boolean {
+  if (!["BOOKED", "CONFIRMED", "RESCHEDULED"].includes(status)) return false;
+  const cutoff = appointmentStart(date, time).getTime() - settings.cancelCutoffHours * 60 * 60 * 1000;
+  return Date.now() <= cutoff;
+}
+
+/**
+ * Resolve the tenant behind a public booking link; disabled links resolve to null
+ */
+async function resolveLink(token: string): Promise<BookingContext | null> {
+  const setting = await prisma.tenantSetting.findFirst({
+    where: { key: ONLINE_BOOKING_SETTING_KEY, value: { path: ["token"], equals: token } },
+    include: { tenant: { select: { id: true, name: true, isActive: true } } },
+  });
+
+  if (!setting || !setting.tenant.isActive) return null;
+
+  const settings = parseSettings(setting.value);
+  if (!settings.enabled || settings.token !== token) return null;
+
+  return { tenant: { id: setting.tenant.id, name: setting.tenant.name }, settings };
+}
+
+async function findPatientByUhid(tenantId: string, uhid: string) {
+  return prisma.patient.findFirst({
+    where: {
+      tenantId,
+      uhid: { equals: uhid.trim(), mode: "insensitive" },
+      status: "ACTIVE",
+      mergedIntoId: null,
+    },
+    select: { id: true, uhid: true, firstName: true, lastName: true, primaryMobile: true },
+  });
+}
+
+const LINK_INVALID: ServiceResult<never> = {
+  success: false,
+  error: "This booking link is invalid or no longer active",
+  errorCode: "LINK_INVALID",
+};
+
+// ============== SERVICE ==============
+
+export const onlineBookingService = {
+  // ---------- Staff settings ----------
+
+  /**
+   * Online booking settings for a tenant
+   */
+  async getSettings(tenantId: string): Promise<OnlineBookingSettings> {
+    const setting = await prisma.tenantSetting.findUnique({
+      where: { tenantId_key: { tenantId, key: ONLINE_BOOKING_SETTING_KEY } },
+    });
+    return parseSettings(setting?.value);
+  },
+
+  /**
+   * Update policy windows; a link token is generated on first enable or on request
+   */
+  async updateSettings(
+    tenantId: string,
+    input: OnlineBookingSettingsInput,
+    performedBy: string
+  ): Promise<ServiceResult<OnlineBookingSettings>> {
+    try {
+      const existing = await this.getSettings(tenantId);
+      const { regenerateLink, ...policy } = input;
+
+      const settings: OnlineBookingSettings = {
+        ...policy,
+        token:
+          regenerateLink || (!existing.token && input.enabled)
+            ? crypto.randomBytes(24).toString("base64url")
+            : existing.token,
+      };
+
+      await prisma.tenantSetting.upsert({
+        where: { tenantId_key: { tenantId, key: ONLINE_BOOKING_SETTING_KEY } },
+        create: {
+          tenantId,
+          key: ONLINE_BOOKING_SETTING_KEY,
+          value: settings,
+          createdBy: performedBy,
+          updatedBy: performedBy,
+        },
+        update: { value: settings, updatedBy: performedBy },
+      });
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "TENANT_SETTING",
+        entityId: ONLINE_BOOKING_SETTING_KEY,
+        action: "UPDATE",
+        oldValue: { ...existing, token: undefined },
+        newValue: { ...policy, linkRegenerated: settings.token !== existing.token },
+      });
+
+      return { success: true, data: settings };
+    } catch (error) {
+      console.error("Update online booking settings error:", error);
+      return { success: false, error: "Failed to update settings", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  // ---------- Public booking ----------
+
+  /**
+   * Hospital, departments and doctors shown on the booking page
+   */
+  async getBookingInfo(token: string): Promise<ServiceResult<BookingInfo>> {
+    const context = await resolveLink(token);
+    if (!context) return LINK_INVALID;
+
+    const tenantId = context.tenant.id;
+    const [departments, doctors] = await Promise.all([
+      prisma.department.findMany({
+        where: { tenantId, status: "ACTIVE", isDeleted: false },
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+      }),
+      prisma.doctor.findMany({
+        where: { tenantId, status: "ACTIVE", isDeleted: false, isSchedulable: true },
+        select: {
+          id: true,
+          fullName: true,
+          qualifications: true,
+          specializations: true,
+          primaryDepartmentId: true,
+          departments: { where: { isActive: true }, select: { departmentId: true } },
+        },
+        orderBy: { fullName: "asc" },
+      }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        hospitalName: context.tenant.name,
+        bookingWindowDays: context.settings.bookingWindowDays,
+        minLeadMinutes: context.settings.minLeadMinutes,
+        cancelCutoffHours: context.settings.cancelCutoffHours,
+        departments,
+        doctors: doctors.map((d) => ({
+          id: d.id,
+          fullName: d.fullName,
+          qualifications: d.qualifications,
+          specializations: d.specializations,
+          departmentIds: Array.from(new Set([d.primaryDepartmentId, ...d.departments.map((dd) => dd.departmentId)])),
+        })),
+      },
+    };
+  },
+
+  /**
+   * Send an OTP to the patient's registered mobile. The response does not
+   * reveal whether the UHID / mobile pair exists: unknown pairs and rate
+   * limited requests get the same reply as a sent OTP.
+   */
+  async requestOtp(
+    token: string,
+    input: RequestBookingOtpInput
+  ): Promise<ServiceResult<{ sentTo: string }>> {
+    try {
+      const context = await resolveLink(token);
+      if (!context) return LINK_INVALID;
+
+      const tenantId = context.tenant.id;
+      const sent = { success: true, data: { sentTo: maskMobile(input.mobile) } };
+      const patient = await findPatientByUhid(tenantId, input.uhid);
+
+      if (!patient || normalizeMobile(patient.primaryMobile) !== normalizeMobile(input.mobile)) {
+        return sent;
+      }
+
+      const recent = await prisma.patientOtp.count({
+        where: {
+          tenantId,
+          patientId: patient.id,
+          createdAt: { gte: new Date(Date.now() - OTP_WINDOW_MINUTES * 60 * 1000) },
+        },
+      });
+
+      // Silently drop requests over the limit; an error here would confirm the pair exists
+      if (recent >= OTP_MAX_PER_WINDOW) return sent;
+
+      const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+      const otpId = crypto.randomUUID();
+
+      await prisma.patientOtp.create({
+        data: {
+          id: otpId,
+          tenantId,
+          patientId: patient.id,
+          codeHash: hashOtp(otpId, code),
+          expiresAt: new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000),
+        },
+      });
+
+      await sendNotification({
+        tenantId,
+        channel: "SMS",
+        to: patient.primaryMobile,
+        body: `${code} is your OTP to book appointments at ${context.tenant.name}. It is valid for ${OTP_TTL_MINUTES} minutes. Do not share it.`,
+      });
+
+      return sent;
+    } catch (error) {
+      console.error("Request booking OTP error:", error);
+      return { success: false, error: "Failed to send OTP", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Verify the latest OTP for a patient; returns the patient for the session
+   */
+  async verifyOtp(
+    token: string,
+    input: VerifyBookingOtpInput
+  ): Promise<ServiceResult<{ tenantId: string; patientId: string; patientName: string; uhid: string }>> {
+    try {
+      const context = await resolveLink(token);
+      if (!context) return LINK_INVALID;
+
+      const tenantId = context.tenant.id;
+      const invalid = { success: false, error: "Invalid or expired OTP", errorCode: "OTP_INVALID" };
+
+      const patient = await findPatientByUhid(tenantId, input.uhid);
+      if (!patient) return invalid;
+
+      const otp = await prisma.patientOtp.findFirst({
+        where: { tenantId, patientId: patient.id, consumedAt: null },
+        orderBy: { createdAt: "desc" },
+      });
+
+      if (!otp || otp.expiresAt < new Date() || otp.attempts >= OTP_MAX_ATTEMPTS) {
+        return invalid;
+      }
+
+      const expected = Buffer.from(otp.codeHash, "hex");
+      const actual = Buffer.from(hashOtp(otp.id, input.otp), "hex");
+
+      if (!crypto.timingSafeEqual(expected, actual)) {
+        await prisma.patientOtp.update({
+          where: { id: otp.id },
+          data: { attempts: { increment: 1 } },
+        });
+        return invalid;
+      }
+
+      // Guard on consumedAt so the same code cannot open two sessions
+      const consumed = await prisma.patientOtp.updateMany({
+        where: { id: otp.id, consumedAt: null },
+        data: { consumedAt: new Date() },
+      });
+      if (consumed.count === 0) return invalid;
+
+      return {
+        success: true,
+        data: {
+          tenantId,
+          patientId: patient.id,
+          patientName: [patient.firstName, patient.lastName].filter(Boolean).join(" "),
+          uhid: patient.uhid,
+        },
+      };
+    } catch (error) {
+      console.error("Verify booking OTP error:", error);
+      return { success: false, error: "Failed to verify OTP", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Resolve a link for routes that need the tenant before checking the patient session
+   */
+  async resolveLink(token: string): Promise<BookingContext | null> {
+    return resolveLink(token);
+  },
+
+  /**
+   * Open slots for a doctor, limited to the booking window and lead time
+   */
+  async getSlots(
+    context: BookingContext,
+    query: SlotQueryInput
+  ): Promise<ServiceResult<DoctorDaySlots>> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const lastDay = new Date(today);
+    lastDay.setDate(lastDay.getDate() + context.settings.bookingWindowDays);
+
+    const date = new Date(query.date);
+    date.setHours(0, 0, 0, 0);
+    if (date < today || date > lastDay) {
+      return {
+        success: false,
+        error: `Appointments can be booked up to ${context.settings.bookingWindowDays} days ahead`,
+        errorCode: "OUTSIDE_BOOKING_WINDOW",
+      };
+    }
+
+    const result = await availabilityService.getDoctorDaySlots(context.tenant.id, query);
+    if (!result.success || !result.data) return result;
+
+    const earliest = Date.now() + context.settings.minLeadMinutes * 60 * 1000;
+    return {
+      success: true,
+      data: {
+        ...result.data,
+        // Walk-in reserved slots and slots inside the lead time are not bookable online
+        slots: result.data.slots.map((slot) => ({
+          ...slot,
+          isAvailable:
+            slot.isAvailable &&
+            !slot.isWalkInOnly &&
+            appointmentStart(date, slot.time).getTime() >= earliest,
+        })),
+      },
+    };
+  },
+
+  /**
+   * Upcoming appointments for the signed-in patient
+   */
+  async listAppointments(context: BookingContext, patientId: string): Promise<PatientAppointment[]> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        tenantId: context.tenant.id,
+        patientId,
+        appointmentDate: { gte: today },
+        status: { in: ["BOOKED", "CONFIRMED", "RESCHEDULED", "CHECKED_IN"] },
+      },
+      select: {
+        id: true,
+        appointmentDate: true,
+        appointmentTime: true,
+        status: true,
+        bookingSource: true,
+        doctorMaster: { select: { id: true, fullName: true } },
+        department: { select: { id: true, name: true } },
+      },
+      orderBy: [{ appointmentDate: "asc" }, { appointmentTime: "asc" }],
+    });
+
+    return appointments.map((a) => ({
+      ...a,
+      canCancel: canCancel(a.appointmentDate, a.appointmentTime, a.status, context.settings),
+    }));
+  },
+
+  /**
+   * Book an ONLINE appointment for the signed-in patient
+   */
+  async book(
+    context: BookingContext,
+    patientId: string,
+    input: PublicBookAppointmentInput
+  ): Promise<ServiceResult<PatientAppointment>> {
+    const [year, month, day] = input.appointmentDate.split("-").map(Number);
+    const date = new Date(year, month - 1, day);
+
+    const lastDay = new Date();
+    lastDay.setHours(0, 0, 0, 0);
+    lastDay.setDate(lastDay.getDate() + context.settings.bookingWindowDays);
+    if (date > lastDay) {
+      return {
+        success: false,
+        error: `Appointments can be booked up to ${context.settings.bookingWindowDays} days ahead`,
+        errorCode: "OUTSIDE_BOOKING_WINDOW",
+      };
+    }
+
+    const earliest = Date.now() + context.settings.minLeadMinutes * 60 * 1000;
+    if (appointmentStart(date, input.appointmentTime).getTime() < earliest) {
+      return {
+        success: false,
+        error: `Online bookings must be made at least ${context.settings.minLeadMinutes} minutes in advance`,
+        errorCode: "INSIDE_LEAD_TIME",
+      };
+    }
+
+    const result = await appointmentBookingService.book(
+      context.tenant.id,
+      {
+        patientId,
+        departmentId: input.departmentId,
+        doctorId: input.doctorId,
+        appointmentDate: input.appointmentDate,
+        appointmentTime: input.appointmentTime,
+        slotEndTime: input.slotEndTime,
+        chiefComplaint: input.chiefComplaint,
+        isWalkIn: false,
+        bookingSource: "ONLINE",
+        overbook: false,
+      },
+      null
+    );
+
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error, errorCode: result.errorCode };
+    }
+
+    const appointment = result.data;
+    return {
+      success: true,
+      data: {
+        id: appointment.id,
+        appointmentDate: appointment.appointmentDate,
+        appointmentTime: appointment.appointmentTime,
+        status: appointment.status,
+        bookingSource: appointment.bookingSource,
+        canCancel: canCancel(appointment.appointmentDate, appointment.appointmentTime, appointment.status, context.settings),
+        doctorMaster: appointment.doctorMaster
+          ? { id: appointment.doctorMaster.id, fullName: appointment.doctorMaster.fullName }
+          : null,
+        department: appointment.department
+          ? { id: appointment.department.id, name: appointment.department.name }
+          : null,
+      },
+    };
+  },
+
+  /**
+   * Cancel one of the signed-in patient's appointments within the cancellation window
+   */
+  async cancel(
+    context: BookingContext,
+    patientId: string,
+    appointmentId: string,
+    input: PublicCancelAppointmentInput
+  ): Promise<ServiceResult<void>> {
+    const appointment = await prisma.appointment.findFirst({
+      where: { id: appointmentId, tenantId: context.tenant.id, patientId },
+      select: { appointmentDate: true, appointmentTime: true, status: true },
+    });
+
+    if (!appointment) {
+      return { success: false, error: "Appointment not found", errorCode: "NOT_FOUND" };
+    }
+
+    if (!canCancel(appointment.appointmentDate, appointment.appointmentTime, appointment.status, context.settings)) {
+      return {
+        success: false,
+        error: `Appointments can only be cancelled online up to ${context.settings.cancelCutoffHours} hours before the slot. Please call the hospital.`,
+        errorCode: "OUTSIDE_CANCEL_WINDOW",
+      };
+    }
+
+    return appointmentBookingService.cancel(
+      context.tenant.id,
+      { appointmentId, cancelReason: `Cancelled by patient: ${input.cancelReason}` },
+      null
+    );
+  },
+
+  // ============== CONFIRMATION LINK ==============
+
+  /**
+   * Appointment shown on the confirmation page for a signed link
+   */
+  async getConfirmation(token: string): Promise<ServiceResult<ConfirmationDetails>> {
+    const payload = await verifyAppointmentConfirmToken(token);
+    if (!payload) {
+      return { success: false, error: "This confirmation link is invalid or has expired", errorCode: "LINK_INVALID" };
+    }
+
+    const appointment = await prisma.appointment.findFirst({
+      where: { id: payload.appointmentId, tenantId: payload.tenantId },
+      select: {
+        appointmentDate: true,
+        appointmentTime: true,
+        status: true,
+        tenant: { select: { name: true } },
+        patient: { select: { firstName: true, lastName: true } },
+        doctorMaster: { select: { fullName: true } },
+        department: { select: { name: true } },
+      },
+    });
+
+    if (!appointment) {
+      return { success: false, error: "Appointment not found", errorCode: "NOT_FOUND" };
+    }
+
+    return {
+      success: true,
+      data: {
+        hospitalName: appointment.tenant.name,
+        patientName: `${appointment.patient.firstName} ${appointment.patient.lastName || ""}`.trim(),
+        appointmentDate: appointment.appointmentDate,
+        appointmentTime: appointment.appointmentTime,
+        status: appointment.status,
+        doctorName: appointment.doctorMaster?.fullName || null,
+        departmentName: appointment.department?.name || null,
+      },
+    };
+  },
+
+  /**
+   * Confirm the appointment a signed link was issued for
+   */
+  async confirmByToken(token: string): Promise<ServiceResult<void>> {
+    const payload = await verifyAppointmentConfirmToken(token);
+    if (!payload) {
+      return { success: false, error: "This confirmation link is invalid or has expired", errorCode: "LINK_INVALID" };
+    }
+
+    return appointmentBookingService.confirm(payload.tenantId, payload.appointmentId, null);
+  },
+};
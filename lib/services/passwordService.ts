@@ -0,0 +1,715 @@
+/**
+ * HMS Auth - Password Service
+ *
+ * Per-tenant password policy (TenantSetting "password_policy"): complexity,
+ * expiry, reuse history and lockout after repeated failed logins. Every
+ * password change of a tenant user goes through here: self-service change,
+ * the change required on first login or after expiry, admin-set passwords and
+ * admin-issued single-use reset links delivered through the notifier.
+ *
+ * Changing or resetting a password clears any lockout and signs the user out
+ * of their other sessions.
+ */
+
+import crypto from "crypto";
+import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit";
+import { hashPassword, verifyPassword, verifyPasswordChangeToken } from "@/lib/auth";
+import { sendNotification } from "@/lib/notifications/notifier";
+import { sessionService } from "@/lib/services/sessionService";
+import type { Prisma, User } from "@/app/generated/prisma/client";
+import {
+  PasswordPolicyInput,
+  ChangePasswordInput,
+  RequiredPasswordChangeInput,
+  ResetPasswordInput,
+} from "@/lib/schemas/auth-schema";
+
+// ============== TYPES ==============
+
+interface ServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  errorCode?: string;
+}
+
+export type PasswordPolicy = {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  /** 0 = passwords never expire */
+  expiryDays: number;
+  /** Number of previous passwords (including the current one) that may not be reused */
+  historyCount: number;
+  /** 0 = no lockout */
+  maxFailedAttempts: number;
+  /** 0 = locked until an admin unlocks the account */
+  lockoutMinutes: number;
+  forceChangeOnFirstLogin: boolean;
+  resetLinkTtlMinutes: number;
+};
+
+export type PasswordChangeReason = "FIRST_LOGIN" | "EXPIRED";
+
+type PasswordUser = Pick<
+  User,
+  | "id"
+  | "tenantId"
+  | "email"
+  | "username"
+  | "passwordHash"
+  | "passwordChangedAt"
+  | "mustChangePassword"
+  | "failedLoginAttempts"
+  | "lockedAt"
+  | "lockedUntil"
+>;
+
+export interface LockState {
+  locked: boolean;
+  /** null while locked = until an admin unlocks */
+  lockedUntil: Date | null;
+}
+
+export interface ResetLinkInfo {
+  fullName: string;
+  tenantName: string;
+  policy: PasswordPolicy;
+}
+
+/** TenantSetting key holding the tenant's password policy */
+export const PASSWORD_POLICY_SETTING_KEY = "password_policy";
+
+const DEFAULT_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  expiryDays: 90,
+  historyCount: 5,
+  maxFailedAttempts: 5,
+  lockoutMinutes: 30,
+  forceChangeOnFirstLogin: true,
+  resetLinkTtlMinutes: 60,
+};
+
+/** History rows kept per user; the policy's historyCount can be raised up to this */
+const MAX_HISTORY_ENTRIES = 24;
+
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+
+const USER_PASSWORD_SELECT = {
+  id: true,
+  tenantId: true,
+  email: true,
+  username: true,
+  passwordHash: true,
+  passwordChangedAt: true,
+  mustChangePassword: true,
+  failedLoginAttempts: true,
+  lockedAt: true,
+  lockedUntil: true,
+} as const;
+
+// ============== HELPER FUNCTIONS ==============
+
+function parsePolicy(value: unknown): PasswordPolicy {
+  const v = (value ?? {}) as Partial<PasswordPolicy>;
+  const pick = <K extends keyof PasswordPolicy>(key: K): PasswordPolicy[K] =>
+    typeof v[key] === typeof DEFAULT_POLICY[key] ? (v[key] as PasswordPolicy[K]) : DEFAULT_POLICY[key];
+
+  return {
+    minLength: pick("minLength"),
+    requireUppercase: pick("requireUppercase"),
+    requireLowercase: pick("requireLowercase"),
+    requireNumber: pick("requireNumber"),
+    requireSymbol: pick("requireSymbol"),
+    expiryDays: pick("expiryDays"),
+    historyCount: pick("historyCount"),
+    maxFailedAttempts: pick("maxFailedAttempts"),
+    lockoutMinutes: pick("lockoutMinutes"),
+    forceChangeOnFirstLogin: pick("forceChangeOnFirstLogin"),
+    resetLinkTtlMinutes: pick("resetLinkTtlMinutes"),
+  };
+}
+
+function hashResetToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Policy violations for a candidate password; empty when it is acceptable
+ */
+export function checkPasswordAgainstPolicy(
+  policy: PasswordPolicy,
+  password: string,
+  identity: { email: string; username: string }
+): string[] {
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push("Password must contain an uppercase letter");
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push("Password must contain a lowercase letter");
+  }
+  if (policy.requireNumber && !/\d/.test(password)) {
+    violations.push("Password must contain a number");
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push("Password must contain a symbol");
+  }
+
+  const lower = password.toLowerCase();
+  const names = [identity.username, identity.email.split("@")[0]]
+    .map((name) => name.toLowerCase())
+    .filter((name) => name.length >= 3);
+  if (names.some((name) => lower.includes(name))) {
+    violations.push("Password must not contain your username or email");
+  }
+
+  return violations;
+}
+
+/**
+ * Message shown when a login is refused because the account is locked
+ */
+export function describeLock(lock: LockState): string {
+  const minutes = lock.lockedUntil ? Math.ceil((lock.lockedUntil.getTime() - Date.now()) / 60000) : null;
+  return minutes
+    ? `Account locked after too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}`
+    : "Account locked after too many failed attempts. Contact your administrator";
+}
+
+function isLocked(user: Pick<User, "lockedAt" | "lockedUntil">): boolean {
+  return !!user.lockedAt && (!user.lockedUntil || user.lockedUntil > new Date());
+}
+
+/**
+ * Whether the password matches the current one or one of the recent ones the
+ * policy forbids reusing
+ */
+async function isRecentlyUsed(user: PasswordUser, password: string, historyCount: number): Promise<boolean> {
+  if (historyCount === 0) return false;
+  if (await verifyPassword(password, user.passwordHash)) return true;
+
+  const history = await prisma.passwordHistory.findMany({
+    where: { userId: user.id },
+    orderBy: { createdAt: "desc" },
+    take: historyCount - 1,
+    select: { passwordHash: true },
+  });
+  for (const entry of history) {
+    if (await verifyPassword(password, entry.passwordHash)) return true;
+  }
+  return false;
+}
+
+/**
+ * Policy and history checks for a new password
+ */
+async function validateNewPassword(
+  user: PasswordUser,
+  password: string,
+  policy: PasswordPolicy
+): Promise<ServiceResult<never> | null> {
+  const violations = checkPasswordAgainstPolicy(policy, password, user);
+  if (violations.length > 0) {
+    return { success: false, error: violations.join(". "), errorCode: "POLICY_VIOLATION" };
+  }
+  if (await isRecentlyUsed(user, password, policy.historyCount)) {
+    return {
+      success: false,
+      error: `Password must not match any of your last ${policy.historyCount} passwords`,
+      errorCode: "PASSWORD_REUSED",
+    };
+  }
+  return null;
+}
+
+/**
+ * Store a new password: the old hash moves to history, lockout is cleared
+ */
+async function writePassword(
+  tx: Prisma.TransactionClient,
+  user: PasswordUser,
+  password: string,
+  mustChangePassword: boolean,
+  performedBy: string | null
+): Promise<void> {
+  await tx.passwordHistory.create({
+    data: { userId: user.id, passwordHash: user.passwordHash },
+  });
+
+  await tx.user.update({
+    where: { id: user.id },
+    data: {
+      passwordHash: await hashPassword(password),
+      passwordChangedAt: new Date(),
+      mustChangePassword,
+      failedLoginAttempts: 0,
+      lockedAt: null,
+      lockedUntil: null,
+      updatedBy: performedBy,
+    },
+  });
+
+  const stale = await tx.passwordHistory.findMany({
+    where: { userId: user.id },
+    orderBy: { createdAt: "desc" },
+    skip: MAX_HISTORY_ENTRIES,
+    select: { id: true },
+  });
+  if (stale.length > 0) {
+    await tx.passwordHistory.deleteMany({ where: { id: { in: stale.map((h) => h.id) } } });
+  }
+}
+
+async function findTenantUser(tenantId: string, userId: string) {
+  return prisma.user.findFirst({
+    where: { id: userId, tenantId, isSuperAdmin: false },
+    select: { ...USER_PASSWORD_SELECT, isActive: true, fullName: true, mobile: true },
+  });
+}
+
+const LINK_INVALID: ServiceResult<never> = {
+  success: false,
+  error: "This reset link is invalid or has expired",
+  errorCode: "LINK_INVALID",
+};
+
+// ============== SERVICE ==============
+
+export const passwordService = {
+  // ---------- Policy ----------
+
+  /**
+   * Password policy for a tenant (defaults until an admin saves one); platform
+   * users without a tenant always get the defaults
+   */
+  async getPolicy(tenantId: string | null): Promise<PasswordPolicy> {
+    if (!tenantId) return parsePolicy(undefined);
+    const setting = await prisma.tenantSetting.findUnique({
+      where: { tenantId_key: { tenantId, key: PASSWORD_POLICY_SETTING_KEY } },
+    });
+    return parsePolicy(setting?.value);
+  },
+
+  /**
+   * Save the tenant's password policy; applies to passwords set from now on
+   * and to lockout and expiry checks at the next login
+   */
+  async updatePolicy(
+    tenantId: string,
+    input: PasswordPolicyInput,
+    performedBy: string
+  ): Promise<ServiceResult<PasswordPolicy>> {
+    try {
+      const existing = await this.getPolicy(tenantId);
+      const policy: PasswordPolicy = { ...input };
+
+      await prisma.tenantSetting.upsert({
+        where: { tenantId_key: { tenantId, key: PASSWORD_POLICY_SETTING_KEY } },
+        create: {
+          tenantId,
+          key: PASSWORD_POLICY_SETTING_KEY,
+          value: policy,
+          createdBy: performedBy,
+          updatedBy: performedBy,
+        },
+        update: { value: policy, updatedBy: performedBy },
+      });
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "TENANT_SETTING",
+        entityId: PASSWORD_POLICY_SETTING_KEY,
+        action: "UPDATE",
+        oldValue: existing,
+        newValue: policy,
+      });
+
+      return { success: true, data: policy };
+    } catch (error) {
+      console.error("Update password policy error:", error);
+      return { success: false, error: "Failed to update password policy", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  // ---------- Login ----------
+
+  /**
+   * Current lock state; a timed lock that has run out counts as unlocked
+   */
+  getLockState(user: Pick<User, "lockedAt" | "lockedUntil">): LockState {
+    return { locked: isLocked(user), lockedUntil: user.lockedUntil };
+  },
+
+  /**
+   * Count a failed login and lock the account once the policy limit is reached
+   */
+  async recordFailedLogin(user: PasswordUser, policy: PasswordPolicy): Promise<LockState> {
+    // A timed lock that ran out starts a fresh count
+    const lockExpired = !!user.lockedAt && !isLocked(user);
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: lockExpired
+        ? { failedLoginAttempts: 1, lockedAt: null, lockedUntil: null }
+        : { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+
+    if (policy.maxFailedAttempts === 0 || updated.failedLoginAttempts < policy.maxFailedAttempts) {
+      return { locked: false, lockedUntil: null };
+    }
+
+    const lockedUntil =
+      policy.lockoutMinutes > 0 ? new Date(Date.now() + policy.lockoutMinutes * 60 * 1000) : null;
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lockedAt: new Date(), lockedUntil },
+    });
+
+    await createAuditLog({
+      tenantId: user.tenantId,
+      performedBy: null,
+      entityType: "User",
+      entityId: user.id,
+      action: "LOCK",
+      newValue: { failedLoginAttempts: updated.failedLoginAttempts, lockedUntil },
+    });
+
+    return { locked: true, lockedUntil };
+  },
+
+  /**
+   * Clear the failed-attempt counter after a successful login
+   */
+  async recordSuccessfulLogin(user: PasswordUser): Promise<void> {
+    if (user.failedLoginAttempts === 0 && !user.lockedAt) return;
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: 0, lockedAt: null, lockedUntil: null },
+    });
+  },
+
+  /**
+   * Why the user must set a new password before a session is issued, if at all
+   */
+  getChangeRequirement(user: PasswordUser, policy: PasswordPolicy): PasswordChangeReason | null {
+    if (user.mustChangePassword) return "FIRST_LOGIN";
+    if (policy.expiryDays > 0) {
+      const expiresAt = user.passwordChangedAt.getTime() + policy.expiryDays * 24 * 60 * 60 * 1000;
+      if (expiresAt <= Date.now()) return "EXPIRED";
+    }
+    return null;
+  },
+
+  // ---------- Changing passwords ----------
+
+  /**
+   * Signed-in user changes their own password; other sessions are signed out
+   */
+  async changeOwnPassword(
+    tenantId: string,
+    userId: string,
+    input: ChangePasswordInput,
+    currentSessionId: string
+  ): Promise<ServiceResult<void>> {
+    try {
+      const user = await findTenantUser(tenantId, userId);
+      if (!user || !user.isActive) {
+        return { success: false, error: "User not found", errorCode: "NOT_FOUND" };
+      }
+
+      if (!(await verifyPassword(input.currentPassword, user.passwordHash))) {
+        return { success: false, error: "Current password is incorrect", errorCode: "INVALID_PASSWORD" };
+      }
+
+      const policy = await this.getPolicy(tenantId);
+      const invalid = await validateNewPassword(user, input.newPassword, policy);
+      if (invalid) return invalid;
+
+      await prisma.$transaction((tx) => writePassword(tx, user, input.newPassword, false, userId));
+
+      await createAuditLog({
+        tenantId,
+        performedBy: userId,
+        entityType: "User",
+        entityId: userId,
+        action: "PASSWORD_CHANGE",
+      });
+
+      await sessionService.revokeAllForUser(tenantId, userId, userId, "PASSWORD_CHANGED", currentSessionId);
+
+      return { success: true };
+    } catch (error) {
+      console.error("Change password error:", error);
+      return { success: false, error: "Failed to change password", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * New password set at login (first login or expired password), proven by
+   * the change token the login issued. Returns the user to start a session for.
+   */
+  async completeRequiredChange(
+    input: RequiredPasswordChangeInput
+  ): Promise<ServiceResult<{ userId: string }>> {
+    try {
+      const claims = await verifyPasswordChangeToken(input.changeToken);
+      if (!claims) {
+        return { success: false, error: "Your sign-in has expired. Please sign in again", errorCode: "TOKEN_INVALID" };
+      }
+
+      const user = await findTenantUser(claims.tenantId, claims.userId);
+      if (!user || !user.isActive) {
+        return { success: false, error: "User not found", errorCode: "NOT_FOUND" };
+      }
+
+      const policy = await this.getPolicy(claims.tenantId);
+      const reason = this.getChangeRequirement(user, policy);
+      // The token is only good for the one required change
+      if (!reason) {
+        return { success: false, error: "Your sign-in has expired. Please sign in again", errorCode: "TOKEN_INVALID" };
+      }
+
+      const invalid = await validateNewPassword(user, input.newPassword, policy);
+      if (invalid) return invalid;
+
+      await prisma.$transaction((tx) => writePassword(tx, user, input.newPassword, false, user.id));
+
+      await createAuditLog({
+        tenantId: claims.tenantId,
+        performedBy: user.id,
+        entityType: "User",
+        entityId: user.id,
+        action: "PASSWORD_CHANGE",
+        newValue: { reason },
+      });
+
+      await sessionService.revokeAllForUser(claims.tenantId, user.id, user.id, "PASSWORD_CHANGED");
+
+      return { success: true, data: { userId: user.id } };
+    } catch (error) {
+      console.error("Required password change error:", error);
+      return { success: false, error: "Failed to change password", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Admin sets a password directly; with forceChangeOnFirstLogin the user must
+   * replace it at their next login
+   */
+  async setByAdmin(
+    tenantId: string,
+    userId: string,
+    password: string,
+    performedBy: string
+  ): Promise<ServiceResult<void>> {
+    try {
+      const user = await findTenantUser(tenantId, userId);
+      if (!user) {
+        return { success: false, error: "User not found", errorCode: "NOT_FOUND" };
+      }
+
+      const policy = await this.getPolicy(tenantId);
+      const invalid = await validateNewPassword(user, password, policy);
+      if (invalid) return invalid;
+
+      await prisma.$transaction((tx) =>
+        writePassword(tx, user, password, policy.forceChangeOnFirstLogin, performedBy)
+      );
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "User",
+        entityId: userId,
+        action: "PASSWORD_RESET",
+        newValue: { method: "ADMIN_SET" },
+      });
+
+      await sessionService.revokeAllForUser(tenantId, userId, performedBy, "PASSWORD_RESET");
+
+      return { success: true };
+    } catch (error) {
+      console.error("Set password error:", error);
+      return { success: false, error: "Failed to set password", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  // ---------- Admin ----------
+
+  /**
+   * Lift a lockout and reset the failed-attempt counter
+   */
+  async unlock(tenantId: string, userId: string, performedBy: string): Promise<ServiceResult<void>> {
+    try {
+      const user = await findTenantUser(tenantId, userId);
+      if (!user) {
+        return { success: false, error: "User not found", errorCode: "NOT_FOUND" };
+      }
+      if (!user.lockedAt && user.failedLoginAttempts === 0) {
+        return { success: false, error: "Account is not locked", errorCode: "NOT_LOCKED" };
+      }
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { failedLoginAttempts: 0, lockedAt: null, lockedUntil: null, updatedBy: performedBy },
+      });
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "User",
+        entityId: userId,
+        action: "UNLOCK",
+        oldValue: { failedLoginAttempts: user.failedLoginAttempts, lockedAt: user.lockedAt },
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error("Unlock user error:", error);
+      return { success: false, error: "Failed to unlock account", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Email the user a single-use reset link; earlier unused links stop working
+   */
+  async createResetLink(
+    tenantId: string,
+    userId: string,
+    performedBy: string
+  ): Promise<ServiceResult<{ sentTo: string; expiresAt: Date }>> {
+    try {
+      const user = await findTenantUser(tenantId, userId);
+      if (!user) {
+        return { success: false, error: "User not found", errorCode: "NOT_FOUND" };
+      }
+      if (!user.isActive) {
+        return { success: false, error: "Account is inactive", errorCode: "USER_INACTIVE" };
+      }
+
+      const policy = await this.getPolicy(tenantId);
+      const token = crypto.randomBytes(32).toString("base64url");
+      const expiresAt = new Date(Date.now() + policy.resetLinkTtlMinutes * 60 * 1000);
+
+      await prisma.passwordResetToken.deleteMany({ where: { userId, usedAt: null } });
+      const resetToken = await prisma.passwordResetToken.create({
+        data: { userId, tenantId, tokenHash: hashResetToken(token), expiresAt, createdBy: performedBy },
+      });
+
+      try {
+        await sendNotification({
+          tenantId,
+          channel: "EMAIL",
+          to: user.email,
+          subject: "Reset your password",
+          body: `Dear ${user.fullName}, a password reset was requested for your account. Set a new password within ${policy.resetLinkTtlMinutes} minutes: ${APP_URL}/reset-password?token=${token}`,
+        });
+      } catch (error) {
+        console.error("[Password] Failed to send reset link:", error);
+        await prisma.passwordResetToken.delete({ where: { id: resetToken.id } });
+        return { success: false, error: "Could not deliver the reset link", errorCode: "DELIVERY_FAILED" };
+      }
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "User",
+        entityId: userId,
+        action: "PASSWORD_RESET_LINK",
+        newValue: { sentTo: user.email, expiresAt },
+      });
+
+      return { success: true, data: { sentTo: user.email, expiresAt } };
+    } catch (error) {
+      console.error("Create reset link error:", error);
+      return { success: false, error: "Failed to create reset link", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  // ---------- Public reset ----------
+
+  /**
+   * Who the reset link is for and the rules the new password must meet
+   */
+  async getResetLinkInfo(token: string): Promise<ServiceResult<ResetLinkInfo>> {
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashResetToken(token) },
+      include: { user: { select: { fullName: true, isActive: true, tenant: { select: { name: true } } } } },
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date() || !resetToken.user.isActive) {
+      return LINK_INVALID;
+    }
+
+    return {
+      success: true,
+      data: {
+        fullName: resetToken.user.fullName,
+        tenantName: resetToken.user.tenant?.name ?? "",
+        policy: await this.getPolicy(resetToken.tenantId),
+      },
+    };
+  },
+
+  /**
+   * Set a new password from a reset link; the link is consumed, the account
+   * unlocked and all sessions signed out
+   */
+  async resetWithToken(input: ResetPasswordInput): Promise<ServiceResult<void>> {
+    try {
+      const resetToken = await prisma.passwordResetToken.findUnique({
+        where: { tokenHash: hashResetToken(input.token) },
+      });
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+        return LINK_INVALID;
+      }
+
+      const user = await findTenantUser(resetToken.tenantId, resetToken.userId);
+      if (!user || !user.isActive) return LINK_INVALID;
+
+      const policy = await this.getPolicy(resetToken.tenantId);
+      const invalid = await validateNewPassword(user, input.newPassword, policy);
+      if (invalid) return invalid;
+
+      const consumed = await prisma.$transaction(async (tx) => {
+        const claimed = await tx.passwordResetToken.updateMany({
+          where: { id: resetToken.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+        if (claimed.count === 0) return false;
+        await writePassword(tx, user, input.newPassword, false, user.id);
+        return true;
+      });
+      if (!consumed) return LINK_INVALID;
+
+      await createAuditLog({
+        tenantId: resetToken.tenantId,
+        performedBy: user.id,
+        entityType: "User",
+        entityId: user.id,
+        action: "PASSWORD_RESET",
+        newValue: { method: "RESET_LINK" },
+      });
+
+      await sessionService.revokeAllForUser(resetToken.tenantId, user.id, null, "PASSWORD_RESET");
+
+      return { success: true };
+    } catch (error) {
+      console.error("Reset password error:", error);
+      return { success: false, error: "Failed to reset password", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+};
@@ -0,0 +1,748 @@
+import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit";
+import { AppError } from "@/lib/rbac";
+import type { Prisma, Patient, PatientMergeStatus } from "@/app/generated/prisma/client";
+import { Prisma as PrismaNamespace } from "@/app/generated/prisma/client";
+import {
+  PATIENT_MERGE_FIELD_GROUPS,
+  type PatientMergeFieldGroupKey,
+  type DuplicatePatientQuery,
+  type MergePatientsInput,
+  type MergeHistoryQuery,
+} from "@/lib/schemas/patient-merge-schema";
+
+const Decimal = PrismaNamespace.Decimal;
+
+// ============== TYPES ==============
+
+export interface DuplicatePatientSummary {
+  id: string;
+  uhid: string;
+  name: string;
+  gender: string;
+  dateOfBirth: string | null;
+  ageYears: number | null;
+  primaryMobile: string;
+  aadhaarLast4: string | null;
+  createdAt: string;
+  version: number;
+}
+
+export interface DuplicateCandidate {
+  score: number;
+  reasons: string[];
+  patients: [DuplicatePatientSummary, DuplicatePatientSummary];
+}
+
+export interface MergeFieldComparison {
+  key: PatientMergeFieldGroupKey;
+  label: string;
+  survivorValue: string;
+  mergedValue: string;
+  differs: boolean;
+  defaultSelection: "SURVIVOR" | "MERGED";
+}
+
+export interface MergePreview {
+  survivor: DuplicatePatientSummary;
+  merged: DuplicatePatientSummary;
+  fields: MergeFieldComparison[];
+  recordCounts: Record<string, number>;
+  blockers: string[];
+  warnings: string[];
+}
+
+/** Rows re-pointed by a merge, kept so the merge can be reversed */
+interface MovedRecords {
+  visits: Array<{ id: string; visitNumber: number }>;
+  creditLedgers: Array<{ id: string; balance: string }>;
+  flags: string[];
+  appointments: string[];
+  prescriptions: string[];
+  labOrders: string[];
+  labCriticalAlerts: string[];
+  invoices: string[];
+  payments: string[];
+  pharmacySales: string[];
+  pharmacyReturns: string[];
+  admissions: string[];
+  registrations: string[];
+  documents: string[];
+  relations: string[];
+  queueSnapshots: string[];
+  waitlistEntries: string[];
+  appointmentSeries: string[];
+}
+
+type SimpleRecordKey = Exclude<keyof MovedRecords, "visits" | "creditLedgers" | "flags">;
+
+type FieldSnapshot = Record<string, unknown>;
+
+const SIMPLE_RECORD_LABELS: Record<SimpleRecordKey, string> = {
+  appointments: "Appointments",
+  prescriptions: "Prescriptions",
+  labOrders: "Lab orders",
+  labCriticalAlerts: "Critical lab alerts",
+  invoices: "Invoices",
+  payments: "Payments",
+  pharmacySales: "Pharmacy sales",
+  pharmacyReturns: "Pharmacy returns",
+  admissions: "Admissions",
+  registrations: "Registrations",
+  documents: "Documents",
+  relations: "Relations",
+  queueSnapshots: "OPD queue entries",
+  waitlistEntries: "Waitlist entries",
+  appointmentSeries: "Appointment series",
+};
+
+// ============== HELPERS ==============
+
+function fullName(p: Pick<Patient, "firstName" | "middleName" | "lastName">): string {
+  return [p.firstName, p.middleName, p.lastName].filter(Boolean).join(" ");
+}
+
+function toSummary(p: Patient): DuplicatePatientSummary {
+  return {
+    id: p.id,
+    uhid: p.uhid,
+    name: fullName(p),
+    gender: p.gender,
+    dateOfBirth: p.dateOfBirth?.toISOString() ?? null,
+    ageYears: p.ageYears,
+    primaryMobile: p.primaryMobile,
+    aadhaarLast4: p.aadhaarNumber ? p.aadhaarNumber.slice(-4) : null,
+    createdAt: p.createdAt.toISOString(),
+    version: p.version,
+  };
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z ]/g, "").replace(/\s+/g, " ").trim();
+}
+
+function normalizeMobile(mobile: string | null | undefined): string | null {
+  if (!mobile) return null;
+  const digits = mobile.replace(/\D/g, "");
+  return digits.length >= 10 ? digits.slice(-10) : null;
+}
+
+/** Jaro-Winkler similarity (0..1), tolerant of typos and transpositions in names */
+function nameSimilarity(a: string, b: string): number {
+  const s1 = normalizeName(a);
+  const s2 = normalizeName(b);
+  if (!s1 || !s2) return 0;
+  if (s1 === s2) return 1;
+
+  const range = Math.max(0, Math.floor(Math.max(s1.length, s2.length) / 2) - 1);
+  const m1 = new Array<boolean>(s1.length).fill(false);
+  const m2 = new Array<boolean>(s2.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < s1.length; i++) {
+    for (let j = Math.max(0, i - range); j < Math.min(s2.length, i + range + 1); j++) {
+      if (!m2[j] && s1[i] === s2[j]) {
+        m1[i] = m2[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, k = 0; i < s1.length; i++) {
+    if (!m1[i]) continue;
+    while (!m2[k]) k++;
+    if (s1[i] !== s2[k]) transpositions++;
+    k++;
+  }
+  const jaro = (matches / s1.length + matches / s2.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && s1[prefix] === s2[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Likelihood (0-100) that two registrations are the same person.
+ * Mobile or name alone never reaches the default threshold; families share
+ * mobiles and common names repeat.
+ */
+function scorePair(a: Patient, b: Patient): { score: number; reasons: string[] } {
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (a.aadhaarNumber && a.aadhaarNumber === b.aadhaarNumber) {
+    score += 50;
+    reasons.push("Same Aadhaar");
+  }
+
+  const mobilesA = [normalizeMobile(a.primaryMobile), normalizeMobile(a.secondaryMobile)].filter(Boolean);
+  const mobilesB = [normalizeMobile(b.primaryMobile), normalizeMobile(b.secondaryMobile)].filter(Boolean);
+  if (mobilesA.some((m) => mobilesB.includes(m))) {
+    score += 30;
+    reasons.push("Same mobile");
+  }
+
+  if (a.dateOfBirth && b.dateOfBirth && a.dateOfBirth.toDateString() === b.dateOfBirth.toDateString()) {
+    score += 25;
+    reasons.push("Same date of birth");
+  } else if (a.ageYears !== null && b.ageYears !== null && Math.abs(a.ageYears - b.ageYears) <= 1) {
+    score += 5;
+    reasons.push("Similar age");
+  }
+
+  const similarity = nameSimilarity(fullName(a), fullName(b));
+  if (similarity >= 0.95) {
+    score += 35;
+    reasons.push("Same name");
+  } else if (similarity >= 0.85) {
+    score += 25;
+    reasons.push("Similar name");
+  } else if (similarity >= 0.75) {
+    score += 10;
+    reasons.push("Partly similar name");
+  }
+
+  if (a.gender !== b.gender) {
+    score -= 30;
+    reasons.push("Different gender");
+  }
+
+  return { score: Math.max(0, Math.min(100, score)), reasons };
+}
+
+function describeValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+function groupValue(patient: Patient, fields: readonly string[]): string {
+  const record = patient as unknown as Record<string, unknown>;
+  return fields
+    .filter((f) => f !== "permanentSameAsPresent" && f !== "phoneNumber")
+    .map((f) => describeValue(record[f]))
+    .filter(Boolean)
+    .join(", ");
+}
+
+function snapshotFields(patient: Patient): FieldSnapshot {
+  const record = patient as unknown as Record<string, unknown>;
+  const snapshot: FieldSnapshot = {};
+  for (const group of PATIENT_MERGE_FIELD_GROUPS) {
+    for (const field of group.fields) snapshot[field] = record[field] ?? null;
+  }
+  return snapshot;
+}
+
+/** Dates come back from JSON snapshots as strings */
+function reviveSnapshotValue(field: string, value: unknown): unknown {
+  if (field === "dateOfBirth" && typeof value === "string") return new Date(value);
+  return value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return describeValue(a) === describeValue(b);
+}
+
+async function lockPatients(tx: Prisma.TransactionClient, ids: string[]) {
+  // Fixed lock order avoids deadlocks between concurrent merges
+  for (const id of [...ids].sort()) {
+    await tx.$executeRaw`SELECT id FROM "Patient" WHERE id = ${id} FOR UPDATE`;
+  }
+}
+
+/** Rebuild the running credit balance after entries move between patients */
+async function recomputeCreditBalances(tx: Prisma.TransactionClient, tenantId: string, patientId: string) {
+  const entries = await tx.creditLedger.findMany({
+    where: { tenantId, patientId, isDeleted: false },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    select: { id: true, debitAmount: true, creditAmount: true, balance: true },
+  });
+
+  let running = new Decimal(0);
+  for (const entry of entries) {
+    running = running.add(entry.debitAmount).sub(entry.creditAmount);
+    if (!running.equals(entry.balance)) {
+      await tx.creditLedger.update({ where: { id: entry.id }, data: { balance: running } });
+    }
+  }
+}
+
+interface RepointDelegate {
+  findMany(args: { where: { tenantId: string; patientId: string }; select: { id: true } }): Promise<{ id: string }[]>;
+  updateMany(args: { where: { id: { in: string[] } }; data: { patientId: string } }): Promise<unknown>;
+}
+
+function simpleDelegates(tx: Prisma.TransactionClient): Record<SimpleRecordKey, RepointDelegate> {
+  return {
+    appointments: tx.appointment,
+    prescriptions: tx.prescription,
+    labOrders: tx.labOrder,
+    labCriticalAlerts: tx.labCriticalAlert,
+    invoices: tx.invoice,
+    payments: tx.payment,
+    pharmacySales: tx.pharmacySale,
+    pharmacyReturns: tx.pharmacyReturn,
+    admissions: tx.admission,
+    registrations: tx.patientRegistration,
+    documents: tx.patientDocument,
+    relations: tx.patientRelation,
+    queueSnapshots: tx.oPDQueueSnapshot,
+    waitlistEntries: tx.appointmentWaitlist,
+    appointmentSeries: tx.appointmentSeries,
+  };
+}
+
+async function countRecords(tenantId: string, patientId: string): Promise<Record<string, number>> {
+  const where = { tenantId, patientId };
+  const [visits, appointments, prescriptions, labOrders, invoices, payments, pharmacySales, creditLedgers, admissions, documents] =
+    await Promise.all([
+      prisma.visit.count({ where }),
+      prisma.appointment.count({ where }),
+      prisma.prescription.count({ where }),
+      prisma.labOrder.count({ where }),
+      prisma.invoice.count({ where }),
+      prisma.payment.count({ where }),
+      prisma.pharmacySale.count({ where }),
+      prisma.creditLedger.count({ where: { ...where, isDeleted: false } }),
+      prisma.admission.count({ where }),
+      prisma.patientDocument.count({ where }),
+    ]);
+  return { visits, appointments, prescriptions, labOrders, invoices, payments, pharmacySales, creditLedgers, admissions, documents };
+}
+
+function mergeBlockers(survivor: Patient, merged: Patient, bothAdmitted: boolean): string[] {
+  const blockers: string[] = [];
+  if (survivor.isDeleted || merged.isDeleted) blockers.push("One of the patients has been deleted");
+  if (survivor.mergedIntoId) blockers.push(`${survivor.uhid} has already been merged into another record`);
+  if (merged.mergedIntoId) blockers.push(`${merged.uhid} has already been merged into another record`);
+  if (bothAdmitted) blockers.push("Both patients are currently admitted. Discharge one admission first.");
+  return blockers;
+}
+
+async function hasActiveAdmission(tenantId: string, patientId: string, tx: Prisma.TransactionClient | typeof prisma = prisma) {
+  const count = await tx.admission.count({ where: { tenantId, patientId, status: "ADMITTED" } });
+  return count > 0;
+}
+
+// ============== FIND LIKELY DUPLICATES ==============
+
+/**
+ * Candidate pairs are only compared within blocks sharing a mobile, Aadhaar,
+ * date of birth or exact name, so the scan never compares every pair.
+ */
+export async function findDuplicatePatients(
+  tenantId: string,
+  options: DuplicatePatientQuery
+): Promise<DuplicateCandidate[]> {
+  const base: Prisma.PatientWhereInput = { tenantId, isDeleted: false, mergedIntoId: null };
+  const MAX_GROUPS = 500;
+  const MAX_GROUP_SIZE = 25; // Larger blocks are shared numbers (e.g. hospital desk phone)
+
+  const [byMobile, byAadhaar, byDob, byName] = await Promise.all([
+    prisma.patient.groupBy({ by: ["primaryMobile"], where: base, having: { id: { _count: { gt: 1 } } }, take: MAX_GROUPS, orderBy: { primaryMobile: "asc" } }),
+    prisma.patient.groupBy({ by: ["aadhaarNumber"], where: { ...base, aadhaarNumber: { not: null } }, having: { id: { _count: { gt: 1 } } }, take: MAX_GROUPS, orderBy: { aadhaarNumber: "asc" } }),
+    prisma.patient.groupBy({ by: ["dateOfBirth"], where: { ...base, dateOfBirth: { not: null } }, having: { id: { _count: { gt: 1 } } }, take: MAX_GROUPS, orderBy: { dateOfBirth: "asc" } }),
+    prisma.patient.groupBy({ by: ["firstName", "lastName"], where: base, having: { id: { _count: { gt: 1 } } }, take: MAX_GROUPS, orderBy: { firstName: "asc" } }),
+  ]);
+
+  const blocks: Prisma.PatientWhereInput[] = [
+    ...byMobile.map((g) => ({ primaryMobile: g.primaryMobile })),
+    ...byAadhaar.map((g) => ({ aadhaarNumber: g.aadhaarNumber })),
+    ...byDob.map((g) => ({ dateOfBirth: g.dateOfBirth })),
+    ...byName.map((g) => ({ firstName: g.firstName, lastName: g.lastName })),
+  ];
+
+  const seen = new Set<string>();
+  const candidates: DuplicateCandidate[] = [];
+
+  for (const block of blocks) {
+    const patients = await prisma.patient.findMany({
+      where: { ...base, ...block },
+      orderBy: { createdAt: "asc" },
+      take: MAX_GROUP_SIZE + 1,
+    });
+    if (patients.length > MAX_GROUP_SIZE) continue;
+
+    for (let i = 0; i < patients.length; i++) {
+      for (let j = i + 1; j < patients.length; j++) {
+        const key = `${patients[i].id}:${patients[j].id}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const { score, reasons } = scorePair(patients[i], patients[j]);
+        if (score >= options.minScore) {
+          // Older registration first: it is the usual survivor
+          candidates.push({ score, reasons, patients: [toSummary(patients[i]), toSummary(patients[j])] });
+        }
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, options.limit);
+}
+
+// ============== MERGE PREVIEW ==============
+
+export async function getMergePreview(tenantId: string, survivorId: string, mergedId: string): Promise<MergePreview> {
+  if (survivorId === mergedId) throw new AppError("Cannot merge a patient into itself", 400, "INVALID_MERGE");
+
+  const [survivor, merged] = await Promise.all([
+    prisma.patient.findFirst({ where: { id: survivorId, tenantId } }),
+    prisma.patient.findFirst({ where: { id: mergedId, tenantId } }),
+  ]);
+  if (!survivor || !merged) throw new AppError("Patient not found", 404, "PATIENT_NOT_FOUND");
+
+  const [recordCounts, survivorAdmitted, mergedAdmitted, survivorFlags, mergedFlags] = await Promise.all([
+    countRecords(tenantId, merged.id),
+    hasActiveAdmission(tenantId, survivor.id),
+    hasActiveAdmission(tenantId, merged.id),
+    prisma.patientFlag.findMany({ where: { tenantId, patientId: survivor.id }, select: { flagType: true } }),
+    prisma.patientFlag.findMany({ where: { tenantId, patientId: merged.id }, select: { flagType: true } }),
+  ]);
+
+  const fields: MergeFieldComparison[] = PATIENT_MERGE_FIELD_GROUPS.map((group) => {
+    const survivorValue = groupValue(survivor, group.fields);
+    const mergedValue = groupValue(merged, group.fields);
+    return {
+      key: group.key,
+      label: group.label,
+      survivorValue,
+      mergedValue,
+      differs: survivorValue !== mergedValue,
+      // Fill gaps in the survivor from the duplicate; otherwise keep the survivor
+      defaultSelection: !survivorValue && mergedValue ? "MERGED" : "SURVIVOR",
+    };
+  });
+
+  const warnings: string[] = [];
+  if (survivor.gender !== merged.gender) warnings.push("Patients have different genders");
+  const survivorFlagTypes = new Set(survivorFlags.map((f) => f.flagType));
+  const keptFlags = mergedFlags.filter((f) => survivorFlagTypes.has(f.flagType)).map((f) => f.flagType);
+  if (keptFlags.length > 0) {
+    warnings.push(`Flags already on the survivor stay on the duplicate record: ${keptFlags.join(", ")}`);
+  }
+  if (recordCounts.creditLedgers > 0) warnings.push("Credit ledger entries will be combined and balances recalculated");
+
+  return {
+    survivor: toSummary(survivor),
+    merged: toSummary(merged),
+    fields,
+    recordCounts,
+    blockers: mergeBlockers(survivor, merged, survivorAdmitted && mergedAdmitted),
+    warnings,
+  };
+}
+
+// ============== MERGE ==============
+
+/**
+ * Re-points all clinical, billing and pharmacy records of the duplicate to
+ * the survivor, applies the chosen field values and leaves the duplicate as
+ * an INACTIVE tombstone pointing at the survivor.
+ */
+export async function mergePatients(tenantId: string, userId: string, input: MergePatientsInput) {
+  const merge = await prisma.$transaction(async (tx) => {
+    await lockPatients(tx, [input.survivorId, input.mergedId]);
+
+    const [survivor, merged] = await Promise.all([
+      tx.patient.findFirst({ where: { id: input.survivorId, tenantId } }),
+      tx.patient.findFirst({ where: { id: input.mergedId, tenantId } }),
+    ]);
+    if (!survivor || !merged) throw new AppError("Patient not found", 404, "PATIENT_NOT_FOUND");
+    if (survivor.version !== input.survivorVersion || merged.version !== input.mergedVersion) {
+      throw new AppError("Patient records changed since the preview. Refresh and try again.", 409, "VERSION_CONFLICT");
+    }
+
+    const bothAdmitted =
+      (await hasActiveAdmission(tenantId, survivor.id, tx)) && (await hasActiveAdmission(tenantId, merged.id, tx));
+    const blockers = mergeBlockers(survivor, merged, bothAdmitted);
+    if (blockers.length > 0) throw new AppError(blockers.join(". "), 400, "MERGE_BLOCKED");
+
+    // 1. Field-level survivorship
+    const survivorSnapshot = snapshotFields(survivor);
+    const mergedRecord = merged as unknown as Record<string, unknown>;
+    const survivorUpdate: Record<string, unknown> = {};
+    for (const group of PATIENT_MERGE_FIELD_GROUPS) {
+      if (input.fieldSelections[group.key] !== "MERGED") continue;
+      for (const field of group.fields) survivorUpdate[field] = mergedRecord[field] ?? null;
+    }
+
+    // 2. Visits: renumber after the survivor's last visit (visitNumber is unique per patient)
+    const lastVisit = await tx.visit.findFirst({
+      where: { tenantId, patientId: survivor.id },
+      orderBy: { visitNumber: "desc" },
+      select: { visitNumber: true },
+    });
+    const mergedVisits = await tx.visit.findMany({
+      where: { tenantId, patientId: merged.id },
+      orderBy: { visitNumber: "asc" },
+      select: { id: true, visitNumber: true },
+    });
+    let nextVisitNumber = (lastVisit?.visitNumber ?? 0) + 1;
+    for (const visit of mergedVisits) {
+      await tx.visit.update({
+        where: { id: visit.id },
+        data: { patientId: survivor.id, visitNumber: nextVisitNumber++, updatedBy: userId },
+      });
+    }
+
+    // 3. Credit ledger keeps original balances for unmerge, then survivor is re-run
+    const ledgers = await tx.creditLedger.findMany({
+      where: { tenantId, patientId: merged.id },
+      select: { id: true, balance: true },
+    });
+    if (ledgers.length > 0) {
+      await tx.creditLedger.updateMany({ where: { id: { in: ledgers.map((l) => l.id) } }, data: { patientId: survivor.id } });
+      await recomputeCreditBalances(tx, tenantId, survivor.id);
+    }
+
+    // 4. Flags: unique per patient and type, so the survivor's own flag wins
+    const survivorFlagTypes = (await tx.patientFlag.findMany({
+      where: { tenantId, patientId: survivor.id },
+      select: { flagType: true },
+    })).map((f) => f.flagType);
+    const movableFlags = await tx.patientFlag.findMany({
+      where: { tenantId, patientId: merged.id, flagType: { notIn: survivorFlagTypes } },
+      select: { id: true },
+    });
+    if (movableFlags.length > 0) {
+      await tx.patientFlag.updateMany({ where: { id: { in: movableFlags.map((f) => f.id) } }, data: { patientId: survivor.id } });
+    }
+
+    // 5. Everything else is a straight re-point
+    const moved: MovedRecords = {
+      visits: mergedVisits,
+      creditLedgers: ledgers.map((l) => ({ id: l.id, balance: l.balance.toString() })),
+      flags: movableFlags.map((f) => f.id),
+      appointments: [], prescriptions: [], labOrders: [], labCriticalAlerts: [], invoices: [], payments: [],
+      pharmacySales: [], pharmacyReturns: [], admissions: [], registrations: [], documents: [], relations: [],
+      queueSnapshots: [], waitlistEntries: [], appointmentSeries: [],
+    };
+    const delegates = simpleDelegates(tx);
+    for (const key of Object.keys(SIMPLE_RECORD_LABELS) as SimpleRecordKey[]) {
+      const rows = await delegates[key].findMany({ where: { tenantId, patientId: merged.id }, select: { id: true } });
+      if (rows.length === 0) continue;
+      moved[key] = rows.map((r) => r.id);
+      await delegates[key].updateMany({ where: { id: { in: moved[key] } }, data: { patientId: survivor.id } });
+    }
+
+    // 6. Survivor and tombstone
+    await tx.patient.update({
+      where: { id: survivor.id },
+      data: { ...(survivorUpdate as Prisma.PatientUpdateInput), updatedBy: userId, version: { increment: 1 } },
+    });
+    await tx.patient.update({
+      where: { id: merged.id },
+      data: {
+        status: "INACTIVE",
+        mergedIntoId: survivor.id,
+        mergedAt: new Date(),
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+    });
+
+    const log = await tx.patientMerge.create({
+      data: {
+        tenantId,
+        survivorId: survivor.id,
+        mergedId: merged.id,
+        reason: input.reason,
+        fieldSelections: input.fieldSelections as Prisma.InputJsonValue,
+        survivorSnapshot: survivorSnapshot as Prisma.InputJsonValue,
+        mergedSnapshot: { ...snapshotFields(merged), status: merged.status } as Prisma.InputJsonValue,
+        movedRecords: moved as unknown as Prisma.InputJsonValue,
+        mergedBy: userId,
+      },
+    });
+
+    const movedCounts = Object.fromEntries(
+      Object.entries(moved).map(([key, rows]) => [key, (rows as unknown[]).length]).filter(([, n]) => (n as number) > 0)
+    );
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "Patient",
+      entityId: survivor.id,
+      action: "MERGE",
+      oldValue: { survivor: { uhid: survivor.uhid, ...survivorSnapshot }, merged: merged },
+      newValue: {
+        mergeId: log.id,
+        mergedUhid: merged.uhid,
+        survivorUhid: survivor.uhid,
+        reason: input.reason,
+        fieldSelections: input.fieldSelections,
+        survivorChanges: survivorUpdate,
+        movedCounts,
+      },
+    });
+
+    return log;
+  });
+
+  return { mergeId: merge.id, survivorId: merge.survivorId, mergedId: merge.mergedId };
+}
+
+// ============== UNMERGE ==============
+
+/**
+ * Moves the re-pointed rows back to the tombstone and reactivates it.
+ * Records created on the survivor after the merge stay with the survivor, and
+ * survivor fields edited since the merge are left as they are.
+ */
+export async function unmergePatients(tenantId: string, userId: string, mergeId: string, reason: string) {
+  return prisma.$transaction(async (tx) => {
+    const log = await tx.patientMerge.findFirst({ where: { id: mergeId, tenantId } });
+    if (!log) throw new AppError("Merge record not found", 404, "MERGE_NOT_FOUND");
+    if (log.status !== "MERGED") throw new AppError("This merge has already been reversed", 400, "MERGE_ALREADY_REVERSED");
+
+    await lockPatients(tx, [log.survivorId, log.mergedId]);
+
+    const [survivor, merged] = await Promise.all([
+      tx.patient.findUniqueOrThrow({ where: { id: log.survivorId } }),
+      tx.patient.findUniqueOrThrow({ where: { id: log.mergedId } }),
+    ]);
+    if (survivor.mergedIntoId) {
+      throw new AppError(
+        `${survivor.uhid} was itself merged afterwards. Reverse that merge first.`,
+        400,
+        "MERGE_CHAIN"
+      );
+    }
+
+    const moved = log.movedRecords as unknown as MovedRecords;
+    const back = { tenantId, patientId: survivor.id };
+
+    // 1. Visits get their original numbers back
+    for (const visit of moved.visits) {
+      await tx.visit.updateMany({
+        where: { ...back, id: visit.id },
+        data: { patientId: merged.id, visitNumber: visit.visitNumber, updatedBy: userId },
+      });
+    }
+
+    // 2. Credit ledger: restore the tombstone's original running balances
+    for (const entry of moved.creditLedgers) {
+      await tx.creditLedger.updateMany({
+        where: { ...back, id: entry.id },
+        data: { patientId: merged.id, balance: new Decimal(entry.balance) },
+      });
+    }
+    if (moved.creditLedgers.length > 0) await recomputeCreditBalances(tx, tenantId, survivor.id);
+
+    // 3. Flags and straight re-points
+    if (moved.flags.length > 0) {
+      await tx.patientFlag.updateMany({ where: { ...back, id: { in: moved.flags } }, data: { patientId: merged.id } });
+    }
+    const delegates = simpleDelegates(tx);
+    for (const key of Object.keys(SIMPLE_RECORD_LABELS) as SimpleRecordKey[]) {
+      const ids = moved[key] ?? [];
+      if (ids.length === 0) continue;
+      await delegates[key].updateMany({ where: { id: { in: ids } }, data: { patientId: merged.id } });
+    }
+
+    // 4. Survivor fields taken from the duplicate revert unless edited since
+    const selections = log.fieldSelections as Partial<Record<PatientMergeFieldGroupKey, "SURVIVOR" | "MERGED">>;
+    const survivorSnapshot = log.survivorSnapshot as FieldSnapshot;
+    const mergedSnapshot = log.mergedSnapshot as FieldSnapshot;
+    const survivorRecord = survivor as unknown as Record<string, unknown>;
+    const restore: Record<string, unknown> = {};
+    const keptGroups: string[] = [];
+    for (const group of PATIENT_MERGE_FIELD_GROUPS) {
+      if (selections[group.key] !== "MERGED") continue;
+      const untouched = group.fields.every((f) =>
+        sameValue(survivorRecord[f], reviveSnapshotValue(f, mergedSnapshot[f]))
+      );
+      if (!untouched) {
+        keptGroups.push(group.label);
+        continue;
+      }
+      for (const field of group.fields) restore[field] = reviveSnapshotValue(field, survivorSnapshot[field]);
+    }
+
+    await tx.patient.update({
+      where: { id: survivor.id },
+      data: { ...(restore as Prisma.PatientUpdateInput), updatedBy: userId, version: { increment: 1 } },
+    });
+    await tx.patient.update({
+      where: { id: merged.id },
+      data: {
+        status: (mergedSnapshot.status as Patient["status"]) ?? "ACTIVE",
+        mergedIntoId: null,
+        mergedAt: null,
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+    });
+
+    await tx.patientMerge.update({
+      where: { id: log.id },
+      data: { status: "UNMERGED", unmergedBy: userId, unmergedAt: new Date(), unmergeReason: reason },
+    });
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "Patient",
+      entityId: survivor.id,
+      action: "UNMERGE",
+      oldValue: { mergeId: log.id, mergedUhid: merged.uhid, survivorUhid: survivor.uhid },
+      newValue: { reason, restoredFields: Object.keys(restore), keptGroups },
+    });
+
+    return { mergeId: log.id, survivorId: survivor.id, mergedId: merged.id, keptGroups };
+  });
+}
+
+// ============== MERGE HISTORY ==============
+
+export async function getMergeHistory(tenantId: string, options: MergeHistoryQuery) {
+  const where: Prisma.PatientMergeWhereInput = { tenantId };
+  if (options.status !== "ALL") where.status = options.status as PatientMergeStatus;
+
+  const merges = await prisma.patientMerge.findMany({
+    where,
+    orderBy: { mergedAt: "desc" },
+    take: options.limit + 1,
+    ...(options.cursor && { skip: 1, cursor: { id: options.cursor } }),
+    include: {
+      survivor: { select: { id: true, uhid: true, firstName: true, middleName: true, lastName: true } },
+      merged: { select: { id: true, uhid: true, firstName: true, middleName: true, lastName: true } },
+    },
+  });
+
+  const hasMore = merges.length > options.limit;
+  const page = hasMore ? merges.slice(0, options.limit) : merges;
+
+  const userIds = [...new Set(page.flatMap((m) => [m.mergedBy, m.unmergedBy]).filter((v): v is string => !!v))];
+  const users = await prisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true, fullName: true } });
+  const userName = (id: string | null) => (id ? users.find((u) => u.id === id)?.fullName ?? null : null);
+
+  return {
+    data: page.map((m) => {
+      const moved = m.movedRecords as unknown as MovedRecords;
+      return {
+        id: m.id,
+        status: m.status,
+        survivor: { id: m.survivor.id, uhid: m.survivor.uhid, name: fullName(m.survivor) },
+        merged: { id: m.merged.id, uhid: m.merged.uhid, name: fullName(m.merged) },
+        reason: m.reason,
+        movedRecordCount: Object.values(moved).reduce((sum, rows) => sum + (rows as unknown[]).length, 0),
+        mergedAt: m.mergedAt.toISOString(),
+        mergedByName: userName(m.mergedBy),
+        unmergedAt: m.unmergedAt?.toISOString() ?? null,
+        unmergedByName: userName(m.unmergedBy),
+        unmergeReason: m.unmergeReason,
+      };
+    }),
+    pagination: {
+      cursor: hasMore ? page[page.length - 1].id : null,
+      hasMore,
+    },
+  };
+}
@@ -1,7 +1,10 @@
 import { prisma } from "@/lib/prisma";
 import { createAuditLog } from "@/lib/audit";
 import { syncOPDQueueSnapshot } from "@/lib/services/opd-queue-snapshot";
+import { getOpenShiftId } from "@/lib/services/billing/cashier-shift.service";
 import { AppError } from "@/lib/rbac";
+import { format } from "date-fns";
+import type { Prisma } from "@/app/generated/prisma/client";
 import {
   PatientRegistrationInput,
   PatientUpdateInput,
@@ -56,19 +59,24 @@ export async function generateUHIDWithLock(
 }
 
 /**
- * Generate registration number.
+ * Generate registration number from a per-day BillingCounter row.
+ * Must be called inside the registration transaction; the upsert increment is atomic.
+ * The date is the server's local date so numbering restarts at local midnight.
  * Format: REG-YYYYMMDD-{4 digit running number}
  */
 export async function generateRegistrationNumber(
+  tx: Prisma.TransactionClient,
   tenantId: string
 ): Promise<string> {
-  const today = new Date();
-  const dateStr = today.toISOString().slice(0, 10).replace(/-/g, "");
-  const prefix = `REG-${dateStr}`;
-  
-  // For now, use timestamp to ensure uniqueness
-  const timestamp = Date.now().toString().slice(-4);
-  return `${prefix}-${timestamp}`;
+  const prefix = `REG-${format(new Date(), "yyyyMMdd")}`;
+
+  const counter = await tx.billingCounter.upsert({
+    where: { tenantId_counterType: { tenantId, counterType: prefix } },
+    create: { tenantId, counterType: prefix, prefix, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } },
+  });
+
+  return `${prefix}-${String(counter.lastNumber).padStart(4, "0")}`;
 }
 
 // ============== PATIENT REGISTRATION SERVICE ==============
@@ -98,7 +106,6 @@ export async function registerPatient(
 ): Promise<RegisterPatientResult> {
   // Pre-generate UHID
   const uhid = await generateUHIDWithLock(tenantId);
-  const registrationNumber = await generateRegistrationNumber(tenantId);
   const now = new Date();
 
   // Map gender from title if not provided
@@ -127,6 +134,8 @@ export async function registerPatient(
 
   // Main transaction - simplified to match actual schema
   const result = await prisma.$transaction(async (tx) => {
+    const registrationNumber = await generateRegistrationNumber(tx, tenantId);
+
     // Create Patient with ONLY fields that exist in the schema
     const patient = await tx.patient.create({
       data: {
@@ -183,18 +192,53 @@ export async function registerPatient(
       });
     }
 
+    // Registration fee record - collected at the counter, linked to the cashier's open shift
+    const registrationFee = input.registrationFee || 0;
+    const discountAmount = input.discountAmount
+      ?? (input.discountPercent ? Math.round(registrationFee * input.discountPercent) / 100 : 0);
+    const netAmount = Math.max(registrationFee - discountAmount, 0);
+    const receiptNumber = `RCP-${registrationNumber}`;
+    const shiftId = await getOpenShiftId(tx, tenantId, userId);
+
+    const registration = await tx.patientRegistration.create({
+      data: {
+        tenantId,
+        patientId: patient.id,
+        registrationNumber,
+        registrationDate: now,
+        registrationFee,
+        discountPercent: input.discountPercent ?? null,
+        discountAmount: discountAmount || null,
+        discountReason: input.discountReason || null,
+        approvedBy: input.approvedBy || null,
+        netAmount,
+        paymentMode: input.paymentMode || "CASH",
+        isPaid: netAmount > 0,
+        paidAt: netAmount > 0 ? now : null,
+        counterNumber: input.counterNumber || null,
+        billedBy: userId,
+        receiptNumber,
+        shiftId,
+        consultationType: input.consultationType || "NORMAL",
+        visitCreated: !!visit,
+        visitId: visit?.id ?? null,
+        createdBy: userId,
+        updatedBy: userId,
+      },
+    });
+
     return {
       patient,
       registration: {
-        id: crypto.randomUUID(),
+        id: registration.id,
         registrationNumber,
-        registrationFee: input.registrationFee || 0,
-        netAmount: input.registrationFee || 0,
+        registrationFee,
+        netAmount,
       },
       visit,
       receipt: {
-        receiptNumber: `RCP-${registrationNumber}`,
-        amount: input.registrationFee || 0,
+        receiptNumber,
+        amount: netAmount,
       },
     };
   });
@@ -496,6 +540,7 @@ export async function checkDuplicatePatient(
   const where: any = {
     tenantId,
     phoneNumber: mobile,
+    mergedIntoId: null,
   };
 
   const patients = await prisma.patient.findMany({
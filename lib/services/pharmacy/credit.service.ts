@@ -0,0 +1,693 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import { sendNotification } from "@/lib/notifications/notifier";
+import type { Prisma, PaymentMethod, InvoiceStatus } from "@/app/generated/prisma/client";
+import { Prisma as PrismaNamespace } from "@/app/generated/prisma/client";
+import { nextBillingNumber, roundMoney, PAYABLE_STATUSES } from "@/lib/services/billing/invoice.service";
+import { getOpenShiftId } from "@/lib/services/billing/cashier-shift.service";
+import { getTenantLetterhead, type LabReportLetterhead } from "@/lib/services/lab/lab-report.service";
+import type { CreditSettlementInput, CreditStatementQueryInput } from "@/lib/schemas/pharmacy-dispensing-schema";
+
+const Decimal = PrismaNamespace.Decimal;
+type DecimalType = InstanceType<typeof Decimal>;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type AgingBucket = "0_30" | "31_60" | "60_PLUS";
+
+export interface AgingSummary {
+  "0_30": string;
+  "31_60": string;
+  "60_PLUS": string;
+  total: string;
+}
+
+export interface OutstandingCreditEntry {
+  id: string;
+  referenceType: string;
+  referenceId: string;
+  invoiceId: string | null;
+  notes: string | null;
+  createdAt: string;
+  debitAmount: string;
+  settledAmount: string;
+  outstanding: string;
+  ageDays: number;
+  bucket: AgingBucket;
+}
+
+export interface CreditAccount {
+  patientId: string;
+  patientName: string;
+  uhid: string;
+  mobile: string;
+  employerName: string | null;
+  corporateId: string | null;
+  creditLimit: string | null;
+  outstanding: string;
+  overLimit: boolean;
+  oldestAgeDays: number;
+  aging: AgingSummary;
+}
+
+export interface CreditStatementLine {
+  id: string;
+  date: string;
+  referenceType: string;
+  referenceId: string;
+  description: string | null;
+  paymentNumber: string | null;
+  paymentMethod: PaymentMethod | null;
+  debit: string;
+  credit: string;
+  balance: string;
+}
+
+export interface CreditStatement {
+  letterhead: LabReportLetterhead;
+  patient: {
+    id: string;
+    name: string;
+    uhid: string;
+    mobile: string;
+    email: string | null;
+    address: string | null;
+    employerName: string | null;
+    corporateId: string | null;
+    employeeId: string | null;
+  };
+  period: { from: string | null; to: string };
+  openingBalance: string;
+  closingBalance: string;
+  lines: CreditStatementLine[];
+  outstandingEntries: OutstandingCreditEntry[];
+  aging: AgingSummary;
+  creditLimit: string | null;
+  availableCredit: string | null;
+  generatedAt: string;
+}
+
+export interface CreditSettlementResult {
+  // One payment per settled invoice so each invoice's payments add up to its paidAmount
+  payments: Array<{ paymentId: string; paymentNumber: string; invoiceId: string | null; amount: string }>;
+  amount: string;
+  paymentMethod: PaymentMethod;
+  allocations: Array<{ entryId: string; amount: string; remaining: string }>;
+  balance: string;
+}
+
+type OpenDebitEntry = Prisma.CreditLedgerGetPayload<object>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+function patientName(patient: { firstName: string; lastName: string | null }): string {
+  return [patient.firstName, patient.lastName].filter(Boolean).join(" ");
+}
+
+function agingBucket(ageDays: number): AgingBucket {
+  if (ageDays <= 30) return "0_30";
+  if (ageDays <= 60) return "31_60";
+  return "60_PLUS";
+}
+
+function outstandingOf(entry: { debitAmount: DecimalType; settledAmount: DecimalType }): DecimalType {
+  return new Decimal(entry.debitAmount.toString()).sub(entry.settledAmount.toString());
+}
+
+/**
+ * Sales (and other debits) not yet fully repaid or reversed
+ */
+function openDebitWhere(tenantId: string, patientId?: string): Prisma.CreditLedgerWhereInput {
+  return {
+    tenantId,
+    ...(patientId ? { patientId } : {}),
+    isDeleted: false,
+    debitAmount: { gt: 0 },
+    settledAmount: { lt: prisma.creditLedger.fields.debitAmount },
+  };
+}
+
+function toOutstandingEntries(entries: OpenDebitEntry[], now = new Date()): OutstandingCreditEntry[] {
+  return entries.map((entry) => {
+    const ageDays = Math.max(Math.floor((now.getTime() - entry.createdAt.getTime()) / DAY_MS), 0);
+    return {
+      id: entry.id,
+      referenceType: entry.referenceType,
+      referenceId: entry.referenceId,
+      invoiceId: entry.invoiceId,
+      notes: entry.notes,
+      createdAt: entry.createdAt.toISOString(),
+      debitAmount: entry.debitAmount.toString(),
+      settledAmount: entry.settledAmount.toString(),
+      outstanding: outstandingOf(entry).toFixed(2),
+      ageDays,
+      bucket: agingBucket(ageDays),
+    };
+  });
+}
+
+function summarizeAging(entries: OutstandingCreditEntry[]): AgingSummary {
+  const totals: Record<AgingBucket, DecimalType> = {
+    "0_30": new Decimal(0),
+    "31_60": new Decimal(0),
+    "60_PLUS": new Decimal(0),
+  };
+  for (const entry of entries) {
+    totals[entry.bucket] = totals[entry.bucket].add(entry.outstanding);
+  }
+  return {
+    "0_30": totals["0_30"].toFixed(2),
+    "31_60": totals["31_60"].toFixed(2),
+    "60_PLUS": totals["60_PLUS"].toFixed(2),
+    total: totals["0_30"].add(totals["31_60"]).add(totals["60_PLUS"]).toFixed(2),
+  };
+}
+
+async function getLatestBalance(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  patientId: string
+): Promise<DecimalType> {
+  const lastEntry = await tx.creditLedger.findFirst({
+    where: { tenantId, patientId, isDeleted: false },
+    orderBy: { createdAt: "desc" },
+    select: { balance: true },
+  });
+  return lastEntry ? new Decimal(lastEntry.balance.toString()) : new Decimal(0);
+}
+
+// =====================================================
+// CREDIT LIMIT CHECK (used by OP sales)
+// =====================================================
+
+/**
+ * Lock the patient's credit account and reject a new credit sale that would
+ * take the outstanding balance past the patient's credit limit.
+ */
+export async function assertWithinCreditLimit(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  patientId: string,
+  amount: DecimalType
+): Promise<void> {
+  // Row-level lock: Prevent concurrent credit updates for the same patient
+  await tx.$executeRaw`SELECT id FROM "Patient" WHERE id = ${patientId} FOR UPDATE`;
+
+  const patient = await tx.patient.findFirst({
+    where: { id: patientId, tenantId },
+    select: { creditLimit: true },
+  });
+  if (!patient || patient.creditLimit === null) return;
+
+  const balance = await getLatestBalance(tx, tenantId, patientId);
+  const limit = new Decimal(patient.creditLimit.toString());
+  if (balance.add(amount).gt(limit)) {
+    const available = Decimal.max(limit.sub(balance), 0);
+    throw new AppError(
+      `Credit limit exceeded. Limit: ${limit.toFixed(2)}, outstanding: ${balance.toFixed(2)}, available: ${available.toFixed(2)}`,
+      400,
+      "CREDIT_LIMIT_EXCEEDED"
+    );
+  }
+}
+
+// =====================================================
+// CREDIT ACCOUNTS (receivables with aging)
+// =====================================================
+
+export async function getCreditAccounts(tenantId: string, search?: string): Promise<CreditAccount[]> {
+  const where = openDebitWhere(tenantId);
+  if (search) {
+    where.patient = {
+      OR: [
+        { firstName: { contains: search, mode: "insensitive" } },
+        { lastName: { contains: search, mode: "insensitive" } },
+        { uhid: { contains: search, mode: "insensitive" } },
+        { primaryMobile: { contains: search } },
+        { employerName: { contains: search, mode: "insensitive" } },
+      ],
+    };
+  }
+
+  const entries = await prisma.creditLedger.findMany({
+    where,
+    orderBy: { createdAt: "asc" },
+    include: {
+      patient: {
+        select: {
+          id: true, firstName: true, lastName: true, uhid: true, primaryMobile: true,
+          employerName: true, corporateId: true, creditLimit: true,
+        },
+      },
+    },
+  });
+
+  const byPatient = new Map<string, typeof entries>();
+  for (const entry of entries) {
+    const list = byPatient.get(entry.patientId) ?? [];
+    list.push(entry);
+    byPatient.set(entry.patientId, list);
+  }
+
+  const accounts: CreditAccount[] = [];
+  for (const patientEntries of byPatient.values()) {
+    const patient = patientEntries[0].patient;
+    const outstandingEntries = toOutstandingEntries(patientEntries);
+    const aging = summarizeAging(outstandingEntries);
+    accounts.push({
+      patientId: patient.id,
+      patientName: patientName(patient),
+      uhid: patient.uhid,
+      mobile: patient.primaryMobile,
+      employerName: patient.employerName,
+      corporateId: patient.corporateId,
+      creditLimit: patient.creditLimit?.toString() ?? null,
+      outstanding: aging.total,
+      overLimit: patient.creditLimit !== null && new Decimal(aging.total).gt(patient.creditLimit.toString()),
+      oldestAgeDays: Math.max(...outstandingEntries.map((e) => e.ageDays)),
+      aging,
+    });
+  }
+
+  return accounts.sort((a, b) => new Decimal(b.outstanding).cmp(a.outstanding));
+}
+
+// =====================================================
+// STATEMENT
+// =====================================================
+
+export async function getCreditStatement(
+  tenantId: string,
+  patientId: string,
+  query: CreditStatementQueryInput
+): Promise<CreditStatement> {
+  const patient = await prisma.patient.findFirst({
+    where: { id: patientId, tenantId },
+    select: {
+      id: true, firstName: true, lastName: true, uhid: true, primaryMobile: true, email: true, address: true,
+      employerName: true, corporateId: true, employeeId: true, creditLimit: true,
+    },
+  });
+  if (!patient) throw new AppError("Patient not found", 404, "PATIENT_NOT_FOUND");
+
+  const to = query.to ?? new Date();
+  const from = query.from ?? null;
+  if (from && from > to) throw new AppError("Statement start date is after its end date", 400, "INVALID_PERIOD");
+
+  const [openingEntry, rows, openEntries] = await Promise.all([
+    from
+      ? prisma.creditLedger.findFirst({
+          where: { tenantId, patientId, isDeleted: false, createdAt: { lt: from } },
+          orderBy: { createdAt: "desc" },
+          select: { balance: true },
+        })
+      : null,
+    prisma.creditLedger.findMany({
+      where: { tenantId, patientId, isDeleted: false, createdAt: { ...(from ? { gte: from } : {}), lte: to } },
+      orderBy: { createdAt: "asc" },
+      include: { payment: { select: { paymentNumber: true, paymentMethod: true } } },
+    }),
+    prisma.creditLedger.findMany({
+      where: openDebitWhere(tenantId, patientId),
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  const openingBalance = openingEntry ? new Decimal(openingEntry.balance.toString()) : new Decimal(0);
+  const closingBalance = rows.length > 0 ? new Decimal(rows[rows.length - 1].balance.toString()) : openingBalance;
+  const outstandingEntries = toOutstandingEntries(openEntries);
+  const aging = summarizeAging(outstandingEntries);
+  const creditLimit = patient.creditLimit ? new Decimal(patient.creditLimit.toString()) : null;
+
+  return {
+    letterhead: await getTenantLetterhead(tenantId),
+    patient: {
+      id: patient.id,
+      name: patientName(patient),
+      uhid: patient.uhid,
+      mobile: patient.primaryMobile,
+      email: patient.email,
+      address: patient.address,
+      employerName: patient.employerName,
+      corporateId: patient.corporateId,
+      employeeId: patient.employeeId,
+    },
+    period: { from: from?.toISOString() ?? null, to: to.toISOString() },
+    openingBalance: openingBalance.toFixed(2),
+    closingBalance: closingBalance.toFixed(2),
+    lines: rows.map((row) => ({
+      id: row.id,
+      date: row.createdAt.toISOString(),
+      referenceType: row.referenceType,
+      referenceId: row.referenceId,
+      description: row.notes,
+      paymentNumber: row.payment?.paymentNumber ?? null,
+      paymentMethod: row.payment?.paymentMethod ?? null,
+      debit: row.debitAmount.toString(),
+      credit: row.creditAmount.toString(),
+      balance: row.balance.toString(),
+    })),
+    outstandingEntries,
+    aging,
+    creditLimit: creditLimit?.toFixed(2) ?? null,
+    availableCredit: creditLimit ? Decimal.max(creditLimit.sub(aging.total), 0).toFixed(2) : null,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// =====================================================
+// SETTLEMENT
+// Payment → credit row per settled sale → sale invoice paid/outstanding
+// =====================================================
+
+export async function settleCredit(
+  tenantId: string,
+  userId: string,
+  patientId: string,
+  input: CreditSettlementInput
+): Promise<CreditSettlementResult> {
+  return prisma.$transaction(async (tx) => {
+    // Row-level lock: Prevent concurrent credit updates for the same patient
+    await tx.$executeRaw`SELECT id FROM "Patient" WHERE id = ${patientId} FOR UPDATE`;
+
+    const patient = await tx.patient.findFirst({
+      where: { id: patientId, tenantId },
+      select: { id: true, firstName: true, lastName: true, uhid: true },
+    });
+    if (!patient) throw new AppError("Patient not found", 404, "PATIENT_NOT_FOUND");
+
+    const openEntries = await tx.creditLedger.findMany({
+      where: openDebitWhere(tenantId, patientId),
+      orderBy: { createdAt: "asc" },
+    });
+    if (openEntries.length === 0) {
+      throw new AppError("Patient has no outstanding credit", 400, "NO_OUTSTANDING_CREDIT");
+    }
+
+    const amount = new Decimal(roundMoney(input.amount));
+    const plan: Array<{ entry: OpenDebitEntry; amount: DecimalType }> = [];
+
+    if (input.allocations) {
+      const entryMap = new Map(openEntries.map((e) => [e.id, e]));
+      let allocated = new Decimal(0);
+      for (const allocation of input.allocations) {
+        const entry = entryMap.get(allocation.entryId);
+        if (!entry) {
+          throw new AppError("Credit entry not found or already settled", 400, "CREDIT_ENTRY_NOT_OPEN");
+        }
+        if (plan.some((p) => p.entry.id === entry.id)) {
+          throw new AppError("Each credit entry can be allocated only once", 400, "DUPLICATE_ALLOCATION");
+        }
+        const allocationAmount = new Decimal(roundMoney(allocation.amount));
+        const outstanding = outstandingOf(entry);
+        if (allocationAmount.gt(outstanding)) {
+          throw new AppError(
+            `Allocation exceeds outstanding amount of ${entry.notes ?? entry.referenceId}. Outstanding: ${outstanding.toFixed(2)}`,
+            400,
+            "ALLOCATION_EXCEEDS_OUTSTANDING"
+          );
+        }
+        plan.push({ entry, amount: allocationAmount });
+        allocated = allocated.add(allocationAmount);
+      }
+      if (!allocated.eq(amount)) {
+        throw new AppError(
+          `Allocations (${allocated.toFixed(2)}) must add up to the payment amount (${amount.toFixed(2)})`,
+          400,
+          "ALLOCATION_MISMATCH"
+        );
+      }
+    } else {
+      // Oldest sales first
+      let remaining = amount;
+      for (const entry of openEntries) {
+        if (remaining.lte(0)) break;
+        const applied = Decimal.min(remaining, outstandingOf(entry));
+        plan.push({ entry, amount: applied });
+        remaining = remaining.sub(applied);
+      }
+      if (remaining.gt(0)) {
+        const totalOutstanding = openEntries.reduce((sum, e) => sum.add(outstandingOf(e)), new Decimal(0));
+        throw new AppError(
+          `Payment exceeds outstanding credit. Outstanding: ${totalOutstanding.toFixed(2)}`,
+          400,
+          "PAYMENT_EXCEEDS_OUTSTANDING"
+        );
+      }
+    }
+
+    // One payment per sale invoice, in allocation order
+    const groups = new Map<string | null, typeof plan>();
+    for (const step of plan) {
+      groups.set(step.entry.invoiceId, [...(groups.get(step.entry.invoiceId) ?? []), step]);
+    }
+
+    const shiftId = await getOpenShiftId(tx, tenantId, userId);
+    let balance = await getLatestBalance(tx, tenantId, patientId);
+    const payments: CreditSettlementResult["payments"] = [];
+    const allocations: CreditSettlementResult["allocations"] = [];
+
+    for (const [invoiceId, steps] of groups) {
+      const groupAmount = steps.reduce((sum, step) => sum.add(step.amount), new Decimal(0));
+      const paymentNumber = await nextBillingNumber(tx, tenantId, "PAYMENT", "PAY");
+      const payment = await tx.payment.create({
+        data: {
+          tenantId,
+          invoiceId,
+          patientId,
+          paymentNumber,
+          paymentDate: new Date(),
+          amount: groupAmount.toNumber(),
+          paymentMethod: input.paymentMethod,
+          reference: input.reference || null,
+          notes: input.notes || `Pharmacy credit settlement`,
+          receivedBy: userId,
+          shiftId,
+        },
+      });
+      payments.push({ paymentId: payment.id, paymentNumber, invoiceId, amount: groupAmount.toFixed(2) });
+
+      for (const { entry, amount: applied } of steps) {
+        balance = balance.sub(applied);
+
+        await tx.creditLedger.create({
+          data: {
+            tenantId,
+            patientId,
+            invoiceId: entry.invoiceId,
+            referenceType: "PAYMENT",
+            referenceId: payment.id,
+            debitAmount: new Decimal(0),
+            creditAmount: applied,
+            balance,
+            settlesEntryId: entry.id,
+            paymentId: payment.id,
+            notes: `Payment ${paymentNumber} against ${entry.notes ?? entry.referenceType}`,
+            createdBy: userId,
+            updatedBy: userId,
+          },
+        });
+
+        await tx.creditLedger.update({
+          where: { id: entry.id },
+          data: {
+            settledAmount: { increment: applied },
+            updatedBy: userId,
+            version: { increment: 1 },
+          },
+        });
+
+        allocations.push({
+          entryId: entry.id,
+          amount: applied.toFixed(2),
+          remaining: outstandingOf(entry).sub(applied).toFixed(2),
+        });
+      }
+
+      if (invoiceId) {
+        await applyToInvoice(tx, tenantId, userId, invoiceId, groupAmount.toNumber());
+      }
+    }
+
+    createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "PAYMENT",
+      entityId: payments[0].paymentId,
+      action: "CREDIT_SETTLEMENT",
+      newValue: {
+        paymentNumbers: payments.map((p) => p.paymentNumber),
+        patientId,
+        uhid: patient.uhid,
+        amount: amount.toFixed(2),
+        paymentMethod: input.paymentMethod,
+        allocations,
+        balance: balance.toFixed(2),
+      },
+    });
+
+    return {
+      payments,
+      amount: amount.toFixed(2),
+      paymentMethod: input.paymentMethod,
+      allocations,
+      balance: balance.toFixed(2),
+    };
+  });
+}
+
+/**
+ * Reflect a credit repayment on the sale invoice (paid / outstanding)
+ */
+async function applyToInvoice(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  userId: string,
+  invoiceId: string,
+  amount: number
+): Promise<void> {
+  await tx.$executeRaw`SELECT id FROM "Invoice" WHERE id = ${invoiceId} FOR UPDATE`;
+
+  const invoice = await tx.invoice.findFirst({ where: { id: invoiceId, tenantId } });
+  if (!invoice || invoice.status === "CANCELLED") return;
+
+  const paidAmount = roundMoney(invoice.paidAmount + amount);
+  if (paidAmount > invoice.total) {
+    throw new AppError(
+      `Settlement exceeds the outstanding amount on invoice ${invoice.invoiceNumber}. Outstanding: ${invoice.outstanding.toFixed(2)}`,
+      409,
+      "INVOICE_OVERPAYMENT"
+    );
+  }
+  const outstanding = roundMoney(invoice.total - paidAmount);
+  // Credit sale invoices stay DRAFT until billing finalizes them
+  const status: InvoiceStatus = PAYABLE_STATUSES.includes(invoice.status)
+    ? outstanding <= 0 ? "PAID" : "PARTIAL"
+    : invoice.status;
+
+  await tx.invoice.update({
+    where: { id: invoice.id },
+    data: {
+      paidAmount,
+      outstanding,
+      status,
+      updatedBy: userId,
+      version: { increment: 1 },
+    },
+  });
+}
+
+// =====================================================
+// CREDIT LIMIT
+// =====================================================
+
+export async function updateCreditLimit(
+  tenantId: string,
+  userId: string,
+  patientId: string,
+  creditLimit: number | null
+): Promise<{ patientId: string; creditLimit: string | null }> {
+  const patient = await prisma.patient.findFirst({
+    where: { id: patientId, tenantId },
+    select: { id: true, creditLimit: true },
+  });
+  if (!patient) throw new AppError("Patient not found", 404, "PATIENT_NOT_FOUND");
+
+  const updated = await prisma.patient.update({
+    where: { id: patient.id },
+    data: {
+      creditLimit: creditLimit === null ? null : new Decimal(roundMoney(creditLimit)),
+      updatedBy: userId,
+    },
+    select: { id: true, creditLimit: true },
+  });
+
+  createAuditLog({
+    tenantId,
+    performedBy: userId,
+    entityType: "PATIENT",
+    entityId: patient.id,
+    action: "CREDIT_LIMIT_UPDATE",
+    oldValue: { creditLimit: patient.creditLimit?.toString() ?? null },
+    newValue: { creditLimit: updated.creditLimit?.toString() ?? null },
+  });
+
+  return { patientId: updated.id, creditLimit: updated.creditLimit?.toString() ?? null };
+}
+
+// =====================================================
+// DUNNING REMINDER
+// =====================================================
+
+export async function sendCreditReminder(
+  tenantId: string,
+  userId: string,
+  patientId: string
+): Promise<{ sentTo: string[]; outstanding: string }> {
+  const patient = await prisma.patient.findFirst({
+    where: { id: patientId, tenantId },
+    select: {
+      id: true, firstName: true, primaryMobile: true, email: true,
+      tenant: { select: { name: true } },
+    },
+  });
+  if (!patient) throw new AppError("Patient not found", 404, "PATIENT_NOT_FOUND");
+
+  const openEntries = await prisma.creditLedger.findMany({
+    where: openDebitWhere(tenantId, patientId),
+    orderBy: { createdAt: "asc" },
+  });
+  if (openEntries.length === 0) {
+    throw new AppError("Patient has no outstanding credit", 400, "NO_OUTSTANDING_CREDIT");
+  }
+
+  const outstandingEntries = toOutstandingEntries(openEntries);
+  const aging = summarizeAging(outstandingEntries);
+  const oldestAgeDays = Math.max(...outstandingEntries.map((e) => e.ageDays));
+  const body =
+    `Dear ${patient.firstName}, your pharmacy credit balance at ${patient.tenant.name} is Rs. ${aging.total}` +
+    `${oldestAgeDays > 30 ? `, part of it outstanding for ${oldestAgeDays} days` : ""}. ` +
+    `Please settle it at the pharmacy counter.`;
+
+  const sentTo: string[] = [];
+  const targets: Array<{ channel: "SMS" | "EMAIL"; to: string | null }> = [
+    { channel: "SMS", to: patient.primaryMobile },
+    { channel: "EMAIL", to: patient.email },
+  ];
+  for (const target of targets) {
+    if (!target.to) continue;
+    try {
+      await sendNotification({
+        tenantId,
+        channel: target.channel,
+        to: target.to,
+        subject: target.channel === "EMAIL" ? "Pharmacy credit balance reminder" : undefined,
+        body,
+      });
+      sentTo.push(target.to);
+    } catch (error) {
+      console.error("[Credit] Failed to send reminder:", error);
+    }
+  }
+  if (sentTo.length === 0) {
+    throw new AppError("Reminder could not be sent", 502, "REMINDER_NOT_SENT");
+  }
+
+  createAuditLog({
+    tenantId,
+    performedBy: userId,
+    entityType: "PATIENT",
+    entityId: patient.id,
+    action: "CREDIT_REMINDER",
+    newValue: { outstanding: aging.total, oldestAgeDays, sentTo },
+  });
+
+  return { sentTo, outstanding: aging.total };
+}
@@ -20,7 +20,7 @@ interface IPSaleItemInput {
 interface CreateIPSaleInput {
   patientId: string;
   storeId: string;
-  admissionId?: string;
+  admissionId: string;
   visitId?: string;
   invoiceId?: string;
   prescriptionId?: string;
@@ -52,6 +52,7 @@ interface IPSaleListItem {
   storeId: string;
   storeName: string;
   admissionId: string | null;
+  admissionNumber: string | null;
   status: PharmacySaleStatus;
   totalAmount: string;
   discount: string;
@@ -154,6 +155,16 @@ export async function createIPSale(
     });
     if (!store) throw new AppError("Store not found or inactive", 404, "STORE_NOT_FOUND");
 
+    // 2b. Validate admission - IP charges accrue on the admission's visit until discharge
+    const admission = await tx.admission.findFirst({
+      where: { id: input.admissionId, tenantId, patientId: input.patientId },
+      select: { id: true, status: true, visitId: true },
+    });
+    if (!admission) throw new AppError("Admission not found for this patient", 404, "ADMISSION_NOT_FOUND");
+    if (admission.status !== "ADMITTED") {
+      throw new AppError("Patient has been discharged. IP sales are closed for this admission.", 400, "ADMISSION_NOT_ACTIVE");
+    }
+
     // 3. Validate existing invoice (if provided, attach items to it)
     let existingInvoice: { id: string; subtotal: number; discount: number; tax: number; total: number; outstanding: number } | null = null;
     if (input.invoiceId) {
@@ -220,8 +231,8 @@ export async function createIPSale(
         tenantId,
         saleNumber,
         patientId: input.patientId,
-        visitId: input.visitId ?? null,
-        admissionId: input.admissionId ?? null,
+        visitId: admission.visitId,
+        admissionId: admission.id,
         storeId: input.storeId,
         saleType: "IP",
         status: "COMPLETED",
@@ -426,6 +437,7 @@ export async function getIPSalesCursor(
       storeId: true,
       store: { select: { name: true } },
       admissionId: true,
+      admission: { select: { admissionNumber: true } },
       status: true,
       totalAmount: true,
       discount: true,
@@ -450,6 +462,7 @@ export async function getIPSalesCursor(
       const rec = r as typeof r & {
         patient: { firstName: string; lastName: string; uhid: string | null };
         store: { name: string };
+        admission: { admissionNumber: string } | null;
         _count: { items: number };
       };
       return {
@@ -461,6 +474,7 @@ export async function getIPSalesCursor(
         storeId: rec.storeId,
         storeName: rec.store.name,
         admissionId: rec.admissionId,
+        admissionNumber: rec.admission?.admissionNumber ?? null,
         status: rec.status,
         totalAmount: rec.totalAmount.toString(),
         discount: rec.discount.toString(),
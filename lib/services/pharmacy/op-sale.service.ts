@@ -1,9 +1,17 @@
 import { prisma } from "@/lib/prisma";
 import { AppError } from "@/lib/rbac";
 import { createAuditLog } from "@/lib/audit";
-import type { Prisma, PharmacySaleStatus } from "@/app/generated/prisma/client";
+import type { Prisma, PharmacySaleStatus, PaymentMethod } from "@/app/generated/prisma/client";
 import { Prisma as PrismaNamespace } from "@/app/generated/prisma/client";
 import { allocateStockFIFO } from "./stock-allocation.service";
+import { assertWithinCreditLimit } from "./credit.service";
+import { getOpenShiftId } from "@/lib/services/billing/cashier-shift.service";
+import {
+  applyPrescriptionDispense,
+  linkSaleItemsToPrescription,
+  revertPrescriptionDispense,
+  type DispenseLine,
+} from "./prescription-dispense.service";
 
 const Decimal = PrismaNamespace.Decimal;
 type DecimalType = InstanceType<typeof Decimal>;
@@ -16,6 +24,7 @@ interface SaleItemInput {
   productId: string;
   quantity: number;
   discount?: number;
+  prescriptionItemId?: string;
 }
 
 interface CreateOPSaleInput {
@@ -24,6 +33,7 @@ interface CreateOPSaleInput {
   visitId?: string;
   prescriptionId?: string;
   creditAllowed?: boolean;
+  paymentMethod?: PaymentMethod;
   notes?: string;
   items: SaleItemInput[];
 }
@@ -163,20 +173,25 @@ export async function createOPSale(
 
     // 3. Validate prescription (if linked) - required for narcotic drugs
     let prescriptionDoctorId: string | null = null;
+    let prescriptionItems: Prisma.PrescriptionItemGetPayload<object>[] = [];
     if (input.prescriptionId) {
       const prescription = await tx.prescription.findFirst({
-        where: { id: input.prescriptionId, tenantId, status: "ACTIVE" },
-        select: { id: true, doctorId: true },
+        where: { id: input.prescriptionId, tenantId, patientId: input.patientId, status: "ACTIVE" },
+        select: { id: true, doctorId: true, items: true },
       });
       if (!prescription) throw new AppError("Prescription not found or cancelled", 404, "PRESCRIPTION_NOT_FOUND");
       prescriptionDoctorId = prescription.doctorId;
+      prescriptionItems = prescription.items;
     }
 
     // 4. Validate & fetch products
     const productIds = [...new Set(input.items.map((i) => i.productId))];
     const products = await tx.product.findMany({
       where: { id: { in: productIds }, tenantId, isDeleted: false, status: "ACTIVE" },
-      select: { id: true, name: true, code: true, genericName: true, mrp: true, isNarcotic: true },
+      select: {
+        id: true, name: true, code: true, genericName: true, brandName: true,
+        strength: true, mrp: true, isNarcotic: true,
+      },
     });
     const productMap = new Map(products.map((p) => [p.id, p]));
 
@@ -194,6 +209,11 @@ export async function createOPSale(
       }
     }
 
+    // 4b. Link lines to prescription items (partial dispense + substitution)
+    const lineItems = input.prescriptionId
+      ? linkSaleItemsToPrescription(prescriptionItems, input.items, productMap)
+      : input.items.map((item) => ({ ...item, prescriptionItemId: null, isSubstitute: false }));
+
     // 5. Generate sale number
     const saleNumber = await generateSaleNumber(tenantId, tx);
 
@@ -220,6 +240,11 @@ export async function createOPSale(
     const tax = new Decimal(0); // Tax calculation can be extended later
     const netAmount = totalAmount.sub(totalDiscount).add(tax);
 
+    // 6b. Credit sale must stay within the patient's credit limit
+    if (input.creditAllowed) {
+      await assertWithinCreditLimit(tx, tenantId, input.patientId, netAmount);
+    }
+
     // 7. Create PharmacySale
     const sale = await tx.pharmacySale.create({
       data: {
@@ -235,6 +260,8 @@ export async function createOPSale(
         tax,
         netAmount,
         creditAllowed: input.creditAllowed ?? false,
+        paymentMethod: input.creditAllowed ? null : input.paymentMethod ?? "CASH",
+        shiftId: await getOpenShiftId(tx, tenantId, userId),
         prescriptionId: input.prescriptionId ?? null,
         createdBy: userId,
         updatedBy: userId,
@@ -257,7 +284,7 @@ export async function createOPSale(
 
     if (saleStatus === "COMPLETED") {
       // Allocate stock via FIFO and create sale items
-      for (const item of input.items) {
+      for (const item of lineItems) {
         const product = productMap.get(item.productId)!;
 
         const allocation = await allocateStockFIFO(tx, {
@@ -289,6 +316,8 @@ export async function createOPSale(
               tax: lineTax,
               total: lineTotal,
               ledgerEntryId: batch.ledgerEntryId,
+              prescriptionItemId: item.prescriptionItemId,
+              isSubstitute: item.isSubstitute,
               createdBy: userId,
               updatedBy: userId,
             },
@@ -307,27 +336,16 @@ export async function createOPSale(
             ledgerEntryId: batch.ledgerEntryId,
           });
         }
+      }
 
-        // Mark prescription items as dispensed (if linked)
-        if (input.prescriptionId) {
-          await tx.prescriptionItem.updateMany({
-            where: {
-              prescriptionId: input.prescriptionId,
-              tenantId,
-              medicineName: product.name,
-              isDispensed: false,
-            },
-            data: {
-              isDispensed: true,
-              dispensedAt: new Date(),
-              dispensedBy: userId,
-            },
-          });
-        }
+      // Update prescription dispense state (if linked)
+      if (input.prescriptionId) {
+        await applyPrescriptionDispense(tx, tenantId, userId, input.prescriptionId, toDispenseLines(lineItems));
       }
     } else {
       // PENDING_APPROVAL: Create sale items without stock allocation (no ledger entries)
-      for (const item of input.items) {
+      // Prescription dispense state is updated on approval
+      for (const item of lineItems) {
         const product = productMap.get(item.productId)!;
         const lineUnitPrice = new Decimal((product.mrp ?? 0).toString());
         const lineDiscount = new Decimal(item.discount ?? 0);
@@ -347,6 +365,8 @@ export async function createOPSale(
             tax: lineTax,
             total: lineTotal,
             ledgerEntryId: null,
+            prescriptionItemId: item.prescriptionItemId,
+            isSubstitute: item.isSubstitute,
             createdBy: userId,
             updatedBy: userId,
           },
@@ -545,6 +565,8 @@ export async function approveSale(
               tax: new Decimal(0),
               total: item.unitPrice.mul(batch.allocatedQty),
               ledgerEntryId: batch.ledgerEntryId,
+              prescriptionItemId: item.prescriptionItemId,
+              isSubstitute: item.isSubstitute,
               createdBy: userId,
               updatedBy: userId,
             },
@@ -555,6 +577,13 @@ export async function approveSale(
       }
     }
 
+    // Update prescription dispense state (if linked)
+    if (sale.prescriptionId) {
+      await applyPrescriptionDispense(tx, tenantId, userId, sale.prescriptionId, toDispenseLines(
+        sale.items.map((i) => ({ prescriptionItemId: i.prescriptionItemId, quantity: i.quantity.toNumber() }))
+      ));
+    }
+
     // Update sale status to COMPLETED
     const updatedSale = await tx.pharmacySale.update({
       where: { id: sale.id },
@@ -803,6 +832,13 @@ export async function cancelSale(
           });
         }
       }
+
+      // Re-open dispensed prescription quantities
+      if (sale.prescriptionId) {
+        await revertPrescriptionDispense(tx, tenantId, userId, sale.prescriptionId, toDispenseLines(
+          sale.items.map((i) => ({ prescriptionItemId: i.prescriptionItemId, quantity: i.quantity.toNumber() }))
+        ));
+      }
     }
 
     // Update sale status
@@ -829,6 +865,18 @@ export async function cancelSale(
   });
 }
 
+// =====================================================
+// HELPER: Collect prescription-linked quantities
+// =====================================================
+
+function toDispenseLines(
+  items: Array<{ prescriptionItemId: string | null; quantity: number }>
+): DispenseLine[] {
+  return items
+    .filter((i): i is DispenseLine => !!i.prescriptionItemId)
+    .map((i) => ({ prescriptionItemId: i.prescriptionItemId, quantity: i.quantity }));
+}
+
 // =====================================================
 // HELPER: Map sale to detail response
 // =====================================================
@@ -0,0 +1,446 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import type { Prisma } from "@/app/generated/prisma/client";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+type MatchType = "EXACT" | "BRAND" | "GENERIC" | "SUBSTITUTE";
+
+interface ProductCandidate {
+  productId: string;
+  code: string;
+  name: string;
+  genericName: string;
+  brandName: string;
+  strength: string | null;
+  dosageForm: string | null;
+  mrp: string;
+  isNarcotic: boolean;
+  available: number;
+  matchType: MatchType;
+}
+
+interface DispenseItem {
+  prescriptionItemId: string;
+  medicineName: string;
+  genericName: string | null;
+  strength: string | null;
+  dosage: string;
+  frequency: string;
+  duration: string;
+  prescribedQuantity: number | null;
+  dispensedQuantity: number;
+  remainingQuantity: number | null;
+  isDispensed: boolean;
+  suggestedProductId: string | null;
+  candidates: ProductCandidate[];
+}
+
+interface PrescriptionDispenseMap {
+  prescriptionId: string;
+  prescriptionDate: string;
+  status: string;
+  doctorName: string;
+  visitId: string;
+  storeId: string;
+  items: DispenseItem[];
+}
+
+interface DispensablePrescription {
+  id: string;
+  prescriptionDate: string;
+  doctorName: string;
+  visitId: string;
+  itemCount: number;
+  pendingCount: number;
+}
+
+export interface DispenseLine {
+  prescriptionItemId: string;
+  quantity: number;
+}
+
+type RxItemLike = {
+  medicineName: string;
+  genericName: string | null;
+  strength: string | null;
+};
+
+type ProductLike = {
+  name: string;
+  brandName?: string | null;
+  genericName: string | null;
+  strength?: string | null;
+};
+
+// =====================================================
+// MATCHING HELPERS
+// =====================================================
+
+function normalizeName(value: string | null | undefined): string {
+  return (value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/** "500 mg" / "500MG" → "500mg" */
+function normalizeStrength(value: string | null | undefined): string {
+  return (value ?? "").toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * Classify how well a product matches a prescribed item:
+ * EXACT   — same brand (or generic) and same strength
+ * BRAND   — same brand, strength unknown on either side
+ * GENERIC — same generic and strength, different brand
+ * SUBSTITUTE — same generic, different strength
+ */
+export function classifyProductMatch(item: RxItemLike, product: ProductLike): MatchType | null {
+  const rxName = normalizeName(item.medicineName);
+  const rxGeneric = normalizeName(item.genericName);
+  const rxStrength = normalizeStrength(item.strength);
+
+  const names = [normalizeName(product.name), normalizeName(product.brandName)].filter(Boolean);
+  const generic = normalizeName(product.genericName);
+  const strength = normalizeStrength(product.strength);
+
+  const brandMatch = names.includes(rxName);
+  const genericMatch = !!generic && (generic === rxGeneric || generic === rxName);
+  const strengthKnown = !!rxStrength && !!strength;
+  const strengthMatch = strengthKnown && rxStrength === strength;
+
+  if (brandMatch && (strengthMatch || !strengthKnown)) return strengthMatch || !rxStrength ? "EXACT" : "BRAND";
+  if (genericMatch && (strengthMatch || !strengthKnown)) return "GENERIC";
+  if (brandMatch || genericMatch) return "SUBSTITUTE";
+  return null;
+}
+
+/** A dispensed product is a substitution unless it is the prescribed brand/strength */
+export function isSubstitution(item: RxItemLike, product: ProductLike): boolean {
+  const match = classifyProductMatch(item, product);
+  return match !== "EXACT" && match !== "BRAND";
+}
+
+const MATCH_ORDER: Record<MatchType, number> = { EXACT: 0, BRAND: 1, GENERIC: 2, SUBSTITUTE: 3 };
+
+// =====================================================
+// 1. LIST DISPENSABLE PRESCRIPTIONS FOR A PATIENT
+// =====================================================
+
+export async function getDispensablePrescriptions(
+  tenantId: string,
+  patientId: string
+): Promise<DispensablePrescription[]> {
+  const prescriptions = await prisma.prescription.findMany({
+    where: { tenantId, patientId, status: "ACTIVE" },
+    orderBy: { prescriptionDate: "desc" },
+    take: 20,
+    include: {
+      doctor: { select: { fullName: true } },
+      items: { select: { isDispensed: true } },
+    },
+  });
+
+  return prescriptions
+    .filter((p) => p.items.some((i) => !i.isDispensed))
+    .map((p) => ({
+      id: p.id,
+      prescriptionDate: p.prescriptionDate.toISOString(),
+      doctorName: p.doctor.fullName,
+      visitId: p.visitId,
+      itemCount: p.items.length,
+      pendingCount: p.items.filter((i) => !i.isDispensed).length,
+    }));
+}
+
+// =====================================================
+// 2. MAP PRESCRIPTION ITEMS TO PRODUCTS (with store stock)
+// =====================================================
+
+export async function getPrescriptionDispenseMap(
+  tenantId: string,
+  prescriptionId: string,
+  storeId: string
+): Promise<PrescriptionDispenseMap> {
+  const prescription = await prisma.prescription.findFirst({
+    where: { id: prescriptionId, tenantId },
+    include: {
+      doctor: { select: { fullName: true } },
+      items: { orderBy: { createdAt: "asc" } },
+    },
+  });
+  if (!prescription) throw new AppError("Prescription not found", 404, "PRESCRIPTION_NOT_FOUND");
+
+  const store = await prisma.store.findFirst({
+    where: { id: storeId, tenantId, isDeleted: false, status: "ACTIVE" },
+    select: { id: true },
+  });
+  if (!store) throw new AppError("Store not found or inactive", 404, "STORE_NOT_FOUND");
+
+  // Candidate products: any active product sharing a brand or generic name
+  const searchNames = [
+    ...new Set(
+      prescription.items.flatMap((i) => [i.medicineName, i.genericName]).filter((n): n is string => !!n && !!n.trim())
+    ),
+  ];
+  const products = searchNames.length === 0 ? [] : await prisma.product.findMany({
+    where: {
+      tenantId,
+      isDeleted: false,
+      status: "ACTIVE",
+      OR: searchNames.flatMap((name) => [
+        { name: { equals: name.trim(), mode: "insensitive" as const } },
+        { brandName: { equals: name.trim(), mode: "insensitive" as const } },
+        { genericName: { equals: name.trim(), mode: "insensitive" as const } },
+      ]),
+    },
+    select: {
+      id: true, code: true, name: true, genericName: true, brandName: true,
+      strength: true, dosageForm: true, mrp: true, isNarcotic: true,
+    },
+  });
+
+  // Store stock for all candidates in one query
+  const stock = products.length === 0 ? [] : await prisma.inventoryLedger.groupBy({
+    by: ["productId"],
+    where: { tenantId, storeId, productId: { in: products.map((p) => p.id) } },
+    _sum: { quantityChange: true },
+  });
+  const stockMap = new Map(stock.map((s) => [s.productId, s._sum.quantityChange ?? 0]));
+
+  const items: DispenseItem[] = prescription.items.map((item) => {
+    const candidates: ProductCandidate[] = [];
+    for (const product of products) {
+      const matchType = classifyProductMatch(item, product);
+      if (!matchType) continue;
+      candidates.push({
+        productId: product.id,
+        code: product.code,
+        name: product.name,
+        genericName: product.genericName,
+        brandName: product.brandName,
+        strength: product.strength,
+        dosageForm: product.dosageForm,
+        mrp: (product.mrp ?? 0).toString(),
+        isNarcotic: product.isNarcotic,
+        available: Math.max(0, stockMap.get(product.id) ?? 0),
+        matchType,
+      });
+    }
+
+    // Best match first, then by stock on hand
+    candidates.sort((a, b) => MATCH_ORDER[a.matchType] - MATCH_ORDER[b.matchType] || b.available - a.available);
+
+    const remaining = item.quantity != null ? Math.max(0, item.quantity - item.dispensedQuantity) : null;
+    const needed = remaining ?? 1;
+    const suggested = item.isDispensed
+      ? null
+      : candidates.find((c) => c.available >= needed) ?? candidates.find((c) => c.available > 0) ?? null;
+
+    return {
+      prescriptionItemId: item.id,
+      medicineName: item.medicineName,
+      genericName: item.genericName,
+      strength: item.strength,
+      dosage: item.dosage,
+      frequency: item.frequency,
+      duration: item.duration,
+      prescribedQuantity: item.quantity,
+      dispensedQuantity: item.dispensedQuantity,
+      remainingQuantity: remaining,
+      isDispensed: item.isDispensed,
+      suggestedProductId: suggested?.productId ?? null,
+      candidates,
+    };
+  });
+
+  return {
+    prescriptionId: prescription.id,
+    prescriptionDate: prescription.prescriptionDate.toISOString(),
+    status: prescription.status,
+    doctorName: prescription.doctor.fullName,
+    visitId: prescription.visitId,
+    storeId,
+    items,
+  };
+}
+
+// =====================================================
+// 3. LINK SALE LINES TO PRESCRIPTION ITEMS
+// =====================================================
+
+/**
+ * Resolve which prescription item each sale line dispenses against.
+ * Explicit links are validated; unlinked lines are matched to the best
+ * outstanding item by brand/generic name. Rejects over-dispensing where the
+ * prescribed quantity is known.
+ */
+export function linkSaleItemsToPrescription<T extends { productId: string; quantity: number; prescriptionItemId?: string }>(
+  rxItems: Array<RxItemLike & { id: string; quantity: number | null; dispensedQuantity: number; isDispensed: boolean }>,
+  saleItems: T[],
+  productMap: Map<string, ProductLike>
+): Array<T & { prescriptionItemId: string | null; isSubstitute: boolean }> {
+  const rxMap = new Map(rxItems.map((i) => [i.id, i]));
+  const explicitIds = new Set(saleItems.map((i) => i.prescriptionItemId).filter((id): id is string => !!id));
+  const claimed = new Set<string>(explicitIds);
+  const requested = new Map<string, number>();
+
+  const linked = saleItems.map((item) => {
+    const product = productMap.get(item.productId)!;
+    let rxItem = item.prescriptionItemId ? rxMap.get(item.prescriptionItemId) : undefined;
+
+    if (item.prescriptionItemId && !rxItem) {
+      throw new AppError("Prescription item does not belong to this prescription", 400, "PRESCRIPTION_ITEM_MISMATCH");
+    }
+
+    if (!rxItem) {
+      const matches = rxItems
+        .filter((rx) => !rx.isDispensed && !claimed.has(rx.id))
+        .map((rx) => ({ rx, match: classifyProductMatch(rx, product) }))
+        .filter((m): m is { rx: typeof rxItems[number]; match: MatchType } => m.match !== null)
+        .sort((a, b) => MATCH_ORDER[a.match] - MATCH_ORDER[b.match]);
+      rxItem = matches[0]?.rx;
+      if (rxItem) claimed.add(rxItem.id);
+    }
+
+    if (!rxItem) return { ...item, prescriptionItemId: null, isSubstitute: false };
+
+    requested.set(rxItem.id, (requested.get(rxItem.id) ?? 0) + item.quantity);
+    return { ...item, prescriptionItemId: rxItem.id, isSubstitute: isSubstitution(rxItem, product) };
+  });
+
+  for (const [id, quantity] of requested) {
+    const rxItem = rxMap.get(id)!;
+    if (rxItem.quantity == null) continue;
+    const remaining = rxItem.quantity - rxItem.dispensedQuantity;
+    if (quantity > remaining) {
+      throw new AppError(
+        `Cannot dispense ${quantity} of "${rxItem.medicineName}". Remaining on prescription: ${Math.max(0, remaining)}`,
+        400,
+        "PRESCRIPTION_OVER_DISPENSE"
+      );
+    }
+  }
+
+  return linked;
+}
+
+// =====================================================
+// 4. APPLY / REVERT DISPENSE STATE (inside sale transaction)
+// =====================================================
+
+/**
+ * Add dispensed quantities to prescription items and roll the prescription
+ * to COMPLETED once every item is fully dispensed. Items without a
+ * prescribed quantity are considered fully dispensed on first dispense.
+ * The remaining quantity is re-checked under the prescription lock, since
+ * another sale may have dispensed against it after this one was linked.
+ */
+export async function applyPrescriptionDispense(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  userId: string,
+  prescriptionId: string,
+  lines: DispenseLine[]
+): Promise<{ completed: boolean }> {
+  if (lines.length === 0) return { completed: false };
+
+  await tx.$executeRaw`SELECT id FROM "Prescription" WHERE id = ${prescriptionId} FOR UPDATE`;
+
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    totals.set(line.prescriptionItemId, (totals.get(line.prescriptionItemId) ?? 0) + line.quantity);
+  }
+
+  const items = await tx.prescriptionItem.findMany({
+    where: { prescriptionId, tenantId, id: { in: [...totals.keys()] } },
+  });
+  if (items.length !== totals.size) {
+    throw new AppError("Prescription item does not belong to this prescription", 400, "PRESCRIPTION_ITEM_MISMATCH");
+  }
+
+  for (const item of items) {
+    if (item.quantity == null) continue;
+    const quantity = totals.get(item.id) ?? 0;
+    const remaining = item.quantity - item.dispensedQuantity;
+    if (quantity > remaining) {
+      throw new AppError(
+        `Cannot dispense ${quantity} of "${item.medicineName}". Remaining on prescription: ${Math.max(0, remaining)}`,
+        400,
+        "PRESCRIPTION_OVER_DISPENSE"
+      );
+    }
+  }
+
+  const now = new Date();
+  for (const item of items) {
+    const dispensedQuantity = item.dispensedQuantity + (totals.get(item.id) ?? 0);
+    const isDispensed = item.quantity == null || dispensedQuantity >= item.quantity;
+    await tx.prescriptionItem.update({
+      where: { id: item.id },
+      data: {
+        dispensedQuantity,
+        isDispensed,
+        dispensedAt: now,
+        dispensedBy: userId,
+      },
+    });
+  }
+
+  const pending = await tx.prescriptionItem.count({
+    where: { prescriptionId, tenantId, isDispensed: false },
+  });
+
+  if (pending === 0) {
+    await tx.prescription.update({
+      where: { id: prescriptionId },
+      data: { status: "COMPLETED", updatedBy: userId },
+    });
+    return { completed: true };
+  }
+
+  return { completed: false };
+}
+
+/**
+ * Reverse the dispense quantities of a cancelled sale and re-open the
+ * prescription if it had been completed by it.
+ */
+export async function revertPrescriptionDispense(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  userId: string,
+  prescriptionId: string,
+  lines: DispenseLine[]
+): Promise<void> {
+  if (lines.length === 0) return;
+
+  await tx.$executeRaw`SELECT id FROM "Prescription" WHERE id = ${prescriptionId} FOR UPDATE`;
+
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    totals.set(line.prescriptionItemId, (totals.get(line.prescriptionItemId) ?? 0) + line.quantity);
+  }
+
+  const items = await tx.prescriptionItem.findMany({
+    where: { prescriptionId, tenantId, id: { in: [...totals.keys()] } },
+  });
+
+  for (const item of items) {
+    const dispensedQuantity = Math.max(0, item.dispensedQuantity - (totals.get(item.id) ?? 0));
+    const isDispensed = item.quantity != null ? dispensedQuantity >= item.quantity : dispensedQuantity > 0;
+    await tx.prescriptionItem.update({
+      where: { id: item.id },
+      data: {
+        dispensedQuantity,
+        isDispensed,
+        ...(dispensedQuantity === 0 && { dispensedAt: null, dispensedBy: null }),
+      },
+    });
+  }
+
+  await tx.prescription.updateMany({
+    where: { id: prescriptionId, tenantId, status: "COMPLETED" },
+    data: { status: "ACTIVE", updatedBy: userId },
+  });
+}
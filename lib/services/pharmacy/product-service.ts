@@ -21,6 +21,8 @@ export interface ProductCreateInput {
   reorderLevel?: number;
   storageCondition?: string;
   isNarcotic?: boolean;
+  category?: string;
+  rackLocation?: string;
 }
 
 export interface ProductUpdateInput {
@@ -39,6 +41,8 @@ export interface ProductUpdateInput {
   reorderLevel?: number;
   storageCondition?: string;
   isNarcotic?: boolean;
+  category?: string;
+  rackLocation?: string;
   status?: "ACTIVE" | "INACTIVE";
 }
 
@@ -98,6 +102,8 @@ export async function createProduct(
       reorderLevel: input.reorderLevel || 0,
       storageCondition: input.storageCondition || null,
       isNarcotic: input.isNarcotic || false,
+      category: input.category || null,
+      rackLocation: input.rackLocation || null,
       status: "ACTIVE",
       isDeleted: false,
       createdBy: userId,
@@ -187,6 +193,8 @@ export async function getProducts(
       reorderLevel: true,
       storageCondition: true,
       isNarcotic: true,
+      category: true,
+      rackLocation: true,
       status: true,
       updatedAt: true,
       manufacturer: {
@@ -257,6 +265,8 @@ export async function updateProduct(
   if (input.reorderLevel !== undefined) updateData.reorderLevel = input.reorderLevel;
   if (input.storageCondition !== undefined) updateData.storageCondition = input.storageCondition;
   if (input.isNarcotic !== undefined) updateData.isNarcotic = input.isNarcotic;
+  if (input.category !== undefined) updateData.category = input.category || null;
+  if (input.rackLocation !== undefined) updateData.rackLocation = input.rackLocation || null;
   if (input.status !== undefined) updateData.status = input.status;
 
   const updated = await prisma.product.update({
@@ -0,0 +1,374 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createPurchaseOrder } from "@/lib/services/pharmacy/purchase-order.service";
+import { getActiveContractRates } from "@/lib/services/pharmacy/vendor-contract.service";
+import type { PurchaseOrderStatus } from "@/app/generated/prisma/client";
+import type {
+  ReorderSuggestionQueryInput,
+  CreateReorderPurchaseOrdersInput,
+} from "@/lib/schemas/pharmacy-procurement-schema";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface ReorderSuggestionItem {
+  productId: string;
+  productCode: string;
+  productName: string;
+  genericName: string | null;
+  currentStock: number;
+  pendingQty: number;
+  consumedQty: number;
+  avgDailyConsumption: string;
+  reorderLevel: number;
+  minimumStock: number;
+  reorderPoint: number;
+  suggestedQty: number;
+  unitCost: string | null;
+  gstPercent: string;
+  estimatedValue: string;
+}
+
+interface ReorderVendorGroup {
+  vendorId: string | null;
+  vendorName: string | null;
+  vendorCode: string | null;
+  leadTimeDays: number;
+  estimatedTotal: string;
+  items: ReorderSuggestionItem[];
+}
+
+interface ReorderSuggestionResult {
+  storeId: string;
+  storeName: string;
+  lookbackDays: number;
+  coverDays: number;
+  generatedAt: string;
+  groups: ReorderVendorGroup[];
+}
+
+interface ReorderPurchaseOrderResult {
+  id: string;
+  poNumber: string;
+  vendorId: string;
+  vendorName: string;
+  itemCount: number;
+  total: string;
+}
+
+// Used for products with no usable purchase history
+const DEFAULT_LEAD_TIME_DAYS = 7;
+
+// POs still expected to deliver. DRAFTs count so that re-running the engine
+// right after creating orders does not propose the same quantities again.
+const OPEN_PO_STATUSES: PurchaseOrderStatus[] = ["DRAFT", "APPROVED", "SENT", "PARTIAL"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * Ordered minus accepted quantity across open POs, per product. POs are
+ * tenant-level, so this is not split by store.
+ */
+async function getPendingPOQuantities(tenantId: string): Promise<Map<string, number>> {
+  const poItems = await prisma.purchaseOrderItem.findMany({
+    where: { purchaseOrder: { tenantId, isDeleted: false, status: { in: OPEN_PO_STATUSES } } },
+    select: { purchaseOrderId: true, productId: true, quantityOrdered: true },
+  });
+  if (poItems.length === 0) return new Map();
+
+  const poIds = [...new Set(poItems.map((i) => i.purchaseOrderId))];
+  const grnItems = await prisma.goodsReceiptItem.findMany({
+    where: { goodsReceipt: { tenantId, isDeleted: false, purchaseOrderId: { in: poIds } } },
+    select: {
+      productId: true,
+      quantityReceived: true,
+      quantityRejected: true,
+      goodsReceipt: { select: { purchaseOrderId: true } },
+    },
+  });
+
+  const acceptedByLine = new Map<string, number>();
+  for (const gi of grnItems) {
+    const key = `${gi.goodsReceipt.purchaseOrderId}:${gi.productId}`;
+    acceptedByLine.set(key, (acceptedByLine.get(key) ?? 0) + gi.quantityReceived - gi.quantityRejected);
+  }
+
+  const orderedByLine = new Map<string, { productId: string; ordered: number }>();
+  for (const item of poItems) {
+    const key = `${item.purchaseOrderId}:${item.productId}`;
+    const line = orderedByLine.get(key);
+    if (line) line.ordered += item.quantityOrdered;
+    else orderedByLine.set(key, { productId: item.productId, ordered: item.quantityOrdered });
+  }
+
+  const pending = new Map<string, number>();
+  for (const [key, line] of orderedByLine) {
+    const open = Math.max(0, line.ordered - (acceptedByLine.get(key) ?? 0));
+    if (open > 0) pending.set(line.productId, (pending.get(line.productId) ?? 0) + open);
+  }
+  return pending;
+}
+
+/**
+ * Vendor and rate from the most recent non-cancelled PO line of each product.
+ */
+async function getLastPurchases(
+  tenantId: string,
+  productIds: string[]
+): Promise<Map<string, { vendorId: string; unitCost: string }>> {
+  if (productIds.length === 0) return new Map();
+
+  const lines = await prisma.purchaseOrderItem.findMany({
+    where: {
+      productId: { in: productIds },
+      purchaseOrder: { tenantId, isDeleted: false, status: { not: "CANCELLED" } },
+    },
+    orderBy: { createdAt: "desc" },
+    distinct: ["productId"],
+    select: { productId: true, unitCost: true, purchaseOrder: { select: { vendorId: true } } },
+  });
+
+  return new Map(
+    lines.map((l) => [l.productId, { vendorId: l.purchaseOrder.vendorId, unitCost: l.unitCost.toString() }])
+  );
+}
+
+// =====================================================
+// GET REORDER SUGGESTIONS
+// =====================================================
+
+/**
+ * Proposes order quantities for a store. Average daily consumption is the
+ * SALE_OUT volume over the lookback window; the reorder point covers demand
+ * over the vendor lead time plus the product's minimum stock, and never falls
+ * below its configured reorder level. Products whose stock plus pending PO
+ * quantity is at or below that point are topped up to cover `coverDays` of
+ * demand beyond it, grouped by the vendor they were last bought from.
+ */
+export async function getReorderSuggestions(
+  tenantId: string,
+  query: ReorderSuggestionQueryInput
+): Promise<ReorderSuggestionResult> {
+  const { storeId, lookbackDays, coverDays } = query;
+
+  const store = await prisma.store.findFirst({
+    where: { id: storeId, tenantId, isDeleted: false },
+    select: { id: true, name: true },
+  });
+  if (!store) throw new AppError("Store not found", 404, "STORE_NOT_FOUND");
+
+  const now = new Date();
+  const since = new Date(now.getTime() - lookbackDays * DAY_MS);
+
+  const [products, stockRows, saleRows, pendingByProduct] = await Promise.all([
+    prisma.product.findMany({
+      where: { tenantId, isDeleted: false, status: "ACTIVE" },
+      select: {
+        id: true,
+        code: true,
+        name: true,
+        genericName: true,
+        gstPercent: true,
+        purchasePrice: true,
+        minimumStock: true,
+        reorderLevel: true,
+      },
+    }),
+    prisma.inventoryLedger.groupBy({
+      by: ["productId"],
+      where: { tenantId, storeId },
+      _sum: { quantityChange: true },
+    }),
+    prisma.inventoryLedger.groupBy({
+      by: ["productId"],
+      where: { tenantId, storeId, transactionType: "SALE_OUT", createdAt: { gte: since } },
+      _sum: { quantityChange: true },
+    }),
+    getPendingPOQuantities(tenantId),
+  ]);
+
+  const stockByProduct = new Map(stockRows.map((r) => [r.productId, r._sum.quantityChange ?? 0]));
+  const consumedByProduct = new Map(saleRows.map((r) => [r.productId, Math.abs(r._sum.quantityChange ?? 0)]));
+
+  // Only products with a reorder trigger or recent demand can need ordering
+  const candidates = products.filter(
+    (p) => p.reorderLevel > 0 || p.minimumStock > 0 || (consumedByProduct.get(p.id) ?? 0) > 0
+  );
+
+  const lastPurchases = await getLastPurchases(tenantId, candidates.map((p) => p.id));
+  const vendorIds = [...new Set([...lastPurchases.values()].map((l) => l.vendorId))];
+  const vendors = vendorIds.length > 0
+    ? await prisma.vendor.findMany({
+        where: { id: { in: vendorIds }, tenantId, isDeleted: false, status: "ACTIVE" },
+        select: { id: true, name: true, code: true, leadTimeDays: true },
+      })
+    : [];
+  const vendorMap = new Map(vendors.map((v) => [v.id, v]));
+  const contractRates = new Map(
+    (await getActiveContractRates(tenantId, vendors.map((v) => v.id), now)).map((r) => [`${r.vendorId}:${r.productId}`, r.unitCost])
+  );
+
+  const groups = new Map<string | null, ReorderVendorGroup>();
+
+  for (const p of candidates) {
+    const lastPurchase = lastPurchases.get(p.id);
+    // Inactive vendors cannot take new POs, so their products go unassigned
+    const vendor = lastPurchase ? vendorMap.get(lastPurchase.vendorId) ?? null : null;
+    const leadTimeDays = vendor?.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+
+    const currentStock = Math.max(0, stockByProduct.get(p.id) ?? 0);
+    const pendingQty = pendingByProduct.get(p.id) ?? 0;
+    const consumedQty = consumedByProduct.get(p.id) ?? 0;
+    const avgDaily = consumedQty / lookbackDays;
+
+    const reorderPoint = Math.max(p.reorderLevel, Math.ceil(avgDaily * leadTimeDays) + p.minimumStock);
+    const projected = currentStock + pendingQty;
+    if (reorderPoint === 0 || projected > reorderPoint) continue;
+
+    const targetStock = reorderPoint + Math.ceil(avgDaily * coverDays);
+    const suggestedQty = targetStock - projected;
+    if (suggestedQty <= 0) continue;
+
+    // Contract rate first, then the last PO rate, then the product master price
+    const unitCost = (vendor && contractRates.get(`${vendor.id}:${p.id}`))
+      ?? lastPurchase?.unitCost ?? p.purchasePrice?.toString() ?? null;
+    const gstPercent = p.gstPercent ? parseFloat(p.gstPercent.toString()) : 0;
+    const lineValue = unitCost ? parseFloat(unitCost) * suggestedQty * (1 + gstPercent / 100) : 0;
+
+    const key = vendor?.id ?? null;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        vendorId: vendor?.id ?? null,
+        vendorName: vendor?.name ?? null,
+        vendorCode: vendor?.code ?? null,
+        leadTimeDays,
+        estimatedTotal: "0.00",
+        items: [],
+      };
+      groups.set(key, group);
+    }
+
+    group.items.push({
+      productId: p.id,
+      productCode: p.code,
+      productName: p.name,
+      genericName: p.genericName,
+      currentStock,
+      pendingQty,
+      consumedQty,
+      avgDailyConsumption: avgDaily.toFixed(2),
+      reorderLevel: p.reorderLevel,
+      minimumStock: p.minimumStock,
+      reorderPoint,
+      suggestedQty,
+      unitCost,
+      gstPercent: gstPercent.toFixed(2),
+      estimatedValue: lineValue.toFixed(2),
+    });
+    group.estimatedTotal = (parseFloat(group.estimatedTotal) + lineValue).toFixed(2);
+  }
+
+  const sortedGroups = [...groups.values()]
+    .map((g) => ({ ...g, items: g.items.sort((a, b) => a.productName.localeCompare(b.productName)) }))
+    .sort((a, b) => {
+      // Unassigned products last
+      if (!a.vendorName) return 1;
+      if (!b.vendorName) return -1;
+      return a.vendorName.localeCompare(b.vendorName);
+    });
+
+  return {
+    storeId: store.id,
+    storeName: store.name,
+    lookbackDays,
+    coverDays,
+    generatedAt: now.toISOString(),
+    groups: sortedGroups,
+  };
+}
+
+// =====================================================
+// CREATE DRAFT POs FROM SUGGESTIONS
+// =====================================================
+
+/**
+ * Creates one DRAFT purchase order per vendor through createPurchaseOrder.
+ * Line tax comes from the product GST rate and the expected date from the
+ * vendor lead time. Vendors and products are checked up front; each PO is
+ * still created in its own transaction.
+ */
+export async function createReorderPurchaseOrders(
+  tenantId: string,
+  userId: string,
+  input: CreateReorderPurchaseOrdersInput
+): Promise<ReorderPurchaseOrderResult[]> {
+  const store = await prisma.store.findFirst({
+    where: { id: input.storeId, tenantId, isDeleted: false },
+    select: { name: true, code: true },
+  });
+  if (!store) throw new AppError("Store not found", 404, "STORE_NOT_FOUND");
+
+  const vendorIds = input.orders.map((o) => o.vendorId);
+  if (new Set(vendorIds).size !== vendorIds.length) {
+    throw new AppError("Each vendor can appear only once", 400, "DUPLICATE_VENDOR");
+  }
+
+  const vendors = await prisma.vendor.findMany({
+    where: { id: { in: vendorIds }, tenantId, isDeleted: false, status: "ACTIVE" },
+    select: { id: true, leadTimeDays: true },
+  });
+  const leadTimes = new Map(vendors.map((v) => [v.id, v.leadTimeDays]));
+  for (const vendorId of vendorIds) {
+    if (!leadTimes.has(vendorId)) {
+      throw new AppError(`Vendor ${vendorId} not found or inactive`, 404, "VENDOR_NOT_FOUND");
+    }
+  }
+
+  const productIds = [...new Set(input.orders.flatMap((o) => o.items.map((i) => i.productId)))];
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds }, tenantId, isDeleted: false },
+    select: { id: true, gstPercent: true },
+  });
+  const gstByProduct = new Map(products.map((p) => [p.id, p.gstPercent ? parseFloat(p.gstPercent.toString()) : 0]));
+  for (const pid of productIds) {
+    if (!gstByProduct.has(pid)) {
+      throw new AppError(`Product ${pid} not found`, 404, "PRODUCT_NOT_FOUND");
+    }
+  }
+
+  const today = new Date();
+  const created: ReorderPurchaseOrderResult[] = [];
+
+  for (const order of input.orders) {
+    const leadTimeDays = leadTimes.get(order.vendorId)!;
+    const po = await createPurchaseOrder(tenantId, userId, {
+      vendorId: order.vendorId,
+      orderDate: today.toISOString(),
+      expectedDate: new Date(today.getTime() + leadTimeDays * DAY_MS).toISOString(),
+      notes: `Reorder for ${store.name} (${store.code})`,
+      items: order.items.map((item) => ({
+        productId: item.productId,
+        quantityOrdered: item.quantityOrdered,
+        unitCost: item.unitCost,
+        tax: Math.round(item.unitCost * item.quantityOrdered * gstByProduct.get(item.productId)!) / 100,
+      })),
+    });
+
+    created.push({
+      id: po.id,
+      poNumber: po.poNumber,
+      vendorId: po.vendorId,
+      vendorName: po.vendorName,
+      itemCount: po.items.length,
+      total: po.total,
+    });
+  }
+
+  return created;
+}
@@ -3,6 +3,7 @@ import { AppError } from "@/lib/rbac";
 import { createAuditLog } from "@/lib/audit";
 import type { Prisma, PharmacyReturnStatus } from "@/app/generated/prisma/client";
 import { Prisma as PrismaNamespace } from "@/app/generated/prisma/client";
+import { getOpenShiftId } from "@/lib/services/billing/cashier-shift.service";
 
 const Decimal = PrismaNamespace.Decimal;
 type DecimalType = InstanceType<typeof Decimal>;
@@ -548,6 +549,12 @@ export async function approveReturn(
         );
       }
 
+      // The sale's debit row: the reversal reduces what is still owed on it
+      const saleEntry = await tx.creditLedger.findFirst({
+        where: { tenantId, referenceType: "PHARMACY_SALE", referenceId: sale.id, isDeleted: false },
+        select: { id: true, debitAmount: true, settledAmount: true },
+      });
+
       await tx.creditLedger.create({
         data: {
           tenantId,
@@ -558,18 +565,33 @@ export async function approveReturn(
           debitAmount: new Decimal(0),
           creditAmount: returnTotal,
           balance: newBalance,
+          settlesEntryId: saleEntry?.id ?? null,
           notes: `Credit reversal for return ${pharmacyReturn.returnNumber}`,
           createdBy: userId,
           updatedBy: userId,
         },
       });
+
+      if (saleEntry) {
+        const saleOutstanding = new Decimal(saleEntry.debitAmount.toString()).sub(saleEntry.settledAmount.toString());
+        const reversed = Decimal.min(saleOutstanding, returnTotal);
+        if (reversed.gt(0)) {
+          await tx.creditLedger.update({
+            where: { id: saleEntry.id },
+            data: { settledAmount: { increment: reversed }, updatedBy: userId, version: { increment: 1 } },
+          });
+        }
+      }
     }
 
-    // 7. Update return status
+    // 7. Update return status. Refunds of sales paid at the counter leave the
+    // approver's drawer, so they are stamped with their open shift.
+    const refundsAtCounter = !sale.creditAllowed && sale.paymentMethod !== null;
     const updatedReturn = await tx.pharmacyReturn.update({
       where: { id: pharmacyReturn.id },
       data: {
         status: "APPROVED",
+        shiftId: refundsAtCounter ? await getOpenShiftId(tx, tenantId, userId) : null,
         updatedBy: userId,
         version: { increment: 1 },
       },
@@ -13,6 +13,9 @@ export interface FIFOAllocationRequest {
   requiredQty: number;
   referenceNumber: string;
   userId: string;
+  /** Outward movement type; defaults to SALE_OUT */
+  transactionType?: "SALE_OUT" | "TRANSFER_OUT";
+  notes?: string;
 }
 
 export interface BatchAllocation {
@@ -38,7 +41,7 @@ export interface FIFOAllocationResult {
  * Allocate stock using FIFO (First Expiry First Out) within a transaction.
  * - Groups InventoryLedger by batchNumber
  * - Orders by expiryDate ASC (nearest expiry first)
- * - Inserts SALE_OUT ledger entries for each deducted batch
+ * - Inserts SALE_OUT (or TRANSFER_OUT) ledger entries for each deducted batch
  * - Throws if insufficient stock
  */
 export async function allocateStockFIFO(
@@ -46,6 +49,7 @@ export async function allocateStockFIFO(
   request: FIFOAllocationRequest
 ): Promise<FIFOAllocationResult> {
   const { tenantId, storeId, productId, requiredQty, referenceNumber, userId } = request;
+  const transactionType = request.transactionType ?? "SALE_OUT";
 
   if (requiredQty <= 0) {
     throw new AppError("Quantity must be positive", 400, "INVALID_QUANTITY");
@@ -102,7 +106,7 @@ export async function allocateStockFIFO(
     const batchAvailable = batch._sum.quantityChange ?? 0;
     const allocateFromBatch = Math.min(batchAvailable, remaining);
 
-    // Create SALE_OUT ledger entry (negative quantityChange)
+    // Create outward ledger entry (negative quantityChange)
     const ledgerEntry = await tx.inventoryLedger.create({
       data: {
         tenantId,
@@ -110,10 +114,10 @@ export async function allocateStockFIFO(
         productId,
         batchNumber: batch.batchNumber,
         expiryDate: batch.expiryDate,
-        transactionType: "SALE_OUT",
+        transactionType,
         quantityChange: -allocateFromBatch,
         referenceNumber,
-        notes: `FIFO allocation for sale ${referenceNumber}`,
+        notes: request.notes ?? `FIFO allocation for sale ${referenceNumber}`,
         createdBy: userId,
       },
     });
@@ -136,6 +140,74 @@ export async function allocateStockFIFO(
   };
 }
 
+// =====================================================
+// BATCH-SPECIFIC DEDUCTION
+// Must be called INSIDE an existing prisma.$transaction
+// =====================================================
+
+export interface BatchDeductionRequest {
+  tenantId: string;
+  storeId: string;
+  productId: string;
+  batchNumber: string;
+  quantity: number;
+  transactionType: "VENDOR_RETURN_OUT" | "WRITE_OFF";
+  referenceNumber: string;
+  notes: string;
+  userId: string;
+}
+
+/**
+ * Deduct a named batch (no FEFO choice) for vendor returns and write-offs.
+ * The ledger row keeps the batch's own expiry. Throws if the batch is short.
+ */
+export async function deductBatchStock(
+  tx: Prisma.TransactionClient,
+  request: BatchDeductionRequest
+): Promise<{ ledgerEntryId: string; expiryDate: Date | null }> {
+  const { tenantId, storeId, productId, batchNumber, quantity } = request;
+
+  if (quantity <= 0) {
+    throw new AppError("Quantity must be positive", 400, "INVALID_QUANTITY");
+  }
+
+  await tx.$executeRaw`SELECT id FROM "Product" WHERE id = ${productId} FOR UPDATE`;
+
+  const batchStock = await tx.inventoryLedger.groupBy({
+    by: ["expiryDate"],
+    where: { tenantId, storeId, productId, batchNumber },
+    _sum: { quantityChange: true },
+  });
+  const available = batchStock.reduce((sum, b) => sum + (b._sum.quantityChange ?? 0), 0);
+
+  if (available < quantity) {
+    throw new AppError(
+      `Insufficient stock in batch ${batchNumber}. Required: ${quantity}, Available: ${available}`,
+      400,
+      "INSUFFICIENT_STOCK"
+    );
+  }
+
+  const expiryDate = batchStock.find((b) => b.expiryDate)?.expiryDate ?? null;
+
+  const entry = await tx.inventoryLedger.create({
+    data: {
+      tenantId,
+      storeId,
+      productId,
+      batchNumber,
+      expiryDate,
+      transactionType: request.transactionType,
+      quantityChange: -quantity,
+      referenceNumber: request.referenceNumber,
+      notes: request.notes,
+      createdBy: request.userId,
+    },
+  });
+
+  return { ledgerEntryId: entry.id, expiryDate };
+}
+
 // =====================================================
 // CHECK STOCK AVAILABILITY (read-only, no transaction required)
 // =====================================================
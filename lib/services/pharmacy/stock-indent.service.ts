@@ -0,0 +1,772 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import { allocateStockFIFO } from "./stock-allocation.service";
+import type { Prisma, StockIndentStatus } from "@/app/generated/prisma/client";
+import type {
+  CreateStockIndentInput,
+  ApproveStockIndentInput,
+  ReceiveStockIndentInput,
+} from "@/lib/schemas/pharmacy-procurement-schema";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface TransferBatchResponse {
+  id: string;
+  batchNumber: string;
+  expiryDate: string | null;
+  quantityIssued: number;
+  quantityReceived: number | null;
+  shortfallQty: number;
+  shortfallReason: string | null;
+}
+
+interface IndentItemResponse {
+  id: string;
+  productId: string;
+  productCode: string;
+  productName: string;
+  genericName: string;
+  quantityRequested: number;
+  quantityApproved: number | null;
+  quantityIssued: number;
+  quantityReceived: number;
+  notes: string | null;
+  batches: TransferBatchResponse[];
+}
+
+interface IndentListItem {
+  id: string;
+  indentNumber: string;
+  requestingStoreId: string;
+  requestingStoreName: string;
+  issuingStoreId: string;
+  issuingStoreName: string;
+  status: StockIndentStatus;
+  requiredDate: string | null;
+  itemCount: number;
+  version: number;
+  createdAt: string;
+  issuedAt: string | null;
+  receivedAt: string | null;
+}
+
+interface IndentDetail {
+  id: string;
+  indentNumber: string;
+  requestingStoreId: string;
+  requestingStoreName: string;
+  issuingStoreId: string;
+  issuingStoreName: string;
+  status: StockIndentStatus;
+  requiredDate: string | null;
+  notes: string | null;
+  approvedBy: string | null;
+  approvedAt: string | null;
+  rejectionReason: string | null;
+  issuedBy: string | null;
+  issuedAt: string | null;
+  receivedBy: string | null;
+  receivedAt: string | null;
+  version: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  items: IndentItemResponse[];
+}
+
+interface InTransitRow {
+  indentId: string;
+  indentNumber: string;
+  fromStoreName: string;
+  toStoreId: string;
+  toStoreName: string;
+  productId: string;
+  productCode: string;
+  productName: string;
+  batchNumber: string;
+  expiryDate: string | null;
+  quantity: number;
+  issuedAt: string | null;
+}
+
+interface CursorResult<T> {
+  data: T[];
+  pagination: { cursor: string | null; hasMore: boolean };
+}
+
+interface IndentQueryOptions {
+  search?: string;
+  status?: string;
+  storeId?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+const INDENT_INCLUDE = {
+  requestingStore: { select: { id: true, name: true } },
+  issuingStore: { select: { id: true, name: true } },
+  items: {
+    include: {
+      product: { select: { id: true, code: true, name: true, genericName: true } },
+      batches: { orderBy: { expiryDate: "asc" } },
+    },
+  },
+} satisfies Prisma.StockIndentInclude;
+
+// =====================================================
+// INDENT NUMBER GENERATOR
+// =====================================================
+
+async function generateIndentNumber(
+  tenantId: string,
+  tx: Prisma.TransactionClient
+): Promise<string> {
+  const year = new Date().getFullYear();
+  const prefix = `IND-${year}-`;
+
+  const lastIndent = await tx.stockIndent.findFirst({
+    where: { tenantId, indentNumber: { startsWith: prefix } },
+    orderBy: { indentNumber: "desc" },
+    select: { indentNumber: true },
+  });
+
+  let seq = 1;
+  if (lastIndent) {
+    const num = parseInt(lastIndent.indentNumber.replace(prefix, ""), 10);
+    if (!isNaN(num)) seq = num + 1;
+  }
+
+  return `${prefix}${String(seq).padStart(5, "0")}`;
+}
+
+async function lockIndent(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  indentId: string,
+  version: number
+) {
+  await tx.$executeRaw`SELECT id FROM "StockIndent" WHERE id = ${indentId} FOR UPDATE`;
+
+  const indent = await tx.stockIndent.findFirst({
+    where: { id: indentId, tenantId, isDeleted: false },
+    include: INDENT_INCLUDE,
+  });
+  if (!indent) throw new AppError("Indent not found", 404, "INDENT_NOT_FOUND");
+  if (indent.version !== version) throw new AppError("Record modified by another user", 409, "VERSION_CONFLICT");
+  return indent;
+}
+
+// =====================================================
+// CREATE INDENT (REQUESTING STORE)
+// =====================================================
+
+export async function createStockIndent(
+  tenantId: string,
+  userId: string,
+  input: CreateStockIndentInput
+): Promise<IndentDetail> {
+  return prisma.$transaction(async (tx) => {
+    if (input.requestingStoreId === input.issuingStoreId) {
+      throw new AppError("Requesting and issuing store must be different", 400, "SAME_STORE");
+    }
+
+    const stores = await tx.store.findMany({
+      where: { id: { in: [input.requestingStoreId, input.issuingStoreId] }, tenantId, isDeleted: false, status: "ACTIVE" },
+      select: { id: true, type: true },
+    });
+    const requesting = stores.find((s) => s.id === input.requestingStoreId);
+    const issuing = stores.find((s) => s.id === input.issuingStoreId);
+    if (!requesting || !issuing) throw new AppError("Store not found or inactive", 404, "STORE_NOT_FOUND");
+    if (issuing.type !== "CENTRAL") {
+      throw new AppError("Indents can only be raised on a CENTRAL store", 400, "ISSUING_STORE_NOT_CENTRAL");
+    }
+
+    const productIds = input.items.map((i) => i.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new AppError("Each product can appear only once in an indent", 400, "DUPLICATE_PRODUCT");
+    }
+    const products = await tx.product.findMany({
+      where: { id: { in: productIds }, tenantId, isDeleted: false },
+      select: { id: true },
+    });
+    const foundIds = new Set(products.map((p) => p.id));
+    for (const pid of productIds) {
+      if (!foundIds.has(pid)) throw new AppError(`Product ${pid} not found`, 404, "PRODUCT_NOT_FOUND");
+    }
+
+    const indentNumber = await generateIndentNumber(tenantId, tx);
+
+    const indent = await tx.stockIndent.create({
+      data: {
+        tenantId,
+        indentNumber,
+        requestingStoreId: input.requestingStoreId,
+        issuingStoreId: input.issuingStoreId,
+        status: "REQUESTED",
+        requiredDate: input.requiredDate ? new Date(input.requiredDate) : null,
+        notes: input.notes || null,
+        createdBy: userId,
+        updatedBy: userId,
+        items: {
+          create: input.items.map((item) => ({
+            productId: item.productId,
+            quantityRequested: item.quantityRequested,
+            notes: item.notes || null,
+          })),
+        },
+      },
+      include: INDENT_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_INDENT",
+      entityId: indent.id,
+      action: "CREATE",
+      newValue: {
+        indentNumber,
+        requestingStoreId: input.requestingStoreId,
+        issuingStoreId: input.issuingStoreId,
+        itemCount: input.items.length,
+      },
+    });
+
+    return mapIndentDetail(indent);
+  });
+}
+
+// =====================================================
+// APPROVE INDENT (CENTRAL STORE)
+// =====================================================
+
+export async function approveStockIndent(
+  tenantId: string,
+  userId: string,
+  indentId: string,
+  input: ApproveStockIndentInput
+): Promise<IndentDetail> {
+  return prisma.$transaction(async (tx) => {
+    const indent = await lockIndent(tx, tenantId, indentId, input.version);
+    if (indent.status !== "REQUESTED") {
+      throw new AppError("Only REQUESTED indents can be approved", 400, "INDENT_INVALID_STATUS");
+    }
+
+    const approvals = new Map(input.items.map((i) => [i.itemId, i.quantityApproved]));
+    for (const itemId of approvals.keys()) {
+      if (!indent.items.some((i) => i.id === itemId)) {
+        throw new AppError(`Indent item ${itemId} not found`, 404, "INDENT_ITEM_NOT_FOUND");
+      }
+    }
+
+    let approvedTotal = 0;
+    for (const item of indent.items) {
+      // Lines left out of the payload are approved as requested
+      const quantityApproved = approvals.get(item.id) ?? item.quantityRequested;
+      if (quantityApproved > item.quantityRequested) {
+        throw new AppError(
+          `Approved quantity for ${item.product.name} exceeds requested (${item.quantityRequested})`,
+          400,
+          "APPROVED_EXCEEDS_REQUESTED"
+        );
+      }
+      approvedTotal += quantityApproved;
+      await tx.stockIndentItem.update({ where: { id: item.id }, data: { quantityApproved } });
+    }
+    if (approvedTotal === 0) {
+      throw new AppError("Approve at least one unit or reject the indent", 400, "NOTHING_APPROVED");
+    }
+
+    const updated = await tx.stockIndent.update({
+      where: { id: indentId },
+      data: {
+        status: "APPROVED",
+        approvedBy: userId,
+        approvedAt: new Date(),
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+      include: INDENT_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_INDENT",
+      entityId: indentId,
+      action: "STATUS_CHANGE",
+      oldValue: { status: "REQUESTED" },
+      newValue: { status: "APPROVED", approvedTotal },
+    });
+
+    return mapIndentDetail(updated);
+  });
+}
+
+// =====================================================
+// REJECT / CANCEL INDENT
+// =====================================================
+
+export async function rejectStockIndent(
+  tenantId: string,
+  userId: string,
+  indentId: string,
+  version: number,
+  reason: string
+): Promise<{ id: string; status: StockIndentStatus }> {
+  return prisma.$transaction(async (tx) => {
+    const indent = await lockIndent(tx, tenantId, indentId, version);
+    if (indent.status !== "REQUESTED") {
+      throw new AppError("Only REQUESTED indents can be rejected", 400, "INDENT_INVALID_STATUS");
+    }
+
+    const updated = await tx.stockIndent.update({
+      where: { id: indentId },
+      data: { status: "REJECTED", rejectionReason: reason, updatedBy: userId, version: { increment: 1 } },
+      select: { id: true, status: true },
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_INDENT",
+      entityId: indentId,
+      action: "STATUS_CHANGE",
+      oldValue: { status: "REQUESTED" },
+      newValue: { status: "REJECTED", reason },
+    });
+
+    return updated;
+  });
+}
+
+export async function cancelStockIndent(
+  tenantId: string,
+  userId: string,
+  indentId: string,
+  version: number
+): Promise<{ id: string; status: StockIndentStatus }> {
+  return prisma.$transaction(async (tx) => {
+    const indent = await lockIndent(tx, tenantId, indentId, version);
+    if (indent.status !== "REQUESTED" && indent.status !== "APPROVED") {
+      throw new AppError(`Cannot cancel a ${indent.status} indent`, 400, "INDENT_INVALID_STATUS");
+    }
+
+    const updated = await tx.stockIndent.update({
+      where: { id: indentId },
+      data: { status: "CANCELLED", updatedBy: userId, version: { increment: 1 } },
+      select: { id: true, status: true },
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_INDENT",
+      entityId: indentId,
+      action: "STATUS_CHANGE",
+      oldValue: { status: indent.status },
+      newValue: { status: "CANCELLED" },
+    });
+
+    return updated;
+  });
+}
+
+// =====================================================
+// ISSUE INDENT (FEFO PICK → TRANSFER_OUT)
+// =====================================================
+
+/**
+ * Picks approved quantities from the issuing store by nearest expiry and
+ * posts TRANSFER_OUT rows. The picked batches stay in transit until received.
+ */
+export async function issueStockIndent(
+  tenantId: string,
+  userId: string,
+  indentId: string,
+  version: number
+): Promise<IndentDetail> {
+  return prisma.$transaction(async (tx) => {
+    const indent = await lockIndent(tx, tenantId, indentId, version);
+    if (indent.status !== "APPROVED") {
+      throw new AppError("Only APPROVED indents can be issued", 400, "INDENT_INVALID_STATUS");
+    }
+
+    for (const item of indent.items) {
+      const qty = item.quantityApproved ?? 0;
+      if (qty <= 0) continue;
+
+      const result = await allocateStockFIFO(tx, {
+        tenantId,
+        storeId: indent.issuingStoreId,
+        productId: item.productId,
+        requiredQty: qty,
+        referenceNumber: indent.indentNumber,
+        userId,
+        transactionType: "TRANSFER_OUT",
+        notes: `Transfer to ${indent.requestingStore.name} against indent ${indent.indentNumber}`,
+      });
+
+      await tx.stockTransferBatch.createMany({
+        data: result.allocations.map((a) => ({
+          tenantId,
+          indentItemId: item.id,
+          batchNumber: a.batchNumber,
+          expiryDate: a.expiryDate,
+          quantityIssued: a.allocatedQty,
+          transferOutEntryId: a.ledgerEntryId,
+        })),
+      });
+
+      await tx.stockIndentItem.update({
+        where: { id: item.id },
+        data: { quantityIssued: result.totalAllocated },
+      });
+    }
+
+    const updated = await tx.stockIndent.update({
+      where: { id: indentId },
+      data: {
+        status: "ISSUED",
+        issuedBy: userId,
+        issuedAt: new Date(),
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+      include: INDENT_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_INDENT",
+      entityId: indentId,
+      action: "STATUS_CHANGE",
+      oldValue: { status: "APPROVED" },
+      newValue: {
+        status: "ISSUED",
+        batches: updated.items.reduce((n, i) => n + i.batches.length, 0),
+      },
+    });
+
+    return mapIndentDetail(updated);
+  });
+}
+
+// =====================================================
+// RECEIVE INDENT (TRANSFER_IN + SHORTFALL)
+// =====================================================
+
+/**
+ * Posts TRANSFER_IN at the requesting store for each issued batch, keeping
+ * batch number and expiry. Any quantity not received is recorded as a
+ * shortfall against the batch and needs a reason.
+ */
+export async function receiveStockIndent(
+  tenantId: string,
+  userId: string,
+  indentId: string,
+  input: ReceiveStockIndentInput
+): Promise<IndentDetail> {
+  return prisma.$transaction(async (tx) => {
+    const indent = await lockIndent(tx, tenantId, indentId, input.version);
+    if (indent.status !== "ISSUED") {
+      throw new AppError("Only ISSUED indents can be received", 400, "INDENT_INVALID_STATUS");
+    }
+
+    const batches = indent.items.flatMap((item) => item.batches.map((b) => ({ ...b, item })));
+    const receipts = new Map(input.batches.map((b) => [b.batchId, b]));
+    for (const batch of batches) {
+      if (!receipts.has(batch.id)) {
+        throw new AppError(`Received quantity missing for batch ${batch.batchNumber}`, 400, "BATCH_RECEIPT_MISSING");
+      }
+    }
+    if (receipts.size !== batches.length) {
+      throw new AppError("Receipt contains batches not issued against this indent", 400, "BATCH_NOT_IN_INDENT");
+    }
+
+    let totalShortfall = 0;
+    const receivedByItem = new Map<string, number>();
+
+    for (const batch of batches) {
+      const receipt = receipts.get(batch.id)!;
+      if (receipt.quantityReceived > batch.quantityIssued) {
+        throw new AppError(
+          `Received quantity for batch ${batch.batchNumber} exceeds issued (${batch.quantityIssued})`,
+          400,
+          "RECEIVED_EXCEEDS_ISSUED"
+        );
+      }
+
+      const shortfallQty = batch.quantityIssued - receipt.quantityReceived;
+      if (shortfallQty > 0 && !receipt.shortfallReason?.trim()) {
+        throw new AppError(
+          `Shortfall reason is required for batch ${batch.batchNumber}`,
+          400,
+          "SHORTFALL_REASON_REQUIRED"
+        );
+      }
+
+      let transferInEntryId: string | null = null;
+      if (receipt.quantityReceived > 0) {
+        const entry = await tx.inventoryLedger.create({
+          data: {
+            tenantId,
+            storeId: indent.requestingStoreId,
+            productId: batch.item.productId,
+            batchNumber: batch.batchNumber,
+            expiryDate: batch.expiryDate,
+            transactionType: "TRANSFER_IN",
+            quantityChange: receipt.quantityReceived,
+            referenceNumber: indent.indentNumber,
+            notes: `Transfer from ${indent.issuingStore.name} against indent ${indent.indentNumber}`,
+            createdBy: userId,
+          },
+        });
+        transferInEntryId = entry.id;
+      }
+
+      await tx.stockTransferBatch.update({
+        where: { id: batch.id },
+        data: {
+          quantityReceived: receipt.quantityReceived,
+          shortfallQty,
+          shortfallReason: shortfallQty > 0 ? receipt.shortfallReason!.trim() : null,
+          transferInEntryId,
+        },
+      });
+
+      totalShortfall += shortfallQty;
+      receivedByItem.set(batch.item.id, (receivedByItem.get(batch.item.id) ?? 0) + receipt.quantityReceived);
+    }
+
+    for (const [itemId, quantityReceived] of receivedByItem) {
+      await tx.stockIndentItem.update({ where: { id: itemId }, data: { quantityReceived } });
+    }
+
+    const updated = await tx.stockIndent.update({
+      where: { id: indentId },
+      data: {
+        status: "RECEIVED",
+        receivedBy: userId,
+        receivedAt: new Date(),
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+      include: INDENT_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_INDENT",
+      entityId: indentId,
+      action: "STATUS_CHANGE",
+      oldValue: { status: "ISSUED" },
+      newValue: { status: "RECEIVED", totalShortfall },
+    });
+
+    return mapIndentDetail(updated);
+  });
+}
+
+// =====================================================
+// GET INDENTS (CURSOR PAGINATION)
+// =====================================================
+
+export async function getStockIndentsCursor(
+  tenantId: string,
+  options: IndentQueryOptions = {}
+): Promise<CursorResult<IndentListItem>> {
+  const { search, status, storeId, cursor, limit = 20 } = options;
+
+  const where: Prisma.StockIndentWhereInput = {
+    tenantId,
+    isDeleted: false,
+  };
+
+  if (status && status !== "ALL") where.status = status as StockIndentStatus;
+  if (storeId) where.AND = [{ OR: [{ requestingStoreId: storeId }, { issuingStoreId: storeId }] }];
+  if (search) where.indentNumber = { contains: search, mode: "insensitive" };
+
+  const records = await prisma.stockIndent.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take: limit + 1,
+    ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    select: {
+      id: true,
+      indentNumber: true,
+      requestingStoreId: true,
+      requestingStore: { select: { name: true } },
+      issuingStoreId: true,
+      issuingStore: { select: { name: true } },
+      status: true,
+      requiredDate: true,
+      version: true,
+      createdAt: true,
+      issuedAt: true,
+      receivedAt: true,
+      _count: { select: { items: true } },
+    },
+  });
+
+  const hasMore = records.length > limit;
+  const data = hasMore ? records.slice(0, limit) : records;
+
+  return {
+    data: data.map((r) => ({
+      id: r.id,
+      indentNumber: r.indentNumber,
+      requestingStoreId: r.requestingStoreId,
+      requestingStoreName: r.requestingStore.name,
+      issuingStoreId: r.issuingStoreId,
+      issuingStoreName: r.issuingStore.name,
+      status: r.status,
+      requiredDate: r.requiredDate?.toISOString() ?? null,
+      itemCount: r._count.items,
+      version: r.version,
+      createdAt: r.createdAt.toISOString(),
+      issuedAt: r.issuedAt?.toISOString() ?? null,
+      receivedAt: r.receivedAt?.toISOString() ?? null,
+    })),
+    pagination: {
+      cursor: data.length > 0 ? data[data.length - 1].id : null,
+      hasMore,
+    },
+  };
+}
+
+// =====================================================
+// GET INDENT BY ID
+// =====================================================
+
+export async function getStockIndentById(
+  tenantId: string,
+  indentId: string
+): Promise<IndentDetail | null> {
+  const indent = await prisma.stockIndent.findFirst({
+    where: { id: indentId, tenantId, isDeleted: false },
+    include: INDENT_INCLUDE,
+  });
+
+  if (!indent) return null;
+  return mapIndentDetail(indent);
+}
+
+// =====================================================
+// IN-TRANSIT STOCK
+// =====================================================
+
+/**
+ * Batches issued but not yet received, optionally for one destination store.
+ */
+export async function getInTransitStock(
+  tenantId: string,
+  storeId?: string
+): Promise<InTransitRow[]> {
+  const batches = await prisma.stockTransferBatch.findMany({
+    where: {
+      tenantId,
+      quantityReceived: null,
+      indentItem: {
+        indent: {
+          status: "ISSUED",
+          isDeleted: false,
+          ...(storeId ? { requestingStoreId: storeId } : {}),
+        },
+      },
+    },
+    orderBy: [{ createdAt: "asc" }, { expiryDate: "asc" }],
+    select: {
+      batchNumber: true,
+      expiryDate: true,
+      quantityIssued: true,
+      indentItem: {
+        select: {
+          product: { select: { id: true, code: true, name: true } },
+          indent: {
+            select: {
+              id: true,
+              indentNumber: true,
+              issuedAt: true,
+              requestingStoreId: true,
+              requestingStore: { select: { name: true } },
+              issuingStore: { select: { name: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return batches.map((b) => ({
+    indentId: b.indentItem.indent.id,
+    indentNumber: b.indentItem.indent.indentNumber,
+    fromStoreName: b.indentItem.indent.issuingStore.name,
+    toStoreId: b.indentItem.indent.requestingStoreId,
+    toStoreName: b.indentItem.indent.requestingStore.name,
+    productId: b.indentItem.product.id,
+    productCode: b.indentItem.product.code,
+    productName: b.indentItem.product.name,
+    batchNumber: b.batchNumber,
+    expiryDate: b.expiryDate?.toISOString() ?? null,
+    quantity: b.quantityIssued,
+    issuedAt: b.indentItem.indent.issuedAt?.toISOString() ?? null,
+  }));
+}
+
+// =====================================================
+// MAPPER
+// =====================================================
+
+type IndentWithRelations = Prisma.StockIndentGetPayload<{ include: typeof INDENT_INCLUDE }>;
+
+function mapIndentDetail(indent: IndentWithRelations): IndentDetail {
+  return {
+    id: indent.id,
+    indentNumber: indent.indentNumber,
+    requestingStoreId: indent.requestingStoreId,
+    requestingStoreName: indent.requestingStore.name,
+    issuingStoreId: indent.issuingStoreId,
+    issuingStoreName: indent.issuingStore.name,
+    status: indent.status,
+    requiredDate: indent.requiredDate?.toISOString() ?? null,
+    notes: indent.notes,
+    approvedBy: indent.approvedBy,
+    approvedAt: indent.approvedAt?.toISOString() ?? null,
+    rejectionReason: indent.rejectionReason,
+    issuedBy: indent.issuedBy,
+    issuedAt: indent.issuedAt?.toISOString() ?? null,
+    receivedBy: indent.receivedBy,
+    receivedAt: indent.receivedAt?.toISOString() ?? null,
+    version: indent.version,
+    createdBy: indent.createdBy,
+    createdAt: indent.createdAt.toISOString(),
+    updatedAt: indent.updatedAt.toISOString(),
+    items: indent.items.map((item) => ({
+      id: item.id,
+      productId: item.productId,
+      productCode: item.product.code,
+      productName: item.product.name,
+      genericName: item.product.genericName,
+      quantityRequested: item.quantityRequested,
+      quantityApproved: item.quantityApproved,
+      quantityIssued: item.quantityIssued,
+      quantityReceived: item.quantityReceived,
+      notes: item.notes,
+      batches: item.batches.map((b) => ({
+        id: b.id,
+        batchNumber: b.batchNumber,
+        expiryDate: b.expiryDate?.toISOString() ?? null,
+        quantityIssued: b.quantityIssued,
+        quantityReceived: b.quantityReceived,
+        shortfallQty: b.shortfallQty,
+        shortfallReason: b.shortfallReason,
+      })),
+    })),
+  };
+}
@@ -0,0 +1,719 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import type { Prisma, StockTakeStatus, ScheduleType } from "@/app/generated/prisma/client";
+import { Prisma as PrismaNamespace } from "@/app/generated/prisma/client";
+import type { StartStockTakeInput, StockTakeCountsInput } from "@/lib/schemas/pharmacy-schema";
+
+const Decimal = PrismaNamespace.Decimal;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface StockTakeItemResponse {
+  id: string;
+  productId: string;
+  productCode: string;
+  productName: string;
+  scheduleType: ScheduleType;
+  rackLocation: string | null;
+  batchNumber: string;
+  expiryDate: string | null;
+  unitCost: string;
+  frozenQty: number;
+  movementQty: number;
+  expectedQty: number;
+  countedQty: number | null;
+  countedBy: string | null;
+  countedAt: string | null;
+  remarks: string | null;
+  varianceQty: number | null;
+  varianceValue: string | null;
+  soldDuringCount: boolean;
+  adjustmentQty: number | null;
+}
+
+interface StockTakeSummary {
+  totalItems: number;
+  countedItems: number;
+  flaggedItems: number;
+  shortageValue: string;
+  excessValue: string;
+  netVarianceValue: string;
+}
+
+interface StockTakeListItem {
+  id: string;
+  stockTakeNumber: string;
+  storeId: string;
+  storeName: string;
+  status: StockTakeStatus;
+  scope: string;
+  itemCount: number;
+  countedCount: number;
+  version: number;
+  frozenAt: string;
+  approvedAt: string | null;
+}
+
+interface StockTakeDetail {
+  id: string;
+  stockTakeNumber: string;
+  storeId: string;
+  storeName: string;
+  status: StockTakeStatus;
+  rackLocation: string | null;
+  category: string | null;
+  scheduleType: ScheduleType | null;
+  frozenAt: string;
+  notes: string | null;
+  submittedBy: string | null;
+  submittedAt: string | null;
+  approvedBy: string | null;
+  approvedAt: string | null;
+  rejectionReason: string | null;
+  version: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  summary: StockTakeSummary;
+  items: StockTakeItemResponse[];
+}
+
+interface CursorResult<T> {
+  data: T[];
+  pagination: { cursor: string | null; hasMore: boolean };
+}
+
+interface StockTakeQueryOptions {
+  search?: string;
+  status?: string;
+  storeId?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+/** Ledger movement on a frozen batch after the session started */
+interface BatchMovement {
+  quantity: number;
+  sold: boolean;
+}
+
+const STOCK_TAKE_INCLUDE = {
+  store: { select: { id: true, name: true } },
+  items: {
+    include: { product: { select: { code: true, name: true, scheduleType: true, rackLocation: true } } },
+    orderBy: [{ product: { name: "asc" } }, { batchNumber: "asc" }],
+  },
+} satisfies Prisma.StockTakeInclude;
+
+type StockTakeWithRelations = Prisma.StockTakeGetPayload<{ include: typeof STOCK_TAKE_INCLUDE }>;
+
+// =====================================================
+// STOCK TAKE NUMBER GENERATOR
+// =====================================================
+
+async function generateStockTakeNumber(
+  tenantId: string,
+  tx: Prisma.TransactionClient
+): Promise<string> {
+  const year = new Date().getFullYear();
+  const prefix = `STK-${year}-`;
+
+  const last = await tx.stockTake.findFirst({
+    where: { tenantId, stockTakeNumber: { startsWith: prefix } },
+    orderBy: { stockTakeNumber: "desc" },
+    select: { stockTakeNumber: true },
+  });
+
+  let seq = 1;
+  if (last) {
+    const num = parseInt(last.stockTakeNumber.replace(prefix, ""), 10);
+    if (!isNaN(num)) seq = num + 1;
+  }
+
+  return `${prefix}${String(seq).padStart(5, "0")}`;
+}
+
+async function lockStockTake(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  stockTakeId: string,
+  expectedStatus: StockTakeStatus[],
+  version?: number
+) {
+  await tx.$executeRaw`SELECT id FROM "StockTake" WHERE id = ${stockTakeId} FOR UPDATE`;
+
+  const stockTake = await tx.stockTake.findFirst({
+    where: { id: stockTakeId, tenantId },
+    include: STOCK_TAKE_INCLUDE,
+  });
+  if (!stockTake) throw new AppError("Stock take not found", 404, "STOCK_TAKE_NOT_FOUND");
+  if (!expectedStatus.includes(stockTake.status)) {
+    throw new AppError(`Stock take is ${stockTake.status}`, 400, "STOCK_TAKE_INVALID_STATUS");
+  }
+  if (version !== undefined && stockTake.version !== version) {
+    throw new AppError("Record modified by another user", 409, "VERSION_CONFLICT");
+  }
+  return stockTake;
+}
+
+// =====================================================
+// MOVEMENTS SINCE FREEZE
+// =====================================================
+
+/**
+ * Sums ledger entries on the session's batches posted after the freeze
+ * (up to approval, once approved), excluding the session's own adjustments.
+ * A counted batch only takes movements up to its `countedAt`: anything later
+ * is already reflected on the shelf and must not be adjusted again.
+ * Keyed by `productId|batchNumber`.
+ */
+async function getMovementsSinceFreeze(
+  client: Prisma.TransactionClient,
+  stockTake: StockTakeWithRelations
+): Promise<Map<string, BatchMovement>> {
+  const productIds = [...new Set(stockTake.items.map((i) => i.productId))];
+  if (productIds.length === 0) return new Map();
+
+  const rows = await client.inventoryLedger.findMany({
+    where: {
+      tenantId: stockTake.tenantId,
+      storeId: stockTake.storeId,
+      productId: { in: productIds },
+      createdAt: { gt: stockTake.frozenAt, ...(stockTake.approvedAt ? { lte: stockTake.approvedAt } : {}) },
+      OR: [{ referenceNumber: null }, { referenceNumber: { not: stockTake.stockTakeNumber } }],
+    },
+    select: { productId: true, batchNumber: true, transactionType: true, quantityChange: true, createdAt: true },
+  });
+
+  const countedAt = new Map(stockTake.items.map((i) => [`${i.productId}|${i.batchNumber}`, i.countedAt]));
+  const movements = new Map<string, BatchMovement>();
+  for (const row of rows) {
+    const key = `${row.productId}|${row.batchNumber}`;
+    if (!countedAt.has(key)) continue;
+    const cutoff = countedAt.get(key);
+    if (cutoff && row.createdAt > cutoff) continue;
+
+    const entry = movements.get(key) ?? { quantity: 0, sold: false };
+    entry.quantity += row.quantityChange;
+    if (row.transactionType === "SALE_OUT") entry.sold = true;
+    movements.set(key, entry);
+  }
+  return movements;
+}
+
+// =====================================================
+// START STOCK TAKE (FREEZE SYSTEM QUANTITIES)
+// =====================================================
+
+export async function startStockTake(
+  tenantId: string,
+  userId: string,
+  input: StartStockTakeInput
+): Promise<StockTakeDetail> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT id FROM "Store" WHERE id = ${input.storeId} FOR UPDATE`;
+
+    const store = await tx.store.findFirst({
+      where: { id: input.storeId, tenantId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!store) throw new AppError("Store not found", 404, "STORE_NOT_FOUND");
+
+    const open = await tx.stockTake.findFirst({
+      where: { tenantId, storeId: input.storeId, status: { in: ["COUNTING", "SUBMITTED"] } },
+      select: { stockTakeNumber: true },
+    });
+    if (open) {
+      throw new AppError(`Stock take ${open.stockTakeNumber} is still open for this store`, 409, "STOCK_TAKE_IN_PROGRESS");
+    }
+
+    const productWhere: Prisma.ProductWhereInput = { tenantId, isDeleted: false };
+    if (input.rackLocation) productWhere.rackLocation = { equals: input.rackLocation, mode: "insensitive" };
+    if (input.category) productWhere.category = { equals: input.category, mode: "insensitive" };
+    if (input.scheduleType) productWhere.scheduleType = input.scheduleType;
+
+    const products = await tx.product.findMany({
+      where: productWhere,
+      select: { id: true, purchasePrice: true },
+    });
+    const productMap = new Map(products.map((p) => [p.id, p]));
+
+    const batchStock = await tx.inventoryLedger.groupBy({
+      by: ["productId", "batchNumber"],
+      where: { tenantId, storeId: input.storeId, productId: { in: [...productMap.keys()] } },
+      _sum: { quantityChange: true },
+      _max: { expiryDate: true },
+    });
+
+    const itemsData = batchStock
+      .filter((b) => (b._sum.quantityChange ?? 0) !== 0)
+      .map((b) => ({
+        tenantId,
+        productId: b.productId,
+        batchNumber: b.batchNumber,
+        expiryDate: b._max.expiryDate,
+        frozenQty: b._sum.quantityChange ?? 0,
+        unitCost: productMap.get(b.productId)?.purchasePrice ?? new Decimal(0),
+      }));
+    if (itemsData.length === 0) {
+      throw new AppError("No stock on hand matches the selected filters", 400, "NO_STOCK_TO_COUNT");
+    }
+
+    const stockTakeNumber = await generateStockTakeNumber(tenantId, tx);
+
+    const stockTake = await tx.stockTake.create({
+      data: {
+        tenantId,
+        stockTakeNumber,
+        storeId: input.storeId,
+        status: "COUNTING",
+        rackLocation: input.rackLocation || null,
+        category: input.category || null,
+        scheduleType: input.scheduleType ?? null,
+        notes: input.notes || null,
+        createdBy: userId,
+        updatedBy: userId,
+        items: { create: itemsData },
+      },
+      include: STOCK_TAKE_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_TAKE",
+      entityId: stockTake.id,
+      action: "CREATE",
+      newValue: {
+        stockTakeNumber,
+        storeId: input.storeId,
+        rackLocation: input.rackLocation || null,
+        category: input.category || null,
+        scheduleType: input.scheduleType ?? null,
+        batches: itemsData.length,
+      },
+    });
+
+    return mapStockTakeDetail(stockTake, new Map());
+  });
+}
+
+// =====================================================
+// RECORD COUNTS
+// =====================================================
+
+/**
+ * Saves physical counts for some lines. Counters may work on separate devices,
+ * so this only touches the submitted lines and does not check the session version;
+ * the last count saved for a line wins.
+ */
+export async function recordStockTakeCounts(
+  tenantId: string,
+  userId: string,
+  stockTakeId: string,
+  input: StockTakeCountsInput
+): Promise<StockTakeDetail> {
+  return prisma.$transaction(async (tx) => {
+    const stockTake = await lockStockTake(tx, tenantId, stockTakeId, ["COUNTING"]);
+
+    const itemIds = new Set(stockTake.items.map((i) => i.id));
+    const now = new Date();
+    for (const count of input.counts) {
+      if (!itemIds.has(count.itemId)) {
+        throw new AppError("Count line does not belong to this stock take", 400, "STOCK_TAKE_ITEM_MISMATCH");
+      }
+      await tx.stockTakeItem.update({
+        where: { id: count.itemId },
+        data: {
+          countedQty: count.countedQty,
+          countedBy: userId,
+          countedAt: now,
+          remarks: count.remarks || null,
+        },
+      });
+    }
+
+    const updated = await tx.stockTake.update({
+      where: { id: stockTakeId },
+      data: { updatedBy: userId },
+      include: STOCK_TAKE_INCLUDE,
+    });
+
+    return mapStockTakeDetail(updated, await getMovementsSinceFreeze(tx, updated));
+  });
+}
+
+// =====================================================
+// SUBMIT FOR VARIANCE APPROVAL
+// =====================================================
+
+export async function submitStockTake(
+  tenantId: string,
+  userId: string,
+  stockTakeId: string,
+  version: number
+): Promise<StockTakeDetail> {
+  return prisma.$transaction(async (tx) => {
+    const stockTake = await lockStockTake(tx, tenantId, stockTakeId, ["COUNTING"], version);
+    if (!stockTake.items.some((i) => i.countedQty !== null)) {
+      throw new AppError("Enter at least one physical count before submitting", 400, "NOTHING_COUNTED");
+    }
+
+    const updated = await tx.stockTake.update({
+      where: { id: stockTakeId },
+      data: {
+        status: "SUBMITTED",
+        submittedBy: userId,
+        submittedAt: new Date(),
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+      include: STOCK_TAKE_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_TAKE",
+      entityId: stockTakeId,
+      action: "UPDATE",
+      oldValue: { status: "COUNTING" },
+      newValue: { status: "SUBMITTED" },
+    });
+
+    return mapStockTakeDetail(updated, await getMovementsSinceFreeze(tx, updated));
+  });
+}
+
+// =====================================================
+// APPROVE (POST ADJUSTMENT LEDGER ENTRIES)
+// =====================================================
+
+/**
+ * Posts `counted - (frozen + movements since freeze)` per counted batch as an
+ * ADJUSTMENT entry referencing the stock take number. Uncounted lines are left as is.
+ */
+export async function approveStockTake(
+  tenantId: string,
+  userId: string,
+  stockTakeId: string,
+  version: number
+): Promise<StockTakeDetail> {
+  return prisma.$transaction(async (tx) => {
+    const stockTake = await lockStockTake(tx, tenantId, stockTakeId, ["SUBMITTED"], version);
+
+    const counted = stockTake.items.filter((i) => i.countedQty !== null);
+    for (const productId of [...new Set(counted.map((i) => i.productId))].sort()) {
+      await tx.$executeRaw`SELECT id FROM "Product" WHERE id = ${productId} FOR UPDATE`;
+    }
+
+    const movements = await getMovementsSinceFreeze(tx, stockTake);
+    let netValue = new Decimal(0);
+    let adjustedLines = 0;
+
+    for (const item of counted) {
+      const expected = item.frozenQty + (movements.get(`${item.productId}|${item.batchNumber}`)?.quantity ?? 0);
+      const adjustment = item.countedQty! - expected;
+
+      let ledgerEntryId: string | null = null;
+      if (adjustment !== 0) {
+        const entry = await tx.inventoryLedger.create({
+          data: {
+            tenantId,
+            storeId: stockTake.storeId,
+            productId: item.productId,
+            batchNumber: item.batchNumber,
+            expiryDate: item.expiryDate,
+            transactionType: "ADJUSTMENT",
+            quantityChange: adjustment,
+            referenceNumber: stockTake.stockTakeNumber,
+            notes: `Stock take variance (system ${expected}, counted ${item.countedQty})`,
+            createdBy: userId,
+          },
+          select: { id: true },
+        });
+        ledgerEntryId = entry.id;
+        netValue = netValue.add(item.unitCost.mul(adjustment));
+        adjustedLines++;
+      }
+
+      await tx.stockTakeItem.update({
+        where: { id: item.id },
+        data: { adjustmentQty: adjustment, ledgerEntryId },
+      });
+    }
+
+    const updated = await tx.stockTake.update({
+      where: { id: stockTakeId },
+      data: {
+        status: "APPROVED",
+        approvedBy: userId,
+        approvedAt: new Date(),
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+      include: STOCK_TAKE_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_TAKE",
+      entityId: stockTakeId,
+      action: "UPDATE",
+      oldValue: { status: "SUBMITTED" },
+      newValue: { status: "APPROVED", adjustedLines, netVarianceValue: netValue.toFixed(2) },
+    });
+
+    return mapStockTakeDetail(updated, await getMovementsSinceFreeze(tx, updated));
+  });
+}
+
+// =====================================================
+// SEND BACK FOR RECOUNT
+// =====================================================
+
+export async function rejectStockTake(
+  tenantId: string,
+  userId: string,
+  stockTakeId: string,
+  version: number,
+  reason: string
+): Promise<StockTakeDetail> {
+  return prisma.$transaction(async (tx) => {
+    await lockStockTake(tx, tenantId, stockTakeId, ["SUBMITTED"], version);
+
+    const updated = await tx.stockTake.update({
+      where: { id: stockTakeId },
+      data: {
+        status: "COUNTING",
+        rejectionReason: reason,
+        submittedBy: null,
+        submittedAt: null,
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+      include: STOCK_TAKE_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_TAKE",
+      entityId: stockTakeId,
+      action: "UPDATE",
+      oldValue: { status: "SUBMITTED" },
+      newValue: { status: "COUNTING", rejectionReason: reason },
+    });
+
+    return mapStockTakeDetail(updated, await getMovementsSinceFreeze(tx, updated));
+  });
+}
+
+// =====================================================
+// CANCEL STOCK TAKE
+// =====================================================
+
+export async function cancelStockTake(
+  tenantId: string,
+  userId: string,
+  stockTakeId: string,
+  version: number
+): Promise<StockTakeDetail> {
+  return prisma.$transaction(async (tx) => {
+    const stockTake = await lockStockTake(tx, tenantId, stockTakeId, ["COUNTING", "SUBMITTED"], version);
+
+    const updated = await tx.stockTake.update({
+      where: { id: stockTakeId },
+      data: { status: "CANCELLED", updatedBy: userId, version: { increment: 1 } },
+      include: STOCK_TAKE_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_TAKE",
+      entityId: stockTakeId,
+      action: "UPDATE",
+      oldValue: { status: stockTake.status },
+      newValue: { status: "CANCELLED" },
+    });
+
+    return mapStockTakeDetail(updated, new Map());
+  });
+}
+
+// =====================================================
+// GET STOCK TAKES (CURSOR PAGINATION)
+// =====================================================
+
+export async function getStockTakesCursor(
+  tenantId: string,
+  options: StockTakeQueryOptions = {}
+): Promise<CursorResult<StockTakeListItem>> {
+  const { search, status, storeId, cursor, limit = 20 } = options;
+
+  const where: Prisma.StockTakeWhereInput = { tenantId };
+  if (status && status !== "ALL") where.status = status as StockTakeStatus;
+  if (storeId) where.storeId = storeId;
+  if (search) where.stockTakeNumber = { contains: search, mode: "insensitive" };
+
+  const records = await prisma.stockTake.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take: limit + 1,
+    ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    select: {
+      id: true,
+      stockTakeNumber: true,
+      storeId: true,
+      store: { select: { name: true } },
+      status: true,
+      rackLocation: true,
+      category: true,
+      scheduleType: true,
+      version: true,
+      frozenAt: true,
+      approvedAt: true,
+      _count: { select: { items: true } },
+    },
+  });
+
+  const hasMore = records.length > limit;
+  const data = hasMore ? records.slice(0, limit) : records;
+
+  const countedRows = await prisma.stockTakeItem.groupBy({
+    by: ["stockTakeId"],
+    where: { stockTakeId: { in: data.map((r) => r.id) }, countedQty: { not: null } },
+    _count: { _all: true },
+  });
+  const countedMap = new Map(countedRows.map((r) => [r.stockTakeId, r._count._all]));
+
+  return {
+    data: data.map((r) => ({
+      id: r.id,
+      stockTakeNumber: r.stockTakeNumber,
+      storeId: r.storeId,
+      storeName: r.store.name,
+      status: r.status,
+      scope: describeScope(r),
+      itemCount: r._count.items,
+      countedCount: countedMap.get(r.id) ?? 0,
+      version: r.version,
+      frozenAt: r.frozenAt.toISOString(),
+      approvedAt: r.approvedAt?.toISOString() ?? null,
+    })),
+    pagination: {
+      cursor: data.length > 0 ? data[data.length - 1].id : null,
+      hasMore,
+    },
+  };
+}
+
+// =====================================================
+// GET STOCK TAKE BY ID (VARIANCE REPORT)
+// =====================================================
+
+export async function getStockTakeById(
+  tenantId: string,
+  stockTakeId: string
+): Promise<StockTakeDetail | null> {
+  const stockTake = await prisma.stockTake.findFirst({
+    where: { id: stockTakeId, tenantId },
+    include: STOCK_TAKE_INCLUDE,
+  });
+
+  if (!stockTake) return null;
+  const movements = stockTake.status === "CANCELLED" ? new Map() : await getMovementsSinceFreeze(prisma, stockTake);
+  return mapStockTakeDetail(stockTake, movements);
+}
+
+// =====================================================
+// MAPPER
+// =====================================================
+
+function describeScope(s: { rackLocation: string | null; category: string | null; scheduleType: ScheduleType | null }): string {
+  const parts = [
+    s.rackLocation && `Rack ${s.rackLocation}`,
+    s.category,
+    s.scheduleType && `Schedule ${s.scheduleType}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "Full store";
+}
+
+function mapStockTakeDetail(st: StockTakeWithRelations, movements: Map<string, BatchMovement>): StockTakeDetail {
+  let shortage = new Decimal(0);
+  let excess = new Decimal(0);
+  let countedItems = 0;
+  let flaggedItems = 0;
+
+  const items = st.items.map((item) => {
+    const movement = movements.get(`${item.productId}|${item.batchNumber}`);
+    const movementQty = movement?.quantity ?? 0;
+    const expectedQty = item.frozenQty + movementQty;
+    const varianceQty = item.adjustmentQty ?? (item.countedQty !== null ? item.countedQty - expectedQty : null);
+    const varianceValue = varianceQty !== null ? item.unitCost.mul(varianceQty) : null;
+
+    if (item.countedQty !== null) countedItems++;
+    if (movementQty !== 0 || movement?.sold) flaggedItems++;
+    if (varianceValue?.isNegative()) shortage = shortage.add(varianceValue.abs());
+    else if (varianceValue) excess = excess.add(varianceValue);
+
+    return {
+      id: item.id,
+      productId: item.productId,
+      productCode: item.product.code,
+      productName: item.product.name,
+      scheduleType: item.product.scheduleType,
+      rackLocation: item.product.rackLocation,
+      batchNumber: item.batchNumber,
+      expiryDate: item.expiryDate?.toISOString() ?? null,
+      unitCost: item.unitCost.toString(),
+      frozenQty: item.frozenQty,
+      movementQty,
+      expectedQty,
+      countedQty: item.countedQty,
+      countedBy: item.countedBy,
+      countedAt: item.countedAt?.toISOString() ?? null,
+      remarks: item.remarks,
+      varianceQty,
+      varianceValue: varianceValue?.toFixed(2) ?? null,
+      soldDuringCount: movement?.sold ?? false,
+      adjustmentQty: item.adjustmentQty,
+    };
+  });
+
+  return {
+    id: st.id,
+    stockTakeNumber: st.stockTakeNumber,
+    storeId: st.storeId,
+    storeName: st.store.name,
+    status: st.status,
+    rackLocation: st.rackLocation,
+    category: st.category,
+    scheduleType: st.scheduleType,
+    frozenAt: st.frozenAt.toISOString(),
+    notes: st.notes,
+    submittedBy: st.submittedBy,
+    submittedAt: st.submittedAt?.toISOString() ?? null,
+    approvedBy: st.approvedBy,
+    approvedAt: st.approvedAt?.toISOString() ?? null,
+    rejectionReason: st.rejectionReason,
+    version: st.version,
+    createdBy: st.createdBy,
+    createdAt: st.createdAt.toISOString(),
+    updatedAt: st.updatedAt.toISOString(),
+    summary: {
+      totalItems: st.items.length,
+      countedItems,
+      flaggedItems,
+      shortageValue: shortage.toFixed(2),
+      excessValue: excess.toFixed(2),
+      netVarianceValue: excess.sub(shortage).toFixed(2),
+    },
+    items,
+  };
+}
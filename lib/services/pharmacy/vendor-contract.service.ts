@@ -0,0 +1,363 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import { startOfDay, endOfDay } from "date-fns";
+import type { Prisma } from "@/app/generated/prisma/client";
+import type {
+  CreateVendorRateContractInput,
+  UpdateVendorRateContractInput,
+} from "@/lib/schemas/pharmacy-procurement-schema";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+type ContractValidity = "ACTIVE" | "UPCOMING" | "EXPIRED";
+
+interface VendorRateContractResponse {
+  id: string;
+  vendorId: string;
+  vendorName: string;
+  vendorCode: string;
+  productId: string;
+  productCode: string;
+  productName: string;
+  unitCost: string;
+  validFrom: string;
+  validTo: string;
+  validity: ContractValidity;
+  notes: string | null;
+  version: number;
+  updatedAt: string;
+}
+
+interface ActiveContractRate {
+  contractId: string;
+  vendorId: string;
+  productId: string;
+  unitCost: string;
+  validTo: string;
+}
+
+interface CursorResult<T> {
+  data: T[];
+  pagination: { cursor: string | null; hasMore: boolean };
+}
+
+interface ContractQueryOptions {
+  search?: string;
+  vendorId?: string;
+  productId?: string;
+  validity?: ContractValidity;
+  cursor?: string;
+  limit?: number;
+}
+
+const CONTRACT_INCLUDE = {
+  vendor: { select: { name: true, code: true } },
+  product: { select: { code: true, name: true } },
+} satisfies Prisma.VendorRateContractInclude;
+
+type ContractWithRelations = Prisma.VendorRateContractGetPayload<{ include: typeof CONTRACT_INCLUDE }>;
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * Contracts run from the start of `validFrom` to the end of `validTo`.
+ */
+function parseValidity(validFrom: string, validTo: string): { validFrom: Date; validTo: Date } {
+  const from = startOfDay(new Date(validFrom));
+  const to = endOfDay(new Date(validTo));
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new AppError("Invalid validity dates", 400, "INVALID_VALIDITY");
+  }
+  if (to < from) {
+    throw new AppError("Valid to date must be on or after valid from date", 400, "INVALID_VALIDITY");
+  }
+  return { validFrom: from, validTo: to };
+}
+
+/**
+ * Only one contract may be in force for a vendor and product on any day.
+ */
+async function assertNoOverlap(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  vendorId: string,
+  productId: string,
+  validFrom: Date,
+  validTo: Date,
+  excludeId?: string
+): Promise<void> {
+  const overlapping = await tx.vendorRateContract.findFirst({
+    where: {
+      tenantId,
+      vendorId,
+      productId,
+      isDeleted: false,
+      validFrom: { lte: validTo },
+      validTo: { gte: validFrom },
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+    },
+    select: { validFrom: true, validTo: true },
+  });
+  if (overlapping) {
+    throw new AppError(
+      `A contract for this vendor and product already runs ${overlapping.validFrom.toISOString().split("T")[0]} to ${overlapping.validTo.toISOString().split("T")[0]}`,
+      409,
+      "CONTRACT_OVERLAP"
+    );
+  }
+}
+
+function validityOf(c: { validFrom: Date; validTo: Date }, now: Date): ContractValidity {
+  if (c.validFrom > now) return "UPCOMING";
+  if (c.validTo < now) return "EXPIRED";
+  return "ACTIVE";
+}
+
+// =====================================================
+// CREATE CONTRACT
+// =====================================================
+
+export async function createVendorRateContract(
+  tenantId: string,
+  userId: string,
+  input: CreateVendorRateContractInput
+): Promise<VendorRateContractResponse> {
+  const { validFrom, validTo } = parseValidity(input.validFrom, input.validTo);
+
+  return prisma.$transaction(async (tx) => {
+    const vendor = await tx.vendor.findFirst({
+      where: { id: input.vendorId, tenantId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!vendor) throw new AppError("Vendor not found", 404, "VENDOR_NOT_FOUND");
+
+    const product = await tx.product.findFirst({
+      where: { id: input.productId, tenantId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!product) throw new AppError("Product not found", 404, "PRODUCT_NOT_FOUND");
+
+    await assertNoOverlap(tx, tenantId, input.vendorId, input.productId, validFrom, validTo);
+
+    const contract = await tx.vendorRateContract.create({
+      data: {
+        tenantId,
+        vendorId: input.vendorId,
+        productId: input.productId,
+        unitCost: input.unitCost,
+        validFrom,
+        validTo,
+        notes: input.notes || null,
+        createdBy: userId,
+        updatedBy: userId,
+      },
+      include: CONTRACT_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "VENDOR_RATE_CONTRACT",
+      entityId: contract.id,
+      action: "CREATE",
+      newValue: { vendorId: input.vendorId, productId: input.productId, unitCost: input.unitCost, validFrom, validTo },
+    });
+
+    return mapContract(contract, new Date());
+  });
+}
+
+// =====================================================
+// UPDATE CONTRACT
+// =====================================================
+
+export async function updateVendorRateContract(
+  tenantId: string,
+  userId: string,
+  contractId: string,
+  input: UpdateVendorRateContractInput
+): Promise<VendorRateContractResponse> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.vendorRateContract.findFirst({
+      where: { id: contractId, tenantId, isDeleted: false },
+    });
+    if (!existing) throw new AppError("Rate contract not found", 404, "CONTRACT_NOT_FOUND");
+    if (existing.version !== input.version) {
+      throw new AppError("Record modified by another user", 409, "VERSION_CONFLICT");
+    }
+
+    const { validFrom, validTo } = parseValidity(
+      input.validFrom || existing.validFrom.toISOString(),
+      input.validTo || existing.validTo.toISOString()
+    );
+    await assertNoOverlap(tx, tenantId, existing.vendorId, existing.productId, validFrom, validTo, contractId);
+
+    const contract = await tx.vendorRateContract.update({
+      where: { id: contractId },
+      data: {
+        unitCost: input.unitCost ?? undefined,
+        validFrom,
+        validTo,
+        notes: input.notes !== undefined ? input.notes || null : undefined,
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+      include: CONTRACT_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "VENDOR_RATE_CONTRACT",
+      entityId: contractId,
+      action: "UPDATE",
+      oldValue: { unitCost: existing.unitCost.toString(), validFrom: existing.validFrom, validTo: existing.validTo },
+      newValue: { unitCost: contract.unitCost.toString(), validFrom, validTo },
+    });
+
+    return mapContract(contract, new Date());
+  });
+}
+
+// =====================================================
+// DELETE CONTRACT (SOFT)
+// =====================================================
+
+export async function deleteVendorRateContract(
+  tenantId: string,
+  userId: string,
+  contractId: string
+): Promise<void> {
+  const existing = await prisma.vendorRateContract.findFirst({
+    where: { id: contractId, tenantId, isDeleted: false },
+    select: { id: true },
+  });
+  if (!existing) throw new AppError("Rate contract not found", 404, "CONTRACT_NOT_FOUND");
+
+  await prisma.vendorRateContract.update({
+    where: { id: contractId },
+    data: { isDeleted: true, updatedBy: userId, version: { increment: 1 } },
+  });
+
+  await createAuditLog({
+    tenantId,
+    performedBy: userId,
+    entityType: "VENDOR_RATE_CONTRACT",
+    entityId: contractId,
+    action: "DELETE",
+    newValue: { isDeleted: true },
+  });
+}
+
+// =====================================================
+// GET CONTRACTS (CURSOR PAGINATION)
+// =====================================================
+
+export async function getVendorRateContractsCursor(
+  tenantId: string,
+  options: ContractQueryOptions = {}
+): Promise<CursorResult<VendorRateContractResponse>> {
+  const { search, vendorId, productId, validity, cursor, limit = 20 } = options;
+  const now = new Date();
+
+  const where: Prisma.VendorRateContractWhereInput = { tenantId, isDeleted: false };
+  if (vendorId) where.vendorId = vendorId;
+  if (productId) where.productId = productId;
+  if (validity === "ACTIVE") {
+    where.validFrom = { lte: now };
+    where.validTo = { gte: now };
+  } else if (validity === "UPCOMING") {
+    where.validFrom = { gt: now };
+  } else if (validity === "EXPIRED") {
+    where.validTo = { lt: now };
+  }
+  if (search) {
+    where.OR = [
+      { product: { name: { contains: search, mode: "insensitive" } } },
+      { product: { code: { contains: search, mode: "insensitive" } } },
+      { vendor: { name: { contains: search, mode: "insensitive" } } },
+    ];
+  }
+
+  const records = await prisma.vendorRateContract.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take: limit + 1,
+    ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    include: CONTRACT_INCLUDE,
+  });
+
+  const hasMore = records.length > limit;
+  const data = hasMore ? records.slice(0, limit) : records;
+
+  return {
+    data: data.map((c) => mapContract(c, now)),
+    pagination: {
+      cursor: data.length > 0 ? data[data.length - 1].id : null,
+      hasMore,
+    },
+  };
+}
+
+// =====================================================
+// ACTIVE CONTRACT RATES
+// =====================================================
+
+/**
+ * Contract rates in force on `on` for the given vendors, used to default
+ * purchase order prices.
+ */
+export async function getActiveContractRates(
+  tenantId: string,
+  vendorIds: string[],
+  on: Date = new Date()
+): Promise<ActiveContractRate[]> {
+  if (vendorIds.length === 0) return [];
+
+  const contracts = await prisma.vendorRateContract.findMany({
+    where: {
+      tenantId,
+      vendorId: { in: vendorIds },
+      isDeleted: false,
+      validFrom: { lte: on },
+      validTo: { gte: on },
+    },
+    select: { id: true, vendorId: true, productId: true, unitCost: true, validTo: true },
+  });
+
+  return contracts.map((c) => ({
+    contractId: c.id,
+    vendorId: c.vendorId,
+    productId: c.productId,
+    unitCost: c.unitCost.toString(),
+    validTo: c.validTo.toISOString(),
+  }));
+}
+
+// =====================================================
+// MAPPER
+// =====================================================
+
+function mapContract(c: ContractWithRelations, now: Date): VendorRateContractResponse {
+  return {
+    id: c.id,
+    vendorId: c.vendorId,
+    vendorName: c.vendor.name,
+    vendorCode: c.vendor.code,
+    productId: c.productId,
+    productCode: c.product.code,
+    productName: c.product.name,
+    unitCost: c.unitCost.toString(),
+    validFrom: c.validFrom.toISOString(),
+    validTo: c.validTo.toISOString(),
+    validity: validityOf(c, now),
+    notes: c.notes,
+    version: c.version,
+    updatedAt: c.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,917 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import type { Prisma, VendorInvoiceStatus } from "@/app/generated/prisma/client";
+import type {
+  CreateVendorInvoiceInput,
+  VendorInvoiceItemInput,
+} from "@/lib/schemas/pharmacy-procurement-schema";
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface InvoiceMatchSettings {
+  quantityTolerance: number;
+  pricePercentTolerance: number;
+}
+
+interface VendorInvoiceItemResponse {
+  id: string;
+  productId: string;
+  productCode: string;
+  productName: string;
+  quantity: number;
+  unitCost: string;
+  tax: string;
+  total: string;
+  poQuantity: number;
+  poUnitCost: string | null;
+  grnQuantity: number;
+  grnUnitCost: string | null;
+  quantityVariance: boolean;
+  priceVariance: boolean;
+  priceVariancePercent: string | null;
+}
+
+interface VendorInvoiceListItem {
+  id: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  vendorId: string;
+  vendorName: string;
+  poNumber: string;
+  grnNumber: string;
+  status: VendorInvoiceStatus;
+  total: string;
+  hasQuantityVariance: boolean;
+  hasPriceVariance: boolean;
+  itemCount: number;
+  version: number;
+  createdAt: string;
+}
+
+interface VendorInvoiceDetail {
+  id: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  vendorId: string;
+  vendorName: string;
+  vendorCode: string;
+  purchaseOrderId: string;
+  poNumber: string;
+  goodsReceiptId: string;
+  grnNumber: string;
+  storeName: string;
+  status: VendorInvoiceStatus;
+  subtotal: string;
+  tax: string;
+  total: string;
+  hasQuantityVariance: boolean;
+  hasPriceVariance: boolean;
+  notes: string | null;
+  varianceApprovedBy: string | null;
+  varianceApprovedAt: string | null;
+  varianceApprovalNotes: string | null;
+  payableBy: string | null;
+  payableAt: string | null;
+  version: number;
+  createdBy: string;
+  createdAt: string;
+  items: VendorInvoiceItemResponse[];
+}
+
+interface InvoiceableGoodsReceipt {
+  goodsReceiptId: string;
+  grnNumber: string;
+  receivedDate: string;
+  vendorInvoiceNumber: string | null;
+  purchaseOrderId: string;
+  poNumber: string;
+  vendorId: string;
+  vendorName: string;
+  storeName: string;
+  lines: Array<{
+    productId: string;
+    productCode: string;
+    productName: string;
+    gstPercent: string;
+    poQuantity: number;
+    poUnitCost: string | null;
+    grnQuantity: number;
+    grnUnitCost: string | null;
+  }>;
+}
+
+interface ThreeWayMatchRow {
+  invoiceId: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  status: VendorInvoiceStatus;
+  vendorName: string;
+  poNumber: string;
+  grnNumber: string;
+  productCode: string;
+  productName: string;
+  poQuantity: number;
+  grnQuantity: number;
+  invoiceQuantity: number;
+  poUnitCost: string | null;
+  grnUnitCost: string | null;
+  invoiceUnitCost: string;
+  quantityVariance: boolean;
+  priceVariance: boolean;
+  priceVariancePercent: string | null;
+  overbilledValue: string;
+}
+
+interface ThreeWayMatchReport {
+  from: string;
+  to: string;
+  tolerance: InvoiceMatchSettings;
+  summary: {
+    invoiceCount: number;
+    flaggedCount: number;
+    awaitingApprovalCount: number;
+    quantityVarianceLines: number;
+    priceVarianceLines: number;
+    overbilledValue: string;
+  };
+  rows: ThreeWayMatchRow[];
+}
+
+interface CursorResult<T> {
+  data: T[];
+  pagination: { cursor: string | null; hasMore: boolean };
+}
+
+interface VendorInvoiceQueryOptions {
+  search?: string;
+  status?: VendorInvoiceStatus;
+  vendorId?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+interface ReportOptions {
+  vendorId?: string;
+  from?: string;
+  to?: string;
+  varianceOnly?: boolean;
+}
+
+/** Per-product PO or GRN figures that an invoice line is matched against */
+interface MatchSource {
+  quantity: number;
+  unitCost: number | null;
+}
+
+/** TenantSetting key holding { quantityTolerance, pricePercentTolerance } */
+export const INVOICE_MATCH_SETTING_KEY = "pharmacy_invoice_match";
+const DEFAULT_QUANTITY_TOLERANCE = 0;
+const DEFAULT_PRICE_PERCENT_TOLERANCE = 2;
+const DEFAULT_REPORT_DAYS = 30;
+
+const INVOICE_INCLUDE = {
+  vendor: { select: { name: true, code: true } },
+  purchaseOrder: { select: { poNumber: true } },
+  goodsReceipt: { select: { grnNumber: true, store: { select: { name: true } } } },
+  items: {
+    include: { product: { select: { code: true, name: true } } },
+    orderBy: { product: { name: "asc" } },
+  },
+} satisfies Prisma.VendorInvoiceInclude;
+
+type VendorInvoiceWithRelations = Prisma.VendorInvoiceGetPayload<{ include: typeof INVOICE_INCLUDE }>;
+
+// =====================================================
+// SETTINGS
+// =====================================================
+
+export async function getInvoiceMatchSettings(tenantId: string): Promise<InvoiceMatchSettings> {
+  const setting = await prisma.tenantSetting.findUnique({
+    where: { tenantId_key: { tenantId, key: INVOICE_MATCH_SETTING_KEY } },
+  });
+
+  const value = (setting?.value ?? {}) as { quantityTolerance?: number; pricePercentTolerance?: number };
+  return {
+    quantityTolerance:
+      typeof value.quantityTolerance === "number" && value.quantityTolerance >= 0
+        ? value.quantityTolerance
+        : DEFAULT_QUANTITY_TOLERANCE,
+    pricePercentTolerance:
+      typeof value.pricePercentTolerance === "number" && value.pricePercentTolerance >= 0
+        ? value.pricePercentTolerance
+        : DEFAULT_PRICE_PERCENT_TOLERANCE,
+  };
+}
+
+// =====================================================
+// MATCHING
+// =====================================================
+
+function percentDiff(value: number, base: number): number {
+  return (Math.abs(value - base) / base) * 100;
+}
+
+/**
+ * Sums quantity per product with a quantity-weighted unit cost.
+ */
+function aggregateByProduct(lines: { productId: string; quantity: number; unitCost: number }[]): Map<string, MatchSource> {
+  const totals = new Map<string, { quantity: number; value: number }>();
+  for (const line of lines) {
+    const t = totals.get(line.productId) ?? { quantity: 0, value: 0 };
+    t.quantity += line.quantity;
+    t.value += line.quantity * line.unitCost;
+    totals.set(line.productId, t);
+  }
+  return new Map(
+    [...totals].map(([productId, t]) => [
+      productId,
+      { quantity: t.quantity, unitCost: t.quantity > 0 ? Math.round((t.value / t.quantity) * 100) / 100 : null },
+    ])
+  );
+}
+
+/**
+ * A quantity variance is an invoiced quantity that differs from the GRN's
+ * accepted quantity, or exceeds the PO quantity, by more than the unit
+ * tolerance. A price variance is an invoiced rate more than the percentage
+ * tolerance away from the PO rate or the GRN rate. Lines for products not
+ * on the PO and GRN are flagged on both counts.
+ */
+function matchLine(
+  item: VendorInvoiceItemInput,
+  po: MatchSource | undefined,
+  grn: MatchSource | undefined,
+  settings: InvoiceMatchSettings
+): { quantityVariance: boolean; priceVariance: boolean } {
+  const poQuantity = po?.quantity ?? 0;
+  const grnQuantity = grn?.quantity ?? 0;
+
+  const quantityVariance =
+    grnQuantity === 0 ||
+    Math.abs(item.quantity - grnQuantity) > settings.quantityTolerance ||
+    item.quantity > poQuantity + settings.quantityTolerance;
+
+  const priceVariance =
+    po?.unitCost == null ||
+    percentDiff(item.unitCost, po.unitCost) > settings.pricePercentTolerance ||
+    (grn?.unitCost != null && percentDiff(item.unitCost, grn.unitCost) > settings.pricePercentTolerance);
+
+  return { quantityVariance, priceVariance };
+}
+
+async function getMatchSources(
+  tx: Prisma.TransactionClient,
+  purchaseOrderId: string,
+  goodsReceiptId: string
+): Promise<{ po: Map<string, MatchSource>; grn: Map<string, MatchSource> }> {
+  const [poItems, grnItems] = await Promise.all([
+    tx.purchaseOrderItem.findMany({
+      where: { purchaseOrderId },
+      select: { productId: true, quantityOrdered: true, unitCost: true },
+    }),
+    tx.goodsReceiptItem.findMany({
+      where: { goodsReceiptId },
+      select: { productId: true, quantityReceived: true, quantityRejected: true, unitCost: true },
+    }),
+  ]);
+
+  return {
+    po: aggregateByProduct(poItems.map((i) => ({
+      productId: i.productId,
+      quantity: i.quantityOrdered,
+      unitCost: parseFloat(i.unitCost.toString()),
+    }))),
+    grn: aggregateByProduct(grnItems.map((i) => ({
+      productId: i.productId,
+      quantity: i.quantityReceived - i.quantityRejected,
+      unitCost: parseFloat(i.unitCost.toString()),
+    }))),
+  };
+}
+
+async function lockVendorInvoice(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  invoiceId: string,
+  expectedStatus: VendorInvoiceStatus[],
+  version: number
+) {
+  await tx.$executeRaw`SELECT id FROM "VendorInvoice" WHERE id = ${invoiceId} FOR UPDATE`;
+
+  const invoice = await tx.vendorInvoice.findFirst({
+    where: { id: invoiceId, tenantId, isDeleted: false },
+    select: { id: true, invoiceNumber: true, status: true, version: true },
+  });
+  if (!invoice) throw new AppError("Vendor invoice not found", 404, "VENDOR_INVOICE_NOT_FOUND");
+  if (invoice.version !== version) {
+    throw new AppError("Record modified by another user", 409, "VERSION_CONFLICT");
+  }
+  if (!expectedStatus.includes(invoice.status)) {
+    throw new AppError(`Invoice is ${invoice.status}`, 400, "VENDOR_INVOICE_INVALID_STATUS");
+  }
+  return invoice;
+}
+
+// =====================================================
+// INVOICEABLE GOODS RECEIPTS
+// =====================================================
+
+/**
+ * Recent GRNs with no active invoice, with per-product PO and GRN figures
+ * to prefill invoice capture.
+ */
+export async function getInvoiceableGoodsReceipts(
+  tenantId: string,
+  search?: string
+): Promise<InvoiceableGoodsReceipt[]> {
+  const where: Prisma.GoodsReceiptWhereInput = {
+    tenantId,
+    isDeleted: false,
+    vendorInvoices: { none: { isDeleted: false, status: { not: "CANCELLED" } } },
+  };
+  if (search) {
+    where.OR = [
+      { grnNumber: { contains: search, mode: "insensitive" } },
+      { vendorInvoiceNumber: { contains: search, mode: "insensitive" } },
+      { purchaseOrder: { poNumber: { contains: search, mode: "insensitive" } } },
+      { purchaseOrder: { vendor: { name: { contains: search, mode: "insensitive" } } } },
+    ];
+  }
+
+  const grns = await prisma.goodsReceipt.findMany({
+    where,
+    orderBy: { receivedDate: "desc" },
+    take: 20,
+    include: {
+      store: { select: { name: true } },
+      purchaseOrder: {
+        select: {
+          id: true,
+          poNumber: true,
+          vendorId: true,
+          vendor: { select: { name: true } },
+          items: { select: { productId: true, quantityOrdered: true, unitCost: true } },
+        },
+      },
+      items: {
+        select: {
+          productId: true,
+          quantityReceived: true,
+          quantityRejected: true,
+          unitCost: true,
+          product: { select: { code: true, name: true, gstPercent: true } },
+        },
+      },
+    },
+  });
+
+  return grns.map((grn) => {
+    const po = aggregateByProduct(grn.purchaseOrder.items.map((i) => ({
+      productId: i.productId,
+      quantity: i.quantityOrdered,
+      unitCost: parseFloat(i.unitCost.toString()),
+    })));
+    const received = aggregateByProduct(grn.items.map((i) => ({
+      productId: i.productId,
+      quantity: i.quantityReceived - i.quantityRejected,
+      unitCost: parseFloat(i.unitCost.toString()),
+    })));
+    const productInfo = new Map(grn.items.map((i) => [i.productId, i.product]));
+
+    return {
+      goodsReceiptId: grn.id,
+      grnNumber: grn.grnNumber,
+      receivedDate: grn.receivedDate.toISOString(),
+      vendorInvoiceNumber: grn.vendorInvoiceNumber,
+      purchaseOrderId: grn.purchaseOrder.id,
+      poNumber: grn.purchaseOrder.poNumber,
+      vendorId: grn.purchaseOrder.vendorId,
+      vendorName: grn.purchaseOrder.vendor.name,
+      storeName: grn.store.name,
+      lines: [...received].map(([productId, r]) => {
+        const product = productInfo.get(productId)!;
+        const p = po.get(productId);
+        return {
+          productId,
+          productCode: product.code,
+          productName: product.name,
+          gstPercent: (product.gstPercent ?? 0).toString(),
+          poQuantity: p?.quantity ?? 0,
+          poUnitCost: p?.unitCost != null ? p.unitCost.toFixed(2) : null,
+          grnQuantity: r.quantity,
+          grnUnitCost: r.unitCost != null ? r.unitCost.toFixed(2) : null,
+        };
+      }),
+    };
+  });
+}
+
+// =====================================================
+// CREATE VENDOR INVOICE (RUNS THREE-WAY MATCH)
+// =====================================================
+
+export async function createVendorInvoice(
+  tenantId: string,
+  userId: string,
+  input: CreateVendorInvoiceInput
+): Promise<VendorInvoiceDetail> {
+  const productIds = input.items.map((i) => i.productId);
+  if (new Set(productIds).size !== productIds.length) {
+    throw new AppError("Each product can appear only once on an invoice", 400, "DUPLICATE_PRODUCT");
+  }
+
+  const settings = await getInvoiceMatchSettings(tenantId);
+
+  return prisma.$transaction(async (tx) => {
+    // Serialise invoice capture per GRN
+    await tx.$executeRaw`SELECT id FROM "GoodsReceipt" WHERE id = ${input.goodsReceiptId} FOR UPDATE`;
+
+    const grn = await tx.goodsReceipt.findFirst({
+      where: { id: input.goodsReceiptId, tenantId, isDeleted: false },
+      select: {
+        id: true,
+        grnNumber: true,
+        vendorInvoiceNumber: true,
+        purchaseOrder: { select: { id: true, vendorId: true } },
+      },
+    });
+    if (!grn) throw new AppError("Goods receipt not found", 404, "GRN_NOT_FOUND");
+
+    const active = await tx.vendorInvoice.findFirst({
+      where: { tenantId, goodsReceiptId: grn.id, isDeleted: false, status: { not: "CANCELLED" } },
+      select: { invoiceNumber: true },
+    });
+    if (active) {
+      throw new AppError(`${grn.grnNumber} is already invoiced on ${active.invoiceNumber}`, 409, "GRN_ALREADY_INVOICED");
+    }
+
+    const vendorId = grn.purchaseOrder.vendorId;
+    const duplicate = await tx.vendorInvoice.findFirst({
+      where: { tenantId, vendorId, invoiceNumber: input.invoiceNumber },
+      select: { id: true },
+    });
+    if (duplicate) {
+      throw new AppError("This vendor invoice number has already been captured", 409, "DUPLICATE_INVOICE_NUMBER");
+    }
+
+    const products = await tx.product.findMany({
+      where: { id: { in: productIds }, tenantId, isDeleted: false },
+      select: { id: true },
+    });
+    const foundIds = new Set(products.map((p) => p.id));
+    for (const pid of productIds) {
+      if (!foundIds.has(pid)) {
+        throw new AppError(`Product ${pid} not found`, 404, "PRODUCT_NOT_FOUND");
+      }
+    }
+
+    const sources = await getMatchSources(tx, grn.purchaseOrder.id, grn.id);
+
+    let subtotalAcc = 0;
+    let taxAcc = 0;
+    let hasQuantityVariance = false;
+    let hasPriceVariance = false;
+
+    const itemsData = input.items.map((item) => {
+      const po = sources.po.get(item.productId);
+      const received = sources.grn.get(item.productId);
+      const match = matchLine(item, po, received, settings);
+      hasQuantityVariance ||= match.quantityVariance;
+      hasPriceVariance ||= match.priceVariance;
+
+      const lineSubtotal = item.unitCost * item.quantity;
+      const lineTax = item.tax ?? 0;
+      subtotalAcc += lineSubtotal;
+      taxAcc += lineTax;
+
+      return {
+        tenantId,
+        productId: item.productId,
+        quantity: item.quantity,
+        unitCost: item.unitCost,
+        tax: lineTax,
+        total: lineSubtotal + lineTax,
+        poQuantity: po?.quantity ?? 0,
+        poUnitCost: po?.unitCost ?? null,
+        grnQuantity: received?.quantity ?? 0,
+        grnUnitCost: received?.unitCost ?? null,
+        ...match,
+      };
+    });
+
+    const status: VendorInvoiceStatus = hasQuantityVariance || hasPriceVariance ? "FLAGGED" : "MATCHED";
+
+    const invoice = await tx.vendorInvoice.create({
+      data: {
+        tenantId,
+        invoiceNumber: input.invoiceNumber,
+        invoiceDate: new Date(input.invoiceDate),
+        vendorId,
+        purchaseOrderId: grn.purchaseOrder.id,
+        goodsReceiptId: grn.id,
+        status,
+        subtotal: subtotalAcc,
+        tax: taxAcc,
+        total: subtotalAcc + taxAcc,
+        hasQuantityVariance,
+        hasPriceVariance,
+        notes: input.notes || null,
+        createdBy: userId,
+        updatedBy: userId,
+        items: { create: itemsData },
+      },
+      include: INVOICE_INCLUDE,
+    });
+
+    // Keep the GRN's free-text reference in step when it was left blank
+    if (!grn.vendorInvoiceNumber) {
+      await tx.goodsReceipt.update({
+        where: { id: grn.id },
+        data: { vendorInvoiceNumber: input.invoiceNumber, updatedBy: userId },
+      });
+    }
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "VENDOR_INVOICE",
+      entityId: invoice.id,
+      action: "CREATE",
+      newValue: {
+        invoiceNumber: input.invoiceNumber,
+        grnNumber: grn.grnNumber,
+        status,
+        total: subtotalAcc + taxAcc,
+        hasQuantityVariance,
+        hasPriceVariance,
+        tolerance: settings,
+      },
+    });
+
+    return mapVendorInvoiceDetail(invoice);
+  });
+}
+
+// =====================================================
+// APPROVE VARIANCE (PURCHASE MANAGER)
+// =====================================================
+
+export async function approveInvoiceVariance(
+  tenantId: string,
+  userId: string,
+  invoiceId: string,
+  version: number,
+  notes: string
+): Promise<VendorInvoiceDetail> {
+  return prisma.$transaction(async (tx) => {
+    await lockVendorInvoice(tx, tenantId, invoiceId, ["FLAGGED"], version);
+
+    const updated = await tx.vendorInvoice.update({
+      where: { id: invoiceId },
+      data: {
+        status: "VARIANCE_APPROVED",
+        varianceApprovedBy: userId,
+        varianceApprovedAt: new Date(),
+        varianceApprovalNotes: notes,
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+      include: INVOICE_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "VENDOR_INVOICE",
+      entityId: invoiceId,
+      action: "UPDATE",
+      oldValue: { status: "FLAGGED" },
+      newValue: { status: "VARIANCE_APPROVED", notes },
+    });
+
+    return mapVendorInvoiceDetail(updated);
+  });
+}
+
+// =====================================================
+// MARK PAYABLE
+// =====================================================
+
+export async function markVendorInvoicePayable(
+  tenantId: string,
+  userId: string,
+  invoiceId: string,
+  version: number
+): Promise<VendorInvoiceDetail> {
+  return prisma.$transaction(async (tx) => {
+    const invoice = await lockVendorInvoice(
+      tx, tenantId, invoiceId, ["MATCHED", "FLAGGED", "VARIANCE_APPROVED"], version
+    );
+    if (invoice.status === "FLAGGED") {
+      throw new AppError(
+        "Invoice has PO/GRN variances awaiting purchase manager approval",
+        409,
+        "VARIANCE_NOT_APPROVED"
+      );
+    }
+
+    const updated = await tx.vendorInvoice.update({
+      where: { id: invoiceId },
+      data: {
+        status: "PAYABLE",
+        payableBy: userId,
+        payableAt: new Date(),
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+      include: INVOICE_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "VENDOR_INVOICE",
+      entityId: invoiceId,
+      action: "UPDATE",
+      oldValue: { status: invoice.status },
+      newValue: { status: "PAYABLE" },
+    });
+
+    return mapVendorInvoiceDetail(updated);
+  });
+}
+
+// =====================================================
+// CANCEL
+// =====================================================
+
+export async function cancelVendorInvoice(
+  tenantId: string,
+  userId: string,
+  invoiceId: string,
+  version: number
+): Promise<VendorInvoiceDetail> {
+  return prisma.$transaction(async (tx) => {
+    const invoice = await lockVendorInvoice(
+      tx, tenantId, invoiceId, ["MATCHED", "FLAGGED", "VARIANCE_APPROVED"], version
+    );
+
+    const updated = await tx.vendorInvoice.update({
+      where: { id: invoiceId },
+      data: { status: "CANCELLED", updatedBy: userId, version: { increment: 1 } },
+      include: INVOICE_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "VENDOR_INVOICE",
+      entityId: invoiceId,
+      action: "UPDATE",
+      oldValue: { status: invoice.status },
+      newValue: { status: "CANCELLED" },
+    });
+
+    return mapVendorInvoiceDetail(updated);
+  });
+}
+
+// =====================================================
+// GET VENDOR INVOICES (CURSOR PAGINATION)
+// =====================================================
+
+export async function getVendorInvoicesCursor(
+  tenantId: string,
+  options: VendorInvoiceQueryOptions = {}
+): Promise<CursorResult<VendorInvoiceListItem>> {
+  const { search, status, vendorId, cursor, limit = 20 } = options;
+
+  const where: Prisma.VendorInvoiceWhereInput = { tenantId, isDeleted: false };
+  if (status) where.status = status;
+  if (vendorId) where.vendorId = vendorId;
+  if (search) {
+    where.OR = [
+      { invoiceNumber: { contains: search, mode: "insensitive" } },
+      { purchaseOrder: { poNumber: { contains: search, mode: "insensitive" } } },
+      { goodsReceipt: { grnNumber: { contains: search, mode: "insensitive" } } },
+    ];
+  }
+
+  const records = await prisma.vendorInvoice.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take: limit + 1,
+    ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    select: {
+      id: true,
+      invoiceNumber: true,
+      invoiceDate: true,
+      vendorId: true,
+      vendor: { select: { name: true } },
+      purchaseOrder: { select: { poNumber: true } },
+      goodsReceipt: { select: { grnNumber: true } },
+      status: true,
+      total: true,
+      hasQuantityVariance: true,
+      hasPriceVariance: true,
+      version: true,
+      createdAt: true,
+      _count: { select: { items: true } },
+    },
+  });
+
+  const hasMore = records.length > limit;
+  const data = hasMore ? records.slice(0, limit) : records;
+
+  return {
+    data: data.map((r) => ({
+      id: r.id,
+      invoiceNumber: r.invoiceNumber,
+      invoiceDate: r.invoiceDate.toISOString(),
+      vendorId: r.vendorId,
+      vendorName: r.vendor.name,
+      poNumber: r.purchaseOrder.poNumber,
+      grnNumber: r.goodsReceipt.grnNumber,
+      status: r.status,
+      total: r.total.toString(),
+      hasQuantityVariance: r.hasQuantityVariance,
+      hasPriceVariance: r.hasPriceVariance,
+      itemCount: r._count.items,
+      version: r.version,
+      createdAt: r.createdAt.toISOString(),
+    })),
+    pagination: {
+      cursor: data.length > 0 ? data[data.length - 1].id : null,
+      hasMore,
+    },
+  };
+}
+
+// =====================================================
+// GET VENDOR INVOICE BY ID
+// =====================================================
+
+export async function getVendorInvoiceById(
+  tenantId: string,
+  invoiceId: string
+): Promise<VendorInvoiceDetail | null> {
+  const invoice = await prisma.vendorInvoice.findFirst({
+    where: { id: invoiceId, tenantId, isDeleted: false },
+    include: INVOICE_INCLUDE,
+  });
+
+  return invoice ? mapVendorInvoiceDetail(invoice) : null;
+}
+
+// =====================================================
+// THREE-WAY MATCH REPORT
+// =====================================================
+
+/**
+ * Line-level PO vs GRN vs invoice comparison for non-cancelled invoices
+ * dated in the window (default: the last 30 days).
+ */
+export async function getThreeWayMatchReport(
+  tenantId: string,
+  options: ReportOptions = {}
+): Promise<ThreeWayMatchReport> {
+  const to = options.to ? new Date(options.to) : new Date();
+  to.setHours(23, 59, 59, 999);
+  const from = options.from
+    ? new Date(options.from)
+    : new Date(to.getTime() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+  from.setHours(0, 0, 0, 0);
+
+  const [tolerance, invoices] = await Promise.all([
+    getInvoiceMatchSettings(tenantId),
+    prisma.vendorInvoice.findMany({
+      where: {
+        tenantId,
+        isDeleted: false,
+        status: { not: "CANCELLED" },
+        invoiceDate: { gte: from, lte: to },
+        ...(options.vendorId ? { vendorId: options.vendorId } : {}),
+      },
+      orderBy: { invoiceDate: "desc" },
+      include: INVOICE_INCLUDE,
+    }),
+  ]);
+
+  const rows: ThreeWayMatchRow[] = [];
+  let overbilledTotal = 0;
+  let quantityVarianceLines = 0;
+  let priceVarianceLines = 0;
+
+  for (const invoice of invoices) {
+    for (const item of invoice.items) {
+      if (item.quantityVariance) quantityVarianceLines++;
+      if (item.priceVariance) priceVarianceLines++;
+      if (options.varianceOnly && !item.quantityVariance && !item.priceVariance) continue;
+
+      // Billed beyond what was accepted at the PO rate
+      const expected = Math.min(item.grnQuantity, item.poQuantity) * parseFloat((item.poUnitCost ?? 0).toString());
+      const billed = item.quantity * parseFloat(item.unitCost.toString());
+      const overbilled = Math.max(0, billed - expected);
+      overbilledTotal += overbilled;
+
+      const mapped = mapInvoiceItem(item);
+      rows.push({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        invoiceDate: invoice.invoiceDate.toISOString(),
+        status: invoice.status,
+        vendorName: invoice.vendor.name,
+        poNumber: invoice.purchaseOrder.poNumber,
+        grnNumber: invoice.goodsReceipt.grnNumber,
+        productCode: mapped.productCode,
+        productName: mapped.productName,
+        poQuantity: mapped.poQuantity,
+        grnQuantity: mapped.grnQuantity,
+        invoiceQuantity: mapped.quantity,
+        poUnitCost: mapped.poUnitCost,
+        grnUnitCost: mapped.grnUnitCost,
+        invoiceUnitCost: mapped.unitCost,
+        quantityVariance: mapped.quantityVariance,
+        priceVariance: mapped.priceVariance,
+        priceVariancePercent: mapped.priceVariancePercent,
+        overbilledValue: overbilled.toFixed(2),
+      });
+    }
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    tolerance,
+    summary: {
+      invoiceCount: invoices.length,
+      flaggedCount: invoices.filter((i) => i.hasQuantityVariance || i.hasPriceVariance).length,
+      awaitingApprovalCount: invoices.filter((i) => i.status === "FLAGGED").length,
+      quantityVarianceLines,
+      priceVarianceLines,
+      overbilledValue: overbilledTotal.toFixed(2),
+    },
+    rows,
+  };
+}
+
+// =====================================================
+// MAPPERS
+// =====================================================
+
+function mapInvoiceItem(item: VendorInvoiceWithRelations["items"][number]): VendorInvoiceItemResponse {
+  const unitCost = parseFloat(item.unitCost.toString());
+  const poUnitCost = item.poUnitCost ? parseFloat(item.poUnitCost.toString()) : null;
+  return {
+    id: item.id,
+    productId: item.productId,
+    productCode: item.product.code,
+    productName: item.product.name,
+    quantity: item.quantity,
+    unitCost: item.unitCost.toString(),
+    tax: item.tax.toString(),
+    total: item.total.toString(),
+    poQuantity: item.poQuantity,
+    poUnitCost: item.poUnitCost?.toString() ?? null,
+    grnQuantity: item.grnQuantity,
+    grnUnitCost: item.grnUnitCost?.toString() ?? null,
+    quantityVariance: item.quantityVariance,
+    priceVariance: item.priceVariance,
+    priceVariancePercent: poUnitCost ? (((unitCost - poUnitCost) / poUnitCost) * 100).toFixed(2) : null,
+  };
+}
+
+function mapVendorInvoiceDetail(invoice: VendorInvoiceWithRelations): VendorInvoiceDetail {
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    invoiceDate: invoice.invoiceDate.toISOString(),
+    vendorId: invoice.vendorId,
+    vendorName: invoice.vendor.name,
+    vendorCode: invoice.vendor.code,
+    purchaseOrderId: invoice.purchaseOrderId,
+    poNumber: invoice.purchaseOrder.poNumber,
+    goodsReceiptId: invoice.goodsReceiptId,
+    grnNumber: invoice.goodsReceipt.grnNumber,
+    storeName: invoice.goodsReceipt.store.name,
+    status: invoice.status,
+    subtotal: invoice.subtotal.toString(),
+    tax: invoice.tax.toString(),
+    total: invoice.total.toString(),
+    hasQuantityVariance: invoice.hasQuantityVariance,
+    hasPriceVariance: invoice.hasPriceVariance,
+    notes: invoice.notes,
+    varianceApprovedBy: invoice.varianceApprovedBy,
+    varianceApprovedAt: invoice.varianceApprovedAt?.toISOString() ?? null,
+    varianceApprovalNotes: invoice.varianceApprovalNotes,
+    payableBy: invoice.payableBy,
+    payableAt: invoice.payableAt?.toISOString() ?? null,
+    version: invoice.version,
+    createdBy: invoice.createdBy,
+    createdAt: invoice.createdAt.toISOString(),
+    items: invoice.items.map(mapInvoiceItem),
+  };
+}
@@ -0,0 +1,721 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import { deductBatchStock } from "./stock-allocation.service";
+import { getTenantLetterhead, type LabReportLetterhead } from "@/lib/services/lab/lab-report.service";
+import type { Prisma, VendorReturnStatus, StockDisposalReason } from "@/app/generated/prisma/client";
+import { Prisma as PrismaNamespace } from "@/app/generated/prisma/client";
+import type { CreateVendorReturnInput } from "@/lib/schemas/pharmacy-return-schema";
+
+const Decimal = PrismaNamespace.Decimal;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface ReturnableBatch {
+  goodsReceiptItemId: string;
+  grnNumber: string;
+  receivedDate: string;
+  productId: string;
+  productCode: string;
+  productName: string;
+  batchNumber: string;
+  expiryDate: string;
+  unitCost: string;
+  gstPercent: string;
+  returnableQty: number;
+}
+
+interface VendorReturnItemResponse {
+  id: string;
+  goodsReceiptItemId: string;
+  grnNumber: string;
+  productId: string;
+  productCode: string;
+  productName: string;
+  hsnCode: string | null;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: number;
+  reason: StockDisposalReason;
+  unitCost: string;
+  gstPercent: string;
+  tax: string;
+  total: string;
+}
+
+interface VendorReturnListItem {
+  id: string;
+  returnNumber: string;
+  debitNoteNumber: string | null;
+  vendorId: string;
+  vendorName: string;
+  storeId: string;
+  storeName: string;
+  status: VendorReturnStatus;
+  subtotal: string;
+  tax: string;
+  total: string;
+  itemCount: number;
+  version: number;
+  createdAt: string;
+}
+
+/** GST reversed on the debit note: CGST+SGST within a state, IGST across states */
+interface GstReversal {
+  cgst: string;
+  sgst: string;
+  igst: string;
+}
+
+interface VendorReturnDetail {
+  id: string;
+  returnNumber: string;
+  debitNoteNumber: string | null;
+  debitNoteDate: string | null;
+  vendorId: string;
+  vendorName: string;
+  vendorCode: string;
+  vendorGst: string | null;
+  vendorContactPerson: string | null;
+  vendorContactNumber: string | null;
+  storeId: string;
+  storeName: string;
+  storeGst: string | null;
+  status: VendorReturnStatus;
+  notes: string | null;
+  subtotal: string;
+  tax: string;
+  total: string;
+  gst: GstReversal;
+  approvedBy: string | null;
+  approvedAt: string | null;
+  version: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  items: VendorReturnItemResponse[];
+}
+
+interface DebitNotePrint extends VendorReturnDetail {
+  letterhead: LabReportLetterhead;
+}
+
+interface CursorResult<T> {
+  data: T[];
+  pagination: { cursor: string | null; hasMore: boolean };
+}
+
+interface VendorReturnQueryOptions {
+  search?: string;
+  status?: string;
+  vendorId?: string;
+  storeId?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+const VENDOR_RETURN_INCLUDE = {
+  vendor: { select: { id: true, name: true, code: true, gstNumber: true, contactPerson: true, contactNumber: true } },
+  store: { select: { id: true, name: true, gstNumber: true } },
+  items: {
+    include: {
+      product: { select: { code: true, name: true, hsnCode: true } },
+      goodsReceiptItem: { select: { goodsReceipt: { select: { grnNumber: true } } } },
+    },
+  },
+} satisfies Prisma.VendorReturnInclude;
+
+// =====================================================
+// NUMBER GENERATORS
+// =====================================================
+
+async function generateVendorReturnNumber(
+  tenantId: string,
+  tx: Prisma.TransactionClient
+): Promise<string> {
+  const year = new Date().getFullYear();
+  const prefix = `VRN-${year}-`;
+
+  const last = await tx.vendorReturn.findFirst({
+    where: { tenantId, returnNumber: { startsWith: prefix } },
+    orderBy: { returnNumber: "desc" },
+    select: { returnNumber: true },
+  });
+
+  let seq = 1;
+  if (last) {
+    const num = parseInt(last.returnNumber.replace(prefix, ""), 10);
+    if (!isNaN(num)) seq = num + 1;
+  }
+
+  return `${prefix}${String(seq).padStart(5, "0")}`;
+}
+
+async function generateDebitNoteNumber(
+  tenantId: string,
+  tx: Prisma.TransactionClient
+): Promise<string> {
+  const year = new Date().getFullYear();
+  const prefix = `DN-${year}-`;
+
+  const last = await tx.vendorReturn.findFirst({
+    where: { tenantId, debitNoteNumber: { startsWith: prefix } },
+    orderBy: { debitNoteNumber: "desc" },
+    select: { debitNoteNumber: true },
+  });
+
+  let seq = 1;
+  if (last?.debitNoteNumber) {
+    const num = parseInt(last.debitNoteNumber.replace(prefix, ""), 10);
+    if (!isNaN(num)) seq = num + 1;
+  }
+
+  return `${prefix}${String(seq).padStart(5, "0")}`;
+}
+
+// =====================================================
+// RETURNABLE QUANTITIES
+// =====================================================
+
+/**
+ * Quantity of a GRN line already committed to DRAFT or APPROVED vendor returns.
+ */
+async function getCommittedReturnQty(
+  tx: Prisma.TransactionClient,
+  goodsReceiptItemIds: string[],
+  excludeReturnId?: string
+): Promise<Map<string, number>> {
+  const rows = await tx.vendorReturnItem.groupBy({
+    by: ["goodsReceiptItemId"],
+    where: {
+      goodsReceiptItemId: { in: goodsReceiptItemIds },
+      vendorReturn: {
+        status: { in: ["DRAFT", "APPROVED"] },
+        isDeleted: false,
+        ...(excludeReturnId ? { id: { not: excludeReturnId } } : {}),
+      },
+    },
+    _sum: { quantity: true },
+  });
+  return new Map(rows.map((r) => [r.goodsReceiptItemId, r._sum.quantity ?? 0]));
+}
+
+async function getBatchStock(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  storeId: string,
+  productIds: string[]
+): Promise<Map<string, number>> {
+  const rows = await tx.inventoryLedger.groupBy({
+    by: ["productId", "batchNumber"],
+    where: { tenantId, storeId, productId: { in: productIds } },
+    _sum: { quantityChange: true },
+  });
+  return new Map(rows.map((r) => [`${r.productId}|${r.batchNumber}`, r._sum.quantityChange ?? 0]));
+}
+
+/**
+ * GRN lines from this vendor received into the store that still have stock
+ * on hand and have not been fully returned.
+ */
+export async function getReturnableBatches(
+  tenantId: string,
+  storeId: string,
+  vendorId: string,
+  expiredOnly = false
+): Promise<ReturnableBatch[]> {
+  const grnItems = await prisma.goodsReceiptItem.findMany({
+    where: {
+      goodsReceipt: {
+        tenantId,
+        storeId,
+        isDeleted: false,
+        purchaseOrder: { vendorId },
+      },
+      ...(expiredOnly ? { expiryDate: { lt: new Date() } } : {}),
+    },
+    orderBy: { expiryDate: "asc" },
+    include: {
+      product: { select: { code: true, name: true, gstPercent: true } },
+      goodsReceipt: { select: { grnNumber: true, receivedDate: true } },
+    },
+  });
+  if (grnItems.length === 0) return [];
+
+  const committed = await getCommittedReturnQty(prisma, grnItems.map((i) => i.id));
+  const stock = await getBatchStock(prisma, tenantId, storeId, [...new Set(grnItems.map((i) => i.productId))]);
+
+  return grnItems
+    .map((item) => {
+      const fromGrn = item.quantityReceived - item.quantityRejected - (committed.get(item.id) ?? 0);
+      const onHand = stock.get(`${item.productId}|${item.batchNumber}`) ?? 0;
+      return {
+        goodsReceiptItemId: item.id,
+        grnNumber: item.goodsReceipt.grnNumber,
+        receivedDate: item.goodsReceipt.receivedDate.toISOString(),
+        productId: item.productId,
+        productCode: item.product.code,
+        productName: item.product.name,
+        batchNumber: item.batchNumber,
+        expiryDate: item.expiryDate.toISOString(),
+        unitCost: item.unitCost.toString(),
+        gstPercent: (item.product.gstPercent ?? new Decimal(0)).toString(),
+        returnableQty: Math.max(Math.min(fromGrn, onHand), 0),
+      };
+    })
+    .filter((b) => b.returnableQty > 0);
+}
+
+async function assertReturnable(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  storeId: string,
+  lines: { goodsReceiptItemId: string; productId: string; batchNumber: string; quantity: number; label: string; fromGrn: number }[],
+  excludeReturnId?: string
+) {
+  const committed = await getCommittedReturnQty(tx, lines.map((l) => l.goodsReceiptItemId), excludeReturnId);
+  const stock = await getBatchStock(tx, tenantId, storeId, [...new Set(lines.map((l) => l.productId))]);
+
+  const requestedByBatch = new Map<string, number>();
+  for (const line of lines) {
+    const remaining = line.fromGrn - (committed.get(line.goodsReceiptItemId) ?? 0);
+    if (line.quantity > remaining) {
+      throw new AppError(
+        `Return quantity for ${line.label} exceeds what was received on the GRN (${Math.max(remaining, 0)} left)`,
+        400,
+        "RETURN_EXCEEDS_RECEIVED"
+      );
+    }
+    const key = `${line.productId}|${line.batchNumber}`;
+    requestedByBatch.set(key, (requestedByBatch.get(key) ?? 0) + line.quantity);
+  }
+
+  for (const line of lines) {
+    const key = `${line.productId}|${line.batchNumber}`;
+    const onHand = stock.get(key) ?? 0;
+    if ((requestedByBatch.get(key) ?? 0) > onHand) {
+      throw new AppError(
+        `Insufficient stock for ${line.label}. On hand: ${onHand}`,
+        400,
+        "INSUFFICIENT_STOCK"
+      );
+    }
+  }
+}
+
+// =====================================================
+// CREATE VENDOR RETURN (DRAFT)
+// =====================================================
+
+export async function createVendorReturn(
+  tenantId: string,
+  userId: string,
+  input: CreateVendorReturnInput
+): Promise<VendorReturnDetail> {
+  return prisma.$transaction(async (tx) => {
+    const vendor = await tx.vendor.findFirst({
+      where: { id: input.vendorId, tenantId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!vendor) throw new AppError("Vendor not found", 404, "VENDOR_NOT_FOUND");
+
+    const store = await tx.store.findFirst({
+      where: { id: input.storeId, tenantId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!store) throw new AppError("Store not found", 404, "STORE_NOT_FOUND");
+
+    const grnItemIds = input.items.map((i) => i.goodsReceiptItemId);
+    if (new Set(grnItemIds).size !== grnItemIds.length) {
+      throw new AppError("Each GRN line can appear only once in a return", 400, "DUPLICATE_GRN_ITEM");
+    }
+
+    const grnItems = await tx.goodsReceiptItem.findMany({
+      where: { id: { in: grnItemIds }, goodsReceipt: { tenantId, isDeleted: false } },
+      include: {
+        product: { select: { name: true, gstPercent: true } },
+        goodsReceipt: { select: { storeId: true, purchaseOrder: { select: { vendorId: true } } } },
+      },
+    });
+    const grnItemMap = new Map(grnItems.map((i) => [i.id, i]));
+
+    for (const line of input.items) {
+      const grnItem = grnItemMap.get(line.goodsReceiptItemId);
+      if (!grnItem) throw new AppError(`GRN item ${line.goodsReceiptItemId} not found`, 404, "GRN_ITEM_NOT_FOUND");
+      if (grnItem.goodsReceipt.purchaseOrder.vendorId !== input.vendorId) {
+        throw new AppError(`${grnItem.product.name} (${grnItem.batchNumber}) was not supplied by this vendor`, 400, "VENDOR_MISMATCH");
+      }
+      if (grnItem.goodsReceipt.storeId !== input.storeId) {
+        throw new AppError(`${grnItem.product.name} (${grnItem.batchNumber}) was not received into this store`, 400, "STORE_MISMATCH");
+      }
+    }
+
+    await assertReturnable(tx, tenantId, input.storeId, input.items.map((line) => {
+      const grnItem = grnItemMap.get(line.goodsReceiptItemId)!;
+      return {
+        goodsReceiptItemId: grnItem.id,
+        productId: grnItem.productId,
+        batchNumber: grnItem.batchNumber,
+        quantity: line.quantity,
+        label: `${grnItem.product.name} (${grnItem.batchNumber})`,
+        fromGrn: grnItem.quantityReceived - grnItem.quantityRejected,
+      };
+    }));
+
+    let subtotal = new Decimal(0);
+    let tax = new Decimal(0);
+    const itemsData = input.items.map((line) => {
+      const grnItem = grnItemMap.get(line.goodsReceiptItemId)!;
+      const gstPercent = grnItem.product.gstPercent ?? new Decimal(0);
+      const lineSubtotal = grnItem.unitCost.mul(line.quantity);
+      const lineTax = lineSubtotal.mul(gstPercent).div(100).toDecimalPlaces(2);
+      subtotal = subtotal.add(lineSubtotal);
+      tax = tax.add(lineTax);
+      return {
+        tenantId,
+        goodsReceiptItemId: grnItem.id,
+        productId: grnItem.productId,
+        batchNumber: grnItem.batchNumber,
+        expiryDate: grnItem.expiryDate,
+        quantity: line.quantity,
+        reason: line.reason,
+        unitCost: grnItem.unitCost,
+        gstPercent,
+        tax: lineTax,
+        total: lineSubtotal.add(lineTax),
+      };
+    });
+
+    const returnNumber = await generateVendorReturnNumber(tenantId, tx);
+
+    const vendorReturn = await tx.vendorReturn.create({
+      data: {
+        tenantId,
+        returnNumber,
+        vendorId: input.vendorId,
+        storeId: input.storeId,
+        status: "DRAFT",
+        notes: input.notes || null,
+        subtotal,
+        tax,
+        total: subtotal.add(tax),
+        createdBy: userId,
+        updatedBy: userId,
+        items: { create: itemsData },
+      },
+      include: VENDOR_RETURN_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "VENDOR_RETURN",
+      entityId: vendorReturn.id,
+      action: "CREATE",
+      newValue: { returnNumber, vendorId: input.vendorId, total: vendorReturn.total.toString(), itemCount: itemsData.length },
+    });
+
+    return mapVendorReturnDetail(vendorReturn);
+  });
+}
+
+// =====================================================
+// APPROVE VENDOR RETURN (POST STOCK + DEBIT NOTE)
+// =====================================================
+
+export async function approveVendorReturn(
+  tenantId: string,
+  userId: string,
+  returnId: string,
+  version: number
+): Promise<VendorReturnDetail> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT id FROM "VendorReturn" WHERE id = ${returnId} FOR UPDATE`;
+
+    const vendorReturn = await tx.vendorReturn.findFirst({
+      where: { id: returnId, tenantId, isDeleted: false },
+      include: {
+        items: {
+          include: {
+            product: { select: { name: true } },
+            goodsReceiptItem: { select: { quantityReceived: true, quantityRejected: true } },
+          },
+        },
+      },
+    });
+    if (!vendorReturn) throw new AppError("Vendor return not found", 404, "VENDOR_RETURN_NOT_FOUND");
+    if (vendorReturn.status !== "DRAFT") {
+      throw new AppError(`Vendor return is in ${vendorReturn.status} status, cannot approve`, 400, "VENDOR_RETURN_INVALID_STATUS");
+    }
+    if (vendorReturn.version !== version) throw new AppError("Record modified by another user", 409, "VERSION_CONFLICT");
+
+    // Stock may have been sold or moved since the draft was raised
+    await assertReturnable(tx, tenantId, vendorReturn.storeId, vendorReturn.items.map((item) => ({
+      goodsReceiptItemId: item.goodsReceiptItemId,
+      productId: item.productId,
+      batchNumber: item.batchNumber,
+      quantity: item.quantity,
+      label: `${item.product.name} (${item.batchNumber})`,
+      fromGrn: item.goodsReceiptItem.quantityReceived - item.goodsReceiptItem.quantityRejected,
+    })), returnId);
+
+    const debitNoteNumber = await generateDebitNoteNumber(tenantId, tx);
+
+    for (const item of vendorReturn.items) {
+      await deductBatchStock(tx, {
+        tenantId,
+        storeId: vendorReturn.storeId,
+        productId: item.productId,
+        batchNumber: item.batchNumber,
+        quantity: item.quantity,
+        transactionType: "VENDOR_RETURN_OUT",
+        referenceNumber: debitNoteNumber,
+        notes: `Vendor return ${vendorReturn.returnNumber} (${item.reason})`,
+        userId,
+      });
+    }
+
+    const updated = await tx.vendorReturn.update({
+      where: { id: returnId },
+      data: {
+        status: "APPROVED",
+        debitNoteNumber,
+        debitNoteDate: new Date(),
+        approvedBy: userId,
+        approvedAt: new Date(),
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+      include: VENDOR_RETURN_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "VENDOR_RETURN",
+      entityId: returnId,
+      action: "STATUS_CHANGE",
+      oldValue: { status: "DRAFT" },
+      newValue: { status: "APPROVED", debitNoteNumber, total: updated.total.toString(), tax: updated.tax.toString() },
+    });
+
+    return mapVendorReturnDetail(updated);
+  });
+}
+
+// =====================================================
+// CANCEL VENDOR RETURN (DRAFT ONLY)
+// =====================================================
+
+export async function cancelVendorReturn(
+  tenantId: string,
+  userId: string,
+  returnId: string,
+  version: number
+): Promise<{ id: string; status: VendorReturnStatus }> {
+  return prisma.$transaction(async (tx) => {
+    const vendorReturn = await tx.vendorReturn.findFirst({
+      where: { id: returnId, tenantId, isDeleted: false },
+      select: { id: true, status: true, version: true },
+    });
+    if (!vendorReturn) throw new AppError("Vendor return not found", 404, "VENDOR_RETURN_NOT_FOUND");
+    if (vendorReturn.status !== "DRAFT") {
+      throw new AppError("Only DRAFT vendor returns can be cancelled", 400, "VENDOR_RETURN_INVALID_STATUS");
+    }
+    if (vendorReturn.version !== version) throw new AppError("Record modified by another user", 409, "VERSION_CONFLICT");
+
+    const updated = await tx.vendorReturn.update({
+      where: { id: returnId },
+      data: { status: "CANCELLED", updatedBy: userId, version: { increment: 1 } },
+      select: { id: true, status: true },
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "VENDOR_RETURN",
+      entityId: returnId,
+      action: "STATUS_CHANGE",
+      oldValue: { status: "DRAFT" },
+      newValue: { status: "CANCELLED" },
+    });
+
+    return updated;
+  });
+}
+
+// =====================================================
+// GET VENDOR RETURNS (CURSOR PAGINATION)
+// =====================================================
+
+export async function getVendorReturnsCursor(
+  tenantId: string,
+  options: VendorReturnQueryOptions = {}
+): Promise<CursorResult<VendorReturnListItem>> {
+  const { search, status, vendorId, storeId, cursor, limit = 20 } = options;
+
+  const where: Prisma.VendorReturnWhereInput = {
+    tenantId,
+    isDeleted: false,
+  };
+
+  if (status && status !== "ALL") where.status = status as VendorReturnStatus;
+  if (vendorId) where.vendorId = vendorId;
+  if (storeId) where.storeId = storeId;
+
+  if (search) {
+    where.OR = [
+      { returnNumber: { contains: search, mode: "insensitive" } },
+      { debitNoteNumber: { contains: search, mode: "insensitive" } },
+      { vendor: { name: { contains: search, mode: "insensitive" } } },
+    ];
+  }
+
+  const records = await prisma.vendorReturn.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take: limit + 1,
+    ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    select: {
+      id: true,
+      returnNumber: true,
+      debitNoteNumber: true,
+      vendorId: true,
+      vendor: { select: { name: true } },
+      storeId: true,
+      store: { select: { name: true } },
+      status: true,
+      subtotal: true,
+      tax: true,
+      total: true,
+      version: true,
+      createdAt: true,
+      _count: { select: { items: true } },
+    },
+  });
+
+  const hasMore = records.length > limit;
+  const data = hasMore ? records.slice(0, limit) : records;
+
+  return {
+    data: data.map((r) => ({
+      id: r.id,
+      returnNumber: r.returnNumber,
+      debitNoteNumber: r.debitNoteNumber,
+      vendorId: r.vendorId,
+      vendorName: r.vendor.name,
+      storeId: r.storeId,
+      storeName: r.store.name,
+      status: r.status,
+      subtotal: r.subtotal.toString(),
+      tax: r.tax.toString(),
+      total: r.total.toString(),
+      itemCount: r._count.items,
+      version: r.version,
+      createdAt: r.createdAt.toISOString(),
+    })),
+    pagination: {
+      cursor: data.length > 0 ? data[data.length - 1].id : null,
+      hasMore,
+    },
+  };
+}
+
+// =====================================================
+// GET VENDOR RETURN BY ID
+// =====================================================
+
+export async function getVendorReturnById(
+  tenantId: string,
+  returnId: string
+): Promise<VendorReturnDetail | null> {
+  const vendorReturn = await prisma.vendorReturn.findFirst({
+    where: { id: returnId, tenantId, isDeleted: false },
+    include: VENDOR_RETURN_INCLUDE,
+  });
+
+  if (!vendorReturn) return null;
+  return mapVendorReturnDetail(vendorReturn);
+}
+
+// =====================================================
+// DEBIT NOTE (PRINT)
+// =====================================================
+
+export async function getDebitNote(
+  tenantId: string,
+  returnId: string
+): Promise<DebitNotePrint> {
+  const vendorReturn = await getVendorReturnById(tenantId, returnId);
+  if (!vendorReturn) {
+    throw new AppError("Vendor return not found", 404, "NOT_FOUND");
+  }
+  if (!vendorReturn.debitNoteNumber) {
+    throw new AppError("Debit note is issued once the return is approved", 400, "DEBIT_NOTE_NOT_ISSUED");
+  }
+
+  return { ...vendorReturn, letterhead: await getTenantLetterhead(tenantId) };
+}
+
+// =====================================================
+// MAPPER
+// =====================================================
+
+type VendorReturnWithRelations = Prisma.VendorReturnGetPayload<{ include: typeof VENDOR_RETURN_INCLUDE }>;
+
+function splitGst(tax: InstanceType<typeof Decimal>, storeGst: string | null, vendorGst: string | null): GstReversal {
+  // The first two GSTIN digits are the state code
+  const interState = !!storeGst && !!vendorGst && storeGst.slice(0, 2) !== vendorGst.slice(0, 2);
+  if (interState) return { cgst: "0", sgst: "0", igst: tax.toFixed(2) };
+  const half = tax.div(2).toDecimalPlaces(2);
+  return { cgst: half.toFixed(2), sgst: tax.sub(half).toFixed(2), igst: "0" };
+}
+
+function mapVendorReturnDetail(vr: VendorReturnWithRelations): VendorReturnDetail {
+  return {
+    id: vr.id,
+    returnNumber: vr.returnNumber,
+    debitNoteNumber: vr.debitNoteNumber,
+    debitNoteDate: vr.debitNoteDate?.toISOString() ?? null,
+    vendorId: vr.vendorId,
+    vendorName: vr.vendor.name,
+    vendorCode: vr.vendor.code,
+    vendorGst: vr.vendor.gstNumber,
+    vendorContactPerson: vr.vendor.contactPerson,
+    vendorContactNumber: vr.vendor.contactNumber,
+    storeId: vr.storeId,
+    storeName: vr.store.name,
+    storeGst: vr.store.gstNumber,
+    status: vr.status,
+    notes: vr.notes,
+    subtotal: vr.subtotal.toString(),
+    tax: vr.tax.toString(),
+    total: vr.total.toString(),
+    gst: splitGst(vr.tax, vr.store.gstNumber, vr.vendor.gstNumber),
+    approvedBy: vr.approvedBy,
+    approvedAt: vr.approvedAt?.toISOString() ?? null,
+    version: vr.version,
+    createdBy: vr.createdBy,
+    createdAt: vr.createdAt.toISOString(),
+    updatedAt: vr.updatedAt.toISOString(),
+    items: vr.items.map((item) => ({
+      id: item.id,
+      goodsReceiptItemId: item.goodsReceiptItemId,
+      grnNumber: item.goodsReceiptItem.goodsReceipt.grnNumber,
+      productId: item.productId,
+      productCode: item.product.code,
+      productName: item.product.name,
+      hsnCode: item.product.hsnCode,
+      batchNumber: item.batchNumber,
+      expiryDate: item.expiryDate.toISOString(),
+      quantity: item.quantity,
+      reason: item.reason,
+      unitCost: item.unitCost.toString(),
+      gstPercent: item.gstPercent.toString(),
+      tax: item.tax.toString(),
+      total: item.total.toString(),
+    })),
+  };
+}
@@ -11,6 +11,7 @@ export interface VendorCreateInput {
   contactPerson?: string;
   contactNumber?: string;
   email?: string;
+  leadTimeDays?: number;
 }
 
 export interface VendorUpdateInput {
@@ -20,6 +21,7 @@ export interface VendorUpdateInput {
   contactPerson?: string;
   contactNumber?: string;
   email?: string;
+  leadTimeDays?: number;
   status?: "ACTIVE" | "INACTIVE";
 }
 
@@ -56,6 +58,7 @@ export async function createVendor(
       contactPerson: input.contactPerson || null,
       contactNumber: input.contactNumber || null,
       email: input.email || null,
+      leadTimeDays: input.leadTimeDays ?? 7,
       status: "ACTIVE",
       isDeleted: false,
       createdBy: userId,
@@ -117,6 +120,7 @@ export async function getVendors(
       contactPerson: true,
       contactNumber: true,
       email: true,
+      leadTimeDays: true,
       status: true,
       updatedAt: true,
     },
@@ -172,6 +176,7 @@ export async function updateVendor(
   if (input.contactPerson !== undefined) updateData.contactPerson = input.contactPerson;
   if (input.contactNumber !== undefined) updateData.contactNumber = input.contactNumber;
   if (input.email !== undefined) updateData.email = input.email;
+  if (input.leadTimeDays !== undefined) updateData.leadTimeDays = input.leadTimeDays;
   if (input.status !== undefined) updateData.status = input.status;
 
   const updated = await prisma.vendor.update({
@@ -0,0 +1,587 @@
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/rbac";
+import { createAuditLog } from "@/lib/audit";
+import { deductBatchStock } from "./stock-allocation.service";
+import type { Prisma, StockWriteOffStatus, StockDisposalReason } from "@/app/generated/prisma/client";
+import { Prisma as PrismaNamespace } from "@/app/generated/prisma/client";
+import type { CreateWriteOffInput, WriteOffWitnessInput } from "@/lib/schemas/pharmacy-return-schema";
+
+const Decimal = PrismaNamespace.Decimal;
+
+/** Witness sign-offs needed before a write-off with scheduled drugs can be approved */
+const REQUIRED_WITNESSES = 2;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface WriteOffItemResponse {
+  id: string;
+  productId: string;
+  productCode: string;
+  productName: string;
+  scheduleType: string;
+  batchNumber: string;
+  expiryDate: string | null;
+  quantity: number;
+  reason: StockDisposalReason;
+  unitCost: string;
+  value: string;
+  isScheduled: boolean;
+}
+
+interface WriteOffWitnessResponse {
+  id: string;
+  userId: string;
+  name: string;
+  designation: string | null;
+  signature: string;
+  signedAt: string;
+}
+
+interface WriteOffListItem {
+  id: string;
+  writeOffNumber: string;
+  storeId: string;
+  storeName: string;
+  status: StockWriteOffStatus;
+  totalValue: string;
+  requiresWitness: boolean;
+  witnessCount: number;
+  itemCount: number;
+  version: number;
+  createdAt: string;
+  approvedAt: string | null;
+}
+
+interface WriteOffDetail {
+  id: string;
+  writeOffNumber: string;
+  storeId: string;
+  storeName: string;
+  status: StockWriteOffStatus;
+  destructionMethod: string | null;
+  notes: string | null;
+  totalValue: string;
+  requiresWitness: boolean;
+  requiredWitnesses: number;
+  approvedBy: string | null;
+  approvedAt: string | null;
+  rejectionReason: string | null;
+  version: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  items: WriteOffItemResponse[];
+  witnesses: WriteOffWitnessResponse[];
+}
+
+interface CursorResult<T> {
+  data: T[];
+  pagination: { cursor: string | null; hasMore: boolean };
+}
+
+interface WriteOffQueryOptions {
+  search?: string;
+  status?: string;
+  storeId?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+const WRITE_OFF_INCLUDE = {
+  store: { select: { id: true, name: true } },
+  items: { include: { product: { select: { code: true, name: true, scheduleType: true } } } },
+  witnesses: { orderBy: { signedAt: "asc" } },
+} satisfies Prisma.StockWriteOffInclude;
+
+// =====================================================
+// WRITE-OFF NUMBER GENERATOR
+// =====================================================
+
+async function generateWriteOffNumber(
+  tenantId: string,
+  tx: Prisma.TransactionClient
+): Promise<string> {
+  const year = new Date().getFullYear();
+  const prefix = `WO-${year}-`;
+
+  const last = await tx.stockWriteOff.findFirst({
+    where: { tenantId, writeOffNumber: { startsWith: prefix } },
+    orderBy: { writeOffNumber: "desc" },
+    select: { writeOffNumber: true },
+  });
+
+  let seq = 1;
+  if (last) {
+    const num = parseInt(last.writeOffNumber.replace(prefix, ""), 10);
+    if (!isNaN(num)) seq = num + 1;
+  }
+
+  return `${prefix}${String(seq).padStart(5, "0")}`;
+}
+
+async function lockPendingWriteOff(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  writeOffId: string,
+  version: number
+) {
+  await tx.$executeRaw`SELECT id FROM "StockWriteOff" WHERE id = ${writeOffId} FOR UPDATE`;
+
+  const writeOff = await tx.stockWriteOff.findFirst({
+    where: { id: writeOffId, tenantId, isDeleted: false },
+    include: WRITE_OFF_INCLUDE,
+  });
+  if (!writeOff) throw new AppError("Write-off not found", 404, "WRITE_OFF_NOT_FOUND");
+  if (writeOff.status !== "PENDING") {
+    throw new AppError(`Write-off is already ${writeOff.status}`, 400, "WRITE_OFF_INVALID_STATUS");
+  }
+  if (writeOff.version !== version) throw new AppError("Record modified by another user", 409, "VERSION_CONFLICT");
+  return writeOff;
+}
+
+// =====================================================
+// CREATE WRITE-OFF (PENDING)
+// =====================================================
+
+export async function createWriteOff(
+  tenantId: string,
+  userId: string,
+  input: CreateWriteOffInput
+): Promise<WriteOffDetail> {
+  return prisma.$transaction(async (tx) => {
+    const store = await tx.store.findFirst({
+      where: { id: input.storeId, tenantId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!store) throw new AppError("Store not found", 404, "STORE_NOT_FOUND");
+
+    const keys = input.items.map((i) => `${i.productId}|${i.batchNumber}`);
+    if (new Set(keys).size !== keys.length) {
+      throw new AppError("Each batch can appear only once in a write-off", 400, "DUPLICATE_BATCH");
+    }
+
+    const productIds = [...new Set(input.items.map((i) => i.productId))];
+    const products = await tx.product.findMany({
+      where: { id: { in: productIds }, tenantId, isDeleted: false },
+      select: { id: true, name: true, scheduleType: true, isNarcotic: true, purchasePrice: true },
+    });
+    const productMap = new Map(products.map((p) => [p.id, p]));
+
+    const batchStock = await tx.inventoryLedger.groupBy({
+      by: ["productId", "batchNumber", "expiryDate"],
+      where: { tenantId, storeId: input.storeId, productId: { in: productIds } },
+      _sum: { quantityChange: true },
+    });
+
+    let totalValue = new Decimal(0);
+    const itemsData = input.items.map((line) => {
+      const product = productMap.get(line.productId);
+      if (!product) throw new AppError(`Product ${line.productId} not found`, 404, "PRODUCT_NOT_FOUND");
+
+      const rows = batchStock.filter((b) => b.productId === line.productId && b.batchNumber === line.batchNumber);
+      const available = rows.reduce((sum, b) => sum + (b._sum.quantityChange ?? 0), 0);
+      if (line.quantity > available) {
+        throw new AppError(
+          `Insufficient stock for ${product.name} (${line.batchNumber}). On hand: ${available}`,
+          400,
+          "INSUFFICIENT_STOCK"
+        );
+      }
+
+      const unitCost = product.purchasePrice ?? new Decimal(0);
+      const value = unitCost.mul(line.quantity);
+      totalValue = totalValue.add(value);
+
+      return {
+        tenantId,
+        productId: line.productId,
+        batchNumber: line.batchNumber,
+        expiryDate: rows.find((b) => b.expiryDate)?.expiryDate ?? null,
+        quantity: line.quantity,
+        reason: line.reason,
+        unitCost,
+        value,
+        isScheduled: product.isNarcotic || product.scheduleType !== "OTC",
+      };
+    });
+
+    const requiresWitness = itemsData.some((i) => i.isScheduled);
+    const writeOffNumber = await generateWriteOffNumber(tenantId, tx);
+
+    const writeOff = await tx.stockWriteOff.create({
+      data: {
+        tenantId,
+        writeOffNumber,
+        storeId: input.storeId,
+        status: "PENDING",
+        destructionMethod: input.destructionMethod || null,
+        notes: input.notes || null,
+        totalValue,
+        requiresWitness,
+        createdBy: userId,
+        updatedBy: userId,
+        items: { create: itemsData },
+      },
+      include: WRITE_OFF_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_WRITE_OFF",
+      entityId: writeOff.id,
+      action: "CREATE",
+      newValue: { writeOffNumber, storeId: input.storeId, totalValue: totalValue.toString(), requiresWitness },
+    });
+
+    return mapWriteOffDetail(writeOff);
+  });
+}
+
+// =====================================================
+// WITNESS SIGN-OFF
+// =====================================================
+
+/**
+ * Records the signed-in user as a witness. The typed signature must match
+ * their own name; the person who raised the write-off cannot witness it.
+ */
+export async function signWriteOffAsWitness(
+  tenantId: string,
+  userId: string,
+  writeOffId: string,
+  input: WriteOffWitnessInput
+): Promise<WriteOffDetail> {
+  return prisma.$transaction(async (tx) => {
+    const writeOff = await lockPendingWriteOff(tx, tenantId, writeOffId, input.version);
+    if (writeOff.createdBy === userId) {
+      throw new AppError("The person who raised the write-off cannot sign as witness", 400, "WITNESS_IS_RAISER");
+    }
+    if (writeOff.witnesses.some((w) => w.userId === userId)) {
+      throw new AppError("You have already signed this write-off", 400, "ALREADY_WITNESSED");
+    }
+
+    const user = await tx.user.findFirst({
+      where: { id: userId, tenantId },
+      select: { fullName: true },
+    });
+    if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+    const signature = input.signature.trim();
+    if (signature.toLowerCase() !== user.fullName.trim().toLowerCase()) {
+      throw new AppError("Signature must match your full name", 400, "SIGNATURE_MISMATCH");
+    }
+
+    await tx.stockWriteOffWitness.create({
+      data: {
+        writeOffId,
+        userId,
+        name: user.fullName,
+        designation: input.designation || null,
+        signature,
+      },
+    });
+
+    const updated = await tx.stockWriteOff.update({
+      where: { id: writeOffId },
+      data: { updatedBy: userId, version: { increment: 1 } },
+      include: WRITE_OFF_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_WRITE_OFF",
+      entityId: writeOffId,
+      action: "UPDATE",
+      newValue: { witness: user.fullName, designation: input.designation || null },
+    });
+
+    return mapWriteOffDetail(updated);
+  });
+}
+
+// =====================================================
+// APPROVE WRITE-OFF (POST WRITE_OFF LEDGER)
+// =====================================================
+
+export async function approveWriteOff(
+  tenantId: string,
+  userId: string,
+  writeOffId: string,
+  version: number
+): Promise<WriteOffDetail> {
+  return prisma.$transaction(async (tx) => {
+    const writeOff = await lockPendingWriteOff(tx, tenantId, writeOffId, version);
+    if (writeOff.createdBy === userId) {
+      throw new AppError("A write-off cannot be approved by the person who raised it", 403, "SELF_APPROVAL");
+    }
+    if (writeOff.requiresWitness && writeOff.witnesses.length < REQUIRED_WITNESSES) {
+      throw new AppError(
+        `Scheduled drugs need ${REQUIRED_WITNESSES} witness signatures before approval (${writeOff.witnesses.length} signed)`,
+        400,
+        "WITNESS_REQUIRED"
+      );
+    }
+
+    for (const item of writeOff.items) {
+      const { ledgerEntryId } = await deductBatchStock(tx, {
+        tenantId,
+        storeId: writeOff.storeId,
+        productId: item.productId,
+        batchNumber: item.batchNumber,
+        quantity: item.quantity,
+        transactionType: "WRITE_OFF",
+        referenceNumber: writeOff.writeOffNumber,
+        notes: `Write-off ${writeOff.writeOffNumber} (${item.reason})`,
+        userId,
+      });
+      await tx.stockWriteOffItem.update({ where: { id: item.id }, data: { ledgerEntryId } });
+
+      if (item.isScheduled) {
+        await createAuditLog({
+          tenantId,
+          performedBy: userId,
+          entityType: "CONTROLLED_DRUG_WRITE_OFF",
+          entityId: writeOff.id,
+          action: "UPDATE",
+          newValue: {
+            writeOffNumber: writeOff.writeOffNumber,
+            productId: item.productId,
+            productName: item.product.name,
+            scheduleType: item.product.scheduleType,
+            batchNumber: item.batchNumber,
+            quantity: item.quantity,
+            witnesses: writeOff.witnesses.map((w) => w.name),
+          },
+        });
+      }
+    }
+
+    const updated = await tx.stockWriteOff.update({
+      where: { id: writeOffId },
+      data: {
+        status: "APPROVED",
+        approvedBy: userId,
+        approvedAt: new Date(),
+        updatedBy: userId,
+        version: { increment: 1 },
+      },
+      include: WRITE_OFF_INCLUDE,
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_WRITE_OFF",
+      entityId: writeOffId,
+      action: "STATUS_CHANGE",
+      oldValue: { status: "PENDING" },
+      newValue: { status: "APPROVED", totalValue: updated.totalValue.toString() },
+    });
+
+    return mapWriteOffDetail(updated);
+  });
+}
+
+// =====================================================
+// REJECT / CANCEL WRITE-OFF
+// =====================================================
+
+export async function rejectWriteOff(
+  tenantId: string,
+  userId: string,
+  writeOffId: string,
+  version: number,
+  reason: string
+): Promise<{ id: string; status: StockWriteOffStatus }> {
+  return prisma.$transaction(async (tx) => {
+    await lockPendingWriteOff(tx, tenantId, writeOffId, version);
+
+    const updated = await tx.stockWriteOff.update({
+      where: { id: writeOffId },
+      data: { status: "REJECTED", rejectionReason: reason, updatedBy: userId, version: { increment: 1 } },
+      select: { id: true, status: true },
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_WRITE_OFF",
+      entityId: writeOffId,
+      action: "STATUS_CHANGE",
+      oldValue: { status: "PENDING" },
+      newValue: { status: "REJECTED", reason },
+    });
+
+    return updated;
+  });
+}
+
+export async function cancelWriteOff(
+  tenantId: string,
+  userId: string,
+  writeOffId: string,
+  version: number
+): Promise<{ id: string; status: StockWriteOffStatus }> {
+  return prisma.$transaction(async (tx) => {
+    await lockPendingWriteOff(tx, tenantId, writeOffId, version);
+
+    const updated = await tx.stockWriteOff.update({
+      where: { id: writeOffId },
+      data: { status: "CANCELLED", updatedBy: userId, version: { increment: 1 } },
+      select: { id: true, status: true },
+    });
+
+    await createAuditLog({
+      tenantId,
+      performedBy: userId,
+      entityType: "STOCK_WRITE_OFF",
+      entityId: writeOffId,
+      action: "STATUS_CHANGE",
+      oldValue: { status: "PENDING" },
+      newValue: { status: "CANCELLED" },
+    });
+
+    return updated;
+  });
+}
+
+// =====================================================
+// GET WRITE-OFFS (CURSOR PAGINATION)
+// =====================================================
+
+export async function getWriteOffsCursor(
+  tenantId: string,
+  options: WriteOffQueryOptions = {}
+): Promise<CursorResult<WriteOffListItem>> {
+  const { search, status, storeId, cursor, limit = 20 } = options;
+
+  const where: Prisma.StockWriteOffWhereInput = {
+    tenantId,
+    isDeleted: false,
+  };
+
+  if (status && status !== "ALL") where.status = status as StockWriteOffStatus;
+  if (storeId) where.storeId = storeId;
+  if (search) {
+    where.OR = [
+      { writeOffNumber: { contains: search, mode: "insensitive" } },
+      { items: { some: { batchNumber: { contains: search, mode: "insensitive" } } } },
+      { items: { some: { product: { name: { contains: search, mode: "insensitive" } } } } },
+    ];
+  }
+
+  const records = await prisma.stockWriteOff.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take: limit + 1,
+    ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    select: {
+      id: true,
+      writeOffNumber: true,
+      storeId: true,
+      store: { select: { name: true } },
+      status: true,
+      totalValue: true,
+      requiresWitness: true,
+      version: true,
+      createdAt: true,
+      approvedAt: true,
+      _count: { select: { items: true, witnesses: true } },
+    },
+  });
+
+  const hasMore = records.length > limit;
+  const data = hasMore ? records.slice(0, limit) : records;
+
+  return {
+    data: data.map((r) => ({
+      id: r.id,
+      writeOffNumber: r.writeOffNumber,
+      storeId: r.storeId,
+      storeName: r.store.name,
+      status: r.status,
+      totalValue: r.totalValue.toString(),
+      requiresWitness: r.requiresWitness,
+      witnessCount: r._count.witnesses,
+      itemCount: r._count.items,
+      version: r.version,
+      createdAt: r.createdAt.toISOString(),
+      approvedAt: r.approvedAt?.toISOString() ?? null,
+    })),
+    pagination: {
+      cursor: data.length > 0 ? data[data.length - 1].id : null,
+      hasMore,
+    },
+  };
+}
+
+// =====================================================
+// GET WRITE-OFF BY ID
+// =====================================================
+
+export async function getWriteOffById(
+  tenantId: string,
+  writeOffId: string
+): Promise<WriteOffDetail | null> {
+  const writeOff = await prisma.stockWriteOff.findFirst({
+    where: { id: writeOffId, tenantId, isDeleted: false },
+    include: WRITE_OFF_INCLUDE,
+  });
+
+  if (!writeOff) return null;
+  return mapWriteOffDetail(writeOff);
+}
+
+// =====================================================
+// MAPPER
+// =====================================================
+
+type WriteOffWithRelations = Prisma.StockWriteOffGetPayload<{ include: typeof WRITE_OFF_INCLUDE }>;
+
+function mapWriteOffDetail(wo: WriteOffWithRelations): WriteOffDetail {
+  return {
+    id: wo.id,
+    writeOffNumber: wo.writeOffNumber,
+    storeId: wo.storeId,
+    storeName: wo.store.name,
+    status: wo.status,
+    destructionMethod: wo.destructionMethod,
+    notes: wo.notes,
+    totalValue: wo.totalValue.toString(),
+    requiresWitness: wo.requiresWitness,
+    requiredWitnesses: wo.requiresWitness ? REQUIRED_WITNESSES : 0,
+    approvedBy: wo.approvedBy,
+    approvedAt: wo.approvedAt?.toISOString() ?? null,
+    rejectionReason: wo.rejectionReason,
+    version: wo.version,
+    createdBy: wo.createdBy,
+    createdAt: wo.createdAt.toISOString(),
+    updatedAt: wo.updatedAt.toISOString(),
+    items: wo.items.map((item) => ({
+      id: item.id,
+      productId: item.productId,
+      productCode: item.product.code,
+      productName: item.product.name,
+      scheduleType: item.product.scheduleType,
+      batchNumber: item.batchNumber,
+      expiryDate: item.expiryDate?.toISOString() ?? null,
+      quantity: item.quantity,
+      reason: item.reason,
+      unitCost: item.unitCost.toString(),
+      value: item.value.toString(),
+      isScheduled: item.isScheduled,
+    })),
+    witnesses: wo.witnesses.map((w) => ({
+      id: w.id,
+      userId: w.userId,
+      name: w.name,
+      designation: w.designation,
+      signature: w.signature,
+      signedAt: w.signedAt.toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Prescription Safety Checks
+ *
+ * Runs at prescribing time against:
+ * 1. Drug-drug interactions (DrugInteractionRule, keyed by generic name or drug class)
+ * 2. Duplicate therapy (same generic, or same drug class)
+ * 3. Patient allergies (Patient.allergies text + active ALLERGY_ALERT flag)
+ *
+ * Warnings are severity graded. A MAJOR warning blocks the save unless at
+ * least one of the involved items carries a doctor override reason.
+ */
+
+import { prisma } from "@/lib/prisma";
+
+// ============== TYPES ==============
+
+export type WarningSeverity = 'MINOR' | 'MODERATE' | 'MAJOR';
+export type WarningType = 'INTERACTION' | 'DUPLICATE_THERAPY' | 'ALLERGY';
+
+export interface PrescriptionWarning {
+  type: WarningType;
+  severity: WarningSeverity;
+  /** Indexes into the submitted items array */
+  itemIndexes: number[];
+  medicines: string[];
+  message: string;
+  management?: string | null;
+}
+
+export interface SafetyCheckItem {
+  medicineName: string;
+  genericName?: string | null;
+  overrideReason?: string | null;
+}
+
+interface DrugProfile {
+  index: number;
+  name: string;
+  generic: string | null;
+  drugClass: string | null;
+  keys: Set<string>;
+}
+
+const SEVERITY_ORDER: Record<WarningSeverity, number> = { MINOR: 1, MODERATE: 2, MAJOR: 3 };
+
+// Allergy entries that mean "no known allergy"
+const NO_ALLERGY_TERMS = new Set(["nil", "none", "no", "nka", "nkda", "na", "n/a", "not known", "no known", "no known drug", "no known allergies", "no known drug allergies"]);
+
+// ============== HELPERS ==============
+
+export function normalizeDrugKey(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Split free-text allergy notes into individual terms
+ */
+function parseAllergyTerms(...sources: Array<string | null | undefined>): string[] {
+  const terms = new Set<string>();
+  for (const source of sources) {
+    if (!source) continue;
+    for (const raw of source.split(/[,;\n/]|\band\b/i)) {
+      const term = normalizeDrugKey(raw.replace(/\ballerg(y|ic)\b( to)?/gi, ""));
+      if (term.length < 3 || NO_ALLERGY_TERMS.has(term)) continue;
+      terms.add(term);
+    }
+  }
+  return Array.from(terms);
+}
+
+/**
+ * Resolve generic name and drug class for each item from the Medicine master.
+ * Tenant medicines win over global ones.
+ */
+async function resolveDrugProfiles(tenantId: string, items: SafetyCheckItem[]): Promise<DrugProfile[]> {
+  const names = Array.from(new Set(
+    items.flatMap(i => [i.medicineName, i.genericName]).filter((n): n is string => !!n && !!n.trim())
+  ));
+
+  const medicines = names.length === 0 ? [] : await prisma.medicine.findMany({
+    where: {
+      OR: [{ tenantId }, { tenantId: null }],
+      isActive: true,
+      isDeleted: false,
+      AND: [{
+        OR: names.flatMap(name => [
+          { brandName: { equals: name.trim(), mode: 'insensitive' as const } },
+          { genericName: { equals: name.trim(), mode: 'insensitive' as const } },
+        ]),
+      }],
+    },
+    select: { tenantId: true, brandName: true, genericName: true, drugClass: true },
+  });
+
+  const findMedicine = (name: string | null | undefined) => {
+    if (!name) return undefined;
+    const key = normalizeDrugKey(name);
+    const matches = medicines.filter(m =>
+      normalizeDrugKey(m.brandName) === key || (m.genericName && normalizeDrugKey(m.genericName) === key)
+    );
+    return matches.find(m => m.tenantId === tenantId) ?? matches[0];
+  };
+
+  return items.map((item, index) => {
+    const medicine = findMedicine(item.medicineName) ?? findMedicine(item.genericName);
+    const generic = item.genericName || medicine?.genericName || null;
+    const drugClass = medicine?.drugClass || null;
+
+    const keys = new Set<string>();
+    keys.add(normalizeDrugKey(item.medicineName));
+    if (generic) keys.add(normalizeDrugKey(generic));
+    if (drugClass) keys.add(normalizeDrugKey(drugClass));
+
+    return {
+      index,
+      name: item.medicineName,
+      generic: generic ? normalizeDrugKey(generic) : null,
+      drugClass: drugClass ? normalizeDrugKey(drugClass) : null,
+      keys,
+    };
+  });
+}
+
+// ============== CHECKS ==============
+
+async function checkInteractions(tenantId: string, profiles: DrugProfile[]): Promise<PrescriptionWarning[]> {
+  if (profiles.length < 2) return [];
+
+  const allKeys = Array.from(new Set(profiles.flatMap(p => Array.from(p.keys))));
+  const rules = await prisma.drugInteractionRule.findMany({
+    where: {
+      OR: [{ tenantId }, { tenantId: null }],
+      isActive: true,
+      drugA: { in: allKeys },
+      drugB: { in: allKeys },
+    },
+  });
+
+  const warnings: PrescriptionWarning[] = [];
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      const a = profiles[i];
+      const b = profiles[j];
+      const matched = rules.filter(r =>
+        (a.keys.has(r.drugA) && b.keys.has(r.drugB)) || (a.keys.has(r.drugB) && b.keys.has(r.drugA))
+      );
+      if (matched.length === 0) continue;
+
+      // Tenant rule for the same pair overrides the global one
+      const byPair = new Map<string, typeof matched[number]>();
+      for (const rule of matched) {
+        const pairKey = [rule.drugA, rule.drugB].sort().join("|");
+        const existing = byPair.get(pairKey);
+        if (!existing || (rule.tenantId && !existing.tenantId)) byPair.set(pairKey, rule);
+      }
+
+      for (const rule of byPair.values()) {
+        warnings.push({
+          type: 'INTERACTION',
+          severity: rule.severity,
+          itemIndexes: [a.index, b.index],
+          medicines: [a.name, b.name],
+          message: `${a.name} + ${b.name}: ${rule.description}`,
+          management: rule.management,
+        });
+      }
+    }
+  }
+  return warnings;
+}
+
+function checkDuplicateTherapy(profiles: DrugProfile[]): PrescriptionWarning[] {
+  const warnings: PrescriptionWarning[] = [];
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      const a = profiles[i];
+      const b = profiles[j];
+      if (a.generic && a.generic === b.generic) {
+        warnings.push({
+          type: 'DUPLICATE_THERAPY',
+          severity: 'MAJOR',
+          itemIndexes: [a.index, b.index],
+          medicines: [a.name, b.name],
+          message: `${a.name} and ${b.name} contain the same drug (${a.generic})`,
+        });
+      } else if (a.drugClass && a.drugClass === b.drugClass) {
+        warnings.push({
+          type: 'DUPLICATE_THERAPY',
+          severity: 'MODERATE',
+          itemIndexes: [a.index, b.index],
+          medicines: [a.name, b.name],
+          message: `${a.name} and ${b.name} are both ${a.drugClass}`,
+        });
+      }
+    }
+  }
+  return warnings;
+}
+
+function checkAllergies(profiles: DrugProfile[], allergyTerms: string[]): PrescriptionWarning[] {
+  const warnings: PrescriptionWarning[] = [];
+  for (const profile of profiles) {
+    const hit = allergyTerms.find(term =>
+      Array.from(profile.keys).some(key => key.includes(term) || (key.length >= 4 && term.includes(key)))
+    );
+    if (hit) {
+      warnings.push({
+        type: 'ALLERGY',
+        severity: 'MAJOR',
+        itemIndexes: [profile.index],
+        medicines: [profile.name],
+        message: `Patient has a recorded allergy to "${hit}" (${profile.name})`,
+      });
+    }
+  }
+  return warnings;
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * Run all safety checks for a prescription about to be saved.
+ * Returns warnings sorted by severity (MAJOR first).
+ */
+export async function checkPrescriptionSafety(
+  tenantId: string,
+  patientId: string,
+  items: SafetyCheckItem[]
+): Promise<PrescriptionWarning[]> {
+  if (items.length === 0) return [];
+
+  const [patient, allergyFlag, profiles] = await Promise.all([
+    prisma.patient.findFirst({
+      where: { id: patientId, tenantId },
+      select: { allergies: true },
+    }),
+    prisma.patientFlag.findFirst({
+      where: { tenantId, patientId, flagType: 'ALLERGY_ALERT', isActive: true },
+      select: { notes: true },
+    }),
+    resolveDrugProfiles(tenantId, items),
+  ]);
+
+  const allergyTerms = parseAllergyTerms(patient?.allergies, allergyFlag?.notes);
+
+  const warnings = [
+    ...checkAllergies(profiles, allergyTerms),
+    ...checkDuplicateTherapy(profiles),
+    ...await checkInteractions(tenantId, profiles),
+  ];
+
+  return warnings.sort((a, b) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity]);
+}
+
+/**
+ * Pre-save check for the consultation screen (no writes)
+ */
+export async function checkVisitPrescriptionSafety(
+  visitId: string,
+  tenantId: string,
+  items: SafetyCheckItem[]
+): Promise<PrescriptionWarning[] | null> {
+  const visit = await prisma.visit.findFirst({
+    where: { id: visitId, tenantId },
+    select: { patientId: true },
+  });
+  if (!visit) return null;
+
+  return checkPrescriptionSafety(tenantId, visit.patientId, items);
+}
+
+/**
+ * MAJOR warnings where none of the involved items has an override reason
+ */
+export function getUnresolvedMajorWarnings(
+  warnings: PrescriptionWarning[],
+  items: SafetyCheckItem[]
+): PrescriptionWarning[] {
+  return warnings.filter(w =>
+    w.severity === 'MAJOR' && !w.itemIndexes.some(i => items[i]?.overrideReason?.trim())
+  );
+}
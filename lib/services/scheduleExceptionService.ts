@@ -0,0 +1,434 @@
+/**
+ * HMS Appointment System - Holiday & Schedule Exception Service
+ *
+ * Tenant holidays and per-doctor date-range exceptions (leave, conference,
+ * partial-day blocks and extra sessions). Slot generation applies these in
+ * availabilityService; this service manages them and lists the appointments
+ * a new closure affects.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit";
+import {
+  CreateHolidayInput,
+  HolidayQueryInput,
+  CreateScheduleExceptionInput,
+  ScheduleExceptionQueryInput,
+} from "@/lib/schemas/availability-schema";
+import {
+  Holiday,
+  DoctorScheduleException,
+  ScheduleExceptionType,
+  AvailabilityStatus,
+} from "@/app/generated/prisma/client";
+
+// ============== TYPES ==============
+
+interface ServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface AffectedAppointment {
+  id: string;
+  tokenNumber: number | null;
+  appointmentDate: Date;
+  appointmentTime: string | null;
+  status: string;
+  patient: { id: string; uhid: string; firstName: string; lastName: string | null; phoneNumber: string | null };
+  doctorMaster: { id: string; fullName: string } | null;
+  department: { id: string; name: string } | null;
+}
+
+interface ScheduleExceptionWithRelations extends DoctorScheduleException {
+  doctor: { id: string; doctorCode: string; fullName: string };
+  department: { id: string; code: string; name: string } | null;
+}
+
+interface AffectedRange {
+  doctorId?: string;
+  startDate: Date;
+  endDate: Date;
+  startTime?: string | null;
+  endTime?: string | null;
+}
+
+// ============== HELPER FUNCTIONS ==============
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function endOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(23, 59, 59, 999);
+  return d;
+}
+
+/**
+ * Upcoming appointments that fall inside a closure. Partial-day ranges only
+ * match appointments whose slot starts inside the blocked window.
+ */
+async function findAffectedAppointments(
+  tenantId: string,
+  range: AffectedRange
+): Promise<AffectedAppointment[]> {
+  const from = startOfDay(range.startDate);
+  const today = startOfDay(new Date());
+
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      tenantId,
+      ...(range.doctorId && { doctorMasterId: range.doctorId }),
+      appointmentDate: {
+        gte: from > today ? from : today,
+        lte: endOfDay(range.endDate),
+      },
+      status: { in: ["BOOKED", "CONFIRMED", "RESCHEDULED"] },
+    },
+    select: {
+      id: true,
+      tokenNumber: true,
+      appointmentDate: true,
+      appointmentTime: true,
+      status: true,
+      patient: { select: { id: true, uhid: true, firstName: true, lastName: true, phoneNumber: true } },
+      doctorMaster: { select: { id: true, fullName: true } },
+      department: { select: { id: true, name: true } },
+    },
+    orderBy: [{ appointmentDate: "asc" }, { appointmentTime: "asc" }],
+  });
+
+  if (!range.startTime || !range.endTime) return appointments;
+
+  const { startTime, endTime } = range;
+  // HH:mm strings compare correctly as text
+  return appointments.filter(
+    (a) => !a.appointmentTime || (a.appointmentTime >= startTime && a.appointmentTime < endTime)
+  );
+}
+
+const exceptionInclude = {
+  doctor: { select: { id: true, doctorCode: true, fullName: true } },
+  department: { select: { id: true, code: true, name: true } },
+};
+
+// ============== SERVICE ==============
+
+export const scheduleExceptionService = {
+  // ---------- Holidays ----------
+
+  /**
+   * List tenant holidays, optionally within a date range
+   */
+  async listHolidays(tenantId: string, query: HolidayQueryInput): Promise<Holiday[]> {
+    return prisma.holiday.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        ...((query.from || query.to) && {
+          date: {
+            ...(query.from && { gte: startOfDay(query.from) }),
+            ...(query.to && { lte: endOfDay(query.to) }),
+          },
+        }),
+      },
+      orderBy: { date: "asc" },
+    });
+  },
+
+  /**
+   * Create a hospital holiday and list the appointments booked on it
+   */
+  async createHoliday(
+    tenantId: string,
+    input: CreateHolidayInput,
+    performedBy: string
+  ): Promise<ServiceResult<{ holiday: Holiday; affectedAppointments: AffectedAppointment[] }>> {
+    try {
+      const date = startOfDay(input.date);
+
+      const existing = await prisma.holiday.findUnique({
+        where: { tenantId_date: { tenantId, date } },
+      });
+
+      if (existing?.isActive) {
+        return { success: false, error: `${existing.name} is already a holiday on this date`, errorCode: "HOLIDAY_EXISTS" };
+      }
+
+      const holiday = existing
+        ? await prisma.holiday.update({
+            where: { id: existing.id },
+            data: { name: input.name, isActive: true, version: { increment: 1 }, updatedBy: performedBy },
+          })
+        : await prisma.holiday.create({
+            data: { tenantId, date, name: input.name, createdBy: performedBy },
+          });
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "HOLIDAY",
+        entityId: holiday.id,
+        action: "CREATE",
+        newValue: holiday,
+      });
+
+      const affectedAppointments = await findAffectedAppointments(tenantId, { startDate: date, endDate: date });
+
+      return { success: true, data: { holiday, affectedAppointments } };
+    } catch (error) {
+      console.error("Create holiday error:", error);
+      return { success: false, error: "Failed to create holiday", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Remove a holiday; slots for the date are generated again
+   */
+  async deleteHoliday(
+    tenantId: string,
+    id: string,
+    performedBy: string
+  ): Promise<ServiceResult<void>> {
+    try {
+      const existing = await prisma.holiday.findFirst({
+        where: { id, tenantId, isActive: true },
+      });
+
+      if (!existing) {
+        return { success: false, error: "Holiday not found", errorCode: "NOT_FOUND" };
+      }
+
+      await prisma.holiday.update({
+        where: { id },
+        data: { isActive: false, version: { increment: 1 }, updatedBy: performedBy },
+      });
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "HOLIDAY",
+        entityId: id,
+        action: "DELETE",
+        oldValue: existing,
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error("Delete holiday error:", error);
+      return { success: false, error: "Failed to delete holiday", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Appointments still booked on a holiday
+   */
+  async getHolidayAffectedAppointments(
+    tenantId: string,
+    id: string
+  ): Promise<ServiceResult<AffectedAppointment[]>> {
+    const holiday = await prisma.holiday.findFirst({ where: { id, tenantId, isActive: true } });
+
+    if (!holiday) {
+      return { success: false, error: "Holiday not found", errorCode: "NOT_FOUND" };
+    }
+
+    const data = await findAffectedAppointments(tenantId, { startDate: holiday.date, endDate: holiday.date });
+    return { success: true, data };
+  },
+
+  // ---------- Doctor exceptions ----------
+
+  /**
+   * List schedule exceptions for a doctor
+   */
+  async list(
+    tenantId: string,
+    query: ScheduleExceptionQueryInput
+  ): Promise<ScheduleExceptionWithRelations[]> {
+    return prisma.doctorScheduleException.findMany({
+      where: {
+        tenantId,
+        ...(query.doctorId && { doctorId: query.doctorId }),
+        ...(!query.includeInactive && { status: "ACTIVE" as AvailabilityStatus }),
+        ...(query.to && { startDate: { lte: endOfDay(query.to) } }),
+        endDate: { gte: startOfDay(query.from ?? new Date()) },
+      },
+      include: exceptionInclude,
+      orderBy: [{ startDate: "asc" }, { startTime: "asc" }],
+    }) as Promise<ScheduleExceptionWithRelations[]>;
+  },
+
+  /**
+   * Create a leave, block or extra session and list the appointments it affects
+   */
+  async create(
+    tenantId: string,
+    input: CreateScheduleExceptionInput,
+    performedBy: string
+  ): Promise<ServiceResult<{ exception: ScheduleExceptionWithRelations; affectedAppointments: AffectedAppointment[] }>> {
+    try {
+      const doctor = await prisma.doctor.findFirst({
+        where: { id: input.doctorId, tenantId, isDeleted: false },
+      });
+
+      if (!doctor) {
+        return { success: false, error: "Doctor not found", errorCode: "DOCTOR_NOT_FOUND" };
+      }
+
+      if (input.departmentId) {
+        const department = await prisma.department.findFirst({
+          where: { id: input.departmentId, tenantId, isDeleted: false },
+        });
+
+        if (!department) {
+          return { success: false, error: "Department not found", errorCode: "DEPARTMENT_NOT_FOUND" };
+        }
+      }
+
+      const startDate = startOfDay(input.startDate);
+      const endDate = startOfDay(input.endDate);
+
+      // Same-type whole-day exceptions must not overlap (e.g. two leaves for one date)
+      if (input.type !== "EXTRA_SESSION" && !input.startTime) {
+        const overlapping = await prisma.doctorScheduleException.findFirst({
+          where: {
+            tenantId,
+            doctorId: input.doctorId,
+            status: "ACTIVE",
+            type: { not: "EXTRA_SESSION" },
+            startTime: null,
+            startDate: { lte: endDate },
+            endDate: { gte: startDate },
+          },
+        });
+
+        if (overlapping) {
+          return {
+            success: false,
+            error: `Doctor is already marked ${overlapping.type.toLowerCase()} for part of this period`,
+            errorCode: "EXCEPTION_OVERLAP",
+          };
+        }
+      }
+
+      const exception = await prisma.doctorScheduleException.create({
+        data: {
+          tenantId,
+          doctorId: input.doctorId,
+          departmentId: input.departmentId ?? null,
+          type: input.type as ScheduleExceptionType,
+          startDate,
+          endDate,
+          startTime: input.startTime ?? null,
+          endTime: input.endTime ?? null,
+          slotDurationMinutes: input.type === "EXTRA_SESSION" ? input.slotDurationMinutes ?? 15 : null,
+          maxPatientsPerSlot: input.type === "EXTRA_SESSION" ? input.maxPatientsPerSlot ?? 1 : null,
+          reason: input.reason,
+          createdBy: performedBy,
+        },
+        include: exceptionInclude,
+      });
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "DOCTOR_SCHEDULE_EXCEPTION",
+        entityId: exception.id,
+        action: "CREATE",
+        newValue: exception,
+      });
+
+      const affectedAppointments =
+        input.type === "EXTRA_SESSION"
+          ? []
+          : await findAffectedAppointments(tenantId, {
+              doctorId: input.doctorId,
+              startDate,
+              endDate,
+              startTime: input.startTime,
+              endTime: input.endTime,
+            });
+
+      return {
+        success: true,
+        data: { exception: exception as ScheduleExceptionWithRelations, affectedAppointments },
+      };
+    } catch (error) {
+      console.error("Create schedule exception error:", error);
+      return { success: false, error: "Failed to create schedule exception", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Withdraw an exception; the weekly schedule applies again
+   */
+  async cancel(
+    tenantId: string,
+    id: string,
+    performedBy: string
+  ): Promise<ServiceResult<void>> {
+    try {
+      const existing = await prisma.doctorScheduleException.findFirst({
+        where: { id, tenantId, status: "ACTIVE" },
+      });
+
+      if (!existing) {
+        return { success: false, error: "Schedule exception not found", errorCode: "NOT_FOUND" };
+      }
+
+      await prisma.doctorScheduleException.update({
+        where: { id },
+        data: { status: "INACTIVE", version: { increment: 1 }, updatedBy: performedBy },
+      });
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "DOCTOR_SCHEDULE_EXCEPTION",
+        entityId: id,
+        action: "CANCEL",
+        oldValue: existing,
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error("Cancel schedule exception error:", error);
+      return { success: false, error: "Failed to cancel schedule exception", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Appointments still booked inside a leave or block
+   */
+  async getAffectedAppointments(
+    tenantId: string,
+    id: string
+  ): Promise<ServiceResult<AffectedAppointment[]>> {
+    const exception = await prisma.doctorScheduleException.findFirst({
+      where: { id, tenantId, status: "ACTIVE" },
+    });
+
+    if (!exception) {
+      return { success: false, error: "Schedule exception not found", errorCode: "NOT_FOUND" };
+    }
+
+    if (exception.type === "EXTRA_SESSION") {
+      return { success: true, data: [] };
+    }
+
+    const data = await findAffectedAppointments(tenantId, {
+      doctorId: exception.doctorId,
+      startDate: exception.startDate,
+      endDate: exception.endDate,
+      startTime: exception.startTime,
+      endTime: exception.endTime,
+    });
+    return { success: true, data };
+  },
+};
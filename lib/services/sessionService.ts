@@ -0,0 +1,405 @@
+/**
+ * HMS Auth - Session Service
+ *
+ * Server-side login sessions. Each login creates a UserSession row; the access
+ * token (15 min) carries its id and the refresh token ("<sessionId>.<secret>",
+ * stored hashed) is rotated on every refresh. Refreshing re-reads the user's
+ * roles and departments, so permission changes apply without a new login.
+ *
+ * A session ends when it expires, the user logs out, an admin revokes it, or
+ * the user is deactivated, has their roles changed or has their password
+ * changed or reset. Presenting an already rotated refresh token (outside a
+ * short grace window for parallel requests) is treated as token theft and
+ * revokes the session.
+ */
+
+import crypto from "crypto";
+import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit";
+import { getUserPermissionCodes } from "@/lib/rbac";
+import { getClientIP } from "@/lib/middleware/rate-limiter";
+import {
+  createTenantToken,
+  createSuperAdminToken,
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS,
+  type SessionPayload,
+} from "@/lib/auth";
+
+// ============== TYPES ==============
+
+interface ServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface SessionMeta {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface IssuedSession {
+  sessionId: string;
+  accessToken: string;
+  /** Omitted when a parallel request already rotated the refresh token */
+  refreshToken?: string;
+  payload: SessionPayload;
+}
+
+export type SessionRevokeReason =
+  | "LOGOUT"
+  | "ADMIN_REVOKED"
+  | "USER_DEACTIVATED"
+  | "ROLES_CHANGED"
+  | "USER_INACTIVE"
+  | "REFRESH_TOKEN_REUSE"
+  | "PASSWORD_CHANGED"
+  | "PASSWORD_RESET";
+
+type SessionClaims = Omit<SessionPayload, "exp" | "iat" | "sessionId">;
+
+/** A just-rotated refresh token is still honoured this long (parallel tabs/requests) */
+const ROTATION_GRACE_SECONDS = 30;
+
+// ============== HELPER FUNCTIONS ==============
+
+function hashSecret(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+function generateSecret(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+function parseRefreshToken(token: string): { sessionId: string; secret: string } | null {
+  const [sessionId, secret] = token.split(".");
+  if (!sessionId || !secret) return null;
+  return { sessionId, secret };
+}
+
+const BROWSER_PATTERNS: Array<[RegExp, string]> = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Chrome\//, "Chrome"],
+  [/Firefox\//, "Firefox"],
+  [/Safari\//, "Safari"],
+];
+
+const OS_PATTERNS: Array<[RegExp, string]> = [
+  [/Windows/, "Windows"],
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+/**
+ * Short device description from the user agent, e.g. "Chrome on Windows"
+ */
+function describeDevice(userAgent: string | null): string | null {
+  if (!userAgent) return null;
+  const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? "Browser";
+  const os = OS_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? "Unknown OS";
+  return `${browser} on ${os}`;
+}
+
+export function getSessionMeta(request: Request): SessionMeta {
+  const ipAddress = getClientIP(request);
+  return {
+    userAgent: request.headers.get("user-agent"),
+    ipAddress: ipAddress === "unknown" ? null : ipAddress,
+  };
+}
+
+/**
+ * Current token claims for a user, or null when the user (or their tenant)
+ * may no longer sign in
+ */
+async function loadSessionClaims(userId: string): Promise<SessionClaims | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      tenant: { select: { code: true, name: true, isActive: true } },
+      userDepartments: { where: { isActive: true }, select: { departmentId: true } },
+    },
+  });
+
+  if (!user || !user.isActive) return null;
+
+  if (user.isSuperAdmin && !user.tenantId) {
+    return {
+      userId: user.id,
+      email: user.email,
+      username: user.username,
+      fullName: user.fullName,
+      tenantId: null,
+      tenantCode: null,
+      tenantName: null,
+      isSuperAdmin: true,
+      permissions: [], // super admin has all
+      departmentIds: [],
+    };
+  }
+
+  if (!user.tenant || !user.tenant.isActive) return null;
+
+  return {
+    userId: user.id,
+    email: user.email,
+    username: user.username,
+    fullName: user.fullName,
+    tenantId: user.tenantId,
+    tenantCode: user.tenant.code,
+    tenantName: user.tenant.name,
+    isSuperAdmin: false,
+    permissions: await getUserPermissionCodes(user.id, user.tenantId),
+    departmentIds: user.userDepartments.map((ud) => ud.departmentId),
+  };
+}
+
+async function signAccessToken(claims: SessionClaims, sessionId: string): Promise<string> {
+  return claims.isSuperAdmin
+    ? createSuperAdminToken({ ...claims, sessionId })
+    : createTenantToken({ ...claims, sessionId });
+}
+
+// ============== SERVICE ==============
+
+export const sessionService = {
+  /**
+   * Start a session after a successful login
+   */
+  async start(claims: SessionClaims, meta: SessionMeta): Promise<Required<IssuedSession>> {
+    const sessionId = crypto.randomUUID();
+    const secret = generateSecret();
+
+    await prisma.userSession.create({
+      data: {
+        id: sessionId,
+        userId: claims.userId,
+        tenantId: claims.tenantId,
+        isSuperAdmin: claims.isSuperAdmin,
+        refreshTokenHash: hashSecret(secret),
+        deviceLabel: describeDevice(meta.userAgent),
+        userAgent: meta.userAgent,
+        ipAddress: meta.ipAddress,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+      },
+    });
+
+    const accessToken = await signAccessToken(claims, sessionId);
+    const now = Math.floor(Date.now() / 1000);
+
+    return {
+      sessionId,
+      accessToken,
+      refreshToken: `${sessionId}.${secret}`,
+      payload: { ...claims, sessionId, iat: now, exp: now + ACCESS_TOKEN_TTL_SECONDS },
+    };
+  },
+
+  /**
+   * Start a session for a user whose credentials were verified earlier (e.g.
+   * after a required password change); null when the user may not sign in
+   */
+  async startForUser(userId: string, meta: SessionMeta): Promise<Required<IssuedSession> | null> {
+    const claims = await loadSessionClaims(userId);
+    if (!claims) return null;
+    return this.start(claims, meta);
+  },
+
+  /**
+   * Exchange a refresh token for a new access token and a rotated refresh token
+   */
+  async refresh(refreshToken: string, meta: SessionMeta): Promise<ServiceResult<IssuedSession>> {
+    try {
+      const parsed = parseRefreshToken(refreshToken);
+      if (!parsed) {
+        return { success: false, error: "Invalid refresh token", errorCode: "INVALID_TOKEN" };
+      }
+
+      const session = await prisma.userSession.findUnique({ where: { id: parsed.sessionId } });
+      if (!session) {
+        return { success: false, error: "Session not found", errorCode: "INVALID_TOKEN" };
+      }
+      if (session.revokedAt) {
+        return { success: false, error: "Session has been revoked", errorCode: "SESSION_REVOKED" };
+      }
+      if (session.expiresAt <= new Date()) {
+        return { success: false, error: "Session has expired", errorCode: "SESSION_EXPIRED" };
+      }
+
+      const presentedHash = hashSecret(parsed.secret);
+      const isCurrent = presentedHash === session.refreshTokenHash;
+      const inGrace =
+        presentedHash === session.previousRefreshTokenHash &&
+        !!session.rotatedAt &&
+        Date.now() - session.rotatedAt.getTime() < ROTATION_GRACE_SECONDS * 1000;
+
+      if (!isCurrent && !inGrace) {
+        await this.revokeSession(session.id, null, "REFRESH_TOKEN_REUSE");
+        return { success: false, error: "Session has been revoked", errorCode: "SESSION_REVOKED" };
+      }
+
+      const claims = await loadSessionClaims(session.userId);
+      if (!claims) {
+        await this.revokeSession(session.id, null, "USER_INACTIVE");
+        return { success: false, error: "Account is inactive", errorCode: "SESSION_REVOKED" };
+      }
+
+      const accessToken = await signAccessToken(claims, session.id);
+      const now = Math.floor(Date.now() / 1000);
+      const payload: SessionPayload = { ...claims, sessionId: session.id, iat: now, exp: now + ACCESS_TOKEN_TTL_SECONDS };
+
+      // A parallel request already rotated the token; the browser has the new one
+      if (!isCurrent) {
+        return { success: true, data: { sessionId: session.id, accessToken, payload } };
+      }
+
+      const secret = generateSecret();
+      const rotated = await prisma.userSession.updateMany({
+        where: { id: session.id, refreshTokenHash: session.refreshTokenHash, revokedAt: null },
+        data: {
+          refreshTokenHash: hashSecret(secret),
+          previousRefreshTokenHash: session.refreshTokenHash,
+          rotatedAt: new Date(),
+          lastUsedAt: new Date(),
+          userAgent: meta.userAgent ?? session.userAgent,
+          ipAddress: meta.ipAddress ?? session.ipAddress,
+        },
+      });
+
+      if (rotated.count === 0) {
+        // Lost a rotation race; treat like the grace case
+        return { success: true, data: { sessionId: session.id, accessToken, payload } };
+      }
+
+      return {
+        success: true,
+        data: { sessionId: session.id, accessToken, refreshToken: `${session.id}.${secret}`, payload },
+      };
+    } catch (error) {
+      console.error("Refresh session error:", error);
+      return { success: false, error: "Failed to refresh session", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Whether the session behind an access token is still valid
+   */
+  async isActive(sessionId: string): Promise<boolean> {
+    const session = await prisma.userSession.findFirst({
+      where: {
+        id: sessionId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+        user: { isActive: true },
+      },
+      select: { id: true },
+    });
+    return !!session;
+  },
+
+  /**
+   * Revoke one session by id (no tenant check; callers verify ownership)
+   */
+  async revokeSession(
+    sessionId: string,
+    performedBy: string | null,
+    reason: SessionRevokeReason
+  ): Promise<boolean> {
+    const result = await prisma.userSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedBy: performedBy, revokeReason: reason },
+    });
+    return result.count > 0;
+  },
+
+  /**
+   * Active sessions of a tenant user, most recently used first
+   */
+  async listForUser(tenantId: string, userId: string) {
+    return prisma.userSession.findMany({
+      where: { tenantId, userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        deviceLabel: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastUsedAt: "desc" },
+    });
+  },
+
+  /**
+   * Admin revocation of a single session belonging to a tenant user
+   */
+  async revoke(
+    tenantId: string,
+    userId: string,
+    sessionId: string,
+    performedBy: string
+  ): Promise<ServiceResult<void>> {
+    try {
+      const session = await prisma.userSession.findFirst({
+        where: { id: sessionId, tenantId, userId, revokedAt: null },
+        select: { id: true },
+      });
+
+      if (!session) {
+        return { success: false, error: "Session not found", errorCode: "NOT_FOUND" };
+      }
+
+      await this.revokeSession(sessionId, performedBy, "ADMIN_REVOKED");
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "USER_SESSION",
+        entityId: sessionId,
+        action: "REVOKE",
+        newValue: { userId, reason: "ADMIN_REVOKED" },
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      return { success: false, error: "Failed to revoke session", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * End every active session of a user (forced logout), optionally keeping the
+   * session that made the change
+   */
+  async revokeAllForUser(
+    tenantId: string | null,
+    userId: string,
+    performedBy: string | null,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await prisma.userSession.updateMany({
+      where: { userId, revokedAt: null, ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}) },
+      data: { revokedAt: new Date(), revokedBy: performedBy, revokeReason: reason },
+    });
+
+    if (result.count > 0) {
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "USER_SESSION",
+        entityId: userId,
+        action: "REVOKE_ALL",
+        newValue: { reason, count: result.count },
+      });
+    }
+
+    return result.count;
+  },
+};
@@ -0,0 +1,536 @@
+/**
+ * HMS Auth - Two-Factor Authentication Service
+ *
+ * Optional TOTP second factor with QR provisioning and one-time recovery
+ * codes. Tenants can make it mandatory for chosen roles (TenantSetting
+ * "two_factor"); superadmins always need it. Users who must use 2FA but have
+ * not enrolled yet enroll during login.
+ *
+ * Login with 2FA is two-step: a correct password yields a short-lived
+ * pending token (see createTwoFactorPendingToken), and only a valid code for
+ * that token starts a session. Wrong codes count towards the password
+ * policy's lockout.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit";
+import { verifyPassword, verifyTwoFactorPendingToken, type TwoFactorPendingClaims } from "@/lib/auth";
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpAuthUrl,
+  encryptTotpSecret,
+  decryptTotpSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from "@/lib/totp";
+import { passwordService, describeLock } from "@/lib/services/passwordService";
+import { TwoFactorSettingsInput, TwoFactorLoginInput } from "@/lib/schemas/auth-schema";
+
+// ============== TYPES ==============
+
+interface ServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  errorCode?: string;
+}
+
+export type TwoFactorSettings = {
+  requiredRoleCodes: string[];
+};
+
+/** VERIFY: enter a code; ENROLL: 2FA is mandatory but not set up yet */
+export type TwoFactorLoginMode = "VERIFY" | "ENROLL";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorLoginResult extends TwoFactorPendingClaims {
+  /** Set when 2FA was enrolled during this login; shown to the user once */
+  recoveryCodes?: string[];
+}
+
+type TwoFactorUser = NonNullable<Awaited<ReturnType<typeof loadUser>>>;
+
+/** TenantSetting key holding the roles that must use 2FA */
+export const TWO_FACTOR_SETTING_KEY = "two_factor";
+
+const DEFAULT_ISSUER = "HMS Cloud";
+const RECOVERY_CODE_COUNT = 10;
+
+// ============== HELPER FUNCTIONS ==============
+
+function parseSettings(value: unknown): TwoFactorSettings {
+  const v = (value ?? {}) as Partial<TwoFactorSettings>;
+  return {
+    requiredRoleCodes: Array.isArray(v.requiredRoleCodes)
+      ? v.requiredRoleCodes.filter((code): code is string => typeof code === "string")
+      : [],
+  };
+}
+
+async function loadUser(userId: string) {
+  return prisma.user.findUnique({
+    where: { id: userId },
+    include: { tenant: { select: { name: true } } },
+  });
+}
+
+/**
+ * Check a TOTP or recovery code for an enrolled user, consuming it on success
+ */
+async function consumeCode(user: TwoFactorUser, code: string): Promise<"TOTP" | "RECOVERY_CODE" | null> {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) return null;
+
+  const normalized = code.replace(/\s/g, "");
+  if (/^\d{6}$/.test(normalized)) {
+    const step = verifyTotp(decryptTotpSecret(user.twoFactorSecret), normalized, user.twoFactorLastStep);
+    if (step === null) return null;
+    // Conditional update so the same code cannot be accepted twice in parallel
+    const updated = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+    return updated.count > 0 ? "TOTP" : null;
+  }
+
+  const used = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId: user.id, codeHash: hashRecoveryCode(normalized), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return used.count > 0 ? "RECOVERY_CODE" : null;
+}
+
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+  return codes;
+}
+
+const INVALID_CODE: ServiceResult<never> = {
+  success: false,
+  error: "Invalid authentication code",
+  errorCode: "INVALID_CODE",
+};
+
+const TOKEN_INVALID: ServiceResult<never> = {
+  success: false,
+  error: "Your sign-in has expired. Please sign in again",
+  errorCode: "TOKEN_INVALID",
+};
+
+// ============== SERVICE ==============
+
+export const twoFactorService = {
+  // ---------- Tenant settings ----------
+
+  /**
+   * Roles that must use 2FA in a tenant
+   */
+  async getSettings(tenantId: string): Promise<TwoFactorSettings> {
+    const setting = await prisma.tenantSetting.findUnique({
+      where: { tenantId_key: { tenantId, key: TWO_FACTOR_SETTING_KEY } },
+    });
+    return parseSettings(setting?.value);
+  },
+
+  /**
+   * Roles that can be made mandatory
+   */
+  async getRoleOptions(tenantId: string) {
+    return prisma.role.findMany({
+      where: { tenantId },
+      orderBy: { code: "asc" },
+      select: { code: true, name: true },
+    });
+  },
+
+  /**
+   * Set the roles that must use 2FA; affected users enroll at their next login
+   */
+  async updateSettings(
+    tenantId: string,
+    input: TwoFactorSettingsInput,
+    performedBy: string
+  ): Promise<ServiceResult<TwoFactorSettings>> {
+    try {
+      const existing = await this.getSettings(tenantId);
+      const roles = await prisma.role.findMany({
+        where: { tenantId, code: { in: input.requiredRoleCodes } },
+        select: { code: true },
+      });
+      const settings: TwoFactorSettings = { requiredRoleCodes: roles.map((r) => r.code) };
+
+      await prisma.tenantSetting.upsert({
+        where: { tenantId_key: { tenantId, key: TWO_FACTOR_SETTING_KEY } },
+        create: {
+          tenantId,
+          key: TWO_FACTOR_SETTING_KEY,
+          value: settings,
+          createdBy: performedBy,
+          updatedBy: performedBy,
+        },
+        update: { value: settings, updatedBy: performedBy },
+      });
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "TENANT_SETTING",
+        entityId: TWO_FACTOR_SETTING_KEY,
+        action: "UPDATE",
+        oldValue: existing,
+        newValue: settings,
+      });
+
+      return { success: true, data: settings };
+    } catch (error) {
+      console.error("Update 2FA settings error:", error);
+      return { success: false, error: "Failed to update settings", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Superadmins always; tenant users when one of their roles is in the tenant's list
+   */
+  async isRequired(user: { id: string; tenantId: string | null; isSuperAdmin: boolean }): Promise<boolean> {
+    if (user.isSuperAdmin) return true;
+    if (!user.tenantId) return false;
+
+    const { requiredRoleCodes } = await this.getSettings(user.tenantId);
+    if (requiredRoleCodes.length === 0) return false;
+
+    const match = await prisma.userRole.findFirst({
+      where: { userId: user.id, role: { tenantId: user.tenantId, code: { in: requiredRoleCodes } } },
+      select: { roleId: true },
+    });
+    return !!match;
+  },
+
+  // ---------- Login ----------
+
+  /**
+   * Second step required after a correct password, if any
+   */
+  async getLoginMode(user: {
+    id: string;
+    tenantId: string | null;
+    isSuperAdmin: boolean;
+    twoFactorEnabled: boolean;
+  }): Promise<TwoFactorLoginMode | null> {
+    if (user.twoFactorEnabled) return "VERIFY";
+    return (await this.isRequired(user)) ? "ENROLL" : null;
+  },
+
+  /**
+   * Enrollment during login for users who must use 2FA but have not set it up
+   */
+  async startLoginEnrollment(pendingToken: string): Promise<ServiceResult<TwoFactorEnrollment>> {
+    const claims = await verifyTwoFactorPendingToken(pendingToken);
+    if (!claims) return TOKEN_INVALID;
+
+    const user = await loadUser(claims.userId);
+    if (!user || !user.isActive || user.twoFactorEnabled) return TOKEN_INVALID;
+
+    return this.startEnrollment(user.id);
+  },
+
+  /**
+   * Verify the second factor for a pending login. For users enrolling during
+   * login the code also confirms enrollment and recovery codes are returned.
+   */
+  async completeLogin(input: TwoFactorLoginInput): Promise<ServiceResult<TwoFactorLoginResult>> {
+    try {
+      const claims = await verifyTwoFactorPendingToken(input.pendingToken);
+      if (!claims) return TOKEN_INVALID;
+
+      const user = await loadUser(claims.userId);
+      if (!user || !user.isActive) return TOKEN_INVALID;
+
+      const lock = passwordService.getLockState(user);
+      if (lock.locked) {
+        return { success: false, error: describeLock(lock), errorCode: "ACCOUNT_LOCKED" };
+      }
+
+      const policy = await passwordService.getPolicy(user.tenantId);
+      const result: TwoFactorLoginResult = {
+        userId: user.id,
+        tenantId: user.tenantId,
+        isSuperAdmin: user.isSuperAdmin,
+      };
+
+      let method: "TOTP" | "RECOVERY_CODE" | null;
+      if (user.twoFactorEnabled) {
+        method = await consumeCode(user, input.code);
+      } else {
+        if (!user.twoFactorSecret) {
+          return { success: false, error: "Set up your authenticator app first", errorCode: "NOT_ENROLLING" };
+        }
+        const confirmed = await this.confirmEnrollment(user.id, input.code);
+        method = confirmed.success ? "TOTP" : null;
+        result.recoveryCodes = confirmed.data?.recoveryCodes;
+      }
+
+      if (!method) {
+        const failed = await passwordService.recordFailedLogin(user, policy);
+        if (failed.locked) {
+          return { success: false, error: describeLock(failed), errorCode: "ACCOUNT_LOCKED" };
+        }
+        return INVALID_CODE;
+      }
+
+      await passwordService.recordSuccessfulLogin(user);
+
+      if (method === "RECOVERY_CODE") {
+        await createAuditLog({
+          tenantId: user.tenantId,
+          performedBy: user.id,
+          entityType: "User",
+          entityId: user.id,
+          action: "TWO_FACTOR_RECOVERY_CODE_USED",
+        });
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("2FA login error:", error);
+      return { success: false, error: "Failed to verify code", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  // ---------- Enrollment ----------
+
+  /**
+   * 2FA state of a user
+   */
+  async getStatus(userId: string): Promise<ServiceResult<TwoFactorStatus>> {
+    const user = await loadUser(userId);
+    if (!user) {
+      return { success: false, error: "User not found", errorCode: "NOT_FOUND" };
+    }
+
+    const recoveryCodesRemaining = user.twoFactorEnabled
+      ? await prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } })
+      : 0;
+
+    return {
+      success: true,
+      data: {
+        enabled: user.twoFactorEnabled,
+        enabledAt: user.twoFactorEnabledAt,
+        required: await this.isRequired(user),
+        recoveryCodesRemaining,
+      },
+    };
+  },
+
+  /**
+   * Generate a new secret for the authenticator app; 2FA is only active once
+   * a code from it is confirmed. Signed-in users re-enter their password.
+   */
+  async startEnrollment(
+    userId: string,
+    options: { currentPassword?: string } = {}
+  ): Promise<ServiceResult<TwoFactorEnrollment>> {
+    try {
+      const user = await loadUser(userId);
+      if (!user) {
+        return { success: false, error: "User not found", errorCode: "NOT_FOUND" };
+      }
+      if (user.twoFactorEnabled) {
+        return { success: false, error: "Two-factor authentication is already enabled", errorCode: "ALREADY_ENABLED" };
+      }
+      if (options.currentPassword !== undefined && !(await verifyPassword(options.currentPassword, user.passwordHash))) {
+        return { success: false, error: "Current password is incorrect", errorCode: "INVALID_PASSWORD" };
+      }
+
+      const secret = generateTotpSecret();
+      await prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorSecret: encryptTotpSecret(secret), twoFactorLastStep: null },
+      });
+
+      const issuer = user.tenant?.name ?? DEFAULT_ISSUER;
+      return { success: true, data: { secret, otpauthUrl: buildOtpAuthUrl(issuer, user.email, secret) } };
+    } catch (error) {
+      console.error("Start 2FA enrollment error:", error);
+      return { success: false, error: "Failed to start enrollment", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * Turn 2FA on with a code from the newly added authenticator; returns the
+   * recovery codes (shown once)
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<ServiceResult<{ recoveryCodes: string[] }>> {
+    try {
+      const user = await loadUser(userId);
+      if (!user) {
+        return { success: false, error: "User not found", errorCode: "NOT_FOUND" };
+      }
+      if (user.twoFactorEnabled) {
+        return { success: false, error: "Two-factor authentication is already enabled", errorCode: "ALREADY_ENABLED" };
+      }
+      if (!user.twoFactorSecret) {
+        return { success: false, error: "Set up your authenticator app first", errorCode: "NOT_ENROLLING" };
+      }
+
+      const step = verifyTotp(decryptTotpSecret(user.twoFactorSecret), code);
+      if (step === null) return INVALID_CODE;
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: true, twoFactorEnabledAt: new Date(), twoFactorLastStep: step },
+      });
+      const recoveryCodes = await replaceRecoveryCodes(userId);
+
+      await createAuditLog({
+        tenantId: user.tenantId,
+        performedBy: userId,
+        entityType: "User",
+        entityId: userId,
+        action: "TWO_FACTOR_ENABLE",
+      });
+
+      return { success: true, data: { recoveryCodes } };
+    } catch (error) {
+      console.error("Confirm 2FA enrollment error:", error);
+      return { success: false, error: "Failed to enable two-factor authentication", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * New set of recovery codes; the old ones stop working
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<ServiceResult<{ recoveryCodes: string[] }>> {
+    try {
+      const user = await loadUser(userId);
+      if (!user || !user.twoFactorEnabled) {
+        return { success: false, error: "Two-factor authentication is not enabled", errorCode: "NOT_ENABLED" };
+      }
+      if (!(await consumeCode(user, code))) return INVALID_CODE;
+
+      const recoveryCodes = await replaceRecoveryCodes(userId);
+
+      await createAuditLog({
+        tenantId: user.tenantId,
+        performedBy: userId,
+        entityType: "User",
+        entityId: userId,
+        action: "TWO_FACTOR_RECOVERY_CODES_REGENERATE",
+      });
+
+      return { success: true, data: { recoveryCodes } };
+    } catch (error) {
+      console.error("Regenerate recovery codes error:", error);
+      return { success: false, error: "Failed to regenerate recovery codes", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  /**
+   * User turns 2FA off (not allowed while one of their roles requires it)
+   */
+  async disable(userId: string, code: string): Promise<ServiceResult<void>> {
+    try {
+      const user = await loadUser(userId);
+      if (!user || !user.twoFactorEnabled) {
+        return { success: false, error: "Two-factor authentication is not enabled", errorCode: "NOT_ENABLED" };
+      }
+      if (await this.isRequired(user)) {
+        return {
+          success: false,
+          error: "Two-factor authentication is mandatory for your role",
+          errorCode: "REQUIRED",
+        };
+      }
+      if (!(await consumeCode(user, code))) return INVALID_CODE;
+
+      await prisma.$transaction([
+        prisma.user.update({
+          where: { id: userId },
+          data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+        }),
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      ]);
+
+      await createAuditLog({
+        tenantId: user.tenantId,
+        performedBy: userId,
+        entityType: "User",
+        entityId: userId,
+        action: "TWO_FACTOR_DISABLE",
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error("Disable 2FA error:", error);
+      return { success: false, error: "Failed to disable two-factor authentication", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+
+  // ---------- Admin ----------
+
+  /**
+   * Admin removes a user's 2FA (lost device); if mandatory, the user enrolls
+   * again at their next login
+   */
+  async resetForUser(tenantId: string, userId: string, performedBy: string): Promise<ServiceResult<void>> {
+    try {
+      const user = await prisma.user.findFirst({
+        where: { id: userId, tenantId },
+        select: { id: true, twoFactorEnabled: true, twoFactorSecret: true },
+      });
+      if (!user) {
+        return { success: false, error: "User not found", errorCode: "NOT_FOUND" };
+      }
+      if (!user.twoFactorEnabled && !user.twoFactorSecret) {
+        return { success: false, error: "Two-factor authentication is not set up", errorCode: "NOT_ENABLED" };
+      }
+
+      await prisma.$transaction([
+        prisma.user.update({
+          where: { id: userId },
+          data: {
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorEnabledAt: null,
+            twoFactorLastStep: null,
+            updatedBy: performedBy,
+          },
+        }),
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      ]);
+
+      await createAuditLog({
+        tenantId,
+        performedBy,
+        entityType: "User",
+        entityId: userId,
+        action: "TWO_FACTOR_RESET",
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error("Reset 2FA error:", error);
+      return { success: false, error: "Failed to reset two-factor authentication", errorCode: "INTERNAL_ERROR" };
+    }
+  },
+};
@@ -0,0 +1,149 @@
+/**
+ * HMS Auth: TOTP (RFC 6238) helpers
+ *
+ * 6-digit, 30-second, HMAC-SHA1 codes as used by common authenticator apps.
+ * Secrets are stored encrypted (AES-256-GCM) with a key from
+ * TWO_FACTOR_ENCRYPTION_KEY, falling back to one derived from JWT_SECRET.
+ */
+
+import crypto from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+/** Accept codes from one step before/after to allow for clock drift */
+const TOTP_DRIFT_STEPS = 1;
+
+// ============== BASE32 ==============
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// ============== TOTP ==============
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+function currentStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Time step the code belongs to, or null when it is wrong or was already used
+ * (steps at or before `lastUsedStep` are rejected to prevent replay)
+ */
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number | null): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const now = currentStep();
+  for (let step = now - TOTP_DRIFT_STEPS; step <= now + TOTP_DRIFT_STEPS; step++) {
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+    const expected = totpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return step;
+  }
+  return null;
+}
+
+/**
+ * Provisioning URI shown as a QR code during enrollment
+ */
+export function buildOtpAuthUrl(issuer: string, accountName: string, secret: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// ============== SECRET STORAGE ==============
+
+function getEncryptionKey(): Buffer {
+  const configured = process.env.TWO_FACTOR_ENCRYPTION_KEY;
+  if (configured) return crypto.createHash("sha256").update(configured).digest();
+
+  const secret = process.env.JWT_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("JWT_SECRET must be set and at least 32 characters");
+  }
+  return crypto.createHash("sha256").update(`${secret}:two-factor`).digest();
+}
+
+/**
+ * "<iv>.<tag>.<ciphertext>" (base64url)
+ */
+export function encryptTotpSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((b) => b.toString("base64url")).join(".");
+}
+
+export function decryptTotpSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+// ============== RECOVERY CODES ==============
+
+/**
+ * One-time recovery codes, formatted "xxxxx-xxxxx"
+ */
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z2-7]/g, "");
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
@@ -0,0 +1,137 @@
+/**
+ * Minimal server-side PDF writer.
+ *
+ * Produces single-font-family (Helvetica) A4 documents with text, lines and
+ * filled rectangles — enough for tabular clinical reports without pulling in
+ * a rendering dependency. Coordinates are in points, measured from the
+ * TOP-LEFT corner of the page (converted to PDF's bottom-left origin on write).
+ *
+ * Text is written with WinAnsiEncoding; characters outside Latin-1 are
+ * replaced with "?".
+ */
+
+export type RGB = [number, number, number];
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: RGB;
+  align?: "left" | "right" | "center";
+}
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+function escapeText(text: string): string {
+  let out = "";
+  for (const ch of text.replace(/[\r\n\t]+/g, " ")) {
+    const code = ch.charCodeAt(0);
+    const safe = code > 255 ? "?" : ch;
+    out += safe === "\\" || safe === "(" || safe === ")" ? `\\${safe}` : safe;
+  }
+  return out;
+}
+
+function colorOp(color: RGB, stroke: boolean): string {
+  return `${color.map((c) => (c / 255).toFixed(3)).join(" ")} ${stroke ? "RG" : "rg"}`;
+}
+
+/**
+ * Approximate Helvetica advance width. Good enough for right/center alignment
+ * and truncation of table cells.
+ */
+export function estimateTextWidth(text: string, size: number, bold = false): number {
+  return text.length * size * (bold ? 0.56 : 0.52);
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private current: string[] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.current = [];
+    this.pages.push(this.current);
+  }
+
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const font = options.bold ? "F2" : "F1";
+    const width = estimateTextWidth(text, size, options.bold);
+    const left =
+      options.align === "right" ? x - width : options.align === "center" ? x - width / 2 : x;
+
+    this.current.push(
+      "BT",
+      colorOp(options.color ?? [0, 0, 0], false),
+      `/${font} ${size} Tf`,
+      `${left.toFixed(2)} ${(A4_HEIGHT - y).toFixed(2)} Td`,
+      `(${escapeText(text)}) Tj`,
+      "ET"
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, color: RGB = [0, 0, 0]): void {
+    this.current.push(
+      colorOp(color, true),
+      `${width} w`,
+      `${x1.toFixed(2)} ${(A4_HEIGHT - y1).toFixed(2)} m`,
+      `${x2.toFixed(2)} ${(A4_HEIGHT - y2).toFixed(2)} l`,
+      "S"
+    );
+  }
+
+  rect(x: number, y: number, w: number, h: number, fill: RGB): void {
+    this.current.push(
+      colorOp(fill, false),
+      `${x.toFixed(2)} ${(A4_HEIGHT - y - h).toFixed(2)} ${w.toFixed(2)} ${h.toFixed(2)} re`,
+      "f"
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const fontRegular = 3;
+    const fontBold = 4;
+    const firstPageObj = 5;
+
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    const kids = this.pages.map((_, i) => `${firstPageObj + i * 2} 0 R`).join(" ");
+    objects[2] = `<< /Type /Pages /Kids [${kids}] /Count ${this.pages.length} >>`;
+    objects[fontRegular] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[fontBold] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+    this.pages.forEach((ops, i) => {
+      const pageObj = firstPageObj + i * 2;
+      const contentObj = pageObj + 1;
+      const stream = ops.join("\n");
+      objects[pageObj] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${fontRegular} 0 R /F2 ${fontBold} 0 R >> >> /Contents ${contentObj} 0 R >>`;
+      objects[contentObj] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+    });
+
+    let body = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (let n = 1; n < objects.length; n++) {
+      offsets[n] = Buffer.byteLength(body, "latin1");
+      body += `${n} 0 obj\n${objects[n]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(body, "latin1");
+    body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let n = 1; n < objects.length; n++) {
+      body += `${String(offsets[n]).padStart(10, "0")} 00000 n \n`;
+    }
+    body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(body, "latin1");
+  }
+}
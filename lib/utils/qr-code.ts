@@ -0,0 +1,373 @@
+/**
+ * Minimal QR code encoder (ISO/IEC 18004) for short provisioning URIs such as
+ * the otpauth:// links scanned by authenticator apps.
+ *
+ * Byte mode, error correction level M, versions 1-15 (up to 412 bytes).
+ * Returns the module matrix; rendering is left to the caller.
+ */
+
+export type QrMatrix = boolean[][];
+
+// Per version: [EC codewords per block, group 1 blocks, group 1 data codewords, group 2 blocks, group 2 data codewords]
+const LEVEL_M_BLOCKS: [number, number, number, number, number][] = [
+  [10, 1, 16, 0, 0],
+  [16, 1, 28, 0, 0],
+  [26, 1, 44, 0, 0],
+  [18, 2, 32, 0, 0],
+  [24, 2, 43, 0, 0],
+  [16, 4, 27, 0, 0],
+  [18, 4, 31, 0, 0],
+  [22, 2, 38, 2, 39],
+  [22, 3, 36, 2, 37],
+  [26, 4, 43, 1, 44],
+  [30, 1, 50, 4, 51],
+  [22, 6, 36, 2, 37],
+  [22, 8, 37, 1, 38],
+  [24, 4, 40, 5, 41],
+  [24, 5, 41, 5, 42],
+];
+
+const ALIGNMENT_POSITIONS: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+  [6, 30, 54],
+  [6, 32, 58],
+  [6, 34, 62],
+  [6, 26, 46, 66],
+  [6, 26, 48, 70],
+];
+
+// Error correction level M in the format information
+const FORMAT_LEVEL_M = 0;
+
+// ============== GF(256) / REED-SOLOMON ==============
+
+const EXP = new Array<number>(512);
+const LOG = new Array<number>(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x11d;
+  }
+  for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+}
+
+function gfMultiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function reedSolomonGenerator(degree: number): number[] {
+  let poly = [1];
+  for (let i = 0; i < degree; i++) {
+    const next = new Array<number>(poly.length + 1).fill(0);
+    for (let j = 0; j < poly.length; j++) {
+      next[j] ^= poly[j];
+      next[j + 1] ^= gfMultiply(poly[j], EXP[i]);
+    }
+    poly = next;
+  }
+  return poly;
+}
+
+function reedSolomonRemainder(data: number[], degree: number): number[] {
+  const generator = reedSolomonGenerator(degree);
+  const remainder = new Array<number>(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ remainder.shift()!;
+    remainder.push(0);
+    for (let i = 0; i < degree; i++) {
+      remainder[i] ^= gfMultiply(generator[i + 1], factor);
+    }
+  }
+  return remainder;
+}
+
+// ============== DATA CODEWORDS ==============
+
+function dataCapacity(version: number): number {
+  const [, blocks1, data1, blocks2, data2] = LEVEL_M_BLOCKS[version - 1];
+  return blocks1 * data1 + blocks2 * data2;
+}
+
+function countBits(version: number): number {
+  return version < 10 ? 8 : 16;
+}
+
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const capacityBits = dataCapacity(version) * 8;
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  push(0b0100, 4); // byte mode
+  push(bytes.length, countBits(version));
+  bytes.forEach((b) => push(b, 8));
+  push(0, Math.min(4, capacityBits - bits.length)); // terminator
+  while (bits.length % 8 !== 0) bits.push(0);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+/**
+ * Split into blocks, add error correction and interleave
+ */
+function addErrorCorrection(data: number[], version: number): number[] {
+  const [ecLength, blocks1, data1, blocks2, data2] = LEVEL_M_BLOCKS[version - 1];
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (let i = 0; i < blocks1 + blocks2; i++) {
+    const length = i < blocks1 ? data1 : data2;
+    blocks.push(data.slice(offset, offset + length));
+    offset += length;
+  }
+  const ecBlocks = blocks.map((block) => reedSolomonRemainder(block, ecLength));
+
+  const result: number[] = [];
+  for (let i = 0; i < Math.max(data1, data2); i++) {
+    for (const block of blocks) if (i < block.length) result.push(block[i]);
+  }
+  for (let i = 0; i < ecLength; i++) {
+    for (const block of ecBlocks) result.push(block[i]);
+  }
+  return result;
+}
+
+// ============== MATRIX ==============
+
+class QrBuilder {
+  readonly size: number;
+  readonly modules: QrMatrix;
+  private readonly reserved: boolean[][];
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawFunctionPatterns() {
+    const size = this.size;
+
+    // Timing patterns
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with separators
+    for (const [cx, cy] of [
+      [3, 3],
+      [size - 4, 3],
+      [3, size - 4],
+    ]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x < 0 || y < 0 || x >= size || y >= size) continue;
+          const dist = Math.max(Math.abs(dx), Math.abs(dy));
+          this.setFunction(x, y, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+
+    // Alignment patterns (skipping the three finder corners)
+    const positions = ALIGNMENT_POSITIONS[this.version - 1];
+    const last = positions.length - 1;
+    positions.forEach((cy, i) => {
+      positions.forEach((cx, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve format areas (written after masking) and the dark module
+    this.drawFormatBits(0);
+
+    if (this.version >= 7) {
+      let rem = this.version;
+      for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+      const bits = (this.version << 12) | rem;
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) !== 0;
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, dark);
+        this.setFunction(b, a, dark);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const size = this.size;
+    const data = (FORMAT_LEVEL_M << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, bit(i));
+    this.setFunction(8, size - 8, true);
+  }
+
+  drawCodewords(codewords: number[]) {
+    const size = this.size;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vert = 0; vert < size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const y = upward ? size - 1 - vert : vert;
+          if (!this.reserved[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.reserved[y][x]) continue;
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        }
+        if (invert) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  /**
+   * Penalty score of the current matrix (lower is easier to scan)
+   */
+  penalty(): number {
+    const size = this.size;
+    const m = this.modules;
+    let score = 0;
+
+    const lineScore = (get: (i: number) => boolean) => {
+      let total = 0;
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && get(i) === get(i - 1)) {
+          run++;
+        } else {
+          if (run >= 5) total += run - 2;
+          run = 1;
+        }
+      }
+      // Finder-like 1:1:3:1:1 patterns with four light modules on one side
+      for (let i = 0; i + 11 <= size; i++) {
+        const p = Array.from({ length: 11 }, (_, k) => get(i + k));
+        const core = p[4] && !p[5] && p[6] && p[7] && p[8] && !p[9] && p[10];
+        const coreRev = p[0] && !p[1] && p[2] && p[3] && p[4] && !p[5] && p[6];
+        if (core && !p[0] && !p[1] && !p[2] && !p[3]) total += 40;
+        if (coreRev && !p[7] && !p[8] && !p[9] && !p[10]) total += 40;
+      }
+      return total;
+    };
+
+    for (let y = 0; y < size; y++) score += lineScore((x) => m[y][x]);
+    for (let x = 0; x < size; x++) score += lineScore((y) => m[y][x]);
+
+    let dark = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (m[y][x]) dark++;
+        if (x < size - 1 && y < size - 1) {
+          const c = m[y][x];
+          if (c === m[y][x + 1] && c === m[y + 1][x] && c === m[y + 1][x + 1]) score += 3;
+        }
+      }
+    }
+    score += Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+
+    return score;
+  }
+}
+
+/**
+ * Encode text (UTF-8) as a QR code matrix; `mask` fixes the mask pattern,
+ * otherwise the one with the lowest penalty is used
+ */
+export function encodeQrCode(text: string, mask?: number): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+  const version = LEVEL_M_BLOCKS.findIndex(
+    (_, i) => 4 + countBits(i + 1) + bytes.length * 8 <= dataCapacity(i + 1) * 8
+  ) + 1;
+  if (version === 0) {
+    throw new Error("Text too long for a QR code");
+  }
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+
+  const build = (maskPattern: number) => {
+    const builder = new QrBuilder(version);
+    builder.drawCodewords(codewords);
+    builder.applyMask(maskPattern);
+    builder.drawFormatBits(maskPattern);
+    return builder;
+  };
+
+  if (mask !== undefined) return build(mask).modules;
+
+  let best: QrBuilder | null = null;
+  let bestScore = Infinity;
+  for (let candidate = 0; candidate < 8; candidate++) {
+    const builder = build(candidate);
+    const score = builder.penalty();
+    if (score < bestScore) {
+      best = builder;
+      bestScore = score;
+    }
+  }
+  return best!.modules;
+}
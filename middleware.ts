@@ -1,9 +1,15 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
-import { jwtVerify } from "jose";
+import {
+  verifyToken,
+  getCookieNames,
+  getSessionCookieOptions,
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS,
+} from "@/lib/auth";
+import { sessionService, getSessionMeta, type IssuedSession } from "@/lib/services/sessionService";
 
-const SUPER_ADMIN_COOKIE = "hms_superadmin_session";
-const COOKIE_NAME = "hms_session";
+const { COOKIE_NAME, SUPER_ADMIN_COOKIE, REFRESH_COOKIE, SUPER_ADMIN_REFRESH_COOKIE } = getCookieNames();
 
 const publicPaths = [
   "/login",
@@ -12,70 +18,125 @@ const publicPaths = [
   "/api/auth/superadmin/login",
 ];
 
-function getJwtSecret() {
-  const secret = process.env.JWT_SECRET;
-  if (!secret || secret.length < 32) return null;
-  return new TextEncoder().encode(secret);
+// API prefixes that authenticate on their own (login/refresh, patient self-service)
+const publicApiPrefixes = ["/api/auth/", "/api/public/"];
+
+function loginUrl(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  return new URL(pathname.startsWith("/superadmin") ? "/superadmin/login" : "/login", request.url);
 }
 
-async function getPayload(token: string) {
-  try {
-    const secret = getJwtSecret();
-    if (!secret) return null;
-    const { payload } = await jwtVerify(token, secret);
-    return payload as { isSuperAdmin?: boolean; userId: string; tenantId?: string | null };
-  } catch {
-    return null;
+/**
+ * Expired, revoked or invalid session: clear cookies, 401 for API calls and
+ * redirect to login for pages
+ */
+function rejectSession(request: NextRequest) {
+  const res = request.nextUrl.pathname.startsWith("/api/")
+    ? NextResponse.json({ success: false, error: "Session expired", errorCode: "SESSION_EXPIRED" }, { status: 401 })
+    : NextResponse.redirect(loginUrl(request));
+  res.cookies.delete(COOKIE_NAME);
+  res.cookies.delete(SUPER_ADMIN_COOKIE);
+  res.cookies.delete(REFRESH_COOKIE);
+  res.cookies.delete(SUPER_ADMIN_REFRESH_COOKIE);
+  return res;
+}
+
+/**
+ * Continue to the route; after a refresh the handler must see the new access
+ * token, so the request cookies are rewritten as well
+ */
+function continueRequest(request: NextRequest, refreshed: IssuedSession | null) {
+  if (!refreshed) return NextResponse.next();
+
+  const isSuperAdmin = refreshed.payload.isSuperAdmin;
+  request.cookies.set(isSuperAdmin ? SUPER_ADMIN_COOKIE : COOKIE_NAME, refreshed.accessToken);
+  if (refreshed.refreshToken) {
+    request.cookies.set(isSuperAdmin ? SUPER_ADMIN_REFRESH_COOKIE : REFRESH_COOKIE, refreshed.refreshToken);
   }
+  const headers = new Headers(request.headers);
+  headers.set("cookie", request.cookies.toString());
+
+  return applyRefreshedCookies(NextResponse.next({ request: { headers } }), refreshed);
+}
+
+function applyRefreshedCookies(res: NextResponse, refreshed: IssuedSession | null) {
+  if (!refreshed) return res;
+
+  const isSuperAdmin = refreshed.payload.isSuperAdmin;
+  res.cookies.set(
+    isSuperAdmin ? SUPER_ADMIN_COOKIE : COOKIE_NAME,
+    refreshed.accessToken,
+    getSessionCookieOptions(ACCESS_TOKEN_TTL_SECONDS)
+  );
+  if (refreshed.refreshToken) {
+    res.cookies.set(
+      isSuperAdmin ? SUPER_ADMIN_REFRESH_COOKIE : REFRESH_COOKIE,
+      refreshed.refreshToken,
+      getSessionCookieOptions(REFRESH_TOKEN_TTL_SECONDS)
+    );
+  }
+  return res;
 }
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
+  const isApi = pathname.startsWith("/api/");
 
-  if (publicPaths.some((p) => pathname === p || pathname.startsWith("/api/auth/"))) {
+  if (publicPaths.includes(pathname) || publicApiPrefixes.some((p) => pathname.startsWith(p))) {
     return NextResponse.next();
   }
 
   const superToken = request.cookies.get(SUPER_ADMIN_COOKIE)?.value;
   const tenantToken = request.cookies.get(COOKIE_NAME)?.value;
   const token = superToken ?? tenantToken;
+  const refreshToken =
+    request.cookies.get(SUPER_ADMIN_REFRESH_COOKIE)?.value ?? request.cookies.get(REFRESH_COOKIE)?.value;
 
-  if (!token) {
-    if (pathname.startsWith("/superadmin")) {
-      return NextResponse.redirect(new URL("/superadmin/login", request.url));
-    }
-    return NextResponse.redirect(new URL("/login", request.url));
+  if (!token && !refreshToken) {
+    // API routes answer unauthenticated calls themselves
+    if (isApi) return NextResponse.next();
+    return NextResponse.redirect(loginUrl(request));
   }
 
-  const payload = await getPayload(token);
-  if (!payload) {
-    const res = pathname.startsWith("/superadmin")
-      ? NextResponse.redirect(new URL("/superadmin/login", request.url))
-      : NextResponse.redirect(new URL("/login", request.url));
-    res.cookies.delete(COOKIE_NAME);
-    res.cookies.delete(SUPER_ADMIN_COOKIE);
-    return res;
+  let payload = token ? await verifyToken(token) : null;
+  let refreshed: IssuedSession | null = null;
+
+  if (payload) {
+    // Tokens issued before sessions existed carry no sessionId
+    if (!payload.sessionId || !(await sessionService.isActive(payload.sessionId))) {
+      return rejectSession(request);
+    }
+  } else {
+    if (!refreshToken) return rejectSession(request);
+
+    const result = await sessionService.refresh(refreshToken, getSessionMeta(request));
+    if (!result.success || !result.data) return rejectSession(request);
+
+    refreshed = result.data;
+    payload = refreshed.payload;
   }
 
   if (pathname.startsWith("/superadmin")) {
     if (!payload.isSuperAdmin) {
-      return NextResponse.redirect(new URL("/login", request.url));
+      return applyRefreshedCookies(NextResponse.redirect(new URL("/login", request.url)), refreshed);
     }
-    return NextResponse.next();
+    return continueRequest(request, refreshed);
   }
 
   if (pathname.startsWith("/admin") || pathname === "/dashboard" || pathname === "/departments") {
     if (payload.isSuperAdmin) {
-      return NextResponse.redirect(new URL("/superadmin/dashboard", request.url));
+      return applyRefreshedCookies(NextResponse.redirect(new URL("/superadmin/dashboard", request.url)), refreshed);
     }
-    return NextResponse.next();
+    return continueRequest(request, refreshed);
   }
 
-  return NextResponse.next();
+  return continueRequest(request, refreshed);
 }
 
-// Protect all tenant and superadmin routes
+// Protect all tenant and superadmin routes. Session lookups use Prisma, so the
+// middleware runs on the Node.js runtime.
 export const config = {
+  runtime: "nodejs",
   matcher: [
     '/dashboard/:path*',
     '/patients/:path*',
@@ -88,6 +149,11 @@ export const config = {
     '/visits/:path*',
     '/prescriptions/:path*',
     '/doctor/:path*',
+    '/ipd/:path*',
+    '/lab/:path*',
+    '/pharmacy/:path*',
+    '/account/:path*',
     '/superadmin/:path*',
+    '/api/:path*',
   ],
 };
@@ -2,7 +2,8 @@ import "dotenv/config";
 import { PrismaClient } from "../app/generated/prisma/client";
 import { PrismaPg } from "@prisma/adapter-pg";
 import bcrypt from "bcryptjs";
-import { PERMISSION_CODES, SYSTEM_ROLE_CODES, SUPER_ADMIN_USERNAME, SUPER_ADMIN_DEFAULT_PASSWORD } from "../lib/constants";
+import crypto from "crypto";
+import { PERMISSION_CODES, SYSTEM_ROLE_CODES, SUPER_ADMIN_USERNAME } from "../lib/constants";
 
 const connectionString = process.env.DATABASE_URL;
 if (!connectionString) throw new Error("DATABASE_URL required");
@@ -12,12 +13,14 @@ const prisma = new PrismaClient({ adapter });
 
 async function main() {
   const saltRounds = 12;
-  const superAdminHash = await bcrypt.hash(SUPER_ADMIN_DEFAULT_PASSWORD, saltRounds);
 
   const existingSuperAdmin = await prisma.user.findFirst({
     where: { username: SUPER_ADMIN_USERNAME, tenantId: null },
   });
   if (!existingSuperAdmin) {
+    // SUPER_ADMIN_PASSWORD, or a random one printed once below
+    const superAdminPassword = process.env.SUPER_ADMIN_PASSWORD || crypto.randomBytes(12).toString("base64url");
+    const superAdminHash = await bcrypt.hash(superAdminPassword, saltRounds);
     await prisma.user.create({
       data: {
         email: "superadmin@hms.cloud",
@@ -28,7 +31,11 @@ async function main() {
         isActive: true,
       },
     });
-    console.log("Super admin user created (username: superadmin, password: 224466)");
+    console.log(
+      process.env.SUPER_ADMIN_PASSWORD
+        ? `Super admin user created (username: ${SUPER_ADMIN_USERNAME}, password from SUPER_ADMIN_PASSWORD)`
+        : `Super admin user created (username: ${SUPER_ADMIN_USERNAME}, password: ${superAdminPassword}) - store it now, it is not shown again`
+    );
   }
 
   for (const code of PERMISSION_CODES) {
@@ -133,6 +140,7 @@ async function main() {
           "PAYMENT_CREATE",
           "PAYMENT_VIEW",
           "PAYMENT_EDIT",
+          "CASHIER_SHIFT_OPERATE",
           "REPORTS_VIEW",
         ];
       }
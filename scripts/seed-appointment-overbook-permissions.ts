@@ -0,0 +1,58 @@
+/**
+ * Appointment overbooking permission seeder.
+ * Run: npx tsx scripts/seed-appointment-overbook-permissions.ts
+ *
+ * Adds the APPOINTMENT_OVERBOOK permission and assigns it to every ADMIN role.
+ */
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "../app/generated/prisma/client";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter });
+
+const OVERBOOK_PERMISSION = {
+  code: "APPOINTMENT_OVERBOOK",
+  name: "Overbook Appointments",
+  description: "Book beyond a doctor's slot or daily capacity with a recorded reason",
+  module: "APPOINTMENT",
+};
+
+async function main() {
+  console.log("Seeding appointment overbooking permission...\n");
+
+  const permission = await prisma.permission.upsert({
+    where: { code: OVERBOOK_PERMISSION.code },
+    create: OVERBOOK_PERMISSION,
+    update: {},
+  });
+  console.log(`  ✓ ${OVERBOOK_PERMISSION.code}`);
+
+  const adminRoles = await prisma.role.findMany({
+    where: { code: "ADMIN" },
+    select: { id: true },
+  });
+
+  let linked = 0;
+  for (const role of adminRoles) {
+    try {
+      await prisma.rolePermission.create({ data: { roleId: role.id, permissionId: permission.id } });
+      linked++;
+    } catch {
+      // Already linked (unique constraint)
+    }
+  }
+
+  console.log(`\n${adminRoles.length} ADMIN role(s) processed, ${linked} new link(s) created`);
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,58 @@
+/**
+ * Appointment reconciliation permission seeder.
+ * Run: npx tsx scripts/seed-appointment-reconciliation-permissions.ts
+ *
+ * Adds the APPOINTMENT_RECONCILE permission and assigns it to every ADMIN role.
+ */
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "../app/generated/prisma/client";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter });
+
+const RECONCILE_PERMISSION = {
+  code: "APPOINTMENT_RECONCILE",
+  name: "Reconcile Appointments",
+  description: "Review end-of-day NO_SHOW reconciliation and undo changes",
+  module: "APPOINTMENT",
+};
+
+async function main() {
+  console.log("Seeding appointment reconciliation permission...\n");
+
+  const permission = await prisma.permission.upsert({
+    where: { code: RECONCILE_PERMISSION.code },
+    create: RECONCILE_PERMISSION,
+    update: {},
+  });
+  console.log(`  ✓ ${RECONCILE_PERMISSION.code}`);
+
+  const adminRoles = await prisma.role.findMany({
+    where: { code: "ADMIN" },
+    select: { id: true },
+  });
+
+  let linked = 0;
+  for (const role of adminRoles) {
+    try {
+      await prisma.rolePermission.create({ data: { roleId: role.id, permissionId: permission.id } });
+      linked++;
+    } catch {
+      // Already linked (unique constraint)
+    }
+  }
+
+  console.log(`\n${adminRoles.length} ADMIN role(s) processed, ${linked} new link(s) created`);
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,94 @@
+/**
+ * Cashier shift permission seeder.
+ * Run: npx tsx scripts/seed-cashier-shift-permissions.ts
+ *
+ * Adds the cashier shift / day-end reconciliation permissions, assigns all of them to every
+ * ADMIN role and CASHIER_SHIFT_OPERATE to the BILLING and ACCOUNTANT counter roles.
+ */
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "../app/generated/prisma/client";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter });
+
+const SHIFT_PERMISSIONS = [
+  {
+    code: "CASHIER_SHIFT_OPERATE",
+    name: "Operate Cashier Shift",
+    description: "Open and close own cash counter shift with denomination count",
+    module: "BILLING",
+  },
+  {
+    code: "CASHIER_SHIFT_VIEW",
+    name: "View Cashier Shifts",
+    description: "View all cashier shifts and the day-end collection report",
+    module: "BILLING",
+  },
+  {
+    code: "CASHIER_SHIFT_APPROVE",
+    name: "Sign Off Cashier Shifts",
+    description: "Supervisor sign-off of closed shifts and their cash variance",
+    module: "BILLING",
+  },
+];
+
+const COUNTER_ROLE_CODES = ["BILLING", "ACCOUNTANT"];
+
+async function linkPermissions(roleIds: string[], permissionIds: string[]): Promise<number> {
+  let linked = 0;
+  for (const roleId of roleIds) {
+    for (const permissionId of permissionIds) {
+      try {
+        await prisma.rolePermission.create({ data: { roleId, permissionId } });
+        linked++;
+      } catch {
+        // Already linked (unique constraint)
+      }
+    }
+  }
+  return linked;
+}
+
+async function main() {
+  console.log("Seeding cashier shift permissions...\n");
+
+  const permissionIds = new Map<string, string>();
+  for (const perm of SHIFT_PERMISSIONS) {
+    const permission = await prisma.permission.upsert({
+      where: { code: perm.code },
+      create: perm,
+      update: {},
+    });
+    permissionIds.set(perm.code, permission.id);
+    console.log(`  ✓ ${perm.code}`);
+  }
+
+  const adminRoles = await prisma.role.findMany({
+    where: { code: "ADMIN" },
+    select: { id: true },
+  });
+  const counterRoles = await prisma.role.findMany({
+    where: { code: { in: COUNTER_ROLE_CODES } },
+    select: { id: true },
+  });
+
+  const linked =
+    (await linkPermissions(adminRoles.map((r) => r.id), [...permissionIds.values()])) +
+    (await linkPermissions(counterRoles.map((r) => r.id), [permissionIds.get("CASHIER_SHIFT_OPERATE")!]));
+
+  console.log(
+    `\n${adminRoles.length} ADMIN and ${counterRoles.length} counter role(s) processed, ${linked} new link(s) created`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
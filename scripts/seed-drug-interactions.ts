@@ -0,0 +1,80 @@
+/**
+ * Drug interaction rule base seeder (global rules).
+ * Run: npx tsx scripts/seed-drug-interactions.ts
+ *
+ * Each side is a generic name or a Medicine.drugClass (lower-case). Set
+ * drugClass on the Medicine master (e.g. "nsaid", "ssri") for class rules
+ * to apply. Tenant-specific rules with the same pair take precedence.
+ */
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient, InteractionSeverity } from "../app/generated/prisma/client";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter });
+
+const RULES: Array<{ drugA: string; drugB: string; severity: InteractionSeverity; description: string; management?: string }> = [
+  { drugA: "warfarin", drugB: "nsaid", severity: "MAJOR", description: "Increased risk of bleeding", management: "Avoid; use paracetamol for analgesia" },
+  { drugA: "warfarin", drugB: "aspirin", severity: "MAJOR", description: "Increased risk of bleeding", management: "Avoid unless specifically indicated; monitor INR" },
+  { drugA: "warfarin", drugB: "metronidazole", severity: "MAJOR", description: "Potentiates anticoagulant effect (raised INR)", management: "Reduce warfarin dose and monitor INR" },
+  { drugA: "warfarin", drugB: "fluconazole", severity: "MAJOR", description: "Potentiates anticoagulant effect (raised INR)", management: "Monitor INR closely" },
+  { drugA: "clopidogrel", drugB: "omeprazole", severity: "MODERATE", description: "Reduced antiplatelet effect of clopidogrel", management: "Prefer pantoprazole" },
+  { drugA: "ace inhibitor", drugB: "spironolactone", severity: "MAJOR", description: "Risk of hyperkalaemia", management: "Monitor serum potassium and renal function" },
+  { drugA: "ace inhibitor", drugB: "nsaid", severity: "MODERATE", description: "Reduced antihypertensive effect; risk of renal impairment", management: "Monitor BP and renal function" },
+  { drugA: "sildenafil", drugB: "nitrate", severity: "MAJOR", description: "Severe hypotension", management: "Contraindicated" },
+  { drugA: "simvastatin", drugB: "clarithromycin", severity: "MAJOR", description: "Risk of myopathy / rhabdomyolysis", management: "Withhold statin during the macrolide course" },
+  { drugA: "simvastatin", drugB: "itraconazole", severity: "MAJOR", description: "Risk of myopathy / rhabdomyolysis", management: "Contraindicated" },
+  { drugA: "methotrexate", drugB: "trimethoprim", severity: "MAJOR", description: "Increased methotrexate toxicity (bone marrow suppression)", management: "Avoid combination" },
+  { drugA: "ssri", drugB: "tramadol", severity: "MAJOR", description: "Risk of serotonin syndrome and seizures", management: "Avoid or use lowest doses with monitoring" },
+  { drugA: "ssri", drugB: "maoi", severity: "MAJOR", description: "Risk of serotonin syndrome", management: "Contraindicated" },
+  { drugA: "digoxin", drugB: "amiodarone", severity: "MAJOR", description: "Raised digoxin levels (toxicity)", management: "Halve digoxin dose and monitor levels" },
+  { drugA: "lithium", drugB: "nsaid", severity: "MAJOR", description: "Raised lithium levels (toxicity)", management: "Avoid; monitor lithium levels if unavoidable" },
+  { drugA: "ciprofloxacin", drugB: "theophylline", severity: "MAJOR", description: "Raised theophylline levels (seizure risk)", management: "Avoid or reduce theophylline dose" },
+  { drugA: "beta blocker", drugB: "verapamil", severity: "MAJOR", description: "Risk of bradycardia, AV block and heart failure", management: "Avoid combination" },
+  { drugA: "allopurinol", drugB: "azathioprine", severity: "MAJOR", description: "Increased azathioprine toxicity", management: "Reduce azathioprine dose to a quarter" },
+  { drugA: "fluoroquinolone", drugB: "antacid", severity: "MODERATE", description: "Reduced fluoroquinolone absorption", management: "Give the antibiotic 2 hours before the antacid" },
+  { drugA: "tetracycline", drugB: "antacid", severity: "MODERATE", description: "Reduced tetracycline absorption", management: "Separate doses by 2-3 hours" },
+  { drugA: "levothyroxine", drugB: "calcium carbonate", severity: "MINOR", description: "Reduced levothyroxine absorption", management: "Separate doses by 4 hours" },
+];
+
+async function main() {
+  console.log("Seeding drug interaction rules...\n");
+
+  let created = 0;
+  let updated = 0;
+  for (const rule of RULES) {
+    const drugA = rule.drugA.toLowerCase();
+    const drugB = rule.drugB.toLowerCase();
+    const existing = await prisma.drugInteractionRule.findFirst({
+      where: { tenantId: null, drugA, drugB },
+      select: { id: true },
+    });
+
+    if (existing) {
+      await prisma.drugInteractionRule.update({
+        where: { id: existing.id },
+        data: { severity: rule.severity, description: rule.description, management: rule.management ?? null },
+      });
+      updated++;
+    } else {
+      await prisma.drugInteractionRule.create({
+        data: { tenantId: null, drugA, drugB, severity: rule.severity, description: rule.description, management: rule.management ?? null },
+      });
+      created++;
+    }
+    console.log(`  ✓ ${drugA} + ${drugB} (${rule.severity})`);
+  }
+
+  console.log(`\n${created} rule(s) created, ${updated} updated`);
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
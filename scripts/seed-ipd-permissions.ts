@@ -0,0 +1,69 @@
+/**
+ * Inpatient (IPD) permissions seeder.
+ * Run: npx tsx scripts/seed-ipd-permissions.ts
+ *
+ * Adds admission, transfer, discharge, discharge summary and ward/bed master
+ * permissions and assigns them to every ADMIN role. Assign them to nursing,
+ * front office and doctor roles from Admin → Roles.
+ */
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "../app/generated/prisma/client";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter });
+
+const IPD_PERMISSIONS = [
+  { code: "IPD_VIEW", name: "View Admissions", description: "View bed board and admissions", module: "IPD" },
+  { code: "IPD_ADMIT", name: "Admit Patients", description: "Admit patients and update bed status", module: "IPD" },
+  { code: "IPD_TRANSFER", name: "Transfer Patients", description: "Transfer admitted patients between beds/wards", module: "IPD" },
+  { code: "IPD_DISCHARGE", name: "Discharge Patients", description: "Discharge admitted patients", module: "IPD" },
+  { code: "IPD_MASTER_MANAGE", name: "Manage Wards & Beds", description: "Create and edit wards, rooms and beds", module: "IPD" },
+  { code: "IPD_DISCHARGE_SUMMARY_EDIT", name: "Write Discharge Summaries", description: "Draft discharge summaries for admissions", module: "IPD" },
+  { code: "IPD_DISCHARGE_SUMMARY_FINALIZE", name: "Finalize Discharge Summaries", description: "Finalize and lock discharge summaries", module: "IPD" },
+];
+
+async function main() {
+  console.log("Seeding IPD permissions...\n");
+
+  const permissionIds: string[] = [];
+  for (const perm of IPD_PERMISSIONS) {
+    const permission = await prisma.permission.upsert({
+      where: { code: perm.code },
+      create: perm,
+      update: {},
+    });
+    permissionIds.push(permission.id);
+    console.log(`  ✓ ${perm.code}`);
+  }
+
+  const adminRoles = await prisma.role.findMany({
+    where: { code: "ADMIN" },
+    select: { id: true, tenantId: true },
+  });
+
+  let linked = 0;
+  for (const role of adminRoles) {
+    for (const permissionId of permissionIds) {
+      try {
+        await prisma.rolePermission.create({ data: { roleId: role.id, permissionId } });
+        linked++;
+      } catch {
+        // Already linked (unique constraint)
+      }
+    }
+  }
+
+  console.log(`\n${adminRoles.length} ADMIN role(s) processed, ${linked} new link(s) created`);
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
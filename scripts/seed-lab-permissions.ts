@@ -0,0 +1,62 @@
+/**
+ * Laboratory workflow permissions seeder.
+ * Run: npx tsx scripts/seed-lab-permissions.ts
+ *
+ * Adds LAB_RESULT_VERIFY (pathologist sign-off) and assigns it to every ADMIN role.
+ * Assign it to pathologist roles from Admin → Roles.
+ */
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "../app/generated/prisma/client";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter });
+
+const LAB_PERMISSIONS = [
+  { code: "LAB_RESULT_VERIFY", name: "Verify Lab Results", description: "Verify lab results as pathologist", module: "LAB" },
+];
+
+async function main() {
+  console.log("Seeding laboratory permissions...\n");
+
+  const permissionIds: string[] = [];
+  for (const perm of LAB_PERMISSIONS) {
+    const permission = await prisma.permission.upsert({
+      where: { code: perm.code },
+      create: perm,
+      update: {},
+    });
+    permissionIds.push(permission.id);
+    console.log(`  ✓ ${perm.code}`);
+  }
+
+  const adminRoles = await prisma.role.findMany({
+    where: { code: "ADMIN" },
+    select: { id: true, tenantId: true },
+  });
+
+  let linked = 0;
+  for (const role of adminRoles) {
+    for (const permissionId of permissionIds) {
+      try {
+        await prisma.rolePermission.create({ data: { roleId: role.id, permissionId } });
+        linked++;
+      } catch {
+        // Already linked (unique constraint)
+      }
+    }
+  }
+
+  console.log(`\n${adminRoles.length} ADMIN role(s) processed, ${linked} new link(s) created`);
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
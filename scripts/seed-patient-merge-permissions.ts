@@ -0,0 +1,58 @@
+/**
+ * Patient merge permission seeder.
+ * Run: npx tsx scripts/seed-patient-merge-permissions.ts
+ *
+ * Adds the PATIENT_MERGE permission and assigns it to every ADMIN role.
+ */
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "../app/generated/prisma/client";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter });
+
+const MERGE_PERMISSION = {
+  code: "PATIENT_MERGE",
+  name: "Merge Patients",
+  description: "Find duplicate UHIDs, merge and unmerge patient records",
+  module: "PATIENT",
+};
+
+async function main() {
+  console.log("Seeding patient merge permission...\n");
+
+  const permission = await prisma.permission.upsert({
+    where: { code: MERGE_PERMISSION.code },
+    create: MERGE_PERMISSION,
+    update: {},
+  });
+  console.log(`  ✓ ${MERGE_PERMISSION.code}`);
+
+  const adminRoles = await prisma.role.findMany({
+    where: { code: "ADMIN" },
+    select: { id: true },
+  });
+
+  let linked = 0;
+  for (const role of adminRoles) {
+    try {
+      await prisma.rolePermission.create({ data: { roleId: role.id, permissionId: permission.id } });
+      linked++;
+    } catch {
+      // Already linked (unique constraint)
+    }
+  }
+
+  console.log(`\n${adminRoles.length} ADMIN role(s) processed, ${linked} new link(s) created`);
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
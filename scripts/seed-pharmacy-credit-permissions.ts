@@ -0,0 +1,72 @@
+/**
+ * Pharmacy credit settlement permission seeder.
+ * Run: npx tsx scripts/seed-pharmacy-credit-permissions.ts
+ *
+ * Adds the credit settlement / credit limit permissions and assigns them to every ADMIN role.
+ */
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "../app/generated/prisma/client";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter });
+
+const CREDIT_PERMISSIONS = [
+  {
+    code: "PHARMACY_CREDIT_SETTLE",
+    name: "Settle Pharmacy Credit",
+    description: "Record repayments against outstanding pharmacy credit and send reminders",
+    module: "PHARMACY",
+  },
+  {
+    code: "PHARMACY_CREDIT_LIMIT_EDIT",
+    name: "Edit Pharmacy Credit Limits",
+    description: "Set the per-patient limit for pharmacy credit sales",
+    module: "PHARMACY",
+  },
+];
+
+async function main() {
+  console.log("Seeding pharmacy credit permissions...\n");
+
+  const permissionIds: string[] = [];
+  for (const perm of CREDIT_PERMISSIONS) {
+    const permission = await prisma.permission.upsert({
+      where: { code: perm.code },
+      create: perm,
+      update: {},
+    });
+    permissionIds.push(permission.id);
+    console.log(`  ✓ ${perm.code}`);
+  }
+
+  const adminRoles = await prisma.role.findMany({
+    where: { code: "ADMIN" },
+    select: { id: true },
+  });
+
+  let linked = 0;
+  for (const role of adminRoles) {
+    for (const permissionId of permissionIds) {
+      try {
+        await prisma.rolePermission.create({ data: { roleId: role.id, permissionId } });
+        linked++;
+      } catch {
+        // Already linked (unique constraint)
+      }
+    }
+  }
+
+  console.log(`\n${adminRoles.length} ADMIN role(s) processed, ${linked} new link(s) created`);
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
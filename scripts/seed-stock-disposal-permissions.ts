@@ -0,0 +1,102 @@
+/**
+ * Vendor return / write-off permission seeder.
+ * Run: npx tsx scripts/seed-stock-disposal-permissions.ts
+ *
+ * Adds the VENDOR_RETURN_* and STOCK_WRITE_OFF_* permissions and assigns them to every ADMIN role.
+ */
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "../app/generated/prisma/client";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter });
+
+const DISPOSAL_PERMISSIONS = [
+  {
+    code: "VENDOR_RETURN_VIEW",
+    name: "View Vendor Returns",
+    description: "View supplier returns and debit notes",
+    module: "PHARMACY",
+  },
+  {
+    code: "VENDOR_RETURN_CREATE",
+    name: "Create Vendor Returns",
+    description: "Raise and cancel draft supplier returns against GRN batches",
+    module: "PHARMACY",
+  },
+  {
+    code: "VENDOR_RETURN_APPROVE",
+    name: "Approve Vendor Returns",
+    description: "Approve supplier returns, post stock out and issue debit notes",
+    module: "PHARMACY",
+  },
+  {
+    code: "STOCK_WRITE_OFF_VIEW",
+    name: "View Write-off Register",
+    description: "View the stock write-off and destruction register",
+    module: "PHARMACY",
+  },
+  {
+    code: "STOCK_WRITE_OFF_CREATE",
+    name: "Raise Stock Write-offs",
+    description: "Raise and cancel write-offs for expired or damaged stock",
+    module: "PHARMACY",
+  },
+  {
+    code: "STOCK_WRITE_OFF_WITNESS",
+    name: "Witness Stock Write-offs",
+    description: "Sign as witness to the destruction of scheduled drugs",
+    module: "PHARMACY",
+  },
+  {
+    code: "STOCK_WRITE_OFF_APPROVE",
+    name: "Approve Stock Write-offs",
+    description: "Approve or reject write-offs and post stock out",
+    module: "PHARMACY",
+  },
+];
+
+async function main() {
+  console.log("Seeding vendor return and write-off permissions...\n");
+
+  const permissionIds: string[] = [];
+  for (const perm of DISPOSAL_PERMISSIONS) {
+    const permission = await prisma.permission.upsert({
+      where: { code: perm.code },
+      create: perm,
+      update: {},
+    });
+    permissionIds.push(permission.id);
+    console.log(`  ✓ ${perm.code}`);
+  }
+
+  const adminRoles = await prisma.role.findMany({
+    where: { code: "ADMIN" },
+    select: { id: true },
+  });
+
+  let linked = 0;
+  for (const role of adminRoles) {
+    for (const permissionId of permissionIds) {
+      try {
+        await prisma.rolePermission.create({ data: { roleId: role.id, permissionId } });
+        linked++;
+      } catch {
+        // Already linked (unique constraint)
+      }
+    }
+  }
+
+  console.log(`\n${adminRoles.length} ADMIN role(s) processed, ${linked} new link(s) created`);
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
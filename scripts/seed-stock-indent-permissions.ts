@@ -0,0 +1,90 @@
+/**
+ * Inter-store stock transfer (indent) permission seeder.
+ * Run: npx tsx scripts/seed-stock-indent-permissions.ts
+ *
+ * Adds the STOCK_INDENT_* permissions and assigns them to every ADMIN role.
+ */
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "../app/generated/prisma/client";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter });
+
+const INDENT_PERMISSIONS = [
+  {
+    code: "STOCK_INDENT_VIEW",
+    name: "View Stock Indents",
+    description: "View inter-store indents and in-transit stock",
+    module: "PHARMACY",
+  },
+  {
+    code: "STOCK_INDENT_CREATE",
+    name: "Raise Stock Indents",
+    description: "Raise and cancel indents on the central store",
+    module: "PHARMACY",
+  },
+  {
+    code: "STOCK_INDENT_APPROVE",
+    name: "Approve Stock Indents",
+    description: "Approve or reject indent quantities at the central store",
+    module: "PHARMACY",
+  },
+  {
+    code: "STOCK_INDENT_ISSUE",
+    name: "Issue Stock Indents",
+    description: "Pick and issue approved indents from the central store",
+    module: "PHARMACY",
+  },
+  {
+    code: "STOCK_INDENT_RECEIVE",
+    name: "Receive Stock Transfers",
+    description: "Receive issued transfers and record shortfalls",
+    module: "PHARMACY",
+  },
+];
+
+async function main() {
+  console.log("Seeding stock indent permissions...\n");
+
+  const permissionIds: string[] = [];
+  for (const perm of INDENT_PERMISSIONS) {
+    const permission = await prisma.permission.upsert({
+      where: { code: perm.code },
+      create: perm,
+      update: {},
+    });
+    permissionIds.push(permission.id);
+    console.log(`  ✓ ${perm.code}`);
+  }
+
+  const adminRoles = await prisma.role.findMany({
+    where: { code: "ADMIN" },
+    select: { id: true },
+  });
+
+  let linked = 0;
+  for (const role of adminRoles) {
+    for (const permissionId of permissionIds) {
+      try {
+        await prisma.rolePermission.create({ data: { roleId: role.id, permissionId } });
+        linked++;
+      } catch {
+        // Already linked (unique constraint)
+      }
+    }
+  }
+
+  console.log(`\n${adminRoles.length} ADMIN role(s) processed, ${linked} new link(s) created`);
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
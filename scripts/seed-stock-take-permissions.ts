@@ -0,0 +1,84 @@
+/**
+ * Stock take permission seeder.
+ * Run: npx tsx scripts/seed-stock-take-permissions.ts
+ *
+ * Adds the STOCK_TAKE_* permissions and assigns them to every ADMIN role.
+ */
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "../app/generated/prisma/client";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter });
+
+const STOCK_TAKE_PERMISSIONS = [
+  {
+    code: "STOCK_TAKE_VIEW",
+    name: "View Stock Takes",
+    description: "View physical stock audit sessions and variance reports",
+    module: "PHARMACY",
+  },
+  {
+    code: "STOCK_TAKE_CREATE",
+    name: "Start Stock Takes",
+    description: "Start, submit and cancel stock take sessions",
+    module: "PHARMACY",
+  },
+  {
+    code: "STOCK_TAKE_COUNT",
+    name: "Enter Stock Counts",
+    description: "Enter physical counts against a stock take",
+    module: "PHARMACY",
+  },
+  {
+    code: "STOCK_TAKE_APPROVE",
+    name: "Approve Stock Take Variances",
+    description: "Approve variances and post stock adjustments, or send back for recount",
+    module: "PHARMACY",
+  },
+];
+
+async function main() {
+  console.log("Seeding stock take permissions...\n");
+
+  const permissionIds: string[] = [];
+  for (const perm of STOCK_TAKE_PERMISSIONS) {
+    const permission = await prisma.permission.upsert({
+      where: { code: perm.code },
+      create: perm,
+      update: {},
+    });
+    permissionIds.push(permission.id);
+    console.log(`  ✓ ${perm.code}`);
+  }
+
+  const adminRoles = await prisma.role.findMany({
+    where: { code: "ADMIN" },
+    select: { id: true },
+  });
+
+  let linked = 0;
+  for (const role of adminRoles) {
+    for (const permissionId of permissionIds) {
+      try {
+        await prisma.rolePermission.create({ data: { roleId: role.id, permissionId } });
+        linked++;
+      } catch {
+        // Already linked (unique constraint)
+      }
+    }
+  }
+
+  console.log(`\n${adminRoles.length} ADMIN role(s) processed, ${linked} new link(s) created`);
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
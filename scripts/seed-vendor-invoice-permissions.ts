@@ -0,0 +1,97 @@
+/**
+ * Vendor contract & invoice permission seeder.
+ * Run: npx tsx scripts/seed-vendor-invoice-permissions.ts
+ *
+ * Adds the VENDOR_CONTRACT_* and VENDOR_INVOICE_* permissions and assigns
+ * them to every ADMIN role.
+ */
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "../app/generated/prisma/client";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter });
+
+const VENDOR_INVOICE_PERMISSIONS = [
+  {
+    code: "VENDOR_CONTRACT_VIEW",
+    name: "View Vendor Rate Contracts",
+    description: "View vendor rate contracts and their validity",
+    module: "PHARMACY",
+  },
+  {
+    code: "VENDOR_CONTRACT_MANAGE",
+    name: "Manage Vendor Rate Contracts",
+    description: "Create, edit and delete vendor rate contracts",
+    module: "PHARMACY",
+  },
+  {
+    code: "VENDOR_INVOICE_VIEW",
+    name: "View Vendor Invoices",
+    description: "View vendor invoices and the three-way match report",
+    module: "PHARMACY",
+  },
+  {
+    code: "VENDOR_INVOICE_CREATE",
+    name: "Capture Vendor Invoices",
+    description: "Capture vendor invoices against goods receipts and cancel them",
+    module: "PHARMACY",
+  },
+  {
+    code: "VENDOR_INVOICE_APPROVE_VARIANCE",
+    name: "Approve Invoice Variances",
+    description: "Approve PO/GRN/invoice quantity and price variances (purchase manager)",
+    module: "PHARMACY",
+  },
+  {
+    code: "VENDOR_INVOICE_PAYABLE",
+    name: "Mark Vendor Invoices Payable",
+    description: "Release matched or variance-approved vendor invoices for payment",
+    module: "PHARMACY",
+  },
+];
+
+async function main() {
+  console.log("Seeding vendor contract & invoice permissions...\n");
+
+  const permissionIds: string[] = [];
+  for (const perm of VENDOR_INVOICE_PERMISSIONS) {
+    const permission = await prisma.permission.upsert({
+      where: { code: perm.code },
+      create: perm,
+      update: {},
+    });
+    permissionIds.push(permission.id);
+    console.log(`  ✓ ${perm.code}`);
+  }
+
+  const adminRoles = await prisma.role.findMany({
+    where: { code: "ADMIN" },
+    select: { id: true },
+  });
+
+  let linked = 0;
+  for (const role of adminRoles) {
+    for (const permissionId of permissionIds) {
+      try {
+        await prisma.rolePermission.create({ data: { roleId: role.id, permissionId } });
+        linked++;
+      } catch {
+        // Already linked (unique constraint)
+      }
+    }
+  }
+
+  console.log(`\n${adminRoles.length} ADMIN role(s) processed, ${linked} new link(s) created`);
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,6 +1,9 @@
-import { Worker, Job } from "bullmq";
+import { Queue, Worker, Job } from "bullmq";
 import { prisma } from "@/lib/prisma";
 import IORedis from "ioredis";
+import { escalateOverdueCriticalAlerts } from "@/lib/services/lab/critical-alert.service";
+import { appointmentReconciliationService } from "@/lib/services/appointmentReconciliationService";
+import { appointmentWaitlistService } from "@/lib/services/appointmentWaitlistService";
 
 /**
  * HMS Reporting Worker
@@ -29,6 +32,21 @@ const reportingWorker = new Worker(
         await prisma.$executeRawUnsafe(`REFRESH MATERIALIZED VIEW CONCURRENTLY mv_current_stock`);
         break;
 
+      case "ESCALATE_CRITICAL_LAB_ALERTS":
+        // Escalates critical lab alerts left unacknowledged past the tenant's window
+        await escalateOverdueCriticalAlerts(tenantId || undefined);
+        break;
+
+      case "RECONCILE_APPOINTMENTS":
+        // Marks NO_SHOW and closes stale visits for tenants past their cutoff time
+        await appointmentReconciliationService.runDue();
+        break;
+
+      case "EXPIRE_WAITLIST_OFFERS":
+        // Passes lapsed waitlist offers to the next patient and expires past entries
+        await appointmentWaitlistService.processExpiredOffers(tenantId || undefined);
+        break;
+
       case "AGGREGATE_MONTHLY_STATS":
         // Perform heavy monthly aggregation and store in a cache or dedicated table
         // Implementation would go here...
@@ -41,6 +59,41 @@ const reportingWorker = new Worker(
   { connection }
 );
 
+// Tenants have different cutoff times, so the reconciliation sweep runs every
+// 15 minutes and each tenant is reconciled once per day after its cutoff.
+const reportingQueue = new Queue("reporting-queue", { connection });
+reportingQueue
+  .upsertJobScheduler(
+    "appointment-reconciliation",
+    { every: 15 * 60 * 1000 },
+    { name: "RECONCILE_APPOINTMENTS", data: { type: "RECONCILE_APPOINTMENTS" } }
+  )
+  .catch((err) => {
+    console.error(`[ReportingWorker] Failed to schedule appointment reconciliation: ${err.message}`);
+  });
+
+reportingQueue
+  .upsertJobScheduler(
+    "waitlist-offer-expiry",
+    { every: 5 * 60 * 1000 },
+    { name: "EXPIRE_WAITLIST_OFFERS", data: { type: "EXPIRE_WAITLIST_OFFERS" } }
+  )
+  .catch((err) => {
+    console.error(`[ReportingWorker] Failed to schedule waitlist offer expiry: ${err.message}`);
+  });
+
+// Unacknowledged critical values must escalate even when nobody opens the
+// alerts list, so sweep every minute against each tenant's escalation window.
+reportingQueue
+  .upsertJobScheduler(
+    "critical-lab-alert-escalation",
+    { every: 60 * 1000 },
+    { name: "ESCALATE_CRITICAL_LAB_ALERTS", data: { type: "ESCALATE_CRITICAL_LAB_ALERTS" } }
+  )
+  .catch((err) => {
+    console.error(`[ReportingWorker] Failed to schedule critical lab alert escalation: ${err.message}`);
+  });
+
 reportingWorker.on("completed", (job) => {
   console.log(`[ReportingWorker] Job ${job.id} completed successfully.`);
 });